@@ -0,0 +1,118 @@
+import { asc, eq, or } from "drizzle-orm";
+import { decrypt } from "@tg-back/crypto";
+import { db, listenSqlClient, schema, sqlClient } from "@tg-back/db";
+import { loadEnv } from "./utils/env";
+import { importTdesktopExport, republishTdesktopImport } from "./lib/tdesktop-import";
+import { getTelegramProxySettings } from "./lib/settings";
+import { connectTelegramClient } from "./lib/telegram-client";
+
+loadEnv();
+
+const USAGE = `用法: pnpm --filter @tg-back/mirror-service import:tdesktop <导出目录或 result.json> [选项]
+
+选项:
+  --channel <id>      导入到已有的离线源（默认按导出里的频道 id 查找，找不到就新建）
+  --name <名称>        离线源名称（默认用导出里的频道名）
+  --group <分组>       分组名
+  --mirror <频道>      重新发布的目标频道（@username / t.me 链接 / 邀请链接）
+  --republish         导入后用 copy 方式把消息发布到镜像频道
+  --account <名称|id>  重新发布使用的 Telegram 账号（默认第一个启用的账号）`;
+
+const FLOOD_WAIT_AUTO_SLEEP_MAX_SEC = 600;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseArgs(argv: string[]): { exportPath: string | null; flags: Map<string, string | true> } {
+  const flags = new Map<string, string | true>();
+  let exportPath: string | null = null;
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i]!;
+    if (arg === "--republish" || arg === "--help" || arg === "-h") {
+      flags.set(arg.replace(/^-+/, ""), true);
+      continue;
+    }
+    if (arg.startsWith("--")) {
+      const value = argv[i + 1];
+      if (value == null || value.startsWith("--")) throw new Error(`missing value for ${arg}`);
+      flags.set(arg.slice(2), value);
+      i += 1;
+      continue;
+    }
+    if (exportPath) throw new Error(`unexpected argument: ${arg}`);
+    exportPath = arg;
+  }
+  return { exportPath, flags };
+}
+
+function readFlag(flags: Map<string, string | true>, key: string): string | null {
+  const value = flags.get(key);
+  return typeof value === "string" ? value : null;
+}
+
+async function loadAccountSession(selector: string | null): Promise<{ name: string; session: string }> {
+  const rows = await db
+    .select({ id: schema.telegramAccounts.id, name: schema.telegramAccounts.name, session: schema.telegramAccounts.session })
+    .from(schema.telegramAccounts)
+    .where(
+      selector
+        ? UUID_RE.test(selector)
+          ? or(eq(schema.telegramAccounts.id, selector), eq(schema.telegramAccounts.name, selector))
+          : eq(schema.telegramAccounts.name, selector)
+        : eq(schema.telegramAccounts.isActive, true),
+    )
+    .orderBy(asc(schema.telegramAccounts.createdAt))
+    .limit(1);
+  const row = rows[0];
+  if (!row || !row.session.trim()) throw new Error(selector ? `telegram account not found: ${selector}` : "no active telegram account");
+  return { name: row.name, session: decrypt(row.session) };
+}
+
+async function main(): Promise<void> {
+  const { exportPath, flags } = parseArgs(process.argv.slice(2));
+  if (flags.has("help") || flags.has("h") || !exportPath) {
+    console.log(USAGE);
+    if (!exportPath) process.exitCode = 1;
+    return;
+  }
+
+  const result = await importTdesktopExport(
+    {
+      exportPath,
+      sourceChannelId: readFlag(flags, "channel"),
+      name: readFlag(flags, "name"),
+      groupName: readFlag(flags, "group"),
+      mirrorChannelIdentifier: readFlag(flags, "mirror"),
+    },
+    (done, total) => console.log(`imported ${done}/${total}`),
+  );
+  console.log(
+    `import finished: source=${result.sourceChannelId} new=${result.imported} updated=${result.updated} skipped=${result.skipped} media stored=${result.mediaStored} missing=${result.mediaMissing}`,
+  );
+
+  if (!flags.has("republish")) return;
+
+  const account = await loadAccountSession(readFlag(flags, "account"));
+  const proxy = await getTelegramProxySettings();
+  console.log(`republishing with telegram account ${account.name} (via ${proxy.description})`);
+  const { client } = await connectTelegramClient(account.session, {
+    floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC,
+    proxy: proxy.proxy,
+  });
+  try {
+    const republished = await republishTdesktopImport(client, result.sourceChannelId, {
+      floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC,
+    });
+    console.log(`republish finished: sent=${republished.sent} failed=${republished.failed} skipped=${republished.skipped}`);
+  } finally {
+    await client.disconnect().catch(() => {});
+  }
+}
+
+main()
+  .catch((error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await sqlClient.end({ timeout: 5 }).catch(() => {});
+    await listenSqlClient.end({ timeout: 5 }).catch(() => {});
+  });
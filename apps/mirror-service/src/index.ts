@@ -1,24 +1,44 @@
-import { eq } from "drizzle-orm";
-import { db, listenSqlClient, schema, sqlClient } from "@tg-back/db";
+import fs from "node:fs";
+import path from "node:path";
+import { and, eq, inArray } from "drizzle-orm";
+import { db, listenSqlClient, MIRROR_SERVICE_HEARTBEAT_INTERVAL_MS, schema, sqlClient } from "@tg-back/db";
 import { loadEnv } from "./utils/env";
 import { setupFileLogging } from "./utils/file-logging";
 import { sleep } from "./utils/sleep";
+import { ControlRequestError, startControlServer } from "./lib/control-server";
 import { createFloodWaitAutoResumeScheduler } from "./lib/flood-wait-auto-resume";
+import { createGapScanScheduler, getGapScanSettings } from "./lib/gap-scan-scheduler";
 import { getChannelHealthCheckSettings } from "./lib/healthcheck";
 import { createChannelHealthCheckScheduler } from "./lib/healthcheck-scheduler";
-import { MIRROR_SERVICE_HEARTBEAT_INTERVAL_MS, writeMirrorServiceHeartbeat } from "./lib/heartbeat";
+import { getLastMirrorServiceHeartbeatAt, writeMirrorServiceHeartbeat } from "./lib/heartbeat";
+import { createMediaArchiveScheduler } from "./lib/media-archive-scheduler";
+import { getActiveFloodWaits, metrics } from "./lib/metrics";
+import { startMetricsServer } from "./lib/metrics-server";
+import { createMirrorDeletionScheduler } from "./lib/mirror-deletion-scheduler";
+import { createMirrorIntegrityScheduler, getMirrorIntegritySettings } from "./lib/mirror-integrity-scheduler";
+import { createMirrorTargetScheduler } from "./lib/mirror-target-scheduler";
+import { createNotificationScheduler } from "./lib/notification-scheduler";
 import { createRealtimeManager } from "./lib/realtime-manager";
 import { createRetryFailedTasksScheduler } from "./lib/retry-failed-scheduler";
 import { logSyncEvent } from "./lib/sync-events";
 import { createSyncEventsCleanupScheduler } from "./lib/sync-events-cleanup";
 import { createTaskClaimer } from "./lib/task-claimer";
-import { processHistoryFullTask } from "./lib/task-history-full";
+import { createTaskScheduleScheduler } from "./lib/task-schedule-scheduler";
+import { processHistoryFullTask, processHistoryPartialTask } from "./lib/task-history-full";
 import { markTaskFailed } from "./lib/task-lifecycle";
 import { processResolveTask } from "./lib/task-resolve";
 import { processRetryFailedTask } from "./lib/task-retry-failed";
+import {
+  ingestTdesktopImport,
+  prepareTdesktopImport,
+  republishTdesktopImport,
+  resolveTdesktopStagingDir,
+  type PreparedTdesktopImport,
+} from "./lib/tdesktop-import";
 import { notifyTasksChanged } from "./lib/tasks-notify";
-import { getTelegramClient } from "./lib/telegram-client";
-import { getTaskRunnerSettings } from "./lib/settings";
+import { createTelegramAccountPool, type TelegramAccountRuntime } from "./lib/telegram-account-pool";
+import { TelegramConfigError } from "./lib/telegram-client";
+import { clearSettingsCaches, getTaskRunnerSettings } from "./lib/settings";
 
 loadEnv();
 const fileLogging = setupFileLogging();
@@ -55,14 +75,14 @@ async function requeueRunningTasks(reason: string): Promise<void> {
   }
 }
 
+const ACCOUNT_DRAIN_TIMEOUT_MS = 30_000;
+
+type TaskRow = { id: string; taskType: (typeof schema.taskTypeEnum.enumValues)[number]; sourceChannelId: string };
+
 async function loop(): Promise<void> {
-  const client = await getTelegramClient({
-    floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC,
-    mirrorStartRetryIntervalSec: MIRROR_START_RETRY_INTERVAL_SEC,
-    mirrorStartRetryIntervalMs: MIRROR_START_RETRY_INTERVAL_MS,
-  });
-  const realtime = createRealtimeManager(client, { floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC });
   const healthSettings = getChannelHealthCheckSettings();
+  const integritySettings = getMirrorIntegritySettings();
+  const gapScanSettings = getGapScanSettings();
   const serviceStartedAt = new Date();
   let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
   let heartbeatInFlight = false;
@@ -70,9 +90,400 @@ async function loop(): Promise<void> {
   await logSyncEvent({ sourceChannelId: null, level: "info", message: "mirror-service started" });
   await requeueRunningTasks("startup");
 
-  const runningTasks = new Map<string, Promise<void>>();
+  // 所有账号共用：同一个频道同一时间只允许一个任务在跑
   const runningChannelIds = new Set<string>();
 
+  /**
+   * 每个在线账号一个执行器：领取分给该账号的任务、实时监听、以及需要 Telegram 连接的后台调度。
+   */
+  const createAccountRunner = (account: TelegramAccountRuntime) => {
+    const { client, scope } = account;
+    const realtime = createRealtimeManager(client, { floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC, scope });
+    const runningTasks = new Map<
+      string,
+      { taskType: TaskRow["taskType"]; sourceChannelId: string; startedAt: number; promise: Promise<void> }
+    >();
+    let lastRealtimeEnsure = 0;
+    let stopped = false;
+
+    const healthScheduler = createChannelHealthCheckScheduler({
+      client,
+      scope,
+      settings: healthSettings,
+      options: { floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC },
+      logSyncEvent,
+    });
+
+    const mirrorDeletionScheduler = createMirrorDeletionScheduler({
+      client,
+      scope,
+      options: { floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC },
+      logSyncEvent,
+    });
+
+    const mediaArchiveScheduler = createMediaArchiveScheduler({
+      client,
+      scope,
+      options: { floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC },
+      logSyncEvent,
+    });
+
+    const mirrorTargetScheduler = createMirrorTargetScheduler({
+      client,
+      scope,
+      options: { floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC },
+      logSyncEvent,
+    });
+
+    const mirrorIntegrityScheduler = createMirrorIntegrityScheduler({
+      client,
+      scope,
+      settings: integritySettings,
+      options: { floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC },
+      logSyncEvent,
+    });
+
+    const gapScanScheduler = createGapScanScheduler({
+      client,
+      scope,
+      settings: gapScanSettings,
+      options: { floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC },
+      logSyncEvent,
+    });
+
+    const { claimPendingTask } = createTaskClaimer({ runningChannelIds, scope });
+
+    const startTask = (task: TaskRow) => {
+      runningChannelIds.add(task.sourceChannelId);
+      const promise = (async () => {
+        try {
+          if (task.taskType === "resolve") {
+            await processResolveTask(client, task.id, task.sourceChannelId, {
+              floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC,
+            });
+            return;
+          }
+          if (task.taskType === "history_full") {
+            await processHistoryFullTask(client, task.id, task.sourceChannelId, {
+              floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC,
+            });
+            return;
+          }
+          if (task.taskType === "history_partial") {
+            await processHistoryPartialTask(client, task.id, task.sourceChannelId, {
+              floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC,
+            });
+            return;
+          }
+          if (task.taskType === "retry_failed") {
+            await processRetryFailedTask(client, task.id, task.sourceChannelId, {
+              floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC,
+            });
+            return;
+          }
+          await markTaskFailed(task.id, new Error(`unsupported task type: ${task.taskType}`));
+        } catch (error: unknown) {
+          // 账号被停用时没跑完的任务已经放回队列，断开连接引起的报错不再记为失败
+          if (stopped) return;
+          await markTaskFailed(task.id, error);
+        }
+      })().finally(() => {
+        if (!runningTasks.has(task.id)) return;
+        runningTasks.delete(task.id);
+        runningChannelIds.delete(task.sourceChannelId);
+      });
+
+      runningTasks.set(task.id, { taskType: task.taskType, sourceChannelId: task.sourceChannelId, startedAt: Date.now(), promise });
+    };
+
+    const tick = async (now: number, concurrentMirrors: number): Promise<boolean> => {
+      if (now - lastRealtimeEnsure > 5_000) {
+        lastRealtimeEnsure = now;
+        await realtime.ensure();
+      }
+
+      await healthScheduler.ensure(now);
+      await mirrorDeletionScheduler.ensure(now);
+      await mediaArchiveScheduler.ensure(now);
+      await mirrorTargetScheduler.ensure(now);
+      await mirrorIntegrityScheduler.ensure(now);
+      await gapScanScheduler.ensure(now);
+
+      let startedAny = false;
+      while (!stopped && runningTasks.size < concurrentMirrors) {
+        const task =
+          (await claimPendingTask("resolve")) ??
+          (await claimPendingTask("history_full")) ??
+          (await claimPendingTask("history_partial")) ??
+          (await claimPendingTask("retry_failed"));
+
+        if (!task) break;
+        startTask(task);
+        startedAny = true;
+      }
+      return startedAny;
+    };
+
+    const stop = async (): Promise<void> => {
+      stopped = true;
+      realtime.dispose();
+
+      const pending = [...runningTasks.values()].map((t) => t.promise);
+      if (pending.length) {
+        await Promise.race([Promise.allSettled(pending), sleep(ACCOUNT_DRAIN_TIMEOUT_MS)]);
+      }
+
+      const unfinished = [...runningTasks.keys()];
+      if (!unfinished.length) return;
+      const requeued = await db
+        .update(schema.syncTasks)
+        .set({ status: "pending", startedAt: null, pausedAt: null })
+        .where(and(inArray(schema.syncTasks.id, unfinished), eq(schema.syncTasks.status, "running")))
+        .returning({ id: schema.syncTasks.id, sourceChannelId: schema.syncTasks.sourceChannelId });
+      for (const row of requeued) {
+        runningTasks.delete(row.id);
+        runningChannelIds.delete(row.sourceChannelId);
+      }
+      if (requeued.length) {
+        await logSyncEvent({
+          sourceChannelId: null,
+          level: "info",
+          message: `requeued ${requeued.length} running task(s) (telegram account ${account.name} stopped)`,
+        });
+      }
+    };
+
+    const getStats = () => {
+      const runningByType = new Map<string, number>();
+      for (const { taskType } of runningTasks.values()) runningByType.set(taskType, (runningByType.get(taskType) ?? 0) + 1);
+      return { realtimeSubscriptions: realtime.getSubscriptionCount(), runningByType };
+    };
+
+    const getSnapshot = () => ({
+      runningTasks: [...runningTasks].map(([taskId, t]) => ({
+        taskId,
+        taskType: t.taskType,
+        sourceChannelId: t.sourceChannelId,
+        startedAt: new Date(t.startedAt).toISOString(),
+      })),
+      subscriptions: realtime.getSubscriptions(),
+    });
+
+    // 取消订阅后把 ensure 节流清零，下一轮 tick 立即按数据库重新订阅
+    const resubscribe = (sourceChannelId: string | null): number => {
+      const count = realtime.resubscribe(sourceChannelId ?? undefined);
+      lastRealtimeEnsure = 0;
+      return count;
+    };
+
+    const clearCaches = () => {
+      realtime.clearCaches();
+      mirrorTargetScheduler.clearCaches();
+    };
+
+    // 多账号时只有负责该频道的账号能拉它的历史
+    const scanGaps = (sourceChannelId: string): boolean | null =>
+      scope.has(sourceChannelId) ? gapScanScheduler.scanNow(sourceChannelId) : null;
+
+    return { tick, stop, getStats, getSnapshot, resubscribe, clearCaches, scanGaps };
+  };
+
+  const runners = new Map<string, { name: string; runner: ReturnType<typeof createAccountRunner> }>();
+
+  const accountPool = createTelegramAccountPool({
+    options: {
+      floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC,
+      mirrorStartRetryIntervalSec: MIRROR_START_RETRY_INTERVAL_SEC,
+      mirrorStartRetryIntervalMs: MIRROR_START_RETRY_INTERVAL_MS,
+    },
+    logSyncEvent,
+    onConnected: (account) => {
+      runners.set(account.id, { name: account.name, runner: createAccountRunner(account) });
+    },
+    onDisconnecting: async (account) => {
+      const entry = runners.get(account.id);
+      runners.delete(account.id);
+      await entry?.runner.stop();
+    },
+  });
+
+  const accountsGauge = metrics.gauge("tg_back_mirror_telegram_accounts_connected", "Telegram accounts currently connected");
+  const subscriptionsGauge = metrics.gauge("tg_back_mirror_realtime_subscriptions", "Active realtime subscriptions", ["account"]);
+  const runningTasksGauge = metrics.gauge("tg_back_mirror_running_tasks", "Tasks running in this process", ["account", "task_type"]);
+  const heartbeatAgeGauge = metrics.gauge(
+    "tg_back_mirror_heartbeat_age_seconds",
+    "Seconds since mirror-service last wrote its heartbeat row (-1 = never)",
+  );
+  metrics
+    .gauge("tg_back_mirror_start_time_seconds", "Unix time mirror-service started")
+    .set({}, Math.floor(serviceStartedAt.getTime() / 1000));
+  metrics.addCollector(() => {
+    accountsGauge.set({}, runners.size);
+    subscriptionsGauge.reset();
+    runningTasksGauge.reset();
+    for (const { name, runner } of runners.values()) {
+      const stats = runner.getStats();
+      subscriptionsGauge.set({ account: name }, stats.realtimeSubscriptions);
+      for (const [taskType, count] of stats.runningByType) runningTasksGauge.set({ account: name, task_type: taskType }, count);
+    }
+    const lastHeartbeatAt = getLastMirrorServiceHeartbeatAt();
+    heartbeatAgeGauge.set({}, lastHeartbeatAt == null ? -1 : Math.max(0, (Date.now() - lastHeartbeatAt) / 1000));
+  });
+  const metricsServer = startMetricsServer();
+
+  const controlServer = startControlServer({
+    getStatus: async () => {
+      const accounts = [...runners].map(([accountId, { name, runner }]) => ({ accountId, name, ...runner.getSnapshot() }));
+      const taskIds = accounts.flatMap((a) => a.runningTasks.map((t) => t.taskId));
+      const channelIds = [
+        ...new Set(accounts.flatMap((a) => [...a.runningTasks, ...a.subscriptions].map((item) => item.sourceChannelId))),
+      ];
+      // 进度由任务自己每隔几秒写回数据库，这里按 ID 读出来即可
+      const [progressRows, channelRows] = await Promise.all([
+        taskIds.length
+          ? db
+              .select({
+                id: schema.syncTasks.id,
+                progressCurrent: schema.syncTasks.progressCurrent,
+                progressTotal: schema.syncTasks.progressTotal,
+                failedCount: schema.syncTasks.failedCount,
+                skippedCount: schema.syncTasks.skippedCount,
+              })
+              .from(schema.syncTasks)
+              .where(inArray(schema.syncTasks.id, taskIds))
+          : [],
+        channelIds.length
+          ? db
+              .select({ id: schema.sourceChannels.id, name: schema.sourceChannels.name })
+              .from(schema.sourceChannels)
+              .where(inArray(schema.sourceChannels.id, channelIds))
+          : [],
+      ]);
+      const progressById = new Map(progressRows.map(({ id, ...rest }) => [id, rest]));
+      const channelNames = new Map(channelRows.map((row) => [row.id, row.name]));
+      const lastHeartbeatAt = getLastMirrorServiceHeartbeatAt();
+
+      return {
+        pid: process.pid,
+        startedAt: serviceStartedAt.toISOString(),
+        uptimeSec: Math.round(process.uptime()),
+        lastHeartbeatAt: lastHeartbeatAt == null ? null : new Date(lastHeartbeatAt).toISOString(),
+        accounts: accounts.map((a) => ({
+          ...a,
+          runningTasks: a.runningTasks.map((t) => ({
+            ...t,
+            channelName: channelNames.get(t.sourceChannelId) ?? null,
+            ...progressById.get(t.taskId),
+          })),
+          subscriptions: a.subscriptions.map((sub) => ({ ...sub, channelName: channelNames.get(sub.sourceChannelId) ?? null })),
+        })),
+        floodWaits: getActiveFloodWaits(),
+      };
+    },
+    resubscribe: async (sourceChannelId) => {
+      let unsubscribed = 0;
+      for (const { runner } of runners.values()) unsubscribed += runner.resubscribe(sourceChannelId);
+      console.log(`realtime resubscribe requested: ${sourceChannelId ?? "all"} (${unsubscribed} dropped)`);
+      return { unsubscribed };
+    },
+    clearCaches: async () => {
+      clearSettingsCaches();
+      for (const { runner } of runners.values()) runner.clearCaches();
+      console.log("runtime caches cleared");
+      return { ok: true };
+    },
+    requeueResolve: async (sourceChannelId) => {
+      const [source] = await db
+        .select({ id: schema.sourceChannels.id, channelIdentifier: schema.sourceChannels.channelIdentifier })
+        .from(schema.sourceChannels)
+        .where(eq(schema.sourceChannels.id, sourceChannelId))
+        .limit(1);
+      if (!source) throw new ControlRequestError(404, "source channel not found");
+
+      const [existing] = await db
+        .select({ id: schema.syncTasks.id, status: schema.syncTasks.status })
+        .from(schema.syncTasks)
+        .where(and(eq(schema.syncTasks.sourceChannelId, source.id), eq(schema.syncTasks.taskType, "resolve")))
+        .limit(1);
+      if (existing?.status === "running") throw new ControlRequestError(409, "resolve task is already running");
+
+      const [task] = existing
+        ? await db
+            .update(schema.syncTasks)
+            .set({ status: "pending", lastError: null, startedAt: null, completedAt: null, pausedAt: null })
+            .where(eq(schema.syncTasks.id, existing.id))
+            .returning({ id: schema.syncTasks.id })
+        : await db
+            .insert(schema.syncTasks)
+            .values({ sourceChannelId: source.id, taskType: "resolve" })
+            .returning({ id: schema.syncTasks.id });
+
+      // 解析结果可能换了 telegramId / 镜像频道：丢掉实体缓存和现有订阅，解析完成后 ensure 会重新订阅
+      clearSettingsCaches();
+      for (const { runner } of runners.values()) {
+        runner.clearCaches();
+        runner.resubscribe(source.id);
+      }
+      await logSyncEvent({ sourceChannelId: source.id, level: "info", message: "resolve requeued via control API" });
+      void notifyTasksChanged({ taskId: task?.id, sourceChannelId: source.id, taskType: "resolve", status: "pending" });
+      return { taskId: task?.id ?? null };
+    },
+    scanGaps: async (sourceChannelId) => {
+      for (const { runner } of runners.values()) {
+        const started = runner.scanGaps(sourceChannelId);
+        if (started == null) continue;
+        if (!started) throw new ControlRequestError(409, "a gap scan is already running");
+        console.log(`gap scan requested via control API: ${sourceChannelId}`);
+        return { started: true };
+      }
+      throw new ControlRequestError(409, "no connected Telegram account handles this channel");
+    },
+    importTdesktop: async (request) => {
+      const stagingDir = path.join(resolveTdesktopStagingDir(), request.stagingId);
+      if (!fs.existsSync(stagingDir)) throw new ControlRequestError(404, "staged export not found");
+
+      let prepared: PreparedTdesktopImport;
+      try {
+        prepared = await prepareTdesktopImport({
+          exportPath: stagingDir,
+          sourceChannelId: request.sourceChannelId,
+          name: request.name,
+          groupName: request.groupName,
+          mirrorChannelIdentifier: request.mirrorChannelIdentifier,
+        });
+      } catch (error: unknown) {
+        await fs.promises.rm(stagingDir, { recursive: true, force: true }).catch(() => {});
+        const msg = error instanceof Error ? error.message : String(error);
+        throw new ControlRequestError(400, msg);
+      }
+
+      // 写消息、复制媒体、重新发布都可能很久，放到后台；进度和结果记到频道事件里
+      void (async () => {
+        const { sourceChannelId } = prepared;
+        try {
+          await ingestTdesktopImport(prepared);
+          if (!request.republish) return;
+          const accounts = accountPool.getAccounts();
+          const account = accounts.find((a) => a.scope.has(sourceChannelId)) ?? accounts[0];
+          if (!account) {
+            await logSyncEvent({ sourceChannelId, level: "warn", message: "republish skipped: no connected Telegram account" });
+            return;
+          }
+          await republishTdesktopImport(account.client, sourceChannelId, { floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC });
+        } catch (error: unknown) {
+          const msg = error instanceof Error ? error.message : String(error);
+          console.warn(`Telegram Desktop import failed (source=${sourceChannelId}): ${msg}`);
+          await logSyncEvent({ sourceChannelId, level: "error", message: `Telegram Desktop import failed: ${msg}` });
+        } finally {
+          await fs.promises.rm(stagingDir, { recursive: true, force: true }).catch(() => {});
+        }
+      })();
+
+      console.log(`Telegram Desktop import started via control API: ${prepared.sourceChannelId}`);
+      return { sourceChannelId: prepared.sourceChannelId, messageCount: prepared.channel.messages.length };
+    },
+  });
+
   let shuttingDown = false;
   const shutdown = (signal: string) => {
     if (shuttingDown) return;
@@ -87,8 +498,10 @@ async function loop(): Promise<void> {
       } catch {
         // ignore
       }
+      metricsServer?.close();
+      controlServer?.close();
       try {
-        await client.disconnect();
+        await accountPool.disconnectAll();
       } catch {
         // ignore
       }
@@ -119,90 +532,46 @@ async function loop(): Promise<void> {
     });
   }, MIRROR_SERVICE_HEARTBEAT_INTERVAL_MS);
 
-  let lastRealtimeEnsure = 0;
   let lastConcurrencyLogAt = 0;
   let lastConcurrencyValue = 0;
 
-  const healthScheduler = createChannelHealthCheckScheduler({
-    client,
-    settings: healthSettings,
-    options: { floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC },
-    logSyncEvent,
-  });
-
   const retryFailedTasksScheduler = createRetryFailedTasksScheduler();
 
+  const taskScheduleScheduler = createTaskScheduleScheduler({ notifyTasksChanged, logSyncEvent });
+
   const floodWaitAutoResumeScheduler = createFloodWaitAutoResumeScheduler({ notifyTasksChanged, logSyncEvent });
 
   const syncEventsCleanupScheduler = createSyncEventsCleanupScheduler({ logSyncEvent });
 
-  const startTask = (task: { id: string; taskType: (typeof schema.taskTypeEnum.enumValues)[number]; sourceChannelId: string }) => {
-    runningChannelIds.add(task.sourceChannelId);
-    const promise = (async () => {
-      try {
-        if (task.taskType === "resolve") {
-          await processResolveTask(client, task.id, task.sourceChannelId, {
-            floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC,
-          });
-          return;
-        }
-        if (task.taskType === "history_full") {
-          await processHistoryFullTask(client, task.id, task.sourceChannelId, {
-            floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC,
-          });
-          return;
-        }
-        if (task.taskType === "retry_failed") {
-          await processRetryFailedTask(client, task.id, task.sourceChannelId, {
-            floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC,
-          });
-          return;
-        }
-        await markTaskFailed(task.id, new Error(`unsupported task type: ${task.taskType}`));
-      } catch (error: unknown) {
-        await markTaskFailed(task.id, error);
-      }
-    })().finally(() => {
-      runningTasks.delete(task.id);
-      runningChannelIds.delete(task.sourceChannelId);
-    });
-
-    runningTasks.set(task.id, promise);
-  };
-
-  const { claimPendingTask } = createTaskClaimer({ runningChannelIds });
+  const notificationScheduler = createNotificationScheduler();
 
   for (;;) {
     try {
       const now = Date.now();
-      if (now - lastRealtimeEnsure > 5_000) {
-        lastRealtimeEnsure = now;
-        await realtime.ensure();
-      }
+      await accountPool.ensure(now);
 
       await retryFailedTasksScheduler.ensure(now);
+      await taskScheduleScheduler.ensure(now);
       await floodWaitAutoResumeScheduler.ensure(now);
-      await healthScheduler.ensure(now);
       await syncEventsCleanupScheduler.ensure(now);
+      await notificationScheduler.ensure(now);
 
+      // 并发数按账号计算：每个账号各自最多同时跑 concurrent_mirrors 个任务
       const { concurrentMirrors } = await getTaskRunnerSettings();
       if (concurrentMirrors !== lastConcurrencyValue && now - lastConcurrencyLogAt > 3_000) {
         lastConcurrencyValue = concurrentMirrors;
         lastConcurrencyLogAt = now;
-        console.log(`task runner concurrency: ${concurrentMirrors}`);
+        console.log(`task runner concurrency: ${concurrentMirrors} per account`);
       }
 
       let startedAny = false;
-
-      while (runningTasks.size < concurrentMirrors) {
-        const task =
-          (await claimPendingTask("resolve")) ??
-          (await claimPendingTask("history_full")) ??
-          (await claimPendingTask("retry_failed"));
-
-        if (!task) break;
-        startTask(task);
-        startedAny = true;
+      for (const [accountId, { runner }] of runners) {
+        try {
+          if (await runner.tick(now, concurrentMirrors)) startedAny = true;
+        } catch (error: unknown) {
+          const msg = error instanceof Error ? error.message : String(error);
+          console.warn(`task runner loop error (account=${accountId}): ${msg}`);
+        }
       }
 
       if (!startedAny) {
@@ -212,6 +581,7 @@ async function loop(): Promise<void> {
 
       await sleep(200);
     } catch (error: unknown) {
+      if (error instanceof TelegramConfigError) throw error;
       const msg = error instanceof Error ? error.message : String(error);
       console.warn(`task runner loop error: ${msg}`);
       await sleep(1_000);
@@ -0,0 +1,24 @@
+import { inArray, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+
+/**
+ * 某个 Telegram 账号负责的源频道集合。多账号时各账号的调度器只处理自己的频道：
+ * access_hash 和频道成员身份都是按账号的，换个账号去拉消息大概率会失败。
+ */
+export type ChannelScope = {
+  // null = 不限（只有一个账号时）
+  getSourceChannelIds: () => string[] | null;
+  has: (sourceChannelId: string) => boolean;
+};
+
+export const ALL_CHANNELS_SCOPE: ChannelScope = {
+  getSourceChannelIds: () => null,
+  has: () => true,
+};
+
+export function toChannelScopeCondition(scope: ChannelScope, column: AnyPgColumn): SQL | undefined {
+  const ids = scope.getSourceChannelIds();
+  if (ids == null) return undefined;
+  if (!ids.length) return sql`false`;
+  return inArray(column, ids);
+}
@@ -0,0 +1,190 @@
+import crypto from "node:crypto";
+import http from "node:http";
+import { deriveSecretToken } from "@tg-back/crypto";
+import { MIRROR_CONTROL_DEFAULT_PORT } from "@tg-back/db";
+
+const DEFAULT_HOST = "127.0.0.1";
+const MAX_BODY_BYTES = 16 * 1024;
+
+export class ControlRequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export type ControlHandlers = {
+  getStatus: () => Promise<unknown>;
+  resubscribe: (sourceChannelId: string | null) => Promise<unknown>;
+  clearCaches: () => Promise<unknown>;
+  requeueResolve: (sourceChannelId: string) => Promise<unknown>;
+  scanGaps: (sourceChannelId: string) => Promise<unknown>;
+  importTdesktop: (request: TdesktopImportRequest) => Promise<unknown>;
+};
+
+// web 上传的 Telegram Desktop 导出：文件已暂存到归档目录的 .imports/<stagingId>/ 下
+export type TdesktopImportRequest = {
+  stagingId: string;
+  sourceChannelId: string | null;
+  name: string | null;
+  groupName: string | null;
+  mirrorChannelIdentifier: string | null;
+  republish: boolean;
+};
+
+function parsePort(): number | null {
+  const raw = process.env.MIRROR_CONTROL_PORT?.trim();
+  if (!raw) return MIRROR_CONTROL_DEFAULT_PORT;
+  if (raw === "0" || raw.toLowerCase() === "off") return null;
+  const parsed = Number.parseInt(raw, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0 || parsed > 65535) {
+    console.warn(`invalid MIRROR_CONTROL_PORT: ${raw}; control endpoint disabled`);
+    return null;
+  }
+  return parsed;
+}
+
+/**
+ * Web 与 mirror-service 共用的控制令牌：优先 MIRROR_CONTROL_TOKEN，否则从 ENCRYPTION_SECRET 派生。
+ */
+export function getMirrorControlToken(): string {
+  return process.env.MIRROR_CONTROL_TOKEN?.trim() || deriveSecretToken("mirror-control");
+}
+
+function isAuthorized(request: http.IncomingMessage, token: string): boolean {
+  const header = request.headers.authorization ?? "";
+  const provided = header.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : "";
+  const a = crypto.createHash("sha256").update(provided).digest();
+  const b = crypto.createHash("sha256").update(token).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+  response
+    .writeHead(status, { "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store" })
+    .end(JSON.stringify(body));
+}
+
+async function readJsonBody(request: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    const buf = chunk as Buffer;
+    size += buf.length;
+    if (size > MAX_BODY_BYTES) throw new ControlRequestError(413, "request body too large");
+    chunks.push(buf);
+  }
+  const text = Buffer.concat(chunks).toString("utf8").trim();
+  if (!text) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ControlRequestError(400, "invalid JSON body");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new ControlRequestError(400, "invalid JSON body");
+  return parsed as Record<string, unknown>;
+}
+
+function readSourceChannelId(body: Record<string, unknown>, required: boolean): string | null {
+  const raw = body.sourceChannelId;
+  if (raw == null || raw === "") {
+    if (required) throw new ControlRequestError(400, "missing sourceChannelId");
+    return null;
+  }
+  if (typeof raw !== "string" || !/^[0-9a-f-]{36}$/i.test(raw.trim())) {
+    throw new ControlRequestError(400, "invalid sourceChannelId");
+  }
+  return raw.trim();
+}
+
+function readOptionalString(body: Record<string, unknown>, key: string): string | null {
+  const raw = body[key];
+  if (raw == null) return null;
+  if (typeof raw !== "string") throw new ControlRequestError(400, `invalid ${key}`);
+  return raw.trim() || null;
+}
+
+function readTdesktopImportRequest(body: Record<string, unknown>): TdesktopImportRequest {
+  const stagingId = body.stagingId;
+  if (typeof stagingId !== "string" || !/^[0-9a-f-]{36}$/i.test(stagingId)) throw new ControlRequestError(400, "invalid stagingId");
+  return {
+    stagingId,
+    sourceChannelId: readSourceChannelId(body, false),
+    name: readOptionalString(body, "name"),
+    groupName: readOptionalString(body, "groupName"),
+    mirrorChannelIdentifier: readOptionalString(body, "mirrorChannelIdentifier"),
+    republish: body.republish === true,
+  };
+}
+
+async function route(request: http.IncomingMessage, pathname: string, handlers: ControlHandlers): Promise<unknown> {
+  if (request.method === "GET" && pathname === "/status") return await handlers.getStatus();
+  if (request.method !== "POST") throw new ControlRequestError(404, "not found");
+
+  if (pathname === "/realtime/resubscribe") {
+    return await handlers.resubscribe(readSourceChannelId(await readJsonBody(request), false));
+  }
+  if (pathname === "/caches/clear") return await handlers.clearCaches();
+  if (pathname === "/channels/resolve") {
+    return await handlers.requeueResolve(readSourceChannelId(await readJsonBody(request), true) as string);
+  }
+  if (pathname === "/channels/gap-scan") {
+    return await handlers.scanGaps(readSourceChannelId(await readJsonBody(request), true) as string);
+  }
+  if (pathname === "/imports/tdesktop") {
+    return await handlers.importTdesktop(readTdesktopImportRequest(await readJsonBody(request)));
+  }
+  throw new ControlRequestError(404, "not found");
+}
+
+/**
+ * 本机 HTTP 控制接口：Web 通过它读取实时运行状态（任务进度、订阅、相册缓冲、FLOOD_WAIT 倒计时），
+ * 并下发“重新订阅 / 清缓存 / 重新解析频道 / 缺口扫描 / 导入 Telegram Desktop 导出”等需要立即生效的操作，不用等数据库轮询或重启进程。
+ *
+ * 默认监听 127.0.0.1:3101，MIRROR_CONTROL_PORT=off 关闭；所有请求都要求 Authorization: Bearer <token>。
+ */
+export function startControlServer(handlers: ControlHandlers): http.Server | null {
+  const port = parsePort();
+  if (port == null) return null;
+  const host = process.env.MIRROR_CONTROL_HOST?.trim() || DEFAULT_HOST;
+
+  let token: string;
+  try {
+    token = getMirrorControlToken();
+  } catch (error: unknown) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.warn(`control endpoint disabled: ${msg}`);
+    return null;
+  }
+
+  const server = http.createServer((request, response) => {
+    if (!isAuthorized(request, token)) {
+      sendJson(response, 401, { error: "unauthorized" });
+      return;
+    }
+
+    const { pathname } = new URL(request.url ?? "/", "http://localhost");
+    route(request, pathname, handlers)
+      .then((body) => sendJson(response, 200, body ?? { ok: true }))
+      .catch((error: unknown) => {
+        if (error instanceof ControlRequestError) {
+          sendJson(response, error.status, { error: error.message });
+          return;
+        }
+        const msg = error instanceof Error ? error.message : String(error);
+        console.warn(`control request failed: ${request.method} ${pathname} - ${msg}`);
+        sendJson(response, 500, { error: msg });
+      });
+  });
+
+  server.on("error", (error) => {
+    console.warn(`control server error: ${error.message}`);
+  });
+  server.listen(port, host, () => {
+    console.log(`control endpoint listening on http://${host}:${port}`);
+  });
+  return server;
+}
@@ -0,0 +1,61 @@
+import { Api } from "telegram";
+import { applyCopyTransforms, type CopyTransformConfig } from "@tg-back/db";
+import { buildSourceMessageLink } from "./telegram-identifiers";
+
+export type CopyMessageContent = {
+  text: string;
+  // 始终是数组：传给 gramjs 时可避免它再按默认 parseMode 解析一遍原文
+  entities: Api.TypeMessageEntity[];
+};
+
+type CopySource = {
+  name: string;
+  channelIdentifier: string;
+  username: string | null;
+  telegramId: bigint | null;
+};
+
+function cloneEntity(entity: Api.TypeMessageEntity, offset: number, length: number, url: string | undefined): Api.TypeMessageEntity {
+  const cloned = Object.assign(Object.create(Object.getPrototypeOf(entity)), entity) as Api.TypeMessageEntity;
+  cloned.offset = offset;
+  cloned.length = length;
+  if (cloned instanceof Api.MessageEntityTextUrl && url) cloned.url = url;
+  return cloned;
+}
+
+/**
+ * copy 模式要发送的文本与格式实体：按频道配置转换源消息文本，实体随之平移。
+ * 返回的 text 已去掉首尾空白；为空时调用方按 unsupported_type 跳过。
+ */
+export function buildCopyMessageContent(
+  message: Api.Message,
+  { source, transforms }: { source: CopySource; transforms: CopyTransformConfig },
+): CopyMessageContent {
+  const rawText = typeof message.message === "string" ? message.message : "";
+  const rawEntities = Array.isArray(message.entities) ? message.entities : [];
+
+  const username = source.username?.trim().replace(/^@/, "") || null;
+  const result = applyCopyTransforms(
+    {
+      text: rawText,
+      entities: rawEntities.map((entity) => ({
+        entity,
+        offset: entity.offset,
+        length: entity.length,
+        url: entity instanceof Api.MessageEntityTextUrl ? entity.url : undefined,
+      })),
+    },
+    transforms,
+    {
+      sourceName: source.name || source.channelIdentifier,
+      sourceUsername: username,
+      sourceLink: username ? `https://t.me/${username}` : null,
+      originalLink: buildSourceMessageLink(source, message.id),
+    },
+  );
+
+  return {
+    text: result.text,
+    entities: result.entities.map((e) => cloneEntity(e.source.entity, e.offset, e.length, e.url)),
+  };
+}
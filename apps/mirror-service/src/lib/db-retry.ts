@@ -1,4 +1,5 @@
 import { sleep } from "../utils/sleep";
+import { dbRetriesTotal } from "./metrics";
 
 export function getDbErrorMeta(error: unknown): string {
   if (!error || typeof error !== "object") return "";
@@ -68,7 +69,12 @@ export async function withDbRetry<T>(
       return await operation();
     } catch (error: unknown) {
       lastError = error;
-      if (!isDbConnectionError(error) || attempt === attempts) throw error;
+      if (!isDbConnectionError(error)) throw error;
+      if (attempt === attempts) {
+        dbRetriesTotal.inc({ outcome: "exhausted" });
+        throw error;
+      }
+      dbRetriesTotal.inc({ outcome: "retried" });
       const jitter = Math.floor(Math.random() * Math.min(1000, baseDelayMs));
       const delay = Math.min(5_000, baseDelayMs * attempt * attempt + jitter);
       const msg = error instanceof Error ? error.message : String(error);
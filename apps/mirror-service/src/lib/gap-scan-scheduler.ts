@@ -0,0 +1,285 @@
+import { and, eq, inArray, isNotNull, isNull, lt, max, min, notExists, or, sql } from "drizzle-orm";
+import { classifyGapCandidates, db, schema, type GapScanResult, type MessageIdRange, type SourceMessageProbe } from "@tg-back/db";
+import { Api, TelegramClient } from "telegram";
+import { sleep } from "../utils/sleep";
+import { ALL_CHANNELS_SCOPE, toChannelScopeCondition, type ChannelScope } from "./channel-scope";
+import { withDbRetry } from "./db-retry";
+import { recordFloodWaitSleep } from "./metrics";
+import { getTelegramErrorMessage, parseFloodWaitSeconds } from "./telegram-errors";
+import { resolvePeer } from "./telegram-peer";
+
+type SyncEventLevel = (typeof schema.eventLevelEnum.enumValues)[number];
+type GetMessagesPeer = Parameters<TelegramClient["getMessages"]>[0];
+
+// 一次扫描最多核对这么多个空洞区间，剩下的下次扫描再看（结果里 truncated=true）
+const MAX_CANDIDATE_RANGES = 500;
+// 结果里最多保存这么多个漏掉的区间（missedCount 仍是总数）
+const MAX_STORED_MISSED_RANGES = 200;
+// 源频道最近的消息可能还在实时同步中，尾部只核对到这之前的最新一条
+const TAIL_GRACE_MS = 10 * 60_000;
+
+export type GapScanSettings = {
+  enabled: boolean;
+  intervalMs: number;
+  // 同一个频道至少隔这么久再自动扫描
+  rescanMs: number;
+};
+
+export function getGapScanSettings(): GapScanSettings {
+  const enabled = process.env.MIRROR_GAP_SCAN?.trim() !== "false";
+
+  const intervalSecRaw = Number.parseInt(process.env.MIRROR_GAP_SCAN_INTERVAL_SEC ?? "600", 10);
+  const intervalSec = Number.isFinite(intervalSecRaw) && intervalSecRaw > 0 ? Math.min(intervalSecRaw, 86_400) : 600;
+
+  const rescanHoursRaw = Number.parseInt(process.env.MIRROR_GAP_SCAN_RESCAN_HOURS ?? "24", 10);
+  const rescanHours = Number.isFinite(rescanHoursRaw) && rescanHoursRaw > 0 ? Math.min(rescanHoursRaw, 24 * 30) : 24;
+
+  return { enabled, intervalMs: intervalSec * 1000, rescanMs: rescanHours * 3_600_000 };
+}
+
+type GapScanSchedulerOptions = {
+  floodWaitAutoSleepMaxSec: number;
+};
+
+type GapScanSchedulerDeps = {
+  client: TelegramClient;
+  scope?: ChannelScope;
+  settings: GapScanSettings;
+  options: GapScanSchedulerOptions;
+  logSyncEvent: (args: { sourceChannelId: string | null; level: SyncEventLevel; message: string }) => Promise<void>;
+};
+
+class FloodWaitTooLongError extends Error {
+  constructor(readonly waitSeconds: number) {
+    super(`FLOOD_WAIT_${waitSeconds}`);
+  }
+}
+
+// history_full 还没跑完时空洞是正常的，不扫描
+const historyFullActive = () =>
+  db
+    .select({ id: schema.syncTasks.id })
+    .from(schema.syncTasks)
+    .where(
+      and(
+        eq(schema.syncTasks.sourceChannelId, schema.sourceChannels.id),
+        eq(schema.syncTasks.taskType, "history_full"),
+        inArray(schema.syncTasks.status, ["pending", "running"]),
+      ),
+    );
+
+async function loadCandidateRanges(sourceChannelId: string): Promise<MessageIdRange[]> {
+  const m = schema.messageMappings;
+  const ordered = db
+    .select({
+      id: m.sourceMessageId,
+      nextId: sql<number>`lead(${m.sourceMessageId}) over (order by ${m.sourceMessageId})`.as("next_id"),
+    })
+    .from(m)
+    .where(eq(m.sourceChannelId, sourceChannelId))
+    .as("ordered");
+
+  return await withDbRetry(
+    () =>
+      db
+        .select({
+          startId: sql<number>`${ordered.id} + 1`.mapWith(Number),
+          endId: sql<number>`${ordered.nextId} - 1`.mapWith(Number),
+        })
+        .from(ordered)
+        .where(sql`${ordered.nextId} - ${ordered.id} > 1`)
+        .orderBy(ordered.id)
+        .limit(MAX_CANDIDATE_RANGES),
+    `gap scan load candidates (sourceChannelId=${sourceChannelId})`,
+    { attempts: 3, baseDelayMs: 250 },
+  );
+}
+
+/**
+ * 缺口扫描：找出 message_mappings 里 source_message_id 的空洞（含最大映射 id 之后的尾部），再用 GetHistory 按区间取源频道里实际存在的消息，
+ * 区分“源频道已删除 / 服务消息”和“漏掉的消息”，结果写到 source_channels.gap_scan。
+ * 可以定期自动跑，也可以从控制接口手动触发；回填由 Web 按结果创建 history_partial 任务。
+ */
+export function createGapScanScheduler({
+  client,
+  scope = ALL_CHANNELS_SCOPE,
+  settings,
+  options,
+  logSyncEvent,
+}: GapScanSchedulerDeps): {
+  ensure: (now: number) => Promise<void>;
+  // 手动触发（后台执行）；已有扫描在跑时返回 false
+  scanNow: (sourceChannelId: string) => boolean;
+} {
+  let lastEnsureAt = 0;
+  let inFlight = false;
+
+  const runWithFloodWait = async <T>(run: () => Promise<T>): Promise<T> => {
+    try {
+      return await run();
+    } catch (error: unknown) {
+      const waitSeconds = parseFloodWaitSeconds(error);
+      if (!waitSeconds) throw error;
+      if (waitSeconds > options.floodWaitAutoSleepMaxSec) throw new FloodWaitTooLongError(waitSeconds);
+      recordFloodWaitSleep(waitSeconds);
+      await sleep(waitSeconds * 1000);
+      return await run();
+    }
+  };
+
+  const scanChannel = async (sourceChannelId: string): Promise<void> => {
+    const [source] = await withDbRetry(
+      () =>
+        db
+          .select({ id: schema.sourceChannels.id, channelIdentifier: schema.sourceChannels.channelIdentifier })
+          .from(schema.sourceChannels)
+          .where(and(eq(schema.sourceChannels.id, sourceChannelId), isNotNull(schema.sourceChannels.telegramId)))
+          .limit(1),
+      "gap scan load channel",
+      { attempts: 3, baseDelayMs: 250 },
+    );
+    if (!source) return;
+
+    const [bounds] = await withDbRetry(
+      () =>
+        db
+          .select({ fromId: min(schema.messageMappings.sourceMessageId), toId: max(schema.messageMappings.sourceMessageId) })
+          .from(schema.messageMappings)
+          .where(eq(schema.messageMappings.sourceChannelId, source.id)),
+      "gap scan load bounds",
+      { attempts: 3, baseDelayMs: 250 },
+    );
+    const candidates = await loadCandidateRanges(source.id);
+    const lastMappedId = bounds?.toId ?? null;
+
+    const found: SourceMessageProbe[] = [];
+    let tail: MessageIdRange | null = null;
+    let ranges: MessageIdRange[] = candidates;
+    if (candidates.length || lastMappedId != null) {
+      const sourceEntity = (await resolvePeer(client, source.channelIdentifier)).entity;
+      // 最大映射 id 之后的消息（实时断线后一直没补上）也要核对：一直到宽限期之前源频道里最新的一条
+      if (lastMappedId != null) {
+        const [latest] = await runWithFloodWait(() =>
+          client.getMessages(sourceEntity as GetMessagesPeer, { limit: 1, offsetDate: Math.floor((Date.now() - TAIL_GRACE_MS) / 1000) }),
+        );
+        if (typeof latest?.id === "number" && latest.id > lastMappedId) {
+          tail = { startId: lastMappedId + 1, endId: latest.id };
+          ranges = [...candidates, tail];
+        }
+      }
+      for (const range of ranges) {
+        // GetHistory 只返回区间内还存在的消息，整段被删除的大空洞也只花一次请求
+        const list = await runWithFloodWait(() =>
+          client.getMessages(sourceEntity as GetMessagesPeer, {
+            minId: range.startId - 1,
+            maxId: range.endId + 1,
+            limit: range.endId - range.startId + 1,
+            waitTime: 1,
+          }),
+        );
+        for (const msg of list ?? []) {
+          if (typeof msg?.id !== "number") continue;
+          // 服务消息（MessageService）history 同步时本来就跳过
+          found.push({ id: msg.id, isService: !(msg instanceof Api.Message) });
+        }
+      }
+    }
+
+    const classified = classifyGapCandidates(ranges, found);
+    const result: GapScanResult = {
+      scannedAt: new Date().toISOString(),
+      fromId: bounds?.fromId ?? null,
+      toId: tail?.endId ?? lastMappedId,
+      candidateCount: classified.candidateCount,
+      deletedCount: classified.deletedCount,
+      serviceCount: classified.serviceCount,
+      missedCount: classified.missedCount,
+      missedRanges: classified.missedRanges.slice(0, MAX_STORED_MISSED_RANGES),
+      truncated: candidates.length >= MAX_CANDIDATE_RANGES,
+    };
+
+    await withDbRetry(
+      () =>
+        db
+          .update(schema.sourceChannels)
+          .set({ gapScannedAt: new Date(result.scannedAt), gapScan: result })
+          .where(eq(schema.sourceChannels.id, source.id)),
+      "gap scan save result",
+      { attempts: 3, baseDelayMs: 250 },
+    );
+
+    if (result.missedCount > 0) {
+      await logSyncEvent({
+        sourceChannelId: source.id,
+        level: "warn",
+        message: `gap scan: ${result.missedCount} source message(s) never mirrored in ${result.missedRanges.length} range(s) (deleted at source: ${result.deletedCount}${result.truncated ? "; partial scan" : ""})`,
+      });
+    }
+  };
+
+  const runScan = async (sourceChannelId: string): Promise<void> => {
+    inFlight = true;
+    try {
+      await scanChannel(sourceChannelId);
+    } catch (error: unknown) {
+      if (error instanceof FloodWaitTooLongError) {
+        console.warn(`gap scan paused by FLOOD_WAIT_${error.waitSeconds}; will retry on next run`);
+        return;
+      }
+      const msg = getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
+      console.warn(`gap scan failed (will retry): source=${sourceChannelId} - ${msg}`);
+    } finally {
+      inFlight = false;
+    }
+  };
+
+  const pickNextChannel = async (now: number): Promise<string | null> => {
+    const [row] = await withDbRetry(
+      () =>
+        db
+          .select({ id: schema.sourceChannels.id })
+          .from(schema.sourceChannels)
+          .where(
+            and(
+              eq(schema.sourceChannels.isActive, true),
+              isNotNull(schema.sourceChannels.telegramId),
+              or(isNull(schema.sourceChannels.gapScannedAt), lt(schema.sourceChannels.gapScannedAt, new Date(now - settings.rescanMs))),
+              notExists(historyFullActive()),
+              toChannelScopeCondition(scope, schema.sourceChannels.id),
+            ),
+          )
+          .orderBy(sql`${schema.sourceChannels.gapScannedAt} asc nulls first`)
+          .limit(1),
+      "gap scan pick channel",
+      { attempts: 3, baseDelayMs: 250 },
+    );
+    if (!row) return null;
+
+    // 先轮转，扫描失败也不会一直卡在同一个频道上（结果里的 scannedAt 只在扫描成功时更新）
+    await withDbRetry(
+      () => db.update(schema.sourceChannels).set({ gapScannedAt: new Date(now) }).where(eq(schema.sourceChannels.id, row.id)),
+      "gap scan rotate channel",
+      { attempts: 3, baseDelayMs: 250 },
+    );
+    return row.id;
+  };
+
+  const ensure = async (now: number): Promise<void> => {
+    if (!settings.enabled) return;
+    if (inFlight) return;
+    if (now - lastEnsureAt < settings.intervalMs) return;
+    lastEnsureAt = now;
+
+    // 扫描可能要发很多次 GetHistory，放到后台执行，不阻塞主循环里其它调度器
+    const sourceChannelId = await pickNextChannel(now);
+    if (sourceChannelId && !inFlight) void runScan(sourceChannelId);
+  };
+
+  const scanNow = (sourceChannelId: string): boolean => {
+    if (inFlight) return false;
+    void runScan(sourceChannelId);
+    return true;
+  };
+
+  return { ensure, scanNow };
+}
@@ -1,6 +1,7 @@
 import { and, desc, eq, ne, sql } from "drizzle-orm";
 import { db, schema } from "@tg-back/db";
 import { TelegramClient } from "telegram";
+import { ALL_CHANNELS_SCOPE, toChannelScopeCondition, type ChannelScope } from "./channel-scope";
 import { withDbRetry } from "./db-retry";
 import { runChannelHealthCheck, type ChannelHealthCheckSettings, type HealthCheckChannelRow } from "./healthcheck";
 import { getTelegramErrorMessage } from "./telegram-errors";
@@ -14,12 +15,19 @@ type HealthCheckSchedulerOptions = {
 
 type HealthCheckSchedulerDeps = {
   client: TelegramClient;
+  scope?: ChannelScope;
   settings: ChannelHealthCheckSettings;
   options: HealthCheckSchedulerOptions;
   logSyncEvent: (args: { sourceChannelId: string | null; level: SyncEventLevel; message: string }) => Promise<void>;
 };
 
-export function createChannelHealthCheckScheduler({ client, settings, options, logSyncEvent }: HealthCheckSchedulerDeps): {
+export function createChannelHealthCheckScheduler({
+  client,
+  scope = ALL_CHANNELS_SCOPE,
+  settings,
+  options,
+  logSyncEvent,
+}: HealthCheckSchedulerDeps): {
   ensure: (now: number) => Promise<void>;
 } {
   let lastHealthEnsure = 0;
@@ -43,7 +51,7 @@ export function createChannelHealthCheckScheduler({ client, settings, options, l
             and(
               eq(schema.sourceChannels.isActive, true),
               sql`${schema.sourceChannels.telegramId} is not null`,
-              sql`${schema.sourceChannels.accessHash} is not null`,
+              toChannelScopeCondition(scope, schema.sourceChannels.id),
             ),
           )
           .orderBy(desc(schema.sourceChannels.priority), desc(schema.sourceChannels.subscribedAt)),
@@ -52,12 +60,12 @@ export function createChannelHealthCheckScheduler({ client, settings, options, l
     );
 
     healthChannels = rows
-      .filter((row) => typeof row.telegramId === "bigint" && typeof row.accessHash === "bigint")
+      .filter((row) => typeof row.telegramId === "bigint")
       .map((row) => ({
         id: row.id,
         channelIdentifier: row.channelIdentifier,
         telegramId: row.telegramId!,
-        accessHash: row.accessHash!,
+        accessHash: row.accessHash,
       }));
 
     if (healthIndex >= healthChannels.length) healthIndex = 0;
@@ -81,6 +89,8 @@ export function createChannelHealthCheckScheduler({ client, settings, options, l
       if (healthIndex >= healthChannels.length) healthIndex = 0;
       const channel = healthChannels[healthIndex]!;
       healthIndex += 1;
+      // 列表几分钟才刷新一次，期间频道可能已经分给了别的账号
+      if (!scope.has(channel.id)) continue;
 
       try {
         const { recovered, recoveredSyncStatus } = await runChannelHealthCheck(client, channel, {
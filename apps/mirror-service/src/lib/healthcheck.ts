@@ -4,9 +4,11 @@ import { Api, TelegramClient } from "telegram";
 import { returnBigInt } from "telegram/Helpers";
 import { sleep } from "../utils/sleep";
 import { withDbRetry } from "./db-retry";
+import { recordFloodWaitSleep } from "./metrics";
 import { omitUndefined } from "./omit-undefined";
 import { parseFloodWaitSeconds } from "./telegram-errors";
 import { extractSourceChannelMetadataFromChatFull } from "./telegram-metadata";
+import { resolvePeer } from "./telegram-peer";
 
 export type ChannelHealthCheckSettings = {
   enabled: boolean;
@@ -39,7 +41,8 @@ export type HealthCheckChannelRow = {
   id: string;
   channelIdentifier: string;
   telegramId: bigint;
-  accessHash: bigint;
+  // 换账号后会被清空，检查时按 channelIdentifier 重新解析
+  accessHash: bigint | null;
 };
 
 type RunHealthCheckOptions = {
@@ -54,9 +57,12 @@ export async function runChannelHealthCheck(
   recovered: boolean;
   recoveredSyncStatus: (typeof schema.syncStatusEnum.enumValues)[number];
 }> {
+  const accessHash = channel.accessHash ?? (await resolvePeer(client, channel.channelIdentifier)).accessHash;
+  if (accessHash == null) throw new Error(`failed to resolve access hash: ${channel.channelIdentifier}`);
+
   const input = new Api.InputChannel({
     channelId: returnBigInt(channel.telegramId),
-    accessHash: returnBigInt(channel.accessHash),
+    accessHash: returnBigInt(accessHash),
   });
 
   const invokeOnce = () => client.invoke(new Api.channels.GetFullChannel({ channel: input }));
@@ -67,6 +73,7 @@ export async function runChannelHealthCheck(
   } catch (error: unknown) {
     const waitSeconds = parseFloodWaitSeconds(error);
     if (waitSeconds && waitSeconds <= options.floodWaitAutoSleepMaxSec) {
+      recordFloodWaitSleep(waitSeconds);
       await sleep(waitSeconds * 1000);
       result = await invokeOnce();
     } else {
@@ -87,7 +94,7 @@ export async function runChannelHealthCheck(
             isProtected: extracted.isProtected,
             name: extracted.name,
             username: extracted.username,
-            accessHash: extracted.accessHash,
+            accessHash: extracted.accessHash ?? accessHash,
             channelIdentifier: extracted.channelIdentifier,
           }),
         )
@@ -1,8 +1,12 @@
-import { db, schema } from "@tg-back/db";
+import { db, MIRROR_SERVICE_HEARTBEAT_KEY, schema } from "@tg-back/db";
 import { withDbRetry } from "./db-retry";
 
-const MIRROR_SERVICE_HEARTBEAT_KEY = "mirror_service_heartbeat";
-export const MIRROR_SERVICE_HEARTBEAT_INTERVAL_MS = 30_000;
+let lastHeartbeatWrittenAt: number | null = null;
+
+// 最近一次成功写入心跳的时间（毫秒），供 /metrics 计算心跳延迟
+export function getLastMirrorServiceHeartbeatAt(): number | null {
+  return lastHeartbeatWrittenAt;
+}
 
 export async function writeMirrorServiceHeartbeat(startedAt: Date): Promise<void> {
   const value = {
@@ -21,6 +25,7 @@ export async function writeMirrorServiceHeartbeat(startedAt: Date): Promise<void
       "mirror-service heartbeat",
       { attempts: 1, baseDelayMs: 250 },
     );
+    lastHeartbeatWrittenAt = Date.parse(value.lastHeartbeatAt);
   } catch (error: unknown) {
     const msg = error instanceof Error ? error.message : String(error);
     console.warn(`failed to write mirror-service heartbeat: ${msg}`);
@@ -0,0 +1,306 @@
+import { and, desc, eq, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { Api, TelegramClient } from "telegram";
+import type { EntityLike } from "telegram/define";
+import { sleep } from "../utils/sleep";
+import { ALL_CHANNELS_SCOPE, toChannelScopeCondition, type ChannelScope } from "./channel-scope";
+import { withDbRetry } from "./db-retry";
+import { describeArchivableMedia, downloadMediaToArchive, downloadThumbnailToArchive } from "./media-archive";
+import { recordFloodWaitSleep } from "./metrics";
+import { getMediaArchiveSettings, getMirrorBehaviorSettings } from "./settings";
+import { getTelegramErrorMessage, parseFloodWaitSeconds } from "./telegram-errors";
+import { resolvePeer } from "./telegram-peer";
+
+type SyncEventLevel = (typeof schema.eventLevelEnum.enumValues)[number];
+type MediaArchiveStatus = (typeof schema.mediaArchiveStatusEnum.enumValues)[number];
+
+const DEFAULT_CHECK_INTERVAL_MS = 15_000;
+const DEFAULT_BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 3;
+const FAILED_RETRY_DELAY_MS = 10 * 60_000;
+
+type MediaArchiveSchedulerOptions = {
+  floodWaitAutoSleepMaxSec: number;
+};
+
+type MediaArchiveSchedulerDeps = {
+  client: TelegramClient;
+  scope?: ChannelScope;
+  checkIntervalMs?: number;
+  batchSize?: number;
+  options: MediaArchiveSchedulerOptions;
+  logSyncEvent: (args: { sourceChannelId: string | null; level: SyncEventLevel; message: string }) => Promise<void>;
+};
+
+type PendingMediaArchive = {
+  mappingId: string;
+  sourceChannelId: string;
+  sourceMessageId: number;
+  messageType: (typeof schema.messageTypeEnum.enumValues)[number];
+  channelIdentifier: string;
+};
+
+type MediaArchiveRowValues = {
+  status: MediaArchiveStatus;
+  storagePath?: string | null;
+  sha256?: string | null;
+  thumbStoragePath?: string | null;
+  mimeType?: string | null;
+  fileName?: string | null;
+  fileSize?: number | null;
+  width?: number | null;
+  height?: number | null;
+  durationSec?: number | null;
+  skipReason?: string | null;
+  errorMessage?: string | null;
+};
+
+class FloodWaitTooLongError extends Error {
+  constructor(readonly waitSeconds: number) {
+    super(`FLOOD_WAIT_${waitSeconds}`);
+  }
+}
+
+export async function loadPendingMediaArchives(scope: ChannelScope, now: number, limit: number): Promise<PendingMediaArchive[]> {
+  return await withDbRetry(
+    () =>
+      db
+        .select({
+          mappingId: schema.messageMappings.id,
+          sourceChannelId: schema.messageMappings.sourceChannelId,
+          sourceMessageId: schema.messageMappings.sourceMessageId,
+          messageType: schema.messageMappings.messageType,
+          channelIdentifier: schema.sourceChannels.channelIdentifier,
+        })
+        .from(schema.messageMappings)
+        .innerJoin(schema.sourceChannels, eq(schema.sourceChannels.id, schema.messageMappings.sourceChannelId))
+        .leftJoin(schema.messageMedia, eq(schema.messageMedia.messageMappingId, schema.messageMappings.id))
+        .where(
+          and(
+            eq(schema.messageMappings.hasMedia, true),
+            eq(schema.messageMappings.isDeleted, false),
+            sql`${schema.sourceChannels.telegramId} is not null`,
+            toChannelScopeCondition(scope, schema.messageMappings.sourceChannelId),
+            or(
+              isNull(schema.messageMedia.id),
+              and(
+                eq(schema.messageMedia.status, "failed"),
+                lt(schema.messageMedia.attempts, MAX_ATTEMPTS),
+                lte(schema.messageMedia.updatedAt, new Date(now - FAILED_RETRY_DELAY_MS)),
+              ),
+            ),
+          ),
+        )
+        // 新消息优先，历史消息随后慢慢补齐
+        .orderBy(desc(schema.messageMappings.sentAt))
+        .limit(limit),
+    "load pending media archives",
+    { attempts: 3, baseDelayMs: 250 },
+  );
+}
+
+async function saveMediaArchiveRow(item: PendingMediaArchive, values: MediaArchiveRowValues): Promise<void> {
+  const now = new Date();
+  const set = {
+    storagePath: null,
+    sha256: null,
+    thumbStoragePath: null,
+    mimeType: null,
+    fileName: null,
+    fileSize: null,
+    width: null,
+    height: null,
+    durationSec: null,
+    skipReason: null,
+    errorMessage: null,
+    ...values,
+    archivedAt: values.status === "stored" ? now : null,
+    updatedAt: now,
+  };
+
+  await withDbRetry(
+    () =>
+      db
+        .insert(schema.messageMedia)
+        .values({ messageMappingId: item.mappingId, sourceChannelId: item.sourceChannelId, attempts: 1, ...set })
+        .onConflictDoUpdate({
+          target: schema.messageMedia.messageMappingId,
+          set: { ...set, attempts: sql`${schema.messageMedia.attempts} + 1` },
+        }),
+    `save message_media (mappingId=${item.mappingId}, status=${values.status})`,
+    { attempts: 3, baseDelayMs: 250 },
+  );
+}
+
+/**
+ * 媒体归档：把 message_mappings 里带媒体的消息下载到本地（内容寻址目录），元数据写入 message_media。
+ *
+ * - 由 media_archive_enabled 开关控制；遵守 mirror_videos / max_file_size_mb
+ * - 新消息优先，历史消息按 sentAt 倒序逐批补齐；失败的会隔一段时间重试，最多 MAX_ATTEMPTS 次
+ * - 下载可能很慢，所以在后台执行，不阻塞主循环里的任务调度
+ */
+export function createMediaArchiveScheduler({
+  client,
+  scope = ALL_CHANNELS_SCOPE,
+  checkIntervalMs = DEFAULT_CHECK_INTERVAL_MS,
+  batchSize = DEFAULT_BATCH_SIZE,
+  options,
+  logSyncEvent,
+}: MediaArchiveSchedulerDeps): {
+  ensure: (now: number) => Promise<void>;
+} {
+  let lastEnsureAt = 0;
+  let inFlight = false;
+
+  const runWithFloodWait = async <T>(run: () => Promise<T>): Promise<T> => {
+    try {
+      return await run();
+    } catch (error: unknown) {
+      const waitSeconds = parseFloodWaitSeconds(error);
+      if (!waitSeconds) throw error;
+      if (waitSeconds > options.floodWaitAutoSleepMaxSec) throw new FloodWaitTooLongError(waitSeconds);
+      recordFloodWaitSleep(waitSeconds);
+      await sleep(waitSeconds * 1000);
+      return await run();
+    }
+  };
+
+  const archiveForChannel = async (sourceChannelId: string, items: PendingMediaArchive[]): Promise<number> => {
+    const sourceEntity = (await resolvePeer(client, items[0]!.channelIdentifier)).entity;
+    const { mirrorVideos, maxFileSizeBytes, maxFileSizeMb } = await getMirrorBehaviorSettings();
+
+    const fetched = await runWithFloodWait(() =>
+      client.getMessages(sourceEntity as EntityLike, { ids: items.map((item) => item.sourceMessageId) }),
+    );
+    const messagesById = new Map<number, Api.Message>();
+    for (const msg of fetched) {
+      if (msg instanceof Api.Message && typeof msg.id === "number") messagesById.set(msg.id, msg);
+    }
+
+    let storedCount = 0;
+    for (const item of items) {
+      const message = messagesById.get(item.sourceMessageId);
+      if (!message) {
+        await saveMediaArchiveRow(item, { status: "skipped", skipReason: "message_deleted" });
+        continue;
+      }
+
+      const media = describeArchivableMedia(message);
+      if (!media) {
+        await saveMediaArchiveRow(item, { status: "skipped", skipReason: "unsupported_media" });
+        continue;
+      }
+
+      const meta = {
+        mimeType: media.mimeType,
+        fileName: media.fileName,
+        fileSize: media.fileSize,
+        width: media.width,
+        height: media.height,
+        durationSec: media.durationSec,
+      };
+
+      if (item.messageType === "video" && !mirrorVideos) {
+        await saveMediaArchiveRow(item, { status: "skipped", skipReason: "video_disabled", ...meta });
+        continue;
+      }
+      if (maxFileSizeBytes != null && media.fileSize != null && media.fileSize > maxFileSizeBytes) {
+        await saveMediaArchiveRow(item, {
+          status: "skipped",
+          skipReason: `file_too_large (${Math.ceil(media.fileSize / 1024 / 1024)}MB > ${maxFileSizeMb}MB)`,
+          ...meta,
+        });
+        continue;
+      }
+
+      try {
+        const stored = await runWithFloodWait(() => downloadMediaToArchive(client, message, media));
+
+        let thumbStoragePath: string | null = null;
+        if (media.hasThumbnail) {
+          try {
+            thumbStoragePath = (await runWithFloodWait(() => downloadThumbnailToArchive(client, message))).storagePath;
+          } catch (error: unknown) {
+            if (error instanceof FloodWaitTooLongError) throw error;
+            const msg = error instanceof Error ? error.message : getTelegramErrorMessage(error) ?? String(error);
+            console.warn(`failed to archive media thumbnail (ignored): sourceMessageId=${item.sourceMessageId} - ${msg}`);
+          }
+        }
+
+        await saveMediaArchiveRow(item, {
+          status: "stored",
+          ...meta,
+          fileSize: stored.fileSize,
+          storagePath: stored.storagePath,
+          sha256: stored.sha256,
+          thumbStoragePath,
+        });
+        storedCount += 1;
+      } catch (error: unknown) {
+        if (error instanceof FloodWaitTooLongError) throw error;
+        const msg = error instanceof Error ? error.message : getTelegramErrorMessage(error) ?? String(error);
+        await saveMediaArchiveRow(item, { status: "failed", errorMessage: msg, ...meta });
+        await logSyncEvent({
+          sourceChannelId,
+          level: "warn",
+          message: `failed to archive media (sourceMessageId=${item.sourceMessageId}): ${msg}`,
+        });
+      }
+    }
+
+    return storedCount;
+  };
+
+  const run = async (now: number): Promise<void> => {
+    const pending = await loadPendingMediaArchives(scope, now, batchSize);
+    if (!pending.length) return;
+
+    const bySource = new Map<string, PendingMediaArchive[]>();
+    for (const item of pending) {
+      const list = bySource.get(item.sourceChannelId) ?? [];
+      list.push(item);
+      bySource.set(item.sourceChannelId, list);
+    }
+
+    for (const [sourceChannelId, items] of bySource) {
+      try {
+        const storedCount = await archiveForChannel(sourceChannelId, items);
+        if (storedCount > 0) console.log(`archived ${storedCount} media file(s) for source=${sourceChannelId}`);
+      } catch (error: unknown) {
+        if (error instanceof FloodWaitTooLongError) {
+          console.warn(`media archive paused by FLOOD_WAIT_${error.waitSeconds}; will retry on next run`);
+          lastEnsureAt = Date.now() + error.waitSeconds * 1000;
+          return;
+        }
+        const msg = error instanceof Error ? error.message : getTelegramErrorMessage(error) ?? String(error);
+        console.warn(`media archive failed (will retry): source=${sourceChannelId} - ${msg}`);
+        // 解析频道 / 拉消息失败时这批也要记一次失败，否则下一轮还会先取到同样的最新消息，其他频道一直轮不到
+        for (const item of items) {
+          await saveMediaArchiveRow(item, { status: "failed", errorMessage: msg });
+        }
+        await logSyncEvent({ sourceChannelId, level: "warn", message: `failed to archive media for ${items.length} message(s): ${msg}` });
+      }
+    }
+  };
+
+  const ensure = async (now: number): Promise<void> => {
+    if (inFlight) return;
+    if (now - lastEnsureAt < checkIntervalMs) return;
+    lastEnsureAt = now;
+
+    const { enabled } = await getMediaArchiveSettings();
+    if (!enabled) return;
+
+    inFlight = true;
+    void run(now)
+      .catch((error: unknown) => {
+        const msg = error instanceof Error ? error.message : String(error);
+        console.warn(`media archive run failed: ${msg}`);
+      })
+      .finally(() => {
+        inFlight = false;
+      });
+  };
+
+  return { ensure };
+}
@@ -0,0 +1,229 @@
+import { createHash, randomUUID } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { pipeline } from "node:stream/promises";
+import { Api, TelegramClient } from "telegram";
+import { extractMediaFileSize } from "./mirror-message";
+import { readNumberProp, readProp } from "./object-props";
+
+const DEFAULT_ARCHIVE_DIR = "./data/media";
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "video/mp4": ".mp4",
+  "video/quicktime": ".mov",
+  "video/webm": ".webm",
+  "audio/mpeg": ".mp3",
+  "audio/ogg": ".ogg",
+  "audio/mp4": ".m4a",
+  "application/pdf": ".pdf",
+  "application/zip": ".zip",
+  "application/x-tgsticker": ".tgs",
+};
+
+export type ArchivableMedia = {
+  mimeType: string;
+  fileName: string | null;
+  fileSize: number | null;
+  width: number | null;
+  height: number | null;
+  durationSec: number | null;
+  extension: string;
+  // 视频/文件自带的预览图（photo 本身就是图片，不需要额外缩略图）
+  hasThumbnail: boolean;
+};
+
+export type StoredMediaFile = {
+  storagePath: string;
+  sha256: string;
+  fileSize: number;
+  deduplicated: boolean;
+};
+
+function getRepoRoot(): string {
+  const packageRoot = path.resolve(__dirname, "../..");
+  return path.resolve(packageRoot, "../..");
+}
+
+/**
+ * 归档根目录：TG_BACK_MEDIA_ARCHIVE_DIR（相对路径按仓库根目录解析，web 侧读取时使用同样的规则）。
+ */
+export function resolveMediaArchiveDir(): string {
+  const raw = process.env.TG_BACK_MEDIA_ARCHIVE_DIR?.trim() || DEFAULT_ARCHIVE_DIR;
+  if (path.isAbsolute(raw)) return raw;
+  return path.resolve(getRepoRoot(), raw);
+}
+
+function normalizeExtension(fileName: string | null, mimeType: string): string {
+  const fromName = fileName ? path.extname(fileName).toLowerCase() : "";
+  if (/^\.[a-z0-9]{1,8}$/.test(fromName)) return fromName;
+  return EXTENSION_BY_MIME[mimeType] ?? "";
+}
+
+function pickLargestPhotoSize(photo: Api.Photo): { width: number; height: number } | null {
+  let best: { width: number; height: number } | null = null;
+  for (const size of photo.sizes) {
+    const width = readNumberProp(size, "w");
+    const height = readNumberProp(size, "h");
+    if (!width || !height) continue;
+    if (!best || width * height > best.width * best.height) best = { width, height };
+  }
+  return best;
+}
+
+/**
+ * 从消息里提取可归档的媒体信息；网页预览、投票、位置等没有文件的媒体返回 null。
+ */
+export function describeArchivableMedia(message: Api.Message): ArchivableMedia | null {
+  const media = message.media;
+  const fileSize = extractMediaFileSize(message);
+
+  if (media instanceof Api.MessageMediaPhoto) {
+    if (!(media.photo instanceof Api.Photo)) return null;
+    const dims = pickLargestPhotoSize(media.photo);
+    return {
+      mimeType: "image/jpeg",
+      fileName: null,
+      fileSize,
+      width: dims?.width ?? null,
+      height: dims?.height ?? null,
+      durationSec: null,
+      extension: ".jpg",
+      hasThumbnail: false,
+    };
+  }
+
+  if (media instanceof Api.MessageMediaDocument) {
+    const document = media.document;
+    if (!(document instanceof Api.Document)) return null;
+
+    let fileName: string | null = null;
+    let width: number | null = null;
+    let height: number | null = null;
+    let durationSec: number | null = null;
+
+    for (const attr of document.attributes) {
+      if (attr instanceof Api.DocumentAttributeFilename) fileName = attr.fileName || null;
+      if (attr instanceof Api.DocumentAttributeVideo || attr instanceof Api.DocumentAttributeImageSize) {
+        width = attr.w || width;
+        height = attr.h || height;
+      }
+      if (attr instanceof Api.DocumentAttributeVideo || attr instanceof Api.DocumentAttributeAudio) {
+        const duration = readProp(attr, "duration");
+        if (typeof duration === "number" && Number.isFinite(duration)) durationSec = Math.round(duration);
+      }
+    }
+
+    const mimeType = document.mimeType || "application/octet-stream";
+    return {
+      mimeType,
+      fileName,
+      fileSize,
+      width,
+      height,
+      durationSec,
+      extension: normalizeExtension(fileName, mimeType),
+      hasThumbnail: !!document.thumbs?.some((thumb) => !(thumb instanceof Api.PhotoPathSize)),
+    };
+  }
+
+  return null;
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest("hex");
+}
+
+// gramjs 按大小升序排列预览图（忽略 PhotoPathSize），下标取最后一个即最大的那张
+function getLargestThumbIndex(message: Api.Message): number {
+  const document = message.media instanceof Api.MessageMediaDocument ? message.media.document : null;
+  if (!(document instanceof Api.Document)) return 0;
+  const count = (document.thumbs ?? []).filter((thumb) => !(thumb instanceof Api.PhotoPathSize)).length;
+  return Math.max(0, count - 1);
+}
+
+async function downloadToArchive(
+  client: TelegramClient,
+  message: Api.Message,
+  extension: string,
+  thumbnail: boolean,
+): Promise<StoredMediaFile> {
+  const root = resolveMediaArchiveDir();
+  const tmpDir = path.join(root, ".tmp");
+  await fs.promises.mkdir(tmpDir, { recursive: true });
+  const tmpPath = path.join(tmpDir, `${randomUUID()}.part`);
+
+  try {
+    await client.downloadMedia(message, { outputFile: tmpPath, thumb: thumbnail ? getLargestThumbIndex(message) : undefined });
+    return await moveIntoArchive(root, tmpPath, extension);
+  } catch (error: unknown) {
+    await fs.promises.rm(tmpPath, { force: true }).catch(() => {});
+    throw error;
+  }
+}
+
+// 临时文件算完 sha256 后移动到内容寻址路径；目标已存在时删掉临时文件直接复用
+async function moveIntoArchive(root: string, tmpPath: string, extension: string): Promise<StoredMediaFile> {
+  const stat = await fs.promises.stat(tmpPath);
+  if (!stat.isFile() || stat.size <= 0) throw new Error("media file is empty");
+
+  const sha256 = await hashFile(tmpPath);
+  const storagePath = path.posix.join(sha256.slice(0, 2), sha256.slice(2, 4), `${sha256}${extension}`);
+  const finalPath = path.join(root, storagePath);
+
+  let deduplicated = false;
+  if (fs.existsSync(finalPath)) {
+    deduplicated = true;
+    await fs.promises.rm(tmpPath, { force: true });
+  } else {
+    await fs.promises.mkdir(path.dirname(finalPath), { recursive: true });
+    await fs.promises.rename(tmpPath, finalPath);
+  }
+
+  return { storagePath, sha256, fileSize: stat.size, deduplicated };
+}
+
+/**
+ * 下载消息媒体到临时文件，计算 sha256 后移动到内容寻址路径（ab/cd/<sha256><ext>）。
+ * 目标文件已存在时直接复用，不会重复占用磁盘。
+ */
+export async function downloadMediaToArchive(
+  client: TelegramClient,
+  message: Api.Message,
+  media: ArchivableMedia,
+): Promise<StoredMediaFile> {
+  return await downloadToArchive(client, message, media.extension, false);
+}
+
+/**
+ * 下载视频/文件的预览图（jpg），同样按内容寻址存放。
+ */
+export async function downloadThumbnailToArchive(client: TelegramClient, message: Api.Message): Promise<StoredMediaFile> {
+  return await downloadToArchive(client, message, ".jpg", true);
+}
+
+/**
+ * 把本地文件（如 Telegram Desktop 导出目录里的媒体）复制进归档目录，规则与下载的一样。
+ */
+export async function copyLocalFileToArchive(
+  filePath: string,
+  { fileName, mimeType }: { fileName: string | null; mimeType: string | null },
+): Promise<StoredMediaFile> {
+  const root = resolveMediaArchiveDir();
+  const tmpDir = path.join(root, ".tmp");
+  await fs.promises.mkdir(tmpDir, { recursive: true });
+  const tmpPath = path.join(tmpDir, `${randomUUID()}.part`);
+
+  try {
+    await fs.promises.copyFile(filePath, tmpPath);
+    return await moveIntoArchive(root, tmpPath, normalizeExtension(fileName ?? path.basename(filePath), mimeType ?? ""));
+  } catch (error: unknown) {
+    await fs.promises.rm(tmpPath, { force: true }).catch(() => {});
+    throw error;
+  }
+}
@@ -0,0 +1,139 @@
+import { and, eq } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { Api } from "telegram";
+import { toBigIntOrNull } from "./bigint";
+import { withDbRetry } from "./db-retry";
+import { messageTypeFromMessage } from "./mirror-message";
+
+type MessageStatus = (typeof schema.messageStatusEnum.enumValues)[number];
+
+// 评论所属的帖子（message_mappings 里的那一行）
+export type CommentPost = {
+  messageMappingId: string;
+  sourceChannelId: string;
+};
+
+export async function findCommentPost(sourceChannelId: string, sourcePostId: number): Promise<CommentPost | null> {
+  const [row] = await withDbRetry(
+    () =>
+      db
+        .select({ messageMappingId: schema.messageMappings.id })
+        .from(schema.messageMappings)
+        .where(and(eq(schema.messageMappings.sourceChannelId, sourceChannelId), eq(schema.messageMappings.sourceMessageId, sourcePostId)))
+        .limit(1),
+    "find comment post mapping",
+    { attempts: 3, baseDelayMs: 250 },
+  );
+  return row ? { messageMappingId: row.messageMappingId, sourceChannelId } : null;
+}
+
+/**
+ * 帖子下已经成功镜像过的评论（讨论组消息 id），重跑时跳过，避免重复发送。
+ */
+export async function loadMirroredCommentIds(post: CommentPost): Promise<Set<number>> {
+  const rows = await withDbRetry(
+    () =>
+      db
+        .select({ sourceCommentId: schema.messageComments.sourceCommentId })
+        .from(schema.messageComments)
+        .where(and(eq(schema.messageComments.messageMappingId, post.messageMappingId), eq(schema.messageComments.status, "success"))),
+    "load mirrored comment ids",
+    { attempts: 3, baseDelayMs: 250 },
+  );
+  return new Set(rows.map((r) => r.sourceCommentId));
+}
+
+export async function isCommentMirrored(sourceChannelId: string, sourceCommentId: number): Promise<boolean> {
+  const [row] = await withDbRetry(
+    () =>
+      db
+        .select({ id: schema.messageComments.id })
+        .from(schema.messageComments)
+        .where(
+          and(
+            eq(schema.messageComments.sourceChannelId, sourceChannelId),
+            eq(schema.messageComments.sourceCommentId, sourceCommentId),
+            eq(schema.messageComments.status, "success"),
+          ),
+        )
+        .limit(1),
+    "check mirrored comment",
+    { attempts: 3, baseDelayMs: 250 },
+  );
+  return !!row;
+}
+
+function getCommentAuthorName(message: Api.Message): string | null {
+  const sender = message.sender;
+  if (sender instanceof Api.User) {
+    return [sender.firstName, sender.lastName].filter(Boolean).join(" ").trim() || sender.username || null;
+  }
+  if (sender instanceof Api.Channel || sender instanceof Api.Chat) return sender.title || null;
+  return message.postAuthor ?? null;
+}
+
+// 讨论组里直接评论帖子时 replyTo 指向帖子在讨论组的副本（没有 replyToTopId）；回复其他评论时才有 replyToTopId
+function getReplyToCommentId(message: Api.Message): number | null {
+  const replyTo = message.replyTo;
+  if (!(replyTo instanceof Api.MessageReplyHeader)) return null;
+  if (replyTo.replyToTopId == null) return null;
+  return replyTo.replyToMsgId ?? null;
+}
+
+// sendFile 发相册时实际返回 Message[]（类型声明是单条）
+export function readSentMessageIds(sent: unknown): number[] {
+  const list = Array.isArray(sent) ? sent : [sent];
+  return list.map((m) => (m instanceof Api.Message ? m.id : null)).filter((id): id is number => typeof id === "number");
+}
+
+/**
+ * 记录一批评论（单条或同一相册）的镜像结果；同一条评论再次记录时覆盖状态与镜像 id。
+ * mirrorMessageIds 按评论顺序对应，缺的记为 null。
+ */
+export async function recordComments(
+  post: CommentPost,
+  messages: Api.Message[],
+  result: { status: MessageStatus; mirrorMessageIds?: number[]; errorMessage?: string | null },
+): Promise<void> {
+  const now = new Date();
+  for (let i = 0; i < messages.length; i += 1) {
+    const message = messages[i]!;
+    const mirrorMessageId = result.status === "success" ? (result.mirrorMessageIds?.[i] ?? null) : null;
+    const outcome = {
+      status: result.status,
+      mirrorMessageId,
+      errorMessage: result.errorMessage ?? null,
+      mirroredAt: result.status === "pending" ? null : now,
+    };
+    try {
+      await withDbRetry(
+        () =>
+          db
+            .insert(schema.messageComments)
+            .values({
+              messageMappingId: post.messageMappingId,
+              sourceChannelId: post.sourceChannelId,
+              sourceCommentId: message.id,
+              replyToCommentId: getReplyToCommentId(message),
+              authorId: toBigIntOrNull(message.senderId),
+              authorName: getCommentAuthorName(message),
+              text: typeof message.message === "string" ? message.message : null,
+              messageType: messageTypeFromMessage(message),
+              mediaGroupId: message.groupedId ? String(message.groupedId) : null,
+              sentAt: new Date(message.date * 1000),
+              ...outcome,
+            })
+            .onConflictDoUpdate({
+              target: [schema.messageComments.sourceChannelId, schema.messageComments.sourceCommentId],
+              set: { ...outcome, text: typeof message.message === "string" ? message.message : null },
+            }),
+        `record comment (sourceChannelId=${post.sourceChannelId}, comment=${message.id})`,
+        { attempts: 3, baseDelayMs: 250 },
+      );
+    } catch (error: unknown) {
+      // 记录失败不影响镜像本身（代价是这条评论下次重跑时会再发一次）
+      const msg = error instanceof Error ? error.message : String(error);
+      console.warn(`record comment failed: comment=${message.id} - ${msg}`);
+    }
+  }
+}
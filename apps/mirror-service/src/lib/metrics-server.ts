@@ -0,0 +1,68 @@
+import crypto from "node:crypto";
+import http from "node:http";
+import { PROMETHEUS_CONTENT_TYPE } from "@tg-back/db";
+import { metrics } from "./metrics";
+
+const DEFAULT_HOST = "127.0.0.1";
+
+function parsePort(): number | null {
+  const raw = process.env.MIRROR_METRICS_PORT?.trim();
+  if (!raw) return null; // 未配置 = 不监听
+  const parsed = Number.parseInt(raw, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0 || parsed > 65535) {
+    console.warn(`invalid MIRROR_METRICS_PORT: ${raw}; metrics endpoint disabled`);
+    return null;
+  }
+  return parsed;
+}
+
+function isAuthorized(request: http.IncomingMessage, token: string): boolean {
+  if (!token) return true;
+  const header = request.headers.authorization ?? "";
+  const provided = header.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : "";
+  const a = crypto.createHash("sha256").update(provided).digest();
+  const b = crypto.createHash("sha256").update(token).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * 可选的 HTTP 端点：GET /metrics 输出 Prometheus 文本格式。
+ * 设置了 TG_BACK_METRICS_TOKEN 时要求 Authorization: Bearer <token>（与 Web 的 /api/metrics 共用）。
+ */
+export function startMetricsServer(): http.Server | null {
+  const port = parsePort();
+  if (port == null) return null;
+  const host = process.env.MIRROR_METRICS_HOST?.trim() || DEFAULT_HOST;
+  const token = process.env.TG_BACK_METRICS_TOKEN?.trim() ?? "";
+
+  const server = http.createServer((request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (request.method !== "GET" || url.pathname !== "/metrics") {
+      response.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" }).end("not found\n");
+      return;
+    }
+    if (!isAuthorized(request, token)) {
+      response.writeHead(401, { "Content-Type": "text/plain; charset=utf-8" }).end("unauthorized\n");
+      return;
+    }
+
+    metrics
+      .render()
+      .then((body) => {
+        response.writeHead(200, { "Content-Type": PROMETHEUS_CONTENT_TYPE, "Cache-Control": "no-store" }).end(body);
+      })
+      .catch((error: unknown) => {
+        const msg = error instanceof Error ? error.message : String(error);
+        console.warn(`failed to render metrics: ${msg}`);
+        response.writeHead(500, { "Content-Type": "text/plain; charset=utf-8" }).end("failed to render metrics\n");
+      });
+  });
+
+  server.on("error", (error) => {
+    console.warn(`metrics server error: ${error.message}`);
+  });
+  server.listen(port, host, () => {
+    console.log(`metrics endpoint listening on http://${host}:${port}/metrics`);
+  });
+  return server;
+}
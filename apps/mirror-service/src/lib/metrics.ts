@@ -0,0 +1,90 @@
+import { createMetricsRegistry } from "@tg-back/db";
+import type { TelegramClient } from "telegram";
+import { parseFloodWaitSeconds } from "./telegram-errors";
+
+/**
+ * mirror-service 进程内的运行时指标（进程重启后从 0 开始，Prometheus 用 rate/increase 处理）。
+ * 消息总数、任务队列等持久状态由 Web 的 /api/metrics 从数据库统计。
+ */
+export const metrics = createMetricsRegistry();
+
+// 往镜像频道发送 / 转发消息的请求（评论、原文链接也走这些请求）
+const SEND_REQUEST_CLASSES = new Set([
+  "messages.ForwardMessages",
+  "messages.SendMessage",
+  "messages.SendMedia",
+  "messages.SendMultiMedia",
+]);
+
+const sendDuration = metrics.histogram("tg_back_mirror_send_duration_seconds", "Telegram send/forward request latency", {
+  labelNames: ["method", "outcome"],
+});
+
+const floodWaitTotal = metrics.counter(
+  "tg_back_mirror_flood_wait_total",
+  "FLOOD_WAIT errors returned to mirror-service (short waits gramjs sleeps through internally are not included)",
+  ["method"],
+);
+
+const floodWaitSleepSeconds = metrics.counter(
+  "tg_back_mirror_flood_wait_sleep_seconds_total",
+  "Seconds mirror-service slept because of FLOOD_WAIT",
+);
+
+export const dbRetriesTotal = metrics.counter(
+  "tg_back_mirror_db_retries_total",
+  "Database connection errors handled by withDbRetry (retried = will try again, exhausted = gave up)",
+  ["outcome"],
+);
+
+// 正在进行的 FLOOD_WAIT 睡眠（控制接口展示“还要等多久”），到期的在读取时清掉
+const activeFloodWaits = new Set<{ seconds: number; startedAt: number; until: number }>();
+
+export function recordFloodWaitSleep(seconds: number): void {
+  floodWaitSleepSeconds.inc({}, seconds);
+  const startedAt = Date.now();
+  activeFloodWaits.add({ seconds, startedAt, until: startedAt + seconds * 1000 });
+}
+
+export function getActiveFloodWaits(now = Date.now()): Array<{ seconds: number; startedAt: string; until: string }> {
+  const out: Array<{ seconds: number; startedAt: string; until: string }> = [];
+  for (const wait of activeFloodWaits) {
+    if (wait.until <= now) {
+      activeFloodWaits.delete(wait);
+      continue;
+    }
+    out.push({ seconds: wait.seconds, startedAt: new Date(wait.startedAt).toISOString(), until: new Date(wait.until).toISOString() });
+  }
+  return out.sort((a, b) => a.until.localeCompare(b.until));
+}
+
+function getRequestClassName(request: unknown): string {
+  if (!request || typeof request !== "object") return "unknown";
+  const className = (request as { className?: unknown }).className;
+  return typeof className === "string" ? className : "unknown";
+}
+
+/**
+ * 包一层 client.invoke：发送类请求记录耗时，所有请求遇到 FLOOD_WAIT 都计数。
+ * sendMessage / sendFile / ForwardMessages 最终都经过 invoke，这样不用在每个发送点手动埋点。
+ */
+export function instrumentTelegramClient(client: TelegramClient): void {
+  const invoke = client.invoke.bind(client);
+  client.invoke = (async (...args: Parameters<TelegramClient["invoke"]>) => {
+    const method = getRequestClassName(args[0]);
+    const timed = SEND_REQUEST_CLASSES.has(method);
+    const startedAt = performance.now();
+    try {
+      const result = await invoke(...args);
+      if (timed) sendDuration.observe({ method, outcome: "ok" }, (performance.now() - startedAt) / 1000);
+      return result;
+    } catch (error: unknown) {
+      const floodWait = parseFloodWaitSeconds(error) != null;
+      if (floodWait) floodWaitTotal.inc({ method });
+      if (timed) {
+        sendDuration.observe({ method, outcome: floodWait ? "flood_wait" : "error" }, (performance.now() - startedAt) / 1000);
+      }
+      throw error;
+    }
+  }) as TelegramClient["invoke"];
+}
@@ -0,0 +1,276 @@
+import { and, asc, eq, gte, isNotNull, isNull, lte, ne, or, sql } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { TelegramClient } from "telegram";
+import type { EntityLike } from "telegram/define";
+import { sleep } from "../utils/sleep";
+import { ALL_CHANNELS_SCOPE, toChannelScopeCondition, type ChannelScope } from "./channel-scope";
+import { withDbRetry } from "./db-retry";
+import { updateMessageMappingsByIds } from "./message-mappings";
+import { recordFloodWaitSleep } from "./metrics";
+import { getMirrorBehaviorSettings, throttleMirrorSend } from "./settings";
+import { getTelegramErrorMessage, parseFloodWaitSeconds } from "./telegram-errors";
+import { resolvePeer } from "./telegram-peer";
+
+type SyncEventLevel = (typeof schema.eventLevelEnum.enumValues)[number];
+type MirrorDeletionStatus = (typeof schema.mirrorDeletionStatusEnum.enumValues)[number];
+
+const DEFAULT_CHECK_INTERVAL_MS = 60_000;
+const DEFAULT_BATCH_SIZE = 200;
+const DELETE_CHUNK_SIZE = 100;
+// 失败后按 5 分钟起翻倍退避重试，最多 6 小时；达到次数上限才记为 failed
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 5 * 60_000;
+const RETRY_MAX_DELAY_MS = 6 * 3_600_000;
+
+const DELETED_AT_SOURCE_NOTE = "🗑 该消息已在源频道删除";
+
+type MirrorDeletionSchedulerOptions = {
+  floodWaitAutoSleepMaxSec: number;
+};
+
+type MirrorDeletionSchedulerDeps = {
+  client: TelegramClient;
+  scope?: ChannelScope;
+  checkIntervalMs?: number;
+  batchSize?: number;
+  options: MirrorDeletionSchedulerOptions;
+  logSyncEvent: (args: { sourceChannelId: string | null; level: SyncEventLevel; message: string }) => Promise<void>;
+};
+
+type PendingMirrorDeletion = {
+  id: string;
+  sourceChannelId: string;
+  mirrorMessageId: number;
+  mediaGroupId: string | null;
+  mode: (typeof schema.deletionSyncModeEnum.enumValues)[number];
+  mirrorChannelIdentifier: string;
+  attempts: number;
+};
+
+class FloodWaitTooLongError extends Error {
+  constructor(readonly waitSeconds: number) {
+    super(`FLOOD_WAIT_${waitSeconds}`);
+  }
+}
+
+export async function loadPendingMirrorDeletions(scope: ChannelScope, now: number, limit: number): Promise<PendingMirrorDeletion[]> {
+  const rows = await withDbRetry(
+    () =>
+      db
+        .select({
+          id: schema.messageMappings.id,
+          sourceChannelId: schema.messageMappings.sourceChannelId,
+          mirrorMessageId: schema.messageMappings.mirrorMessageId,
+          mediaGroupId: schema.messageMappings.mediaGroupId,
+          mode: schema.sourceChannels.deletionSyncMode,
+          mirrorChannelIdentifier: schema.mirrorChannels.channelIdentifier,
+          attempts: schema.messageMappings.mirrorDeletionAttempts,
+        })
+        .from(schema.messageMappings)
+        .innerJoin(schema.sourceChannels, eq(schema.sourceChannels.id, schema.messageMappings.sourceChannelId))
+        .innerJoin(schema.mirrorChannels, eq(schema.mirrorChannels.id, schema.messageMappings.mirrorChannelId))
+        .where(
+          and(
+            eq(schema.messageMappings.isDeleted, true),
+            isNull(schema.messageMappings.mirrorDeletionStatus),
+            isNotNull(schema.messageMappings.mirrorMessageId),
+            ne(schema.sourceChannels.deletionSyncMode, "record"),
+            // 切换删除同步方式之前积压的删除不处理
+            gte(schema.messageMappings.deletedAt, schema.sourceChannels.deletionSyncSince),
+            or(isNull(schema.messageMappings.mirrorDeletionRetryAt), lte(schema.messageMappings.mirrorDeletionRetryAt, new Date(now))),
+            toChannelScopeCondition(scope, schema.messageMappings.sourceChannelId),
+            sql`${schema.messageMappings.deletedAt} <= ${new Date(now)}::timestamptz - make_interval(mins => ${schema.sourceChannels.deletionGraceMinutes})`,
+          ),
+        )
+        .orderBy(asc(schema.messageMappings.deletedAt))
+        .limit(limit),
+    "load pending mirror deletions",
+    { attempts: 3, baseDelayMs: 250 },
+  );
+
+  return rows.filter((row): row is typeof row & { mirrorMessageId: number } => typeof row.mirrorMessageId === "number");
+}
+
+export function getMirrorDeletionRetryDelayMs(attempts: number): number | null {
+  if (attempts >= MAX_ATTEMPTS) return null;
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * 源频道删除同步：宽限期过后按频道的 deletion_sync_mode 删除镜像消息或回复“已删除”说明。
+ * 只处理切换到当前方式之后的删除（source_channels.deletion_sync_since）；失败的保持待处理，退避后重试。
+ *
+ * 一批最多 batchSize 条，发送节流和 FLOOD_WAIT 可能要等很久，所以在后台执行，不阻塞主循环里的任务调度。
+ */
+export function createMirrorDeletionScheduler({
+  client,
+  scope = ALL_CHANNELS_SCOPE,
+  checkIntervalMs = DEFAULT_CHECK_INTERVAL_MS,
+  batchSize = DEFAULT_BATCH_SIZE,
+  options,
+  logSyncEvent,
+}: MirrorDeletionSchedulerDeps): {
+  ensure: (now: number) => Promise<void>;
+} {
+  let lastEnsureAt = 0;
+  let inFlight = false;
+
+  const runWithFloodWait = async <T>(run: () => Promise<T>): Promise<T> => {
+    try {
+      return await run();
+    } catch (error: unknown) {
+      const waitSeconds = parseFloodWaitSeconds(error);
+      if (!waitSeconds) throw error;
+      if (waitSeconds > options.floodWaitAutoSleepMaxSec) throw new FloodWaitTooLongError(waitSeconds);
+      recordFloodWaitSleep(waitSeconds);
+      await sleep(waitSeconds * 1000);
+      return await run();
+    }
+  };
+
+  const markApplied = async (ids: string[], status: MirrorDeletionStatus): Promise<void> => {
+    await updateMessageMappingsByIds(ids, { mirrorDeletionStatus: status, mirrorDeletionAt: new Date() }, `mirror deletion ${status}`);
+  };
+
+  // 记一次失败：没到上限的推迟重试，到了上限的记为 failed。返回放弃重试的条数
+  const recordFailedAttempt = async (items: PendingMirrorDeletion[]): Promise<number> => {
+    const byAttempts = new Map<number, string[]>();
+    for (const item of items) {
+      const attempts = item.attempts + 1;
+      byAttempts.set(attempts, [...(byAttempts.get(attempts) ?? []), item.id]);
+    }
+
+    let givenUp = 0;
+    for (const [attempts, ids] of byAttempts) {
+      const retryDelayMs = getMirrorDeletionRetryDelayMs(attempts);
+      if (retryDelayMs === null) {
+        await updateMessageMappingsByIds(
+          ids,
+          { mirrorDeletionStatus: "failed", mirrorDeletionAt: new Date(), mirrorDeletionAttempts: attempts, mirrorDeletionRetryAt: null },
+          "mirror deletion failed",
+        );
+        givenUp += ids.length;
+        continue;
+      }
+      await updateMessageMappingsByIds(
+        ids,
+        { mirrorDeletionAttempts: attempts, mirrorDeletionRetryAt: new Date(Date.now() + retryDelayMs) },
+        "mirror deletion retry",
+      );
+    }
+    return givenUp;
+  };
+
+  const describeFailure = (givenUp: number): string => (givenUp > 0 ? `${givenUp} given up after ${MAX_ATTEMPTS} attempts` : "will retry");
+
+  const applyForChannel = async (sourceChannelId: string, items: PendingMirrorDeletion[]): Promise<void> => {
+    const first = items[0]!;
+    const mirrorEntity = (await resolvePeer(client, first.mirrorChannelIdentifier)).entity;
+
+    if (first.mode === "delete") {
+      let deletedCount = 0;
+      for (let i = 0; i < items.length; i += DELETE_CHUNK_SIZE) {
+        const chunk = items.slice(i, i + DELETE_CHUNK_SIZE);
+        try {
+          await runWithFloodWait(() =>
+            client.deleteMessages(mirrorEntity as EntityLike, chunk.map((item) => item.mirrorMessageId), { revoke: true }),
+          );
+          await markApplied(chunk.map((item) => item.id), "deleted");
+          deletedCount += chunk.length;
+        } catch (error: unknown) {
+          if (error instanceof FloodWaitTooLongError) throw error;
+          const msg = error instanceof Error ? error.message : getTelegramErrorMessage(error) ?? String(error);
+          const givenUp = await recordFailedAttempt(chunk);
+          await logSyncEvent({
+            sourceChannelId,
+            level: "warn",
+            message: `failed to delete ${chunk.length} mirrored message(s) (${describeFailure(givenUp)}): ${msg}`,
+          });
+        }
+      }
+      if (deletedCount > 0) {
+        await logSyncEvent({
+          sourceChannelId,
+          level: "info",
+          message: `deleted ${deletedCount} mirrored message(s) removed at source`,
+        });
+      }
+      return;
+    }
+
+    const { mirrorIntervalMs } = await getMirrorBehaviorSettings();
+    const markedGroups = new Set<string>();
+    for (const item of items) {
+      if (item.mediaGroupId && markedGroups.has(item.mediaGroupId)) {
+        await markApplied([item.id], "marked");
+        continue;
+      }
+
+      try {
+        await runWithFloodWait(() =>
+          client.sendMessage(mirrorEntity as EntityLike, {
+            message: DELETED_AT_SOURCE_NOTE,
+            replyTo: item.mirrorMessageId,
+            linkPreview: false,
+          }),
+        );
+        await throttleMirrorSend(mirrorIntervalMs);
+        if (item.mediaGroupId) markedGroups.add(item.mediaGroupId);
+        await markApplied([item.id], "marked");
+      } catch (error: unknown) {
+        if (error instanceof FloodWaitTooLongError) throw error;
+        const msg = error instanceof Error ? error.message : getTelegramErrorMessage(error) ?? String(error);
+        const givenUp = await recordFailedAttempt([item]);
+        await logSyncEvent({
+          sourceChannelId,
+          level: "warn",
+          message: `failed to mark mirrored message as deleted (mirrorMessageId=${item.mirrorMessageId}; ${describeFailure(givenUp)}): ${msg}`,
+        });
+      }
+    }
+  };
+
+  const run = async (now: number): Promise<void> => {
+    const pending = await loadPendingMirrorDeletions(scope, now, batchSize);
+    if (!pending.length) return;
+
+    const bySource = new Map<string, PendingMirrorDeletion[]>();
+    for (const item of pending) {
+      const list = bySource.get(item.sourceChannelId) ?? [];
+      list.push(item);
+      bySource.set(item.sourceChannelId, list);
+    }
+
+    for (const [sourceChannelId, items] of bySource) {
+      try {
+        await applyForChannel(sourceChannelId, items);
+      } catch (error: unknown) {
+        if (error instanceof FloodWaitTooLongError) {
+          console.warn(`mirror deletion paused by FLOOD_WAIT_${error.waitSeconds}; will retry on next run`);
+          lastEnsureAt = Date.now() + error.waitSeconds * 1000;
+          return;
+        }
+        const msg = error instanceof Error ? error.message : getTelegramErrorMessage(error) ?? String(error);
+        console.warn(`mirror deletion failed (will retry): source=${sourceChannelId} - ${msg}`);
+      }
+    }
+  };
+
+  const ensure = async (now: number): Promise<void> => {
+    if (inFlight) return;
+    if (now - lastEnsureAt < checkIntervalMs) return;
+    lastEnsureAt = now;
+
+    inFlight = true;
+    void run(now)
+      .catch((error: unknown) => {
+        const msg = error instanceof Error ? error.message : String(error);
+        console.warn(`mirror deletion run failed: ${msg}`);
+      })
+      .finally(() => {
+        inFlight = false;
+      });
+  };
+
+  return { ensure };
+}
@@ -0,0 +1,260 @@
+import { and, asc, eq, isNotNull, isNull, lt, ne, or, sql } from "drizzle-orm";
+import { db, partitionMirrorMessageIds, schema } from "@tg-back/db";
+import { TelegramClient } from "telegram";
+import { sleep } from "../utils/sleep";
+import { ALL_CHANNELS_SCOPE, toChannelScopeCondition, type ChannelScope } from "./channel-scope";
+import { withDbRetry } from "./db-retry";
+import { updateMessageMappingsByIds } from "./message-mappings";
+import { metrics, recordFloodWaitSleep } from "./metrics";
+import { getTelegramErrorMessage, parseFloodWaitSeconds } from "./telegram-errors";
+import { resolvePeer } from "./telegram-peer";
+
+type SyncEventLevel = (typeof schema.eventLevelEnum.enumValues)[number];
+type GetMessagesPeer = Parameters<TelegramClient["getMessages"]>[0];
+
+// channels.GetMessages 每次最多 100 个 id
+const GET_MESSAGES_CHUNK_SIZE = 100;
+
+export const MIRROR_MISSING_ERROR_MESSAGE = "mirror message missing (removed from mirror channel)";
+
+export type MirrorIntegritySettings = {
+  enabled: boolean;
+  intervalMs: number;
+  batchSize: number;
+  // 同一条消息至少隔这么久才再核对一次
+  recheckMs: number;
+  // 发现缺失后标记为 failed，交给 retry_failed 重新镜像
+  requeueMissing: boolean;
+};
+
+export function getMirrorIntegritySettings(): MirrorIntegritySettings {
+  const enabled = process.env.MIRROR_INTEGRITY_CHECK?.trim() !== "false";
+
+  const intervalSecRaw = Number.parseInt(process.env.MIRROR_INTEGRITY_CHECK_INTERVAL_SEC ?? "300", 10);
+  const intervalSec = Number.isFinite(intervalSecRaw) && intervalSecRaw > 0 ? Math.min(intervalSecRaw, 86_400) : 300;
+
+  const batchRaw = Number.parseInt(process.env.MIRROR_INTEGRITY_CHECK_BATCH ?? "200", 10);
+  const batchSize = Number.isFinite(batchRaw) && batchRaw > 0 ? Math.min(batchRaw, 1000) : 200;
+
+  const recheckDaysRaw = Number.parseInt(process.env.MIRROR_INTEGRITY_RECHECK_DAYS ?? "7", 10);
+  const recheckDays = Number.isFinite(recheckDaysRaw) && recheckDaysRaw > 0 ? Math.min(recheckDaysRaw, 365) : 7;
+
+  return {
+    enabled,
+    intervalMs: intervalSec * 1000,
+    batchSize,
+    recheckMs: recheckDays * 86_400_000,
+    requeueMissing: process.env.MIRROR_INTEGRITY_REQUEUE_MISSING?.trim() === "true",
+  };
+}
+
+type MirrorIntegritySchedulerOptions = {
+  floodWaitAutoSleepMaxSec: number;
+};
+
+type MirrorIntegritySchedulerDeps = {
+  client: TelegramClient;
+  scope?: ChannelScope;
+  settings: MirrorIntegritySettings;
+  options: MirrorIntegritySchedulerOptions;
+  logSyncEvent: (args: { sourceChannelId: string | null; level: SyncEventLevel; message: string }) => Promise<void>;
+};
+
+type IntegrityChannel = {
+  sourceChannelId: string;
+  mirrorChannelId: string;
+  mirrorChannelIdentifier: string;
+};
+
+class FloodWaitTooLongError extends Error {
+  constructor(readonly waitSeconds: number) {
+    super(`FLOOD_WAIT_${waitSeconds}`);
+  }
+}
+
+const checkedTotal = metrics.counter(
+  "tg_back_mirror_integrity_checked_total",
+  "Mirrored messages re-verified against the mirror channel",
+  ["result"],
+);
+
+/**
+ * 镜像完整性核对：每轮挑一个最久没核对的频道，按 mirror_verified_at 从旧到新取一批 status=success 的消息，
+ * 用 GetMessages 确认镜像消息还在。所有消息轮完一遍后（recheckMs）再从头开始，相当于滚动全量扫描。
+ * 目前只核对主镜像；额外镜像目标（message_target_mappings）不在范围内。
+ */
+export function createMirrorIntegrityScheduler({
+  client,
+  scope = ALL_CHANNELS_SCOPE,
+  settings,
+  options,
+  logSyncEvent,
+}: MirrorIntegritySchedulerDeps): {
+  ensure: (now: number) => Promise<void>;
+} {
+  let lastEnsureAt = 0;
+  let inFlight = false;
+
+  const runWithFloodWait = async <T>(run: () => Promise<T>): Promise<T> => {
+    try {
+      return await run();
+    } catch (error: unknown) {
+      const waitSeconds = parseFloodWaitSeconds(error);
+      if (!waitSeconds) throw error;
+      if (waitSeconds > options.floodWaitAutoSleepMaxSec) throw new FloodWaitTooLongError(waitSeconds);
+      recordFloodWaitSleep(waitSeconds);
+      await sleep(waitSeconds * 1000);
+      return await run();
+    }
+  };
+
+  const pickNextChannel = async (): Promise<IntegrityChannel | null> => {
+    const [row] = await withDbRetry(
+      () =>
+        db
+          .select({
+            sourceChannelId: schema.sourceChannels.id,
+            mirrorChannelId: schema.mirrorChannels.id,
+            mirrorChannelIdentifier: schema.mirrorChannels.channelIdentifier,
+          })
+          .from(schema.sourceChannels)
+          .innerJoin(
+            schema.mirrorChannels,
+            and(eq(schema.mirrorChannels.sourceChannelId, schema.sourceChannels.id), eq(schema.mirrorChannels.isPrimary, true)),
+          )
+          .where(
+            and(
+              eq(schema.sourceChannels.isActive, true),
+              isNotNull(schema.mirrorChannels.telegramId),
+              toChannelScopeCondition(scope, schema.sourceChannels.id),
+            ),
+          )
+          .orderBy(sql`${schema.sourceChannels.mirrorVerifiedAt} asc nulls first`)
+          .limit(1),
+      "mirror integrity pick channel",
+      { attempts: 3, baseDelayMs: 250 },
+    );
+    if (!row) return null;
+
+    // 先轮转到下一个频道，核对失败也不会一直卡在同一个频道上
+    await withDbRetry(
+      () =>
+        db
+          .update(schema.sourceChannels)
+          .set({ mirrorVerifiedAt: new Date() })
+          .where(eq(schema.sourceChannels.id, row.sourceChannelId)),
+      "mirror integrity rotate channel",
+      { attempts: 3, baseDelayMs: 250 },
+    );
+    return row;
+  };
+
+  const loadDueMappings = async (channel: IntegrityChannel, now: number) => {
+    const rows = await withDbRetry(
+      () =>
+        db
+          .select({ id: schema.messageMappings.id, mirrorMessageId: schema.messageMappings.mirrorMessageId })
+          .from(schema.messageMappings)
+          .where(
+            and(
+              eq(schema.messageMappings.sourceChannelId, channel.sourceChannelId),
+              eq(schema.messageMappings.mirrorChannelId, channel.mirrorChannelId),
+              eq(schema.messageMappings.status, "success"),
+              isNotNull(schema.messageMappings.mirrorMessageId),
+              // 按删除同步主动删掉的镜像消息不算缺失
+              or(isNull(schema.messageMappings.mirrorDeletionStatus), ne(schema.messageMappings.mirrorDeletionStatus, "deleted")),
+              or(
+                isNull(schema.messageMappings.mirrorVerifiedAt),
+                lt(schema.messageMappings.mirrorVerifiedAt, new Date(now - settings.recheckMs)),
+              ),
+            ),
+          )
+          .orderBy(sql`${schema.messageMappings.mirrorVerifiedAt} asc nulls first`, asc(schema.messageMappings.sourceMessageId))
+          .limit(settings.batchSize),
+      "mirror integrity load mappings",
+      { attempts: 3, baseDelayMs: 250 },
+    );
+    return rows.filter((row): row is typeof row & { mirrorMessageId: number } => typeof row.mirrorMessageId === "number");
+  };
+
+  const verifyChannel = async (channel: IntegrityChannel, now: number): Promise<void> => {
+    const mappings = await loadDueMappings(channel, now);
+    if (!mappings.length) return;
+
+    const mappingIdsByMirrorId = new Map<number, string[]>();
+    for (const mapping of mappings) {
+      const list = mappingIdsByMirrorId.get(mapping.mirrorMessageId) ?? [];
+      list.push(mapping.id);
+      mappingIdsByMirrorId.set(mapping.mirrorMessageId, list);
+    }
+
+    const mirrorEntity = (await resolvePeer(client, channel.mirrorChannelIdentifier)).entity;
+    const mirrorIds = [...mappingIdsByMirrorId.keys()];
+    const presentIds: number[] = [];
+    const missingIds: number[] = [];
+    for (let i = 0; i < mirrorIds.length; i += GET_MESSAGES_CHUNK_SIZE) {
+      const chunk = mirrorIds.slice(i, i + GET_MESSAGES_CHUNK_SIZE);
+      const list = await runWithFloodWait(() => client.getMessages(mirrorEntity as GetMessagesPeer, { ids: chunk }));
+      const { present, missing } = partitionMirrorMessageIds(chunk, (list ?? []).map((msg) => msg?.id));
+      presentIds.push(...present);
+      missingIds.push(...missing);
+    }
+
+    const verifiedAt = new Date();
+    const toMappingIds = (ids: number[]) => ids.flatMap((id) => mappingIdsByMirrorId.get(id) ?? []);
+    await updateMessageMappingsByIds(
+      toMappingIds(presentIds),
+      { mirrorVerifiedAt: verifiedAt, mirrorMissingAt: null },
+      "mirror integrity present",
+    );
+    checkedTotal.inc({ result: "present" }, presentIds.length);
+    if (!missingIds.length) return;
+
+    checkedTotal.inc({ result: "missing" }, missingIds.length);
+    await updateMessageMappingsByIds(
+      toMappingIds(missingIds),
+      settings.requeueMissing
+        ? {
+            mirrorVerifiedAt: verifiedAt,
+            mirrorMissingAt: verifiedAt,
+            status: "failed",
+            mirrorMessageId: null,
+            retryCount: 0,
+            errorMessage: MIRROR_MISSING_ERROR_MESSAGE,
+          }
+        : { mirrorVerifiedAt: verifiedAt, mirrorMissingAt: verifiedAt },
+      "mirror integrity missing",
+    );
+    const preview = missingIds.slice(0, 10).join(",");
+    await logSyncEvent({
+      sourceChannelId: channel.sourceChannelId,
+      level: "warn",
+      message: `mirror integrity: ${missingIds.length}/${mirrorIds.length} mirrored message(s) missing in ${channel.mirrorChannelIdentifier} (mirrorMessageIds=${preview}${missingIds.length > 10 ? ",..." : ""})${settings.requeueMissing ? "; requeued via retry_failed" : ""}`,
+    });
+  };
+
+  const ensure = async (now: number): Promise<void> => {
+    if (!settings.enabled) return;
+    if (inFlight) return;
+    if (now - lastEnsureAt < settings.intervalMs) return;
+    lastEnsureAt = now;
+
+    inFlight = true;
+    let channel: IntegrityChannel | null = null;
+    try {
+      channel = await pickNextChannel();
+      if (channel) await verifyChannel(channel, now);
+    } catch (error: unknown) {
+      if (error instanceof FloodWaitTooLongError) {
+        console.warn(`mirror integrity check paused by FLOOD_WAIT_${error.waitSeconds}; will retry on next run`);
+        return;
+      }
+      const msg = getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
+      console.warn(`mirror integrity check failed (will retry): source=${channel?.sourceChannelId ?? "-"} - ${msg}`);
+    } finally {
+      inFlight = false;
+    }
+  };
+
+  return { ensure };
+}
@@ -1,6 +1,6 @@
-import { schema } from "@tg-back/db";
+import { schema, type MessageFilterInput } from "@tg-back/db";
 import { Api } from "telegram";
-import { readArrayProp, readProp } from "./object-props";
+import { readArrayProp, readProp, readStringProp } from "./object-props";
 import { getTelegramErrorMessage } from "./telegram-errors";
 
 export function messageTypeFromMessage(message: Api.Message): (typeof schema.messageTypeEnum.enumValues)[number] {
@@ -47,6 +47,46 @@ export function extractMediaFileSize(message: Api.Message): number | null {
   return null;
 }
 
+function extractForwardedFrom(message: Api.Message): string[] | null {
+  const fwd = message.fwdFrom;
+  if (!fwd) return null;
+
+  const out: string[] = [];
+  const from = fwd.fromId;
+  if (from instanceof Api.PeerChannel) {
+    const id = from.channelId.toString();
+    out.push(id, `-100${id}`);
+  } else if (from instanceof Api.PeerUser) {
+    out.push(from.userId.toString());
+  } else if (from instanceof Api.PeerChat) {
+    out.push(from.chatId.toString());
+  }
+  if (fwd.fromName) out.push(fwd.fromName.toLowerCase());
+
+  // gramjs 会把已缓存的转发来源实体挂在 message.forward.chat 上，有 username 时一并参与匹配
+  const username = readStringProp(readProp(readProp(message, "forward"), "chat"), "username");
+  if (username) out.push(username.toLowerCase());
+  return out;
+}
+
+/**
+ * 把 Telegram 消息转换成过滤规则引擎的输入（文本、类型、媒体、实体链接、转发来源）。
+ */
+export function buildMessageFilterInput(message: Api.Message): MessageFilterInput {
+  const links: string[] = [];
+  for (const entity of message.entities ?? []) {
+    if (entity instanceof Api.MessageEntityTextUrl && entity.url) links.push(entity.url);
+  }
+
+  return {
+    text: typeof message.message === "string" ? message.message : "",
+    messageType: messageTypeFromMessage(message),
+    hasMedia: !!message.media && !(message.media instanceof Api.MessageMediaWebPage),
+    links,
+    forwardedFrom: extractForwardedFrom(message),
+  };
+}
+
 export function classifyMirrorError(error: unknown): { skipReason?: (typeof schema.skipReasonEnum.enumValues)[number] } {
   const msg = getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
   if (msg.includes("FORWARDS_RESTRICTED") || msg.includes("CHAT_FORWARDS_RESTRICTED")) {
@@ -0,0 +1,539 @@
+import { and, asc, eq, gt, gte, isNull, lt, lte, ne, or, sql, type SQL } from "drizzle-orm";
+import { db, parseCopyTransformConfig, schema } from "@tg-back/db";
+import { Api, TelegramClient } from "telegram";
+import type { EntityLike } from "telegram/define";
+import { sleep } from "../utils/sleep";
+import { buildCopyMessageContent } from "./copy-content";
+import { ALL_CHANNELS_SCOPE, toChannelScopeCondition, type ChannelScope } from "./channel-scope";
+import { withDbRetry } from "./db-retry";
+import { recordFloodWaitSleep } from "./metrics";
+import { buildMessageFilterInput, classifyMirrorError, extractMediaFileSize, messageTypeFromMessage } from "./mirror-message";
+import {
+  getChannelCopyTransforms,
+  getMirrorBehaviorSettings,
+  getMirrorTargetFilterSettings,
+  getRetryBehaviorSettings,
+  matchMessageFilter,
+  throttleMirrorSend,
+} from "./settings";
+import { getTelegramErrorMessage, parseFloodWaitSeconds } from "./telegram-errors";
+import { forwardMessagesAsCopy } from "./telegram-forward";
+import { resolvePeer } from "./telegram-peer";
+import { ensureMirrorMessageSpoiler } from "./telegram-spoiler";
+
+type SyncEventLevel = (typeof schema.eventLevelEnum.enumValues)[number];
+type MessageStatus = (typeof schema.messageStatusEnum.enumValues)[number];
+type SkipReason = (typeof schema.skipReasonEnum.enumValues)[number];
+
+const DEFAULT_CHECK_INTERVAL_MS = 10_000;
+const DEFAULT_BATCH_SIZE = 50;
+const TARGET_WARN_INTERVAL_MS = 30 * 60_000;
+
+type MirrorTargetSchedulerDeps = {
+  client: TelegramClient;
+  scope?: ChannelScope;
+  checkIntervalMs?: number;
+  batchSize?: number;
+  options: { floodWaitAutoSleepMaxSec: number };
+  logSyncEvent: (args: { sourceChannelId: string | null; level: SyncEventLevel; message: string }) => Promise<void>;
+};
+
+type MirrorTarget = Awaited<ReturnType<typeof loadActiveTargets>>[number];
+
+type PendingTargetItem = {
+  mappingId: string;
+  sourceMessageId: number;
+  mediaGroupId: string | null;
+  retryCount: number | null;
+};
+
+type TargetResult = {
+  status: MessageStatus;
+  mirrorMessageId?: number | null;
+  skipReason?: SkipReason | null;
+  skipDetail?: string | null;
+  errorMessage?: string | null;
+};
+
+class FloodWaitTooLongError extends Error {
+  constructor(readonly waitSeconds: number) {
+    super(`FLOOD_WAIT_${waitSeconds}`);
+  }
+}
+
+async function loadActiveTargets(scope: ChannelScope) {
+  return await withDbRetry(
+    () =>
+      db
+        .select({
+          id: schema.mirrorChannels.id,
+          sourceChannelId: schema.mirrorChannels.sourceChannelId,
+          channelIdentifier: schema.mirrorChannels.channelIdentifier,
+          telegramId: schema.mirrorChannels.telegramId,
+          mirrorMode: schema.mirrorChannels.mirrorMode,
+          messageFilterMode: schema.mirrorChannels.messageFilterMode,
+          messageFilterRules: schema.mirrorChannels.messageFilterRules,
+          copyTransforms: schema.mirrorChannels.copyTransforms,
+          cursorMessageId: schema.mirrorChannels.cursorMessageId,
+          source: {
+            name: schema.sourceChannels.name,
+            channelIdentifier: schema.sourceChannels.channelIdentifier,
+            username: schema.sourceChannels.username,
+            telegramId: schema.sourceChannels.telegramId,
+            mirrorMode: schema.sourceChannels.mirrorMode,
+          },
+        })
+        .from(schema.mirrorChannels)
+        .innerJoin(schema.sourceChannels, eq(schema.sourceChannels.id, schema.mirrorChannels.sourceChannelId))
+        .where(
+          and(
+            eq(schema.mirrorChannels.isPrimary, false),
+            eq(schema.mirrorChannels.isActive, true),
+            eq(schema.sourceChannels.isActive, true),
+            sql`${schema.sourceChannels.telegramId} is not null`,
+            toChannelScopeCondition(scope, schema.mirrorChannels.sourceChannelId),
+          ),
+        )
+        .orderBy(asc(schema.mirrorChannels.createdAt)),
+    "load mirror targets",
+    { attempts: 3, baseDelayMs: 250 },
+  );
+}
+
+// 新消息：message_mappings 里这个目标还没有结果的消息（主镜像还在处理的先不跟）
+function selectNewTargetItems(target: MirrorTarget, condition: SQL | undefined) {
+  const m = schema.messageMappings;
+  const tm = schema.messageTargetMappings;
+  return db
+    .select({ mappingId: m.id, sourceMessageId: m.sourceMessageId, mediaGroupId: m.mediaGroupId, retryCount: tm.retryCount })
+    .from(m)
+    .leftJoin(tm, and(eq(tm.messageMappingId, m.id), eq(tm.mirrorChannelId, target.id)))
+    .where(and(eq(m.sourceChannelId, target.sourceChannelId), eq(m.isDeleted, false), ne(m.status, "pending"), isNull(tm.id), condition))
+    .orderBy(asc(m.sourceMessageId));
+}
+
+// 重试：这个目标上失败、还没超过重试次数、且已过重试间隔的消息
+function selectRetryTargetItems(target: MirrorTarget, retry: { maxRetryCount: number; retryBefore: Date }, condition: SQL | undefined) {
+  const m = schema.messageMappings;
+  const tm = schema.messageTargetMappings;
+  return db
+    .select({ mappingId: m.id, sourceMessageId: m.sourceMessageId, mediaGroupId: m.mediaGroupId, retryCount: tm.retryCount })
+    .from(tm)
+    .innerJoin(m, eq(m.id, tm.messageMappingId))
+    .where(
+      and(
+        eq(tm.mirrorChannelId, target.id),
+        eq(tm.status, "failed"),
+        lt(tm.retryCount, retry.maxRetryCount),
+        or(isNull(tm.mirroredAt), lt(tm.mirroredAt, retry.retryBefore)),
+        eq(m.isDeleted, false),
+        condition,
+      ),
+    )
+    .orderBy(asc(m.sourceMessageId));
+}
+
+// 批次按条数截断时最后一个相册可能只取到一半，把同组后面的消息补上，保证相册整组发送
+async function completeTrailingAlbum(
+  items: PendingTargetItem[],
+  limit: number,
+  loadRest: (last: PendingTargetItem & { mediaGroupId: string }) => Promise<PendingTargetItem[]>,
+): Promise<PendingTargetItem[]> {
+  const last = items[items.length - 1];
+  if (items.length < limit || !last?.mediaGroupId) return items;
+  return [...items, ...(await loadRest({ ...last, mediaGroupId: last.mediaGroupId }))];
+}
+
+/**
+ * 目标还没处理过的新消息：从游标往后按源消息 ID 扫描，不用每轮对整个频道的 message_mappings 做反连接。
+ * 返回下一轮的游标；游标不会越过主镜像还在处理（pending）的消息，之后补进更早的消息由 history 任务把游标拨回。
+ */
+async function loadNewTargetItems(target: MirrorTarget, limit: number): Promise<{ items: PendingTargetItem[]; cursor: number | null }> {
+  const m = schema.messageMappings;
+  const cursor = target.cursorMessageId ?? 0;
+
+  const [bounds] = await withDbRetry(
+    () =>
+      db
+        .select({
+          lastId: sql<number | null>`max(${m.sourceMessageId})`,
+          firstPendingId: sql<number | null>`min(${m.sourceMessageId}) filter (where ${m.status} = 'pending')`,
+        })
+        .from(m)
+        .where(and(eq(m.sourceChannelId, target.sourceChannelId), gt(m.sourceMessageId, cursor))),
+    `load cursor bounds for mirror target (id=${target.id})`,
+    { attempts: 3, baseDelayMs: 250 },
+  );
+  const lastId = bounds?.lastId ?? null;
+  if (lastId == null) return { items: [], cursor: null };
+
+  const scanned = await withDbRetry(
+    () => selectNewTargetItems(target, and(gt(m.sourceMessageId, cursor), lte(m.sourceMessageId, lastId))).limit(limit),
+    `load pending items for mirror target (id=${target.id})`,
+    { attempts: 3, baseDelayMs: 250 },
+  );
+  const items = await completeTrailingAlbum(scanned, limit, (last) =>
+    withDbRetry(
+      () => selectNewTargetItems(target, and(eq(m.mediaGroupId, last.mediaGroupId), gt(m.sourceMessageId, last.sourceMessageId))),
+      `load album rest for mirror target (id=${target.id})`,
+      { attempts: 3, baseDelayMs: 250 },
+    ),
+  );
+
+  let next = scanned.length < limit ? lastId : items[items.length - 1]!.sourceMessageId;
+  if (bounds?.firstPendingId != null) next = Math.min(next, bounds.firstPendingId - 1);
+  return { items, cursor: next > cursor ? next : null };
+}
+
+async function loadRetryTargetItems(target: MirrorTarget, limit: number, now: number): Promise<PendingTargetItem[]> {
+  const { maxRetryCount, retryIntervalSec } = await getRetryBehaviorSettings();
+  const retry = { maxRetryCount, retryBefore: new Date(now - retryIntervalSec * 1000) };
+  const m = schema.messageMappings;
+
+  const items = await withDbRetry(
+    () => selectRetryTargetItems(target, retry, undefined).limit(limit),
+    `load failed items for mirror target (id=${target.id})`,
+    { attempts: 3, baseDelayMs: 250 },
+  );
+  return await completeTrailingAlbum(items, limit, (last) =>
+    withDbRetry(
+      () => selectRetryTargetItems(target, retry, and(eq(m.mediaGroupId, last.mediaGroupId), gt(m.sourceMessageId, last.sourceMessageId))),
+      `load album rest for mirror target (id=${target.id})`,
+      { attempts: 3, baseDelayMs: 250 },
+    ),
+  );
+}
+
+async function saveTargetCursor(targetId: string, cursor: number): Promise<void> {
+  await withDbRetry(
+    () => db.update(schema.mirrorChannels).set({ cursorMessageId: cursor }).where(eq(schema.mirrorChannels.id, targetId)),
+    `save mirror target cursor (id=${targetId})`,
+    { attempts: 3, baseDelayMs: 250 },
+  );
+}
+
+/**
+ * history 任务补进了从 fromMessageId 开始的消息：把这个源频道上游标已经越过它的额外目标拨回去，
+ * 下一轮从这里重新往后扫描（目标上已有结果的消息不会重复发送）。
+ */
+export async function rewindMirrorTargetCursors(sourceChannelId: string, fromMessageId: number): Promise<void> {
+  const mc = schema.mirrorChannels;
+  await withDbRetry(
+    () =>
+      db
+        .update(mc)
+        .set({ cursorMessageId: fromMessageId - 1 })
+        .where(and(eq(mc.sourceChannelId, sourceChannelId), eq(mc.isPrimary, false), gte(mc.cursorMessageId, fromMessageId))),
+    `rewind mirror target cursors (source=${sourceChannelId})`,
+    { attempts: 3, baseDelayMs: 250 },
+  );
+}
+
+async function saveTargetResult(targetId: string, item: PendingTargetItem, result: TargetResult): Promise<void> {
+  const tm = schema.messageTargetMappings;
+  const values = {
+    status: result.status,
+    mirrorMessageId: result.mirrorMessageId ?? null,
+    skipReason: result.skipReason ?? null,
+    skipDetail: result.skipDetail ?? null,
+    errorMessage: result.errorMessage ?? null,
+    mirroredAt: new Date(),
+  };
+  const failed = result.status === "failed";
+
+  await withDbRetry(
+    () =>
+      db
+        .insert(tm)
+        .values({ messageMappingId: item.mappingId, mirrorChannelId: targetId, retryCount: failed ? 1 : 0, ...values })
+        .onConflictDoUpdate({
+          target: [tm.messageMappingId, tm.mirrorChannelId],
+          set: { ...values, retryCount: failed ? sql`${tm.retryCount} + 1` : tm.retryCount },
+        }),
+    `save message_target_mapping (target=${targetId}, msgId=${item.sourceMessageId})`,
+    { attempts: 3, baseDelayMs: 250 },
+  );
+}
+
+// 相册（同一 mediaGroupId 的连续消息）要一起转发
+function groupTargetItems(items: PendingTargetItem[]): PendingTargetItem[][] {
+  const groups: PendingTargetItem[][] = [];
+  for (const item of items) {
+    const last = groups[groups.length - 1];
+    if (last && item.mediaGroupId && last[0]!.mediaGroupId === item.mediaGroupId) last.push(item);
+    else groups.push([item]);
+  }
+  return groups;
+}
+
+/**
+ * 额外镜像目标：跟在主镜像后面，把同一个源频道的消息再发一份到其它频道。
+ *
+ * - 每个目标有自己的镜像方式 / 过滤规则 / 文本转换，结果写入 message_target_mappings
+ * - 每个目标有自己的游标（cursorMessageId），从最早的消息开始往后补齐；history 任务补进更早的消息时会把游标拨回
+ * - 失败的按 retry 设置隔一段时间重试；相册总是整组发送，不会被批次截断
+ * - 编辑/删除同步目前只作用于主镜像
+ */
+export function createMirrorTargetScheduler({
+  client,
+  scope = ALL_CHANNELS_SCOPE,
+  checkIntervalMs = DEFAULT_CHECK_INTERVAL_MS,
+  batchSize = DEFAULT_BATCH_SIZE,
+  options,
+  logSyncEvent,
+}: MirrorTargetSchedulerDeps): {
+  ensure: (now: number) => Promise<void>;
+  // 丢弃已解析的频道实体（控制接口“清缓存”用）
+  clearCaches: () => void;
+} {
+  let lastEnsureAt = 0;
+  let inFlight = false;
+  const entityCache = new Map<string, unknown>();
+  const warnedAt = new Map<string, number>();
+
+  const warnTarget = async (target: MirrorTarget, message: string) => {
+    const now = Date.now();
+    if (now - (warnedAt.get(target.id) ?? 0) < TARGET_WARN_INTERVAL_MS) return;
+    warnedAt.set(target.id, now);
+    await logSyncEvent({ sourceChannelId: target.sourceChannelId, level: "warn", message });
+  };
+
+  const runWithFloodWait = async <T>(run: () => Promise<T>): Promise<T> => {
+    try {
+      return await run();
+    } catch (error: unknown) {
+      const waitSeconds = parseFloodWaitSeconds(error);
+      if (!waitSeconds) throw error;
+      if (waitSeconds > options.floodWaitAutoSleepMaxSec) throw new FloodWaitTooLongError(waitSeconds);
+      recordFloodWaitSleep(waitSeconds);
+      await sleep(waitSeconds * 1000);
+      return await run();
+    }
+  };
+
+  const resolveEntity = async (key: string, identifier: string): Promise<unknown> => {
+    const cached = entityCache.get(key);
+    if (cached) return cached;
+    const entity = (await resolvePeer(client, identifier)).entity;
+    if (entityCache.size > 1000) entityCache.clear();
+    entityCache.set(key, entity);
+    return entity;
+  };
+
+  // 缓存键带上 channelIdentifier：在页面上换了目标频道后不会继续发到旧频道
+  const getTargetCacheKey = (target: MirrorTarget): string => `target:${target.id}:${target.channelIdentifier}`;
+
+  const resolveTargetEntity = async (target: MirrorTarget): Promise<unknown> => {
+    if (target.telegramId != null) return await resolveEntity(getTargetCacheKey(target), target.channelIdentifier);
+
+    const resolved = await resolvePeer(client, target.channelIdentifier);
+    if (resolved.peerType !== "channel" && resolved.peerType !== "chat") {
+      throw new Error(`mirror target must be a channel or group: ${target.channelIdentifier}`);
+    }
+    await withDbRetry(
+      () =>
+        db
+          .update(schema.mirrorChannels)
+          .set({
+            telegramId: resolved.telegramId,
+            accessHash: resolved.accessHash,
+            name: resolved.name,
+            username: resolved.username,
+          })
+          .where(eq(schema.mirrorChannels.id, target.id)),
+      `update resolved mirror target (id=${target.id})`,
+      { attempts: 3, baseDelayMs: 250 },
+    );
+    entityCache.set(getTargetCacheKey(target), resolved.entity);
+    return resolved.entity;
+  };
+
+  const mirrorForTarget = async (target: MirrorTarget, now: number): Promise<number> => {
+    const retries = await loadRetryTargetItems(target, batchSize, now);
+    const fresh = await loadNewTargetItems(target, batchSize);
+    const items = [...retries, ...fresh.items];
+    if (!items.length) {
+      if (fresh.cursor != null) await saveTargetCursor(target.id, fresh.cursor);
+      return 0;
+    }
+
+    const targetEntity = await resolveTargetEntity(target);
+    const sourceEntity = await resolveEntity(`source:${target.sourceChannelId}`, target.source.channelIdentifier);
+    const mirrorBehavior = await getMirrorBehaviorSettings();
+    const filter = await getMirrorTargetFilterSettings(target);
+    const mirrorMode = target.mirrorMode ?? target.source.mirrorMode;
+    const transforms =
+      target.copyTransforms == null
+        ? await getChannelCopyTransforms(target.sourceChannelId)
+        : parseCopyTransformConfig(target.copyTransforms);
+
+    const fetched = await runWithFloodWait(() =>
+      client.getMessages(sourceEntity as EntityLike, { ids: items.map((item) => item.sourceMessageId) }),
+    );
+    const messagesById = new Map<number, Api.Message>();
+    for (const msg of fetched) {
+      if (msg instanceof Api.Message && typeof msg.id === "number") messagesById.set(msg.id, msg);
+    }
+
+    const describeError = (error: unknown) => getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
+
+    // 发送失败：受保护内容/原消息已删除直接跳过，其它记为 failed 等待重试
+    const failGroup = async (group: PendingTargetItem[], error: unknown) => {
+      if (error instanceof FloodWaitTooLongError) throw error;
+      const msg = describeError(error);
+      const { skipReason } = classifyMirrorError(error);
+      for (const item of group) {
+        await saveTargetResult(
+          target.id,
+          item,
+          skipReason ? { status: "skipped", skipReason, errorMessage: msg } : { status: "failed", errorMessage: msg },
+        );
+      }
+      console.warn(`mirror target send failed (target=${target.id}, msgId=${group[0]!.sourceMessageId}): ${msg}`);
+    };
+
+    let mirroredCount = 0;
+    for (const group of [...groupTargetItems(retries), ...groupTargetItems(fresh.items)]) {
+      const ready: Array<{ item: PendingTargetItem; message: Api.Message }> = [];
+      for (const item of group) {
+        const message = messagesById.get(item.sourceMessageId);
+        if (!message) {
+          await saveTargetResult(target.id, item, { status: "skipped", skipReason: "message_deleted" });
+          continue;
+        }
+        const fileSize = extractMediaFileSize(message);
+        if (messageTypeFromMessage(message) === "video" && !mirrorBehavior.mirrorVideos) {
+          await saveTargetResult(target.id, item, {
+            status: "skipped",
+            skipReason: "unsupported_type",
+            errorMessage: "skipped: video disabled by settings",
+          });
+          continue;
+        }
+        if (mirrorBehavior.maxFileSizeBytes != null && fileSize != null && fileSize > mirrorBehavior.maxFileSizeBytes) {
+          await saveTargetResult(target.id, item, { status: "skipped", skipReason: "file_too_large" });
+          continue;
+        }
+        ready.push({ item, message });
+      }
+      if (!ready.length) continue;
+
+      // 与主镜像一致：相册里任意一条命中过滤规则，整组跳过
+      const filterMatch = ready.reduce<ReturnType<typeof matchMessageFilter>>(
+        (found, { message }) => found ?? matchMessageFilter(buildMessageFilterInput(message), filter),
+        null,
+      );
+      if (filterMatch) {
+        for (const { item } of ready) {
+          await saveTargetResult(target.id, item, { status: "skipped", skipReason: "filtered", skipDetail: filterMatch.reason });
+        }
+        continue;
+      }
+
+      if (mirrorMode === "forward") {
+        try {
+          const forwarded = await runWithFloodWait(() =>
+            forwardMessagesAsCopy(client, {
+              fromPeer: sourceEntity,
+              toPeer: targetEntity,
+              messageIds: ready.map(({ message }) => message.id),
+            }),
+          );
+          for (let i = 0; i < ready.length; i += 1) {
+            const mirrorMessageId = forwarded[i]?.id ?? null;
+            await saveTargetResult(
+              target.id,
+              ready[i]!.item,
+              mirrorMessageId
+                ? { status: "success", mirrorMessageId }
+                : { status: "failed", errorMessage: "missing forwarded message mapping" },
+            );
+            if (!mirrorMessageId) continue;
+            mirroredCount += 1;
+            await ensureMirrorMessageSpoiler(
+              client,
+              {
+                mirrorPeer: targetEntity,
+                mirrorMessageId,
+                sourceMessage: ready[i]!.message,
+                mirroredMessage: forwarded[i] ?? null,
+              },
+              options,
+            );
+          }
+        } catch (error: unknown) {
+          await failGroup(
+            ready.map(({ item }) => item),
+            error,
+          );
+        }
+        await throttleMirrorSend(mirrorBehavior.mirrorIntervalMs);
+        continue;
+      }
+
+      for (const { item, message } of ready) {
+        const content = buildCopyMessageContent(message, { source: target.source, transforms });
+        if (!content.text) {
+          await saveTargetResult(target.id, item, { status: "skipped", skipReason: "unsupported_type" });
+          continue;
+        }
+        try {
+          const sent = await runWithFloodWait(() =>
+            client.sendMessage(targetEntity as EntityLike, { message: content.text, formattingEntities: content.entities }),
+          );
+          await saveTargetResult(target.id, item, { status: "success", mirrorMessageId: sent?.id ?? null });
+          mirroredCount += 1;
+        } catch (error: unknown) {
+          await failGroup([item], error);
+        }
+        await throttleMirrorSend(mirrorBehavior.mirrorIntervalMs);
+      }
+    }
+
+    // 中途遇到 FLOOD_WAIT 会直接抛出，游标不前进；下一轮从原位置扫描，已有结果的消息不会再取到
+    if (fresh.cursor != null) await saveTargetCursor(target.id, fresh.cursor);
+    return mirroredCount;
+  };
+
+  const run = async (now: number): Promise<void> => {
+    const targets = await loadActiveTargets(scope);
+    for (const target of targets) {
+      try {
+        const count = await mirrorForTarget(target, now);
+        if (count > 0) console.log(`mirrored ${count} message(s) to target=${target.id} (source=${target.sourceChannelId})`);
+      } catch (error: unknown) {
+        if (error instanceof FloodWaitTooLongError) {
+          console.warn(`mirror targets paused by FLOOD_WAIT_${error.waitSeconds}; will retry on next run`);
+          lastEnsureAt = Date.now() + error.waitSeconds * 1000;
+          return;
+        }
+        entityCache.delete(getTargetCacheKey(target));
+        const msg = getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
+        console.warn(`mirror target failed (will retry): target=${target.id} - ${msg}`);
+        await warnTarget(target, `mirror target ${target.channelIdentifier} failed: ${msg}`);
+      }
+    }
+  };
+
+  const ensure = async (now: number): Promise<void> => {
+    if (inFlight) return;
+    if (now - lastEnsureAt < checkIntervalMs) return;
+    lastEnsureAt = now;
+
+    inFlight = true;
+    void run(now)
+      .catch((error: unknown) => {
+        const msg = error instanceof Error ? error.message : String(error);
+        console.warn(`mirror target run failed: ${msg}`);
+      })
+      .finally(() => {
+        inFlight = false;
+      });
+  };
+
+  const clearCaches = (): void => {
+    entityCache.clear();
+  };
+
+  return { ensure, clearCaches };
+}
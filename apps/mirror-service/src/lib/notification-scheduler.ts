@@ -0,0 +1,128 @@
+import { and, asc, eq, lte } from "drizzle-orm";
+import { db, getNotificationRetryDelayMs, parseNotificationEvent, schema } from "@tg-back/db";
+import { withDbRetry } from "./db-retry";
+import { NotificationSendError, sendNotification } from "./notification-senders";
+
+const DEFAULT_CHECK_INTERVAL_MS = 5_000;
+const DEFAULT_BATCH_SIZE = 20;
+const MAX_ERROR_LEN = 1_000;
+
+type NotificationSchedulerDeps = {
+  checkIntervalMs?: number;
+  batchSize?: number;
+};
+
+type DueDelivery = {
+  id: string;
+  attempts: number;
+  payload: Record<string, unknown>;
+  ruleEnabled: boolean;
+  targetType: (typeof schema.notificationTargetTypeEnum.enumValues)[number];
+  target: Record<string, unknown>;
+};
+
+async function loadDueDeliveries(now: number, limit: number): Promise<DueDelivery[]> {
+  return await withDbRetry(
+    () =>
+      db
+        .select({
+          id: schema.notificationDeliveries.id,
+          attempts: schema.notificationDeliveries.attempts,
+          payload: schema.notificationDeliveries.payload,
+          ruleEnabled: schema.notificationRules.enabled,
+          targetType: schema.notificationRules.targetType,
+          target: schema.notificationRules.target,
+        })
+        .from(schema.notificationDeliveries)
+        .innerJoin(schema.notificationRules, eq(schema.notificationRules.id, schema.notificationDeliveries.ruleId))
+        .where(
+          and(
+            eq(schema.notificationDeliveries.status, "pending"),
+            lte(schema.notificationDeliveries.nextAttemptAt, new Date(now)),
+          ),
+        )
+        .orderBy(asc(schema.notificationDeliveries.nextAttemptAt))
+        .limit(limit),
+    "load due notification deliveries",
+    { attempts: 3, baseDelayMs: 250 },
+  );
+}
+
+async function updateDelivery(id: string, values: Partial<typeof schema.notificationDeliveries.$inferInsert>): Promise<void> {
+  await withDbRetry(
+    () => db.update(schema.notificationDeliveries).set(values).where(eq(schema.notificationDeliveries.id, id)),
+    `update notification delivery (id=${id})`,
+    { attempts: 3, baseDelayMs: 250 },
+  );
+}
+
+async function deliverOne(delivery: DueDelivery): Promise<void> {
+  const event = parseNotificationEvent(delivery.payload);
+  if (!event) {
+    await updateDelivery(delivery.id, { status: "failed", lastError: "invalid payload" });
+    return;
+  }
+  // 规则停用后，还没发出去的也不再发送（测试推送除外）
+  if (!delivery.ruleEnabled && !event.test) {
+    await updateDelivery(delivery.id, { status: "failed", lastError: "rule disabled" });
+    return;
+  }
+
+  const attempts = delivery.attempts + 1;
+  try {
+    const { responseStatus } = await sendNotification(delivery.targetType, delivery.target, event);
+    await updateDelivery(delivery.id, { status: "sent", attempts, responseStatus, lastError: null, sentAt: new Date() });
+  } catch (error: unknown) {
+    const msg = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LEN);
+    const responseStatus = error instanceof NotificationSendError ? error.responseStatus : null;
+    const retryDelayMs = getNotificationRetryDelayMs(attempts);
+    console.warn(`notification delivery failed (id=${delivery.id}, attempt=${attempts}): ${msg}`);
+    await updateDelivery(delivery.id, {
+      status: retryDelayMs === null ? "failed" : "pending",
+      attempts,
+      responseStatus,
+      lastError: msg,
+      nextAttemptAt: retryDelayMs === null ? undefined : new Date(Date.now() + retryDelayMs),
+    });
+  }
+}
+
+/**
+ * 发送 notification_deliveries 里到期的 pending 记录。
+ * 这里出错只打日志、不写 sync_events，避免通知失败再触发通知。
+ */
+export function createNotificationScheduler({
+  checkIntervalMs = DEFAULT_CHECK_INTERVAL_MS,
+  batchSize = DEFAULT_BATCH_SIZE,
+}: NotificationSchedulerDeps = {}): {
+  ensure: (now: number) => Promise<void>;
+} {
+  let lastEnsureAt = 0;
+  let inFlight = false;
+
+  const run = async (now: number): Promise<void> => {
+    const due = await loadDueDeliveries(now, batchSize);
+    for (const delivery of due) {
+      await deliverOne(delivery);
+    }
+  };
+
+  // 发送可能要等网络超时，放到后台跑，不阻塞任务主循环
+  const ensure = async (now: number): Promise<void> => {
+    if (inFlight) return;
+    if (now - lastEnsureAt < checkIntervalMs) return;
+    lastEnsureAt = now;
+
+    inFlight = true;
+    void run(now)
+      .catch((error: unknown) => {
+        const msg = error instanceof Error ? error.message : String(error);
+        console.warn(`notification dispatch failed: ${msg}`);
+      })
+      .finally(() => {
+        inFlight = false;
+      });
+  };
+
+  return { ensure };
+}
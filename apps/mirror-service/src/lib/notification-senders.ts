@@ -0,0 +1,111 @@
+import { decrypt } from "@tg-back/crypto";
+import {
+  buildWebhookBody,
+  formatNotificationSubject,
+  formatNotificationText,
+  NOTIFICATION_SECRET_FIELDS,
+  NOTIFICATION_SIGNATURE_HEADER,
+  NOTIFICATION_TIMESTAMP_HEADER,
+  signNotificationBody,
+  validateNotificationTarget,
+  type NotificationEvent,
+  type NotificationTargetType,
+} from "@tg-back/db";
+import { sendSmtpMail } from "./smtp-client";
+
+const REQUEST_TIMEOUT_MS = 15_000;
+const TELEGRAM_API_BASE_URL = "https://api.telegram.org";
+// Bot API 单条消息上限 4096 字符
+const TELEGRAM_MAX_TEXT_LEN = 4_000;
+
+export class NotificationSendError extends Error {
+  constructor(
+    message: string,
+    readonly responseStatus: number | null = null,
+  ) {
+    super(message);
+  }
+}
+
+function decryptSecrets(type: NotificationTargetType, raw: Record<string, unknown>): Record<string, unknown> {
+  const out = { ...raw };
+  for (const field of NOTIFICATION_SECRET_FIELDS[type]) {
+    const value = out[field];
+    if (typeof value === "string" && value) out[field] = decrypt(value);
+  }
+  return out;
+}
+
+async function readResponseSnippet(response: Response): Promise<string> {
+  const text = await response.text().catch(() => "");
+  return text.trim().slice(0, 300);
+}
+
+/**
+ * 按规则的目标配置发送一条通知；失败时抛出 NotificationSendError（带 HTTP 状态码时一并返回）。
+ */
+export async function sendNotification(
+  type: NotificationTargetType,
+  rawTarget: Record<string, unknown>,
+  event: NotificationEvent,
+): Promise<{ responseStatus: number | null }> {
+  const validated = validateNotificationTarget(type, decryptSecrets(type, rawTarget));
+  if ("error" in validated) throw new NotificationSendError(`invalid target: ${validated.error}`);
+  const target = validated.target;
+
+  if (target.type === "webhook") {
+    const body = buildWebhookBody(event);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "User-Agent": "tg-back-notifier",
+      [NOTIFICATION_TIMESTAMP_HEADER]: timestamp,
+    };
+    if (target.secret) headers[NOTIFICATION_SIGNATURE_HEADER] = signNotificationBody(target.secret, timestamp, body);
+
+    const response = await fetch(target.url, {
+      method: "POST",
+      headers,
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new NotificationSendError(`HTTP ${response.status} ${await readResponseSnippet(response)}`.trim(), response.status);
+    }
+    return { responseStatus: response.status };
+  }
+
+  if (target.type === "telegram_bot") {
+    const baseUrl = (target.apiBaseUrl ?? TELEGRAM_API_BASE_URL).replace(/\/+$/, "");
+    const response = await fetch(`${baseUrl}/bot${target.botToken}/sendMessage`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        chat_id: target.chatId,
+        text: formatNotificationText(event).slice(0, TELEGRAM_MAX_TEXT_LEN),
+        disable_web_page_preview: true,
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      // 错误信息里可能带 URL，不能把 token 写进日志
+      const snippet = (await readResponseSnippet(response)).split(target.botToken).join("***");
+      throw new NotificationSendError(`Bot API HTTP ${response.status} ${snippet}`.trim(), response.status);
+    }
+    return { responseStatus: response.status };
+  }
+
+  await sendSmtpMail({
+    host: target.host,
+    port: target.port,
+    security: target.security,
+    username: target.username,
+    password: target.password,
+    from: target.from,
+    to: target.to,
+    subject: formatNotificationSubject(event),
+    text: formatNotificationText(event),
+    timeoutMs: REQUEST_TIMEOUT_MS,
+  });
+  return { responseStatus: null };
+}
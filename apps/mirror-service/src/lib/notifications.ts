@@ -0,0 +1,56 @@
+import { and, eq, gte, ne, sql } from "drizzle-orm";
+import { db, matchesNotificationRule, schema, type NotificationEvent } from "@tg-back/db";
+import { getNotificationRules, type NotificationRuleSummary } from "./settings";
+
+async function loadSourceChannelName(sourceChannelId: string | null): Promise<string | null> {
+  if (!sourceChannelId) return null;
+  const [row] = await db
+    .select({ name: schema.sourceChannels.name, channelIdentifier: schema.sourceChannels.channelIdentifier })
+    .from(schema.sourceChannels)
+    .where(eq(schema.sourceChannels.id, sourceChannelId))
+    .limit(1);
+  return row ? row.name || row.channelIdentifier : null;
+}
+
+async function isRateLimited(rule: NotificationRuleSummary, now: number): Promise<boolean> {
+  if (rule.rateLimitCount <= 0 || rule.rateLimitWindowSec <= 0) return false;
+  const since = new Date(now - rule.rateLimitWindowSec * 1000);
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(schema.notificationDeliveries)
+    .where(
+      and(
+        eq(schema.notificationDeliveries.ruleId, rule.id),
+        gte(schema.notificationDeliveries.createdAt, since),
+        ne(schema.notificationDeliveries.status, "rate_limited"),
+      ),
+    );
+  return (row?.count ?? 0) >= rule.rateLimitCount;
+}
+
+/**
+ * 为一条刚写入的 sync_event 生成待发送的通知；实际发送由 notification-scheduler 负责。
+ * 超出频率限制的也写一条 rate_limited 记录，方便在投递日志里看到被压掉了多少。
+ */
+export async function enqueueSyncEventNotifications(
+  event: Omit<NotificationEvent, "sourceChannelName" | "test">,
+): Promise<void> {
+  const rules = (await getNotificationRules()).filter((rule) => matchesNotificationRule(rule, event));
+  if (!rules.length) return;
+
+  const payload: NotificationEvent = { ...event, sourceChannelName: await loadSourceChannelName(event.sourceChannelId) };
+  const now = Date.now();
+
+  const values: Array<typeof schema.notificationDeliveries.$inferInsert> = [];
+  for (const rule of rules) {
+    const limited = await isRateLimited(rule, now);
+    values.push({
+      ruleId: rule.id,
+      eventId: event.id,
+      payload,
+      status: limited ? "rate_limited" : "pending",
+    });
+  }
+
+  await db.insert(schema.notificationDeliveries).values(values);
+}
@@ -1,19 +1,24 @@
 import { and, asc, desc, eq, gt, gte, inArray, isNull, lt, ne, or, sql } from "drizzle-orm";
-import { db, schema } from "@tg-back/db";
+import { db, schema, type MessageFilterMatch } from "@tg-back/db";
 import { Api, TelegramClient } from "telegram";
 import type { EntityLike, FileLike } from "telegram/define";
 import { NewMessage, Raw } from "telegram/events";
 import { sleep } from "../utils/sleep";
 import { toBigIntOrNull } from "./bigint";
+import { ALL_CHANNELS_SCOPE, toChannelScopeCondition, type ChannelScope } from "./channel-scope";
+import { buildCopyMessageContent, type CopyMessageContent } from "./copy-content";
 import { withDbRetry } from "./db-retry";
+import { isCommentMirrored, readSentMessageIds, recordComments, type CommentPost } from "./message-comments";
 import { updateMessageMappingsByIds } from "./message-mappings";
-import { classifyMirrorError, extractMediaFileSize, messageTypeFromMessage } from "./mirror-message";
+import { recordFloodWaitSleep } from "./metrics";
+import { buildMessageFilterInput, classifyMirrorError, extractMediaFileSize, messageTypeFromMessage } from "./mirror-message";
 import { omitUndefined } from "./omit-undefined";
 import { logSyncEvent } from "./sync-events";
 import { markTaskFailed, pauseTask } from "./task-lifecycle";
 import { notifyTasksChanged } from "./tasks-notify";
 import { getTelegramErrorMessage, isRetryableCommentThreadError, parseFloodWaitSeconds } from "./telegram-errors";
 import { syncCommentsForPost as syncCommentsForPostImpl } from "./telegram-comments";
+import { propagateMessageEdit, type EditPropagationResult } from "./telegram-edit-propagation";
 import { forwardMessagesAsCopy } from "./telegram-forward";
 import { ensureMirrorMessageSpoiler as ensureMirrorMessageSpoilerImpl, getSendFileMediaForMessage } from "./telegram-spoiler";
 import { ensureOriginalLinkComment as ensureOriginalLinkCommentImpl } from "./telegram-original-link";
@@ -24,20 +29,31 @@ import { resolvePeer } from "./telegram-peer";
 import { readArrayProp, readBooleanProp, readNumberProp, readProp, readStringProp } from "./object-props";
 import {
   getAutoChannelSettings,
+  getChannelCopyTransforms,
   getEffectiveMessageFilterSettings,
   getMirrorBehaviorSettings,
   getRetryBehaviorSettings,
   getRuntimeSettings,
-  shouldSkipMessageByFilter,
+  matchMessageFilter,
   throttleMirrorSend,
 } from "./settings";
 
 export type RealtimeManagerOptions = {
   floodWaitAutoSleepMaxSec: number;
+  // 多账号时只订阅分给该账号的频道，编辑/删除更新也只处理这些频道
+  scope?: ChannelScope;
+};
+
+export type RealtimeSubscriptionSnapshot = {
+  sourceChannelId: string;
+  mirrorChannelId: string;
+  subscribedAt: string;
+  pendingMediaGroups: { channel: number; discussion: number };
 };
 
 export function createRealtimeManager(client: TelegramClient, options: RealtimeManagerOptions) {
   const FLOOD_WAIT_AUTO_SLEEP_MAX_SEC = options.floodWaitAutoSleepMaxSec;
+  const scope = options.scope ?? ALL_CHANNELS_SCOPE;
   const warnedAt = new Map<string, number>();
 
   const warnOnce = (key: string, message: string, intervalMs = 60_000): void => {
@@ -96,6 +112,7 @@ export function createRealtimeManager(client: TelegramClient, options: RealtimeM
       sourceEntity,
       mirrorEntity,
       mirrorChannelId,
+      sourceChannelId,
       sourceChannel,
       sourcePostId,
       mirrorPostId,
@@ -104,6 +121,7 @@ export function createRealtimeManager(client: TelegramClient, options: RealtimeM
       sourceEntity: unknown;
       mirrorEntity: unknown;
       mirrorChannelId: string;
+      sourceChannelId: string;
       sourceChannel: { username?: string | null; telegramId?: bigint | null };
       sourcePostId: number;
       mirrorPostId: number;
@@ -112,20 +130,25 @@ export function createRealtimeManager(client: TelegramClient, options: RealtimeM
   ): Promise<void> {
     return syncCommentsForPostImpl(
       client,
-      { sourceEntity, mirrorEntity, mirrorChannelId, sourceChannel, sourcePostId, mirrorPostId, maxComments },
+      { sourceEntity, mirrorEntity, mirrorChannelId, sourceChannelId, sourceChannel, sourcePostId, mirrorPostId, maxComments },
       { floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC },
     );
   }
 type RealtimeSubscription = {
   sourceChannelId: string;
   mirrorChannelId: string;
+  subscribedAt: number;
+  // 还在等凑齐的相册（频道消息 / 讨论组评论），控制接口展示用
+  getPendingMediaGroups: () => { channel: number; discussion: number };
   cleanup: () => void;
 };
 
 class RealtimeManager {
   private subscriptions = new Map<string, RealtimeSubscription>();
   private subscribedTelegramIds = new Map<string, string>();
+  private mirrorEntityCache = new Map<string, unknown>();
   private rawHandlersAttached = false;
+  private rawHandlers: Array<{ callback: (update: any) => Promise<void>; event: Raw }> = [];
 
   constructor(private client: TelegramClient) {
     this.attachRawHandlers();
@@ -135,9 +158,14 @@ class RealtimeManager {
     if (this.rawHandlersAttached) return;
     this.rawHandlersAttached = true;
 
+    const addRawHandler = (callback: (update: any) => Promise<void>, event: Raw): void => {
+      this.client.addEventHandler(callback, event);
+      this.rawHandlers.push({ callback, event });
+    };
+
     const resolveSourceChannelIdByTelegramKey = async (channelKey: string): Promise<string | null> => {
       const cached = this.subscribedTelegramIds.get(channelKey);
-      if (cached) return cached;
+      if (cached) return scope.has(cached) ? cached : null;
 
       const telegramId = toBigIntOrNull(channelKey);
       if (telegramId == null || telegramId <= 0n) return null;
@@ -150,10 +178,23 @@ class RealtimeManager {
       if (!row) return null;
 
       this.subscribedTelegramIds.set(channelKey, row.id);
-      return row.id;
+      return scope.has(row.id) ? row.id : null;
     };
 
-    this.client.addEventHandler(
+    const resolveMirrorEntity = async (mirrorChannelId: string, channelIdentifier: string): Promise<unknown> => {
+      // 镜像频道换了标识（改绑 / 重新解析）后 key 随之变化，不会再用到旧实体
+      const cacheKey = `${mirrorChannelId}:${channelIdentifier}`;
+      const cached = this.mirrorEntityCache.get(cacheKey);
+      if (cached) return cached;
+
+      const entity = (await resolvePeer(this.client, channelIdentifier)).entity;
+      if (this.mirrorEntityCache.size > 1000) this.mirrorEntityCache.clear();
+      this.forgetMirrorEntity(mirrorChannelId);
+      this.mirrorEntityCache.set(cacheKey, entity);
+      return entity;
+    };
+
+    addRawHandler(
       async (update) => {
         try {
           const settings = await getRuntimeSettings();
@@ -175,12 +216,24 @@ class RealtimeManager {
           const [existing] = await db
             .select({
               id: schema.messageMappings.id,
+              status: schema.messageMappings.status,
+              mirrorMessageId: schema.messageMappings.mirrorMessageId,
               mirroredAt: schema.messageMappings.mirroredAt,
               lastEditedAt: schema.messageMappings.lastEditedAt,
               editCount: schema.messageMappings.editCount,
               text: schema.messageMappings.text,
+              editSyncMode: schema.sourceChannels.editSyncMode,
+              mirrorMode: schema.sourceChannels.mirrorMode,
+              sourceName: schema.sourceChannels.name,
+              sourceChannelIdentifier: schema.sourceChannels.channelIdentifier,
+              sourceUsername: schema.sourceChannels.username,
+              sourceTelegramId: schema.sourceChannels.telegramId,
+              mirrorChannelId: schema.mirrorChannels.id,
+              mirrorChannelIdentifier: schema.mirrorChannels.channelIdentifier,
             })
             .from(schema.messageMappings)
+            .innerJoin(schema.sourceChannels, eq(schema.sourceChannels.id, schema.messageMappings.sourceChannelId))
+            .innerJoin(schema.mirrorChannels, eq(schema.mirrorChannels.id, schema.messageMappings.mirrorChannelId))
             .where(and(eq(schema.messageMappings.sourceChannelId, sourceChannelId), eq(schema.messageMappings.sourceMessageId, message.id)))
             .limit(1);
 
@@ -196,11 +249,55 @@ class RealtimeManager {
           const lastEditedAtMs = existing.lastEditedAt ? existing.lastEditedAt.getTime() : null;
           const editedAtMs = editedAt.getTime();
 
-          if (!textChanged) return;
+          const isMirrored = existing.status === "success" && !!existing.mirrorMessageId;
+          const hasEditDate = !!message.editDate && message.editDate > 0;
+          const hasMedia = !!message.media && !(message.media instanceof Api.MessageMediaWebPage);
+          const mayHaveSwappedMedia =
+            !textChanged && hasEditDate && hasMedia && isMirrored && existing.editSyncMode === "edit" && existing.mirrorMode === "forward";
+
+          if (!textChanged && !mayHaveSwappedMedia) return;
 
           const isNewer = lastEditedAtMs == null || editedAtMs >= lastEditedAtMs;
           if (!isNewer) return;
 
+          const propagate = async (mediaOnly: boolean): Promise<EditPropagationResult> => {
+            if (existing.editSyncMode === "record") return { status: "recorded", error: null };
+            if (!isMirrored) return { status: "skipped", error: "message not mirrored" };
+            const mirrorPeer = await resolveMirrorEntity(existing.mirrorChannelId, existing.mirrorChannelIdentifier);
+            const copyContent =
+              existing.mirrorMode === "copy"
+                ? buildCopyMessageContent(message, {
+                    source: {
+                      name: existing.sourceName,
+                      channelIdentifier: existing.sourceChannelIdentifier,
+                      username: existing.sourceUsername,
+                      telegramId: existing.sourceTelegramId,
+                    },
+                    transforms: await getChannelCopyTransforms(sourceChannelId),
+                  })
+                : null;
+            return await propagateMessageEdit(
+              this.client,
+              {
+                editSyncMode: existing.editSyncMode,
+                mirrorMode: existing.mirrorMode,
+                mirrorPeer,
+                mirrorMessageId: existing.mirrorMessageId,
+                sourceMessage: message,
+                mediaOnly,
+                copyContent,
+              },
+              { floodWaitAutoSleepMaxSec: FLOOD_WAIT_AUTO_SLEEP_MAX_SEC },
+            );
+          };
+
+          // 文本未变化时只有媒体被替换才算一次编辑，需要先尝试同步再决定是否记录
+          let outcome: EditPropagationResult | null = null;
+          if (!textChanged) {
+            outcome = await propagate(true);
+            if (outcome.status !== "edited" && outcome.status !== "failed") return;
+          }
+
           const updated = await db
             .update(schema.messageMappings)
             .set({
@@ -214,8 +311,9 @@ class RealtimeManager {
 
           const newEditCount = updated[0]?.editCount ?? existing.editCount + 1;
 
+          let editRowId: string | null = null;
           if (settings.keepEditHistory) {
-            await db
+            const inserted = await db
               .insert(schema.messageEdits)
               .values({
                 messageMappingId: existing.id,
@@ -223,8 +321,37 @@ class RealtimeManager {
                 previousText,
                 newText: nextText,
                 editedAt,
+                ...(outcome ? { propagationStatus: outcome.status, propagationError: outcome.error, propagatedAt: new Date() } : {}),
               })
-              .onConflictDoNothing();
+              .onConflictDoNothing()
+              .returning({ id: schema.messageEdits.id });
+            editRowId = inserted[0]?.id ?? null;
+          }
+
+          if (!outcome) {
+            outcome = await propagate(false);
+            if (editRowId) {
+              await withDbRetry(
+                () =>
+                  db
+                    .update(schema.messageEdits)
+                    .set({ propagationStatus: outcome!.status, propagationError: outcome!.error, propagatedAt: new Date() })
+                    .where(eq(schema.messageEdits.id, editRowId!)),
+                `record edit propagation (mappingId=${existing.id}, version=${newEditCount})`,
+                { attempts: 3, baseDelayMs: 250 },
+              );
+            }
+          }
+
+          if (outcome.status === "failed") {
+            // 可能是镜像频道已变更（access hash 失效等），下次重新解析
+            this.forgetMirrorEntity(existing.mirrorChannelId);
+            console.warn(`failed to propagate message edit: msgId=${message.id} - ${outcome.error ?? "unknown error"}`);
+            await logSyncEvent({
+              sourceChannelId,
+              level: "warn",
+              message: `failed to propagate message edit (msgId=${message.id}, mode=${existing.editSyncMode}): ${outcome.error ?? "unknown error"}`,
+            });
           }
         } catch (error: unknown) {
           const msg = error instanceof Error ? error.message : String(error);
@@ -234,7 +361,7 @@ class RealtimeManager {
       new Raw({ types: [Api.UpdateEditChannelMessage] }),
     );
 
-    this.client.addEventHandler(
+    addRawHandler(
       async (update) => {
         try {
           const settings = await getRuntimeSettings();
@@ -273,9 +400,17 @@ class RealtimeManager {
     return this.subscriptions.has(sourceChannelId);
   }
 
+  private forgetMirrorEntity(mirrorChannelId: string): void {
+    const prefix = `${mirrorChannelId}:`;
+    for (const key of this.mirrorEntityCache.keys()) {
+      if (key.startsWith(prefix)) this.mirrorEntityCache.delete(key);
+    }
+  }
+
   private cleanupSubscription(sourceChannelId: string): void {
     const subscription = this.subscriptions.get(sourceChannelId);
     if (!subscription) return;
+    this.forgetMirrorEntity(subscription.mirrorChannelId);
 
     try {
       subscription.cleanup();
@@ -285,11 +420,62 @@ class RealtimeManager {
     }
   }
 
+  getSubscriptionCount(): number {
+    return this.subscriptions.size;
+  }
+
+  getSubscriptions(): RealtimeSubscriptionSnapshot[] {
+    return [...this.subscriptions.values()].map((subscription) => ({
+      sourceChannelId: subscription.sourceChannelId,
+      mirrorChannelId: subscription.mirrorChannelId,
+      subscribedAt: new Date(subscription.subscribedAt).toISOString(),
+      pendingMediaGroups: subscription.getPendingMediaGroups(),
+    }));
+  }
+
+  /**
+   * 取消订阅（不传则全部），下一次 ensure() 会按数据库里的 realtime 任务重新订阅。
+   * 用于频道重新解析后立即生效，而不用等进程重启。
+   */
+  resubscribe(sourceChannelId?: string): number {
+    const ids = sourceChannelId ? [sourceChannelId].filter((id) => this.subscriptions.has(id)) : [...this.subscriptions.keys()];
+    for (const id of ids) this.cleanupSubscription(id);
+    return ids.length;
+  }
+
+  clearCaches(): void {
+    this.mirrorEntityCache.clear();
+    // 已订阅频道的映射在 trySubscribe 时写入，只丢掉按需查出来的那部分
+    const subscribed = new Set(this.subscriptions.keys());
+    for (const [key, sourceChannelId] of this.subscribedTelegramIds) {
+      if (!subscribed.has(sourceChannelId)) this.subscribedTelegramIds.delete(key);
+    }
+  }
+
+  /**
+   * 账号停用/删除时调用：取消所有订阅并移除原始更新处理器，之后这个 client 可以安全断开。
+   */
+  dispose(): void {
+    for (const sourceChannelId of [...this.subscriptions.keys()]) {
+      this.cleanupSubscription(sourceChannelId);
+    }
+    for (const handler of this.rawHandlers) {
+      this.client.removeEventHandler(handler.callback, handler.event);
+    }
+    this.rawHandlers = [];
+  }
+
   async ensure(): Promise<void> {
     const tasks = await db
       .select({ id: schema.syncTasks.id, sourceChannelId: schema.syncTasks.sourceChannelId, status: schema.syncTasks.status })
       .from(schema.syncTasks)
-      .where(and(eq(schema.syncTasks.taskType, "realtime"), inArray(schema.syncTasks.status, ["pending", "running"])));
+      .where(
+        and(
+          eq(schema.syncTasks.taskType, "realtime"),
+          inArray(schema.syncTasks.status, ["pending", "running"]),
+          toChannelScopeCondition(scope, schema.syncTasks.sourceChannelId),
+        ),
+      );
 
     const activeSourceChannelIds = new Set(tasks.map((task) => task.sourceChannelId));
     for (const sourceChannelId of [...this.subscriptions.keys()]) {
@@ -323,7 +509,7 @@ class RealtimeManager {
     const [mirror] = await db
       .select()
       .from(schema.mirrorChannels)
-      .where(eq(schema.mirrorChannels.sourceChannelId, source.id))
+      .where(and(eq(schema.mirrorChannels.sourceChannelId, source.id), eq(schema.mirrorChannels.isPrimary, true)))
       .limit(1);
     if (!mirror) return;
 
@@ -430,6 +616,7 @@ class RealtimeManager {
         items: Api.Message[];
         mirrorPostId: number;
         sourcePostId: number;
+        post: CommentPost;
         timeout: NodeJS.Timeout | null;
       }
     >();
@@ -562,17 +749,15 @@ class RealtimeManager {
       const messageIds = items.map((i) => i.message.id);
 
       const messageFilter = await getEffectiveMessageFilterSettings(source.id);
-      const shouldFilter =
-        messageFilter.enabled &&
-        messageFilter.keywords.length > 0 &&
-        items.some((item) =>
-          shouldSkipMessageByFilter(typeof item.message.message === "string" ? item.message.message : "", messageFilter),
-        );
+      const filterMatch = items.reduce<MessageFilterMatch | null>(
+        (found, item) => found ?? matchMessageFilter(buildMessageFilterInput(item.message), messageFilter),
+        null,
+      );
 
-      if (shouldFilter) {
+      if (filterMatch) {
         await updateMessageMappingsByIds(
           mappingIds,
-          { status: "skipped", skipReason: "filtered", mirroredAt: new Date(), errorMessage: null },
+          { status: "skipped", skipReason: "filtered", skipDetail: filterMatch.reason, mirroredAt: new Date(), errorMessage: null },
           "realtime album skip:filtered",
         );
         return;
@@ -680,6 +865,7 @@ class RealtimeManager {
 
         const waitSeconds = parseFloodWaitSeconds(error);
         if (waitSeconds && waitSeconds <= FLOOD_WAIT_AUTO_SLEEP_MAX_SEC) {
+          recordFloodWaitSleep(waitSeconds);
           await sleep(waitSeconds * 1000);
           await refreshMirrorBehavior();
           try {
@@ -802,36 +988,39 @@ class RealtimeManager {
             const formattingEntities = Array.isArray(m.entities) ? m.entities : undefined;
             if (!rawText.trim() && !m.media) return;
 
-	              const sendOnce = async () => {
+	              const sendOnce = async (): Promise<unknown> => {
 	                if (m.media && !(m.media instanceof Api.MessageMediaWebPage)) {
-	                  await this.client.sendFile(mirrorEntity as EntityLike, {
+	                  return await this.client.sendFile(mirrorEntity as EntityLike, {
 	                    file: (getSendFileMediaForMessage(m) ?? m.media) as FileLike,
 	                    caption: rawText,
 	                    formattingEntities,
 	                    commentTo: entry.mirrorPostId,
 	                  });
-	                  return;
 	                }
 	              if (rawText.trim()) {
-	                await this.client.sendMessage(mirrorEntity as EntityLike, {
+	                return await this.client.sendMessage(mirrorEntity as EntityLike, {
 	                  message: rawText,
 	                  formattingEntities,
 	                  commentTo: entry.mirrorPostId,
 	                });
 	              }
+	              return null;
 	            };
 
+            let sent: unknown;
             try {
-              await sendOnce();
+              sent = await sendOnce();
             } catch (error: unknown) {
               const waitSeconds = parseFloodWaitSeconds(error);
               if (waitSeconds && waitSeconds <= FLOOD_WAIT_AUTO_SLEEP_MAX_SEC) {
+                recordFloodWaitSleep(waitSeconds);
                 await sleep(waitSeconds * 1000);
-                await sendOnce();
+                sent = await sendOnce();
               } else {
                 throw error;
               }
             }
+            await recordComments(entry.post, [m], { status: "success", mirrorMessageIds: readSentMessageIds(sent) });
           };
 
           try {
@@ -853,25 +1042,27 @@ class RealtimeManager {
 	            const files = album.map((m) => (getSendFileMediaForMessage(m) ?? m.media) as FileLike);
 	            const captions = album.map((m) => (typeof m.message === "string" ? m.message : ""));
 
-	            const sendOnce = async () => {
+	            const sendOnce = async (): Promise<unknown> =>
 	              await this.client.sendFile(mirrorEntity as EntityLike, {
 	                file: files,
 	                caption: captions,
 	                commentTo: entry.mirrorPostId,
 	              });
-	            };
 
+            let sent: unknown;
             try {
-              await sendOnce();
+              sent = await sendOnce();
             } catch (error: unknown) {
               const waitSeconds = parseFloodWaitSeconds(error);
               if (waitSeconds && waitSeconds <= FLOOD_WAIT_AUTO_SLEEP_MAX_SEC) {
+                recordFloodWaitSleep(waitSeconds);
                 await sleep(waitSeconds * 1000);
-                await sendOnce();
+                sent = await sendOnce();
               } else {
                 throw error;
               }
             }
+            await recordComments(entry.post, album, { status: "success", mirrorMessageIds: readSentMessageIds(sent) });
           } catch (error: unknown) {
             const msg = error instanceof Error ? error.message : getTelegramErrorMessage(error) ?? String(error);
             console.error(`realtime comment album handler error: ${msg}`);
@@ -883,6 +1074,7 @@ class RealtimeManager {
               } catch (error2: unknown) {
                 const msg2 = error2 instanceof Error ? error2.message : getTelegramErrorMessage(error2) ?? String(error2);
                 console.error(`realtime comment mirror fallback failed: post=${entry.sourcePostId} comment=${m.id} - ${msg2}`);
+                await recordComments(entry.post, [m], { status: "failed", errorMessage: msg2 });
               }
             }
           }
@@ -891,7 +1083,7 @@ class RealtimeManager {
         const bufferDiscussionMediaGroup = (
           groupKey: string,
           message: Api.Message,
-          { mirrorPostId, sourcePostId }: { mirrorPostId: number; sourcePostId: number },
+          { mirrorPostId, sourcePostId, post }: { mirrorPostId: number; sourcePostId: number; post: CommentPost },
         ): void => {
           if (disposed) return;
           const key = `${sourcePostId}:${groupKey}`;
@@ -908,7 +1100,7 @@ class RealtimeManager {
           const timeout = setTimeout(() => {
             flushDiscussionMediaGroup(key).catch((e) => console.error("flush discussion media group error:", e));
           }, mirrorBehavior.mediaGroupBufferMs);
-          discussionMediaGroupBuffers.set(key, { items: [message], mirrorPostId, sourcePostId, timeout });
+          discussionMediaGroupBuffers.set(key, { items: [message], mirrorPostId, sourcePostId, post, timeout });
         };
 
         const commentHandler = async (event: { message?: unknown }) => {
@@ -940,13 +1132,16 @@ class RealtimeManager {
 
             const sourcePostId = related.id;
             const [postMapping] = await db
-              .select({ mirrorMessageId: schema.messageMappings.mirrorMessageId })
+              .select({ id: schema.messageMappings.id, mirrorMessageId: schema.messageMappings.mirrorMessageId })
               .from(schema.messageMappings)
               .where(and(eq(schema.messageMappings.sourceChannelId, source.id), eq(schema.messageMappings.sourceMessageId, sourcePostId)))
               .limit(1);
 
             const mirrorPostId = postMapping?.mirrorMessageId;
             if (!mirrorPostId) return;
+            const post: CommentPost = { messageMappingId: postMapping.id, sourceChannelId: source.id };
+            // 历史任务 / 重启前可能已经镜像过
+            if (await isCommentMirrored(source.id, message.id)) return;
 
             const rawText = typeof message.message === "string" ? message.message : "";
             const link = buildSourceMessageLink(source, sourcePostId);
@@ -954,42 +1149,53 @@ class RealtimeManager {
 
             const isAlbumItem = !!message.groupedId && !!message.media && !(message.media instanceof Api.MessageMediaWebPage);
             if (isAlbumItem) {
-              bufferDiscussionMediaGroup(String(message.groupedId), message, { mirrorPostId, sourcePostId });
+              bufferDiscussionMediaGroup(String(message.groupedId), message, { mirrorPostId, sourcePostId, post });
               return;
             }
 
             await ensureOriginalLinkComment(this.client, { mirrorEntity, mirrorChannelId: mirror.id, mirrorPostId, sourceLink: link });
 
-            const sendOnce = async () => {
+            const sendOnce = async (): Promise<unknown> => {
               if (message.media && !(message.media instanceof Api.MessageMediaWebPage)) {
-                await this.client.sendFile(mirrorEntity as EntityLike, {
+                return await this.client.sendFile(mirrorEntity as EntityLike, {
                   file: (getSendFileMediaForMessage(message) ?? message.media) as FileLike,
                   caption: rawText,
                   formattingEntities,
                   commentTo: mirrorPostId,
                 });
-                return;
               }
               if (rawText.trim()) {
-                await this.client.sendMessage(mirrorEntity as EntityLike, {
+                return await this.client.sendMessage(mirrorEntity as EntityLike, {
                   message: rawText,
                   formattingEntities,
                   commentTo: mirrorPostId,
                 });
               }
+              return null;
             };
 
+            let sent: unknown;
             try {
-              await sendOnce();
+              sent = await sendOnce();
             } catch (error: unknown) {
               const waitSeconds = parseFloodWaitSeconds(error);
               if (waitSeconds && waitSeconds <= FLOOD_WAIT_AUTO_SLEEP_MAX_SEC) {
+                recordFloodWaitSleep(waitSeconds);
                 await sleep(waitSeconds * 1000);
-                await sendOnce();
+                try {
+                  sent = await sendOnce();
+                } catch (error2: unknown) {
+                  const msg2 = error2 instanceof Error ? error2.message : getTelegramErrorMessage(error2) ?? String(error2);
+                  await recordComments(post, [message], { status: "failed", errorMessage: msg2 });
+                  throw error2;
+                }
               } else {
+                const msg1 = error instanceof Error ? error.message : getTelegramErrorMessage(error) ?? String(error);
+                await recordComments(post, [message], { status: "failed", errorMessage: msg1 });
                 throw error;
               }
             }
+            await recordComments(post, [message], { status: "success", mirrorMessageIds: readSentMessageIds(sent) });
           } catch (error: unknown) {
             const msg = error instanceof Error ? error.message : getTelegramErrorMessage(error) ?? String(error);
             console.error(`realtime comment handler error: ${msg}`);
@@ -1080,7 +1286,7 @@ class RealtimeManager {
           return;
         }
 
-        const markSkipped = async (skipReason: (typeof schema.skipReasonEnum.enumValues)[number]) => {
+        const markSkipped = async (skipReason: (typeof schema.skipReasonEnum.enumValues)[number], skipDetail: string | null = null) => {
           if (skipReason === "protected_content" && !reportedProtectedContent) {
             reportedProtectedContent = true;
             console.warn(
@@ -1109,7 +1315,7 @@ class RealtimeManager {
             () =>
               db
                 .update(schema.messageMappings)
-                .set({ status: "skipped", skipReason, mirroredAt: new Date() })
+                .set({ status: "skipped", skipReason, skipDetail, mirroredAt: new Date() })
                 .where(eq(schema.messageMappings.id, mappingId)),
             `realtime mark skipped (taskId=${taskId}, mappingId=${mappingId})`,
             { attempts: 3, baseDelayMs: 250 },
@@ -1117,8 +1323,9 @@ class RealtimeManager {
         };
 
         const messageFilter = await getEffectiveMessageFilterSettings(source.id);
-        if (shouldSkipMessageByFilter(text, messageFilter)) {
-          await markSkipped("filtered");
+        const filterMatch = matchMessageFilter(buildMessageFilterInput(message), messageFilter);
+        if (filterMatch) {
+          await markSkipped("filtered", filterMatch.reason);
           return;
         }
 
@@ -1199,13 +1406,16 @@ class RealtimeManager {
         };
 
         let mirroredMessage: Api.Message | null = null;
+        let copyContent: CopyMessageContent | null = null;
 
         const tryMirrorOnce = async (): Promise<number | null> => {
           if (mode === "copy") {
             mirroredMessage = null;
-            const content = text.trim();
-            if (!content) throw new Error("unsupported_type: empty text in copy mode");
-            const sent = await this.client.sendMessage(mirrorEntity, { message: content });
+            if (!copyContent?.text) throw new Error("unsupported_type: empty text in copy mode");
+            const sent = await this.client.sendMessage(mirrorEntity, {
+              message: copyContent.text,
+              formattingEntities: copyContent.entities,
+            });
             await throttleMirrorSend(mirrorBehavior.mirrorIntervalMs);
             return sent?.id ?? null;
           }
@@ -1223,8 +1433,8 @@ class RealtimeManager {
 
         try {
           if (mode === "copy") {
-            const content = text.trim();
-            if (!content) {
+            copyContent = buildCopyMessageContent(message, { source, transforms: await getChannelCopyTransforms(source.id) });
+            if (!copyContent.text) {
               await markSkipped("unsupported_type");
               return;
             }
@@ -1267,6 +1477,7 @@ class RealtimeManager {
 
           const waitSeconds = parseFloodWaitSeconds(error);
           if (waitSeconds && waitSeconds <= FLOOD_WAIT_AUTO_SLEEP_MAX_SEC) {
+            recordFloodWaitSleep(waitSeconds);
             await sleep(waitSeconds * 1000);
             await refreshMirrorBehavior();
             try {
@@ -1336,7 +1547,13 @@ class RealtimeManager {
     }
     void notifyTasksChanged({ taskId, sourceChannelId: source.id, taskType: "realtime", status: "running" });
 
-    this.subscriptions.set(sourceChannelId, { sourceChannelId, mirrorChannelId: mirror.id, cleanup: cleanupCurrentSubscription });
+    this.subscriptions.set(sourceChannelId, {
+      sourceChannelId,
+      mirrorChannelId: mirror.id,
+      subscribedAt: Date.now(),
+      getPendingMediaGroups: () => ({ channel: mediaGroupBuffers.size, discussion: discussionMediaGroupBuffers.size }),
+      cleanup: cleanupCurrentSubscription,
+    });
     console.log(`realtime subscribed: source=${source.channelIdentifier} -> mirror=${mirror.channelIdentifier}`);
     try {
       await logSyncEvent({
@@ -46,7 +46,10 @@ async function ensureRetryFailedTasks(now: number): Promise<void> {
         .select({ sourceChannelId: schema.messageMappings.sourceChannelId })
         .from(schema.messageMappings)
         .innerJoin(schema.sourceChannels, eq(schema.sourceChannels.id, schema.messageMappings.sourceChannelId))
-        .innerJoin(schema.mirrorChannels, eq(schema.mirrorChannels.sourceChannelId, schema.messageMappings.sourceChannelId))
+        .innerJoin(
+          schema.mirrorChannels,
+          and(eq(schema.mirrorChannels.sourceChannelId, schema.messageMappings.sourceChannelId), eq(schema.mirrorChannels.isPrimary, true)),
+        )
         .where(and(...whereConditions))
         .groupBy(schema.messageMappings.sourceChannelId)
         .limit(20),
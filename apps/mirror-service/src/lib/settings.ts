@@ -1,5 +1,25 @@
 import { eq, inArray } from "drizzle-orm";
-import { db, parseSettingValue, schema } from "@tg-back/db";
+import { decrypt } from "@tg-back/crypto";
+import {
+  db,
+  describeTelegramProxy,
+  evaluateMessageFilterRules,
+  defaultCopyTransformConfig,
+  keywordsToMessageFilterRule,
+  parseCopyTransformConfig,
+  parseEnvTelegramProxy,
+  parseMessageFilterRules,
+  parseSettingValue,
+  schema,
+  TELEGRAM_PROXY_SECRET_FIELDS,
+  toTelegramProxyOptions,
+  type CopyTransformConfig,
+  type MessageFilterInput,
+  type MessageFilterMatch,
+  type MessageFilterRule,
+  type TelegramProxyOptions,
+  type TelegramProxySetting,
+} from "@tg-back/db";
 import { withDbRetry } from "./db-retry";
 import { sleep } from "../utils/sleep";
 
@@ -14,6 +34,8 @@ function warnOnce(key: string, message: string, intervalMs = 60_000): void {
   console.warn(message);
 }
 
+const cacheResetters: Array<() => void> = [];
+
 function createCachedLoader<T>(
   cacheMs: number,
   loadFresh: () => Promise<T>,
@@ -21,6 +43,10 @@ function createCachedLoader<T>(
 ): () => Promise<T> {
   let cached: T | null = null;
   let cachedAt = 0;
+  cacheResetters.push(() => {
+    cached = null;
+    cachedAt = 0;
+  });
 
   return async () => {
     const now = Date.now();
@@ -159,11 +185,77 @@ export async function getMirrorBehaviorSettings(): Promise<MirrorBehaviorSetting
   return await loadMirrorBehaviorSettings();
 }
 
+type MediaArchiveSettings = {
+  enabled: boolean;
+};
+
+const loadMediaArchiveSettings = createCachedLoader<MediaArchiveSettings>(
+  SETTINGS_CACHE_MS,
+  async () => {
+    const keys = ["media_archive_enabled"] as const;
+    const rows = await loadSettingsRows(keys, "load media archive settings");
+    const map = new Map(rows.map((r) => [r.key, r.value]));
+
+    const enabled = parseSettingValue("media_archive_enabled", map.get("media_archive_enabled"));
+
+    return { enabled };
+  },
+  (error: unknown, cached: MediaArchiveSettings | null) => {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.warn(`failed to load media archive settings; using defaults: ${msg}`);
+    return cached ?? { enabled: schema.defaultSettings.media_archive_enabled === true };
+  },
+);
+
+export async function getMediaArchiveSettings(): Promise<MediaArchiveSettings> {
+  return await loadMediaArchiveSettings();
+}
+
+type TelegramProxySettings = {
+  // null = 直连
+  proxy: TelegramProxyOptions | null;
+  // 日志用（不含密码 / secret）
+  description: string;
+};
+
+function toTelegramProxySettings(setting: TelegramProxySetting | null): TelegramProxySettings {
+  if (!setting) return { proxy: null, description: "direct" };
+  return { proxy: toTelegramProxyOptions(setting), description: describeTelegramProxy(setting) };
+}
+
+const loadTelegramProxySettings = createCachedLoader<TelegramProxySettings>(
+  SETTINGS_CACHE_MS,
+  async () => {
+    const rows = await loadSettingsRows(["telegram_proxy"], "load telegram proxy settings");
+    const stored = parseSettingValue("telegram_proxy", rows[0]?.value);
+    // 没配置时兼容旧的 PROXY_HOST / PROXY_PORT 环境变量
+    if (stored.type === "none") return toTelegramProxySettings(parseEnvTelegramProxy(process.env));
+
+    const setting = { ...stored };
+    for (const field of TELEGRAM_PROXY_SECRET_FIELDS) {
+      if (setting[field]) setting[field] = decrypt(setting[field]);
+    }
+    return toTelegramProxySettings(setting);
+  },
+  (error: unknown, cached: TelegramProxySettings | null) => {
+    const msg = error instanceof Error ? error.message : String(error);
+    warnOnce("telegram-proxy", `failed to load telegram proxy settings; using ${cached ? "previous" : "env"} proxy: ${msg}`);
+    return cached ?? toTelegramProxySettings(parseEnvTelegramProxy(process.env));
+  },
+);
+
+export async function getTelegramProxySettings(): Promise<TelegramProxySettings> {
+  return await loadTelegramProxySettings();
+}
+
 type MessageFilterSettings = {
   enabled: boolean;
-  keywords: string[];
+  // 旧版关键词会被转换成一条 “关键词” 规则放在最前面
+  rules: MessageFilterRule[];
 };
 
+type MessageFilterMode = (typeof schema.messageFilterModeEnum.enumValues)[number];
+
 function parseMessageFilterKeywords(raw: string): string[] {
   const parts = raw
     .split(/[\n\r,，\s]+/g)
@@ -182,23 +274,28 @@ function parseMessageFilterKeywords(raw: string): string[] {
   return out;
 }
 
+function buildFilterRules(keywordsRaw: string, rules: MessageFilterRule[]): MessageFilterRule[] {
+  const keywordRule = keywordsToMessageFilterRule(parseMessageFilterKeywords(keywordsRaw));
+  return keywordRule ? [keywordRule, ...rules] : rules;
+}
+
 const loadMessageFilterSettings = createCachedLoader<MessageFilterSettings>(
   SETTINGS_CACHE_MS,
   async () => {
-    const keys = ["message_filter_enabled", "message_filter_keywords"] as const;
+    const keys = ["message_filter_enabled", "message_filter_keywords", "message_filter_rules"] as const;
     const rows = await loadSettingsRows(keys, "load message filter settings");
     const map = new Map(rows.map((r) => [r.key, r.value]));
 
     const enabled = parseSettingValue("message_filter_enabled", map.get("message_filter_enabled"));
     const keywordsRaw = parseSettingValue("message_filter_keywords", map.get("message_filter_keywords"));
-    const keywords = enabled ? parseMessageFilterKeywords(keywordsRaw) : [];
+    const rules = parseSettingValue("message_filter_rules", map.get("message_filter_rules"));
 
-    return { enabled, keywords };
+    return { enabled, rules: enabled ? buildFilterRules(keywordsRaw, rules) : [] };
   },
   (error: unknown, cached: MessageFilterSettings | null) => {
     const msg = error instanceof Error ? error.message : String(error);
     console.warn(`failed to load message filter settings; using defaults: ${msg}`);
-    return cached ?? { enabled: false, keywords: [] };
+    return cached ?? { enabled: false, rules: [] };
   },
 );
 
@@ -206,19 +303,19 @@ async function getMessageFilterSettings(): Promise<MessageFilterSettings> {
   return await loadMessageFilterSettings();
 }
 
-const cachedChannelMessageFilterSettings = new Map<
-  string,
-  { at: number; mode: (typeof schema.messageFilterModeEnum.enumValues)[number]; keywords: string }
->();
-
-async function getChannelMessageFilterSettings(sourceChannelId: string): Promise<{
-  mode: (typeof schema.messageFilterModeEnum.enumValues)[number];
+type ChannelMessageFilterSettings = {
+  mode: MessageFilterMode;
   keywords: string;
-}> {
+  rules: MessageFilterRule[];
+};
+
+const cachedChannelMessageFilterSettings = new Map<string, { at: number } & ChannelMessageFilterSettings>();
+
+async function getChannelMessageFilterSettings(sourceChannelId: string): Promise<ChannelMessageFilterSettings> {
   const now = Date.now();
   const cached = cachedChannelMessageFilterSettings.get(sourceChannelId);
   if (cached && now - cached.at < SETTINGS_CACHE_MS) {
-    return { mode: cached.mode, keywords: cached.keywords };
+    return { mode: cached.mode, keywords: cached.keywords, rules: cached.rules };
   }
 
   try {
@@ -226,6 +323,7 @@ async function getChannelMessageFilterSettings(sourceChannelId: string): Promise
       .select({
         mode: schema.sourceChannels.messageFilterMode,
         keywords: schema.sourceChannels.messageFilterKeywords,
+        rules: schema.sourceChannels.messageFilterRules,
       })
       .from(schema.sourceChannels)
       .where(eq(schema.sourceChannels.id, sourceChannelId))
@@ -233,39 +331,143 @@ async function getChannelMessageFilterSettings(sourceChannelId: string): Promise
 
     const mode = row?.mode ?? "inherit";
     const keywords = row?.keywords ?? "";
-    const normalizedMode = mode === "disabled" || mode === "custom" ? mode : "inherit";
+    const rules = parseMessageFilterRules(row?.rules);
+    const normalizedMode = mode === "disabled" || mode === "custom" || mode === "merge" ? mode : "inherit";
 
-    cachedChannelMessageFilterSettings.set(sourceChannelId, { at: now, mode: normalizedMode, keywords });
-    return { mode: normalizedMode, keywords };
+    cachedChannelMessageFilterSettings.set(sourceChannelId, { at: now, mode: normalizedMode, keywords, rules });
+    return { mode: normalizedMode, keywords, rules };
   } catch (error: unknown) {
     const msg = error instanceof Error ? error.message : String(error);
     warnOnce(
       "settings:channel-message-filter",
       `failed to load channel message filter settings; using defaults (sourceChannelId=${sourceChannelId}): ${msg}`,
     );
-    cachedChannelMessageFilterSettings.set(sourceChannelId, { at: now, mode: "inherit", keywords: "" });
-    return { mode: "inherit", keywords: "" };
+    cachedChannelMessageFilterSettings.set(sourceChannelId, { at: now, mode: "inherit", keywords: "", rules: [] });
+    return { mode: "inherit", keywords: "", rules: [] };
   }
 }
 
+/**
+ * 频道过滤模式：
+ * - inherit：使用全局规则
+ * - disabled：不过滤
+ * - custom：只用频道自己的关键词/规则
+ * - merge：频道规则 + 全局规则（全局关闭时只剩频道规则）
+ */
 export async function getEffectiveMessageFilterSettings(sourceChannelId: string): Promise<MessageFilterSettings> {
   const channelSettings = await getChannelMessageFilterSettings(sourceChannelId);
-  if (channelSettings.mode === "disabled") return { enabled: false, keywords: [] };
-  if (channelSettings.mode === "custom") {
-    return { enabled: true, keywords: parseMessageFilterKeywords(channelSettings.keywords) };
-  }
-  return await getMessageFilterSettings();
+  if (channelSettings.mode === "disabled") return { enabled: false, rules: [] };
+
+  const channelRules = buildFilterRules(channelSettings.keywords, channelSettings.rules);
+  if (channelSettings.mode === "custom") return { enabled: true, rules: channelRules };
+
+  const global = await getMessageFilterSettings();
+  if (channelSettings.mode === "merge") return { enabled: true, rules: [...channelRules, ...global.rules] };
+  return global;
+}
+
+/**
+ * 额外镜像目标的过滤配置：inherit 与源频道（主镜像）一致，custom 只用目标自己的规则，merge 叠加两者。
+ */
+export async function getMirrorTargetFilterSettings(target: {
+  sourceChannelId: string;
+  messageFilterMode: MessageFilterMode;
+  messageFilterRules: unknown;
+}): Promise<MessageFilterSettings> {
+  if (target.messageFilterMode === "disabled") return { enabled: false, rules: [] };
+  if (target.messageFilterMode === "inherit") return await getEffectiveMessageFilterSettings(target.sourceChannelId);
+
+  const targetRules = parseMessageFilterRules(target.messageFilterRules);
+  if (target.messageFilterMode === "custom") return { enabled: true, rules: targetRules };
+
+  const source = await getEffectiveMessageFilterSettings(target.sourceChannelId);
+  return { enabled: true, rules: [...targetRules, ...(source.enabled ? source.rules : [])] };
+}
+
+/**
+ * 命中任一规则时返回原因（写入 message_mappings.skip_detail），否则返回 null。
+ */
+export function matchMessageFilter(input: MessageFilterInput, filter: MessageFilterSettings): MessageFilterMatch | null {
+  if (!filter.enabled || !filter.rules.length) return null;
+  return evaluateMessageFilterRules(filter.rules, input);
+}
+
+const cachedChannelCopyTransforms = new Map<string, { at: number; config: CopyTransformConfig }>();
+
+/**
+ * 频道的 copy 模式文本转换配置（带短缓存，修改后约 5 秒内生效）。
+ */
+/**
+ * 丢弃所有设置缓存，下次读取时直接查库（控制接口“清缓存”用；平时靠过期时间自然刷新）。
+ */
+export function clearSettingsCaches(): void {
+  for (const reset of cacheResetters) reset();
+  cachedChannelMessageFilterSettings.clear();
+  cachedChannelCopyTransforms.clear();
 }
 
-export function shouldSkipMessageByFilter(text: string, filter: MessageFilterSettings): boolean {
-  if (!filter.enabled || !filter.keywords.length) return false;
-  const content = text.trim();
-  if (!content) return false;
-  const haystack = content.toLowerCase();
-  for (const keyword of filter.keywords) {
-    if (haystack.includes(keyword)) return true;
+export async function getChannelCopyTransforms(sourceChannelId: string): Promise<CopyTransformConfig> {
+  const now = Date.now();
+  const cached = cachedChannelCopyTransforms.get(sourceChannelId);
+  if (cached && now - cached.at < SETTINGS_CACHE_MS) return cached.config;
+
+  try {
+    const [row] = await db
+      .select({ copyTransforms: schema.sourceChannels.copyTransforms })
+      .from(schema.sourceChannels)
+      .where(eq(schema.sourceChannels.id, sourceChannelId))
+      .limit(1);
+
+    const config = parseCopyTransformConfig(row?.copyTransforms);
+    cachedChannelCopyTransforms.set(sourceChannelId, { at: now, config });
+    return config;
+  } catch (error: unknown) {
+    const msg = error instanceof Error ? error.message : String(error);
+    warnOnce(
+      "settings:channel-copy-transforms",
+      `failed to load channel copy transforms; sending untransformed text (sourceChannelId=${sourceChannelId}): ${msg}`,
+    );
+    cachedChannelCopyTransforms.set(sourceChannelId, { at: now, config: defaultCopyTransformConfig });
+    return defaultCopyTransformConfig;
   }
-  return false;
+}
+
+export type NotificationRuleSummary = {
+  id: string;
+  minLevel: (typeof schema.eventLevelEnum.enumValues)[number];
+  sourceChannelIds: string[];
+  rateLimitCount: number;
+  rateLimitWindowSec: number;
+};
+
+// 只缓存过滤条件；目标配置（含密钥）在发送时再读取
+const loadNotificationRules = createCachedLoader<NotificationRuleSummary[]>(
+  SETTINGS_CACHE_MS,
+  async () => {
+    const rows = await db
+      .select({
+        id: schema.notificationRules.id,
+        minLevel: schema.notificationRules.minLevel,
+        sourceChannelIds: schema.notificationRules.sourceChannelIds,
+        rateLimitCount: schema.notificationRules.rateLimitCount,
+        rateLimitWindowSec: schema.notificationRules.rateLimitWindowSec,
+      })
+      .from(schema.notificationRules)
+      .where(eq(schema.notificationRules.enabled, true));
+    return rows.map((row) => ({
+      ...row,
+      sourceChannelIds: Array.isArray(row.sourceChannelIds) ? row.sourceChannelIds.filter((v) => typeof v === "string") : [],
+    }));
+  },
+  (error, cached) => {
+    const msg = error instanceof Error ? error.message : String(error);
+    warnOnce("settings:notification-rules", `failed to load notification rules; using cached rules: ${msg}`);
+    return cached ?? [];
+  },
+);
+
+export async function getNotificationRules(): Promise<NotificationRuleSummary[]> {
+  return await loadNotificationRules();
 }
 
 export async function throttleMirrorSend(intervalMs: number): Promise<void> {
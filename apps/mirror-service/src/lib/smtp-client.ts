@@ -0,0 +1,190 @@
+import crypto from "node:crypto";
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+
+/**
+ * 只够发通知邮件的最小 SMTP 客户端：EHLO → (STARTTLS) → AUTH PLAIN/LOGIN → MAIL/RCPT/DATA → QUIT。
+ * 正文固定为 UTF-8 纯文本（base64 编码），不支持附件。
+ */
+
+export type SmtpSendOptions = {
+  host: string;
+  port: number;
+  security: "tls" | "starttls" | "none";
+  username: string;
+  password: string;
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  timeoutMs?: number;
+};
+
+type SmtpReply = { code: number; lines: string[] };
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    readonly code: number | null = null,
+  ) {
+    super(message);
+  }
+}
+
+function createReplyReader(socket: net.Socket) {
+  let buffer = "";
+  let pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  let failure: Error | null = null;
+  const lines: string[] = [];
+
+  const flush = () => {
+    if (!pending) return;
+    if (failure) {
+      pending.reject(failure);
+      pending = null;
+      return;
+    }
+    // 多行响应：250-xxx ... 250 xxx，最后一行第 4 个字符是空格
+    const endIndex = lines.findIndex((line) => /^\d{3}(?: |$)/.test(line));
+    if (endIndex < 0) return;
+    const replyLines = lines.splice(0, endIndex + 1);
+    const code = Number.parseInt(replyLines[replyLines.length - 1]!.slice(0, 3), 10);
+    const resolve = pending.resolve;
+    pending = null;
+    resolve({ code, lines: replyLines.map((line) => line.slice(4)) });
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let index = buffer.indexOf("\n");
+    while (index >= 0) {
+      lines.push(buffer.slice(0, index).replace(/\r$/, ""));
+      buffer = buffer.slice(index + 1);
+      index = buffer.indexOf("\n");
+    }
+    flush();
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    flush();
+  };
+  const onClose = () => {
+    failure ??= new SmtpError("connection closed by server");
+    flush();
+  };
+
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+
+  return {
+    read: () =>
+      new Promise<SmtpReply>((resolve, reject) => {
+        pending = { resolve, reject };
+        flush();
+      }),
+    detach: () => {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    },
+  };
+}
+
+function connect(options: SmtpSendOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const onConnect = () => resolve(socket);
+    const socket =
+      options.security === "tls"
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host }, onConnect)
+        : net.connect({ host: options.host, port: options.port }, onConnect);
+    socket.once("error", reject);
+    socket.setTimeout(options.timeoutMs ?? 20_000, () => socket.destroy(new SmtpError("SMTP timeout")));
+  });
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host }, () => resolve(secure));
+    secure.once("error", reject);
+  });
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function buildMessage(options: SmtpSendOptions): string {
+  const domain = options.from.split("@")[1] || "localhost";
+  const body = Buffer.from(options.text.replace(/\r?\n/g, "\r\n"), "utf8").toString("base64").replace(/.{76}/g, "$&\r\n");
+  return [
+    `From: ${options.from}`,
+    `To: ${options.to.join(", ")}`,
+    `Subject: ${encodeHeader(options.subject.replace(/[\r\n]+/g, " "))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+export async function sendSmtpMail(options: SmtpSendOptions): Promise<void> {
+  let socket: net.Socket = await connect(options);
+  let reader = createReplyReader(socket);
+
+  const expect = async (accepted: number[], step: string): Promise<SmtpReply> => {
+    const reply = await reader.read();
+    if (!accepted.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${step} failed: ${reply.code} ${reply.lines.join(" ")}`.trim(), reply.code);
+    }
+    return reply;
+  };
+  const command = async (line: string, accepted: number[], step = line.split(" ")[0] ?? line): Promise<SmtpReply> => {
+    socket.write(`${line}\r\n`);
+    return await expect(accepted, step);
+  };
+
+  try {
+    await expect([220], "greeting");
+    const helloName = os.hostname() || "localhost";
+    let ehlo = await command(`EHLO ${helloName}`, [250]);
+
+    if (options.security === "starttls") {
+      if (!ehlo.lines.some((line) => /^STARTTLS\b/i.test(line))) throw new SmtpError("server does not support STARTTLS");
+      await command("STARTTLS", [220]);
+      reader.detach();
+      socket = await upgradeToTls(socket, options.host);
+      reader = createReplyReader(socket);
+      ehlo = await command(`EHLO ${helloName}`, [250]);
+    }
+
+    if (options.username) {
+      const authLine = ehlo.lines.find((line) => /^AUTH\b/i.test(line)) ?? "";
+      if (/\bPLAIN\b/i.test(authLine) || !/\bLOGIN\b/i.test(authLine)) {
+        const token = Buffer.from(`\0${options.username}\0${options.password}`, "utf8").toString("base64");
+        await command(`AUTH PLAIN ${token}`, [235], "AUTH");
+      } else {
+        await command("AUTH LOGIN", [334], "AUTH");
+        await command(Buffer.from(options.username, "utf8").toString("base64"), [334], "AUTH");
+        await command(Buffer.from(options.password, "utf8").toString("base64"), [235], "AUTH");
+      }
+    }
+
+    await command(`MAIL FROM:<${options.from}>`, [250], "MAIL FROM");
+    for (const rcpt of options.to) {
+      await command(`RCPT TO:<${rcpt}>`, [250, 251], "RCPT TO");
+    }
+    await command("DATA", [354]);
+    // dot-stuffing：以 . 开头的行前面再加一个 .
+    socket.write(`${buildMessage(options).replace(/^\./gm, "..")}\r\n.\r\n`);
+    await expect([250], "DATA");
+    await command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    reader.detach();
+    socket.destroy();
+  }
+}
@@ -36,13 +36,16 @@ function parseMaxBatchesPerRun(): number {
   return Math.min(50, Math.max(1, parsed));
 }
 
-async function deleteOneBatch(cutoff: Date, batchSize: number): Promise<number> {
+// 通知投递日志跟随事件一起过期
+type CleanupTable = "sync_events" | "notification_deliveries";
+
+async function deleteOneBatch(table: CleanupTable, cutoff: Date, batchSize: number): Promise<number> {
   const rows = (await withDbRetry(
     () => sqlClient`
       with deleted as (
-        delete from sync_events
+        delete from ${sqlClient(table)}
         where id in (
-          select id from sync_events
+          select id from ${sqlClient(table)}
           where created_at < ${cutoff}
           order by created_at asc
           limit ${batchSize}
@@ -51,7 +54,7 @@ async function deleteOneBatch(cutoff: Date, batchSize: number): Promise<number>
       )
       select count(*)::int as count from deleted
     `,
-    "cleanup sync_events",
+    `cleanup ${table}`,
     { attempts: 3, baseDelayMs: 250 },
   )) as Array<{ count: unknown }>;
 
@@ -84,9 +87,14 @@ export function createSyncEventsCleanupScheduler({
 
     const cutoff = new Date(now - retentionDays * 24 * 60 * 60 * 1000);
 
+    for (let i = 0; i < maxBatchesPerRun; i += 1) {
+      const deleted = await deleteOneBatch("notification_deliveries", cutoff, batchSize);
+      if (deleted < batchSize) break;
+    }
+
     let totalDeleted = 0;
     for (let i = 0; i < maxBatchesPerRun; i += 1) {
-      const deleted = await deleteOneBatch(cutoff, batchSize);
+      const deleted = await deleteOneBatch("sync_events", cutoff, batchSize);
       totalDeleted += deleted;
       if (deleted < batchSize) break;
     }
@@ -1,4 +1,5 @@
 import { db, schema } from "@tg-back/db";
+import { enqueueSyncEventNotifications } from "./notifications";
 
 const MAX_EVENT_MESSAGE_LEN = 2_000;
 
@@ -12,15 +13,35 @@ function trimAndTruncateEventMessage(message: string): string {
 type SyncEventLevel = (typeof schema.eventLevelEnum.enumValues)[number];
 
 export async function logSyncEvent(args: { sourceChannelId: string | null; level: SyncEventLevel; message: string }): Promise<void> {
+  const message = trimAndTruncateEventMessage(args.message);
+  let inserted: { id: string; createdAt: Date } | undefined;
   try {
-    await db.insert(schema.syncEvents).values({
-      sourceChannelId: args.sourceChannelId,
+    [inserted] = await db
+      .insert(schema.syncEvents)
+      .values({
+        sourceChannelId: args.sourceChannelId,
+        level: args.level,
+        message,
+      })
+      .returning({ id: schema.syncEvents.id, createdAt: schema.syncEvents.createdAt });
+  } catch (error: unknown) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.warn(`failed to log sync event: ${msg}`);
+    return;
+  }
+  if (!inserted) return;
+
+  try {
+    await enqueueSyncEventNotifications({
+      id: inserted.id,
       level: args.level,
-      message: trimAndTruncateEventMessage(args.message),
+      message,
+      sourceChannelId: args.sourceChannelId,
+      createdAt: inserted.createdAt.toISOString(),
     });
   } catch (error: unknown) {
+    // 不能再 logSyncEvent，否则通知本身出错会递归产生事件
     const msg = error instanceof Error ? error.message : String(error);
-    console.warn(`failed to log sync event: ${msg}`);
+    console.warn(`failed to enqueue notifications for sync event ${inserted.id}: ${msg}`);
   }
 }
-
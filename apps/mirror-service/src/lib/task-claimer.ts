@@ -1,11 +1,12 @@
 import { and, asc, desc, eq, ne, notInArray, sql } from "drizzle-orm";
 import { db, schema } from "@tg-back/db";
+import { ALL_CHANNELS_SCOPE, toChannelScopeCondition, type ChannelScope } from "./channel-scope";
 import { withDbRetry } from "./db-retry";
 import { notifyTasksChanged } from "./tasks-notify";
 
 type TaskType = (typeof schema.taskTypeEnum.enumValues)[number];
 
-export function createTaskClaimer(deps: { runningChannelIds: Set<string> }): {
+export function createTaskClaimer(deps: { runningChannelIds: Set<string>; scope?: ChannelScope }): {
   claimPendingTask: (taskType: TaskType) => Promise<{ id: string; taskType: TaskType; sourceChannelId: string } | null>;
 } {
   const claimPendingTask = async (
@@ -13,6 +14,7 @@ export function createTaskClaimer(deps: { runningChannelIds: Set<string> }): {
   ): Promise<{ id: string; taskType: TaskType; sourceChannelId: string } | null> => {
     const excludedChannelIds = deps.runningChannelIds.size ? [...deps.runningChannelIds] : null;
     const excludedCondition = excludedChannelIds ? notInArray(schema.syncTasks.sourceChannelId, excludedChannelIds) : undefined;
+    const scopeCondition = toChannelScopeCondition(deps.scope ?? ALL_CHANNELS_SCOPE, schema.syncTasks.sourceChannelId);
 
     const row =
       taskType === "resolve"
@@ -30,6 +32,7 @@ export function createTaskClaimer(deps: { runningChannelIds: Set<string> }): {
                       eq(schema.sourceChannels.isActive, true),
                       ne(schema.sourceChannels.syncStatus, "error"),
                       excludedCondition,
+                      scopeCondition,
                     ),
                   )
                   .orderBy(desc(schema.sourceChannels.priority), asc(schema.syncTasks.createdAt))
@@ -45,7 +48,10 @@ export function createTaskClaimer(deps: { runningChannelIds: Set<string> }): {
                   .select({ id: schema.syncTasks.id, sourceChannelId: schema.syncTasks.sourceChannelId })
                   .from(schema.syncTasks)
                   .innerJoin(schema.sourceChannels, eq(schema.sourceChannels.id, schema.syncTasks.sourceChannelId))
-                  .innerJoin(schema.mirrorChannels, eq(schema.mirrorChannels.sourceChannelId, schema.syncTasks.sourceChannelId))
+                  .innerJoin(
+                    schema.mirrorChannels,
+                    and(eq(schema.mirrorChannels.sourceChannelId, schema.syncTasks.sourceChannelId), eq(schema.mirrorChannels.isPrimary, true)),
+                  )
                   .where(
                     and(
                       eq(schema.syncTasks.status, "pending"),
@@ -53,6 +59,7 @@ export function createTaskClaimer(deps: { runningChannelIds: Set<string> }): {
                       eq(schema.sourceChannels.isActive, true),
                       ne(schema.sourceChannels.syncStatus, "error"),
                       excludedCondition,
+                      scopeCondition,
                       sql`${schema.sourceChannels.telegramId} is not null`,
                       sql`${schema.mirrorChannels.telegramId} is not null`,
                     ),
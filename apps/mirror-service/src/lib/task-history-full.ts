@@ -1,10 +1,13 @@
 import { and, eq } from "drizzle-orm";
-import { db, schema } from "@tg-back/db";
+import { db, schema, type MessageFilterMatch } from "@tg-back/db";
 import { Api, TelegramClient } from "telegram";
 import { sleep } from "../utils/sleep";
+import { buildCopyMessageContent } from "./copy-content";
 import { withDbRetry } from "./db-retry";
 import { updateMessageMappingsByIds } from "./message-mappings";
-import { classifyMirrorError, extractMediaFileSize, messageTypeFromMessage } from "./mirror-message";
+import { recordFloodWaitSleep } from "./metrics";
+import { buildMessageFilterInput, classifyMirrorError, extractMediaFileSize, messageTypeFromMessage } from "./mirror-message";
+import { rewindMirrorTargetCursors } from "./mirror-target-scheduler";
 import { logSyncEvent } from "./sync-events";
 import { pauseTask } from "./task-lifecycle";
 import { notifyTasksChanged } from "./tasks-notify";
@@ -18,9 +21,10 @@ import { buildSourceMessageLink } from "./telegram-identifiers";
 import { getLinkedDiscussionChatFilter } from "./telegram-metadata";
 import {
   getAutoChannelSettings,
+  getChannelCopyTransforms,
   getEffectiveMessageFilterSettings,
   getMirrorBehaviorSettings,
-  shouldSkipMessageByFilter,
+  matchMessageFilter,
   throttleMirrorSend,
 } from "./settings";
 import { syncCommentsForPost as syncCommentsForPostImpl } from "./telegram-comments";
@@ -29,13 +33,39 @@ export type HistoryFullTaskOptions = {
   floodWaitAutoSleepMaxSec: number;
 };
 
+type HistoryTaskType = "history_full" | "history_partial";
+
 export async function processHistoryFullTask(
   client: TelegramClient,
   taskId: string,
   sourceChannelId: string,
   options: HistoryFullTaskOptions,
+): Promise<void> {
+  await processHistoryTask(client, taskId, sourceChannelId, options, "history_full");
+}
+
+/**
+ * 按消息 ID 区间 / 时间窗口回填（history_partial），复用 history_full 的批处理、断点续传与 FLOOD_WAIT 暂停逻辑。
+ * 范围保存在 sync_tasks 的 range_* 字段里；完成后不会改动源频道的 syncStatus。
+ */
+export async function processHistoryPartialTask(
+  client: TelegramClient,
+  taskId: string,
+  sourceChannelId: string,
+  options: HistoryFullTaskOptions,
+): Promise<void> {
+  await processHistoryTask(client, taskId, sourceChannelId, options, "history_partial");
+}
+
+async function processHistoryTask(
+  client: TelegramClient,
+  taskId: string,
+  sourceChannelId: string,
+  options: HistoryFullTaskOptions,
+  taskType: HistoryTaskType,
 ): Promise<void> {
   const FLOOD_WAIT_AUTO_SLEEP_MAX_SEC = options.floodWaitAutoSleepMaxSec;
+  const isPartial = taskType === "history_partial";
 
   const ensureMirrorMessageSpoiler = (
     client: TelegramClient,
@@ -60,6 +90,7 @@ export async function processHistoryFullTask(
       sourceEntity: unknown;
       mirrorEntity: unknown;
       mirrorChannelId: string;
+      sourceChannelId: string;
       sourceChannel: { username?: string | null; telegramId?: bigint | null };
       sourcePostId: number;
       mirrorPostId: number;
@@ -81,29 +112,47 @@ export async function processHistoryFullTask(
   const [mirror] = await db
     .select()
     .from(schema.mirrorChannels)
-    .where(eq(schema.mirrorChannels.sourceChannelId, source.id))
+    .where(and(eq(schema.mirrorChannels.sourceChannelId, source.id), eq(schema.mirrorChannels.isPrimary, true)))
     .limit(1);
   if (!mirror) throw new Error(`mirror channel not found for source: ${source.id}`);
 
   if (!source.telegramId) throw new Error(`source channel not resolved yet: ${source.channelIdentifier}`);
 
+  const range = isPartial
+    ? {
+        startId: task.rangeStartId ?? null,
+        endId: task.rangeEndId ?? null,
+        startAt: task.rangeStartAt ?? null,
+        endAt: task.rangeEndAt ?? null,
+        remirror: task.rangeRemirror,
+      }
+    : null;
+  if (range && range.startId == null && range.endId == null && range.startAt == null && range.endAt == null) {
+    throw new Error("history_partial requires a message id range or date window");
+  }
+  const rangeLabel = range
+    ? ` range=[${range.startId ?? "-"}..${range.endId ?? "-"}] window=[${range.startAt?.toISOString() ?? "-"}..${range.endAt?.toISOString() ?? "-"}] remirror=${range.remirror}`
+    : "";
+
   const mode = source.mirrorMode ?? "forward";
-  console.log(`history_full task start: ${taskId} source=${source.channelIdentifier} mode=${mode}`);
+  console.log(`${taskType} task start: ${taskId} source=${source.channelIdentifier} mode=${mode}${rangeLabel}`);
 
-  await withDbRetry(
-    () =>
-      db
-        .update(schema.sourceChannels)
-        .set({ syncStatus: "syncing" })
-        .where(eq(schema.sourceChannels.id, source.id)),
-    `history_full mark source syncing (taskId=${taskId})`,
-    { attempts: 3, baseDelayMs: 250 },
-  );
+  if (!isPartial) {
+    await withDbRetry(
+      () =>
+        db
+          .update(schema.sourceChannels)
+          .set({ syncStatus: "syncing" })
+          .where(eq(schema.sourceChannels.id, source.id)),
+      `${taskType} mark source syncing (taskId=${taskId})`,
+      { attempts: 3, baseDelayMs: 250 },
+    );
+  }
 
   await logSyncEvent({
     sourceChannelId: source.id,
     level: "info",
-    message: `history_full started mode=${mode} (taskId=${taskId}) resumeFromId=${task.lastProcessedId ?? 0} progress=${task.progressCurrent ?? 0}/${task.progressTotal ?? "-"}`,
+    message: `${taskType} started mode=${mode} (taskId=${taskId}) resumeFromId=${task.lastProcessedId ?? 0} progress=${task.progressCurrent ?? 0}/${task.progressTotal ?? "-"}${rangeLabel}`,
   });
 
   const sourceEntity = (await resolvePeer(client, source.channelIdentifier)).entity;
@@ -166,86 +215,129 @@ export async function processHistoryFullTask(
   let reportedProtectedContent = false;
 
   console.log(
-    `history_full task resume: ${taskId} lastProcessedId=${task.lastProcessedId ?? 0} progress=${task.progressCurrent ?? 0}/${task.progressTotal ?? "-"}`,
+    `${taskType} task resume: ${taskId} lastProcessedId=${task.lastProcessedId ?? 0} progress=${task.progressCurrent ?? 0}/${task.progressTotal ?? "-"}`,
   );
 
   if (!task.startedAt) {
     await withDbRetry(
       () => db.update(schema.syncTasks).set({ startedAt: new Date() }).where(eq(schema.syncTasks.id, taskId)),
-      `history_full set started_at (taskId=${taskId})`,
+      `${taskType} set started_at (taskId=${taskId})`,
       { attempts: 3, baseDelayMs: 250 },
     );
-    void notifyTasksChanged({ taskId, sourceChannelId: source.id, taskType: "history_full", status: "running" });
+    void notifyTasksChanged({ taskId, sourceChannelId: source.id, taskType, status: "running" });
   }
 
   let progressTotal: number | null = task.progressTotal ?? null;
 
-  if (
-    typeof progressTotal === "number" &&
-    Number.isFinite(progressTotal) &&
-    progressTotal > 0 &&
-    (source.totalMessages == null || source.totalMessages !== progressTotal)
-  ) {
-    await withDbRetry(
-      () => db.update(schema.sourceChannels).set({ totalMessages: progressTotal }).where(eq(schema.sourceChannels.id, source.id)),
-      `history_full sync source total_messages (taskId=${taskId})`,
-      { attempts: 3, baseDelayMs: 250 },
-    );
-  }
+  if (isPartial) {
+    if (!progressTotal && range?.startId != null && range.endId != null) {
+      progressTotal = Math.max(0, range.endId - range.startId + 1);
+      await withDbRetry(
+        () => db.update(schema.syncTasks).set({ progressTotal }).where(eq(schema.syncTasks.id, taskId)),
+        `${taskType} set progress_total (taskId=${taskId})`,
+        { attempts: 3, baseDelayMs: 250 },
+      );
+      void notifyTasksChanged({ taskId, sourceChannelId: source.id, taskType });
+    }
+  } else {
+    if (
+      typeof progressTotal === "number" &&
+      Number.isFinite(progressTotal) &&
+      progressTotal > 0 &&
+      (source.totalMessages == null || source.totalMessages !== progressTotal)
+    ) {
+      await withDbRetry(
+        () => db.update(schema.sourceChannels).set({ totalMessages: progressTotal }).where(eq(schema.sourceChannels.id, source.id)),
+        `${taskType} sync source total_messages (taskId=${taskId})`,
+        { attempts: 3, baseDelayMs: 250 },
+      );
+    }
 
-  if (!task.progressTotal) {
-    try {
-      const list = await client.getMessages(sourceEntity, { limit: 0 });
-      const totalRaw = (list as unknown as { total?: unknown }).total;
-      const total = typeof totalRaw === "number" ? totalRaw : null;
-      if (total && Number.isFinite(total)) {
-        progressTotal = total;
-        await withDbRetry(
-          () => db.update(schema.syncTasks).set({ progressTotal }).where(eq(schema.syncTasks.id, taskId)),
-          `history_full set progress_total (taskId=${taskId})`,
-          { attempts: 3, baseDelayMs: 250 },
-        );
-        void notifyTasksChanged({ taskId, sourceChannelId: source.id, taskType: "history_full" });
-        await withDbRetry(
-          () => db.update(schema.sourceChannels).set({ totalMessages: progressTotal }).where(eq(schema.sourceChannels.id, source.id)),
-          `history_full set source total_messages (taskId=${taskId})`,
-          { attempts: 3, baseDelayMs: 250 },
-        );
+    if (!task.progressTotal) {
+      try {
+        const list = await client.getMessages(sourceEntity, { limit: 0 });
+        const totalRaw = (list as unknown as { total?: unknown }).total;
+        const total = typeof totalRaw === "number" ? totalRaw : null;
+        if (total && Number.isFinite(total)) {
+          progressTotal = total;
+          await withDbRetry(
+            () => db.update(schema.syncTasks).set({ progressTotal }).where(eq(schema.syncTasks.id, taskId)),
+            `${taskType} set progress_total (taskId=${taskId})`,
+            { attempts: 3, baseDelayMs: 250 },
+          );
+          void notifyTasksChanged({ taskId, sourceChannelId: source.id, taskType });
+          await withDbRetry(
+            () => db.update(schema.sourceChannels).set({ totalMessages: progressTotal }).where(eq(schema.sourceChannels.id, source.id)),
+            `${taskType} set source total_messages (taskId=${taskId})`,
+            { attempts: 3, baseDelayMs: 250 },
+          );
+        }
+      } catch (error: unknown) {
+        const msg = getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
+        console.warn(`${taskType} failed to fetch progress_total (taskId=${taskId}): ${msg}`);
       }
-    } catch (error: unknown) {
-      const msg = getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
-      console.warn(`history_full failed to fetch progress_total (taskId=${taskId}): ${msg}`);
     }
   }
 
   let snapshotLatestId: number | null = null;
   let snapshotLatestIdFetchFailed = false;
-  try {
-    const latestList = await client.getMessages(sourceEntity, { limit: 1 });
-    const latest = Array.isArray(latestList) ? latestList[0] : null;
-    if (latest instanceof Api.Message && typeof latest.id === "number" && latest.id > 0) {
-      snapshotLatestId = latest.id;
-      console.log(`history_full snapshot latest source message id: ${snapshotLatestId}`);
+  if (!isPartial) {
+    try {
+      const latestList = await client.getMessages(sourceEntity, { limit: 1 });
+      const latest = Array.isArray(latestList) ? latestList[0] : null;
+      if (latest instanceof Api.Message && typeof latest.id === "number" && latest.id > 0) {
+        snapshotLatestId = latest.id;
+        console.log(`${taskType} snapshot latest source message id: ${snapshotLatestId}`);
+        await logSyncEvent({
+          sourceChannelId: source.id,
+          level: "info",
+          message: `${taskType} snapshot latestId=${snapshotLatestId} (taskId=${taskId})`,
+        });
+      }
+    } catch (error: unknown) {
+      snapshotLatestIdFetchFailed = true;
+      const msg = getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
+      console.warn(`failed to fetch history_full snapshot latest message id: ${msg}`);
       await logSyncEvent({
         sourceChannelId: source.id,
-        level: "info",
-        message: `history_full snapshot latestId=${snapshotLatestId} (taskId=${taskId})`,
+        level: "warn",
+        message: `failed to fetch history_full snapshot latest message id: ${msg} (taskId=${taskId})`,
       });
     }
-  } catch (error: unknown) {
-    snapshotLatestIdFetchFailed = true;
-    const msg = getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
-    console.warn(`failed to fetch history_full snapshot latest message id: ${msg}`);
-    await logSyncEvent({
-      sourceChannelId: source.id,
-      level: "warn",
-      message: `failed to fetch history_full snapshot latest message id: ${msg} (taskId=${taskId})`,
-    });
   }
 
   let progressCurrent = task.progressCurrent ?? 0;
   let lastProcessedId = task.lastProcessedId ?? 0;
 
+  // history_partial 首次运行时把 minId 定位到区间起点；之后靠 lastProcessedId 断点续传
+  if (range && task.lastProcessedId == null) {
+    if (range.startId != null) {
+      lastProcessedId = Math.max(0, range.startId - 1);
+    } else if (range.startAt) {
+      try {
+        const list = await client.getMessages(sourceEntity, {
+          limit: 1,
+          offsetDate: Math.floor(range.startAt.getTime() / 1000),
+        });
+        const before = Array.isArray(list) ? list[0] : null;
+        if (before instanceof Api.Message && typeof before.id === "number" && before.id > 0) lastProcessedId = before.id;
+      } catch (error: unknown) {
+        const msg = getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
+        console.warn(`${taskType} failed to locate range start by date; scanning from the beginning: ${msg} (taskId=${taskId})`);
+      }
+    }
+  }
+
+  const isBeyondRangeEnd = (msgId: number, date: number): boolean => {
+    if (!range) return false;
+    if (range.endId != null && msgId > range.endId) return true;
+    if (range.endAt && date * 1000 > range.endAt.getTime()) return true;
+    return false;
+  };
+
+  // history_partial 回填的是旧消息，不能把源频道的 lastMessageId 往回写
+  const sourceSyncedPatch = (msgId: number) => (isPartial ? { lastSyncAt: new Date() } : { lastSyncAt: new Date(), lastMessageId: msgId });
+
   let lastProgressLogAt = Date.now();
   let lastProgressLogValue = progressCurrent;
 
@@ -301,7 +393,7 @@ export async function processHistoryFullTask(
     lastProgressLogAt = now;
     lastProgressLogValue = progressCurrent;
     console.log(
-      `history_full progress: ${taskId} ${progressCurrent}/${progressTotal ?? "-"} lastProcessedId=${lastProcessedId}`,
+      `${taskType} progress: ${taskId} ${progressCurrent}/${progressTotal ?? "-"} lastProcessedId=${lastProcessedId}`,
     );
   };
 
@@ -314,10 +406,11 @@ export async function processHistoryFullTask(
     if (now - lastPersistAt < 2_000 && progressCurrent - lastPersistedProgress < 50) return;
     await withDbRetry(
       () => db.update(schema.syncTasks).set({ progressCurrent, lastProcessedId }).where(eq(schema.syncTasks.id, taskId)),
-      `history_full persist progress (taskId=${taskId})`,
+      `${taskType} persist progress (taskId=${taskId})`,
       { attempts: 3, baseDelayMs: 250 },
     );
-    void notifyTasksChanged({ taskId, sourceChannelId: source.id, taskType: "history_full" });
+    void notifyTasksChanged({ taskId, sourceChannelId: source.id, taskType });
+    await rewindMirrorTargetCursors(source.id, lastPersistedProcessedId + 1);
     lastPersistAt = now;
     lastPersistedProgress = progressCurrent;
     lastPersistedProcessedId = lastProcessedId;
@@ -348,16 +441,16 @@ export async function processHistoryFullTask(
     const mappingIds = items.map((i) => i.mappingId);
 
     const messageFilter = await getEffectiveMessageFilterSettings(source.id);
-    const shouldFilter =
-      messageFilter.enabled &&
-      messageFilter.keywords.length > 0 &&
-      items.some((item) => shouldSkipMessageByFilter(typeof item.msg.message === "string" ? item.msg.message : "", messageFilter));
+    const filterMatch = items.reduce<MessageFilterMatch | null>(
+      (found, item) => found ?? matchMessageFilter(buildMessageFilterInput(item.msg), messageFilter),
+      null,
+    );
 
-    if (shouldFilter) {
+    if (filterMatch) {
       await updateMessageMappingsByIds(
         mappingIds,
-        { status: "skipped", skipReason: "filtered", mirroredAt: new Date(), errorMessage: null },
-        "history_full skip:filtered",
+        { status: "skipped", skipReason: "filtered", skipDetail: filterMatch.reason, mirroredAt: new Date(), errorMessage: null },
+        `${taskType} skip:filtered`,
       );
     } else if (mode === "forward") {
       const tryForwardOnce = async () =>
@@ -379,7 +472,7 @@ export async function processHistoryFullTask(
               await logSyncEvent({
                 sourceChannelId: source.id,
                 level: "warn",
-                message: `protected content enabled; history_full forwarding blocked (taskId=${taskId})`,
+                message: `protected content enabled; ${taskType} forwarding blocked (taskId=${taskId})`,
               });
             }
 
@@ -398,7 +491,7 @@ export async function processHistoryFullTask(
               await updateMessageMappingsByIds(
                 mappingIds,
                 { status: "failed", skipReason: "protected_content", errorMessage: msg0, mirroredAt: new Date() },
-                "history_full protected_content blocked",
+                `${taskType} protected_content blocked`,
               );
               await pauseTask(taskId, msg0, { progressCurrent, progressTotal, lastProcessedId });
               return "paused";
@@ -407,7 +500,7 @@ export async function processHistoryFullTask(
             await updateMessageMappingsByIds(
               mappingIds,
               { status: "skipped", skipReason, mirroredAt: new Date(), errorMessage: null },
-              `history_full skip:${skipReason}`,
+              `${taskType} skip:${skipReason}`,
             );
             forwarded = null;
             break;
@@ -415,6 +508,7 @@ export async function processHistoryFullTask(
 
           const waitSeconds = parseFloodWaitSeconds(error);
           if (waitSeconds && waitSeconds <= FLOOD_WAIT_AUTO_SLEEP_MAX_SEC) {
+            recordFloodWaitSleep(waitSeconds + 1);
             await sleep((waitSeconds + 1) * 1000);
             if (!(await ensureActiveOrPause())) return "paused";
             continue;
@@ -424,7 +518,7 @@ export async function processHistoryFullTask(
           await updateMessageMappingsByIds(
             mappingIds,
             { status: "failed", errorMessage: msg1, mirroredAt: new Date() },
-            "history_full forward failed",
+            `${taskType} forward failed`,
           );
           await pauseTask(taskId, msg1, { progressCurrent, progressTotal, lastProcessedId });
           return "paused";
@@ -446,7 +540,7 @@ export async function processHistoryFullTask(
                   .update(schema.messageMappings)
                   .set({ status: "failed", errorMessage: "missing forwarded message mapping", mirroredAt: new Date() })
                   .where(eq(schema.messageMappings.id, items[i]!.mappingId)),
-              `history_full mark failed (taskId=${taskId})`,
+              `${taskType} mark failed (taskId=${taskId})`,
               { attempts: 3, baseDelayMs: 250 },
             );
           } else {
@@ -456,7 +550,7 @@ export async function processHistoryFullTask(
                   .update(schema.messageMappings)
                   .set({ status: "success", mirrorMessageId, mirroredAt: new Date(), errorMessage: null })
                   .where(eq(schema.messageMappings.id, items[i]!.mappingId)),
-              `history_full mark success (taskId=${taskId})`,
+              `${taskType} mark success (taskId=${taskId})`,
               { attempts: 3, baseDelayMs: 250 },
             );
           }
@@ -482,9 +576,9 @@ export async function processHistoryFullTask(
           () =>
             db
               .update(schema.sourceChannels)
-              .set({ lastSyncAt: new Date(), lastMessageId: messageIds[messageIds.length - 1] })
+              .set(sourceSyncedPatch(messageIds[messageIds.length - 1]!))
               .where(eq(schema.sourceChannels.id, source.id)),
-          `history_full update source last_sync_at (taskId=${taskId})`,
+          `${taskType} update source last_sync_at (taskId=${taskId})`,
           { attempts: 3, baseDelayMs: 250 },
         );
 
@@ -508,6 +602,7 @@ export async function processHistoryFullTask(
               sourceEntity,
               mirrorEntity,
               mirrorChannelId: mirror.id,
+              sourceChannelId: source.id,
               sourceChannel: source,
               sourcePostId: items[i]!.msg.id,
               mirrorPostId,
@@ -517,19 +612,19 @@ export async function processHistoryFullTask(
         }
       }
     } else {
+      const copyTransforms = await getChannelCopyTransforms(source.id);
       for (const item of items) {
         const msg = item.msg;
-        const text = typeof msg.message === "string" ? msg.message : "";
-        const content = text.trim();
+        const content = buildCopyMessageContent(msg, { source, transforms: copyTransforms });
 
-        if (!content) {
+        if (!content.text) {
           await withDbRetry(
             () =>
               db
                 .update(schema.messageMappings)
                 .set({ status: "skipped", skipReason: "unsupported_type", mirroredAt: new Date(), errorMessage: null })
                 .where(eq(schema.messageMappings.id, item.mappingId)),
-            `history_full copy skip unsupported (taskId=${taskId})`,
+            `${taskType} copy skip unsupported (taskId=${taskId})`,
             { attempts: 3, baseDelayMs: 250 },
           );
           await advanceProgressFor(msg.id);
@@ -537,7 +632,7 @@ export async function processHistoryFullTask(
         }
 
 	        try {
-	          const sent = await client.sendMessage(mirrorEntity, { message: content });
+	          const sent = await client.sendMessage(mirrorEntity, { message: content.text, formattingEntities: content.entities });
 	          await throttleMirrorSend(mirrorBehavior.mirrorIntervalMs);
 	          await withDbRetry(
 	            () =>
@@ -545,7 +640,7 @@ export async function processHistoryFullTask(
 	                .update(schema.messageMappings)
                 .set({ status: "success", mirrorMessageId: sent?.id ?? null, mirroredAt: new Date(), errorMessage: null })
                 .where(eq(schema.messageMappings.id, item.mappingId)),
-            `history_full copy mark success (taskId=${taskId})`,
+            `${taskType} copy mark success (taskId=${taskId})`,
             { attempts: 3, baseDelayMs: 250 },
           );
 
@@ -553,9 +648,9 @@ export async function processHistoryFullTask(
             () =>
               db
                 .update(schema.sourceChannels)
-                .set({ lastSyncAt: new Date(), lastMessageId: msg.id })
+                .set(sourceSyncedPatch(msg.id))
                 .where(eq(schema.sourceChannels.id, source.id)),
-            `history_full copy update source last_sync_at (taskId=${taskId})`,
+            `${taskType} copy update source last_sync_at (taskId=${taskId})`,
             { attempts: 3, baseDelayMs: 250 },
           );
 
@@ -574,6 +669,7 @@ export async function processHistoryFullTask(
 		              sourceEntity,
 		              mirrorEntity,
 	              mirrorChannelId: mirror.id,
+	              sourceChannelId: source.id,
 	              sourceChannel: source,
 	              sourcePostId: msg.id,
 	              mirrorPostId: sent.id,
@@ -589,16 +685,17 @@ export async function processHistoryFullTask(
                   .update(schema.messageMappings)
                   .set({ status: "skipped", skipReason, mirroredAt: new Date(), errorMessage: null })
                   .where(eq(schema.messageMappings.id, item.mappingId)),
-              `history_full copy mark skipped (taskId=${taskId})`,
+              `${taskType} copy mark skipped (taskId=${taskId})`,
               { attempts: 3, baseDelayMs: 250 },
             );
 	          } else {
 	            const waitSeconds = parseFloodWaitSeconds(error);
 	            if (waitSeconds && waitSeconds <= FLOOD_WAIT_AUTO_SLEEP_MAX_SEC) {
+	              recordFloodWaitSleep(waitSeconds + 1);
 	              await sleep((waitSeconds + 1) * 1000);
 	              if (!(await ensureActiveOrPause())) return "paused";
 	              try {
-	                const sent = await client.sendMessage(mirrorEntity, { message: content });
+	                const sent = await client.sendMessage(mirrorEntity, { message: content.text, formattingEntities: content.entities });
 	                await throttleMirrorSend(mirrorBehavior.mirrorIntervalMs);
 	                await withDbRetry(
 	                  () =>
@@ -606,7 +703,7 @@ export async function processHistoryFullTask(
 	                      .update(schema.messageMappings)
 	                      .set({ status: "success", mirrorMessageId: sent?.id ?? null, mirroredAt: new Date(), errorMessage: null })
 	                      .where(eq(schema.messageMappings.id, item.mappingId)),
-	                  `history_full copy mark success (taskId=${taskId})`,
+	                  `${taskType} copy mark success (taskId=${taskId})`,
 	                  { attempts: 3, baseDelayMs: 250 },
 	                );
 	              } catch (error2: unknown) {
@@ -617,7 +714,7 @@ export async function processHistoryFullTask(
 	                      .update(schema.messageMappings)
 	                      .set({ status: "failed", errorMessage: msg2, mirroredAt: new Date() })
 	                      .where(eq(schema.messageMappings.id, item.mappingId)),
-	                  `history_full copy mark failed (taskId=${taskId})`,
+	                  `${taskType} copy mark failed (taskId=${taskId})`,
 	                  { attempts: 3, baseDelayMs: 250 },
 	                );
 	                await pauseTask(taskId, msg2, { progressCurrent, progressTotal, lastProcessedId });
@@ -631,7 +728,7 @@ export async function processHistoryFullTask(
 	                    .update(schema.messageMappings)
 	                    .set({ status: "failed", errorMessage: msg1, mirroredAt: new Date() })
 	                    .where(eq(schema.messageMappings.id, item.mappingId)),
-	                `history_full copy mark failed (taskId=${taskId})`,
+	                `${taskType} copy mark failed (taskId=${taskId})`,
 	                { attempts: 3, baseDelayMs: 250 },
 	              );
 	              await pauseTask(taskId, msg1, { progressCurrent, progressTotal, lastProcessedId });
@@ -655,6 +752,7 @@ export async function processHistoryFullTask(
 
   let lastUnexpectedEndAt = 0;
   let noProgressRounds = 0;
+  let reachedRangeEnd = false;
 
   for (;;) {
     const roundStartedAt = Date.now();
@@ -667,6 +765,15 @@ export async function processHistoryFullTask(
       if (!msg.id) continue;
       if (lastProcessedId && msg.id <= lastProcessedId) continue;
 
+      if (isBeyondRangeEnd(msg.id, msg.date)) {
+        reachedRangeEnd = true;
+        break;
+      }
+      if (range?.startAt && msg.date * 1000 < range.startAt.getTime()) {
+        lastProcessedId = msg.id;
+        continue;
+      }
+
       const groupId = mode === "forward" && mirrorBehavior.groupMediaMessages && msg.groupedId ? String(msg.groupedId) : null;
       if (pending.length && pendingGroupId !== groupId) {
         const result = await flushPending();
@@ -727,12 +834,13 @@ export async function processHistoryFullTask(
             })
             .onConflictDoNothing()
             .returning({ id: schema.messageMappings.id, status: schema.messageMappings.status }),
-        `history_full upsert message_mapping (taskId=${taskId}, msgId=${msg.id})`,
+        `${taskType} upsert message_mapping (taskId=${taskId}, msgId=${msg.id})`,
         { attempts: 3, baseDelayMs: 250 },
       );
 
       let mappingId: string | null = inserted[0]?.id ?? null;
       let mappingStatus: (typeof schema.messageStatusEnum.enumValues)[number] | null = inserted[0]?.status ?? null;
+      const isExistingMapping = !mappingId;
 
       if (!mappingId) {
         const [existing] = await withDbRetry(
@@ -742,7 +850,7 @@ export async function processHistoryFullTask(
               .from(schema.messageMappings)
               .where(and(eq(schema.messageMappings.sourceChannelId, source.id), eq(schema.messageMappings.sourceMessageId, msg.id)))
               .limit(1),
-          `history_full lookup message_mapping (taskId=${taskId}, msgId=${msg.id})`,
+          `${taskType} lookup message_mapping (taskId=${taskId}, msgId=${msg.id})`,
           { attempts: 3, baseDelayMs: 250 },
         );
         mappingId = existing?.id ?? null;
@@ -754,6 +862,21 @@ export async function processHistoryFullTask(
         continue;
       }
 
+      // 重新镜像：已处理过的消息按当前设置重新判定，并再次发送到镜像频道
+      if (range?.remirror && isExistingMapping && (mappingStatus === "success" || mappingStatus === "skipped")) {
+        const resetId = mappingId;
+        await withDbRetry(
+          () =>
+            db
+              .update(schema.messageMappings)
+              .set({ status, skipReason, skipDetail: null, errorMessage, mirroredAt, mirrorChannelId: mirror.id })
+              .where(eq(schema.messageMappings.id, resetId)),
+          `${taskType} reset message_mapping for remirror (taskId=${taskId}, msgId=${msg.id})`,
+          { attempts: 3, baseDelayMs: 250 },
+        );
+        mappingStatus = status;
+      }
+
       if (mappingStatus === "success" || mappingStatus === "skipped") {
         await advanceProgressFor(msg.id);
         continue;
@@ -773,22 +896,29 @@ export async function processHistoryFullTask(
 
     await withDbRetry(
       () => db.update(schema.syncTasks).set({ progressCurrent, lastProcessedId }).where(eq(schema.syncTasks.id, taskId)),
-      `history_full finalize progress (taskId=${taskId})`,
+      `${taskType} finalize progress (taskId=${taskId})`,
       { attempts: 3, baseDelayMs: 250 },
     );
-    void notifyTasksChanged({ taskId, sourceChannelId: source.id, taskType: "history_full" });
+    void notifyTasksChanged({ taskId, sourceChannelId: source.id, taskType });
+    // 额外镜像目标按游标往后跟进，这一轮补进的消息可能在游标之前
+    if (lastProcessedId > lastPersistedProcessedId) {
+      await rewindMirrorTargetCursors(source.id, lastPersistedProcessedId + 1);
+      lastPersistedProcessedId = lastProcessedId;
+    }
+
+    if (reachedRangeEnd) break;
 
-    if (snapshotLatestId == null) {
+    if (!isPartial && snapshotLatestId == null) {
       try {
         const latestList = await client.getMessages(sourceEntity, { limit: 1 });
         const latest = Array.isArray(latestList) ? latestList[0] : null;
         if (latest instanceof Api.Message && typeof latest.id === "number" && latest.id > 0) {
           snapshotLatestId = latest.id;
-          console.log(`history_full snapshot latest source message id: ${snapshotLatestId}`);
+          console.log(`${taskType} snapshot latest source message id: ${snapshotLatestId}`);
           await logSyncEvent({
             sourceChannelId: source.id,
             level: "info",
-            message: `history_full snapshot latestId=${snapshotLatestId} (taskId=${taskId})`,
+            message: `${taskType} snapshot latestId=${snapshotLatestId} (taskId=${taskId})`,
           });
         }
       } catch (error: unknown) {
@@ -808,7 +938,7 @@ export async function processHistoryFullTask(
 
     const checkNextMessageAfter = async (
       afterId: number,
-    ): Promise<{ kind: "none" } | { kind: "found"; id: number } | { kind: "error"; message: string }> => {
+    ): Promise<{ kind: "none" } | { kind: "found"; id: number; date: number } | { kind: "error"; message: string }> => {
       const isTransient = (error: unknown): boolean => {
         const msg = getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
         if (!msg) return false;
@@ -835,12 +965,13 @@ export async function processHistoryFullTask(
         try {
           const list = await client.getMessages(sourceEntity, { limit: 1, minId: afterId });
           const next = Array.isArray(list) ? list[0] : null;
-          if (next instanceof Api.Message && typeof next.id === "number" && next.id > afterId) return { kind: "found", id: next.id };
+          if (next instanceof Api.Message && typeof next.id === "number" && next.id > afterId) return { kind: "found", id: next.id, date: next.date };
           return { kind: "none" };
         } catch (error: unknown) {
           lastError = error;
           const waitSeconds = parseFloodWaitSeconds(error);
           if (waitSeconds && waitSeconds <= FLOOD_WAIT_AUTO_SLEEP_MAX_SEC) {
+            recordFloodWaitSleep(waitSeconds + 1);
             await sleep((waitSeconds + 1) * 1000);
             continue;
           }
@@ -858,12 +989,13 @@ export async function processHistoryFullTask(
 
     const nextCheck = await checkNextMessageAfter(lastProcessedId);
     if (nextCheck.kind === "error") {
-      const details = `history_full completion check failed; pausing (taskId=${taskId}) progress=${progressCurrent}/${progressTotal ?? "-"} lastId=${lastProcessedId}${snapshotLatestId ? ` snapshotLatestId=${snapshotLatestId}` : ""} err=${nextCheck.message}`;
+      const details = `${taskType} completion check failed; pausing (taskId=${taskId}) progress=${progressCurrent}/${progressTotal ?? "-"} lastId=${lastProcessedId}${snapshotLatestId ? ` snapshotLatestId=${snapshotLatestId}` : ""} err=${nextCheck.message}`;
       await pauseTask(taskId, details, { progressCurrent, progressTotal, lastProcessedId });
       return;
     }
 
     if (nextCheck.kind === "none") break;
+    if (isBeyondRangeEnd(nextCheck.id, nextCheck.date)) break;
 
     const progressedThisRound = progressCurrent > roundStartProgress || lastProcessedId > roundStartLastId;
     if (progressedThisRound) {
@@ -871,7 +1003,7 @@ export async function processHistoryFullTask(
     } else {
       noProgressRounds += 1;
     }
-    const details = `history_full seems incomplete; auto continuing (taskId=${taskId}) progress=${progressCurrent}/${progressTotal ?? "-"} lastId=${lastProcessedId}${snapshotLatestId ? ` snapshotLatestId=${snapshotLatestId}` : ""}${remainingById != null ? ` remainingById=${remainingById}` : ""}${remainingByProgress != null ? ` remainingByProgress=${remainingByProgress}` : ""} nextId=${nextCheck.id}`;
+    const details = `${taskType} seems incomplete; auto continuing (taskId=${taskId}) progress=${progressCurrent}/${progressTotal ?? "-"} lastId=${lastProcessedId}${snapshotLatestId ? ` snapshotLatestId=${snapshotLatestId}` : ""}${remainingById != null ? ` remainingById=${remainingById}` : ""}${remainingByProgress != null ? ` remainingByProgress=${remainingByProgress}` : ""} nextId=${nextCheck.id}`;
 
     if (!progressedThisRound && noProgressRounds >= 2) {
       await pauseTask(taskId, `${details} (no progress in last round)`, { progressCurrent, progressTotal, lastProcessedId });
@@ -895,25 +1027,27 @@ export async function processHistoryFullTask(
         .update(schema.syncTasks)
         .set({ status: "completed", completedAt: new Date(), lastError: null })
         .where(eq(schema.syncTasks.id, taskId)),
-    `history_full mark completed (taskId=${taskId})`,
+    `${taskType} mark completed (taskId=${taskId})`,
     { attempts: 3, baseDelayMs: 250 },
   );
-  void notifyTasksChanged({ taskId, sourceChannelId: source.id, taskType: "history_full", status: "completed" });
+  void notifyTasksChanged({ taskId, sourceChannelId: source.id, taskType, status: "completed" });
 
-  await withDbRetry(
-    () =>
-      db
-        .update(schema.sourceChannels)
-        .set({ syncStatus: "completed" })
-        .where(eq(schema.sourceChannels.id, source.id)),
-    `history_full mark source completed (taskId=${taskId})`,
-    { attempts: 3, baseDelayMs: 250 },
-  );
+  if (!isPartial) {
+    await withDbRetry(
+      () =>
+        db
+          .update(schema.sourceChannels)
+          .set({ syncStatus: "completed" })
+          .where(eq(schema.sourceChannels.id, source.id)),
+      `${taskType} mark source completed (taskId=${taskId})`,
+      { attempts: 3, baseDelayMs: 250 },
+    );
+  }
 
-  console.log(`history_full task done: ${taskId}`);
+  console.log(`${taskType} task done: ${taskId}`);
   await logSyncEvent({
     sourceChannelId: source.id,
     level: "info",
-    message: `history_full completed (taskId=${taskId}) progress=${progressCurrent}/${progressTotal ?? "-"} lastId=${lastProcessedId}`,
+    message: `${taskType} completed (taskId=${taskId}) progress=${progressCurrent}/${progressTotal ?? "-"} lastId=${lastProcessedId}`,
   });
 }
@@ -1,4 +1,4 @@
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { db, schema } from "@tg-back/db";
 import { Api, TelegramClient } from "telegram";
 import { toBigIntOrNull } from "./bigint";
@@ -38,13 +38,18 @@ export async function processResolveTask(
     return;
   }
 
+  if (source.isOffline) {
+    await pauseTask(taskId, "offline source (imported from a Telegram Desktop export) cannot be resolved");
+    return;
+  }
+
   console.log(`resolve task start: ${taskId} source=${source.channelIdentifier}`);
   await logSyncEvent({ sourceChannelId: source.id, level: "info", message: `resolve started (taskId=${taskId})` });
 
   const [mirror] = await db
     .select()
     .from(schema.mirrorChannels)
-    .where(eq(schema.mirrorChannels.sourceChannelId, source.id))
+    .where(and(eq(schema.mirrorChannels.sourceChannelId, source.id), eq(schema.mirrorChannels.isPrimary, true)))
     .limit(1);
 
   const resolvedSource = await resolvePeer(client, source.channelIdentifier);
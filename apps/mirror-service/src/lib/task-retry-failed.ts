@@ -1,8 +1,10 @@
 import { and, asc, eq, gt, gte, isNull, lt, ne, or, sql } from "drizzle-orm";
-import { db, schema } from "@tg-back/db";
+import { db, schema, type MessageFilterMatch } from "@tg-back/db";
 import { Api, TelegramClient } from "telegram";
 import { sleep } from "../utils/sleep";
+import { buildCopyMessageContent } from "./copy-content";
 import { updateMessageMappingsByIds } from "./message-mappings";
+import { recordFloodWaitSleep } from "./metrics";
 import { classifyMirrorError } from "./mirror-message";
 import { logSyncEvent } from "./sync-events";
 import { pauseTask } from "./task-lifecycle";
@@ -15,10 +17,11 @@ import { ensureDiscussionGroupForAutoMirrorChannel } from "./telegram-auto-chann
 import { ensureOriginalLinkComment as ensureOriginalLinkCommentImpl } from "./telegram-original-link";
 import { resolvePeer } from "./telegram-peer";
 import {
+  getChannelCopyTransforms,
   getEffectiveMessageFilterSettings,
   getMirrorBehaviorSettings,
   getRetryBehaviorSettings,
-  shouldSkipMessageByFilter,
+  matchMessageFilter,
   throttleMirrorSend,
 } from "./settings";
 import { syncCommentsForPost as syncCommentsForPostImpl } from "./telegram-comments";
@@ -43,6 +46,7 @@ export async function processRetryFailedTask(client: TelegramClient, taskId: str
       sourceEntity: unknown;
       mirrorEntity: unknown;
       mirrorChannelId: string;
+      sourceChannelId: string;
       sourceChannel: { username?: string | null; telegramId?: bigint | null };
       sourcePostId: number;
       mirrorPostId: number;
@@ -64,7 +68,7 @@ export async function processRetryFailedTask(client: TelegramClient, taskId: str
   const [mirror] = await db
     .select()
     .from(schema.mirrorChannels)
-    .where(eq(schema.mirrorChannels.sourceChannelId, source.id))
+    .where(and(eq(schema.mirrorChannels.sourceChannelId, source.id), eq(schema.mirrorChannels.isPrimary, true)))
     .limit(1);
   if (!mirror) throw new Error(`mirror channel not found for source: ${source.id}`);
 
@@ -244,6 +248,8 @@ export async function processRetryFailedTask(client: TelegramClient, taskId: str
     sourceMessageId: number;
     retryCount: number;
     text: string | null;
+    messageType: (typeof schema.messageTypeEnum.enumValues)[number];
+    hasMedia: boolean;
   };
 
   let pending: PendingRetryItem[] = [];
@@ -267,15 +273,18 @@ export async function processRetryFailedTask(client: TelegramClient, taskId: str
     const mappingIds = items.map((i) => i.mappingId);
 
     const messageFilter = await getEffectiveMessageFilterSettings(source.id);
-    const shouldFilter =
-      messageFilter.enabled &&
-      messageFilter.keywords.length > 0 &&
-      items.some((item) => shouldSkipMessageByFilter(item.text ?? "", messageFilter));
-
-    if (shouldFilter) {
+    // 重试时只用数据库里的字段判定（转发来源未知，相关条件不会命中）
+    const filterMatch = items.reduce<MessageFilterMatch | null>(
+      (found, item) =>
+        found ??
+        matchMessageFilter({ text: item.text ?? "", messageType: item.messageType, hasMedia: item.hasMedia }, messageFilter),
+      null,
+    );
+
+    if (filterMatch) {
       await updateMessageMappingsByIds(
         mappingIds,
-        { status: "skipped", skipReason: "filtered", mirroredAt: new Date(), errorMessage: null },
+        { status: "skipped", skipReason: "filtered", skipDetail: filterMatch.reason, mirroredAt: new Date(), errorMessage: null },
         "retry_failed skip:filtered",
       );
 
@@ -307,6 +316,7 @@ export async function processRetryFailedTask(client: TelegramClient, taskId: str
         sourceEntity,
         mirrorEntity,
         mirrorChannelId: mirror.id,
+        sourceChannelId: source.id,
         sourceChannel: source,
         sourcePostId: sourceMsg.id,
         mirrorPostId,
@@ -406,6 +416,7 @@ export async function processRetryFailedTask(client: TelegramClient, taskId: str
 
         const waitSeconds = parseFloodWaitSeconds(error);
         if (waitSeconds && waitSeconds <= FLOOD_WAIT_AUTO_SLEEP_MAX_SEC) {
+          recordFloodWaitSleep(waitSeconds);
           await sleep(waitSeconds * 1000);
           try {
             const forwarded = await tryForwardOnce();
@@ -498,10 +509,9 @@ export async function processRetryFailedTask(client: TelegramClient, taskId: str
           continue;
         }
 
-        const text = typeof sourceMsg.message === "string" ? sourceMsg.message : "";
-        const content = text.trim();
+        const content = buildCopyMessageContent(sourceMsg, { source, transforms: await getChannelCopyTransforms(source.id) });
 
-        if (!content) {
+        if (!content.text) {
           await db
             .update(schema.messageMappings)
             .set({ status: "skipped", skipReason: "unsupported_type", mirroredAt: new Date(), errorMessage: null })
@@ -511,7 +521,10 @@ export async function processRetryFailedTask(client: TelegramClient, taskId: str
         }
 
         try {
-          const sent = await client.sendMessage(mirrorEntity as SendMessagePeer, { message: content });
+          const sent = await client.sendMessage(mirrorEntity as SendMessagePeer, {
+            message: content.text,
+            formattingEntities: content.entities,
+          });
           await throttleMirrorSend(mirrorBehavior.mirrorIntervalMs);
           await db
             .update(schema.messageMappings)
@@ -539,9 +552,13 @@ export async function processRetryFailedTask(client: TelegramClient, taskId: str
           } else {
             const waitSeconds = parseFloodWaitSeconds(error);
             if (waitSeconds && waitSeconds <= FLOOD_WAIT_AUTO_SLEEP_MAX_SEC) {
+              recordFloodWaitSleep(waitSeconds);
               await sleep(waitSeconds * 1000);
               try {
-                const sent = await client.sendMessage(mirrorEntity as SendMessagePeer, { message: content });
+                const sent = await client.sendMessage(mirrorEntity as SendMessagePeer, {
+            message: content.text,
+            formattingEntities: content.entities,
+          });
                 await throttleMirrorSend(mirrorBehavior.mirrorIntervalMs);
                 await db
                   .update(schema.messageMappings)
@@ -596,6 +613,8 @@ export async function processRetryFailedTask(client: TelegramClient, taskId: str
         mediaGroupId: schema.messageMappings.mediaGroupId,
         retryCount: schema.messageMappings.retryCount,
         text: schema.messageMappings.text,
+        messageType: schema.messageMappings.messageType,
+        hasMedia: schema.messageMappings.hasMedia,
       })
       .from(schema.messageMappings)
       .where(
@@ -622,7 +641,14 @@ export async function processRetryFailedTask(client: TelegramClient, taskId: str
       }
 
       pendingGroupId = groupId;
-      pending.push({ mappingId: row.id, sourceMessageId: row.sourceMessageId, retryCount: row.retryCount, text: row.text ?? null });
+      pending.push({
+        mappingId: row.id,
+        sourceMessageId: row.sourceMessageId,
+        retryCount: row.retryCount,
+        text: row.text ?? null,
+        messageType: row.messageType,
+        hasMedia: row.hasMedia,
+      });
 
       if (!groupId) {
         const result = await flushPending();
@@ -0,0 +1,302 @@
+import { and, eq, inArray, like, or } from "drizzle-orm";
+import {
+  db,
+  evaluateTaskScheduleGate,
+  getNextCronRun,
+  isChannelInTaskSchedule,
+  schema,
+  TASK_SCHEDULE_PAUSE_PREFIX,
+  toTaskScheduleRule,
+  type TaskScheduleRule,
+} from "@tg-back/db";
+import { withDbRetry } from "./db-retry";
+
+type SyncEventLevel = (typeof schema.eventLevelEnum.enumValues)[number];
+type TaskType = (typeof schema.taskTypeEnum.enumValues)[number];
+
+type TaskScheduleSchedulerDeps = {
+  checkIntervalMs?: number;
+  notifyTasksChanged: (payload: {
+    taskId?: string;
+    sourceChannelId?: string;
+    taskType?: string;
+    status?: string;
+  }) => void | Promise<void>;
+  logSyncEvent: (args: { sourceChannelId: string | null; level: SyncEventLevel; message: string }) => Promise<void>;
+};
+
+type ScheduleRow = typeof schema.taskSchedules.$inferSelect;
+
+type ChannelRow = {
+  id: string;
+  groupName: string;
+  isActive: boolean;
+  telegramId: bigint | null;
+  lastMessageId: number | null;
+};
+
+type EnqueueScheduleRule = TaskScheduleRule & { lookbackMinutes: number };
+
+/**
+ * 任务计划：
+ * - enqueue：到点后给范围内的频道重新排队 retry_failed / history_partial（回扫最近 lookback 分钟）
+ * - allow_window / pause_window：窗口外（或窗口内）把对应任务暂停，last_error 写 "paused by schedule: 计划名"，
+ *   放行后自动恢复；实时监听恢复时再排一个 history_partial，从 lastMessageId 之后补齐暂停期间漏掉的消息
+ */
+export function createTaskScheduleScheduler({
+  checkIntervalMs = 15_000,
+  notifyTasksChanged,
+  logSyncEvent,
+}: TaskScheduleSchedulerDeps): {
+  ensure: (now: number) => Promise<void>;
+} {
+  let lastEnsureAt = 0;
+
+  const requeueTask = async (
+    sourceChannelId: string,
+    taskType: TaskType,
+    range: Partial<typeof schema.syncTasks.$inferInsert> = {},
+  ): Promise<boolean> => {
+    const reset = {
+      status: "pending" as const,
+      startedAt: null,
+      pausedAt: null,
+      completedAt: null,
+      lastError: null,
+      progressCurrent: 0,
+      progressTotal: null,
+      lastProcessedId: null,
+    };
+    // 正在排队/运行/被暂停的任务不动，避免覆盖用户手动提交的区间
+    const rows = await withDbRetry(
+      () =>
+        db
+          .insert(schema.syncTasks)
+          .values({ sourceChannelId, taskType, ...reset, ...range })
+          .onConflictDoUpdate({
+            target: [schema.syncTasks.sourceChannelId, schema.syncTasks.taskType],
+            set: { ...reset, ...range },
+            setWhere: inArray(schema.syncTasks.status, ["completed", "failed"]),
+          })
+          .returning({ id: schema.syncTasks.id }),
+      `schedule requeue ${taskType} (channelId=${sourceChannelId})`,
+      { attempts: 3, baseDelayMs: 250 },
+    );
+
+    const taskId = rows[0]?.id;
+    if (!taskId) return false;
+    void notifyTasksChanged({ taskId, sourceChannelId, taskType, status: "pending" });
+    return true;
+  };
+
+  const runEnqueueSchedule = async (row: EnqueueScheduleRule, channels: ChannelRow[], now: number): Promise<string> => {
+    const taskType = row.taskTypes[0] as TaskType | undefined;
+    let targets = channels.filter((channel) => channel.isActive && channel.telegramId != null && isChannelInTaskSchedule(row, channel));
+
+    if (taskType === "retry_failed" && targets.length) {
+      const failed = await withDbRetry(
+        () =>
+          db
+            .selectDistinct({ sourceChannelId: schema.messageMappings.sourceChannelId })
+            .from(schema.messageMappings)
+            .where(
+              and(
+                eq(schema.messageMappings.status, "failed"),
+                inArray(
+                  schema.messageMappings.sourceChannelId,
+                  targets.map((channel) => channel.id),
+                ),
+              ),
+            ),
+        `schedule retry_failed candidates (schedule=${row.name})`,
+        { attempts: 3, baseDelayMs: 250 },
+      );
+      const failedIds = new Set(failed.map((r) => r.sourceChannelId));
+      targets = targets.filter((channel) => failedIds.has(channel.id));
+    }
+
+    let queued = 0;
+    for (const channel of targets) {
+      if (taskType === "history_partial") {
+        const range = {
+          rangeStartId: null,
+          rangeEndId: null,
+          rangeStartAt: new Date(now - row.lookbackMinutes * 60_000),
+          rangeEndAt: new Date(now),
+          rangeRemirror: false,
+        };
+        if (await requeueTask(channel.id, "history_partial", range)) queued++;
+      } else if (taskType === "retry_failed") {
+        if (await requeueTask(channel.id, "retry_failed")) queued++;
+      }
+    }
+
+    return `queued ${taskType ?? "-"} for ${queued}/${targets.length} channel(s)`;
+  };
+
+  const ensureEnqueueSchedules = async (rows: ScheduleRow[], channels: ChannelRow[], now: number): Promise<void> => {
+    for (const row of rows) {
+      if (row.action !== "enqueue") continue;
+      const rule = toTaskScheduleRule(row);
+      if (!rule) continue;
+
+      const nextRunAt = getNextCronRun(rule.cron, row.lastRunAt ?? row.createdAt, rule.timezone);
+      if (!nextRunAt || nextRunAt.getTime() > now) continue;
+
+      // 服务停机期间错过的多次触发只补跑一次
+      let result: string;
+      try {
+        result = await runEnqueueSchedule({ ...rule, lookbackMinutes: row.lookbackMinutes }, channels, now);
+      } catch (error: unknown) {
+        result = `failed: ${error instanceof Error ? error.message : String(error)}`;
+      }
+
+      await withDbRetry(
+        () =>
+          db
+            .update(schema.taskSchedules)
+            .set({ lastRunAt: new Date(now), lastResult: result })
+            .where(eq(schema.taskSchedules.id, row.id)),
+        `update task schedule last run (id=${row.id})`,
+        { attempts: 3, baseDelayMs: 250 },
+      );
+      await logSyncEvent({
+        sourceChannelId: null,
+        level: result.startsWith("failed") ? "warn" : "info",
+        message: `task schedule "${row.name}": ${result}`,
+      });
+    }
+  };
+
+  const ensureWindows = async (rows: ScheduleRow[], channels: ChannelRow[], now: number): Promise<void> => {
+    const rules = rows
+      .filter((row) => row.action !== "enqueue")
+      .map((row) => toTaskScheduleRule(row))
+      .filter((rule): rule is TaskScheduleRule => rule != null);
+    const gatedTypes = [...new Set(rules.flatMap((rule) => rule.taskTypes))] as TaskType[];
+
+    const pausedBySchedule = and(
+      eq(schema.syncTasks.status, "paused"),
+      like(schema.syncTasks.lastError, `${TASK_SCHEDULE_PAUSE_PREFIX}%`),
+    );
+    const tasks = await withDbRetry(
+      () =>
+        db
+          .select({
+            id: schema.syncTasks.id,
+            sourceChannelId: schema.syncTasks.sourceChannelId,
+            taskType: schema.syncTasks.taskType,
+            status: schema.syncTasks.status,
+          })
+          .from(schema.syncTasks)
+          .where(
+            gatedTypes.length
+              ? or(
+                  pausedBySchedule,
+                  and(inArray(schema.syncTasks.taskType, gatedTypes), inArray(schema.syncTasks.status, ["pending", "running"])),
+                )
+              : pausedBySchedule,
+          ),
+      "load schedule-gated tasks",
+      { attempts: 3, baseDelayMs: 250 },
+    );
+    if (!tasks.length) return;
+
+    const channelById = new Map(channels.map((channel) => [channel.id, channel]));
+    const nowDate = new Date(now);
+
+    for (const task of tasks) {
+      const channel = channelById.get(task.sourceChannelId);
+      if (!channel) continue;
+      const gate = evaluateTaskScheduleGate(rules, channel, task.taskType, nowDate);
+
+      if (!gate.allowed && task.status !== "paused") {
+        // 运行中的任务会在下一次状态检查时看到 paused 并保存断点后退出
+        const paused = await withDbRetry(
+          () =>
+            db
+              .update(schema.syncTasks)
+              .set({ status: "paused", pausedAt: nowDate, lastError: `${TASK_SCHEDULE_PAUSE_PREFIX}: ${gate.scheduleName}` })
+              .where(and(eq(schema.syncTasks.id, task.id), inArray(schema.syncTasks.status, ["pending", "running"])))
+              .returning({ id: schema.syncTasks.id }),
+          `pause task by schedule (taskId=${task.id})`,
+          { attempts: 3, baseDelayMs: 250 },
+        );
+        if (!paused.length) continue;
+        void notifyTasksChanged({ taskId: task.id, sourceChannelId: task.sourceChannelId, taskType: task.taskType, status: "paused" });
+        await logSyncEvent({
+          sourceChannelId: task.sourceChannelId,
+          level: "info",
+          message: `${task.taskType} paused by schedule "${gate.scheduleName}" (${gate.reason}, taskId=${task.id})`,
+        });
+        continue;
+      }
+
+      if (gate.allowed && task.status === "paused") {
+        const resumed = await withDbRetry(
+          () =>
+            db
+              .update(schema.syncTasks)
+              .set({ status: "pending", startedAt: null, pausedAt: null, lastError: null })
+              .where(and(eq(schema.syncTasks.id, task.id), pausedBySchedule))
+              .returning({ id: schema.syncTasks.id }),
+          `resume task by schedule (taskId=${task.id})`,
+          { attempts: 3, baseDelayMs: 250 },
+        );
+        if (!resumed.length) continue;
+        void notifyTasksChanged({ taskId: task.id, sourceChannelId: task.sourceChannelId, taskType: task.taskType, status: "pending" });
+
+        let catchUp = "";
+        if (task.taskType === "realtime" && channel.lastMessageId != null) {
+          const queued = await requeueTask(channel.id, "history_partial", {
+            rangeStartId: channel.lastMessageId + 1,
+            rangeEndId: null,
+            rangeStartAt: null,
+            rangeEndAt: null,
+            rangeRemirror: false,
+          });
+          catchUp = queued
+            ? `, queued history_partial from #${channel.lastMessageId + 1}`
+            : ", history_partial busy; missed messages were not backfilled";
+        }
+        await logSyncEvent({
+          sourceChannelId: task.sourceChannelId,
+          level: catchUp.includes("busy") ? "warn" : "info",
+          message: `${task.taskType} resumed by schedule (taskId=${task.id}${catchUp})`,
+        });
+      }
+    }
+  };
+
+  const ensure = async (now: number): Promise<void> => {
+    if (now - lastEnsureAt < checkIntervalMs) return;
+    lastEnsureAt = now;
+
+    const rows = await withDbRetry(
+      () => db.select().from(schema.taskSchedules).where(eq(schema.taskSchedules.enabled, true)),
+      "load task schedules",
+      { attempts: 3, baseDelayMs: 250 },
+    );
+
+    // 没有计划时也要跑一遍窗口检查：计划被删除/停用后，之前被它暂停的任务需要恢复
+    const channels: ChannelRow[] = await withDbRetry(
+      () =>
+        db
+          .select({
+            id: schema.sourceChannels.id,
+            groupName: schema.sourceChannels.groupName,
+            isActive: schema.sourceChannels.isActive,
+            telegramId: schema.sourceChannels.telegramId,
+            lastMessageId: schema.sourceChannels.lastMessageId,
+          })
+          .from(schema.sourceChannels),
+      "load channels for task schedules",
+      { attempts: 3, baseDelayMs: 250 },
+    );
+
+    await ensureEnqueueSchedules(rows, channels, now);
+    await ensureWindows(rows, channels, now);
+  };
+
+  return { ensure };
+}
@@ -0,0 +1,503 @@
+import fs from "node:fs";
+import path from "node:path";
+import { and, asc, eq, gt, sql } from "drizzle-orm";
+import { applyCopyTransforms, db, parseTdesktopExport, schema, type TdesktopImportChannel, type TdesktopImportMessage } from "@tg-back/db";
+import { Api, TelegramClient } from "telegram";
+import { sleep } from "../utils/sleep";
+import { withDbRetry } from "./db-retry";
+import { copyLocalFileToArchive, resolveMediaArchiveDir } from "./media-archive";
+import { updateMessageMappingsByIds } from "./message-mappings";
+import { recordFloodWaitSleep } from "./metrics";
+import { getChannelCopyTransforms, getMirrorBehaviorSettings, throttleMirrorSend } from "./settings";
+import { logSyncEvent } from "./sync-events";
+import { getTelegramErrorMessage, parseFloodWaitSeconds } from "./telegram-errors";
+import { resolvePeer } from "./telegram-peer";
+
+const BATCH_SIZE = 200;
+
+// web 上传的导出先暂存在归档目录下的这个子目录里，控制接口只接受这里面的路径
+export const TDESKTOP_IMPORT_STAGING_DIR = ".imports";
+
+export type TdesktopImportOptions = {
+  // result.json 或它所在的导出目录
+  exportPath: string;
+  // 导入到已有的离线源（重复导入同一份导出会更新而不是重复插入）
+  sourceChannelId?: string | null;
+  name?: string | null;
+  groupName?: string | null;
+  // 重新发布的目标频道（@username / 链接 / 邀请链接）；只导入不发布时可以留空
+  mirrorChannelIdentifier?: string | null;
+};
+
+export type TdesktopImportResult = {
+  sourceChannelId: string;
+  imported: number;
+  updated: number;
+  skipped: number;
+  mediaStored: number;
+  mediaMissing: number;
+};
+
+export type TdesktopRepublishResult = {
+  sent: number;
+  failed: number;
+  skipped: number;
+};
+
+export type PreparedTdesktopImport = {
+  sourceChannelId: string;
+  mirrorChannelId: string;
+  channel: TdesktopImportChannel;
+  rootDir: string;
+};
+
+function getErrorMessage(error: unknown): string {
+  return getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
+}
+
+export function resolveTdesktopStagingDir(): string {
+  return path.join(resolveMediaArchiveDir(), TDESKTOP_IMPORT_STAGING_DIR);
+}
+
+// 导出里的路径来自用户文件，拼接后仍要确认没有跑出导出目录
+function resolveExportFile(rootDir: string, relativePath: string): string | null {
+  const resolved = path.resolve(rootDir, relativePath);
+  if (!resolved.startsWith(rootDir + path.sep)) return null;
+  return fs.existsSync(resolved) ? resolved : null;
+}
+
+async function readExport(exportPath: string): Promise<{ channel: TdesktopImportChannel; rootDir: string }> {
+  const stat = await fs.promises.stat(exportPath);
+  const jsonPath = stat.isDirectory() ? path.join(exportPath, "result.json") : exportPath;
+  const raw = await fs.promises.readFile(jsonPath, "utf8");
+  // Telegram Desktop 写出的文件可能带 BOM
+  const channel = parseTdesktopExport(JSON.parse(raw.replace(/^\uFEFF/, "")));
+  return { channel, rootDir: path.resolve(path.dirname(jsonPath)) };
+}
+
+/**
+ * 读取并解析导出，建好（或找到）离线源和它的主镜像记录。耗时的消息写入放在 ingestTdesktopImport 里。
+ */
+export async function prepareTdesktopImport(options: TdesktopImportOptions): Promise<PreparedTdesktopImport> {
+  const { channel, rootDir } = await readExport(path.resolve(options.exportPath));
+  const identifier = channel.telegramId ? `tdesktop:${channel.telegramId}` : `tdesktop:${channel.name}`;
+  const name = options.name?.trim() || channel.name;
+  const mirrorIdentifier = options.mirrorChannelIdentifier?.trim() || null;
+
+  const [existing] = await db
+    .select({ id: schema.sourceChannels.id, isOffline: schema.sourceChannels.isOffline })
+    .from(schema.sourceChannels)
+    .where(
+      options.sourceChannelId
+        ? eq(schema.sourceChannels.id, options.sourceChannelId)
+        : eq(schema.sourceChannels.channelIdentifier, identifier),
+    )
+    .limit(1);
+  if (options.sourceChannelId && !existing) throw new Error(`source channel not found: ${options.sourceChannelId}`);
+  if (existing && !existing.isOffline) throw new Error(`source channel ${existing.id} is not an offline (imported) source`);
+
+  const lastMessageId = channel.messages.at(-1)?.sourceMessageId ?? null;
+  const [source] = existing
+    ? await db
+        .update(schema.sourceChannels)
+        .set({
+          name,
+          totalMessages: channel.messages.length,
+          lastMessageId,
+          ...(options.groupName != null ? { groupName: options.groupName.trim() } : {}),
+        })
+        .where(eq(schema.sourceChannels.id, existing.id))
+        .returning({ id: schema.sourceChannels.id })
+    : await db
+        .insert(schema.sourceChannels)
+        .values({
+          channelIdentifier: identifier,
+          name,
+          groupName: options.groupName?.trim() ?? "",
+          isOffline: true,
+          // 离线源只能用 copy 方式重新发布
+          mirrorMode: "copy",
+          syncStatus: "completed",
+          lastSyncAt: new Date(),
+          totalMessages: channel.messages.length,
+          lastMessageId,
+        })
+        .returning({ id: schema.sourceChannels.id });
+  if (!source) throw new Error("failed to save offline source channel");
+
+  const [mirror] = await db
+    .select({ id: schema.mirrorChannels.id, telegramId: schema.mirrorChannels.telegramId })
+    .from(schema.mirrorChannels)
+    .where(and(eq(schema.mirrorChannels.sourceChannelId, source.id), eq(schema.mirrorChannels.isPrimary, true)))
+    .limit(1);
+
+  let mirrorChannelId = mirror?.id ?? null;
+  if (!mirror) {
+    // message_mappings 必须挂在一个镜像频道上：先建一条未解析的记录，重新发布时再解析
+    const [created] = await db
+      .insert(schema.mirrorChannels)
+      .values({
+        sourceChannelId: source.id,
+        isPrimary: true,
+        channelIdentifier: mirrorIdentifier ?? "",
+        name: mirrorIdentifier ?? `${name}（镜像）`,
+        isAutoCreated: false,
+      })
+      .returning({ id: schema.mirrorChannels.id });
+    mirrorChannelId = created?.id ?? null;
+  } else if (mirrorIdentifier && mirror.telegramId == null) {
+    await db
+      .update(schema.mirrorChannels)
+      .set({ channelIdentifier: mirrorIdentifier, name: mirrorIdentifier })
+      .where(eq(schema.mirrorChannels.id, mirror.id));
+  }
+  if (!mirrorChannelId) throw new Error("failed to save mirror channel for offline source");
+
+  return { sourceChannelId: source.id, mirrorChannelId, channel, rootDir };
+}
+
+async function saveImportedMedia(
+  prepared: PreparedTdesktopImport,
+  mappingId: string,
+  message: TdesktopImportMessage,
+): Promise<boolean> {
+  const media = message.media;
+  if (!media) return false;
+
+  const filePath = media.relativePath ? resolveExportFile(prepared.rootDir, media.relativePath) : null;
+  const metadata = {
+    mimeType: media.mimeType,
+    fileName: media.fileName,
+    fileSize: media.fileSize,
+    width: media.width,
+    height: media.height,
+    durationSec: media.durationSec,
+  };
+
+  if (!filePath) {
+    // 只有元数据：记为 skipped，已经存过文件的（上一次导入带了媒体）不覆盖
+    await withDbRetry(
+      () =>
+        db
+          .insert(schema.messageMedia)
+          .values({
+            messageMappingId: mappingId,
+            sourceChannelId: prepared.sourceChannelId,
+            status: "skipped",
+            skipReason: "not included in Telegram Desktop export",
+            ...metadata,
+          })
+          .onConflictDoNothing(),
+      `save imported media metadata (mappingId=${mappingId})`,
+      { attempts: 3, baseDelayMs: 250 },
+    );
+    return false;
+  }
+
+  const stored = await copyLocalFileToArchive(filePath, media);
+  const thumbPath = media.thumbnailPath ? resolveExportFile(prepared.rootDir, media.thumbnailPath) : null;
+  const thumb = thumbPath ? await copyLocalFileToArchive(thumbPath, { fileName: null, mimeType: "image/jpeg" }).catch(() => null) : null;
+  const now = new Date();
+  const set = {
+    status: "stored" as const,
+    storagePath: stored.storagePath,
+    sha256: stored.sha256,
+    thumbStoragePath: thumb?.storagePath ?? null,
+    ...metadata,
+    fileSize: stored.fileSize,
+    skipReason: null,
+    errorMessage: null,
+    archivedAt: now,
+    updatedAt: now,
+  };
+  await withDbRetry(
+    () =>
+      db
+        .insert(schema.messageMedia)
+        .values({ messageMappingId: mappingId, sourceChannelId: prepared.sourceChannelId, attempts: 1, ...set })
+        .onConflictDoUpdate({ target: schema.messageMedia.messageMappingId, set }),
+    `save imported media (mappingId=${mappingId})`,
+    { attempts: 3, baseDelayMs: 250 },
+  );
+  return true;
+}
+
+/**
+ * 把导出里的消息写进 message_mappings（status=pending，等待重新发布），媒体文件复制进本地归档。
+ * 编辑过的消息保留 editCount / lastEditedAt，并记一条编辑历史（导出里没有编辑前的文本）。
+ */
+export async function ingestTdesktopImport(
+  prepared: PreparedTdesktopImport,
+  onProgress?: (done: number, total: number) => void,
+): Promise<TdesktopImportResult> {
+  const { channel, sourceChannelId, mirrorChannelId } = prepared;
+  const result: TdesktopImportResult = {
+    sourceChannelId,
+    imported: 0,
+    updated: 0,
+    skipped: channel.skippedCount,
+    mediaStored: 0,
+    mediaMissing: 0,
+  };
+
+  for (let offset = 0; offset < channel.messages.length; offset += BATCH_SIZE) {
+    const batch = channel.messages.slice(offset, offset + BATCH_SIZE);
+    const rows = await withDbRetry(
+      () =>
+        db
+          .insert(schema.messageMappings)
+          .values(
+            batch.map((m) => ({
+              sourceChannelId,
+              sourceMessageId: m.sourceMessageId,
+              mirrorChannelId,
+              messageType: m.messageType,
+              status: "pending" as const,
+              hasMedia: m.hasMedia,
+              fileSize: m.media?.fileSize ?? null,
+              text: m.text || null,
+              textPreview: (m.text.length > 200 ? m.text.slice(0, 200) : m.text) || null,
+              sentAt: m.sentAt,
+              editCount: m.editedAt ? 1 : 0,
+              lastEditedAt: m.editedAt,
+            })),
+          )
+          // 重复导入只刷新内容，不动镜像状态
+          .onConflictDoUpdate({
+            target: [schema.messageMappings.sourceChannelId, schema.messageMappings.sourceMessageId],
+            set: {
+              messageType: sql`excluded.message_type`,
+              hasMedia: sql`excluded.has_media`,
+              fileSize: sql`excluded.file_size`,
+              text: sql`excluded.text`,
+              textPreview: sql`excluded.text_preview`,
+              sentAt: sql`excluded.sent_at`,
+              editCount: sql`greatest(${schema.messageMappings.editCount}, excluded.edit_count)`,
+              lastEditedAt: sql`coalesce(excluded.last_edited_at, ${schema.messageMappings.lastEditedAt})`,
+            },
+          })
+          .returning({
+            id: schema.messageMappings.id,
+            sourceMessageId: schema.messageMappings.sourceMessageId,
+            inserted: sql<boolean>`(xmax = 0)`,
+          }),
+      `import tdesktop messages (sourceChannelId=${sourceChannelId}, offset=${offset})`,
+      { attempts: 3, baseDelayMs: 250 },
+    );
+
+    const idBySourceMessageId = new Map(rows.map((r) => [r.sourceMessageId, r.id]));
+    for (const row of rows) {
+      if (row.inserted) result.imported += 1;
+      else result.updated += 1;
+    }
+
+    const edits = batch
+      .filter((m) => m.editedAt && idBySourceMessageId.has(m.sourceMessageId))
+      .map((m) => ({
+        messageMappingId: idBySourceMessageId.get(m.sourceMessageId)!,
+        version: 1,
+        previousText: null,
+        newText: m.text || null,
+        editedAt: m.editedAt!,
+        propagationStatus: "recorded" as const,
+      }));
+    if (edits.length) {
+      await withDbRetry(
+        () => db.insert(schema.messageEdits).values(edits).onConflictDoNothing(),
+        `import tdesktop edits (sourceChannelId=${sourceChannelId}, offset=${offset})`,
+        { attempts: 3, baseDelayMs: 250 },
+      );
+    }
+
+    for (const message of batch) {
+      const mappingId = idBySourceMessageId.get(message.sourceMessageId);
+      if (!mappingId || !message.media) continue;
+      try {
+        if (await saveImportedMedia(prepared, mappingId, message)) result.mediaStored += 1;
+        else result.mediaMissing += 1;
+      } catch (error: unknown) {
+        result.mediaMissing += 1;
+        console.warn(`import tdesktop media failed: message=${message.sourceMessageId} - ${getErrorMessage(error)}`);
+      }
+    }
+
+    onProgress?.(Math.min(offset + BATCH_SIZE, channel.messages.length), channel.messages.length);
+  }
+
+  await logSyncEvent({
+    sourceChannelId,
+    level: "info",
+    message: `Telegram Desktop import finished: ${result.imported} new, ${result.updated} updated, ${result.skipped} skipped, media ${result.mediaStored} stored / ${result.mediaMissing} missing`,
+  });
+  return result;
+}
+
+export async function importTdesktopExport(
+  options: TdesktopImportOptions,
+  onProgress?: (done: number, total: number) => void,
+): Promise<TdesktopImportResult> {
+  return await ingestTdesktopImport(await prepareTdesktopImport(options), onProgress);
+}
+
+async function resolveRepublishTarget(client: TelegramClient, sourceChannelId: string): Promise<Api.TypeInputPeer> {
+  const [mirror] = await db
+    .select()
+    .from(schema.mirrorChannels)
+    .where(and(eq(schema.mirrorChannels.sourceChannelId, sourceChannelId), eq(schema.mirrorChannels.isPrimary, true)))
+    .limit(1);
+  if (!mirror) throw new Error(`mirror channel not found for source: ${sourceChannelId}`);
+  if (!mirror.channelIdentifier.trim()) throw new Error("mirror channel identifier is required to republish an offline source");
+
+  const resolved = await resolvePeer(client, mirror.channelIdentifier);
+  if (resolved.peerType !== "channel" || !resolved.telegramId) {
+    throw new Error(`mirror target is not a channel: ${mirror.channelIdentifier}`);
+  }
+  if (mirror.telegramId !== resolved.telegramId) {
+    await db
+      .update(schema.mirrorChannels)
+      .set({ telegramId: resolved.telegramId, accessHash: resolved.accessHash, name: resolved.name, username: resolved.username })
+      .where(eq(schema.mirrorChannels.id, mirror.id));
+  }
+  return await client.getInputEntity(resolved.entity);
+}
+
+/**
+ * 把离线源里还没发布的消息（status=pending/failed）按 id 顺序用 copy 方式发到镜像频道：
+ * 文本经频道的 copy 转换，媒体用本地归档里的文件重新上传；没有文件也没有文本的消息跳过。
+ */
+export async function republishTdesktopImport(
+  client: TelegramClient,
+  sourceChannelId: string,
+  options: { floodWaitAutoSleepMaxSec: number },
+): Promise<TdesktopRepublishResult> {
+  const [source] = await db
+    .select({ name: schema.sourceChannels.name, isOffline: schema.sourceChannels.isOffline })
+    .from(schema.sourceChannels)
+    .where(eq(schema.sourceChannels.id, sourceChannelId))
+    .limit(1);
+  if (!source) throw new Error(`source channel not found: ${sourceChannelId}`);
+  if (!source.isOffline) throw new Error(`source channel ${sourceChannelId} is not an offline (imported) source`);
+
+  const target = await resolveRepublishTarget(client, sourceChannelId);
+  const transforms = await getChannelCopyTransforms(sourceChannelId);
+  const { mirrorIntervalMs } = await getMirrorBehaviorSettings();
+  const archiveRoot = resolveMediaArchiveDir();
+  const result: TdesktopRepublishResult = { sent: 0, failed: 0, skipped: 0 };
+
+  await logSyncEvent({ sourceChannelId, level: "info", message: "Telegram Desktop import republish started" });
+
+  let lastSourceMessageId = 0;
+  for (;;) {
+    const rows = await withDbRetry(
+      () =>
+        db
+          .select({
+            id: schema.messageMappings.id,
+            sourceMessageId: schema.messageMappings.sourceMessageId,
+            messageType: schema.messageMappings.messageType,
+            text: schema.messageMappings.text,
+            status: schema.messageMappings.status,
+            storagePath: schema.messageMedia.storagePath,
+          })
+          .from(schema.messageMappings)
+          .leftJoin(
+            schema.messageMedia,
+            and(eq(schema.messageMedia.messageMappingId, schema.messageMappings.id), eq(schema.messageMedia.status, "stored")),
+          )
+          .where(
+            and(
+              eq(schema.messageMappings.sourceChannelId, sourceChannelId),
+              gt(schema.messageMappings.sourceMessageId, lastSourceMessageId),
+              sql`${schema.messageMappings.status} in ('pending', 'failed')`,
+            ),
+          )
+          .orderBy(asc(schema.messageMappings.sourceMessageId))
+          .limit(BATCH_SIZE),
+      "load offline messages to republish",
+      { attempts: 3, baseDelayMs: 250 },
+    );
+    if (!rows.length) break;
+
+    for (const row of rows) {
+      lastSourceMessageId = row.sourceMessageId;
+      const text = applyCopyTransforms({ text: row.text ?? "", entities: [] }, transforms, {
+        sourceName: source.name,
+        sourceUsername: null,
+        sourceLink: null,
+        originalLink: null,
+      }).text;
+      const filePath = row.storagePath ? path.resolve(archiveRoot, row.storagePath) : null;
+      const file = filePath && filePath.startsWith(archiveRoot + path.sep) && fs.existsSync(filePath) ? filePath : null;
+
+      if (!file && !text) {
+        await updateMessageMappingsByIds(
+          [row.id],
+          { status: "skipped", skipReason: "unsupported_type", skipDetail: "no archived file or text to republish", mirroredAt: new Date() },
+          "republish skip",
+        );
+        result.skipped += 1;
+        continue;
+      }
+
+      const send = async (): Promise<number | null> => {
+        const sent = file
+          ? await client.sendFile(target, {
+              file,
+              caption: text,
+              forceDocument: row.messageType === "document",
+              voiceNote: row.messageType === "voice",
+              supportsStreaming: row.messageType === "video",
+            })
+          : await client.sendMessage(target, { message: text });
+        return sent instanceof Api.Message ? sent.id : null;
+      };
+
+      try {
+        let mirrorMessageId: number | null;
+        try {
+          mirrorMessageId = await send();
+        } catch (error: unknown) {
+          const waitSeconds = parseFloodWaitSeconds(error);
+          if (!waitSeconds || waitSeconds > options.floodWaitAutoSleepMaxSec) throw error;
+          recordFloodWaitSleep(waitSeconds);
+          await sleep(waitSeconds * 1000);
+          mirrorMessageId = await send();
+        }
+        await updateMessageMappingsByIds(
+          [row.id],
+          { status: "success", mirrorMessageId, mirroredAt: new Date(), errorMessage: null, skipReason: null, skipDetail: null },
+          "republish success",
+        );
+        result.sent += 1;
+      } catch (error: unknown) {
+        const msg = getErrorMessage(error);
+        // 等待时间过长的 FLOOD_WAIT 直接中止，剩下的下次再发
+        if (parseFloodWaitSeconds(error)) {
+          await logSyncEvent({ sourceChannelId, level: "warn", message: `Telegram Desktop import republish stopped: ${msg}` });
+          return result;
+        }
+        await withDbRetry(
+          () =>
+            db
+              .update(schema.messageMappings)
+              .set({ status: "failed", errorMessage: msg, retryCount: sql`${schema.messageMappings.retryCount} + 1` })
+              .where(eq(schema.messageMappings.id, row.id)),
+          `republish failure (mappingId=${row.id})`,
+          { attempts: 3, baseDelayMs: 250 },
+        );
+        result.failed += 1;
+      }
+
+      await throttleMirrorSend(mirrorIntervalMs);
+    }
+
+    if (rows.length < BATCH_SIZE) break;
+  }
+
+  await logSyncEvent({
+    sourceChannelId,
+    level: result.failed ? "warn" : "info",
+    message: `Telegram Desktop import republish finished: ${result.sent} sent, ${result.failed} failed, ${result.skipped} skipped`,
+  });
+  return result;
+}
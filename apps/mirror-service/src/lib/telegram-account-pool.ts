@@ -0,0 +1,287 @@
+import { asc, eq } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { decrypt } from "@tg-back/crypto";
+import type { TelegramClient } from "telegram";
+import type { ChannelScope } from "./channel-scope";
+import { withDbRetry } from "./db-retry";
+import { getTelegramProxySettings } from "./settings";
+import {
+  connectTelegramClient,
+  TelegramConfigError,
+  TelegramSessionInvalidError,
+  type TelegramClientStartOptions,
+} from "./telegram-client";
+
+type SyncEventLevel = (typeof schema.eventLevelEnum.enumValues)[number];
+
+const DEFAULT_CHECK_INTERVAL_MS = 5_000;
+
+export type TelegramAccountRuntime = {
+  id: string;
+  name: string;
+  client: TelegramClient;
+  scope: ChannelScope;
+};
+
+type TelegramAccountPoolDeps = {
+  checkIntervalMs?: number;
+  options: TelegramClientStartOptions;
+  logSyncEvent: (args: { sourceChannelId: string | null; level: SyncEventLevel; message: string }) => Promise<void>;
+  // 新账号连上后调用（用来启动该账号的任务执行器 / 实时监听）
+  onConnected: (account: TelegramAccountRuntime) => void;
+  // 账号被停用 / 删除 / 重新登录时，断开连接之前调用；应等该账号手上的任务结束
+  onDisconnecting: (account: TelegramAccountRuntime) => Promise<void>;
+};
+
+type ConnectedAccount = TelegramAccountRuntime & {
+  encryptedSession: string;
+  // 连接时用的代理配置（JSON），设置里改了代理就断开重连
+  proxyKey: string;
+};
+
+type ChannelAssignmentRow = {
+  id: string;
+  telegramAccountId: string | null;
+  activeAccountId: string | null;
+};
+
+/**
+ * 多账号连接池：按 telegram_accounts 表连接/断开账号，并把源频道分配给账号。
+ * - 频道指定了账号：只由该账号处理（账号不在线时暂停）
+ * - 自动分配：尽量保持上一次的账号（active_account_id），否则分给频道最少的在线账号
+ * - 所有账号走同一个代理（settings.telegram_proxy），代理配置变化时全部重连
+ */
+export function createTelegramAccountPool({
+  checkIntervalMs = DEFAULT_CHECK_INTERVAL_MS,
+  options,
+  logSyncEvent,
+  onConnected,
+  onDisconnecting,
+}: TelegramAccountPoolDeps): {
+  ensure: (now: number) => Promise<void>;
+  getAccounts: () => TelegramAccountRuntime[];
+  disconnectAll: () => Promise<void>;
+} {
+  let lastEnsureAt = 0;
+  let lastMissingLogAt = 0;
+  const connected = new Map<string, ConnectedAccount>();
+  // 连接失败后的下次重试时间；session 失效的账号要等 session 变化（重新登录）才重试
+  const retryAt = new Map<string, number>();
+  const invalidSessions = new Map<string, string>();
+  let assignments = new Map<string, Set<string>>();
+
+  const createScope = (accountId: string): ChannelScope => ({
+    getSourceChannelIds: () => [...(assignments.get(accountId) ?? [])],
+    has: (sourceChannelId) => assignments.get(accountId)?.has(sourceChannelId) ?? false,
+  });
+
+  const updateAccountStatus = async (
+    accountId: string,
+    values: Partial<typeof schema.telegramAccounts.$inferInsert>,
+  ): Promise<void> => {
+    try {
+      await withDbRetry(
+        () => db.update(schema.telegramAccounts).set(values).where(eq(schema.telegramAccounts.id, accountId)),
+        `update telegram account status (id=${accountId})`,
+        { attempts: 3, baseDelayMs: 250 },
+      );
+    } catch (error: unknown) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.warn(`failed to update telegram account status (id=${accountId}): ${msg}`);
+    }
+  };
+
+  const disconnectAccount = async (account: ConnectedAccount, reason: string): Promise<void> => {
+    connected.delete(account.id);
+    try {
+      await onDisconnecting(account);
+    } catch (error: unknown) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.warn(`failed to stop telegram account runner (account=${account.name}): ${msg}`);
+    }
+    try {
+      await account.client.disconnect();
+    } catch {
+      // ignore
+    }
+    console.log(`telegram account disconnected: ${account.name} (${reason})`);
+  };
+
+  const connectAccount = async (
+    row: { id: string; name: string; session: string },
+    now: number,
+    proxy: Awaited<ReturnType<typeof getTelegramProxySettings>>,
+  ): Promise<void> => {
+    let sessionString = "";
+    try {
+      sessionString = decrypt(row.session);
+    } catch (error: unknown) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes("Missing env ENCRYPTION_SECRET")) throw error;
+      invalidSessions.set(row.id, row.session);
+      await updateAccountStatus(row.id, { lastError: `session 解密失败（ENCRYPTION_SECRET 可能变了）：${msg}` });
+      console.warn(`[startup] failed to decrypt session of telegram account ${row.name}: ${msg}`);
+      return;
+    }
+
+    try {
+      const { client, identity } = await connectTelegramClient(sessionString, { ...options, proxy: proxy.proxy });
+      const account: ConnectedAccount = {
+        id: row.id,
+        name: row.name,
+        client,
+        scope: createScope(row.id),
+        encryptedSession: row.session,
+        proxyKey: JSON.stringify(proxy.proxy),
+      };
+      connected.set(row.id, account);
+      retryAt.delete(row.id);
+      invalidSessions.delete(row.id);
+      await updateAccountStatus(row.id, { ...identity, lastConnectedAt: new Date(), lastError: null });
+
+      const who = identity.username ? `@${identity.username}` : identity.displayName || "unknown";
+      console.log(`mirror-service connected to Telegram as ${who} (account=${row.name}, via ${proxy.description})`);
+      await logSyncEvent({ sourceChannelId: null, level: "info", message: `telegram account connected: ${row.name} (${who})` });
+      onConnected(account);
+    } catch (error: unknown) {
+      if (error instanceof TelegramConfigError) throw error;
+      const msg = error instanceof Error ? error.message : String(error);
+      if (error instanceof TelegramSessionInvalidError) {
+        invalidSessions.set(row.id, row.session);
+        await logSyncEvent({ sourceChannelId: null, level: "error", message: `telegram account ${row.name}: ${msg}` });
+      } else {
+        retryAt.set(row.id, now + options.mirrorStartRetryIntervalMs);
+      }
+      await updateAccountStatus(row.id, { lastError: msg });
+      console.warn(`[startup] telegram account ${row.name} failed to connect: ${msg}`);
+    }
+  };
+
+  const reassignChannels = async (): Promise<void> => {
+    const rows: ChannelAssignmentRow[] = await withDbRetry(
+      () =>
+        db
+          .select({
+            id: schema.sourceChannels.id,
+            telegramAccountId: schema.sourceChannels.telegramAccountId,
+            activeAccountId: schema.sourceChannels.activeAccountId,
+          })
+          .from(schema.sourceChannels)
+          .orderBy(asc(schema.sourceChannels.subscribedAt)),
+      "load channel account assignments",
+      { attempts: 3, baseDelayMs: 250 },
+    );
+
+    const next = new Map<string, Set<string>>();
+    for (const accountId of connected.keys()) next.set(accountId, new Set());
+    const assign = (row: ChannelAssignmentRow, accountId: string) => next.get(accountId)!.add(row.id);
+
+    const pending: ChannelAssignmentRow[] = [];
+    for (const row of rows) {
+      if (row.telegramAccountId) {
+        if (connected.has(row.telegramAccountId)) assign(row, row.telegramAccountId);
+        continue;
+      }
+      if (row.activeAccountId && connected.has(row.activeAccountId)) {
+        assign(row, row.activeAccountId);
+        continue;
+      }
+      pending.push(row);
+    }
+
+    for (const row of pending) {
+      let best: string | null = null;
+      for (const [accountId, channelIds] of next) {
+        if (best == null || channelIds.size < next.get(best)!.size) best = accountId;
+      }
+      if (best) assign(row, best);
+    }
+
+    for (const row of rows) {
+      const accountId = [...next].find(([, channelIds]) => channelIds.has(row.id))?.[0] ?? null;
+      if (!accountId || accountId === row.activeAccountId) continue;
+      // access_hash 是按账号的，换了账号后由健康检查按 channelIdentifier 重新解析
+      await withDbRetry(
+        () =>
+          db
+            .update(schema.sourceChannels)
+            .set(row.activeAccountId ? { activeAccountId: accountId, accessHash: null } : { activeAccountId: accountId })
+            .where(eq(schema.sourceChannels.id, row.id)),
+        `update channel account (channelId=${row.id})`,
+        { attempts: 3, baseDelayMs: 250 },
+      );
+      if (row.activeAccountId) {
+        await logSyncEvent({
+          sourceChannelId: row.id,
+          level: "info",
+          message: `channel reassigned to telegram account ${connected.get(accountId)?.name ?? accountId}`,
+        });
+      }
+    }
+
+    assignments = next;
+  };
+
+  const ensure = async (now: number): Promise<void> => {
+    if (now - lastEnsureAt < checkIntervalMs) return;
+    lastEnsureAt = now;
+
+    const rows = await withDbRetry(
+      () =>
+        db
+          .select({
+            id: schema.telegramAccounts.id,
+            name: schema.telegramAccounts.name,
+            session: schema.telegramAccounts.session,
+            isActive: schema.telegramAccounts.isActive,
+          })
+          .from(schema.telegramAccounts)
+          .orderBy(asc(schema.telegramAccounts.createdAt)),
+      "load telegram accounts",
+      { attempts: 3, baseDelayMs: 250 },
+    );
+    const usable = rows.filter((row) => row.isActive && row.session.trim());
+    const proxy = await getTelegramProxySettings();
+    const proxyKey = JSON.stringify(proxy.proxy);
+
+    for (const account of [...connected.values()]) {
+      const row = usable.find((r) => r.id === account.id);
+      if (!row) {
+        await disconnectAccount(account, "account removed or disabled");
+      } else if (row.session !== account.encryptedSession) {
+        await disconnectAccount(account, "session changed");
+      } else if (account.proxyKey !== proxyKey) {
+        await disconnectAccount(account, `proxy changed, reconnecting via ${proxy.description}`);
+      } else {
+        account.name = row.name;
+      }
+    }
+
+    for (const row of usable) {
+      if (connected.has(row.id)) continue;
+      if (invalidSessions.get(row.id) === row.session) continue;
+      if ((retryAt.get(row.id) ?? 0) > now) continue;
+      await connectAccount(row, now, proxy);
+    }
+
+    if (!usable.length && now - lastMissingLogAt > 30_000) {
+      lastMissingLogAt = now;
+      console.warn(`[startup] 尚未登录 Telegram（没有可用的账号），请先打开 Web 首页完成登录...`);
+    }
+
+    await reassignChannels();
+  };
+
+  const disconnectAll = async (): Promise<void> => {
+    for (const account of [...connected.values()]) {
+      connected.delete(account.id);
+      try {
+        await account.client.disconnect();
+      } catch {
+        // ignore
+      }
+    }
+  };
+
+  return { ensure, getAccounts: () => [...connected.values()], disconnectAll };
+}
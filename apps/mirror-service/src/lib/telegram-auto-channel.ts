@@ -4,6 +4,7 @@ import { schema } from "@tg-back/db";
 import type { EntityLike } from "telegram/define";
 import { sleep } from "../utils/sleep";
 import { toBigIntOrNull } from "./bigint";
+import { recordFloodWaitSleep } from "./metrics";
 import { logSyncEvent } from "./sync-events";
 import { getTelegramErrorMessage, parseFloodWaitSeconds } from "./telegram-errors";
 import { getLinkedDiscussionChatFilter } from "./telegram-metadata";
@@ -169,6 +170,7 @@ export async function ensureAutoChannelAdmins(
       if (!isUserAlreadyParticipantError(error)) {
         const waitSeconds = parseFloodWaitSeconds(error);
         if (waitSeconds && waitSeconds <= options.floodWaitAutoSleepMaxSec) {
+          recordFloodWaitSleep(waitSeconds);
           await sleep(waitSeconds * 1000);
           try {
             await inviteOnce();
@@ -215,6 +217,7 @@ export async function ensureAutoChannelAdmins(
     } catch (error: unknown) {
       const waitSeconds = parseFloodWaitSeconds(error);
       if (waitSeconds && waitSeconds <= options.floodWaitAutoSleepMaxSec) {
+        recordFloodWaitSleep(waitSeconds);
         await sleep(waitSeconds * 1000);
         try {
           await promoteOnce();
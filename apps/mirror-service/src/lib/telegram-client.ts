@@ -1,11 +1,10 @@
-import { eq } from "drizzle-orm";
-import { db, parseSettingValue, schema } from "@tg-back/db";
 import { TelegramClient } from "telegram";
+import type { TelegramProxyOptions } from "@tg-back/db";
 import { StringSession } from "telegram/sessions";
-import { decrypt } from "@tg-back/crypto";
 import { sleep } from "../utils/sleep";
-import { withDbRetry } from "./db-retry";
-import { readStringProp } from "./object-props";
+import { toBigIntOrNull } from "./bigint";
+import { instrumentTelegramClient, recordFloodWaitSleep } from "./metrics";
+import { readProp, readStringProp } from "./object-props";
 import { getTelegramErrorMessage, parseFloodWaitSeconds } from "./telegram-errors";
 
 export type TelegramClientStartOptions = {
@@ -14,171 +13,130 @@ export type TelegramClientStartOptions = {
   mirrorStartRetryIntervalMs: number;
 };
 
+export type TelegramAccountIdentity = {
+  telegramUserId: bigint | null;
+  username: string | null;
+  displayName: string | null;
+};
+
+export class TelegramSessionInvalidError extends Error {}
+
+export class TelegramConfigError extends Error {}
+
 function requireEnv(name: string): string {
   const value = process.env[name]?.trim();
-  if (!value) throw new Error(`Missing env ${name}`);
+  if (!value) throw new TelegramConfigError(`Missing env ${name}`);
   return value;
 }
 
-export async function getTelegramClient(options: TelegramClientStartOptions): Promise<TelegramClient> {
+function getTelegramApiCredentials(): { apiId: number; apiHash: string } {
   const apiIdRaw = requireEnv("TELEGRAM_API_ID");
   const apiId = Number(apiIdRaw);
   if (!Number.isFinite(apiId) || apiId <= 0) {
-    throw new Error(`Invalid env TELEGRAM_API_ID: ${apiIdRaw}`);
+    throw new TelegramConfigError(`Invalid env TELEGRAM_API_ID: ${apiIdRaw}`);
   }
-  const apiHash = requireEnv("TELEGRAM_API_HASH");
-
-  const loadEncryptedSession = async (): Promise<string> => {
-    const [row] = await withDbRetry(
-      () =>
-        db
-          .select({ value: schema.settings.value })
-          .from(schema.settings)
-          .where(eq(schema.settings.key, "telegram_session"))
-          .limit(1),
-      "load telegram_session",
-      { attempts: 5, baseDelayMs: 300 },
-    );
-
-    return parseSettingValue("telegram_session", row?.value);
-  };
-
-  const isSessionInvalidError = (error: unknown): boolean => {
-    const msg = getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
-    if (!msg) return false;
-    return msg.includes("AUTH_KEY_UNREGISTERED") || msg.includes("SESSION_REVOKED") || msg.includes("AUTH_KEY_INVALID");
-  };
-
-  const isFatalConfigError = (error: unknown): boolean => {
-    const msg = getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
-    if (!msg) return false;
-    return msg.includes("API_ID_INVALID") || msg.includes("API_ID_PUBLISHED_FLOOD") || msg.includes("APP_VERSION_INVALID");
-  };
-
-  const isTransientError = (error: unknown): boolean => {
-    const msg = getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
-    if (!msg) return false;
-    return (
-      msg.includes("RPC_CALL_FAIL") ||
-      msg.includes("TIMEOUT") ||
-      msg.includes("ETIMEDOUT") ||
-      msg.includes("ECONNRESET") ||
-      msg.includes("EPIPE") ||
-      msg.includes("CONNECTION_CLOSED") ||
-      msg.includes("Connection closed") ||
-      msg.includes("Network") ||
-      msg.includes("network") ||
-      msg.includes("socket") ||
-      msg.includes("Socket")
-    );
-  };
-
-  let lastMissingLogAt = 0;
-
-  for (;;) {
-    let encryptedSession = "";
-    try {
-      encryptedSession = await loadEncryptedSession();
-    } catch (error: unknown) {
-      const msg = error instanceof Error ? error.message : String(error);
-      console.warn(
-        `[startup] failed to load telegram_session from DB; retrying in ${options.mirrorStartRetryIntervalSec}s: ${msg}`,
-      );
-      await sleep(options.mirrorStartRetryIntervalMs);
-      continue;
-    }
+  return { apiId, apiHash: requireEnv("TELEGRAM_API_HASH") };
+}
+
+function getErrorText(error: unknown): string {
+  return getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
+}
 
-    let sessionString = "";
+const isSessionInvalidError = (error: unknown): boolean => {
+  const msg = getErrorText(error);
+  if (!msg) return false;
+  return msg.includes("AUTH_KEY_UNREGISTERED") || msg.includes("SESSION_REVOKED") || msg.includes("AUTH_KEY_INVALID");
+};
+
+const isFatalConfigError = (error: unknown): boolean => {
+  const msg = getErrorText(error);
+  if (!msg) return false;
+  return msg.includes("API_ID_INVALID") || msg.includes("API_ID_PUBLISHED_FLOOD") || msg.includes("APP_VERSION_INVALID");
+};
+
+const isTransientError = (error: unknown): boolean => {
+  const msg = getErrorText(error);
+  if (!msg) return false;
+  return (
+    msg.includes("RPC_CALL_FAIL") ||
+    msg.includes("TIMEOUT") ||
+    msg.includes("ETIMEDOUT") ||
+    msg.includes("ECONNRESET") ||
+    msg.includes("EPIPE") ||
+    msg.includes("CONNECTION_CLOSED") ||
+    msg.includes("Connection closed") ||
+    msg.includes("Network") ||
+    msg.includes("network") ||
+    msg.includes("socket") ||
+    msg.includes("Socket")
+  );
+};
+
+/**
+ * 用一个（已解密的）StringSession 连上 Telegram；proxy 为 null / 不传时直连。
+ * 短暂的网络错误和可接受的 FLOOD_WAIT 会在这里重试；session 失效抛 TelegramSessionInvalidError，
+ * API_ID 等配置错误抛 TelegramConfigError（重试也没用），其它错误原样抛出，由调用方稍后再试。
+ */
+export async function connectTelegramClient(
+  sessionString: string,
+  options: Pick<TelegramClientStartOptions, "floodWaitAutoSleepMaxSec"> & { proxy?: TelegramProxyOptions | null },
+): Promise<{ client: TelegramClient; identity: TelegramAccountIdentity }> {
+  const { apiId, apiHash } = getTelegramApiCredentials();
+  const client = new TelegramClient(new StringSession(sessionString), apiId, apiHash, {
+    connectionRetries: 5,
+    proxy: options.proxy ?? undefined,
+  });
+  instrumentTelegramClient(client);
+
+  const connectDelaysMs = [0, 500, 1500, 3000, 5000];
+  let lastError: unknown = null;
+
+  for (const delayMs of connectDelaysMs) {
+    if (delayMs > 0) await sleep(delayMs);
     try {
-      sessionString = decrypt(encryptedSession);
+      await client.connect();
+      const me = await client.getMe();
+      const usernameValue = readStringProp(me, "username");
+      const firstNameValue = readStringProp(me, "firstName");
+      const lastNameValue = readStringProp(me, "lastName");
+      const displayName = [firstNameValue, lastNameValue].filter(Boolean).join(" ");
+      return {
+        client,
+        identity: {
+          telegramUserId: toBigIntOrNull(readProp(me, "id")),
+          username: usernameValue || null,
+          displayName: displayName || null,
+        },
+      };
     } catch (error: unknown) {
-      const msg = error instanceof Error ? error.message : String(error);
-      if (msg.includes("Missing env ENCRYPTION_SECRET")) throw error;
-      console.warn(
-        `[startup] failed to decrypt telegram_session (maybe ENCRYPTION_SECRET changed or session is corrupt); retrying in ${options.mirrorStartRetryIntervalSec}s: ${msg}`,
-      );
-      await sleep(options.mirrorStartRetryIntervalMs);
-      continue;
-    }
+      lastError = error;
 
-    if (!sessionString.trim()) {
-      const now = Date.now();
-      if (now - lastMissingLogAt > 30_000) {
-        lastMissingLogAt = now;
-        console.warn(`[startup] 尚未登录 Telegram（settings.telegram_session 为空），请先打开 Web 首页完成登录...`);
+      const waitSeconds = parseFloodWaitSeconds(error);
+      if (waitSeconds && waitSeconds <= options.floodWaitAutoSleepMaxSec) {
+        recordFloodWaitSleep(waitSeconds + 1);
+        await sleep((waitSeconds + 1) * 1000);
+        continue;
       }
-      await sleep(options.mirrorStartRetryIntervalMs);
-      continue;
-    }
 
-    const client = new TelegramClient(new StringSession(sessionString), apiId, apiHash, {
-      connectionRetries: 5,
-    });
-
-    const connectDelaysMs = [0, 500, 1500, 3000, 5000];
-    let lastError: unknown = null;
-
-    for (const delayMs of connectDelaysMs) {
-      if (delayMs > 0) await sleep(delayMs);
-      try {
-        await client.connect();
-        const me = await client.getMe();
-        const usernameValue = readStringProp(me, "username");
-        const firstNameValue = readStringProp(me, "firstName");
-        const username = usernameValue ? `@${usernameValue}` : "";
-        const firstName = firstNameValue ? firstNameValue : "";
-        console.log(`mirror-service connected to Telegram as ${username || firstName || "unknown"}`);
-        return client;
-      } catch (error: unknown) {
-        lastError = error;
-
-        const waitSeconds = parseFloodWaitSeconds(error);
-        if (waitSeconds && waitSeconds <= options.floodWaitAutoSleepMaxSec) {
-          await sleep((waitSeconds + 1) * 1000);
-          continue;
-        }
-
-        if (isFatalConfigError(error)) {
-          try {
-            await client.disconnect();
-          } catch {
-            // ignore
-          }
-          const msg = getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
-          throw new Error(`Telegram config error: ${msg}`);
-        }
-
-        if (isSessionInvalidError(error)) {
-          const msg = getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : String(error));
-          console.warn(
-            `[startup] Telegram session 已失效（${msg}），请在 Web 里重新登录；${options.mirrorStartRetryIntervalSec}s 后重试...`,
-          );
-          break;
-        }
-
-        if (isTransientError(error)) {
-          const msg = error instanceof Error ? error.message : getTelegramErrorMessage(error) ?? String(error);
-          console.warn(`[startup] Telegram connection transient error, retrying: ${msg}`);
-          continue;
-        }
-
-        const msg = error instanceof Error ? error.message : getTelegramErrorMessage(error) ?? String(error);
-        console.warn(`[startup] Telegram connection failed: ${msg}`);
-        break;
-      }
-    }
+      if (isFatalConfigError(error) || isSessionInvalidError(error)) break;
 
-    try {
-      await client.disconnect();
-    } catch {
-      // ignore
-    }
+      if (isTransientError(error)) {
+        console.warn(`[startup] Telegram connection transient error, retrying: ${getErrorText(error)}`);
+        continue;
+      }
 
-    if (isFatalConfigError(lastError)) {
-      const msg = getTelegramErrorMessage(lastError) ?? (lastError instanceof Error ? lastError.message : String(lastError));
-      throw new Error(`Telegram config error: ${msg}`);
+      break;
     }
+  }
 
-    await sleep(options.mirrorStartRetryIntervalMs);
+  try {
+    await client.disconnect();
+  } catch {
+    // ignore
   }
+
+  const msg = getErrorText(lastError);
+  if (isFatalConfigError(lastError)) throw new TelegramConfigError(`Telegram config error: ${msg}`);
+  if (isSessionInvalidError(lastError)) throw new TelegramSessionInvalidError(`Telegram session 已失效（${msg}），请在 Web 里重新登录`);
+  throw lastError instanceof Error ? lastError : new Error(msg);
 }
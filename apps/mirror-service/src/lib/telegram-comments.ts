@@ -1,7 +1,9 @@
 import { Api, TelegramClient } from "telegram";
 import type { EntityLike, FileLike } from "telegram/define";
 import { sleep } from "../utils/sleep";
+import { recordFloodWaitSleep } from "./metrics";
 import { getTelegramErrorMessage, parseFloodWaitSeconds } from "./telegram-errors";
+import { findCommentPost, loadMirroredCommentIds, readSentMessageIds, recordComments } from "./message-comments";
 import { buildSourceMessageLink } from "./telegram-identifiers";
 import { ensureOriginalLinkComment } from "./telegram-original-link";
 import { getSendFileMediaForMessage } from "./telegram-spoiler";
@@ -10,12 +12,17 @@ type CommentSyncOptions = {
   floodWaitAutoSleepMaxSec: number;
 };
 
+/**
+ * 把帖子在讨论组里的评论镜像到镜像帖子下面，并按讨论组消息 id 记到 message_comments：
+ * 已成功镜像的评论会跳过，重跑不会重复发送。
+ */
 export async function syncCommentsForPost(
   client: TelegramClient,
   {
     sourceEntity,
     mirrorEntity,
     mirrorChannelId,
+    sourceChannelId,
     sourceChannel,
     sourcePostId,
     mirrorPostId,
@@ -24,6 +31,7 @@ export async function syncCommentsForPost(
     sourceEntity: unknown;
     mirrorEntity: unknown;
     mirrorChannelId: string;
+    sourceChannelId: string;
     sourceChannel: { username?: string | null; telegramId?: bigint | null };
     sourcePostId: number;
     mirrorPostId: number;
@@ -38,6 +46,12 @@ export async function syncCommentsForPost(
   try {
     await ensureOriginalLinkComment(client, { mirrorEntity, mirrorChannelId, mirrorPostId, sourceLink: link }, options);
 
+    const post = await findCommentPost(sourceChannelId, sourcePostId);
+    const mirroredCommentIds = post ? await loadMirroredCommentIds(post) : new Set<number>();
+    const record = async (messages: Api.Message[], result: Parameters<typeof recordComments>[2]) => {
+      if (post) await recordComments(post, messages, result);
+    };
+
     const sendSingle = async (m: Api.Message) => {
       if (!m.id) return;
       if (m.fwdFrom && m.fwdFrom.channelPost) return;
@@ -46,36 +60,38 @@ export async function syncCommentsForPost(
       const formattingEntities = Array.isArray(m.entities) ? m.entities : undefined;
       if (!rawText.trim() && !m.media) return;
 
-      const sendOnce = async () => {
+      const sendOnce = async (): Promise<unknown> => {
         if (m.media && !(m.media instanceof Api.MessageMediaWebPage)) {
-          await client.sendFile(mirrorEntity as EntityLike, {
+          return await client.sendFile(mirrorEntity as EntityLike, {
             file: (getSendFileMediaForMessage(m) ?? m.media) as FileLike,
             caption: rawText,
             formattingEntities,
             commentTo: mirrorPostId,
           });
-          return;
         }
 
-        if (!rawText.trim()) return;
-        await client.sendMessage(mirrorEntity as EntityLike, { message: rawText, formattingEntities, commentTo: mirrorPostId });
+        if (!rawText.trim()) return null;
+        return await client.sendMessage(mirrorEntity as EntityLike, { message: rawText, formattingEntities, commentTo: mirrorPostId });
       };
 
       try {
-        await sendOnce();
+        await record([m], { status: "success", mirrorMessageIds: readSentMessageIds(await sendOnce()) });
       } catch (error: unknown) {
         const waitSeconds = parseFloodWaitSeconds(error);
         if (waitSeconds && waitSeconds <= options.floodWaitAutoSleepMaxSec) {
+          recordFloodWaitSleep(waitSeconds);
           await sleep(waitSeconds * 1000);
           try {
-            await sendOnce();
+            await record([m], { status: "success", mirrorMessageIds: readSentMessageIds(await sendOnce()) });
           } catch (error2: unknown) {
             const msg2 = error2 instanceof Error ? error2.message : getTelegramErrorMessage(error2) ?? String(error2);
             console.error(`comment mirror failed: post=${sourcePostId} comment=${m.id} - ${msg2}`);
+            await record([m], { status: "failed", errorMessage: msg2 });
           }
         } else {
           const msg1 = error instanceof Error ? error.message : getTelegramErrorMessage(error) ?? String(error);
           console.error(`comment mirror failed: post=${sourcePostId} comment=${m.id} - ${msg1}`);
+          await record([m], { status: "failed", errorMessage: msg1 });
         }
       }
     };
@@ -101,22 +117,22 @@ export async function syncCommentsForPost(
       const files = album.map((m) => (getSendFileMediaForMessage(m) ?? m.media) as FileLike);
       const captions = album.map((m) => (typeof m.message === "string" ? m.message : ""));
 
-      const sendOnce = async () => {
+      const sendOnce = async (): Promise<unknown> =>
         await client.sendFile(mirrorEntity as EntityLike, {
           file: files,
           caption: captions,
           commentTo: mirrorPostId,
         });
-      };
 
       try {
-        await sendOnce();
+        await record(album, { status: "success", mirrorMessageIds: readSentMessageIds(await sendOnce()) });
       } catch (error: unknown) {
         const waitSeconds = parseFloodWaitSeconds(error);
         if (waitSeconds && waitSeconds <= options.floodWaitAutoSleepMaxSec) {
+          recordFloodWaitSleep(waitSeconds);
           await sleep(waitSeconds * 1000);
           try {
-            await sendOnce();
+            await record(album, { status: "success", mirrorMessageIds: readSentMessageIds(await sendOnce()) });
             return;
           } catch (error2: unknown) {
             const msg2 = error2 instanceof Error ? error2.message : getTelegramErrorMessage(error2) ?? String(error2);
@@ -137,6 +153,11 @@ export async function syncCommentsForPost(
       if (!(m instanceof Api.Message)) continue;
       if (!m.id) continue;
       if (m.fwdFrom && m.fwdFrom.channelPost) continue;
+      if (mirroredCommentIds.has(m.id)) {
+        processed += 1;
+        if (processed >= maxComments) break;
+        continue;
+      }
 
       const isAlbumItem = !!m.groupedId && !!m.media && !(m.media instanceof Api.MessageMediaWebPage);
       const groupId = isAlbumItem ? String(m.groupedId) : null;
@@ -0,0 +1,233 @@
+import { Api, TelegramClient } from "telegram";
+import { getInputMedia } from "telegram/Utils";
+import type { EntityLike } from "telegram/define";
+import { schema } from "@tg-back/db";
+import { sleep } from "../utils/sleep";
+import type { CopyMessageContent } from "./copy-content";
+import { recordFloodWaitSleep } from "./metrics";
+import { getTelegramErrorMessage, isRetryableCommentThreadError, parseFloodWaitSeconds } from "./telegram-errors";
+import { getSendFileMediaForMessage } from "./telegram-spoiler";
+
+type EditSyncMode = (typeof schema.editSyncModeEnum.enumValues)[number];
+type MirrorMode = (typeof schema.mirrorModeEnum.enumValues)[number];
+type EditPropagationStatus = (typeof schema.editPropagationStatusEnum.enumValues)[number];
+
+export type EditPropagationResult = {
+  status: EditPropagationStatus;
+  error: string | null;
+};
+
+type EditPropagationOptions = {
+  floodWaitAutoSleepMaxSec: number;
+};
+
+const EDIT_NOTE_PREFIX = "✏️ 原消息已编辑：\n\n";
+const EDIT_NOTE_CLEARED = "✏️ 原消息已编辑：文本已清空";
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : getTelegramErrorMessage(error) ?? String(error);
+}
+
+function isMessageNotModifiedError(error: unknown): boolean {
+  const msg = getTelegramErrorMessage(error) ?? (error instanceof Error ? error.message : "");
+  return msg.includes("MESSAGE_NOT_MODIFIED");
+}
+
+function getMediaKey(media: unknown): string | null {
+  if (media instanceof Api.MessageMediaPhoto && media.photo) return `photo:${media.photo.id.toString()}`;
+  if (media instanceof Api.MessageMediaDocument && media.document) return `document:${media.document.id.toString()}`;
+  return null;
+}
+
+function shiftEntities(entities: Api.TypeMessageEntity[] | undefined, offset: number): Api.TypeMessageEntity[] | undefined {
+  if (!entities?.length) return undefined;
+  return entities.map((entity) => {
+    const shifted = Object.assign(Object.create(Object.getPrototypeOf(entity)), entity) as Api.TypeMessageEntity;
+    shifted.offset = entity.offset + offset;
+    return shifted;
+  });
+}
+
+async function invokeWithFloodWait<T>(run: () => Promise<T>, options: EditPropagationOptions): Promise<T> {
+  try {
+    return await run();
+  } catch (error: unknown) {
+    const waitSeconds = parseFloodWaitSeconds(error);
+    if (!waitSeconds || waitSeconds > options.floodWaitAutoSleepMaxSec) throw error;
+    recordFloodWaitSleep(waitSeconds);
+    await sleep(waitSeconds * 1000);
+    return await run();
+  }
+}
+
+async function editMirrorMessageInPlace(
+  client: TelegramClient,
+  {
+    mirrorPeer,
+    mirrorMessageId,
+    sourceMessage,
+    mirrorMode,
+    mediaOnly,
+    copyContent,
+  }: {
+    mirrorPeer: unknown;
+    mirrorMessageId: number;
+    sourceMessage: Api.Message;
+    mirrorMode: MirrorMode;
+    mediaOnly: boolean;
+    copyContent: CopyMessageContent | null;
+  },
+  options: EditPropagationOptions,
+): Promise<EditPropagationResult> {
+  const rawText = copyContent ? copyContent.text : typeof sourceMessage.message === "string" ? sourceMessage.message : "";
+  const entities = copyContent ? copyContent.entities : Array.isArray(sourceMessage.entities) ? sourceMessage.entities : undefined;
+
+  // copy 模式镜像只有纯文本，无法替换媒体，也不能把文本清空
+  if (mirrorMode === "copy") {
+    if (mediaOnly) return { status: "skipped", error: null };
+    if (!rawText.trim()) return { status: "skipped", error: "empty text in copy mode" };
+  }
+
+  const mirrorPeerInput = await client.getInputEntity(mirrorPeer as EntityLike);
+
+  let media: Api.TypeInputMedia | undefined;
+  if (mirrorMode === "forward") {
+    const sourceMediaKey = getMediaKey(sourceMessage.media);
+    if (sourceMediaKey) {
+      const [mirrored] = await invokeWithFloodWait(
+        () => client.getMessages(mirrorPeer as EntityLike, { ids: [mirrorMessageId] }),
+        options,
+      );
+      if (!(mirrored instanceof Api.Message)) return { status: "failed", error: "mirror message not found" };
+      if (getMediaKey(mirrored.media) !== sourceMediaKey) {
+        try {
+          media = getInputMedia(getSendFileMediaForMessage(sourceMessage));
+        } catch (error: unknown) {
+          return { status: "failed", error: `unsupported media swap: ${toErrorMessage(error)}` };
+        }
+      }
+    }
+    if (mediaOnly && !media) return { status: "skipped", error: null };
+  }
+
+  try {
+    await invokeWithFloodWait(
+      () =>
+        client.invoke(
+          new Api.messages.EditMessage({
+            peer: mirrorPeerInput,
+            id: mirrorMessageId,
+            message: rawText,
+            entities,
+            media,
+          }),
+        ),
+      options,
+    );
+  } catch (error: unknown) {
+    if (!isMessageNotModifiedError(error)) throw error;
+  }
+
+  return { status: "edited", error: null };
+}
+
+async function postEditNoteComment(
+  client: TelegramClient,
+  {
+    mirrorPeer,
+    mirrorMessageId,
+    sourceMessage,
+    copyContent,
+  }: {
+    mirrorPeer: unknown;
+    mirrorMessageId: number;
+    sourceMessage: Api.Message;
+    copyContent: CopyMessageContent | null;
+  },
+  options: EditPropagationOptions,
+): Promise<EditPropagationResult> {
+  const rawText = copyContent ? copyContent.text : typeof sourceMessage.message === "string" ? sourceMessage.message : "";
+  const entities = copyContent ? copyContent.entities : Array.isArray(sourceMessage.entities) ? sourceMessage.entities : undefined;
+  const hasText = !!rawText.trim();
+
+  const sendOnce = async () => {
+    await client.sendMessage(mirrorPeer as EntityLike, {
+      message: hasText ? `${EDIT_NOTE_PREFIX}${rawText}` : EDIT_NOTE_CLEARED,
+      formattingEntities: hasText ? shiftEntities(entities, EDIT_NOTE_PREFIX.length) : undefined,
+      commentTo: mirrorMessageId,
+      linkPreview: false,
+    });
+  };
+
+  const delaysMs = [0, 250, 750, 1500];
+  let lastError: unknown = null;
+
+  for (const delayMs of delaysMs) {
+    if (delayMs > 0) await sleep(delayMs);
+    try {
+      await sendOnce();
+      return { status: "commented", error: null };
+    } catch (error: unknown) {
+      lastError = error;
+      const waitSeconds = parseFloodWaitSeconds(error);
+      if (waitSeconds && waitSeconds <= options.floodWaitAutoSleepMaxSec) {
+        recordFloodWaitSleep(waitSeconds);
+        await sleep(waitSeconds * 1000);
+        continue;
+      }
+      if (isRetryableCommentThreadError(error)) continue;
+      break;
+    }
+  }
+
+  return { status: "failed", error: toErrorMessage(lastError) };
+}
+
+/**
+ * 将源消息的编辑同步到镜像消息。
+ *
+ * - edit：原地编辑镜像消息（文本、格式实体；forward 模式下媒体变化时一并替换）
+ * - comment：在镜像消息的评论区追加一条“已编辑”说明
+ * - record：仅记录到数据库，不改动镜像频道
+ *
+ * mediaOnly 用于文本未变化的编辑事件：仅当需要替换媒体时才会编辑，否则返回 skipped。
+ * copyContent 是 copy 模式下按频道转换规则处理后的文本，用来代替源消息原文。
+ */
+export async function propagateMessageEdit(
+  client: TelegramClient,
+  {
+    editSyncMode,
+    mirrorMode,
+    mirrorPeer,
+    mirrorMessageId,
+    sourceMessage,
+    mediaOnly = false,
+    copyContent = null,
+  }: {
+    editSyncMode: EditSyncMode;
+    mirrorMode: MirrorMode;
+    mirrorPeer: unknown;
+    mirrorMessageId: number | null;
+    sourceMessage: Api.Message;
+    mediaOnly?: boolean;
+    copyContent?: CopyMessageContent | null;
+  },
+  options: EditPropagationOptions,
+): Promise<EditPropagationResult> {
+  if (editSyncMode === "record") return { status: "recorded", error: null };
+  if (!mirrorMessageId) return { status: "skipped", error: "message not mirrored" };
+  if (editSyncMode === "comment" && mediaOnly) return { status: "skipped", error: null };
+
+  try {
+    if (editSyncMode === "comment") {
+      return await postEditNoteComment(client, { mirrorPeer, mirrorMessageId, sourceMessage, copyContent }, options);
+    }
+    return await editMirrorMessageInPlace(
+      client,
+      { mirrorPeer, mirrorMessageId, sourceMessage, mirrorMode, mediaOnly, copyContent },
+      options,
+    );
+  } catch (error: unknown) {
+    return { status: "failed", error: toErrorMessage(error) };
+  }
+}
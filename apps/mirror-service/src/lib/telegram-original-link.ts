@@ -1,5 +1,6 @@
 import { TelegramClient } from "telegram";
 import { sleep } from "../utils/sleep";
+import { recordFloodWaitSleep } from "./metrics";
 import { getTelegramErrorMessage, isRetryableCommentThreadError, parseFloodWaitSeconds } from "./telegram-errors";
 import { formatOriginalLinkComment } from "./telegram-identifiers";
 
@@ -52,6 +53,7 @@ export async function ensureOriginalLinkComment(
       lastError = error;
       const waitSeconds = parseFloodWaitSeconds(error);
       if (waitSeconds && waitSeconds <= options.floodWaitAutoSleepMaxSec) {
+        recordFloodWaitSleep(waitSeconds);
         await sleep(waitSeconds * 1000);
         continue;
       }
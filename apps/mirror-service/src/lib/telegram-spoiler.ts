@@ -2,6 +2,7 @@ import { Api, TelegramClient } from "telegram";
 import { getInputMedia } from "telegram/Utils";
 import type { EntityLike } from "telegram/define";
 import { sleep } from "../utils/sleep";
+import { recordFloodWaitSleep } from "./metrics";
 import { getTelegramErrorMessage, parseFloodWaitSeconds } from "./telegram-errors";
 
 type MirrorSpoilerOptions = {
@@ -76,6 +77,7 @@ export async function ensureMirrorMessageSpoiler(
   } catch (error: unknown) {
     const waitSeconds = parseFloodWaitSeconds(error);
     if (waitSeconds && waitSeconds <= options.floodWaitAutoSleepMaxSec) {
+      recordFloodWaitSleep(waitSeconds);
       await sleep(waitSeconds * 1000);
       try {
         await editOnce();
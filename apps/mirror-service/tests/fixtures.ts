@@ -0,0 +1,52 @@
+import { db, schema } from "@tg-back/db";
+
+type SourceChannelValues = Partial<typeof schema.sourceChannels.$inferInsert>;
+type MessageMappingValues = Partial<typeof schema.messageMappings.$inferInsert> & { sourceMessageId: number };
+
+let channelSeq = 0;
+
+/**
+ * 建一个源频道和它的主镜像；需要 vi.mock("@tg-back/db") 换成 PGlite 后使用。
+ */
+export async function createChannel(values: SourceChannelValues = {}) {
+  channelSeq += 1;
+  const [source] = await db
+    .insert(schema.sourceChannels)
+    .values({
+      channelIdentifier: `@source${channelSeq}`,
+      name: `source ${channelSeq}`,
+      telegramId: BigInt(1000 + channelSeq),
+      // 测试里的消息时间是固定的过去时间，删除同步默认不限制起始时间
+      deletionSyncSince: new Date(0),
+      ...values,
+    })
+    .returning();
+  const [mirror] = await db
+    .insert(schema.mirrorChannels)
+    .values({ sourceChannelId: source!.id, channelIdentifier: `@mirror${channelSeq}`, name: `mirror ${channelSeq}` })
+    .returning();
+  return { source: source!, mirror: mirror! };
+}
+
+export async function createMappings(
+  channel: { source: { id: string }; mirror: { id: string } },
+  rows: MessageMappingValues[],
+) {
+  return await db
+    .insert(schema.messageMappings)
+    .values(
+      rows.map((row) => ({
+        sourceChannelId: channel.source.id,
+        mirrorChannelId: channel.mirror.id,
+        messageType: "text" as const,
+        sentAt: new Date(Date.UTC(2024, 0, 1) + row.sourceMessageId * 60_000),
+        ...row,
+      })),
+    )
+    .returning();
+}
+
+export async function resetChannels(): Promise<void> {
+  // 频道删掉后镜像、消息映射等按外键级联删除
+  await db.delete(schema.sourceChannels);
+}
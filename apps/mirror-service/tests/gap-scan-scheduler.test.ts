@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { Api, type TelegramClient } from "telegram";
+import { returnBigInt } from "telegram/Helpers";
+import { createGapScanScheduler } from "../src/lib/gap-scan-scheduler";
+import { createChannel, createMappings, resetChannels } from "./fixtures";
+
+vi.mock("@tg-back/db", async (importOriginal) => (await import("@tg-back/db/testing")).withTestDb(importOriginal));
+vi.mock("../src/utils/sleep", () => ({ sleep: vi.fn(async () => {}) }));
+vi.mock("../src/lib/telegram-peer", () => ({ resolvePeer: vi.fn(async (_client: unknown, identifier: string) => ({ entity: identifier })) }));
+
+const SETTINGS = { enabled: true, intervalMs: 1_000, rescanMs: 3_600_000 };
+const OPTIONS = { floodWaitAutoSleepMaxSec: 60 };
+const HOUR_AGO = Math.floor(Date.now() / 1000) - 3600;
+
+type SourceMessage = Api.Message | Api.MessageService;
+
+function createSourceMessage(id: number, { service = false, date = HOUR_AGO + id } = {}): SourceMessage {
+  const peerId = new Api.PeerChannel({ channelId: returnBigInt(1) });
+  if (service) return new Api.MessageService({ id, peerId, date, action: new Api.MessageActionPinMessage() });
+  return new Api.Message({ id, peerId, date, message: `message ${id}` });
+}
+
+/**
+ * GetHistory 的两种用法：按 minId/maxId 取区间内还存在的消息，按 offsetDate 取这个时间之前最新的消息。
+ */
+function createFakeClient(messages: SourceMessage[]) {
+  const newestFirst = [...messages].sort((a, b) => b.id - a.id);
+  const getMessages = vi.fn(async (_entity: unknown, { minId, maxId, offsetDate, limit }: { minId?: number; maxId?: number; offsetDate?: number; limit: number }) => {
+    if (offsetDate != null) return newestFirst.filter((msg) => msg.date < offsetDate).slice(0, limit);
+    return newestFirst.filter((msg) => msg.id > (minId ?? 0) && msg.id < (maxId ?? Infinity)).slice(0, limit);
+  });
+  return { client: { getMessages } as unknown as TelegramClient, getMessages };
+}
+
+async function loadGapScan(sourceChannelId: string) {
+  const [row] = await db
+    .select({ gapScan: schema.sourceChannels.gapScan })
+    .from(schema.sourceChannels)
+    .where(eq(schema.sourceChannels.id, sourceChannelId));
+  return row?.gapScan ?? null;
+}
+
+beforeEach(async () => {
+  await resetChannels();
+});
+
+describe("createGapScanScheduler", () => {
+  it("区分漏掉 / 删除 / 服务消息，并核对最大映射 id 之后的尾部", async () => {
+    const channel = await createChannel();
+    await createMappings(channel, [1, 2, 5, 6].map((sourceMessageId) => ({ sourceMessageId })));
+    // 3 已删除、4 漏掉；尾部 7、8 漏掉，9 是服务消息，10 刚发出还在实时同步的宽限期内
+    const { client } = createFakeClient([
+      ...[1, 2, 4, 5, 6, 7, 8].map((id) => createSourceMessage(id)),
+      createSourceMessage(9, { service: true }),
+      createSourceMessage(10, { date: Math.floor(Date.now() / 1000) }),
+    ]);
+    const logSyncEvent = vi.fn(async () => {});
+    const scheduler = createGapScanScheduler({ client, settings: SETTINGS, options: OPTIONS, logSyncEvent });
+
+    expect(scheduler.scanNow(channel.source.id)).toBe(true);
+    await vi.waitFor(async () => expect(await loadGapScan(channel.source.id)).not.toBeNull());
+
+    expect(await loadGapScan(channel.source.id)).toMatchObject({
+      fromId: 1,
+      toId: 9,
+      candidateCount: 5,
+      deletedCount: 1,
+      serviceCount: 1,
+      missedCount: 3,
+      missedRanges: [
+        { startId: 4, endId: 4, count: 1 },
+        { startId: 7, endId: 8, count: 2 },
+      ],
+      truncated: false,
+    });
+    expect(logSyncEvent).toHaveBeenCalledWith(expect.objectContaining({ sourceChannelId: channel.source.id, level: "warn" }));
+  });
+
+  it("源频道没有比最大映射 id 更新的消息时不产生尾部候选", async () => {
+    const channel = await createChannel();
+    await createMappings(channel, [1, 2, 3].map((sourceMessageId) => ({ sourceMessageId })));
+    const { client, getMessages } = createFakeClient([1, 2, 3].map((id) => createSourceMessage(id)));
+    const scheduler = createGapScanScheduler({ client, settings: SETTINGS, options: OPTIONS, logSyncEvent: vi.fn(async () => {}) });
+
+    scheduler.scanNow(channel.source.id);
+    await vi.waitFor(async () => expect(await loadGapScan(channel.source.id)).not.toBeNull());
+
+    expect(await loadGapScan(channel.source.id)).toMatchObject({ fromId: 1, toId: 3, candidateCount: 0, missedCount: 0 });
+    // 只查了一次最新消息
+    expect(getMessages).toHaveBeenCalledTimes(1);
+  });
+
+  it("自动扫描在后台执行，不阻塞调用方；扫描中再次触发直接返回", async () => {
+    const channel = await createChannel();
+    await createMappings(channel, [1, 3].map((sourceMessageId) => ({ sourceMessageId })));
+    let release!: () => void;
+    const getMessages = vi.fn(
+      () => new Promise<SourceMessage[]>((resolve) => (release = () => resolve([createSourceMessage(2), createSourceMessage(3)]))),
+    );
+    const scheduler = createGapScanScheduler({
+      client: { getMessages } as unknown as TelegramClient,
+      settings: SETTINGS,
+      options: OPTIONS,
+      logSyncEvent: vi.fn(async () => {}),
+    });
+
+    await scheduler.ensure(Date.now());
+    await vi.waitFor(() => expect(getMessages).toHaveBeenCalledTimes(1));
+    expect(scheduler.scanNow(channel.source.id)).toBe(false);
+
+    release();
+    await vi.waitFor(() => expect(getMessages).toHaveBeenCalledTimes(2));
+    release();
+    await vi.waitFor(async () => expect(await loadGapScan(channel.source.id)).toMatchObject({ missedCount: 1 }));
+  });
+});
@@ -0,0 +1,110 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { db, schema } from "@tg-back/db";
+import type { TelegramClient } from "telegram";
+import { ALL_CHANNELS_SCOPE } from "../src/lib/channel-scope";
+import { createMediaArchiveScheduler, loadPendingMediaArchives } from "../src/lib/media-archive-scheduler";
+import { resolvePeer } from "../src/lib/telegram-peer";
+import { createChannel, createMappings, resetChannels } from "./fixtures";
+
+vi.mock("@tg-back/db", async (importOriginal) => (await import("@tg-back/db/testing")).withTestDb(importOriginal));
+vi.mock("../src/utils/sleep", () => ({ sleep: vi.fn(async () => {}) }));
+vi.mock("../src/lib/telegram-peer", () => ({ resolvePeer: vi.fn() }));
+
+const NOW = Date.UTC(2024, 5, 1, 12);
+const FAILED_RETRY_DELAY_MS = 10 * 60_000;
+
+async function saveMedia(mappingId: string, sourceChannelId: string, values: Partial<typeof schema.messageMedia.$inferInsert>) {
+  await db.insert(schema.messageMedia).values({ messageMappingId: mappingId, sourceChannelId, status: "failed", ...values });
+}
+
+async function loadMediaRows() {
+  return await db
+    .select({ messageMappingId: schema.messageMedia.messageMappingId, status: schema.messageMedia.status, attempts: schema.messageMedia.attempts, errorMessage: schema.messageMedia.errorMessage })
+    .from(schema.messageMedia);
+}
+
+beforeAll(async () => {
+  await db.insert(schema.settings).values({ key: "media_archive_enabled", value: true });
+});
+
+beforeEach(async () => {
+  await resetChannels();
+  vi.mocked(resolvePeer).mockReset();
+});
+
+describe("loadPendingMediaArchives", () => {
+  it("取还没归档或可以重试的媒体消息，新消息优先", async () => {
+    const channel = await createChannel();
+    const mappings = await createMappings(channel, [
+      { sourceMessageId: 1, hasMedia: true, messageType: "photo" },
+      { sourceMessageId: 2, hasMedia: true, messageType: "photo" },
+      { sourceMessageId: 3, hasMedia: true, messageType: "photo" },
+      { sourceMessageId: 4, hasMedia: true, messageType: "photo" },
+      { sourceMessageId: 5, hasMedia: true, messageType: "photo" },
+      // 不带媒体 / 源消息已删除
+      { sourceMessageId: 6 },
+      { sourceMessageId: 7, hasMedia: true, messageType: "photo", isDeleted: true },
+    ]);
+    const byId = new Map(mappings.map((row) => [row.sourceMessageId, row.id]));
+    const sourceChannelId = channel.source.id;
+    // 失败过但已过重试间隔；刚失败；重试次数用完；已归档
+    await saveMedia(byId.get(2)!, sourceChannelId, { attempts: 1, updatedAt: new Date(NOW - FAILED_RETRY_DELAY_MS - 1) });
+    await saveMedia(byId.get(3)!, sourceChannelId, { attempts: 1, updatedAt: new Date(NOW - 1000) });
+    await saveMedia(byId.get(4)!, sourceChannelId, { attempts: 3, updatedAt: new Date(NOW - FAILED_RETRY_DELAY_MS - 1) });
+    await saveMedia(byId.get(5)!, sourceChannelId, { status: "stored", attempts: 1 });
+
+    const pending = await loadPendingMediaArchives(ALL_CHANNELS_SCOPE, NOW, 10);
+    expect(pending.map((item) => item.sourceMessageId)).toEqual([2, 1]);
+    expect(pending[0]).toMatchObject({ sourceChannelId, messageType: "photo", channelIdentifier: channel.source.channelIdentifier });
+
+    expect(await loadPendingMediaArchives(ALL_CHANNELS_SCOPE, NOW, 1)).toHaveLength(1);
+  });
+
+  it("跳过还没解析的频道和不归当前账号管的频道", async () => {
+    const unresolved = await createChannel({ telegramId: null });
+    const mine = await createChannel();
+    const other = await createChannel();
+    for (const channel of [unresolved, mine, other]) {
+      await createMappings(channel, [{ sourceMessageId: 1, hasMedia: true, messageType: "photo" }]);
+    }
+    const scope = { getSourceChannelIds: () => [unresolved.source.id, mine.source.id], has: () => true };
+
+    const pending = await loadPendingMediaArchives(scope, NOW, 10);
+    expect(pending.map((item) => item.sourceChannelId)).toEqual([mine.source.id]);
+  });
+});
+
+describe("createMediaArchiveScheduler", () => {
+  it("频道解析失败时整批记一次失败，下一轮轮到其他频道", async () => {
+    const broken = await createChannel();
+    const healthy = await createChannel();
+    // broken 的消息更新，会先被取到
+    await createMappings(healthy, [{ sourceMessageId: 1, hasMedia: true, messageType: "photo" }]);
+    const brokenMappings = await createMappings(broken, [
+      { sourceMessageId: 100, hasMedia: true, messageType: "photo" },
+      { sourceMessageId: 101, hasMedia: true, messageType: "photo" },
+    ]);
+
+    vi.mocked(resolvePeer).mockRejectedValue(Object.assign(new Error("CHANNEL_PRIVATE"), { errorMessage: "CHANNEL_PRIVATE" }));
+    const logSyncEvent = vi.fn(async () => {});
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const scheduler = createMediaArchiveScheduler({
+      client: {} as TelegramClient,
+      batchSize: 2,
+      options: { floodWaitAutoSleepMaxSec: 60 },
+      logSyncEvent,
+    });
+
+    await scheduler.ensure(Date.now());
+    await vi.waitFor(() => expect(logSyncEvent).toHaveBeenCalledTimes(1));
+    warn.mockRestore();
+
+    const rows = await loadMediaRows();
+    expect(rows.map((row) => row.messageMappingId).sort()).toEqual(brokenMappings.map((row) => row.id).sort());
+    expect(rows.every((row) => row.status === "failed" && row.attempts === 1 && row.errorMessage === "CHANNEL_PRIVATE")).toBe(true);
+    expect(logSyncEvent).toHaveBeenCalledWith(expect.objectContaining({ sourceChannelId: broken.source.id, level: "warn" }));
+
+    const next = await loadPendingMediaArchives(ALL_CHANNELS_SCOPE, Date.now(), 2);
+    expect(next.map((item) => item.sourceChannelId)).toEqual([healthy.source.id]);
+  });
+});
@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import type { TelegramClient } from "telegram";
+import { ALL_CHANNELS_SCOPE } from "../src/lib/channel-scope";
+import { createMirrorDeletionScheduler, loadPendingMirrorDeletions } from "../src/lib/mirror-deletion-scheduler";
+import { createChannel, createMappings, resetChannels } from "./fixtures";
+
+vi.mock("@tg-back/db", async (importOriginal) => (await import("@tg-back/db/testing")).withTestDb(importOriginal));
+vi.mock("../src/utils/sleep", () => ({ sleep: vi.fn(async () => {}) }));
+vi.mock("../src/lib/telegram-peer", () => ({ resolvePeer: vi.fn(async (_client: unknown, identifier: string) => ({ entity: identifier })) }));
+
+const NOW = Date.UTC(2024, 5, 1, 12);
+const minutesAgo = (minutes: number) => new Date(NOW - minutes * 60_000);
+
+function createScheduler(client: Partial<TelegramClient>) {
+  const logSyncEvent = vi.fn(async () => {});
+  const scheduler = createMirrorDeletionScheduler({
+    client: client as TelegramClient,
+    checkIntervalMs: 1_000,
+    options: { floodWaitAutoSleepMaxSec: 60 },
+    logSyncEvent,
+  });
+  return { scheduler, logSyncEvent };
+}
+
+async function loadDeletionStatuses() {
+  const rows = await db
+    .select({ sourceMessageId: schema.messageMappings.sourceMessageId, status: schema.messageMappings.mirrorDeletionStatus })
+    .from(schema.messageMappings);
+  return Object.fromEntries(rows.map((row) => [row.sourceMessageId, row.status]));
+}
+
+beforeEach(async () => {
+  await resetChannels();
+});
+
+describe("loadPendingMirrorDeletions", () => {
+  it("只取宽限期已过、尚未处理、按频道设置需要同步的删除，最早删除的在前", async () => {
+    const channel = await createChannel({ deletionSyncMode: "delete", deletionGraceMinutes: 60 });
+    await createMappings(channel, [
+      { sourceMessageId: 1, mirrorMessageId: 101, isDeleted: true, deletedAt: minutesAgo(90) },
+      { sourceMessageId: 2, mirrorMessageId: 102, isDeleted: true, deletedAt: minutesAgo(120) },
+      // 还在宽限期内
+      { sourceMessageId: 3, mirrorMessageId: 103, isDeleted: true, deletedAt: minutesAgo(30) },
+      // 已经处理过
+      { sourceMessageId: 4, mirrorMessageId: 104, isDeleted: true, deletedAt: minutesAgo(90), mirrorDeletionStatus: "deleted" },
+      // 没有镜像过
+      { sourceMessageId: 5, isDeleted: true, deletedAt: minutesAgo(90) },
+      // 源消息还在
+      { sourceMessageId: 6, mirrorMessageId: 106 },
+    ]);
+    const recordOnly = await createChannel({ deletionSyncMode: "record" });
+    await createMappings(recordOnly, [{ sourceMessageId: 1, mirrorMessageId: 201, isDeleted: true, deletedAt: minutesAgo(600) }]);
+
+    const pending = await loadPendingMirrorDeletions(ALL_CHANNELS_SCOPE, NOW, 10);
+    expect(pending.map((item) => item.mirrorMessageId)).toEqual([102, 101]);
+    expect(pending[0]).toMatchObject({ sourceChannelId: channel.source.id, mode: "delete", mirrorChannelIdentifier: channel.mirror.channelIdentifier });
+  });
+
+  it("只取切换删除同步方式之后的删除，退避中的重试要等到时间", async () => {
+    const channel = await createChannel({ deletionSyncMode: "delete", deletionGraceMinutes: 0, deletionSyncSince: minutesAgo(60) });
+    await createMappings(channel, [
+      // 切换前积压的删除
+      { sourceMessageId: 1, mirrorMessageId: 101, isDeleted: true, deletedAt: minutesAgo(90) },
+      { sourceMessageId: 2, mirrorMessageId: 102, isDeleted: true, deletedAt: minutesAgo(30) },
+      { sourceMessageId: 3, mirrorMessageId: 103, isDeleted: true, deletedAt: minutesAgo(20), mirrorDeletionAttempts: 1, mirrorDeletionRetryAt: minutesAgo(1) },
+      { sourceMessageId: 4, mirrorMessageId: 104, isDeleted: true, deletedAt: minutesAgo(10), mirrorDeletionAttempts: 1, mirrorDeletionRetryAt: minutesAgo(-5) },
+    ]);
+
+    const pending = await loadPendingMirrorDeletions(ALL_CHANNELS_SCOPE, NOW, 10);
+    expect(pending.map((item) => [item.mirrorMessageId, item.attempts])).toEqual([
+      [102, 0],
+      [103, 1],
+    ]);
+  });
+
+  it("只取当前账号负责的频道，并遵守 limit", async () => {
+    const mine = await createChannel({ deletionSyncMode: "mark" });
+    const other = await createChannel({ deletionSyncMode: "mark" });
+    for (const channel of [mine, other]) {
+      await createMappings(channel, [
+        { sourceMessageId: 1, mirrorMessageId: 1, isDeleted: true, deletedAt: minutesAgo(200) },
+        { sourceMessageId: 2, mirrorMessageId: 2, isDeleted: true, deletedAt: minutesAgo(100) },
+      ]);
+    }
+    const scope = { getSourceChannelIds: () => [mine.source.id], has: (id: string) => id === mine.source.id };
+
+    const pending = await loadPendingMirrorDeletions(scope, NOW, 1);
+    expect(pending).toHaveLength(1);
+    expect(pending[0]).toMatchObject({ sourceChannelId: mine.source.id, mirrorMessageId: 1 });
+  });
+});
+
+describe("createMirrorDeletionScheduler", () => {
+  it("在后台执行，不阻塞调用方；执行中再次调用直接返回", async () => {
+    const channel = await createChannel({ deletionSyncMode: "delete" });
+    await createMappings(channel, [{ sourceMessageId: 1, mirrorMessageId: 101, isDeleted: true, deletedAt: new Date(Date.now() - 120 * 60_000) }]);
+
+    let release!: () => void;
+    const deleteMessages = vi.fn(() => new Promise<never[]>((resolve) => (release = () => resolve([]))));
+    const { scheduler } = createScheduler({ deleteMessages } as unknown as Partial<TelegramClient>);
+
+    const now = Date.now();
+    await scheduler.ensure(now);
+    await vi.waitFor(() => expect(deleteMessages).toHaveBeenCalledTimes(1));
+
+    await scheduler.ensure(now + 5_000);
+    expect(deleteMessages).toHaveBeenCalledTimes(1);
+
+    release();
+    await vi.waitFor(async () => expect(await loadDeletionStatuses()).toEqual({ 1: "deleted" }));
+  });
+
+  it("FLOOD_WAIT 超过上限时停止本轮，剩下的频道不再处理，并推迟下一轮", async () => {
+    const first = await createChannel({ deletionSyncMode: "delete" });
+    const second = await createChannel({ deletionSyncMode: "delete" });
+    await createMappings(first, [{ sourceMessageId: 1, mirrorMessageId: 101, isDeleted: true, deletedAt: new Date(Date.now() - 300 * 60_000) }]);
+    await createMappings(second, [{ sourceMessageId: 2, mirrorMessageId: 201, isDeleted: true, deletedAt: new Date(Date.now() - 200 * 60_000) }]);
+
+    const deleteMessages = vi.fn(async () => {
+      throw Object.assign(new Error("FLOOD_WAIT_600"), { errorMessage: "FLOOD_WAIT_600" });
+    });
+    const { scheduler, logSyncEvent } = createScheduler({ deleteMessages } as unknown as Partial<TelegramClient>);
+
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const now = Date.now();
+    await scheduler.ensure(now);
+    await vi.waitFor(() => expect(warn).toHaveBeenCalledWith(expect.stringContaining("paused by FLOOD_WAIT_600")));
+
+    expect(deleteMessages).toHaveBeenCalledTimes(1);
+    expect(deleteMessages).toHaveBeenCalledWith(first.mirror.channelIdentifier, [101], { revoke: true });
+    // 没有标记成 failed，等 FLOOD_WAIT 过去后重试
+    expect(await loadDeletionStatuses()).toEqual({ 1: null, 2: null });
+    expect(logSyncEvent).not.toHaveBeenCalled();
+
+    // 检查间隔过了但 FLOOD_WAIT 还没过，不会再发请求
+    await scheduler.ensure(now + 5_000);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(deleteMessages).toHaveBeenCalledTimes(1);
+
+    await scheduler.ensure(now + 610_000);
+    await vi.waitFor(() => expect(deleteMessages).toHaveBeenCalledTimes(2));
+    warn.mockRestore();
+  });
+
+  it("普通错误时这一批保持待处理、退避后重试，继续处理其他频道", async () => {
+    const first = await createChannel({ deletionSyncMode: "delete" });
+    const second = await createChannel({ deletionSyncMode: "delete" });
+    await createMappings(first, [{ sourceMessageId: 1, mirrorMessageId: 101, isDeleted: true, deletedAt: new Date(Date.now() - 300 * 60_000) }]);
+    await createMappings(second, [{ sourceMessageId: 2, mirrorMessageId: 201, isDeleted: true, deletedAt: new Date(Date.now() - 200 * 60_000) }]);
+
+    const deleteMessages = vi.fn(async (peer: string) => {
+      if (peer === first.mirror.channelIdentifier) throw Object.assign(new Error("MESSAGE_DELETE_FORBIDDEN"), { errorMessage: "MESSAGE_DELETE_FORBIDDEN" });
+      return [];
+    });
+    const { scheduler, logSyncEvent } = createScheduler({ deleteMessages } as unknown as Partial<TelegramClient>);
+
+    const now = Date.now();
+    await scheduler.ensure(now);
+    await vi.waitFor(async () => expect(await loadDeletionStatuses()).toEqual({ 1: null, 2: "deleted" }));
+
+    const [failed] = await db
+      .select({ attempts: schema.messageMappings.mirrorDeletionAttempts, retryAt: schema.messageMappings.mirrorDeletionRetryAt })
+      .from(schema.messageMappings)
+      .where(eq(schema.messageMappings.sourceChannelId, first.source.id));
+    expect(failed!.attempts).toBe(1);
+    expect(failed!.retryAt!.getTime()).toBeGreaterThanOrEqual(now + 5 * 60_000);
+    expect(logSyncEvent).toHaveBeenCalledWith(expect.objectContaining({ level: "warn", message: expect.stringContaining("will retry") }));
+    // 退避期内不会再取到
+    expect(await loadPendingMirrorDeletions(ALL_CHANNELS_SCOPE, now + 60_000, 10)).toEqual([]);
+  });
+
+  it("重试次数用完后记为 failed，不再处理", async () => {
+    const channel = await createChannel({ deletionSyncMode: "delete" });
+    await createMappings(channel, [
+      { sourceMessageId: 1, mirrorMessageId: 101, isDeleted: true, deletedAt: new Date(Date.now() - 300 * 60_000), mirrorDeletionAttempts: 4 },
+    ]);
+    const deleteMessages = vi.fn(async () => {
+      throw Object.assign(new Error("MESSAGE_DELETE_FORBIDDEN"), { errorMessage: "MESSAGE_DELETE_FORBIDDEN" });
+    });
+    const { scheduler, logSyncEvent } = createScheduler({ deleteMessages } as unknown as Partial<TelegramClient>);
+
+    await scheduler.ensure(Date.now());
+    await vi.waitFor(async () => expect(await loadDeletionStatuses()).toEqual({ 1: "failed" }));
+    expect(logSyncEvent).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining("1 given up after 5 attempts") }));
+  });
+});
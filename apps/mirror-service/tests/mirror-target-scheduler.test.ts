@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { Api, type TelegramClient } from "telegram";
+import { returnBigInt } from "telegram/Helpers";
+import { createMirrorTargetScheduler, rewindMirrorTargetCursors } from "../src/lib/mirror-target-scheduler";
+import { forwardMessagesAsCopy } from "../src/lib/telegram-forward";
+import { createChannel, createMappings, resetChannels } from "./fixtures";
+
+vi.mock("@tg-back/db", async (importOriginal) => (await import("@tg-back/db/testing")).withTestDb(importOriginal));
+vi.mock("../src/utils/sleep", () => ({ sleep: vi.fn(async () => {}) }));
+vi.mock("../src/lib/telegram-peer", () => ({ resolvePeer: vi.fn(async (_client: unknown, identifier: string) => ({ entity: identifier })) }));
+vi.mock("../src/lib/telegram-spoiler", () => ({ ensureMirrorMessageSpoiler: vi.fn(async () => {}) }));
+vi.mock("../src/lib/telegram-forward", () => ({
+  forwardMessagesAsCopy: vi.fn(async (_client: unknown, { messageIds }: { messageIds: number[] }) => messageIds.map((id) => ({ id: 500 + id }))),
+}));
+
+type Channel = Awaited<ReturnType<typeof createChannel>>;
+
+function createSourceMessage(id: number): Api.Message {
+  return new Api.Message({
+    id,
+    peerId: new Api.PeerChannel({ channelId: returnBigInt(1) }),
+    date: 1_700_000_000 + id,
+    message: `message ${id}`,
+    post: true,
+  });
+}
+
+// 源频道里的消息都还在；getMessages 按 ids 返回
+const client = {
+  getMessages: vi.fn(async (_entity: unknown, { ids }: { ids: number[] }) => ids.map(createSourceMessage)),
+} as unknown as TelegramClient;
+
+async function createTarget(channel: Channel, values: Partial<typeof schema.mirrorChannels.$inferInsert> = {}) {
+  const [target] = await db
+    .insert(schema.mirrorChannels)
+    .values({
+      sourceChannelId: channel.source.id,
+      isPrimary: false,
+      channelIdentifier: `@target-${channel.source.channelIdentifier.slice(1)}`,
+      name: "target",
+      telegramId: 9000n,
+      mirrorMode: "forward",
+      ...values,
+    })
+    .returning();
+  return target!;
+}
+
+async function loadCursor(targetId: string) {
+  const [row] = await db
+    .select({ cursorMessageId: schema.mirrorChannels.cursorMessageId })
+    .from(schema.mirrorChannels)
+    .where(eq(schema.mirrorChannels.id, targetId));
+  return row?.cursorMessageId ?? null;
+}
+
+async function loadTargetStatuses(targetId: string) {
+  const rows = await db
+    .select({ sourceMessageId: schema.messageMappings.sourceMessageId, status: schema.messageTargetMappings.status })
+    .from(schema.messageTargetMappings)
+    .innerJoin(schema.messageMappings, eq(schema.messageMappings.id, schema.messageTargetMappings.messageMappingId))
+    .where(eq(schema.messageTargetMappings.mirrorChannelId, targetId));
+  return Object.fromEntries(rows.map((row) => [row.sourceMessageId, row.status]));
+}
+
+/**
+ * ensure 在后台执行；等到游标落到 expectedCursor 再返回，保证这一轮已经跑完。
+ */
+async function runOnce(scheduler: ReturnType<typeof createMirrorTargetScheduler>, targetId: string, expectedCursor: number) {
+  await scheduler.ensure(Date.now());
+  await vi.waitFor(async () => expect(await loadCursor(targetId)).toBe(expectedCursor));
+  // 保存游标是一轮里的最后一步，再让出一次让 inFlight 复位
+  await new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+function forwardedBatches() {
+  return vi.mocked(forwardMessagesAsCopy).mock.calls.map(([, { messageIds }]) => messageIds);
+}
+
+function createScheduler(batchSize: number) {
+  return createMirrorTargetScheduler({
+    client,
+    checkIntervalMs: 0,
+    batchSize,
+    options: { floodWaitAutoSleepMaxSec: 60 },
+    logSyncEvent: vi.fn(async () => {}),
+  });
+}
+
+beforeEach(async () => {
+  await resetChannels();
+  vi.mocked(forwardMessagesAsCopy).mockClear();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("createMirrorTargetScheduler", () => {
+  it("从游标往后补齐，批次截断时把相册剩下的消息一起带上", async () => {
+    const channel = await createChannel();
+    const target = await createTarget(channel);
+    await createMappings(channel, [
+      { sourceMessageId: 1, status: "success" },
+      { sourceMessageId: 2, status: "success" },
+      { sourceMessageId: 3, status: "success", mediaGroupId: "album" },
+      { sourceMessageId: 4, status: "success", mediaGroupId: "album" },
+      { sourceMessageId: 5, status: "success", mediaGroupId: "album" },
+      { sourceMessageId: 6, status: "success" },
+    ]);
+    const scheduler = createScheduler(3);
+
+    await runOnce(scheduler, target.id, 5);
+    expect(forwardedBatches()).toEqual([[1], [2], [3, 4, 5]]);
+
+    await runOnce(scheduler, target.id, 6);
+    expect(forwardedBatches()).toEqual([[1], [2], [3, 4, 5], [6]]);
+    expect(await loadTargetStatuses(target.id)).toEqual({ 1: "success", 2: "success", 3: "success", 4: "success", 5: "success", 6: "success" });
+  });
+
+  it("游标停在主镜像还在处理的消息之前，处理完后再跟进", async () => {
+    const channel = await createChannel();
+    const target = await createTarget(channel);
+    await createMappings(channel, [
+      { sourceMessageId: 1, status: "success" },
+      { sourceMessageId: 2, status: "pending" },
+      { sourceMessageId: 3, status: "success" },
+    ]);
+    const scheduler = createScheduler(10);
+
+    await runOnce(scheduler, target.id, 1);
+    expect(forwardedBatches()).toEqual([[1], [3]]);
+
+    await db.update(schema.messageMappings).set({ status: "success" }).where(eq(schema.messageMappings.sourceMessageId, 2));
+    await runOnce(scheduler, target.id, 3);
+    expect(forwardedBatches()).toEqual([[1], [3], [2]]);
+  });
+
+  it("history 补进游标之前的消息后拨回游标，已发过的不重复发送", async () => {
+    const channel = await createChannel();
+    const target = await createTarget(channel);
+    const other = await createTarget(channel, { channelIdentifier: "@other", isActive: false, cursorMessageId: 2 });
+    await createMappings(channel, [
+      { sourceMessageId: 10, status: "success" },
+      { sourceMessageId: 20, status: "success" },
+    ]);
+    const scheduler = createScheduler(10);
+    await runOnce(scheduler, target.id, 20);
+    vi.mocked(forwardMessagesAsCopy).mockClear();
+
+    await createMappings(channel, [{ sourceMessageId: 15, status: "success" }]);
+    await rewindMirrorTargetCursors(channel.source.id, 15);
+    expect(await loadCursor(target.id)).toBe(14);
+    // 游标还没到这里的目标不受影响
+    expect(await loadCursor(other.id)).toBe(2);
+
+    await runOnce(scheduler, target.id, 20);
+    expect(forwardedBatches()).toEqual([[15]]);
+  });
+
+  it("失败的消息过了重试间隔后重试，相册整组重发", async () => {
+    const channel = await createChannel();
+    const target = await createTarget(channel, { cursorMessageId: 3 });
+    const mappings = await createMappings(channel, [
+      { sourceMessageId: 1, status: "success", mediaGroupId: "album" },
+      { sourceMessageId: 2, status: "success", mediaGroupId: "album" },
+      { sourceMessageId: 3, status: "success" },
+    ]);
+    await db.insert(schema.messageTargetMappings).values(
+      mappings.map((mapping) => ({
+        messageMappingId: mapping.id,
+        mirrorChannelId: target.id,
+        status: mapping.sourceMessageId === 3 ? ("success" as const) : ("failed" as const),
+        retryCount: 1,
+        mirroredAt: new Date(Date.now() - 24 * 3600_000),
+      })),
+    );
+    const scheduler = createScheduler(1);
+
+    await scheduler.ensure(Date.now());
+    await vi.waitFor(async () => expect(await loadTargetStatuses(target.id)).toEqual({ 1: "success", 2: "success", 3: "success" }));
+    expect(forwardedBatches()).toEqual([[1, 2]]);
+  });
+});
@@ -0,0 +1,171 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { Api, type TelegramClient } from "telegram";
+import { returnBigInt } from "telegram/Helpers";
+import { processHistoryPartialTask } from "../src/lib/task-history-full";
+import { createChannel, createMappings, resetChannels } from "./fixtures";
+
+vi.mock("@tg-back/db", async (importOriginal) => (await import("@tg-back/db/testing")).withTestDb(importOriginal));
+vi.mock("../src/utils/sleep", () => ({ sleep: vi.fn(async () => {}) }));
+vi.mock("../src/lib/tasks-notify", () => ({ notifyTasksChanged: vi.fn(async () => {}) }));
+vi.mock("../src/lib/telegram-peer", () => ({ resolvePeer: vi.fn(async (_client: unknown, identifier: string) => ({ entity: identifier })) }));
+
+const OPTIONS = { floodWaitAutoSleepMaxSec: 60 };
+// 源频道里的消息：id 1..10，每条间隔一小时
+const BASE_DATE = Date.UTC(2024, 0, 1) / 1000;
+const SOURCE_IDS = Array.from({ length: 10 }, (_, i) => i + 1);
+const dateOf = (id: number) => BASE_DATE + id * 3600;
+
+function createSourceMessage(id: number): Api.Message {
+  return new Api.Message({
+    id,
+    peerId: new Api.PeerChannel({ channelId: returnBigInt(1) }),
+    date: dateOf(id),
+    message: `message ${id}`,
+    post: true,
+  });
+}
+
+/**
+ * 只实现 history 任务用到的几个方法：iterMessages 按 minId 正序遍历，getMessages 支持 minId / offsetDate，sendMessage 记下镜像内容。
+ */
+function createFakeClient() {
+  const messages = SOURCE_IDS.map(createSourceMessage);
+  const sent: string[] = [];
+  const client = {
+    async *iterMessages(_entity: unknown, { minId = 0 }: { minId?: number }) {
+      for (const msg of messages) {
+        if (msg.id > minId) yield msg;
+      }
+    },
+    async getMessages(_entity: unknown, { minId, offsetDate }: { limit?: number; minId?: number; offsetDate?: number }) {
+      if (offsetDate != null) return messages.filter((msg) => msg.date < offsetDate).slice(-1);
+      if (minId != null) return messages.filter((msg) => msg.id > minId).slice(-1);
+      return messages.slice(-1);
+    },
+    sendMessage: vi.fn(async (_entity: unknown, { message }: { message: string }) => {
+      sent.push(message);
+      return { id: 1000 + sent.length };
+    }),
+  };
+  return { client: client as unknown as TelegramClient, sent };
+}
+
+async function createPartialTask(sourceChannelId: string, values: Partial<typeof schema.syncTasks.$inferInsert>) {
+  const [task] = await db
+    .insert(schema.syncTasks)
+    .values({ sourceChannelId, taskType: "history_partial", status: "running", ...values })
+    .returning();
+  return task!;
+}
+
+async function loadMappings(sourceChannelId: string) {
+  return await db
+    .select({ sourceMessageId: schema.messageMappings.sourceMessageId, status: schema.messageMappings.status, mirrorMessageId: schema.messageMappings.mirrorMessageId })
+    .from(schema.messageMappings)
+    .where(eq(schema.messageMappings.sourceChannelId, sourceChannelId))
+    .orderBy(schema.messageMappings.sourceMessageId);
+}
+
+async function loadTask(taskId: string) {
+  const [task] = await db.select().from(schema.syncTasks).where(eq(schema.syncTasks.id, taskId));
+  return task!;
+}
+
+beforeAll(() => {
+  vi.stubEnv("MIRROR_SYNC_COMMENTS", "false");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+beforeEach(async () => {
+  await resetChannels();
+});
+
+describe("processHistoryPartialTask", () => {
+  it("按消息 ID 区间回填，完成后不改动源频道的同步状态和 lastMessageId", async () => {
+    const channel = await createChannel({ mirrorMode: "copy", syncStatus: "completed", lastMessageId: 10 });
+    const task = await createPartialTask(channel.source.id, { rangeStartId: 3, rangeEndId: 5 });
+    const { client, sent } = createFakeClient();
+
+    await processHistoryPartialTask(client, task.id, channel.source.id, OPTIONS);
+
+    expect(sent).toEqual(["message 3", "message 4", "message 5"]);
+    expect((await loadMappings(channel.source.id)).map((row) => [row.sourceMessageId, row.status])).toEqual([
+      [3, "success"],
+      [4, "success"],
+      [5, "success"],
+    ]);
+    expect(await loadTask(task.id)).toMatchObject({ status: "completed", progressCurrent: 3, progressTotal: 3, lastProcessedId: 5 });
+
+    const [source] = await db.select().from(schema.sourceChannels).where(eq(schema.sourceChannels.id, channel.source.id));
+    expect(source).toMatchObject({ syncStatus: "completed", lastMessageId: 10 });
+  });
+
+  it("按时间窗口回填：先按日期定位起点，窗口之后的消息不处理", async () => {
+    const channel = await createChannel({ mirrorMode: "copy" });
+    const task = await createPartialTask(channel.source.id, {
+      rangeStartAt: new Date(dateOf(6) * 1000),
+      rangeEndAt: new Date(dateOf(8) * 1000),
+    });
+    const { client, sent } = createFakeClient();
+
+    await processHistoryPartialTask(client, task.id, channel.source.id, OPTIONS);
+
+    expect(sent).toEqual(["message 6", "message 7", "message 8"]);
+    expect(await loadTask(task.id)).toMatchObject({ status: "completed", lastProcessedId: 8 });
+  });
+
+  it("从 lastProcessedId 断点续传", async () => {
+    const channel = await createChannel({ mirrorMode: "copy" });
+    const task = await createPartialTask(channel.source.id, { rangeStartId: 2, rangeEndId: 6, lastProcessedId: 4, progressCurrent: 3 });
+    const { client, sent } = createFakeClient();
+
+    await processHistoryPartialTask(client, task.id, channel.source.id, OPTIONS);
+
+    expect(sent).toEqual(["message 5", "message 6"]);
+    expect(await loadTask(task.id)).toMatchObject({ status: "completed", progressCurrent: 5, lastProcessedId: 6 });
+  });
+
+  it("已镜像的消息默认跳过，remirror 时重新发送", async () => {
+    const channel = await createChannel({ mirrorMode: "copy" });
+    await createMappings(channel, [
+      { sourceMessageId: 3, status: "success", mirrorMessageId: 503 },
+      { sourceMessageId: 4, status: "skipped", skipReason: "filtered" },
+    ]);
+
+    const skipTask = await createPartialTask(channel.source.id, { rangeStartId: 3, rangeEndId: 5 });
+    const first = createFakeClient();
+    await processHistoryPartialTask(first.client, skipTask.id, channel.source.id, OPTIONS);
+    expect(first.sent).toEqual(["message 5"]);
+
+    await db
+      .update(schema.syncTasks)
+      .set({ status: "running", rangeRemirror: true, lastProcessedId: null, progressCurrent: 0, progressTotal: null })
+      .where(eq(schema.syncTasks.id, skipTask.id));
+    const second = createFakeClient();
+    await processHistoryPartialTask(second.client, skipTask.id, channel.source.id, OPTIONS);
+
+    expect(second.sent).toEqual(["message 3", "message 4", "message 5"]);
+    expect((await loadMappings(channel.source.id)).map((row) => [row.sourceMessageId, row.status, row.mirrorMessageId])).toEqual([
+      [3, "success", 1001],
+      [4, "success", 1002],
+      [5, "success", 1003],
+    ]);
+  });
+
+  it("没有任何范围时直接报错", async () => {
+    const channel = await createChannel({ mirrorMode: "copy" });
+    const task = await createPartialTask(channel.source.id, {});
+    const { client } = createFakeClient();
+
+    await expect(processHistoryPartialTask(client, task.id, channel.source.id, OPTIONS)).rejects.toThrow(
+      "history_partial requires a message id range or date window",
+    );
+  });
+});
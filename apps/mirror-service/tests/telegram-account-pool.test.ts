@@ -0,0 +1,177 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import type { TelegramClient } from "telegram";
+import { createTelegramAccountPool, type TelegramAccountRuntime } from "../src/lib/telegram-account-pool";
+import { connectTelegramClient, TelegramSessionInvalidError } from "../src/lib/telegram-client";
+import { createChannel, resetChannels } from "./fixtures";
+
+vi.mock("@tg-back/db", async (importOriginal) => (await import("@tg-back/db/testing")).withTestDb(importOriginal));
+// session 明文存储即可，"broken" 开头的模拟解密失败
+vi.mock("@tg-back/crypto", () => ({
+  decrypt: (value: string) => {
+    if (value.startsWith("broken")) throw new Error("Unsupported state or unable to authenticate data");
+    return value;
+  },
+}));
+vi.mock("../src/lib/telegram-client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/lib/telegram-client")>()),
+  connectTelegramClient: vi.fn(),
+}));
+
+const OPTIONS = { floodWaitAutoSleepMaxSec: 60, mirrorStartRetryIntervalSec: 30, mirrorStartRetryIntervalMs: 30_000 };
+
+async function createAccount(name: string, values: Partial<typeof schema.telegramAccounts.$inferInsert> = {}) {
+  const [account] = await db
+    .insert(schema.telegramAccounts)
+    .values({ name, session: `session-${name}`, ...values })
+    .returning();
+  return account!;
+}
+
+async function loadAccount(id: string) {
+  const [row] = await db.select().from(schema.telegramAccounts).where(eq(schema.telegramAccounts.id, id));
+  return row!;
+}
+
+async function loadActiveAccountId(sourceChannelId: string) {
+  const [row] = await db
+    .select({ activeAccountId: schema.sourceChannels.activeAccountId, accessHash: schema.sourceChannels.accessHash })
+    .from(schema.sourceChannels)
+    .where(eq(schema.sourceChannels.id, sourceChannelId));
+  return row!;
+}
+
+function createPool() {
+  const onConnected = vi.fn((_account: TelegramAccountRuntime) => {});
+  const onDisconnecting = vi.fn(async (_account: TelegramAccountRuntime) => {});
+  const logSyncEvent = vi.fn(async () => {});
+  const pool = createTelegramAccountPool({ checkIntervalMs: 1_000, options: OPTIONS, logSyncEvent, onConnected, onDisconnecting });
+  const scopeOf = (accountId: string) =>
+    pool
+      .getAccounts()
+      .find((account) => account.id === accountId)
+      ?.scope.getSourceChannelIds()
+      .sort() ?? null;
+  return { pool, onConnected, onDisconnecting, logSyncEvent, scopeOf };
+}
+
+beforeEach(async () => {
+  await resetChannels();
+  await db.delete(schema.telegramAccounts);
+  vi.mocked(connectTelegramClient).mockReset();
+  vi.mocked(connectTelegramClient).mockImplementation(async (session: string) => ({
+    client: { session, disconnect: vi.fn(async () => {}) } as unknown as TelegramClient,
+    identity: { telegramUserId: 1n, username: session, displayName: null },
+  }));
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("createTelegramAccountPool", () => {
+  it("只连接启用且已登录的账号，并回写账号信息", async () => {
+    const active = await createAccount("a");
+    await createAccount("disabled", { isActive: false });
+    await createAccount("logged-out", { session: "" });
+    const { pool, onConnected } = createPool();
+
+    await pool.ensure(Date.now());
+
+    expect(pool.getAccounts().map((account) => account.name)).toEqual(["a"]);
+    expect(connectTelegramClient).toHaveBeenCalledTimes(1);
+    expect(onConnected).toHaveBeenCalledWith(expect.objectContaining({ id: active.id }));
+    expect(await loadAccount(active.id)).toMatchObject({ username: "session-a", lastError: null });
+    expect((await loadAccount(active.id)).lastConnectedAt).toBeInstanceOf(Date);
+  });
+
+  it("指定账号的频道只给该账号，其余频道保持上次的账号或分给频道最少的账号", async () => {
+    const a = await createAccount("a");
+    const b = await createAccount("b");
+    const offline = await createAccount("offline", { isActive: false });
+    const pinned = await createChannel({ telegramAccountId: b.id });
+    const pinnedOffline = await createChannel({ telegramAccountId: offline.id });
+    const sticky = await createChannel({ activeAccountId: b.id });
+    const auto = await createChannel();
+    const { pool, scopeOf } = createPool();
+
+    await pool.ensure(Date.now());
+
+    // b 已经有两个频道，新频道分给 a
+    expect(scopeOf(a.id)).toEqual([auto.source.id]);
+    expect(scopeOf(b.id)).toEqual([pinned.source.id, sticky.source.id].sort());
+    expect((await loadActiveAccountId(auto.source.id)).activeAccountId).toBe(a.id);
+    // 指定的账号不在线时暂停，不分给别的账号
+    expect((await loadActiveAccountId(pinnedOffline.source.id)).activeAccountId).toBeNull();
+  });
+
+  it("账号停用后断开连接，频道转给其他账号并清掉按账号的 access_hash", async () => {
+    const a = await createAccount("a");
+    const b = await createAccount("b");
+    const channel = await createChannel({ activeAccountId: a.id, accessHash: 42n });
+    const { pool, onDisconnecting, logSyncEvent, scopeOf } = createPool();
+
+    const now = Date.now();
+    await pool.ensure(now);
+    expect(scopeOf(a.id)).toEqual([channel.source.id]);
+
+    await db.update(schema.telegramAccounts).set({ isActive: false }).where(eq(schema.telegramAccounts.id, a.id));
+    await pool.ensure(now + 1_000);
+
+    expect(onDisconnecting).toHaveBeenCalledWith(expect.objectContaining({ id: a.id }));
+    expect(pool.getAccounts().map((account) => account.id)).toEqual([b.id]);
+    expect(scopeOf(b.id)).toEqual([channel.source.id]);
+    expect(await loadActiveAccountId(channel.source.id)).toEqual({ activeAccountId: b.id, accessHash: null });
+    expect(logSyncEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ sourceChannelId: channel.source.id, message: "channel reassigned to telegram account b" }),
+    );
+  });
+
+  it("重新登录（session 变化）后断开并用新 session 重连", async () => {
+    const a = await createAccount("a");
+    const { pool, onConnected, onDisconnecting } = createPool();
+
+    const now = Date.now();
+    await pool.ensure(now);
+    await db.update(schema.telegramAccounts).set({ session: "session-new" }).where(eq(schema.telegramAccounts.id, a.id));
+    await pool.ensure(now + 1_000);
+
+    expect(onDisconnecting).toHaveBeenCalledTimes(1);
+    expect(onConnected).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(connectTelegramClient).mock.calls.map(([session]) => session)).toEqual(["session-a", "session-new"]);
+  });
+
+  it("session 失效的账号等重新登录后才重试，普通连接失败按间隔重试", async () => {
+    const invalid = await createAccount("invalid");
+    const flaky = await createAccount("flaky");
+    const broken = await createAccount("broken", { session: "broken-session" });
+    vi.mocked(connectTelegramClient).mockImplementation(async (session: string) => {
+      if (session === "session-invalid") throw new TelegramSessionInvalidError("AUTH_KEY_UNREGISTERED");
+      throw new Error("connection timed out");
+    });
+    const { pool, logSyncEvent } = createPool();
+
+    const now = Date.now();
+    await pool.ensure(now);
+    expect(connectTelegramClient).toHaveBeenCalledTimes(2);
+    expect((await loadAccount(invalid.id)).lastError).toBe("AUTH_KEY_UNREGISTERED");
+    expect((await loadAccount(flaky.id)).lastError).toBe("connection timed out");
+    expect((await loadAccount(broken.id)).lastError).toMatch(/^session 解密失败/);
+    expect(logSyncEvent).toHaveBeenCalledWith(expect.objectContaining({ level: "error", message: "telegram account invalid: AUTH_KEY_UNREGISTERED" }));
+
+    // 还没到重试时间
+    await pool.ensure(now + 1_000);
+    expect(connectTelegramClient).toHaveBeenCalledTimes(2);
+
+    // 到了重试时间只重试普通失败的账号
+    await pool.ensure(now + OPTIONS.mirrorStartRetryIntervalMs);
+    expect(vi.mocked(connectTelegramClient).mock.calls.map(([session]) => session)).toEqual([
+      "session-invalid",
+      "session-flaky",
+      "session-flaky",
+    ]);
+
+    await db.update(schema.telegramAccounts).set({ session: "session-invalid-2" }).where(eq(schema.telegramAccounts.id, invalid.id));
+    await pool.ensure(now + OPTIONS.mirrorStartRetryIntervalMs + 1_000);
+    expect(vi.mocked(connectTelegramClient).mock.calls.at(-1)?.[0]).toBe("session-invalid-2");
+  });
+});
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { asc, eq } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { Api, type TelegramClient } from "telegram";
+import { returnBigInt } from "telegram/Helpers";
+import { syncCommentsForPost } from "../src/lib/telegram-comments";
+import { createChannel, createMappings, resetChannels } from "./fixtures";
+
+vi.mock("@tg-back/db", async (importOriginal) => (await import("@tg-back/db/testing")).withTestDb(importOriginal));
+vi.mock("../src/utils/sleep", () => ({ sleep: vi.fn(async () => {}) }));
+vi.mock("../src/lib/telegram-original-link", () => ({ ensureOriginalLinkComment: vi.fn(async () => {}) }));
+
+const OPTIONS = { floodWaitAutoSleepMaxSec: 60 };
+const POST_ID = 100;
+const MIRROR_POST_ID = 900;
+
+function createComment(id: number, text: string, values: Partial<ConstructorParameters<typeof Api.Message>[0]> = {}): Api.Message {
+  return new Api.Message({
+    id,
+    peerId: new Api.PeerChannel({ channelId: returnBigInt(2) }),
+    date: 1_700_000_000 + id,
+    message: text,
+    replyTo: new Api.MessageReplyHeader({ replyToMsgId: POST_ID }),
+    ...values,
+  });
+}
+
+/**
+ * iterMessages 返回讨论组里这条帖子下的评论；sendMessage 按 failOn 模拟发送失败，成功时返回镜像评论。
+ */
+function createFakeClient(comments: Api.Message[], failOn: Set<number> = new Set()) {
+  let nextMirrorId = 2000;
+  const sendMessage = vi.fn(async (_entity: unknown, { message }: { message: string }) => {
+    const source = comments.find((c) => c.message === message);
+    if (source && failOn.has(source.id)) throw Object.assign(new Error("CHAT_SEND_PLAIN_FORBIDDEN"), { errorMessage: "CHAT_SEND_PLAIN_FORBIDDEN" });
+    nextMirrorId += 1;
+    return new Api.Message({ id: nextMirrorId, peerId: new Api.PeerChannel({ channelId: returnBigInt(3) }), date: 0, message });
+  });
+  const client = {
+    async *iterMessages() {
+      for (const comment of comments) yield comment;
+    },
+    sendMessage,
+  };
+  return { client: client as unknown as TelegramClient, sendMessage };
+}
+
+async function loadComments(sourceChannelId: string) {
+  return await db
+    .select({
+      sourceCommentId: schema.messageComments.sourceCommentId,
+      replyToCommentId: schema.messageComments.replyToCommentId,
+      authorName: schema.messageComments.authorName,
+      text: schema.messageComments.text,
+      status: schema.messageComments.status,
+      mirrorMessageId: schema.messageComments.mirrorMessageId,
+      errorMessage: schema.messageComments.errorMessage,
+    })
+    .from(schema.messageComments)
+    .where(eq(schema.messageComments.sourceChannelId, sourceChannelId))
+    .orderBy(asc(schema.messageComments.sourceCommentId));
+}
+
+async function sync(client: TelegramClient, channel: Awaited<ReturnType<typeof createChannel>>, maxComments = 100) {
+  await syncCommentsForPost(
+    client,
+    {
+      sourceEntity: "source",
+      mirrorEntity: "mirror",
+      mirrorChannelId: channel.mirror.id,
+      sourceChannelId: channel.source.id,
+      sourceChannel: { username: "source" },
+      sourcePostId: POST_ID,
+      mirrorPostId: MIRROR_POST_ID,
+      maxComments,
+    },
+    OPTIONS,
+  );
+}
+
+beforeEach(async () => {
+  await resetChannels();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("syncCommentsForPost", () => {
+  it("镜像评论并记到 message_comments，重跑时跳过已成功的评论", async () => {
+    const channel = await createChannel();
+    await createMappings(channel, [{ sourceMessageId: POST_ID, status: "success", mirrorMessageId: MIRROR_POST_ID }]);
+    const comments = [
+      createComment(11, "first", { postAuthor: "Alice" }),
+      // 回复另一条评论时才有 replyToTopId
+      createComment(12, "reply", { replyTo: new Api.MessageReplyHeader({ replyToMsgId: 11, replyToTopId: POST_ID }) }),
+    ];
+
+    const first = createFakeClient(comments);
+    await sync(first.client, channel);
+
+    expect(first.sendMessage).toHaveBeenCalledWith("mirror", expect.objectContaining({ message: "first", commentTo: MIRROR_POST_ID }));
+    expect(await loadComments(channel.source.id)).toEqual([
+      { sourceCommentId: 11, replyToCommentId: null, authorName: "Alice", text: "first", status: "success", mirrorMessageId: 2001, errorMessage: null },
+      { sourceCommentId: 12, replyToCommentId: 11, authorName: null, text: "reply", status: "success", mirrorMessageId: 2002, errorMessage: null },
+    ]);
+
+    const second = createFakeClient([...comments, createComment(13, "new")]);
+    await sync(second.client, channel);
+
+    expect(second.sendMessage).toHaveBeenCalledTimes(1);
+    expect(second.sendMessage).toHaveBeenCalledWith("mirror", expect.objectContaining({ message: "new" }));
+    expect((await loadComments(channel.source.id)).map((row) => row.sourceCommentId)).toEqual([11, 12, 13]);
+  });
+
+  it("发送失败记为 failed，下次重跑时重新发送并覆盖状态", async () => {
+    const channel = await createChannel();
+    await createMappings(channel, [{ sourceMessageId: POST_ID, status: "success", mirrorMessageId: MIRROR_POST_ID }]);
+    const comments = [createComment(11, "ok"), createComment(12, "blocked")];
+
+    await sync(createFakeClient(comments, new Set([12])).client, channel);
+    expect((await loadComments(channel.source.id)).map((row) => [row.sourceCommentId, row.status, row.errorMessage])).toEqual([
+      [11, "success", null],
+      [12, "failed", "CHAT_SEND_PLAIN_FORBIDDEN"],
+    ]);
+
+    const retry = createFakeClient(comments);
+    await sync(retry.client, channel);
+    expect(retry.sendMessage).toHaveBeenCalledTimes(1);
+    expect((await loadComments(channel.source.id)).map((row) => [row.sourceCommentId, row.status, row.errorMessage])).toEqual([
+      [11, "success", null],
+      [12, "success", null],
+    ]);
+  });
+
+  it("已跳过的评论也计入 maxComments，转发自频道的帖子副本不算评论", async () => {
+    const channel = await createChannel();
+    await createMappings(channel, [{ sourceMessageId: POST_ID, status: "success", mirrorMessageId: MIRROR_POST_ID }]);
+    const comments = [
+      createComment(10, "post copy", { fwdFrom: new Api.MessageFwdHeader({ date: 0, channelPost: POST_ID }) }),
+      createComment(11, "a"),
+      createComment(12, "b"),
+      createComment(13, "c"),
+    ];
+
+    const { client, sendMessage } = createFakeClient(comments);
+    await sync(client, channel, 2);
+
+    expect(sendMessage.mock.calls.map(([, { message }]) => message)).toEqual(["a", "b"]);
+  });
+
+  it("帖子没有映射时照常镜像评论，只是不记录", async () => {
+    const channel = await createChannel();
+    const { client, sendMessage } = createFakeClient([createComment(11, "orphan")]);
+
+    await sync(client, channel);
+
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(await loadComments(channel.source.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, expect, it, vi } from "vitest";
+import { Api, type TelegramClient } from "telegram";
+import { returnBigInt } from "telegram/Helpers";
+import { propagateMessageEdit } from "../src/lib/telegram-edit-propagation";
+
+vi.mock("../src/utils/sleep", () => ({ sleep: vi.fn(async () => {}) }));
+
+const OPTIONS = { floodWaitAutoSleepMaxSec: 60 };
+
+function createClient(overrides: Partial<Record<"invoke" | "sendMessage" | "getMessages", (...args: any[]) => unknown>> = {}) {
+  const client = {
+    getInputEntity: vi.fn(async (peer: unknown) => peer),
+    getMessages: vi.fn(overrides.getMessages ?? (async () => [])),
+    invoke: vi.fn(overrides.invoke ?? (async () => ({}))),
+    sendMessage: vi.fn(overrides.sendMessage ?? (async () => ({}))),
+  };
+  return client as typeof client & TelegramClient;
+}
+
+function createMessage(text: string, media?: Api.TypeMessageMedia): Api.Message {
+  return new Api.Message({
+    id: 10,
+    peerId: new Api.PeerChannel({ channelId: returnBigInt(1) }),
+    date: 1_700_000_000,
+    message: text,
+    media,
+  });
+}
+
+function createPhoto(id: number): Api.MessageMediaPhoto {
+  return new Api.MessageMediaPhoto({
+    photo: new Api.Photo({
+      id: returnBigInt(id),
+      accessHash: returnBigInt(1),
+      fileReference: Buffer.alloc(0),
+      date: 0,
+      sizes: [],
+      dcId: 1,
+    }),
+  });
+}
+
+function telegramError(errorMessage: string): Error {
+  return Object.assign(new Error(errorMessage), { errorMessage });
+}
+
+describe("propagateMessageEdit", () => {
+  it("record 模式不碰镜像频道", async () => {
+    const client = createClient();
+    const result = await propagateMessageEdit(
+      client,
+      { editSyncMode: "record", mirrorMode: "forward", mirrorPeer: "mirror", mirrorMessageId: 5, sourceMessage: createMessage("new") },
+      OPTIONS,
+    );
+    expect(result).toEqual({ status: "recorded", error: null });
+    expect(client.invoke).not.toHaveBeenCalled();
+    expect(client.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it("还没镜像的消息跳过", async () => {
+    const client = createClient();
+    const result = await propagateMessageEdit(
+      client,
+      { editSyncMode: "edit", mirrorMode: "forward", mirrorPeer: "mirror", mirrorMessageId: null, sourceMessage: createMessage("new") },
+      OPTIONS,
+    );
+    expect(result).toEqual({ status: "skipped", error: "message not mirrored" });
+  });
+
+  it("edit 模式原地编辑文本", async () => {
+    const client = createClient();
+    const result = await propagateMessageEdit(
+      client,
+      { editSyncMode: "edit", mirrorMode: "forward", mirrorPeer: "mirror", mirrorMessageId: 5, sourceMessage: createMessage("new text") },
+      OPTIONS,
+    );
+    expect(result).toEqual({ status: "edited", error: null });
+    const request = client.invoke.mock.calls[0]![0] as Api.messages.EditMessage;
+    expect(request).toBeInstanceOf(Api.messages.EditMessage);
+    expect(request.id).toBe(5);
+    expect(request.message).toBe("new text");
+    expect(request.media).toBeUndefined();
+  });
+
+  it("MESSAGE_NOT_MODIFIED 视为已同步", async () => {
+    const client = createClient({
+      invoke: async () => {
+        throw telegramError("MESSAGE_NOT_MODIFIED");
+      },
+    });
+    const result = await propagateMessageEdit(
+      client,
+      { editSyncMode: "edit", mirrorMode: "forward", mirrorPeer: "mirror", mirrorMessageId: 5, sourceMessage: createMessage("same") },
+      OPTIONS,
+    );
+    expect(result).toEqual({ status: "edited", error: null });
+  });
+
+  it("编辑失败返回 failed 和错误信息", async () => {
+    const client = createClient({
+      invoke: async () => {
+        throw telegramError("CHAT_WRITE_FORBIDDEN");
+      },
+    });
+    const result = await propagateMessageEdit(
+      client,
+      { editSyncMode: "edit", mirrorMode: "forward", mirrorPeer: "mirror", mirrorMessageId: 5, sourceMessage: createMessage("new") },
+      OPTIONS,
+    );
+    expect(result).toEqual({ status: "failed", error: "CHAT_WRITE_FORBIDDEN" });
+  });
+
+  it("FLOOD_WAIT 在上限内等待后重试", async () => {
+    let calls = 0;
+    const client = createClient({
+      invoke: async () => {
+        calls += 1;
+        if (calls === 1) throw telegramError("FLOOD_WAIT_3");
+        return {};
+      },
+    });
+    const result = await propagateMessageEdit(
+      client,
+      { editSyncMode: "edit", mirrorMode: "forward", mirrorPeer: "mirror", mirrorMessageId: 5, sourceMessage: createMessage("new") },
+      OPTIONS,
+    );
+    expect(result.status).toBe("edited");
+    expect(client.invoke).toHaveBeenCalledTimes(2);
+  });
+
+  it("只换了媒体时：媒体相同则跳过，不同则一并替换", async () => {
+    const sourceMessage = createMessage("caption", createPhoto(2));
+
+    const same = createClient({ getMessages: async () => [createMessage("caption", createPhoto(2))] });
+    const skipped = await propagateMessageEdit(
+      same,
+      { editSyncMode: "edit", mirrorMode: "forward", mirrorPeer: "mirror", mirrorMessageId: 5, sourceMessage, mediaOnly: true },
+      OPTIONS,
+    );
+    expect(skipped).toEqual({ status: "skipped", error: null });
+    expect(same.invoke).not.toHaveBeenCalled();
+
+    const swapped = createClient({ getMessages: async () => [createMessage("caption", createPhoto(1))] });
+    const edited = await propagateMessageEdit(
+      swapped,
+      { editSyncMode: "edit", mirrorMode: "forward", mirrorPeer: "mirror", mirrorMessageId: 5, sourceMessage, mediaOnly: true },
+      OPTIONS,
+    );
+    expect(edited).toEqual({ status: "edited", error: null });
+    const request = swapped.invoke.mock.calls[0]![0] as Api.messages.EditMessage;
+    expect(request.media).toBeInstanceOf(Api.InputMediaPhoto);
+  });
+
+  it("copy 镜像用转换后的文本，且不能清空文本", async () => {
+    const client = createClient();
+    const copyContent = { text: "transformed", entities: undefined };
+    const result = await propagateMessageEdit(
+      client,
+      { editSyncMode: "edit", mirrorMode: "copy", mirrorPeer: "mirror", mirrorMessageId: 5, sourceMessage: createMessage("raw"), copyContent },
+      OPTIONS,
+    );
+    expect(result.status).toBe("edited");
+    expect((client.invoke.mock.calls[0]![0] as Api.messages.EditMessage).message).toBe("transformed");
+
+    const empty = await propagateMessageEdit(
+      client,
+      { editSyncMode: "edit", mirrorMode: "copy", mirrorPeer: "mirror", mirrorMessageId: 5, sourceMessage: createMessage("  ") },
+      OPTIONS,
+    );
+    expect(empty).toEqual({ status: "skipped", error: "empty text in copy mode" });
+  });
+
+  it("comment 模式在评论区追加说明，仅媒体变化时跳过", async () => {
+    const client = createClient();
+    const result = await propagateMessageEdit(
+      client,
+      { editSyncMode: "comment", mirrorMode: "forward", mirrorPeer: "mirror", mirrorMessageId: 5, sourceMessage: createMessage("new") },
+      OPTIONS,
+    );
+    expect(result).toEqual({ status: "commented", error: null });
+    expect(client.sendMessage).toHaveBeenCalledWith("mirror", expect.objectContaining({ commentTo: 5, message: "✏️ 原消息已编辑：\n\nnew" }));
+
+    const mediaOnly = await propagateMessageEdit(
+      client,
+      { editSyncMode: "comment", mirrorMode: "forward", mirrorPeer: "mirror", mirrorMessageId: 5, sourceMessage: createMessage("new"), mediaOnly: true },
+      OPTIONS,
+    );
+    expect(mediaOnly).toEqual({ status: "skipped", error: null });
+  });
+
+  it("comment 模式讨论组还没就绪时重试，仍失败则返回 failed", async () => {
+    const client = createClient({
+      sendMessage: async () => {
+        throw telegramError("MSG_ID_INVALID");
+      },
+    });
+    const result = await propagateMessageEdit(
+      client,
+      { editSyncMode: "comment", mirrorMode: "forward", mirrorPeer: "mirror", mirrorMessageId: 5, sourceMessage: createMessage("new") },
+      OPTIONS,
+    );
+    expect(result).toEqual({ status: "failed", error: "MSG_ID_INVALID" });
+    expect(client.sendMessage).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { desc } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { buildAuditLogWhere, toPublicAuditLog } from "@/lib/audit";
+import { getTrimmedString, parseIntSafe } from "@/lib/utils";
+
+loadEnv();
+
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const params = request.nextUrl.searchParams;
+    const limitRaw = getTrimmedString(params.get("limit"));
+    const offsetRaw = getTrimmedString(params.get("offset"));
+    const limit = Math.min(Math.max((limitRaw ? parseIntSafe(limitRaw) : null) ?? 50, 1), 200);
+    const offset = Math.max((offsetRaw ? parseIntSafe(offsetRaw) : null) ?? 0, 0);
+
+    const rows = await db
+      .select()
+      .from(schema.auditLogs)
+      .where(buildAuditLogWhere(params))
+      .orderBy(desc(schema.auditLogs.createdAt), desc(schema.auditLogs.id))
+      .limit(limit + 1)
+      .offset(offset);
+
+    const response = NextResponse.json({
+      logs: rows.slice(0, limit).map(toPublicAuditLog),
+      hasMore: rows.length > limit,
+    });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "加载审计日志失败");
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
   createAccessToken,
+  createUserAccessToken,
   getAccessPassword,
+  hasWebUsers,
   isAccessPasswordEnabled,
   setAccessCookie,
   verifyAndMaybeUpgradeAccessPassword,
@@ -9,12 +11,45 @@ import {
 import { toPublicErrorMessage } from "@/lib/api-error";
 import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
 import { getTrimmedString } from "@/lib/utils";
+import { authenticateWebUser } from "@/lib/web-users";
+
+function checkLoginRateLimit(request: NextRequest): NextResponse | null {
+  const ip = getClientIp(request);
+  const loginLimiter = checkRateLimit(`auth:login:${ip}`, { windowMs: 5 * 60 * 1000, max: 10 });
+  if (loginLimiter.allowed) return null;
+  const res = NextResponse.json({ error: "Too many login attempts, please try again later" }, { status: 429 });
+  res.headers.set("Retry-After", String(loginLimiter.retryAfterSec));
+  return res;
+}
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json().catch(() => ({}));
     const password = getTrimmedString(body.password);
 
+    if (await hasWebUsers()) {
+      const limited = checkLoginRateLimit(request);
+      if (limited) return limited;
+
+      if (!getTrimmedString(body.username) || !password) {
+        return NextResponse.json({ error: "username and password are required" }, { status: 400 });
+      }
+
+      const user = await authenticateWebUser(body.username, password);
+      if (!user) {
+        return NextResponse.json({ error: "Invalid username or password" }, { status: 401 });
+      }
+
+      const res = NextResponse.json({
+        enabled: true,
+        authed: true,
+        mode: "users",
+        user: { id: user.id, username: user.username, role: user.role },
+      });
+      setAccessCookie(res, createUserAccessToken(user));
+      return res;
+    }
+
     const accessPassword = await getAccessPassword();
     const enabled = isAccessPasswordEnabled(accessPassword);
 
@@ -22,13 +57,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ enabled: false, authed: true });
     }
 
-    const ip = getClientIp(request);
-    const loginLimiter = checkRateLimit(`auth:login:${ip}`, { windowMs: 5 * 60 * 1000, max: 10 });
-    if (!loginLimiter.allowed) {
-      const res = NextResponse.json({ error: "Too many login attempts, please try again later" }, { status: 429 });
-      res.headers.set("Retry-After", String(loginLimiter.retryAfterSec));
-      return res;
-    }
+    const limited = checkLoginRateLimit(request);
+    if (limited) return limited;
 
     if (!password) {
       return NextResponse.json({ error: "password is required" }, { status: 400 });
@@ -4,8 +4,8 @@ import { toPublicErrorMessage } from "@/lib/api-error";
 
 export async function GET(request: NextRequest) {
   try {
-    const { enabled, authed } = await getAccessStatus(request);
-    return NextResponse.json({ enabled, authed });
+    const { enabled, authed, mode, user } = await getAccessStatus(request);
+    return NextResponse.json({ enabled, authed, mode, user });
   } catch (error: unknown) {
     console.error(error);
     return NextResponse.json({ error: toPublicErrorMessage(error, "获取状态失败") }, { status: 500 });
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, desc, eq, isNotNull } from "drizzle-orm";
+import { applyCopyTransforms, db, schema, validateCopyTransformConfig } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { buildTelegramChannelLink, buildTelegramMessageLink } from "@/lib/telegram-links";
+import { getTrimmedString } from "@/lib/utils";
+
+loadEnv();
+
+/**
+ * copy 模式文本转换预览：用（未保存的）配置转换一段示例文本；不传 text 时取该频道最近一条有文本的消息。
+ * 数据库里不保存格式实体，这里只预览纯文本结果。
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = (await request.json().catch(() => ({}))) as { id?: unknown; copyTransforms?: unknown; text?: unknown };
+
+    const id = typeof body.id === "string" ? getTrimmedString(body.id) : "";
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const validated = validateCopyTransformConfig(body.copyTransforms);
+    if ("error" in validated) {
+      return NextResponse.json({ error: `copyTransforms: ${validated.error}` }, { status: 400 });
+    }
+
+    const [source] = await db
+      .select({
+        id: schema.sourceChannels.id,
+        name: schema.sourceChannels.name,
+        channelIdentifier: schema.sourceChannels.channelIdentifier,
+        username: schema.sourceChannels.username,
+        telegramId: schema.sourceChannels.telegramId,
+      })
+      .from(schema.sourceChannels)
+      .where(eq(schema.sourceChannels.id, id))
+      .limit(1);
+    if (!source) return NextResponse.json({ error: "channel not found" }, { status: 404 });
+
+    let sample: { text: string; sourceMessageId: number | null } | null =
+      typeof body.text === "string" && body.text.trim() ? { text: body.text.slice(0, 10_000), sourceMessageId: null } : null;
+
+    if (!sample) {
+      const [latest] = await db
+        .select({ text: schema.messageMappings.text, sourceMessageId: schema.messageMappings.sourceMessageId })
+        .from(schema.messageMappings)
+        .where(and(eq(schema.messageMappings.sourceChannelId, id), isNotNull(schema.messageMappings.text)))
+        .orderBy(desc(schema.messageMappings.sentAt))
+        .limit(1);
+      if (latest?.text) sample = { text: latest.text, sourceMessageId: latest.sourceMessageId };
+    }
+    if (!sample) return NextResponse.json({ error: "该频道还没有带文本的消息，请输入示例文本" }, { status: 400 });
+
+    const username = source.username?.trim().replace(/^@/, "") || null;
+    const result = applyCopyTransforms({ text: sample.text }, validated.config, {
+      sourceName: source.name || source.channelIdentifier,
+      sourceUsername: username,
+      sourceLink: username ? buildTelegramChannelLink({ username, telegramId: source.telegramId }) : null,
+      originalLink: buildTelegramMessageLink(source, sample.sourceMessageId ?? 1),
+    });
+
+    const response = NextResponse.json({
+      id,
+      sourceMessageId: sample.sourceMessageId,
+      original: sample.text,
+      transformed: result.text,
+    });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "预览文本转换失败");
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, asc, eq, gte, isNotNull, isNull, sql } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { buildTelegramMessageLink } from "@/lib/telegram-links";
+import { getTrimmedString, parseEnumValue, parseIntSafe } from "@/lib/utils";
+
+loadEnv();
+
+/**
+ * 删除同步的 dry-run 预览：列出按当前（或草稿）策略将被删除/标记的镜像消息，不做任何修改。
+ * 草稿换了方式时，保存后只处理之后的删除，现有的待处理记录都算作积压（backlogCount），不会被处理。
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const url = new URL(request.url);
+    const params = url.searchParams;
+
+    const id = getTrimmedString(params.get("id"));
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const modeRaw = getTrimmedString(params.get("mode"));
+    const modeParam = modeRaw ? parseEnumValue(schema.deletionSyncModeEnum.enumValues, modeRaw) : null;
+    if (modeRaw && !modeParam) {
+      return NextResponse.json({ error: "mode must be record|mark|delete" }, { status: 400 });
+    }
+
+    const graceRaw = getTrimmedString(params.get("graceMinutes") ?? params.get("grace_minutes"));
+    const graceParam = graceRaw ? parseIntSafe(graceRaw) : null;
+    if (graceRaw && graceParam == null) {
+      return NextResponse.json({ error: "graceMinutes must be an integer" }, { status: 400 });
+    }
+
+    const limitRaw = getTrimmedString(params.get("limit"));
+    const limitParsed = limitRaw ? parseIntSafe(limitRaw) : null;
+    const limit = Math.min(Math.max(limitParsed ?? 100, 1), 500);
+
+    const [source] = await db
+      .select({
+        id: schema.sourceChannels.id,
+        deletionSyncMode: schema.sourceChannels.deletionSyncMode,
+        deletionGraceMinutes: schema.sourceChannels.deletionGraceMinutes,
+        deletionSyncSince: schema.sourceChannels.deletionSyncSince,
+      })
+      .from(schema.sourceChannels)
+      .where(eq(schema.sourceChannels.id, id))
+      .limit(1);
+    if (!source) return NextResponse.json({ error: "channel not found" }, { status: 404 });
+
+    const mode = modeParam ?? source.deletionSyncMode;
+    const graceMinutes = Math.max(0, Math.min(43_200, graceParam ?? source.deletionGraceMinutes));
+    const now = new Date();
+    const cutoff = new Date(now.getTime() - graceMinutes * 60 * 1000);
+    const since = mode === source.deletionSyncMode ? source.deletionSyncSince : now;
+
+    const pendingWhere = and(
+      eq(schema.messageMappings.sourceChannelId, id),
+      eq(schema.messageMappings.isDeleted, true),
+      isNull(schema.messageMappings.mirrorDeletionStatus),
+    );
+
+    const [counts] = await db
+      .select({
+        total: sql<number>`count(*) filter (where ${schema.messageMappings.mirrorMessageId} is not null and ${schema.messageMappings.deletedAt} >= ${since})`.mapWith(
+          Number,
+        ),
+        due: sql<number>`count(*) filter (where ${schema.messageMappings.mirrorMessageId} is not null and ${schema.messageMappings.deletedAt} >= ${since} and ${schema.messageMappings.deletedAt} <= ${cutoff} and coalesce(${schema.messageMappings.mirrorDeletionRetryAt} <= ${now}, true))`.mapWith(
+          Number,
+        ),
+        backlog: sql<number>`count(*) filter (where ${schema.messageMappings.mirrorMessageId} is not null and ${schema.messageMappings.deletedAt} < ${since})`.mapWith(
+          Number,
+        ),
+        withoutMirror: sql<number>`count(*) filter (where ${schema.messageMappings.mirrorMessageId} is null)`.mapWith(Number),
+      })
+      .from(schema.messageMappings)
+      .where(pendingWhere);
+
+    const rows = await db
+      .select({
+        id: schema.messageMappings.id,
+        sourceMessageId: schema.messageMappings.sourceMessageId,
+        mirrorMessageId: schema.messageMappings.mirrorMessageId,
+        mediaGroupId: schema.messageMappings.mediaGroupId,
+        messageType: schema.messageMappings.messageType,
+        textPreview: schema.messageMappings.textPreview,
+        sentAt: schema.messageMappings.sentAt,
+        deletedAt: schema.messageMappings.deletedAt,
+        attempts: schema.messageMappings.mirrorDeletionAttempts,
+        retryAt: schema.messageMappings.mirrorDeletionRetryAt,
+        sourceTelegramId: schema.sourceChannels.telegramId,
+        sourceUsername: schema.sourceChannels.username,
+        mirrorTelegramId: schema.mirrorChannels.telegramId,
+        mirrorUsername: schema.mirrorChannels.username,
+      })
+      .from(schema.messageMappings)
+      .innerJoin(schema.sourceChannels, eq(schema.sourceChannels.id, schema.messageMappings.sourceChannelId))
+      .innerJoin(schema.mirrorChannels, eq(schema.mirrorChannels.id, schema.messageMappings.mirrorChannelId))
+      .where(and(pendingWhere, isNotNull(schema.messageMappings.mirrorMessageId), gte(schema.messageMappings.deletedAt, since)))
+      .orderBy(asc(schema.messageMappings.deletedAt), asc(schema.messageMappings.sourceMessageId))
+      .limit(limit);
+
+    const response = NextResponse.json({
+      id,
+      mode,
+      graceMinutes,
+      since: since.toISOString(),
+      total: counts?.total ?? 0,
+      dueCount: counts?.due ?? 0,
+      backlogCount: counts?.backlog ?? 0,
+      withoutMirrorCount: counts?.withoutMirror ?? 0,
+      items: rows.map((r) => {
+        const graceDueAt = r.deletedAt ? r.deletedAt.getTime() + graceMinutes * 60 * 1000 : null;
+        // 失败重试中的要等到退避结束
+        const dueAt = graceDueAt == null ? null : new Date(Math.max(graceDueAt, r.retryAt?.getTime() ?? 0));
+        return {
+          id: r.id,
+          sourceMessageId: r.sourceMessageId,
+          mirrorMessageId: r.mirrorMessageId,
+          mediaGroupId: r.mediaGroupId,
+          messageType: r.messageType,
+          textPreview: r.textPreview,
+          sentAt: r.sentAt.toISOString(),
+          deletedAt: r.deletedAt ? r.deletedAt.toISOString() : null,
+          dueAt: dueAt ? dueAt.toISOString() : null,
+          attempts: r.attempts,
+          isDue: !!dueAt && dueAt.getTime() <= now.getTime(),
+          links: {
+            source: buildTelegramMessageLink({ username: r.sourceUsername, telegramId: r.sourceTelegramId }, r.sourceMessageId),
+            mirror: buildTelegramMessageLink({ username: r.mirrorUsername, telegramId: r.mirrorTelegramId }, r.mirrorMessageId),
+          },
+        };
+      }),
+    });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "加载删除预览失败");
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { db, schema, toBackfillRange } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { getTrimmedString } from "@/lib/utils";
+
+loadEnv();
+
+/**
+ * 缺口扫描结果：mirror-service 把 source_message_id 空洞按“源频道已删除 / 服务消息 / 漏掉”分类后写到 source_channels.gap_scan，
+ * 这里连同建议的回填区间和当前 history_partial 任务状态一起返回。
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const id = getTrimmedString(new URL(request.url).searchParams.get("id"));
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const [source] = await db
+      .select({ id: schema.sourceChannels.id, gapScan: schema.sourceChannels.gapScan })
+      .from(schema.sourceChannels)
+      .where(eq(schema.sourceChannels.id, id))
+      .limit(1);
+    if (!source) return NextResponse.json({ error: "channel not found" }, { status: 404 });
+
+    const [partialTask] = await db
+      .select({
+        id: schema.syncTasks.id,
+        status: schema.syncTasks.status,
+        rangeStartId: schema.syncTasks.rangeStartId,
+        rangeEndId: schema.syncTasks.rangeEndId,
+        completedAt: schema.syncTasks.completedAt,
+      })
+      .from(schema.syncTasks)
+      .where(and(eq(schema.syncTasks.sourceChannelId, id), eq(schema.syncTasks.taskType, "history_partial")))
+      .limit(1);
+
+    const response = NextResponse.json({
+      id,
+      scan: source.gapScan ?? null,
+      backfillRange: toBackfillRange(source.gapScan?.missedRanges ?? []),
+      partialTask: partialTask
+        ? { ...partialTask, completedAt: partialTask.completedAt ? partialTask.completedAt.toISOString() : null }
+        : null,
+    });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "加载缺口扫描结果失败");
+  }
+}
@@ -0,0 +1,115 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { pipeline } from "node:stream/promises";
+import { Readable } from "node:stream";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { NextRequest, NextResponse } from "next/server";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { recordAudit } from "@/lib/audit";
+import { resolveImportStagingDir } from "@/lib/media-archive";
+import { callMirrorControl, MirrorControlUnavailableError } from "@/lib/mirror-control";
+import { getTrimmedString, parseBoolSafe } from "@/lib/utils";
+
+loadEnv();
+
+export const dynamic = "force-dynamic";
+
+// mirror-service 要先解析 result.json、建好离线源才返回，大文件时比普通控制请求慢
+const CONTROL_TIMEOUT_MS = 60_000;
+
+// 上传时文件名带目录（webkitRelativePath）；去掉 . / .. 段，避免写到暂存目录以外
+function toSafeRelativePath(name: string): string | null {
+  const parts = name
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((part) => part && part !== "." && part !== "..");
+  return parts.length ? parts.join("/") : null;
+}
+
+/**
+ * 上传 Telegram Desktop 导出（result.json + 媒体目录，multipart 的 files 字段，文件名为导出目录里的相对路径），
+ * 暂存后交给 mirror-service 导入为离线源；导入在后台进行，进度与结果见频道事件。
+ * 其余字段：name、groupName、mirrorChannelIdentifier、republish（true 时导入后用 copy 方式发布到镜像频道）、sourceChannelId（导入到已有的离线源）。
+ */
+export async function POST(request: NextRequest) {
+  const { error: authError } = await requireApiAuth(request);
+  if (authError) return authError;
+
+  const stagingId = randomUUID();
+  const stagingDir = path.join(resolveImportStagingDir(), stagingId);
+  const cleanup = () => fs.promises.rm(stagingDir, { recursive: true, force: true }).catch(() => {});
+
+  try {
+    const form = await request.formData().catch(() => null);
+    if (!form) return NextResponse.json({ error: "expected multipart/form-data" }, { status: 400 });
+
+    const files = form
+      .getAll("files")
+      .filter((value): value is File => typeof value !== "string")
+      .map((file) => ({ file, relativePath: toSafeRelativePath(file.name) }))
+      .filter((item): item is { file: File; relativePath: string } => !!item.relativePath);
+
+    // 选的是导出目录时 result.json 在子目录里，以它所在目录为导出根目录
+    const resultJson = files
+      .filter((item) => path.posix.basename(item.relativePath) === "result.json")
+      .sort((a, b) => a.relativePath.length - b.relativePath.length)[0];
+    if (!resultJson) return NextResponse.json({ error: "缺少 result.json" }, { status: 400 });
+    const rootPrefix = path.posix.dirname(resultJson.relativePath);
+
+    const republishRaw = getTrimmedString(form.get("republish"));
+    const republish = republishRaw ? parseBoolSafe(republishRaw) : false;
+    if (republish == null) return NextResponse.json({ error: "republish must be true|false" }, { status: 400 });
+    const mirrorChannelIdentifier = getTrimmedString(form.get("mirrorChannelIdentifier"));
+    if (republish && !mirrorChannelIdentifier) {
+      return NextResponse.json({ error: "重新发布需要填写镜像频道" }, { status: 400 });
+    }
+
+    for (const { file, relativePath } of files) {
+      if (rootPrefix !== "." && !relativePath.startsWith(`${rootPrefix}/`)) continue;
+      const target = path.join(stagingDir, rootPrefix === "." ? relativePath : relativePath.slice(rootPrefix.length + 1));
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      await pipeline(Readable.fromWeb(file.stream() as NodeReadableStream), fs.createWriteStream(target));
+    }
+
+    const importRequest = {
+      sourceChannelId: getTrimmedString(form.get("sourceChannelId")) || null,
+      name: getTrimmedString(form.get("name")) || null,
+      groupName: getTrimmedString(form.get("groupName")) || null,
+      mirrorChannelIdentifier: mirrorChannelIdentifier || null,
+      republish,
+    };
+    const result = await callMirrorControl(
+      "POST",
+      "/imports/tdesktop",
+      { stagingId, ...importRequest },
+      { timeoutMs: CONTROL_TIMEOUT_MS },
+    );
+    // 成功后暂存目录由 mirror-service 导入完删除
+    if (result.status >= 300) {
+      await cleanup();
+    } else {
+      const imported = (result.body ?? {}) as { sourceChannelId?: string; messageCount?: number };
+      await recordAudit(request, {
+        action: "channel.import",
+        targetType: "channel",
+        targetId: imported.sourceChannelId ?? importRequest.sourceChannelId,
+        targetLabel: importRequest.name ?? resultJson.relativePath,
+        after: { ...importRequest, messageCount: imported.messageCount ?? null },
+      });
+    }
+    return NextResponse.json(result.body, { status: result.status, headers: { "Cache-Control": "no-store" } });
+  } catch (error: unknown) {
+    await cleanup();
+    if (error instanceof MirrorControlUnavailableError) {
+      console.warn(error.message);
+      return NextResponse.json(
+        { error: "mirror-service 控制接口不可用（服务未运行，或 MIRROR_CONTROL_PORT / MIRROR_CONTROL_URL 配置不一致）" },
+        { status: 503, headers: { "Cache-Control": "no-store" } },
+      );
+    }
+    return toInternalServerErrorResponse(error, "导入 Telegram Desktop 导出失败");
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, desc, eq, sql } from "drizzle-orm";
+import { db, schema, summarizeMirrorIntegrity } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { recordAudit } from "@/lib/audit";
+import { buildTelegramMessageLink } from "@/lib/telegram-links";
+import { getTrimmedString } from "@/lib/utils";
+
+loadEnv();
+
+const MISSING_SAMPLE_LIMIT = 20;
+
+// 与 mirror-service 的 MIRROR_MISSING_ERROR_MESSAGE 保持一致
+const MIRROR_MISSING_ERROR_MESSAGE = "mirror message missing (removed from mirror channel)";
+
+const m = schema.messageMappings;
+
+// 核对时缺失、之后还没有重新镜像成功（重新镜像会刷新 mirrored_at）
+const missingCondition = sql`(${m.mirrorMissingAt} is not null and (${m.mirroredAt} is null or ${m.mirroredAt} <= ${m.mirrorMissingAt}))`;
+
+// 应当在镜像频道里存在的消息：镜像成功、且不是按删除同步主动删掉的
+const mirroredCondition = sql`((${m.status} = 'success' and ${m.mirrorMessageId} is not null and ${m.mirrorDeletionStatus} is distinct from 'deleted') or ${missingCondition})`;
+
+/**
+ * 镜像完整性：mirror-service 定期核对镜像消息是否还在，这里汇总成每个频道的分数，并列出最近发现缺失的消息。
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const id = getTrimmedString(new URL(request.url).searchParams.get("id"));
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const [source] = await db
+      .select({ id: schema.sourceChannels.id, mirrorVerifiedAt: schema.sourceChannels.mirrorVerifiedAt })
+      .from(schema.sourceChannels)
+      .where(eq(schema.sourceChannels.id, id))
+      .limit(1);
+    if (!source) return NextResponse.json({ error: "channel not found" }, { status: 404 });
+
+    const [counts] = await db
+      .select({
+        mirrored: sql<number>`count(*) filter (where ${mirroredCondition})`.mapWith(Number),
+        verified: sql<number>`count(*) filter (where ${m.mirrorVerifiedAt} is not null and ${mirroredCondition})`.mapWith(Number),
+        missing: sql<number>`count(*) filter (where ${missingCondition})`.mapWith(Number),
+        requeued: sql<number>`count(*) filter (where ${missingCondition} and ${m.status} <> 'success')`.mapWith(Number),
+        lastVerifiedAt: sql<Date | null>`max(${m.mirrorVerifiedAt})`,
+      })
+      .from(m)
+      .where(eq(m.sourceChannelId, id));
+
+    const rows = await db
+      .select({
+        id: m.id,
+        sourceMessageId: m.sourceMessageId,
+        status: m.status,
+        textPreview: m.textPreview,
+        missingAt: m.mirrorMissingAt,
+        sourceTelegramId: schema.sourceChannels.telegramId,
+        sourceUsername: schema.sourceChannels.username,
+      })
+      .from(m)
+      .innerJoin(schema.sourceChannels, eq(schema.sourceChannels.id, m.sourceChannelId))
+      .where(and(eq(m.sourceChannelId, id), missingCondition))
+      .orderBy(desc(m.mirrorMissingAt))
+      .limit(MISSING_SAMPLE_LIMIT);
+
+    const lastVerifiedAt = counts?.lastVerifiedAt ? new Date(counts.lastVerifiedAt) : null;
+    const response = NextResponse.json({
+      id,
+      ...summarizeMirrorIntegrity({
+        mirrored: counts?.mirrored ?? 0,
+        verified: counts?.verified ?? 0,
+        missing: counts?.missing ?? 0,
+      }),
+      requeued: counts?.requeued ?? 0,
+      lastVerifiedAt: lastVerifiedAt ? lastVerifiedAt.toISOString() : null,
+      channelCheckedAt: source.mirrorVerifiedAt ? source.mirrorVerifiedAt.toISOString() : null,
+      missingItems: rows.map((r) => ({
+        id: r.id,
+        sourceMessageId: r.sourceMessageId,
+        status: r.status,
+        textPreview: r.textPreview,
+        missingAt: r.missingAt ? r.missingAt.toISOString() : null,
+        sourceLink: buildTelegramMessageLink({ username: r.sourceUsername, telegramId: r.sourceTelegramId }, r.sourceMessageId),
+      })),
+    });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "加载镜像完整性失败");
+  }
+}
+
+/**
+ * 把已发现缺失、还没重新排队的消息标记为 failed，交给 retry_failed 重新镜像。
+ * 用于 mirror-service 没开 MIRROR_INTEGRITY_REQUEUE_MISSING 时手动补发。
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+    const id = getTrimmedString(body.id);
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const updated = await db
+      .update(m)
+      .set({ status: "failed", mirrorMessageId: null, retryCount: 0, errorMessage: MIRROR_MISSING_ERROR_MESSAGE })
+      .where(and(eq(m.sourceChannelId, id), eq(m.status, "success"), missingCondition))
+      .returning({ id: m.id });
+
+    if (updated.length) {
+      const [source] = await db
+        .select({ channelIdentifier: schema.sourceChannels.channelIdentifier })
+        .from(schema.sourceChannels)
+        .where(eq(schema.sourceChannels.id, id))
+        .limit(1);
+      await recordAudit(request, {
+        action: "channel.requeue_missing",
+        targetType: "channel",
+        targetId: id,
+        targetLabel: source?.channelIdentifier ?? null,
+        after: { requeued: updated.length },
+      });
+    }
+
+    return NextResponse.json({ requeued: updated.length });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "重新排队缺失消息失败");
+  }
+}
@@ -1,9 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { and, desc, eq, inArray, sql } from "drizzle-orm";
-import { db, parseSettingValue, schema, sqlClient, TASKS_NOTIFY_CHANNEL } from "@tg-back/db";
+import {
+  db,
+  parseCopyTransformConfig,
+  parseSettingValue,
+  schema,
+  sqlClient,
+  TASKS_NOTIFY_CHANNEL,
+  validateCopyTransformConfig,
+  validateMessageFilterRules,
+} from "@tg-back/db";
 import { loadEnv } from "@/lib/env";
 import { requireApiAuth } from "@/lib/api-auth";
 import { toPublicErrorMessage } from "@/lib/api-error";
+import { recordAudit } from "@/lib/audit";
 import { getTrimmedString, isMirrorMode, toStringOrNull } from "@/lib/utils";
 
 loadEnv();
@@ -54,7 +64,15 @@ function normalizeGroupName(value: unknown): string | undefined {
 }
 
 function isMessageFilterMode(value: unknown): value is (typeof schema.messageFilterModeEnum.enumValues)[number] {
-  return value === "inherit" || value === "disabled" || value === "custom";
+  return value === "inherit" || value === "disabled" || value === "custom" || value === "merge";
+}
+
+function isEditSyncMode(value: unknown): value is (typeof schema.editSyncModeEnum.enumValues)[number] {
+  return value === "edit" || value === "comment" || value === "record";
+}
+
+function isDeletionSyncMode(value: unknown): value is (typeof schema.deletionSyncModeEnum.enumValues)[number] {
+  return value === "record" || value === "mark" || value === "delete";
 }
 
 type MirrorTarget = "manual" | "auto";
@@ -100,6 +118,11 @@ function clampPriority(value: number): number {
   return Math.max(-100, Math.min(100, Math.trunc(value)));
 }
 
+function clampDeletionGraceMinutes(value: number): number {
+  if (!Number.isFinite(value)) return 60;
+  return Math.max(0, Math.min(43_200, Math.trunc(value)));
+}
+
 async function getDefaultMirrorMode(): Promise<"forward" | "copy"> {
   try {
     const [row] = await db
@@ -167,7 +190,7 @@ async function ensureTasks(sourceChannelId: string): Promise<void> {
 
 export async function GET(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const url = new URL(request.url);
@@ -227,7 +250,10 @@ export async function GET(request: NextRequest) {
         mirror: schema.mirrorChannels,
       })
       .from(schema.sourceChannels)
-      .leftJoin(schema.mirrorChannels, eq(schema.mirrorChannels.sourceChannelId, schema.sourceChannels.id));
+      .leftJoin(
+        schema.mirrorChannels,
+        and(eq(schema.mirrorChannels.sourceChannelId, schema.sourceChannels.id), eq(schema.mirrorChannels.isPrimary, true)),
+      );
 
     const rows = id
       ? await baseQuery
@@ -422,6 +448,14 @@ export async function GET(request: NextRequest) {
         priority: r.source.priority,
         messageFilterMode: r.source.messageFilterMode,
         messageFilterKeywords: r.source.messageFilterKeywords,
+        messageFilterRules: r.source.messageFilterRules,
+        copyTransforms: parseCopyTransformConfig(r.source.copyTransforms),
+        editSyncMode: r.source.editSyncMode,
+        deletionSyncMode: r.source.deletionSyncMode,
+        deletionGraceMinutes: r.source.deletionGraceMinutes,
+        deletionSyncSince: r.source.deletionSyncSince,
+        telegramAccountId: r.source.telegramAccountId,
+        activeAccountId: r.source.activeAccountId,
         tasks: tasksBySource.get(r.source.id) ?? {},
         messageStats:
           mappingStatsBySource.get(r.source.id) ??
@@ -457,7 +491,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const body = await request.json().catch(() => ({}));
@@ -485,7 +519,7 @@ export async function POST(request: NextRequest) {
       const [mirror] = await db
         .select()
         .from(schema.mirrorChannels)
-        .where(eq(schema.mirrorChannels.sourceChannelId, existing.id))
+        .where(and(eq(schema.mirrorChannels.sourceChannelId, existing.id), eq(schema.mirrorChannels.isPrimary, true)))
         .limit(1);
 
       if (mirrorTarget === "auto" && mirror && !mirror.isAutoCreated) {
@@ -530,6 +564,24 @@ export async function POST(request: NextRequest) {
           .where(eq(schema.sourceChannels.id, existing.id));
       }
 
+      // 重新添加已有频道：只记录实际变化的镜像目标 / 模式 / 状态
+      await recordAudit(request, {
+        action: "channel.update",
+        targetType: "channel",
+        targetId: existing.id,
+        targetLabel: existing.channelIdentifier,
+        before: {
+          mirrorMode: existing.mirrorMode,
+          mirrorChannelIdentifier: mirror?.channelIdentifier ?? null,
+          syncStatus: existing.syncStatus,
+        },
+        after: {
+          mirrorMode: mirrorMode ?? existing.mirrorMode,
+          mirrorChannelIdentifier: mirrorTarget === "auto" ? (mirror?.channelIdentifier ?? "auto") : mirrorChannelIdentifier,
+          syncStatus: existing.syncStatus === "error" ? "pending" : existing.syncStatus,
+        },
+      });
+
       return NextResponse.json({ id: existing.id, alreadyExists: true });
     }
 
@@ -556,6 +608,20 @@ export async function POST(request: NextRequest) {
 
     await ensureTasks(source.id);
 
+    await recordAudit(request, {
+      action: "channel.create",
+      targetType: "channel",
+      targetId: source.id,
+      targetLabel: source.channelIdentifier,
+      after: {
+        channelIdentifier: source.channelIdentifier,
+        groupName: source.groupName,
+        mirrorMode: source.mirrorMode,
+        priority: source.priority,
+        mirrorChannelIdentifier: mirrorTarget === "auto" ? "auto" : mirrorChannelIdentifier,
+      },
+    });
+
     return NextResponse.json({ id: source.id, alreadyExists: false });
   } catch (e: unknown) {
     return toChannelRouteErrorResponse(e, "创建频道失败");
@@ -564,7 +630,7 @@ export async function POST(request: NextRequest) {
 
 export async function PATCH(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const body = await request.json().catch(() => ({}));
@@ -585,16 +651,57 @@ export async function PATCH(request: NextRequest) {
     const messageFilterKeywords =
       typeof messageFilterKeywordsRaw === "string" ? messageFilterKeywordsRaw.trim().slice(0, 5000) : undefined;
 
+    const hasMessageFilterRules = Object.prototype.hasOwnProperty.call(body as Record<string, unknown>, "messageFilterRules");
+    const messageFilterRulesResult = hasMessageFilterRules
+      ? validateMessageFilterRules((body as { messageFilterRules?: unknown }).messageFilterRules)
+      : null;
+
+    const hasCopyTransforms = Object.prototype.hasOwnProperty.call(body as Record<string, unknown>, "copyTransforms");
+    const copyTransformsResult = hasCopyTransforms
+      ? validateCopyTransformConfig((body as { copyTransforms?: unknown }).copyTransforms)
+      : null;
+
+    const editSyncModeRaw = (body as { editSyncMode?: unknown }).editSyncMode;
+    const editSyncMode = isEditSyncMode(editSyncModeRaw) ? editSyncModeRaw : undefined;
+
+    const deletionSyncModeRaw = (body as { deletionSyncMode?: unknown }).deletionSyncMode;
+    const deletionSyncMode = isDeletionSyncMode(deletionSyncModeRaw) ? deletionSyncModeRaw : undefined;
+    const deletionGraceMinutesInput = getIntOrUndefined((body as { deletionGraceMinutes?: unknown }).deletionGraceMinutes);
+    const deletionGraceMinutes =
+      deletionGraceMinutesInput == null ? undefined : clampDeletionGraceMinutes(deletionGraceMinutesInput);
+
+    // null = 自动分配账号
+    const hasTelegramAccountId = Object.prototype.hasOwnProperty.call(body as Record<string, unknown>, "telegramAccountId");
+    const telegramAccountIdRaw = (body as { telegramAccountId?: unknown }).telegramAccountId;
+    const telegramAccountId = telegramAccountIdRaw === null ? null : getTrimmedString(telegramAccountIdRaw);
+
     if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
     if (mirrorModeRaw != null && mirrorMode == null) {
       return NextResponse.json({ error: "mirrorMode must be forward|copy" }, { status: 400 });
     }
     if (messageFilterModeRaw != null && messageFilterMode == null) {
-      return NextResponse.json({ error: "messageFilterMode must be inherit|disabled|custom" }, { status: 400 });
+      return NextResponse.json({ error: "messageFilterMode must be inherit|disabled|custom|merge" }, { status: 400 });
+    }
+    if (editSyncModeRaw != null && editSyncMode == null) {
+      return NextResponse.json({ error: "editSyncMode must be edit|comment|record" }, { status: 400 });
+    }
+    if (deletionSyncModeRaw != null && deletionSyncMode == null) {
+      return NextResponse.json({ error: "deletionSyncMode must be record|mark|delete" }, { status: 400 });
     }
     if (hasMessageFilterKeywords && typeof messageFilterKeywordsRaw !== "string") {
       return NextResponse.json({ error: "messageFilterKeywords must be string" }, { status: 400 });
     }
+    if (messageFilterRulesResult && "error" in messageFilterRulesResult) {
+      return NextResponse.json({ error: `messageFilterRules: ${messageFilterRulesResult.error}` }, { status: 400 });
+    }
+    const messageFilterRules = messageFilterRulesResult?.rules;
+    if (copyTransformsResult && "error" in copyTransformsResult) {
+      return NextResponse.json({ error: `copyTransforms: ${copyTransformsResult.error}` }, { status: 400 });
+    }
+    const copyTransforms = copyTransformsResult?.config;
+    if (hasTelegramAccountId && telegramAccountId === "") {
+      return NextResponse.json({ error: "telegramAccountId must be account id or null" }, { status: 400 });
+    }
     if (
       isActive == null &&
       groupName == null &&
@@ -602,12 +709,18 @@ export async function PATCH(request: NextRequest) {
       mirrorMode == null &&
       messageFilterMode == null &&
       !hasMessageFilterKeywords &&
+      messageFilterRules == null &&
+      copyTransforms == null &&
+      editSyncMode == null &&
+      deletionSyncMode == null &&
+      deletionGraceMinutes == null &&
+      !hasTelegramAccountId &&
       recoverSyncStatus !== true
     ) {
       return NextResponse.json(
         {
           error:
-            "isActive or groupName or priority or mirrorMode or messageFilterMode or messageFilterKeywords or recoverSyncStatus is required",
+            "isActive or groupName or priority or mirrorMode or messageFilterMode or messageFilterKeywords or messageFilterRules or copyTransforms or editSyncMode or deletionSyncMode or deletionGraceMinutes or telegramAccountId or recoverSyncStatus is required",
         },
         { status: 400 },
       );
@@ -616,6 +729,15 @@ export async function PATCH(request: NextRequest) {
     const [existing] = await db.select().from(schema.sourceChannels).where(eq(schema.sourceChannels.id, id)).limit(1);
     if (!existing) return NextResponse.json({ error: "channel not found" }, { status: 404 });
 
+    if (telegramAccountId) {
+      const [account] = await db
+        .select({ id: schema.telegramAccounts.id })
+        .from(schema.telegramAccounts)
+        .where(eq(schema.telegramAccounts.id, telegramAccountId))
+        .limit(1);
+      if (!account) return NextResponse.json({ error: "telegram account not found" }, { status: 400 });
+    }
+
     const updates: Partial<typeof schema.sourceChannels.$inferInsert> = {};
     if (isActive != null) updates.isActive = isActive;
     if (groupName != null) updates.groupName = groupName;
@@ -623,6 +745,15 @@ export async function PATCH(request: NextRequest) {
     if (mirrorMode != null) updates.mirrorMode = mirrorMode;
     if (messageFilterMode != null) updates.messageFilterMode = messageFilterMode;
     if (hasMessageFilterKeywords) updates.messageFilterKeywords = messageFilterKeywords ?? "";
+    if (messageFilterRules != null) updates.messageFilterRules = messageFilterRules;
+    if (copyTransforms != null) updates.copyTransforms = copyTransforms;
+    if (editSyncMode != null) updates.editSyncMode = editSyncMode;
+    if (deletionSyncMode != null) updates.deletionSyncMode = deletionSyncMode;
+    // 换了方式只对之后的删除生效，不会把之前积压的删除一次性删掉 / 标记
+    if (deletionSyncMode != null && deletionSyncMode !== existing.deletionSyncMode) updates.deletionSyncSince = new Date();
+    if (deletionGraceMinutes != null) updates.deletionGraceMinutes = deletionGraceMinutes;
+    // 实际生效的账号（active_account_id）由 mirror-service 重新分配后回写
+    if (hasTelegramAccountId) updates.telegramAccountId = telegramAccountId;
     if (recoverSyncStatus === true) updates.syncStatus = "pending";
 
     await db.update(schema.sourceChannels).set(updates).where(eq(schema.sourceChannels.id, id));
@@ -650,6 +781,15 @@ export async function PATCH(request: NextRequest) {
       await ensureTasks(id);
     }
 
+    await recordAudit(request, {
+      action: "channel.update",
+      targetType: "channel",
+      targetId: id,
+      targetLabel: existing.channelIdentifier,
+      before: Object.fromEntries(Object.keys(updates).map((key) => [key, existing[key as keyof typeof existing]])),
+      after: updates,
+    });
+
     return NextResponse.json({
       id,
       isActive: isActive ?? existing.isActive,
@@ -658,6 +798,12 @@ export async function PATCH(request: NextRequest) {
       mirrorMode: mirrorMode ?? existing.mirrorMode,
       messageFilterMode: messageFilterMode ?? existing.messageFilterMode,
       messageFilterKeywords: hasMessageFilterKeywords ? messageFilterKeywords ?? "" : existing.messageFilterKeywords,
+      messageFilterRules: messageFilterRules ?? existing.messageFilterRules,
+      copyTransforms: copyTransforms ?? parseCopyTransformConfig(existing.copyTransforms),
+      editSyncMode: editSyncMode ?? existing.editSyncMode,
+      deletionSyncMode: deletionSyncMode ?? existing.deletionSyncMode,
+      deletionGraceMinutes: deletionGraceMinutes ?? existing.deletionGraceMinutes,
+      telegramAccountId: hasTelegramAccountId ? telegramAccountId : existing.telegramAccountId,
       syncStatus: (updates.syncStatus as string | undefined) ?? existing.syncStatus,
     });
   } catch (e: unknown) {
@@ -667,19 +813,24 @@ export async function PATCH(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const body = await request.json().catch(() => ({}));
     const id = getTrimmedString(body.id);
     if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
 
-    const deleted = await db
-      .delete(schema.sourceChannels)
-      .where(eq(schema.sourceChannels.id, id))
-      .returning({ id: schema.sourceChannels.id });
+    const [deleted] = await db.delete(schema.sourceChannels).where(eq(schema.sourceChannels.id, id)).returning();
+
+    if (!deleted) return NextResponse.json({ error: "channel not found" }, { status: 404 });
 
-    if (!deleted.length) return NextResponse.json({ error: "channel not found" }, { status: 404 });
+    await recordAudit(request, {
+      action: "channel.delete",
+      targetType: "channel",
+      targetId: id,
+      targetLabel: deleted.channelIdentifier,
+      before: deleted,
+    });
     return NextResponse.json({ id });
   } catch (e: unknown) {
     return toChannelRouteErrorResponse(e, "删除频道失败");
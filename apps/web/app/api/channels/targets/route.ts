@@ -0,0 +1,279 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import { db, parseCopyTransformConfig, schema, validateCopyTransformConfig, validateMessageFilterRules } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { recordAudit } from "@/lib/audit";
+import { getTrimmedString, isMirrorMode } from "@/lib/utils";
+
+loadEnv();
+
+const MAX_TARGETS_PER_SOURCE = 10;
+
+type MessageFilterMode = (typeof schema.messageFilterModeEnum.enumValues)[number];
+
+function isMessageFilterMode(value: unknown): value is MessageFilterMode {
+  return value === "inherit" || value === "disabled" || value === "custom" || value === "merge";
+}
+
+type TargetFields = Partial<
+  Pick<
+    typeof schema.mirrorChannels.$inferInsert,
+    "channelIdentifier" | "isActive" | "mirrorMode" | "messageFilterMode" | "messageFilterRules" | "copyTransforms"
+  >
+>;
+
+/**
+ * 额外镜像目标的可编辑字段；mirrorMode / copyTransforms 传 null 表示跟随源频道。
+ */
+function parseTargetFields(body: Record<string, unknown>): { fields: TargetFields } | { error: string } {
+  const fields: TargetFields = {};
+  const has = (key: string) => Object.prototype.hasOwnProperty.call(body, key);
+
+  if (has("channelIdentifier")) {
+    const channelIdentifier = getTrimmedString(body.channelIdentifier);
+    if (!channelIdentifier) return { error: "channelIdentifier is required" };
+    if (channelIdentifier === "auto") return { error: "额外镜像目标不支持自动创建，请填写已有频道" };
+    fields.channelIdentifier = channelIdentifier;
+  }
+  if (has("isActive")) {
+    if (typeof body.isActive !== "boolean") return { error: "isActive must be boolean" };
+    fields.isActive = body.isActive;
+  }
+  if (has("mirrorMode")) {
+    if (body.mirrorMode !== null && !isMirrorMode(body.mirrorMode)) return { error: "mirrorMode must be forward|copy|null" };
+    fields.mirrorMode = body.mirrorMode;
+  }
+  if (has("messageFilterMode")) {
+    if (!isMessageFilterMode(body.messageFilterMode)) {
+      return { error: "messageFilterMode must be inherit|disabled|custom|merge" };
+    }
+    fields.messageFilterMode = body.messageFilterMode;
+  }
+  if (has("messageFilterRules")) {
+    const result = validateMessageFilterRules(body.messageFilterRules);
+    if ("error" in result) return { error: `messageFilterRules: ${result.error}` };
+    fields.messageFilterRules = result.rules;
+  }
+  if (has("copyTransforms")) {
+    if (body.copyTransforms === null) {
+      fields.copyTransforms = null;
+    } else {
+      const result = validateCopyTransformConfig(body.copyTransforms);
+      if ("error" in result) return { error: `copyTransforms: ${result.error}` };
+      fields.copyTransforms = result.config;
+    }
+  }
+
+  return { fields };
+}
+
+type MirrorChannelRow = typeof schema.mirrorChannels.$inferSelect;
+
+function toPublicTarget(row: MirrorChannelRow) {
+  return {
+    id: row.id,
+    sourceChannelId: row.sourceChannelId,
+    channelIdentifier: row.channelIdentifier,
+    telegramId: row.telegramId?.toString() ?? null,
+    name: row.name,
+    username: row.username,
+    isActive: row.isActive,
+    mirrorMode: row.mirrorMode,
+    messageFilterMode: row.messageFilterMode,
+    messageFilterRules: row.messageFilterRules,
+    copyTransforms: row.copyTransforms == null ? null : parseCopyTransformConfig(row.copyTransforms),
+    cursorMessageId: row.cursorMessageId,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+async function findTarget(id: string): Promise<MirrorChannelRow | null> {
+  const [row] = await db
+    .select()
+    .from(schema.mirrorChannels)
+    .where(and(eq(schema.mirrorChannels.id, id), eq(schema.mirrorChannels.isPrimary, false)))
+    .limit(1);
+  return row ?? null;
+}
+
+/**
+ * 源频道的额外镜像目标（主镜像仍由 /api/channels 管理）。
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const { searchParams } = new URL(request.url);
+    const sourceChannelId = getTrimmedString(searchParams.get("sourceChannelId"));
+    if (!sourceChannelId) return NextResponse.json({ error: "sourceChannelId is required" }, { status: 400 });
+
+    const rows = await db
+      .select()
+      .from(schema.mirrorChannels)
+      .where(and(eq(schema.mirrorChannels.sourceChannelId, sourceChannelId), eq(schema.mirrorChannels.isPrimary, false)))
+      .orderBy(asc(schema.mirrorChannels.createdAt));
+
+    const ids = rows.map((row) => row.id);
+    const stats = ids.length
+      ? await db
+          .select({
+            mirrorChannelId: schema.messageTargetMappings.mirrorChannelId,
+            status: schema.messageTargetMappings.status,
+            count: sql<number>`count(*)::int`,
+          })
+          .from(schema.messageTargetMappings)
+          .where(inArray(schema.messageTargetMappings.mirrorChannelId, ids))
+          .groupBy(schema.messageTargetMappings.mirrorChannelId, schema.messageTargetMappings.status)
+      : [];
+
+    const statsByTarget = new Map<string, Record<string, number>>();
+    for (const row of stats) {
+      const entry = statsByTarget.get(row.mirrorChannelId) ?? {};
+      entry[row.status] = row.count;
+      statsByTarget.set(row.mirrorChannelId, entry);
+    }
+
+    const response = NextResponse.json({
+      targets: rows.map((row) => ({ ...toPublicTarget(row), stats: statsByTarget.get(row.id) ?? {} })),
+    });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "加载镜像目标失败");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+    const sourceChannelId = getTrimmedString(body.sourceChannelId);
+    if (!sourceChannelId) return NextResponse.json({ error: "sourceChannelId is required" }, { status: 400 });
+
+    const parsed = parseTargetFields({ channelIdentifier: "", ...body });
+    if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const [source] = await db
+      .select({ id: schema.sourceChannels.id })
+      .from(schema.sourceChannels)
+      .where(eq(schema.sourceChannels.id, sourceChannelId))
+      .limit(1);
+    if (!source) return NextResponse.json({ error: "channel not found" }, { status: 404 });
+
+    const existing = await db
+      .select({ isPrimary: schema.mirrorChannels.isPrimary, channelIdentifier: schema.mirrorChannels.channelIdentifier })
+      .from(schema.mirrorChannels)
+      .where(eq(schema.mirrorChannels.sourceChannelId, sourceChannelId));
+    if (existing.filter((row) => !row.isPrimary).length >= MAX_TARGETS_PER_SOURCE) {
+      return NextResponse.json({ error: `每个源频道最多只能添加 ${MAX_TARGETS_PER_SOURCE} 个额外镜像目标` }, { status: 400 });
+    }
+    const channelIdentifier = parsed.fields.channelIdentifier!;
+    if (existing.some((row) => row.channelIdentifier === channelIdentifier)) {
+      return NextResponse.json({ error: "该频道已经是这个源频道的镜像目标" }, { status: 400 });
+    }
+
+    const [row] = await db
+      .insert(schema.mirrorChannels)
+      .values({
+        ...parsed.fields,
+        sourceChannelId,
+        channelIdentifier,
+        name: channelIdentifier,
+        isPrimary: false,
+        isAutoCreated: false,
+      })
+      .returning();
+
+    await recordAudit(request, {
+      action: "channel_target.create",
+      targetType: "channel_target",
+      targetId: row!.id,
+      targetLabel: channelIdentifier,
+      after: { sourceChannelId, ...parsed.fields },
+    });
+
+    return NextResponse.json({ target: toPublicTarget(row!) });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "添加镜像目标失败");
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+    const id = getTrimmedString(body.id);
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const parsed = parseTargetFields(body);
+    if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const existing = await findTarget(id);
+    if (!existing) return NextResponse.json({ error: "mirror target not found" }, { status: 404 });
+
+    const updates: Partial<typeof schema.mirrorChannels.$inferInsert> = { ...parsed.fields };
+    // 换了频道要重新解析；已经同步过的消息不会搬到新频道
+    if (parsed.fields.channelIdentifier && parsed.fields.channelIdentifier !== existing.channelIdentifier) {
+      updates.name = parsed.fields.channelIdentifier;
+      updates.telegramId = null;
+      updates.accessHash = null;
+      updates.username = null;
+    }
+    if (!Object.keys(updates).length) return NextResponse.json({ target: toPublicTarget(existing) });
+
+    const [row] = await db.update(schema.mirrorChannels).set(updates).where(eq(schema.mirrorChannels.id, id)).returning();
+    await recordAudit(request, {
+      action: "channel_target.update",
+      targetType: "channel_target",
+      targetId: id,
+      targetLabel: existing.channelIdentifier,
+      before: Object.fromEntries(Object.keys(parsed.fields).map((key) => [key, existing[key as keyof typeof existing]])),
+      after: parsed.fields,
+    });
+    return NextResponse.json({ target: toPublicTarget(row!) });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "更新镜像目标失败");
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = await request.json().catch(() => ({}));
+    const id = getTrimmedString(body.id);
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const deleted = await db
+      .delete(schema.mirrorChannels)
+      .where(and(eq(schema.mirrorChannels.id, id), eq(schema.mirrorChannels.isPrimary, false)))
+      .returning({
+        id: schema.mirrorChannels.id,
+        sourceChannelId: schema.mirrorChannels.sourceChannelId,
+        channelIdentifier: schema.mirrorChannels.channelIdentifier,
+        isActive: schema.mirrorChannels.isActive,
+        mirrorMode: schema.mirrorChannels.mirrorMode,
+      });
+    const [target] = deleted;
+    if (!target) return NextResponse.json({ error: "mirror target not found" }, { status: 404 });
+
+    await recordAudit(request, {
+      action: "channel_target.delete",
+      targetType: "channel_target",
+      targetId: target.id,
+      targetLabel: target.channelIdentifier,
+      before: target,
+    });
+    return NextResponse.json({ id });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "删除镜像目标失败");
+  }
+}
@@ -31,7 +31,7 @@ function parseMirrorServiceHeartbeat(value: unknown): { lastHeartbeatAt: string
 
 export async function GET(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const countExpr = sql<number>`count(*)`.mapWith(Number);
@@ -11,7 +11,7 @@ loadEnv();
 
 export async function GET(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const url = new URL(request.url);
@@ -0,0 +1,53 @@
+import { NextRequest } from "next/server";
+import { desc } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { buildAuditLogWhere, toPublicAuditLog } from "@/lib/audit";
+
+loadEnv();
+
+// 审计表只追加不清理，单次导出设个上限，更早的记录按时间范围分批导
+const MAX_EXPORT_ROWS = 50_000;
+
+function formatDateForFilename(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const y = date.getFullYear();
+  const m = pad(date.getMonth() + 1);
+  const d = pad(date.getDate());
+  const hh = pad(date.getHours());
+  const mm = pad(date.getMinutes());
+  return `${y}${m}${d}-${hh}${mm}`;
+}
+
+/**
+ * 按审计页的筛选条件导出 JSONL，每行一条记录，新的在前。
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const rows = await db
+      .select()
+      .from(schema.auditLogs)
+      .where(buildAuditLogWhere(request.nextUrl.searchParams))
+      .orderBy(desc(schema.auditLogs.createdAt), desc(schema.auditLogs.id))
+      .limit(MAX_EXPORT_ROWS);
+
+    const body = rows.map((row) => JSON.stringify(toPublicAuditLog(row))).join("\n") + (rows.length ? "\n" : "");
+    const stamp = formatDateForFilename(new Date());
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        "content-type": "application/x-ndjson; charset=utf-8",
+        "content-disposition": `attachment; filename=\"tg-back-audit-${stamp}.jsonl\"`,
+        "cache-control": "no-store",
+      },
+    });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "导出审计日志失败");
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest } from "next/server";
-import { desc, eq } from "drizzle-orm";
+import { and, desc, eq } from "drizzle-orm";
 import { db, schema } from "@tg-back/db";
 import { loadEnv } from "@/lib/env";
 import { requireApiAuth } from "@/lib/api-auth";
@@ -28,7 +28,7 @@ function parseFormat(value: string): ExportFormat {
 
 export async function GET(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const url = new URL(request.url);
@@ -66,7 +66,10 @@ export async function GET(request: NextRequest) {
         mirror: schema.mirrorChannels,
       })
       .from(schema.sourceChannels)
-      .leftJoin(schema.mirrorChannels, eq(schema.mirrorChannels.sourceChannelId, schema.sourceChannels.id))
+      .leftJoin(
+        schema.mirrorChannels,
+        and(eq(schema.mirrorChannels.sourceChannelId, schema.sourceChannels.id), eq(schema.mirrorChannels.isPrimary, true)),
+      )
       .orderBy(desc(schema.sourceChannels.subscribedAt));
 
     const lines: string[] = [];
@@ -1,12 +1,21 @@
 import { NextRequest } from "next/server";
-import { and, desc, eq, gt, gte, lte, lt, or, sql, type SQL } from "drizzle-orm";
+import { and, asc, desc, eq, gt, gte, lte, lt, or, sql, type SQL } from "drizzle-orm";
 import { db, schema } from "@tg-back/db";
 import { loadEnv } from "@/lib/env";
 import { requireApiAuth } from "@/lib/api-auth";
 import { toInternalServerErrorResponse } from "@/lib/api-response";
-import { ilikeContains } from "@/lib/sql-like";
+import {
+  createExportWriter,
+  parseExportFormat,
+  type ExportInlineMedia,
+  type ExportMessage,
+} from "@/lib/export-formats";
+import { loadArchivedFileRefsByPost, readArchivedFileAsDataUri, type ArchivedFileRef } from "@/lib/media-archive";
+import { loadCommentsByPost } from "@/lib/message-comments";
+import { buildMessageSearchCondition } from "@/lib/message-search";
+import { parseSearchQuery } from "@/lib/search-query";
 import { buildTelegramMessageLink } from "@/lib/telegram-links";
-import { getTrimmedString, parseBoolSafe, parseDateSafe, parseEnumValue, parseIntSafe, splitKeywords, toStringOrNull } from "@/lib/utils";
+import { getTrimmedString, parseBoolSafe, parseDateSafe, parseEnumValue, parseIntSafe, toStringOrNull } from "@/lib/utils";
 
 loadEnv();
 
@@ -34,9 +43,33 @@ type ExportRow = {
   groupSize: number;
 };
 
+// HTML 归档内嵌媒体的单文件上限；更大的图片退回用预览图，其余只显示文件名
+const INLINE_MEDIA_MAX_BYTES = 2 * 1024 * 1024;
+
+function inlineMediaKind(mimeType: string | null): ExportInlineMedia["kind"] {
+  if (mimeType?.startsWith("image/")) return "image";
+  if (mimeType?.startsWith("video/")) return "video";
+  if (mimeType?.startsWith("audio/")) return "audio";
+  return "file";
+}
+
+async function readInlineMedia(ref: ArchivedFileRef): Promise<ExportInlineMedia> {
+  const kind = inlineMediaKind(ref.mimeType);
+  const base = { mimeType: ref.mimeType, fileName: ref.fileName };
+  if (ref.storagePath && kind !== "file") {
+    const dataUri = await readArchivedFileAsDataUri(ref.storagePath, ref.mimeType, INLINE_MEDIA_MAX_BYTES);
+    if (dataUri) return { ...base, kind, dataUri };
+  }
+  if (ref.thumbStoragePath) {
+    const dataUri = await readArchivedFileAsDataUri(ref.thumbStoragePath, "image/jpeg", INLINE_MEDIA_MAX_BYTES);
+    if (dataUri) return { ...base, kind: "image", dataUri };
+  }
+  return { ...base, kind, dataUri: null };
+}
+
 export async function GET(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const url = new URL(request.url);
@@ -53,7 +86,7 @@ export async function GET(request: NextRequest) {
     const statusRaw = getTrimmedString(params.get("status"));
     const messageTypeRaw = getTrimmedString(params.get("messageType"));
     const q = getTrimmedString(params.get("q"));
-    const keywords = q ? splitKeywords(q) : [];
+    const searchQuery = q ? parseSearchQuery(q) : null;
     const start = getTrimmedString(params.get("start"));
     const end = getTrimmedString(params.get("end"));
 
@@ -64,8 +97,20 @@ export async function GET(request: NextRequest) {
     const minFileSizeMbRaw = getTrimmedString(params.get("minFileSizeMb") ?? params.get("min_file_size_mb"));
     const maxFileSizeMbRaw = getTrimmedString(params.get("maxFileSizeMb") ?? params.get("max_file_size_mb"));
 
+    const format = parseExportFormat(getTrimmedString(params.get("format")));
+    if (!format) {
+      return new Response(JSON.stringify({ error: "format must be jsonl|csv|html|tdesktop" }), {
+        status: 400,
+        headers: { "content-type": "application/json; charset=utf-8" },
+      });
+    }
+
     const groupMediaRaw = getTrimmedString(params.get("groupMedia") ?? params.get("group_media"));
-    const groupMedia = groupMediaRaw ? groupMediaRaw.toLowerCase() !== "false" : true;
+    // Telegram Desktop 的 result.json 每条消息单独一项（相册也是），不做合并
+    const groupMedia = format === "tdesktop" ? false : groupMediaRaw ? groupMediaRaw.toLowerCase() !== "false" : true;
+    // 评论（message_comments）紧跟在所属消息后面输出为 type=comment 行
+    const includeCommentsRaw = getTrimmedString(params.get("comments"));
+    const includeComments = includeCommentsRaw ? includeCommentsRaw.toLowerCase() !== "false" : true;
 
     const status = statusRaw ? parseEnumValue(schema.messageStatusEnum.enumValues, statusRaw) : null;
     const messageType = messageTypeRaw ? parseEnumValue(schema.messageTypeEnum.enumValues, messageTypeRaw) : null;
@@ -156,7 +201,7 @@ export async function GET(request: NextRequest) {
       username: schema.mirrorChannels.username,
     })
     .from(schema.mirrorChannels)
-    .where(eq(schema.mirrorChannels.sourceChannelId, sourceChannelId))
+    .where(and(eq(schema.mirrorChannels.sourceChannelId, sourceChannelId), eq(schema.mirrorChannels.isPrimary, true)))
     .limit(1);
 
   if (!mirror) {
@@ -170,7 +215,7 @@ export async function GET(request: NextRequest) {
     eq(schema.messageMappings.sourceChannelId, sourceChannelId),
     status ? eq(schema.messageMappings.status, status) : undefined,
     messageType ? eq(schema.messageMappings.messageType, messageType) : undefined,
-    ...keywords.map((k) => ilikeContains(schema.messageMappings.text, k)),
+    buildMessageSearchCondition(searchQuery),
     startDate ? gte(schema.messageMappings.sentAt, startDate) : undefined,
     endDate ? lte(schema.messageMappings.sentAt, endDate) : undefined,
     hasMedia != null ? eq(schema.messageMappings.hasMedia, hasMedia) : undefined,
@@ -242,173 +287,202 @@ export async function GET(request: NextRequest) {
 
   const encoder = new TextEncoder();
   const now = new Date();
-  const filename = `tg-back_messages_${sourceChannelId}_${now.toISOString().slice(0, 10)}.jsonl`;
-
-  const stream = new ReadableStream<Uint8Array>({
-    async start(controller) {
-      try {
-        const meta = {
-          type: "meta",
-          exportedAt: now.toISOString(),
-          sourceChannel: {
-            id: source.id,
-            name: source.name,
-            channelIdentifier: source.channelIdentifier,
-            telegramId: toStringOrNull(source.telegramId),
-            username: source.username,
-          },
-          mirrorChannel: {
-            id: mirror.id,
-            name: mirror.name,
-            channelIdentifier: mirror.channelIdentifier,
-            telegramId: toStringOrNull(mirror.telegramId),
-            username: mirror.username,
-          },
-          filters: {
-            status,
-            messageType,
-            q: q || null,
-            start: startDate ? startDate.toISOString() : null,
-            end: endDate ? endDate.toISOString() : null,
-            hasMedia,
-            isDeleted,
-            edited,
-            skipReason,
-            minFileSizeMb: minFileSizeMb ?? null,
-            maxFileSizeMb: maxFileSizeMb ?? null,
-            groupMedia,
-          },
+  const writer = createExportWriter(format, {
+    source: {
+      id: source.id,
+      name: source.name,
+      channelIdentifier: source.channelIdentifier,
+      telegramId: toStringOrNull(source.telegramId),
+      username: source.username,
+    },
+    mirror: {
+      id: mirror.id,
+      name: mirror.name,
+      channelIdentifier: mirror.channelIdentifier,
+      telegramId: toStringOrNull(mirror.telegramId),
+      username: mirror.username,
+    },
+    exportedAt: now,
+    filters: {
+      status,
+      messageType,
+      q: q || null,
+      start: startDate ? startDate.toISOString() : null,
+      end: endDate ? endDate.toISOString() : null,
+      hasMedia,
+      isDeleted,
+      edited,
+      skipReason,
+      minFileSizeMb: minFileSizeMb ?? null,
+      maxFileSizeMb: maxFileSizeMb ?? null,
+      groupMedia,
+      comments: includeComments,
+    },
+  });
+  const filename = `tg-back_messages_${sourceChannelId}_${now.toISOString().slice(0, 10)}.${writer.fileExtension}`;
+  // 正序（html / tdesktop）时游标往后翻，倒序时往前翻
+  const after = writer.ascending ? gt : lt;
+  const order = writer.ascending ? asc : desc;
+
+  // 逐段产出导出内容；由下面的 pull 按需驱动，客户端读得慢时不会提前翻页、读媒体
+  async function* generateChunks(): AsyncGenerator<string> {
+    yield writer.start();
+
+    let cursorSentAt: Date | null = null;
+    let cursorSourceMessageId: number | null = null;
+
+    const pageSize = 200;
+    for (;;) {
+      const cursorWhere: SQL | undefined =
+        cursorSentAt && cursorSourceMessageId
+          ? grouped
+            ? or(
+                after(grouped.sentAt, cursorSentAt),
+                and(eq(grouped.sentAt, cursorSentAt), after(grouped.sourceMessageId, cursorSourceMessageId)),
+              )
+            : or(
+                after(schema.messageMappings.sentAt, cursorSentAt),
+                and(
+                  eq(schema.messageMappings.sentAt, cursorSentAt),
+                  after(schema.messageMappings.sourceMessageId, cursorSourceMessageId),
+                ),
+              )
+          : undefined;
+
+      const rows: ExportRow[] = grouped
+        ? ((await db
+            .select({
+              id: grouped.id,
+              sourceChannelId: grouped.sourceChannelId,
+              sourceMessageId: grouped.sourceMessageId,
+              mirrorChannelId: grouped.mirrorChannelId,
+              mirrorMessageId: grouped.mirrorMessageId,
+              messageType: grouped.messageType,
+              mediaGroupId: grouped.mediaGroupId,
+              status: grouped.status,
+              skipReason: grouped.skipReason,
+              errorMessage: grouped.errorMessage,
+              retryCount: grouped.retryCount,
+              hasMedia: grouped.hasMedia,
+              fileSize: grouped.fileSize,
+              text: grouped.text,
+              sentAt: grouped.sentAt,
+              mirroredAt: grouped.mirroredAt,
+              isDeleted: grouped.isDeleted,
+              deletedAt: grouped.deletedAt,
+              editCount: grouped.editCount,
+              lastEditedAt: grouped.lastEditedAt,
+              groupSize: grouped.groupSize,
+            })
+            .from(grouped)
+            .where(cursorWhere)
+            .orderBy(order(grouped.sentAt), order(grouped.sourceMessageId))
+            .limit(pageSize)) as ExportRow[])
+        : ((await db
+            .select({
+              id: schema.messageMappings.id,
+              sourceChannelId: schema.messageMappings.sourceChannelId,
+              sourceMessageId: schema.messageMappings.sourceMessageId,
+              mirrorChannelId: schema.messageMappings.mirrorChannelId,
+              mirrorMessageId: schema.messageMappings.mirrorMessageId,
+              messageType: schema.messageMappings.messageType,
+              mediaGroupId: schema.messageMappings.mediaGroupId,
+              status: schema.messageMappings.status,
+              skipReason: schema.messageMappings.skipReason,
+              errorMessage: schema.messageMappings.errorMessage,
+              retryCount: schema.messageMappings.retryCount,
+              hasMedia: schema.messageMappings.hasMedia,
+              fileSize: schema.messageMappings.fileSize,
+              text: schema.messageMappings.text,
+              sentAt: schema.messageMappings.sentAt,
+              mirroredAt: schema.messageMappings.mirroredAt,
+              isDeleted: schema.messageMappings.isDeleted,
+              deletedAt: schema.messageMappings.deletedAt,
+              editCount: schema.messageMappings.editCount,
+              lastEditedAt: schema.messageMappings.lastEditedAt,
+              groupSize: sql<number>`1`.mapWith(Number),
+            })
+            .from(schema.messageMappings)
+            .where(and(baseWhere, cursorWhere))
+            .orderBy(order(schema.messageMappings.sentAt), order(schema.messageMappings.sourceMessageId))
+            .limit(pageSize)) as ExportRow[]);
+
+      if (!rows.length) break;
+
+      const posts = rows.map((row) => ({
+        id: row.id,
+        sourceChannelId: row.sourceChannelId,
+        mediaGroupId: groupMedia ? row.mediaGroupId : null,
+      }));
+      const commentsByPost = includeComments && format !== "tdesktop" ? await loadCommentsByPost(posts) : null;
+      const fileRefsByPost = format === "html" ? await loadArchivedFileRefsByPost(posts) : null;
+
+      for (const row of rows) {
+        const message: ExportMessage = {
+          id: row.id,
+          sourceChannelId: row.sourceChannelId,
+          sourceMessageId: row.sourceMessageId,
+          sourceLink: buildTelegramMessageLink(source, row.sourceMessageId),
+          mirrorChannelId: row.mirrorChannelId,
+          mirrorMessageId: row.mirrorMessageId,
+          mirrorLink: buildTelegramMessageLink(mirror, row.mirrorMessageId),
+          messageType: row.messageType,
+          mediaGroupId: row.mediaGroupId,
+          groupSize: row.groupSize,
+          status: row.status,
+          skipReason: row.skipReason,
+          errorMessage: row.errorMessage,
+          retryCount: row.retryCount,
+          hasMedia: row.hasMedia,
+          fileSize: row.fileSize,
+          text: row.text,
+          sentAt: row.sentAt ? row.sentAt.toISOString() : null,
+          mirroredAt: row.mirroredAt ? row.mirroredAt.toISOString() : null,
+          isDeleted: row.isDeleted,
+          deletedAt: row.deletedAt ? row.deletedAt.toISOString() : null,
+          editCount: row.editCount,
+          lastEditedAt: row.lastEditedAt ? row.lastEditedAt.toISOString() : null,
         };
-        controller.enqueue(encoder.encode(`${JSON.stringify(meta)}\n`));
-
-        let cursorSentAt: Date | null = null;
-        let cursorSourceMessageId: number | null = null;
-
-        const pageSize = 200;
-        for (;;) {
-          const cursorWhere: SQL | undefined =
-            cursorSentAt && cursorSourceMessageId
-              ? grouped
-                ? or(
-                    lt(grouped.sentAt, cursorSentAt),
-                    and(eq(grouped.sentAt, cursorSentAt), lt(grouped.sourceMessageId, cursorSourceMessageId)),
-                  )
-                : or(
-                    lt(schema.messageMappings.sentAt, cursorSentAt),
-                    and(
-                      eq(schema.messageMappings.sentAt, cursorSentAt),
-                      lt(schema.messageMappings.sourceMessageId, cursorSourceMessageId),
-                    ),
-                  )
-              : undefined;
-
-          const rows: ExportRow[] = grouped
-            ? ((await db
-                .select({
-                  id: grouped.id,
-                  sourceChannelId: grouped.sourceChannelId,
-                  sourceMessageId: grouped.sourceMessageId,
-                  mirrorChannelId: grouped.mirrorChannelId,
-                  mirrorMessageId: grouped.mirrorMessageId,
-                  messageType: grouped.messageType,
-                  mediaGroupId: grouped.mediaGroupId,
-                  status: grouped.status,
-                  skipReason: grouped.skipReason,
-                  errorMessage: grouped.errorMessage,
-                  retryCount: grouped.retryCount,
-                  hasMedia: grouped.hasMedia,
-                  fileSize: grouped.fileSize,
-                  text: grouped.text,
-                  sentAt: grouped.sentAt,
-                  mirroredAt: grouped.mirroredAt,
-                  isDeleted: grouped.isDeleted,
-                  deletedAt: grouped.deletedAt,
-                  editCount: grouped.editCount,
-                  lastEditedAt: grouped.lastEditedAt,
-                  groupSize: grouped.groupSize,
-                })
-                .from(grouped)
-                .where(cursorWhere)
-                .orderBy(desc(grouped.sentAt), desc(grouped.sourceMessageId))
-                .limit(pageSize)) as ExportRow[])
-            : ((await db
-                .select({
-                  id: schema.messageMappings.id,
-                  sourceChannelId: schema.messageMappings.sourceChannelId,
-                  sourceMessageId: schema.messageMappings.sourceMessageId,
-                  mirrorChannelId: schema.messageMappings.mirrorChannelId,
-                  mirrorMessageId: schema.messageMappings.mirrorMessageId,
-                  messageType: schema.messageMappings.messageType,
-                  mediaGroupId: schema.messageMappings.mediaGroupId,
-                  status: schema.messageMappings.status,
-                  skipReason: schema.messageMappings.skipReason,
-                  errorMessage: schema.messageMappings.errorMessage,
-                  retryCount: schema.messageMappings.retryCount,
-                  hasMedia: schema.messageMappings.hasMedia,
-                  fileSize: schema.messageMappings.fileSize,
-                  text: schema.messageMappings.text,
-                  sentAt: schema.messageMappings.sentAt,
-                  mirroredAt: schema.messageMappings.mirroredAt,
-                  isDeleted: schema.messageMappings.isDeleted,
-                  deletedAt: schema.messageMappings.deletedAt,
-                  editCount: schema.messageMappings.editCount,
-                  lastEditedAt: schema.messageMappings.lastEditedAt,
-                  groupSize: sql<number>`1`.mapWith(Number),
-                })
-                .from(schema.messageMappings)
-                .where(and(baseWhere, cursorWhere))
-                .orderBy(desc(schema.messageMappings.sentAt), desc(schema.messageMappings.sourceMessageId))
-                .limit(pageSize)) as ExportRow[]);
-
-          if (!rows.length) break;
-
-          for (const row of rows) {
-            const line = {
-              type: "message",
-              id: row.id,
-              sourceChannelId: row.sourceChannelId,
-              sourceMessageId: row.sourceMessageId,
-              sourceLink: buildTelegramMessageLink(source, row.sourceMessageId),
-              mirrorChannelId: row.mirrorChannelId,
-              mirrorMessageId: row.mirrorMessageId,
-              mirrorLink: buildTelegramMessageLink(mirror, row.mirrorMessageId),
-              messageType: row.messageType,
-              mediaGroupId: row.mediaGroupId,
-              groupSize: row.groupSize,
-              status: row.status,
-              skipReason: row.skipReason,
-              errorMessage: row.errorMessage,
-              retryCount: row.retryCount,
-              hasMedia: row.hasMedia,
-              fileSize: row.fileSize,
-              text: row.text,
-              sentAt: row.sentAt ? row.sentAt.toISOString() : null,
-              mirroredAt: row.mirroredAt ? row.mirroredAt.toISOString() : null,
-              isDeleted: row.isDeleted,
-              deletedAt: row.deletedAt ? row.deletedAt.toISOString() : null,
-              editCount: row.editCount,
-              lastEditedAt: row.lastEditedAt ? row.lastEditedAt.toISOString() : null,
-            };
-            controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
-          }
-
-          const last: ExportRow = rows[rows.length - 1]!;
-          cursorSentAt = last.sentAt ?? null;
-          cursorSourceMessageId = last.sourceMessageId ?? null;
-
-          if (rows.length < pageSize) break;
-        }
+        // 媒体在客户端取走上一条后才读取，同一时间只有一条消息的内嵌媒体在内存里
+        const media: ExportInlineMedia[] = [];
+        for (const ref of fileRefsByPost?.get(row.id) ?? []) media.push(await readInlineMedia(ref));
 
-        controller.close();
-      } catch (error: unknown) {
-        controller.error(error);
+        yield writer.message(message, { comments: commentsByPost?.get(row.id) ?? [], media });
       }
+
+      const last: ExportRow = rows[rows.length - 1]!;
+      cursorSentAt = last.sentAt ?? null;
+      cursorSourceMessageId = last.sourceMessageId ?? null;
+
+      if (rows.length < pageSize) break;
+    }
+
+    yield writer.end();
+  }
+
+  const chunks = generateChunks();
+  // highWaterMark 为 1：队列里已有一段没被取走时不再调用 pull
+  const stream = new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        try {
+          const { value, done } = await chunks.next();
+          if (done) controller.close();
+          else controller.enqueue(encoder.encode(value));
+        } catch (error: unknown) {
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await chunks.return(undefined);
+      },
     },
-  });
+    { highWaterMark: 1 },
+  );
 
   return new Response(stream, {
     headers: {
-      "content-type": "application/x-ndjson; charset=utf-8",
+      "content-type": writer.contentType,
       "content-disposition": `attachment; filename=\"${filename}\"`,
       "cache-control": "no-store",
     },
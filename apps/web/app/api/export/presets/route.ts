@@ -67,7 +67,7 @@ function formatDateForFilename(date: Date): string {
 
 export async function GET(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const [row] = await db
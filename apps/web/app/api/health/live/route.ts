@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+// 存活检查（liveness）：只说明 Web 进程能响应，不访问数据库；依赖项的状态看 /api/health
+export async function GET() {
+  return NextResponse.json(
+    {
+      status: "healthy",
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+    },
+    { status: 200, headers: { "Cache-Control": "no-store" } },
+  );
+}
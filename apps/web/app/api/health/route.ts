@@ -1,26 +1,104 @@
 import { NextResponse } from "next/server";
+import { and, eq, min, sql } from "drizzle-orm";
+import { db, evaluateHealth, MIRROR_SERVICE_HEARTBEAT_KEY, schema, type HealthInput } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
 import { toPublicErrorMessage } from "@/lib/api-error";
 
+loadEnv();
+
 export const dynamic = "force-dynamic";
 
+const DB_TIMEOUT_MS = 3_000;
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function collectHealthInput(now: number): Promise<HealthInput> {
+  const startedAt = performance.now();
+  try {
+    await withTimeout(db.execute(sql`select 1`), DB_TIMEOUT_MS);
+  } catch (error: unknown) {
+    return { dbLatencyMs: null, dbError: toPublicErrorMessage(error, "unknown error") };
+  }
+  const dbLatencyMs = Math.round(performance.now() - startedAt);
+
+  const [heartbeatRows, accountRows, channelRows, pendingRows] = await withTimeout(
+    Promise.all([
+      db
+        .select({ value: schema.settings.value })
+        .from(schema.settings)
+        .where(eq(schema.settings.key, MIRROR_SERVICE_HEARTBEAT_KEY))
+        .limit(1),
+      db
+        .select({
+          isActive: schema.telegramAccounts.isActive,
+          hasSession: sql<boolean>`${schema.telegramAccounts.session} <> ''`,
+          lastError: schema.telegramAccounts.lastError,
+        })
+        .from(schema.telegramAccounts),
+      db
+        .select({ syncStatus: schema.sourceChannels.syncStatus })
+        .from(schema.sourceChannels)
+        .where(eq(schema.sourceChannels.isActive, true)),
+      db
+        .select({ oldest: min(schema.syncTasks.createdAt) })
+        .from(schema.syncTasks)
+        .innerJoin(schema.sourceChannels, eq(schema.sourceChannels.id, schema.syncTasks.sourceChannelId))
+        .where(and(eq(schema.syncTasks.status, "pending"), eq(schema.sourceChannels.isActive, true))),
+    ]),
+    DB_TIMEOUT_MS,
+  );
+
+  const heartbeatValue = heartbeatRows[0]?.value;
+  const lastHeartbeatAt =
+    heartbeatValue && typeof heartbeatValue === "object" && !Array.isArray(heartbeatValue)
+      ? Date.parse(String((heartbeatValue as Record<string, unknown>).lastHeartbeatAt ?? ""))
+      : Number.NaN;
+
+  const accounts = { usable: 0, failing: 0, loggedOut: 0 };
+  for (const row of accountRows) {
+    if (!row.isActive) continue;
+    if (!row.hasSession) accounts.loggedOut += 1;
+    else if (row.lastError) accounts.failing += 1;
+    else accounts.usable += 1;
+  }
+
+  const oldest = pendingRows[0]?.oldest;
+  return {
+    dbLatencyMs,
+    heartbeatAgeMs: Number.isFinite(lastHeartbeatAt) ? Math.max(0, now - lastHeartbeatAt) : null,
+    accounts,
+    channels: { active: channelRows.length, error: channelRows.filter((row) => row.syncStatus === "error").length },
+    oldestPendingTaskAgeMs: oldest ? Math.max(0, now - new Date(oldest).getTime()) : null,
+  };
+}
+
+/**
+ * 就绪检查（readiness）：数据库、mirror-service 心跳、Telegram 账号、频道错误数、任务积压。
+ * healthy / degraded 返回 200，unhealthy 返回 503；进程存活检查用 /api/health/live。
+ * 不需要登录，只返回计数，不包含频道名称或账号信息。
+ */
 export async function GET() {
+  const now = Date.now();
   try {
-    // Basic health check
+    const report = evaluateHealth(await collectHealthInput(now));
     return NextResponse.json(
-      {
-        status: "healthy",
-        timestamp: new Date().toISOString(),
-        uptime: process.uptime(),
-      },
-      { status: 200 }
+      { ...report, timestamp: new Date(now).toISOString(), uptime: process.uptime() },
+      { status: report.status === "unhealthy" ? 503 : 200, headers: { "Cache-Control": "no-store" } },
     );
   } catch (error) {
     return NextResponse.json(
       {
         status: "unhealthy",
         error: toPublicErrorMessage(error, "Unknown error"),
+        timestamp: new Date(now).toISOString(),
       },
-      { status: 500 }
+      { status: 503, headers: { "Cache-Control": "no-store" } },
     );
   }
 }
@@ -59,7 +59,7 @@ async function readTailLines(
 
 export async function GET(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const rawPath = process.env.MIRROR_LOG_FILE?.trim() ?? "";
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { loadCommentsByPost } from "@/lib/message-comments";
+import { getTrimmedString, parseBoolSafe } from "@/lib/utils";
+
+loadEnv();
+
+/**
+ * 帖子的评论串：mirror-service 镜像评论时记到 message_comments。
+ * grouped=true（默认）时按相册合并：评论挂在相册里任意一条上都会返回。
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const params = new URL(request.url).searchParams;
+    const messageMappingId = getTrimmedString(params.get("messageMappingId") ?? params.get("message_mapping_id"));
+    if (!messageMappingId) return NextResponse.json({ error: "messageMappingId is required" }, { status: 400 });
+
+    const groupedRaw = getTrimmedString(params.get("grouped"));
+    const grouped = groupedRaw ? parseBoolSafe(groupedRaw) : true;
+    if (grouped == null) return NextResponse.json({ error: "grouped must be true|false" }, { status: 400 });
+
+    const [post] = await db
+      .select({
+        id: schema.messageMappings.id,
+        sourceChannelId: schema.messageMappings.sourceChannelId,
+        mediaGroupId: schema.messageMappings.mediaGroupId,
+      })
+      .from(schema.messageMappings)
+      .where(eq(schema.messageMappings.id, messageMappingId))
+      .limit(1);
+    if (!post) return NextResponse.json({ error: "message not found" }, { status: 404 });
+
+    const comments = await loadCommentsByPost([{ ...post, mediaGroupId: grouped ? post.mediaGroupId : null }]);
+    const response = NextResponse.json({ comments: comments.get(post.id) ?? [] });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "加载评论失败");
+  }
+}
@@ -10,7 +10,7 @@ loadEnv();
 
 export async function GET(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const url = new URL(request.url);
@@ -31,6 +31,9 @@ export async function GET(request: NextRequest) {
         previousText: schema.messageEdits.previousText,
         newText: schema.messageEdits.newText,
         editedAt: schema.messageEdits.editedAt,
+        propagationStatus: schema.messageEdits.propagationStatus,
+        propagationError: schema.messageEdits.propagationError,
+        propagatedAt: schema.messageEdits.propagatedAt,
         createdAt: schema.messageEdits.createdAt,
       })
       .from(schema.messageEdits)
@@ -46,6 +49,9 @@ export async function GET(request: NextRequest) {
         previousText: r.previousText ?? null,
         newText: r.newText ?? null,
         editedAt: r.editedAt.toISOString(),
+        propagationStatus: r.propagationStatus,
+        propagationError: r.propagationError ?? null,
+        propagatedAt: r.propagatedAt ? r.propagatedAt.toISOString() : null,
         createdAt: r.createdAt.toISOString(),
       })),
     });
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { desc, eq } from "drizzle-orm";
+import { db, evaluateMessageFilterRules, schema, validateMessageFilterRules } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { getTrimmedString, parseIntSafe } from "@/lib/utils";
+
+loadEnv();
+
+/**
+ * 过滤规则预览：用（未保存的）规则草稿评估最近 N 条已入库的消息，不做任何修改。
+ * 数据库里没有转发来源信息，forwarded 条件在预览中一律视为不命中。
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = (await request.json().catch(() => ({}))) as {
+      rules?: unknown;
+      sourceChannelId?: unknown;
+      limit?: unknown;
+    };
+
+    const validated = validateMessageFilterRules(body.rules ?? []);
+    if ("error" in validated) {
+      return NextResponse.json({ error: `rules: ${validated.error}` }, { status: 400 });
+    }
+
+    const sourceChannelId = typeof body.sourceChannelId === "string" ? getTrimmedString(body.sourceChannelId) : "";
+    const limitParsed = typeof body.limit === "number" ? Math.trunc(body.limit) : parseIntSafe(String(body.limit ?? ""));
+    const limit = Math.min(Math.max(limitParsed ?? 200, 1), 1000);
+
+    const rows = await db
+      .select({
+        id: schema.messageMappings.id,
+        sourceChannelId: schema.messageMappings.sourceChannelId,
+        sourceMessageId: schema.messageMappings.sourceMessageId,
+        messageType: schema.messageMappings.messageType,
+        hasMedia: schema.messageMappings.hasMedia,
+        text: schema.messageMappings.text,
+        textPreview: schema.messageMappings.textPreview,
+        status: schema.messageMappings.status,
+        sentAt: schema.messageMappings.sentAt,
+        channelName: schema.sourceChannels.name,
+      })
+      .from(schema.messageMappings)
+      .innerJoin(schema.sourceChannels, eq(schema.sourceChannels.id, schema.messageMappings.sourceChannelId))
+      .where(sourceChannelId ? eq(schema.messageMappings.sourceChannelId, sourceChannelId) : undefined)
+      .orderBy(desc(schema.messageMappings.sentAt), desc(schema.messageMappings.id))
+      .limit(limit);
+
+    const items = [];
+    for (const row of rows) {
+      const match = evaluateMessageFilterRules(validated.rules, {
+        text: row.text ?? "",
+        messageType: row.messageType,
+        hasMedia: row.hasMedia,
+        forwardedFrom: undefined,
+      });
+      if (!match) continue;
+      items.push({
+        id: row.id,
+        sourceChannelId: row.sourceChannelId,
+        channelName: row.channelName,
+        sourceMessageId: row.sourceMessageId,
+        messageType: row.messageType,
+        textPreview: row.textPreview,
+        status: row.status,
+        sentAt: row.sentAt.toISOString(),
+        ruleId: match.ruleId,
+        reason: match.reason,
+      });
+    }
+
+    const response = NextResponse.json({ scanned: rows.length, matched: items.length, items });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "预览过滤规则失败");
+  }
+}
@@ -4,6 +4,7 @@ import { db, schema } from "@tg-back/db";
 import { loadEnv } from "@/lib/env";
 import { requireApiAuth } from "@/lib/api-auth";
 import { getErrorCauseMessage, toPublicErrorMessage } from "@/lib/api-error";
+import { loadArchivedMediaByMappingIds } from "@/lib/media-archive";
 import { buildTelegramMessageLink } from "@/lib/telegram-links";
 import { getTrimmedString, parseIntSafe, toStringOrNull } from "@/lib/utils";
 
@@ -11,7 +12,7 @@ loadEnv();
 
 export async function GET(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const url = new URL(request.url);
@@ -35,6 +36,7 @@ export async function GET(request: NextRequest) {
         messageType: schema.messageMappings.messageType,
         status: schema.messageMappings.status,
         skipReason: schema.messageMappings.skipReason,
+        skipDetail: schema.messageMappings.skipDetail,
         errorMessage: schema.messageMappings.errorMessage,
         retryCount: schema.messageMappings.retryCount,
         hasMedia: schema.messageMappings.hasMedia,
@@ -64,6 +66,8 @@ export async function GET(request: NextRequest) {
       .orderBy(asc(schema.messageMappings.sourceMessageId))
       .limit(limit);
 
+    const archivedMedia = await loadArchivedMediaByMappingIds(rows.filter((r) => r.hasMedia).map((r) => r.id));
+
     const response = NextResponse.json({
       sourceChannelId,
       mediaGroupId,
@@ -76,10 +80,12 @@ export async function GET(request: NextRequest) {
         messageType: r.messageType,
         status: r.status,
         skipReason: r.skipReason,
+        skipDetail: r.skipDetail,
         errorMessage: r.errorMessage,
         retryCount: r.retryCount,
         hasMedia: r.hasMedia,
         fileSize: r.fileSize ?? null,
+        archivedMedia: archivedMedia.get(r.id) ?? null,
         textPreview: r.textPreview,
         text: r.text,
         sentAt: r.sentAt.toISOString(),
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import fs from "node:fs";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { eq } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { resolveArchivedFilePath } from "@/lib/media-archive";
+import { getTrimmedString } from "@/lib/utils";
+
+loadEnv();
+
+export const dynamic = "force-dynamic";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// 只有这些类型允许 inline 展示；其它一律按附件下载，避免把 html/svg 之类当成同源页面执行
+const INLINE_MIME_PREFIXES = ["image/", "video/", "audio/"];
+const NON_INLINE_MIME_TYPES = new Set(["image/svg+xml"]);
+
+type ByteRange = { start: number; end: number };
+
+function parseRangeHeader(header: string, size: number): ByteRange | "invalid" | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return header.trim() ? "invalid" : null;
+
+  const [, startRaw, endRaw] = match;
+  if (!startRaw && !endRaw) return "invalid";
+
+  if (!startRaw) {
+    const suffix = Number.parseInt(endRaw!, 10);
+    if (!Number.isFinite(suffix) || suffix <= 0) return "invalid";
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = Number.parseInt(startRaw, 10);
+  const end = endRaw ? Math.min(Number.parseInt(endRaw, 10), size - 1) : size - 1;
+  if (!Number.isFinite(start) || !Number.isFinite(end) || start >= size || start > end) return "invalid";
+  return { start, end };
+}
+
+function buildContentDisposition(type: "inline" | "attachment", fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const url = new URL(request.url);
+    const id = getTrimmedString(url.searchParams.get("id"));
+    const variant = getTrimmedString(url.searchParams.get("variant")) === "thumb" ? "thumb" : "file";
+    const download = url.searchParams.get("download") === "1";
+
+    if (!id || !UUID_RE.test(id)) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const [media] = await db
+      .select({
+        id: schema.messageMedia.id,
+        status: schema.messageMedia.status,
+        storagePath: schema.messageMedia.storagePath,
+        thumbStoragePath: schema.messageMedia.thumbStoragePath,
+        mimeType: schema.messageMedia.mimeType,
+        fileName: schema.messageMedia.fileName,
+        sha256: schema.messageMedia.sha256,
+      })
+      .from(schema.messageMedia)
+      .where(eq(schema.messageMedia.id, id))
+      .limit(1);
+
+    if (!media || media.status !== "stored" || !media.storagePath) {
+      return NextResponse.json({ error: "media not archived" }, { status: 404 });
+    }
+
+    const isImage = !!media.mimeType?.startsWith("image/");
+    const storagePath = variant === "thumb" ? (media.thumbStoragePath ?? (isImage ? media.storagePath : null)) : media.storagePath;
+    if (!storagePath) return NextResponse.json({ error: "thumbnail not available" }, { status: 404 });
+
+    const filePath = resolveArchivedFilePath(storagePath);
+    if (!filePath) return NextResponse.json({ error: "invalid storage path" }, { status: 400 });
+
+    let size: number;
+    try {
+      const stat = await fs.promises.stat(filePath);
+      if (!stat.isFile()) throw new Error("not a file");
+      size = stat.size;
+    } catch {
+      return NextResponse.json({ error: "archived file missing on disk" }, { status: 404 });
+    }
+
+    const rawMime = variant === "thumb" && media.thumbStoragePath ? "image/jpeg" : media.mimeType || "application/octet-stream";
+    const inlineAllowed = INLINE_MIME_PREFIXES.some((p) => rawMime.startsWith(p)) && !NON_INLINE_MIME_TYPES.has(rawMime);
+    const contentType = inlineAllowed ? rawMime : "application/octet-stream";
+    const fileName = media.fileName || `${media.sha256 ?? media.id}${path.extname(storagePath)}`;
+
+    const headers = new Headers({
+      "Content-Type": contentType,
+      "Accept-Ranges": "bytes",
+      // 文件按 sha256 内容寻址，不会变化；仍然只允许浏览器私有缓存（接口需要登录）
+      "Cache-Control": "private, max-age=86400, immutable",
+      "X-Content-Type-Options": "nosniff",
+      "Content-Security-Policy": "sandbox",
+      "Content-Disposition": buildContentDisposition(download || !inlineAllowed ? "attachment" : "inline", fileName),
+    });
+    if (media.sha256) headers.set("ETag", `"${media.sha256}${variant === "thumb" ? "-thumb" : ""}"`);
+
+    const range = parseRangeHeader(request.headers.get("range") ?? "", size);
+    if (range === "invalid") {
+      headers.set("Content-Range", `bytes */${size}`);
+      return new Response(null, { status: 416, headers });
+    }
+
+    const start = range?.start ?? 0;
+    const end = range?.end ?? size - 1;
+    headers.set("Content-Length", String(size ? end - start + 1 : 0));
+    if (range) headers.set("Content-Range", `bytes ${start}-${end}/${size}`);
+
+    if (!size) return new Response(null, { status: 200, headers });
+
+    const stream = fs.createReadStream(filePath, { start, end });
+    request.signal.addEventListener("abort", () => stream.destroy(), { once: true });
+
+    return new Response(Readable.toWeb(stream) as ReadableStream<Uint8Array>, { status: range ? 206 : 200, headers });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "读取归档媒体失败");
+  }
+}
@@ -4,15 +4,18 @@ import { db, schema } from "@tg-back/db";
 import { loadEnv } from "@/lib/env";
 import { requireApiAuth } from "@/lib/api-auth";
 import { toPublicErrorMessage } from "@/lib/api-error";
-import { ilikeContains } from "@/lib/sql-like";
+import { loadArchivedMediaByMappingIds } from "@/lib/media-archive";
+import { loadCommentCountsByPost } from "@/lib/message-comments";
+import { buildMessageSearchCondition, buildMessageSearchRank } from "@/lib/message-search";
+import { buildSearchSnippet, parseSearchQuery } from "@/lib/search-query";
 import { buildTelegramMessageLink } from "@/lib/telegram-links";
-import { getTrimmedString, parseBoolSafe, parseDateSafe, parseEnumValue, parseIntSafe, splitKeywords, toStringOrNull } from "@/lib/utils";
+import { getTrimmedString, parseBoolSafe, parseDateSafe, parseEnumValue, parseIntSafe, toStringOrNull } from "@/lib/utils";
 
 loadEnv();
 
 export async function GET(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const url = new URL(request.url);
@@ -25,7 +28,8 @@ export async function GET(request: NextRequest) {
     const statusRaw = getTrimmedString(params.get("status"));
     const messageTypeRaw = getTrimmedString(params.get("messageType"));
     const q = getTrimmedString(params.get("q"));
-    const keywords = q ? splitKeywords(q) : [];
+    const searchQuery = q ? parseSearchQuery(q) : null;
+    const sortRaw = getTrimmedString(params.get("sort"));
     const start = getTrimmedString(params.get("start"));
     const end = getTrimmedString(params.get("end"));
 
@@ -42,6 +46,7 @@ export async function GET(request: NextRequest) {
     const cursorSentAtRaw = getTrimmedString(params.get("cursorSentAt") ?? params.get("cursor_sent_at"));
     const cursorSourceChannelId = getTrimmedString(params.get("cursorSourceChannelId") ?? params.get("cursor_source_channel_id"));
     const cursorSourceMessageIdRaw = getTrimmedString(params.get("cursorSourceMessageId") ?? params.get("cursor_source_message_id"));
+    const cursorOffsetRaw = getTrimmedString(params.get("cursorOffset") ?? params.get("cursor_offset"));
 
     const limitRaw = getTrimmedString(params.get("limit"));
     const limitParsed = limitRaw ? parseIntSafe(limitRaw) : null;
@@ -88,6 +93,14 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "minFileSizeMb must be <= maxFileSizeMb" }, { status: 400 });
     }
 
+    if (sortRaw && sortRaw !== "time" && sortRaw !== "relevance") {
+      return NextResponse.json({ error: "sort must be time|relevance" }, { status: 400 });
+    }
+
+    // 按相关度排序时没有稳定的 (sentAt, id) 游标，改用 offset 分页
+    const rankExpr = sortRaw === "relevance" ? buildMessageSearchRank(searchQuery) : null;
+    const cursorOffset = rankExpr && cursorOffsetRaw ? Math.max(0, parseIntSafe(cursorOffsetRaw) ?? 0) : 0;
+
     const cursorSentAt = cursorSentAtRaw ? parseDateSafe(cursorSentAtRaw) : null;
     const cursorSourceMessageId = cursorSourceMessageIdRaw ? parseIntSafe(cursorSourceMessageIdRaw) : null;
 
@@ -113,7 +126,7 @@ export async function GET(request: NextRequest) {
         : undefined,
     status ? eq(schema.messageMappings.status, status) : undefined,
     messageType ? eq(schema.messageMappings.messageType, messageType) : undefined,
-    ...keywords.map((k) => ilikeContains(schema.messageMappings.text, k)),
+    buildMessageSearchCondition(searchQuery),
     startDate ? gte(schema.messageMappings.sentAt, startDate) : undefined,
     endDate ? lte(schema.messageMappings.sentAt, endDate) : undefined,
     hasMedia != null ? eq(schema.messageMappings.hasMedia, hasMedia) : undefined,
@@ -127,7 +140,7 @@ export async function GET(request: NextRequest) {
   const baseWhere = and(...baseWhereConditions);
 
   const cursorWhereForMappings =
-    cursorSentAt && cursorSourceMessageId && (sourceChannelId || cursorSourceChannelId)
+    !rankExpr && cursorSentAt && cursorSourceMessageId && (sourceChannelId || cursorSourceChannelId)
       ? sourceChannelId
         ? or(
             lt(schema.messageMappings.sentAt, cursorSentAt),
@@ -183,6 +196,7 @@ export async function GET(request: NextRequest) {
           mediaGroupId: schema.messageMappings.mediaGroupId,
           status: schema.messageMappings.status,
           skipReason: schema.messageMappings.skipReason,
+          skipDetail: schema.messageMappings.skipDetail,
           errorMessage: schema.messageMappings.errorMessage,
           retryCount: schema.messageMappings.retryCount,
           hasMedia: schema.messageMappings.hasMedia,
@@ -196,6 +210,7 @@ export async function GET(request: NextRequest) {
           editCount: groupEditCountExpr,
           lastEditedAt: groupLastEditedAtExpr,
           groupSize: groupSizeExpr,
+          rank: (rankExpr ?? sql<number>`0`).as("rank"),
         })
         .from(schema.messageMappings)
         .where(baseWhere)
@@ -211,7 +226,7 @@ export async function GET(request: NextRequest) {
   const rows = grouped
     ? await (async () => {
         const cursorWhereForGrouped =
-          cursorSentAt && cursorSourceMessageId && (sourceChannelId || cursorSourceChannelId)
+          !rankExpr && cursorSentAt && cursorSourceMessageId && (sourceChannelId || cursorSourceChannelId)
             ? sourceChannelId
               ? or(
                   lt(grouped.sentAt, cursorSentAt),
@@ -240,6 +255,7 @@ export async function GET(request: NextRequest) {
           mediaGroupId: grouped.mediaGroupId,
           status: grouped.status,
           skipReason: grouped.skipReason,
+          skipDetail: grouped.skipDetail,
           errorMessage: grouped.errorMessage,
           retryCount: grouped.retryCount,
           hasMedia: grouped.hasMedia,
@@ -268,8 +284,14 @@ export async function GET(request: NextRequest) {
         .innerJoin(schema.sourceChannels, eq(schema.sourceChannels.id, grouped.sourceChannelId))
         .innerJoin(schema.mirrorChannels, eq(schema.mirrorChannels.id, grouped.mirrorChannelId))
         .where(cursorWhereForGrouped)
-        .orderBy(desc(grouped.sentAt), desc(grouped.sourceChannelId), desc(grouped.sourceMessageId))
-        .limit(fetchLimit);
+        .orderBy(
+          ...(rankExpr ? [desc(grouped.rank)] : []),
+          desc(grouped.sentAt),
+          desc(grouped.sourceChannelId),
+          desc(grouped.sourceMessageId),
+        )
+        .limit(fetchLimit)
+        .offset(cursorOffset);
       })()
     : await db
         .select({
@@ -283,6 +305,7 @@ export async function GET(request: NextRequest) {
           mediaGroupId: schema.messageMappings.mediaGroupId,
           status: schema.messageMappings.status,
           skipReason: schema.messageMappings.skipReason,
+          skipDetail: schema.messageMappings.skipDetail,
           errorMessage: schema.messageMappings.errorMessage,
           retryCount: schema.messageMappings.retryCount,
           hasMedia: schema.messageMappings.hasMedia,
@@ -311,8 +334,14 @@ export async function GET(request: NextRequest) {
         .innerJoin(schema.sourceChannels, eq(schema.sourceChannels.id, schema.messageMappings.sourceChannelId))
         .innerJoin(schema.mirrorChannels, eq(schema.mirrorChannels.id, schema.messageMappings.mirrorChannelId))
         .where(and(baseWhere, cursorWhereForMappings))
-        .orderBy(desc(schema.messageMappings.sentAt), desc(schema.messageMappings.sourceChannelId), desc(schema.messageMappings.sourceMessageId))
-        .limit(fetchLimit);
+        .orderBy(
+          ...(rankExpr ? [desc(rankExpr)] : []),
+          desc(schema.messageMappings.sentAt),
+          desc(schema.messageMappings.sourceChannelId),
+          desc(schema.messageMappings.sourceMessageId),
+        )
+        .limit(fetchLimit)
+        .offset(cursorOffset);
 
   type Row = (typeof rows)[number];
 
@@ -320,13 +349,20 @@ export async function GET(request: NextRequest) {
   const items = hasMore ? rows.slice(0, limit) : rows;
   const last = items.length ? items[items.length - 1] : null;
 
+  const archivedMedia = await loadArchivedMediaByMappingIds(items.filter((r) => r.hasMedia).map((r) => r.id));
+  const commentCounts = await loadCommentCountsByPost(
+    items.map((r) => ({ id: r.id, sourceChannelId: r.sourceChannelId, mediaGroupId: groupMedia ? r.mediaGroupId : null })),
+  );
+
   const nextCursor =
     hasMore && last
-      ? {
-          sentAt: last.sentAt.toISOString(),
-          sourceChannelId: last.sourceChannelId,
-          sourceMessageId: last.sourceMessageId,
-        }
+      ? rankExpr
+        ? { offset: cursorOffset + items.length }
+        : {
+            sentAt: last.sentAt.toISOString(),
+            sourceChannelId: last.sourceChannelId,
+            sourceMessageId: last.sourceMessageId,
+          }
       : null;
 
     return NextResponse.json({
@@ -342,18 +378,22 @@ export async function GET(request: NextRequest) {
         groupSize: typeof r.groupSize === "number" ? r.groupSize : 1,
         status: r.status,
         skipReason: r.skipReason,
+        skipDetail: r.skipDetail,
         errorMessage: r.errorMessage,
         retryCount: r.retryCount,
         hasMedia: r.hasMedia,
         fileSize: r.fileSize ?? null,
+        archivedMedia: archivedMedia.get(r.id) ?? null,
         textPreview: r.textPreview,
         text: r.text,
+        searchSnippet: searchQuery ? buildSearchSnippet(r.text, searchQuery) : null,
         sentAt: r.sentAt.toISOString(),
         mirroredAt: r.mirroredAt ? r.mirroredAt.toISOString() : null,
         isDeleted: r.isDeleted,
         deletedAt: r.deletedAt ? r.deletedAt.toISOString() : null,
         editCount: r.editCount,
         lastEditedAt: r.lastEditedAt ? r.lastEditedAt.toISOString() : null,
+        commentCount: commentCounts.get(r.id) ?? 0,
         sourceChannel: {
           id: r.sourceId,
           channelIdentifier: r.sourceChannelIdentifier,
@@ -375,6 +415,7 @@ export async function GET(request: NextRequest) {
       })),
       nextCursor,
       grouped: groupMedia,
+      sort: rankExpr ? "relevance" : "time",
     });
   } catch (error: unknown) {
     console.error(error);
@@ -0,0 +1,159 @@
+import crypto from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { eq, sql } from "drizzle-orm";
+import {
+  db,
+  formatPrometheusMetrics,
+  MIRROR_SERVICE_HEARTBEAT_KEY,
+  PROMETHEUS_CONTENT_TYPE,
+  schema,
+  type MetricFamily,
+} from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toPublicErrorMessage } from "@/lib/api-error";
+
+loadEnv();
+
+export const dynamic = "force-dynamic";
+
+// 按频道/状态统计 message_mappings 在大库上不便宜，短时间内的重复抓取直接用缓存
+const MESSAGE_COUNTS_CACHE_MS = 30_000;
+
+type MessageCountRow = { sourceChannelId: string; status: string; skipReason: string | null; count: number };
+
+let messageCountsCache: { at: number; rows: MessageCountRow[] } | null = null;
+
+function isMetricsTokenValid(request: NextRequest, token: string): boolean {
+  const header = request.headers.get("authorization") ?? "";
+  const provided = header.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : "";
+  const a = crypto.createHash("sha256").update(provided).digest();
+  const b = crypto.createHash("sha256").update(token).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+async function loadMessageCounts(): Promise<MessageCountRow[]> {
+  const now = Date.now();
+  if (messageCountsCache && now - messageCountsCache.at < MESSAGE_COUNTS_CACHE_MS) return messageCountsCache.rows;
+
+  const rows = await db
+    .select({
+      sourceChannelId: schema.messageMappings.sourceChannelId,
+      status: schema.messageMappings.status,
+      skipReason: schema.messageMappings.skipReason,
+      count: sql<number>`count(*)`.mapWith(Number),
+    })
+    .from(schema.messageMappings)
+    .groupBy(schema.messageMappings.sourceChannelId, schema.messageMappings.status, schema.messageMappings.skipReason);
+
+  messageCountsCache = { at: now, rows };
+  return rows;
+}
+
+/**
+ * 数据库视角的指标：消息结果按频道/原因、任务队列、mirror-service 心跳。
+ * 发送延迟、FLOOD_WAIT、实时订阅等运行时指标在 mirror-service 的 /metrics（MIRROR_METRICS_PORT）。
+ *
+ * 设置了 TG_BACK_METRICS_TOKEN 时用 Authorization: Bearer 鉴权；否则沿用 Web 访问密码（未设密码时公开）。
+ */
+export async function GET(request: NextRequest) {
+  const token = process.env.TG_BACK_METRICS_TOKEN?.trim() ?? "";
+  if (token) {
+    if (!isMetricsTokenValid(request, token)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  } else {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+  }
+
+  try {
+    const [messageRows, channelRows, taskRows, heartbeatRows] = await Promise.all([
+      loadMessageCounts(),
+      db
+        .select({
+          id: schema.sourceChannels.id,
+          name: schema.sourceChannels.name,
+          channelIdentifier: schema.sourceChannels.channelIdentifier,
+          groupName: schema.sourceChannels.groupName,
+          isActive: schema.sourceChannels.isActive,
+        })
+        .from(schema.sourceChannels),
+      db
+        .select({
+          taskType: schema.syncTasks.taskType,
+          status: schema.syncTasks.status,
+          count: sql<number>`count(*)`.mapWith(Number),
+        })
+        .from(schema.syncTasks)
+        .groupBy(schema.syncTasks.taskType, schema.syncTasks.status),
+      db
+        .select({ value: schema.settings.value })
+        .from(schema.settings)
+        .where(eq(schema.settings.key, MIRROR_SERVICE_HEARTBEAT_KEY))
+        .limit(1),
+    ]);
+
+    const heartbeatValue = heartbeatRows[0]?.value;
+    const lastHeartbeatAt =
+      heartbeatValue && typeof heartbeatValue === "object" && !Array.isArray(heartbeatValue)
+        ? Date.parse(String((heartbeatValue as Record<string, unknown>).lastHeartbeatAt ?? ""))
+        : Number.NaN;
+
+    // 每种任务类型 × 状态都输出（没有就是 0），告警表达式不用处理缺失序列
+    const taskCounts = new Map(taskRows.map((row) => [`${row.taskType}:${row.status}`, row.count]));
+
+    const families: MetricFamily[] = [
+      {
+        name: "tg_back_messages",
+        help: "message_mappings rows by source channel, status and skip reason",
+        type: "gauge",
+        samples: messageRows.map((row) => ({
+          labels: { source_channel_id: row.sourceChannelId, status: row.status, skip_reason: row.skipReason ?? "" },
+          value: row.count,
+        })),
+      },
+      {
+        name: "tg_back_source_channel_info",
+        help: "Source channel metadata; join on source_channel_id",
+        type: "gauge",
+        samples: channelRows.map((row) => ({
+          labels: {
+            source_channel_id: row.id,
+            name: row.name,
+            channel_identifier: row.channelIdentifier,
+            group_name: row.groupName,
+            active: row.isActive ? "true" : "false",
+          },
+          value: 1,
+        })),
+      },
+      {
+        name: "tg_back_tasks",
+        help: "sync_tasks rows by task type and status",
+        type: "gauge",
+        samples: schema.taskTypeEnum.enumValues.flatMap((taskType) =>
+          schema.taskStatusEnum.enumValues.map((status) => ({
+            labels: { task_type: taskType, status },
+            value: taskCounts.get(`${taskType}:${status}`) ?? 0,
+          })),
+        ),
+      },
+      {
+        name: "tg_back_mirror_service_heartbeat_age_seconds",
+        help: "Seconds since mirror-service last wrote its heartbeat (-1 = never)",
+        type: "gauge",
+        samples: [{ value: Number.isFinite(lastHeartbeatAt) ? Math.max(0, (Date.now() - lastHeartbeatAt) / 1000) : -1 }],
+      },
+    ];
+
+    return new NextResponse(formatPrometheusMetrics(families), {
+      status: 200,
+      headers: { "Content-Type": PROMETHEUS_CONTENT_TYPE, "Cache-Control": "no-store" },
+    });
+  } catch (error: unknown) {
+    console.error(error);
+    return new NextResponse(`# failed to collect metrics: ${toPublicErrorMessage(error, "unknown error")}\n`, {
+      status: 500,
+      headers: { "Content-Type": "text/plain; charset=utf-8" },
+    });
+  }
+}
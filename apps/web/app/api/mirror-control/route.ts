@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { recordAudit } from "@/lib/audit";
+import { callMirrorControl, MirrorControlUnavailableError, type MirrorControlResult } from "@/lib/mirror-control";
+import { getTrimmedString } from "@/lib/utils";
+
+loadEnv();
+
+export const dynamic = "force-dynamic";
+
+// Web 允许转发的操作 -> mirror-service 控制接口路径
+const ACTIONS = {
+  resubscribe: "/realtime/resubscribe",
+  clear_caches: "/caches/clear",
+  resolve_channel: "/channels/resolve",
+  scan_gaps: "/channels/gap-scan",
+} as const;
+
+type MirrorControlAction = keyof typeof ACTIONS;
+
+function isMirrorControlAction(value: string): value is MirrorControlAction {
+  return Object.hasOwn(ACTIONS, value);
+}
+
+function toProxyResponse(result: MirrorControlResult): NextResponse {
+  return NextResponse.json(result.body, { status: result.status, headers: { "Cache-Control": "no-store" } });
+}
+
+function toUnavailableResponse(error: MirrorControlUnavailableError): NextResponse {
+  console.warn(error.message);
+  return NextResponse.json(
+    { error: "mirror-service 控制接口不可用（服务未运行，或 MIRROR_CONTROL_PORT / MIRROR_CONTROL_URL 配置不一致）" },
+    { status: 503, headers: { "Cache-Control": "no-store" } },
+  );
+}
+
+/**
+ * mirror-service 实时状态：运行中的任务与进度、实时订阅、相册缓冲、FLOOD_WAIT 倒计时。
+ */
+export async function GET(request: NextRequest) {
+  const { error: authError } = await requireApiAuth(request);
+  if (authError) return authError;
+
+  try {
+    return toProxyResponse(await callMirrorControl("GET", "/status"));
+  } catch (error: unknown) {
+    if (error instanceof MirrorControlUnavailableError) return toUnavailableResponse(error);
+    return toInternalServerErrorResponse(error, "读取 mirror-service 状态失败");
+  }
+}
+
+/**
+ * 下发立即生效的操作：{ action: "resubscribe" | "clear_caches" | "resolve_channel" | "scan_gaps", sourceChannelId? }
+ */
+export async function POST(request: NextRequest) {
+  const { error: authError } = await requireApiAuth(request);
+  if (authError) return authError;
+
+  try {
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+    const action = getTrimmedString(body.action);
+    if (!isMirrorControlAction(action)) return NextResponse.json({ error: "invalid action" }, { status: 400 });
+
+    const sourceChannelId = getTrimmedString(body.sourceChannelId);
+    if ((action === "resolve_channel" || action === "scan_gaps") && !sourceChannelId) {
+      return NextResponse.json({ error: "sourceChannelId is required" }, { status: 400 });
+    }
+
+    const result = await callMirrorControl("POST", ACTIONS[action], sourceChannelId ? { sourceChannelId } : {});
+    // 没有前后状态可比，记下操作和 mirror-service 的返回码
+    await recordAudit(request, {
+      action: "mirror.control",
+      targetType: sourceChannelId ? "channel" : "mirror_service",
+      targetId: sourceChannelId || null,
+      targetLabel: action,
+      after: { action, sourceChannelId: sourceChannelId || null, status: result.status },
+    });
+    return toProxyResponse(result);
+  } catch (error: unknown) {
+    if (error instanceof MirrorControlUnavailableError) return toUnavailableResponse(error);
+    return toInternalServerErrorResponse(error, "调用 mirror-service 控制接口失败");
+  }
+}
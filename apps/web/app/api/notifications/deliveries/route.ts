@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, desc, eq, inArray, type SQL } from "drizzle-orm";
+import { db, parseNotificationEvent, schema } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { recordAudit } from "@/lib/audit";
+import { getTrimmedString, parseEnumValue, parseIntSafe } from "@/lib/utils";
+
+loadEnv();
+
+/**
+ * 通知投递日志：GET 按规则/状态筛选最近的投递；POST 把失败（或被限流）的投递重新放回队列。
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const { searchParams } = new URL(request.url);
+    const ruleId = getTrimmedString(searchParams.get("ruleId"));
+    const status = parseEnumValue(schema.notificationDeliveryStatusEnum.enumValues, getTrimmedString(searchParams.get("status")));
+    const limitRaw = parseIntSafe(searchParams.get("limit") ?? "");
+    const limit = Math.min(200, Math.max(1, limitRaw ?? 50));
+
+    const conditions: SQL[] = [];
+    if (ruleId) conditions.push(eq(schema.notificationDeliveries.ruleId, ruleId));
+    if (status) conditions.push(eq(schema.notificationDeliveries.status, status));
+
+    const rows = await db
+      .select({
+        id: schema.notificationDeliveries.id,
+        ruleId: schema.notificationDeliveries.ruleId,
+        ruleName: schema.notificationRules.name,
+        targetType: schema.notificationRules.targetType,
+        eventId: schema.notificationDeliveries.eventId,
+        payload: schema.notificationDeliveries.payload,
+        status: schema.notificationDeliveries.status,
+        attempts: schema.notificationDeliveries.attempts,
+        nextAttemptAt: schema.notificationDeliveries.nextAttemptAt,
+        responseStatus: schema.notificationDeliveries.responseStatus,
+        lastError: schema.notificationDeliveries.lastError,
+        sentAt: schema.notificationDeliveries.sentAt,
+        createdAt: schema.notificationDeliveries.createdAt,
+      })
+      .from(schema.notificationDeliveries)
+      .innerJoin(schema.notificationRules, eq(schema.notificationRules.id, schema.notificationDeliveries.ruleId))
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(schema.notificationDeliveries.createdAt))
+      .limit(limit);
+
+    const response = NextResponse.json({
+      deliveries: rows.map(({ payload, ...row }) => {
+        const event = parseNotificationEvent(payload);
+        return {
+          ...row,
+          event: event
+            ? {
+                level: event.level,
+                message: event.message,
+                sourceChannelName: event.sourceChannelName,
+                test: event.test === true,
+              }
+            : null,
+          nextAttemptAt: row.nextAttemptAt.toISOString(),
+          sentAt: row.sentAt?.toISOString() ?? null,
+          createdAt: row.createdAt.toISOString(),
+        };
+      }),
+    });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "加载投递日志失败");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = await request.json().catch(() => ({}));
+    const id = getTrimmedString(body.id);
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const [existing] = await db
+      .select({
+        status: schema.notificationDeliveries.status,
+        attempts: schema.notificationDeliveries.attempts,
+        lastError: schema.notificationDeliveries.lastError,
+        ruleName: schema.notificationRules.name,
+      })
+      .from(schema.notificationDeliveries)
+      .innerJoin(schema.notificationRules, eq(schema.notificationRules.id, schema.notificationDeliveries.ruleId))
+      .where(eq(schema.notificationDeliveries.id, id))
+      .limit(1);
+
+    const updated = await db
+      .update(schema.notificationDeliveries)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: new Date(), lastError: null })
+      .where(
+        and(
+          eq(schema.notificationDeliveries.id, id),
+          inArray(schema.notificationDeliveries.status, ["failed", "rate_limited"]),
+        ),
+      )
+      .returning({ id: schema.notificationDeliveries.id });
+
+    if (!updated.length) return NextResponse.json({ error: "只能重试失败或被限流的投递" }, { status: 400 });
+
+    await recordAudit(request, {
+      action: "notification_delivery.retry",
+      targetType: "notification_delivery",
+      targetId: id,
+      targetLabel: existing?.ruleName ?? null,
+      before: existing ? { status: existing.status, attempts: existing.attempts, lastError: existing.lastError } : null,
+      after: { status: "pending", attempts: 0, lastError: null },
+    });
+    return NextResponse.json({ id });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "重试投递失败");
+  }
+}
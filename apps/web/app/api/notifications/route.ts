@@ -0,0 +1,324 @@
+import { NextRequest, NextResponse } from "next/server";
+import { desc, eq, sql } from "drizzle-orm";
+import {
+  db,
+  isNotificationTargetType,
+  NOTIFICATION_SECRET_FIELDS,
+  schema,
+  validateNotificationTarget,
+  type NotificationTargetType,
+} from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { recordAudit } from "@/lib/audit";
+import { decrypt, encrypt } from "@/lib/crypto";
+import { getTrimmedString } from "@/lib/utils";
+
+loadEnv();
+
+const MAX_RULES = 50;
+const MAX_RATE_LIMIT_WINDOW_SEC = 7 * 24 * 3600;
+
+type EventLevel = (typeof schema.eventLevelEnum.enumValues)[number];
+
+function isEventLevel(value: unknown): value is EventLevel {
+  return value === "info" || value === "warn" || value === "error";
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+type NotificationRuleRow = typeof schema.notificationRules.$inferSelect;
+
+// 密钥字段不回传，只告诉前端哪些已设置
+function toPublicRule(row: NotificationRuleRow) {
+  const target: Record<string, unknown> = { ...row.target };
+  const secretsSet: string[] = [];
+  for (const field of NOTIFICATION_SECRET_FIELDS[row.targetType]) {
+    if (typeof target[field] === "string" && target[field]) secretsSet.push(field);
+    target[field] = "";
+  }
+  return {
+    id: row.id,
+    name: row.name,
+    enabled: row.enabled,
+    targetType: row.targetType,
+    target,
+    secretsSet,
+    minLevel: row.minLevel,
+    sourceChannelIds: row.sourceChannelIds,
+    rateLimitCount: row.rateLimitCount,
+    rateLimitWindowSec: row.rateLimitWindowSec,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * 审计用的快照：密钥字段解密后再比较，否则每次重新加密都会被当成改过（写入前 recordAudit 会脱敏）。
+ */
+function toAuditRule(row: NotificationRuleRow): Record<string, unknown> {
+  const target: Record<string, unknown> = { ...row.target };
+  for (const field of NOTIFICATION_SECRET_FIELDS[row.targetType]) {
+    const value = target[field];
+    if (typeof value !== "string" || !value) continue;
+    try {
+      target[field] = decrypt(value);
+    } catch {
+      // 解密失败（换过密钥）就按密文比较
+    }
+  }
+  return {
+    name: row.name,
+    enabled: row.enabled,
+    targetType: row.targetType,
+    target,
+    minLevel: row.minLevel,
+    sourceChannelIds: row.sourceChannelIds,
+    rateLimitCount: row.rateLimitCount,
+    rateLimitWindowSec: row.rateLimitWindowSec,
+  };
+}
+
+/**
+ * 校验目标配置并加密密钥字段；密钥留空时沿用 existing 里已保存的值。
+ */
+function buildStoredTarget(
+  type: NotificationTargetType,
+  raw: unknown,
+  existing: Record<string, unknown> | null,
+): { target: Record<string, unknown> } | { error: string } {
+  const input: Record<string, unknown> = isRecord(raw) ? { ...raw } : {};
+  const secretFields = NOTIFICATION_SECRET_FIELDS[type];
+  for (const field of secretFields) {
+    const value = input[field];
+    const previous = existing?.[field];
+    if ((typeof value !== "string" || !value) && typeof previous === "string" && previous) {
+      input[field] = decrypt(previous);
+    }
+  }
+
+  const validated = validateNotificationTarget(type, input);
+  if ("error" in validated) return { error: validated.error };
+
+  const target: Record<string, unknown> = { ...validated.target };
+  delete target.type;
+  for (const field of secretFields) {
+    const value = target[field];
+    if (typeof value === "string" && value) target[field] = encrypt(value);
+  }
+  return { target };
+}
+
+type RuleFields = {
+  name?: string;
+  enabled?: boolean;
+  minLevel?: EventLevel;
+  sourceChannelIds?: string[];
+  rateLimitCount?: number;
+  rateLimitWindowSec?: number;
+};
+
+function parseRuleFields(body: Record<string, unknown>): { fields: RuleFields } | { error: string } {
+  const fields: RuleFields = {};
+
+  if (body.name !== undefined) {
+    const name = getTrimmedString(body.name).slice(0, 100);
+    if (!name) return { error: "name is required" };
+    fields.name = name;
+  }
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== "boolean") return { error: "enabled must be boolean" };
+    fields.enabled = body.enabled;
+  }
+  if (body.minLevel !== undefined) {
+    if (!isEventLevel(body.minLevel)) return { error: "minLevel must be info|warn|error" };
+    fields.minLevel = body.minLevel;
+  }
+  if (body.sourceChannelIds !== undefined) {
+    if (!Array.isArray(body.sourceChannelIds) || body.sourceChannelIds.some((v) => typeof v !== "string")) {
+      return { error: "sourceChannelIds must be string[]" };
+    }
+    fields.sourceChannelIds = Array.from(new Set((body.sourceChannelIds as string[]).map((v) => v.trim()).filter(Boolean))).slice(
+      0,
+      500,
+    );
+  }
+  if (body.rateLimitCount !== undefined) {
+    const n = body.rateLimitCount;
+    if (typeof n !== "number" || !Number.isInteger(n) || n < 0 || n > 10_000) {
+      return { error: "rateLimitCount must be an integer between 0 and 10000" };
+    }
+    fields.rateLimitCount = n;
+  }
+  if (body.rateLimitWindowSec !== undefined) {
+    const n = body.rateLimitWindowSec;
+    if (typeof n !== "number" || !Number.isInteger(n) || n < 0 || n > MAX_RATE_LIMIT_WINDOW_SEC) {
+      return { error: `rateLimitWindowSec must be an integer between 0 and ${MAX_RATE_LIMIT_WINDOW_SEC}` };
+    }
+    fields.rateLimitWindowSec = n;
+  }
+
+  return { fields };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const rows = await db.select().from(schema.notificationRules).orderBy(desc(schema.notificationRules.createdAt));
+
+    // 最近 24 小时每条规则的投递统计
+    const stats = await db
+      .select({
+        ruleId: schema.notificationDeliveries.ruleId,
+        status: schema.notificationDeliveries.status,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(schema.notificationDeliveries)
+      .where(sql`${schema.notificationDeliveries.createdAt} > now() - interval '24 hours'`)
+      .groupBy(schema.notificationDeliveries.ruleId, schema.notificationDeliveries.status);
+
+    const statsByRule = new Map<string, Record<string, number>>();
+    for (const row of stats) {
+      const entry = statsByRule.get(row.ruleId) ?? {};
+      entry[row.status] = row.count;
+      statsByRule.set(row.ruleId, entry);
+    }
+
+    const response = NextResponse.json({
+      rules: rows.map((row) => ({ ...toPublicRule(row), stats24h: statsByRule.get(row.id) ?? {} })),
+    });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "加载通知规则失败");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+    if (!isNotificationTargetType(body.targetType)) {
+      return NextResponse.json({ error: "targetType must be webhook|telegram_bot|email" }, { status: 400 });
+    }
+
+    const parsed = parseRuleFields({ name: body.name ?? "", ...body });
+    if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const stored = buildStoredTarget(body.targetType, body.target, null);
+    if ("error" in stored) return NextResponse.json({ error: `target: ${stored.error}` }, { status: 400 });
+
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(schema.notificationRules);
+    if (count >= MAX_RULES) return NextResponse.json({ error: `最多只能创建 ${MAX_RULES} 条通知规则` }, { status: 400 });
+
+    const [row] = await db
+      .insert(schema.notificationRules)
+      .values({ ...parsed.fields, name: parsed.fields.name!, targetType: body.targetType, target: stored.target })
+      .returning();
+
+    await recordAudit(request, {
+      action: "notification_rule.create",
+      targetType: "notification_rule",
+      targetId: row!.id,
+      targetLabel: row!.name,
+      after: toAuditRule(row!),
+    });
+
+    return NextResponse.json({ rule: toPublicRule(row!) });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "创建通知规则失败");
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+    const id = getTrimmedString(body.id);
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const parsed = parseRuleFields(body);
+    if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const [existing] = await db.select().from(schema.notificationRules).where(eq(schema.notificationRules.id, id)).limit(1);
+    if (!existing) return NextResponse.json({ error: "notification rule not found" }, { status: 404 });
+
+    const updates: Partial<typeof schema.notificationRules.$inferInsert> = { ...parsed.fields, updatedAt: new Date() };
+
+    if (body.targetType !== undefined || body.target !== undefined) {
+      const targetType = body.targetType ?? existing.targetType;
+      if (!isNotificationTargetType(targetType)) {
+        return NextResponse.json({ error: "targetType must be webhook|telegram_bot|email" }, { status: 400 });
+      }
+      if (body.target === undefined && targetType !== existing.targetType) {
+        return NextResponse.json({ error: "target is required when changing targetType" }, { status: 400 });
+      }
+      // 换了目标类型就不能沿用旧密钥
+      const previous = targetType === existing.targetType ? existing.target : null;
+      const stored = buildStoredTarget(targetType, body.target ?? toPublicRule(existing).target, previous);
+      if ("error" in stored) return NextResponse.json({ error: `target: ${stored.error}` }, { status: 400 });
+      updates.targetType = targetType;
+      updates.target = stored.target;
+    }
+
+    const [row] = await db
+      .update(schema.notificationRules)
+      .set(updates)
+      .where(eq(schema.notificationRules.id, id))
+      .returning();
+
+    const before = toAuditRule(existing);
+    const after = toAuditRule(row!);
+    const changedKeys = Object.keys(updates).filter((key) => key in after);
+    await recordAudit(request, {
+      action: "notification_rule.update",
+      targetType: "notification_rule",
+      targetId: id,
+      targetLabel: existing.name,
+      before: Object.fromEntries(changedKeys.map((key) => [key, before[key]])),
+      after: Object.fromEntries(changedKeys.map((key) => [key, after[key]])),
+    });
+
+    return NextResponse.json({ rule: toPublicRule(row!) });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "更新通知规则失败");
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = await request.json().catch(() => ({}));
+    const id = getTrimmedString(body.id);
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const deleted = await db
+      .delete(schema.notificationRules)
+      .where(eq(schema.notificationRules.id, id))
+      .returning();
+    const [rule] = deleted;
+    if (!rule) return NextResponse.json({ error: "notification rule not found" }, { status: 404 });
+
+    await recordAudit(request, {
+      action: "notification_rule.delete",
+      targetType: "notification_rule",
+      targetId: rule.id,
+      targetLabel: rule.name,
+      before: toAuditRule(rule),
+    });
+    return NextResponse.json({ id });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "删除通知规则失败");
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db, schema, type NotificationEvent } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { getTrimmedString } from "@/lib/utils";
+
+loadEnv();
+
+/**
+ * 测试推送：插入一条不受频率限制的 pending 投递，由 mirror-service 在几秒内发出；
+ * 结果在投递日志里查看（mirror-service 未运行时会一直是 pending）。
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = await request.json().catch(() => ({}));
+    const id = getTrimmedString(body.id);
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const [rule] = await db
+      .select({ id: schema.notificationRules.id, name: schema.notificationRules.name })
+      .from(schema.notificationRules)
+      .where(eq(schema.notificationRules.id, id))
+      .limit(1);
+    if (!rule) return NextResponse.json({ error: "notification rule not found" }, { status: 404 });
+
+    const payload: NotificationEvent = {
+      id: null,
+      level: "info",
+      message: `这是一条来自 tg-back 的测试通知（规则：${rule.name}）`,
+      sourceChannelId: null,
+      sourceChannelName: null,
+      createdAt: new Date().toISOString(),
+      test: true,
+    };
+
+    const [delivery] = await db
+      .insert(schema.notificationDeliveries)
+      .values({ ruleId: rule.id, payload, status: "pending" })
+      .returning({ id: schema.notificationDeliveries.id });
+
+    return NextResponse.json({ deliveryId: delivery!.id });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "发送测试通知失败");
+  }
+}
@@ -5,6 +5,7 @@ import { db, schema } from "@tg-back/db";
 import { loadEnv } from "@/lib/env";
 import { requireApiAuth } from "@/lib/api-auth";
 import { toPublicErrorMessage } from "@/lib/api-error";
+import { recordAudit } from "@/lib/audit";
 
 loadEnv();
 
@@ -104,7 +105,7 @@ async function saveValue(value: UiPresetsValue): Promise<void> {
 
 export async function POST(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const body = await request.json().catch(() => ({}));
@@ -128,6 +129,13 @@ export async function POST(request: NextRequest) {
 
     if (mode === "replace") {
       await saveValue(imported);
+      await recordAudit(request, {
+        action: "preset.update",
+        targetType: "preset",
+        targetLabel: "import:replace",
+        before: { ...current },
+        after: { ...imported },
+      });
       return NextResponse.json({
         success: true,
         mode,
@@ -155,6 +163,13 @@ export async function POST(request: NextRequest) {
     }
 
     await saveValue(merged);
+    await recordAudit(request, {
+      action: "preset.update",
+      targetType: "preset",
+      targetLabel: "import:merge",
+      before: { ...current },
+      after: { ...merged },
+    });
 
     const beforeCounts = Object.fromEntries(SCOPES.map((s) => [s, current[s].length]));
     const afterCounts = Object.fromEntries(SCOPES.map((s) => [s, merged[s].length]));
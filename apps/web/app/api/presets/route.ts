@@ -5,6 +5,7 @@ import { db, schema } from "@tg-back/db";
 import { loadEnv } from "@/lib/env";
 import { requireApiAuth } from "@/lib/api-auth";
 import { toPublicErrorMessage } from "@/lib/api-error";
+import { recordAudit } from "@/lib/audit";
 import { getTrimmedString } from "@/lib/utils";
 
 loadEnv();
@@ -103,7 +104,7 @@ async function saveUiPresets(value: UiPresetsValue): Promise<void> {
 
 export async function GET(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const url = new URL(request.url);
@@ -132,7 +133,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const body = await request.json().catch(() => ({}));
@@ -156,6 +157,14 @@ export async function POST(request: NextRequest) {
     const nextValue: UiPresetsValue = { ...value, [scope]: nextList };
 
     await saveUiPresets(nextValue);
+    await recordAudit(request, {
+      action: "preset.update",
+      targetType: "preset",
+      targetId: scope,
+      targetLabel: name,
+      before: { [scope]: value[scope] },
+      after: { [scope]: nextList },
+    });
 
     return NextResponse.json({ scope, preset, presets: nextList });
   } catch (error: unknown) {
@@ -166,7 +175,7 @@ export async function POST(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const body = await request.json().catch(() => ({}));
@@ -181,6 +190,14 @@ export async function DELETE(request: NextRequest) {
     const nextValue: UiPresetsValue = { ...value, [scope]: nextList };
 
     await saveUiPresets(nextValue);
+    await recordAudit(request, {
+      action: "preset.update",
+      targetType: "preset",
+      targetId: scope,
+      targetLabel: value[scope].find((p) => p.id === id)?.name ?? null,
+      before: { [scope]: value[scope] },
+      after: { [scope]: nextList },
+    });
 
     return NextResponse.json({ scope, presets: nextList });
   } catch (error: unknown) {
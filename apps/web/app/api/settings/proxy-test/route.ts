@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Api, TelegramClient } from "telegram";
+import { StringSession } from "telegram/sessions";
+import { describeTelegramProxy, parseEnvTelegramProxy, toTelegramProxyOptions } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+import { getTelegramErrorMessage } from "@/lib/telegram-errors";
+import { loadStoredTelegramProxy, resolveTelegramProxyInput } from "@/lib/telegram-proxy";
+import { getErrorMessage } from "@/lib/utils";
+
+loadEnv();
+
+export const dynamic = "force-dynamic";
+
+const TELEGRAM_API_ID = Number(process.env.TELEGRAM_API_ID);
+const TELEGRAM_API_HASH = process.env.TELEGRAM_API_HASH?.trim() ?? "";
+
+const TEST_TIMEOUT_MS = 20_000;
+
+/**
+ * 测试代理：用表单里（未保存）的配置建一个不登录的连接，调用 help.getNearestDc。
+ * password / secret 留空时沿用已保存的值；选直连时与实际连接一致，仍会用 PROXY_HOST 环境变量。
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const ip = getClientIp(request);
+    const limiter = checkRateLimit(`settings:proxy_test:${ip}`, { windowMs: 5 * 60 * 1000, max: 10 });
+    if (!limiter.allowed) {
+      const res = NextResponse.json({ error: "Too many requests, please try again later" }, { status: 429 });
+      res.headers.set("Retry-After", String(limiter.retryAfterSec));
+      return res;
+    }
+
+    if (!TELEGRAM_API_ID || !TELEGRAM_API_HASH) {
+      return NextResponse.json(
+        { error: "TELEGRAM_API_ID and TELEGRAM_API_HASH must be set in environment variables" },
+        { status: 500 },
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const resolved = resolveTelegramProxyInput(body?.proxy, await loadStoredTelegramProxy());
+    if ("error" in resolved) return NextResponse.json({ error: resolved.error }, { status: 400 });
+    const proxy = resolved.proxy.type !== "none" ? resolved.proxy : (parseEnvTelegramProxy(process.env) ?? resolved.proxy);
+
+    const client = new TelegramClient(new StringSession(""), TELEGRAM_API_ID, TELEGRAM_API_HASH, {
+      connectionRetries: 1,
+      proxy: toTelegramProxyOptions(proxy) ?? undefined,
+    });
+    const startedAt = Date.now();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    try {
+      const nearest = await Promise.race([
+        (async () => {
+          await client.connect();
+          return await client.invoke(new Api.help.GetNearestDc());
+        })(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`连接超时（${TEST_TIMEOUT_MS / 1000} 秒）`)), TEST_TIMEOUT_MS);
+        }),
+      ]);
+      return NextResponse.json({
+        ok: true,
+        via: describeTelegramProxy(proxy),
+        latencyMs: Date.now() - startedAt,
+        thisDc: nearest.thisDc,
+        country: nearest.country,
+      });
+    } catch (error: unknown) {
+      const msg = getTelegramErrorMessage(error) ?? getErrorMessage(error);
+      return NextResponse.json({ ok: false, via: describeTelegramProxy(proxy), error: msg }, { status: 400 });
+    } finally {
+      if (timer) clearTimeout(timer);
+      await client.destroy().catch(() => {});
+    }
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "测试代理连接失败");
+  }
+}
@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db, parseSettingValue, type AppSettingKey, schema } from "@tg-back/db";
+import { db, parseSettingValue, type AppSettingKey, schema, validateMessageFilterRules } from "@tg-back/db";
 import { loadEnv } from "@/lib/env";
-import { hashAccessPassword, requireApiAuth, setAccessCookie } from "@/lib/api-auth";
+import { hashAccessPassword, hasWebUsers, requireApiAuth, setAccessCookie } from "@/lib/api-auth";
 import { toPublicErrorMessage } from "@/lib/api-error";
+import { getAuditActor, recordAudit } from "@/lib/audit";
+import { hasTelegramSession } from "@/lib/telegram-accounts";
+import {
+  decryptTelegramProxySecrets,
+  encryptTelegramProxySecrets,
+  loadStoredTelegramProxy,
+  resolveTelegramProxyInput,
+  toPublicTelegramProxy,
+} from "@/lib/telegram-proxy";
 import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
 import { getTrimmedString, isMirrorMode, toNumberOrNull, toStringOrNull } from "@/lib/utils";
 
@@ -34,26 +43,33 @@ function buildMergedSettings(rows: Array<{ key: string; value: unknown }>) {
       continue;
     }
 
+    if (key === "telegram_proxy") {
+      merged[key] = toPublicTelegramProxy(parseSettingValue(key, raw)).proxy;
+      continue;
+    }
+
     merged[key] = parseSettingValue(key, raw);
   }
 
-  const telegramSessionSet = parseSettingValue("telegram_session", map.get("telegram_session")).trim().length > 0;
   const accessPasswordSet = parseSettingValue("access_password", map.get("access_password")).trim().length > 0;
+  const telegramProxySecretsSet = toPublicTelegramProxy(parseSettingValue("telegram_proxy", map.get("telegram_proxy"))).secretsSet;
 
-  return { merged: merged as Record<SettingsKey, unknown>, telegramSessionSet, accessPasswordSet };
+  return { merged: merged as Record<SettingsKey, unknown>, accessPasswordSet, telegramProxySecretsSet };
 }
 
 export async function GET(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
     const rows = await db.select().from(schema.settings);
-    const { merged, telegramSessionSet, accessPasswordSet } = buildMergedSettings(rows);
+    const { merged, accessPasswordSet, telegramProxySecretsSet } = buildMergedSettings(rows);
+    const telegramSessionSet = await hasTelegramSession();
 
     return NextResponse.json({
       settings: merged,
       telegramSessionSet,
       accessPasswordSet,
+      telegramProxySecretsSet,
     });
   } catch (error: unknown) {
     console.error(error);
@@ -63,7 +79,7 @@ export async function GET(request: NextRequest) {
 
 export async function PATCH(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError, access } = await requireApiAuth(request);
     if (authError) return authError;
 
     const ip = getClientIp(request);
@@ -87,6 +103,12 @@ export async function PATCH(request: NextRequest) {
     }
 
     let changedAccessPassword: string | null = null;
+    // 改 access_password 后当前 cookie 会失效，先记下操作者
+    const actor = getAuditActor(access);
+    const previous = new Map((await db.select().from(schema.settings)).map((r) => [r.key, r.value]));
+    // 审计用明文对比（代理密钥每次加密结果都不同），写入时再脱敏
+    const auditBefore: Record<string, unknown> = {};
+    const auditAfter: Record<string, unknown> = {};
 
     for (const [rawKey, rawValue] of entries) {
       const key = getTrimmedString(rawKey);
@@ -97,6 +119,7 @@ export async function PATCH(request: NextRequest) {
 
       const defaultValue = schema.defaultSettings[key as SettingsKey];
       let valueToStore: unknown = rawValue;
+      let auditValue: unknown;
 
       if (key === "access_password") {
         const nextPlain = getTrimmedString(toStringOrNull(rawValue));
@@ -106,6 +129,21 @@ export async function PATCH(request: NextRequest) {
           return NextResponse.json({ error: "default_mirror_mode must be forward|copy" }, { status: 400 });
         }
         valueToStore = rawValue;
+      } else if (key === "telegram_proxy") {
+        const stored = await loadStoredTelegramProxy();
+        const resolved = resolveTelegramProxyInput(rawValue, stored);
+        if ("error" in resolved) {
+          return NextResponse.json({ error: `telegram_proxy: ${resolved.error}` }, { status: 400 });
+        }
+        valueToStore = encryptTelegramProxySecrets(resolved.proxy);
+        auditBefore[key] = decryptTelegramProxySecrets(stored);
+        auditValue = resolved.proxy;
+      } else if (key === "message_filter_rules") {
+        const validated = validateMessageFilterRules(rawValue);
+        if ("error" in validated) {
+          return NextResponse.json({ error: `message_filter_rules: ${validated.error}` }, { status: 400 });
+        }
+        valueToStore = validated.rules;
       } else if (typeof defaultValue === "boolean") {
         const parsed = toBooleanOrNull(rawValue);
         if (parsed == null) return NextResponse.json({ error: `${key} must be boolean` }, { status: 400 });
@@ -126,25 +164,40 @@ export async function PATCH(request: NextRequest) {
           set: { value: valueToStore },
         });
 
+      if (!(key in auditBefore)) auditBefore[key] = parseSettingValue(key as SettingsKey, previous.get(key));
+      auditAfter[key] = auditValue ?? valueToStore;
+
       if (key === "access_password") {
         changedAccessPassword = typeof valueToStore === "string" ? valueToStore.trim() : String(valueToStore ?? "").trim();
       }
     }
 
+    await recordAudit(request, {
+      action: "settings.update",
+      targetType: "settings",
+      before: auditBefore,
+      after: auditAfter,
+      actor,
+    });
+
     const rows = await db.select().from(schema.settings);
-    const { merged, telegramSessionSet, accessPasswordSet } = buildMergedSettings(rows);
+    const { merged, accessPasswordSet, telegramProxySecretsSet } = buildMergedSettings(rows);
+    const telegramSessionSet = await hasTelegramSession();
 
-    const requireReauth = changedAccessPassword != null && changedAccessPassword.trim().length > 0;
+    // 已有 Web 用户时登录不走 access_password，改它不影响当前会话
+    const usersMode = await hasWebUsers();
+    const requireReauth = !usersMode && changedAccessPassword != null && changedAccessPassword.trim().length > 0;
 
     const res = NextResponse.json({
       success: true,
       settings: merged,
       telegramSessionSet,
       accessPasswordSet,
+      telegramProxySecretsSet,
       requireReauth,
     });
 
-    if (changedAccessPassword != null) {
+    if (changedAccessPassword != null && !usersMode) {
       setAccessCookie(res, null);
     }
 
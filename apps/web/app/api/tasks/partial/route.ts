@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db, schema, sqlClient, TASKS_NOTIFY_CHANNEL } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toPublicErrorMessage } from "@/lib/api-error";
+import { recordAudit } from "@/lib/audit";
+import { enqueueHistoryPartialTask } from "@/lib/history-partial";
+import { getTrimmedString, parseIntSafe } from "@/lib/utils";
+
+loadEnv();
+
+function parseMessageId(value: unknown): number | null | "invalid" {
+  if (value == null) return null;
+  const raw = typeof value === "number" ? String(value) : getTrimmedString(value);
+  if (!raw) return null;
+  const parsed = parseIntSafe(raw);
+  if (parsed == null || parsed <= 0) return "invalid";
+  return parsed;
+}
+
+function parseDate(value: unknown): Date | null | "invalid" {
+  const raw = getTrimmedString(value);
+  if (!raw) return null;
+  const date = new Date(raw);
+  if (Number.isNaN(date.getTime())) return "invalid";
+  return date;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = await request.json().catch(() => ({}));
+    const channelId = getTrimmedString(body.channelId);
+    if (!channelId) return NextResponse.json({ error: "channelId is required" }, { status: 400 });
+
+    const startId = parseMessageId(body.startId);
+    const endId = parseMessageId(body.endId);
+    const startAt = parseDate(body.startAt);
+    const endAt = parseDate(body.endAt);
+    const remirror = body.remirror === true;
+
+    if (startId === "invalid" || endId === "invalid") {
+      return NextResponse.json({ error: "startId/endId must be positive integers" }, { status: 400 });
+    }
+    if (startAt === "invalid" || endAt === "invalid") {
+      return NextResponse.json({ error: "startAt/endAt must be valid dates" }, { status: 400 });
+    }
+    if (startId == null && endId == null && startAt == null && endAt == null) {
+      return NextResponse.json({ error: "message id range or date window is required" }, { status: 400 });
+    }
+    if (startId != null && endId != null && startId > endId) {
+      return NextResponse.json({ error: "startId must be <= endId" }, { status: 400 });
+    }
+    if (startAt && endAt && startAt.getTime() > endAt.getTime()) {
+      return NextResponse.json({ error: "startAt must be <= endAt" }, { status: 400 });
+    }
+
+    const [channel] = await db
+      .select({
+        id: schema.sourceChannels.id,
+        channelIdentifier: schema.sourceChannels.channelIdentifier,
+        telegramId: schema.sourceChannels.telegramId,
+      })
+      .from(schema.sourceChannels)
+      .where(eq(schema.sourceChannels.id, channelId))
+      .limit(1);
+
+    if (!channel) return NextResponse.json({ error: "channel not found" }, { status: 404 });
+    if (!channel.telegramId) return NextResponse.json({ error: "channel not resolved yet" }, { status: 409 });
+
+    const task = await enqueueHistoryPartialTask(channelId, { startId, endId, startAt, endAt, remirror });
+    if (!task) {
+      return NextResponse.json({ error: "history_partial task is running" }, { status: 409 });
+    }
+
+    const taskId = task.id;
+    await recordAudit(request, {
+      action: "task.create",
+      targetType: "task",
+      targetId: taskId,
+      targetLabel: channel.channelIdentifier,
+      after: { taskType: "history_partial", sourceChannelId: channelId, startId, endId, startAt, endAt, remirror },
+    });
+
+    try {
+      await sqlClient.notify(
+        TASKS_NOTIFY_CHANNEL,
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          taskId,
+          sourceChannelId: channelId,
+          taskType: "history_partial",
+          status: "pending",
+        }),
+      );
+    } catch {
+      // ignore
+    }
+
+    return NextResponse.json(
+      {
+        message: task.created ? "Partial backfill task created" : "Partial backfill task requeued",
+        taskId,
+        taskCreated: true,
+      },
+      { status: 201 },
+    );
+  } catch (error: unknown) {
+    console.error(error);
+    return NextResponse.json({ error: toPublicErrorMessage(error, "区间回填任务创建失败") }, { status: 500 });
+  }
+}
@@ -4,13 +4,14 @@ import { db, schema, sqlClient, TASKS_NOTIFY_CHANNEL } from "@tg-back/db";
 import { loadEnv } from "@/lib/env";
 import { requireApiAuth } from "@/lib/api-auth";
 import { toPublicErrorMessage } from "@/lib/api-error";
+import { recordAudit } from "@/lib/audit";
 import { getTrimmedString } from "@/lib/utils";
 
 loadEnv();
 
 export async function POST(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const body = await request.json().catch(() => ({}));
@@ -86,6 +87,13 @@ export async function POST(request: NextRequest) {
           lastProcessedId: null,
         })
         .where(eq(schema.syncTasks.id, existing.id));
+      await recordAudit(request, {
+        action: "task.create",
+        targetType: "task",
+        targetId: existing.id,
+        targetLabel: channel.channelIdentifier,
+        after: { taskType: "retry_failed", sourceChannelId: channelId, failedCount, requeued: true },
+      });
 
       try {
         await sqlClient.notify(
@@ -133,6 +141,14 @@ export async function POST(request: NextRequest) {
     }
 
     if (taskId) {
+      await recordAudit(request, {
+        action: "task.create",
+        targetType: "task",
+        targetId: taskId,
+        targetLabel: channel.channelIdentifier,
+        after: { taskType: "retry_failed", sourceChannelId: channelId, failedCount, requeued: false },
+      });
+
       try {
         await sqlClient.notify(
           TASKS_NOTIFY_CHANNEL,
@@ -4,13 +4,14 @@ import { db, schema, sqlClient, TASKS_NOTIFY_CHANNEL } from "@tg-back/db";
 import { loadEnv } from "@/lib/env";
 import { requireApiAuth } from "@/lib/api-auth";
 import { toPublicErrorMessage } from "@/lib/api-error";
+import { recordAudit } from "@/lib/audit";
 import { getTrimmedString, parseEnumValue, parseIntSafe } from "@/lib/utils";
 
 loadEnv();
 
 export async function GET(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const url = new URL(request.url);
@@ -94,7 +95,7 @@ export async function GET(request: NextRequest) {
 
 export async function PATCH(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const body = await request.json().catch(() => ({}));
@@ -106,16 +107,7 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: "action must be requeue|restart|pause|resume" }, { status: 400 });
     }
 
-    const [task] = await db
-      .select({
-        id: schema.syncTasks.id,
-        status: schema.syncTasks.status,
-        taskType: schema.syncTasks.taskType,
-        sourceChannelId: schema.syncTasks.sourceChannelId,
-      })
-      .from(schema.syncTasks)
-      .where(eq(schema.syncTasks.id, id))
-      .limit(1);
+    const [task] = await db.select().from(schema.syncTasks).where(eq(schema.syncTasks.id, id)).limit(1);
 
     if (!task) return NextResponse.json({ error: "task not found" }, { status: 404 });
     if ((action === "requeue" || action === "restart") && task.status === "running") {
@@ -155,6 +147,15 @@ export async function PATCH(request: NextRequest) {
 
     await db.update(schema.syncTasks).set(set).where(eq(schema.syncTasks.id, id));
 
+    await recordAudit(request, {
+      action: "task.update",
+      targetType: "task",
+      targetId: id,
+      targetLabel: task.taskType,
+      before: Object.fromEntries(Object.keys(set).map((key) => [key, task[key as keyof typeof task]])),
+      after: set,
+    });
+
     try {
       await sqlClient.notify(
         TASKS_NOTIFY_CHANNEL,
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from "next/server";
+import { asc, eq, like, sql } from "drizzle-orm";
+import {
+  db,
+  getActiveCronWindow,
+  getNextCronRuns,
+  schema,
+  TASK_SCHEDULE_PAUSE_PREFIX,
+  toTaskScheduleRule,
+  validateTaskSchedule,
+  type TaskScheduleConfig,
+} from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { recordAudit } from "@/lib/audit";
+import { getTrimmedString } from "@/lib/utils";
+
+loadEnv();
+
+const MAX_SCHEDULES = 50;
+const NEXT_RUNS_COUNT = 3;
+
+type TaskScheduleRow = typeof schema.taskSchedules.$inferSelect;
+
+function toScheduleConfig(row: TaskScheduleRow): TaskScheduleConfig {
+  return {
+    name: row.name,
+    enabled: row.enabled,
+    action: row.action,
+    cronExpression: row.cronExpression,
+    timezone: row.timezone,
+    durationMinutes: row.durationMinutes,
+    taskTypes: row.taskTypes,
+    lookbackMinutes: row.lookbackMinutes,
+    sourceChannelIds: row.sourceChannelIds,
+    groupNames: row.groupNames,
+  };
+}
+
+function toPublicSchedule(row: TaskScheduleRow, now: Date) {
+  const rule = toTaskScheduleRule(row);
+  const nextRuns = rule ? getNextCronRuns(rule.cron, now, NEXT_RUNS_COUNT, rule.timezone) : [];
+  const activeWindow =
+    rule && row.action !== "enqueue" ? getActiveCronWindow(rule.cron, row.durationMinutes, now, rule.timezone) : null;
+  return {
+    id: row.id,
+    ...toScheduleConfig(row),
+    nextRuns: nextRuns.map((d) => d.toISOString()),
+    activeWindow: activeWindow ? { start: activeWindow.start.toISOString(), end: activeWindow.end.toISOString() } : null,
+    lastRunAt: row.lastRunAt?.toISOString() ?? null,
+    lastResult: row.lastResult,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const rows = await db.select().from(schema.taskSchedules).orderBy(asc(schema.taskSchedules.createdAt));
+
+    // 当前被各计划暂停的任务数（last_error = "paused by schedule: 计划名"）
+    const paused = await db
+      .select({ lastError: schema.syncTasks.lastError, count: sql<number>`count(*)::int` })
+      .from(schema.syncTasks)
+      .where(like(schema.syncTasks.lastError, `${TASK_SCHEDULE_PAUSE_PREFIX}%`))
+      .groupBy(schema.syncTasks.lastError);
+    const pausedByName = new Map<string, number>();
+    for (const row of paused) {
+      const name = (row.lastError ?? "").slice(TASK_SCHEDULE_PAUSE_PREFIX.length).replace(/^:\s*/, "");
+      pausedByName.set(name, (pausedByName.get(name) ?? 0) + row.count);
+    }
+
+    const now = new Date();
+    const response = NextResponse.json({
+      schedules: rows.map((row) => ({ ...toPublicSchedule(row, now), pausedTaskCount: pausedByName.get(row.name) ?? 0 })),
+    });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "加载任务计划失败");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+    const validated = validateTaskSchedule(body);
+    if ("error" in validated) return NextResponse.json({ error: validated.error }, { status: 400 });
+
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(schema.taskSchedules);
+    if (count >= MAX_SCHEDULES) return NextResponse.json({ error: `最多只能创建 ${MAX_SCHEDULES} 个任务计划` }, { status: 400 });
+
+    // lastRunAt 留空：enqueue 计划从创建时间开始算下一次触发
+    const [row] = await db.insert(schema.taskSchedules).values(validated.schedule).returning();
+    await recordAudit(request, {
+      action: "task_schedule.create",
+      targetType: "task_schedule",
+      targetId: row!.id,
+      targetLabel: row!.name,
+      after: toScheduleConfig(row!),
+    });
+    return NextResponse.json({ schedule: toPublicSchedule(row!, new Date()) });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "创建任务计划失败");
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+    const id = getTrimmedString(body.id);
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const [existing] = await db.select().from(schema.taskSchedules).where(eq(schema.taskSchedules.id, id)).limit(1);
+    if (!existing) return NextResponse.json({ error: "task schedule not found" }, { status: 404 });
+
+    const patch = { ...body };
+    delete patch.id;
+    const validated = validateTaskSchedule({ ...toScheduleConfig(existing), ...patch });
+    if ("error" in validated) return NextResponse.json({ error: validated.error }, { status: 400 });
+
+    const updates: Partial<typeof schema.taskSchedules.$inferInsert> = { ...validated.schedule, updatedAt: new Date() };
+    // 改了触发时间就从现在重新计算，避免按旧的 lastRunAt 立刻补跑一次
+    if (validated.schedule.cronExpression !== existing.cronExpression || validated.schedule.timezone !== existing.timezone) {
+      updates.lastRunAt = new Date();
+    }
+
+    const [row] = await db.update(schema.taskSchedules).set(updates).where(eq(schema.taskSchedules.id, id)).returning();
+    await recordAudit(request, {
+      action: "task_schedule.update",
+      targetType: "task_schedule",
+      targetId: id,
+      targetLabel: existing.name,
+      before: toScheduleConfig(existing),
+      after: toScheduleConfig(row!),
+    });
+    return NextResponse.json({ schedule: toPublicSchedule(row!, new Date()) });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "更新任务计划失败");
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = await request.json().catch(() => ({}));
+    const id = getTrimmedString(body.id);
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    // 被它暂停的任务由 mirror-service 在下一轮检查时恢复
+    const deleted = await db
+      .delete(schema.taskSchedules)
+      .where(eq(schema.taskSchedules.id, id))
+      .returning();
+    const [schedule] = deleted;
+    if (!schedule) return NextResponse.json({ error: "task schedule not found" }, { status: 404 });
+
+    await recordAudit(request, {
+      action: "task_schedule.delete",
+      targetType: "task_schedule",
+      targetId: schedule.id,
+      targetLabel: schedule.name,
+      before: toScheduleConfig(schedule),
+    });
+    return NextResponse.json({ id });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "删除任务计划失败");
+  }
+}
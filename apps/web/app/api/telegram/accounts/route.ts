@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { asc, eq } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { recordAudit } from "@/lib/audit";
+import { getTrimmedString } from "@/lib/utils";
+
+loadEnv();
+
+type TelegramAccountRow = typeof schema.telegramAccounts.$inferSelect;
+
+// 不返回 session
+function toPublicAccount(row: TelegramAccountRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    hasSession: row.session.trim().length > 0,
+    isActive: row.isActive,
+    phoneNumber: row.phoneNumber,
+    telegramUserId: row.telegramUserId?.toString() ?? null,
+    username: row.username,
+    displayName: row.displayName,
+    lastConnectedAt: row.lastConnectedAt?.toISOString() ?? null,
+    lastError: row.lastError,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const rows = await db.select().from(schema.telegramAccounts).orderBy(asc(schema.telegramAccounts.createdAt));
+    const channels = await db
+      .select({
+        telegramAccountId: schema.sourceChannels.telegramAccountId,
+        activeAccountId: schema.sourceChannels.activeAccountId,
+      })
+      .from(schema.sourceChannels);
+
+    const assignedCounts = new Map<string, number>();
+    const activeCounts = new Map<string, number>();
+    for (const channel of channels) {
+      if (channel.telegramAccountId) {
+        assignedCounts.set(channel.telegramAccountId, (assignedCounts.get(channel.telegramAccountId) ?? 0) + 1);
+      }
+      if (channel.activeAccountId) {
+        activeCounts.set(channel.activeAccountId, (activeCounts.get(channel.activeAccountId) ?? 0) + 1);
+      }
+    }
+
+    const response = NextResponse.json({
+      accounts: rows.map((row) => ({
+        ...toPublicAccount(row),
+        assignedChannelCount: assignedCounts.get(row.id) ?? 0,
+        activeChannelCount: activeCounts.get(row.id) ?? 0,
+      })),
+    });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "加载 Telegram 账号失败");
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+    const id = getTrimmedString(body.id);
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const updates: Partial<typeof schema.telegramAccounts.$inferInsert> = {};
+    if (body.name !== undefined) {
+      const name = getTrimmedString(body.name);
+      if (!name) return NextResponse.json({ error: "name is required" }, { status: 400 });
+      updates.name = name;
+    }
+    if (body.isActive !== undefined) {
+      if (typeof body.isActive !== "boolean") return NextResponse.json({ error: "isActive must be boolean" }, { status: 400 });
+      updates.isActive = body.isActive;
+    }
+    if (!Object.keys(updates).length) {
+      return NextResponse.json({ error: "name or isActive is required" }, { status: 400 });
+    }
+
+    const [existing] = await db
+      .select({ name: schema.telegramAccounts.name, isActive: schema.telegramAccounts.isActive })
+      .from(schema.telegramAccounts)
+      .where(eq(schema.telegramAccounts.id, id))
+      .limit(1);
+    if (!existing) return NextResponse.json({ error: "account not found" }, { status: 404 });
+
+    const [row] = await db
+      .update(schema.telegramAccounts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(schema.telegramAccounts.id, id))
+      .returning();
+    if (!row) return NextResponse.json({ error: "account not found" }, { status: 404 });
+
+    await recordAudit(request, {
+      action: "telegram_account.update",
+      targetType: "telegram_account",
+      targetId: row.id,
+      targetLabel: existing.name,
+      before: Object.fromEntries(Object.keys(updates).map((key) => [key, existing[key as keyof typeof existing]])),
+      after: updates,
+    });
+
+    return NextResponse.json({ account: toPublicAccount(row) });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "更新 Telegram 账号失败");
+  }
+}
+
+/**
+ * 删除账号：指定给该账号的频道会回到自动分配（外键 set null），mirror-service 会断开该账号的连接。
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = await request.json().catch(() => ({}));
+    const id = getTrimmedString(body.id);
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const deleted = await db
+      .delete(schema.telegramAccounts)
+      .where(eq(schema.telegramAccounts.id, id))
+      .returning({
+        id: schema.telegramAccounts.id,
+        name: schema.telegramAccounts.name,
+        isActive: schema.telegramAccounts.isActive,
+        phoneNumber: schema.telegramAccounts.phoneNumber,
+        username: schema.telegramAccounts.username,
+        session: schema.telegramAccounts.session,
+      });
+    const [account] = deleted;
+    if (!account) return NextResponse.json({ error: "account not found" }, { status: 404 });
+
+    // session 会被脱敏，只能看出删除前是否已登录
+    await recordAudit(request, {
+      action: "telegram_account.delete",
+      targetType: "telegram_account",
+      targetId: account.id,
+      targetLabel: account.name,
+      before: account,
+    });
+    return NextResponse.json({ id });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "删除 Telegram 账号失败");
+  }
+}
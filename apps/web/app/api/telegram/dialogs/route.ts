@@ -1,22 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { eq } from "drizzle-orm";
 import { Api, TelegramClient } from "telegram";
 import { StringSession } from "telegram/sessions";
-import { db, parseSettingValue, schema } from "@tg-back/db";
-import { decrypt } from "@/lib/crypto";
 import { loadEnv } from "@/lib/env";
 import { requireApiAuth } from "@/lib/api-auth";
 import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { loadTelegramAccountSession } from "@/lib/telegram-accounts";
 import { getTelegramErrorMessage } from "@/lib/telegram-errors";
+import { loadTelegramProxy } from "@/lib/telegram-proxy";
 
 loadEnv();
 
 const TELEGRAM_API_ID = Number(process.env.TELEGRAM_API_ID);
 const TELEGRAM_API_HASH = process.env.TELEGRAM_API_HASH?.trim() ?? "";
 
-const PROXY_HOST = process.env.PROXY_HOST || process.env.WINDOWS_HOST || "";
-const PROXY_PORT = process.env.PROXY_PORT ? Number.parseInt(process.env.PROXY_PORT, 10) : 10808;
-
 type TelegramChannelOption = {
   title: string;
   identifier: string;
@@ -51,38 +47,22 @@ function buildChannelIdentifier(username: unknown, telegramId: string | null): s
   return null;
 }
 
-async function createTelegramClientFromDbSession(): Promise<TelegramClient> {
+async function createTelegramClientFromDbSession(accountId: string | null): Promise<TelegramClient> {
   if (!TELEGRAM_API_ID || !TELEGRAM_API_HASH) {
     throw new Error("TELEGRAM_API_ID and TELEGRAM_API_HASH must be set in environment variables");
   }
 
-  const [row] = await db
-    .select({ value: schema.settings.value })
-    .from(schema.settings)
-    .where(eq(schema.settings.key, "telegram_session"))
-    .limit(1);
-
-  const encryptedSession = parseSettingValue("telegram_session", row?.value);
-  const sessionString = decrypt(encryptedSession);
-  if (!sessionString.trim()) {
-    throw new Error("Telegram session 未配置，请先在首页完成 Telegram 登录");
-  }
-
-  const clientOptions: ConstructorParameters<typeof TelegramClient>[3] = { connectionRetries: 3 };
-  if (PROXY_HOST) {
-    clientOptions.proxy = {
-      socksType: 5,
-      ip: PROXY_HOST,
-      port: Number.isFinite(PROXY_PORT) ? PROXY_PORT : 10808,
-    } as unknown as ConstructorParameters<typeof TelegramClient>[3]["proxy"];
-  }
+  const sessionString = await loadTelegramAccountSession(accountId);
 
-  return new TelegramClient(new StringSession(sessionString), TELEGRAM_API_ID, TELEGRAM_API_HASH, clientOptions);
+  return new TelegramClient(new StringSession(sessionString), TELEGRAM_API_ID, TELEGRAM_API_HASH, {
+    connectionRetries: 3,
+    proxy: await loadTelegramProxy(),
+  });
 }
 
 export async function GET(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     const url = new URL(request.url);
@@ -92,7 +72,7 @@ export async function GET(request: NextRequest) {
 
     let client: TelegramClient | null = null;
     try {
-      client = await createTelegramClientFromDbSession();
+      client = await createTelegramClientFromDbSession(url.searchParams.get("accountId")?.trim() || null);
       await client.connect();
 
       const dialogs = await client.getDialogs({ limit });
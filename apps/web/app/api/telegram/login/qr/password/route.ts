@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadEnv } from "@/lib/env";
+import { checkTelegramPassword, cleanupExpiredSessions, loginSessions } from "@/lib/telegram-login";
+import { saveTelegramLoginSession } from "@/lib/telegram-accounts";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { getTelegramErrorMessage } from "@/lib/telegram-errors";
+
+loadEnv();
+
+/**
+ * 扫码登录后账号开启了两步验证：提交 2FA 密码完成登录。密码错误时登录会话保留，可重试。
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    cleanupExpiredSessions();
+
+    const body = await request.json().catch(() => ({}));
+    const loginId = typeof body.loginId === "string" ? body.loginId.trim() : "";
+    const password = typeof body.password === "string" ? body.password : "";
+
+    if (!loginId || !password) {
+      return NextResponse.json({ error: "loginId and password are required" }, { status: 400 });
+    }
+
+    const session = loginSessions.get(loginId);
+    if (!session || session.method !== "qr") {
+      return NextResponse.json({ error: "Login session expired. Please restart the login process." }, { status: 400 });
+    }
+    if (!session.passwordRequired) {
+      return NextResponse.json({ error: "QR login is not waiting for a password" }, { status: 409 });
+    }
+
+    await checkTelegramPassword(session.client, password);
+
+    const accountId = await saveTelegramLoginSession(request, session.client, {
+      accountId: session.accountId,
+      accountName: session.accountName,
+      phoneNumber: null,
+    });
+
+    loginSessions.delete(loginId);
+    await session.client.disconnect();
+
+    return NextResponse.json({ success: true, accountId });
+  } catch (error: unknown) {
+    const telegramMsg = getTelegramErrorMessage(error);
+    if (telegramMsg) return NextResponse.json({ error: telegramMsg }, { status: 400 });
+    return toInternalServerErrorResponse(error, "Telegram 登录失败");
+  }
+}
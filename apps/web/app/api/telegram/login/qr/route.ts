@@ -0,0 +1,152 @@
+import crypto from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import QRCode from "qrcode";
+import { TelegramClient } from "telegram";
+import { StringSession } from "telegram/sessions";
+import { db, schema } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import {
+  cleanupExpiredSessions,
+  createQrLoginSession,
+  loginSessions,
+  pollQrLogin,
+  type QrLoginSession,
+} from "@/lib/telegram-login";
+import { saveTelegramLoginSession } from "@/lib/telegram-accounts";
+import { requireApiAuth } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+import { getTelegramErrorMessage } from "@/lib/telegram-errors";
+import { loadTelegramProxy } from "@/lib/telegram-proxy";
+
+loadEnv();
+
+export const dynamic = "force-dynamic";
+
+const TELEGRAM_API_ID = Number(process.env.TELEGRAM_API_ID);
+const TELEGRAM_API_HASH = process.env.TELEGRAM_API_HASH?.trim() ?? "";
+
+async function toPendingPayload(session: QrLoginSession) {
+  const qrDataUrl = await QRCode.toDataURL(session.url, { margin: 1, width: 240 });
+  return { status: "pending", qrUrl: session.url, qrDataUrl, expiresAt: new Date(session.expiresAt).toISOString() };
+}
+
+/**
+ * 开始扫码登录（auth.ExportLoginToken）：返回 loginId 与二维码，之后用 GET 轮询状态。
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    cleanupExpiredSessions();
+
+    const body = await request.json().catch(() => ({}));
+    const accountId = typeof body.accountId === "string" ? body.accountId.trim() : "";
+    const accountName = typeof body.name === "string" ? body.name.trim() : "";
+
+    const ip = getClientIp(request);
+    const ipLimiter = checkRateLimit(`telegram:qr_login:ip:${ip}`, { windowMs: 10 * 60 * 1000, max: 10 });
+    if (!ipLimiter.allowed) {
+      const res = NextResponse.json({ error: "Too many requests, please try again later" }, { status: 429 });
+      res.headers.set("Retry-After", String(ipLimiter.retryAfterSec));
+      return res;
+    }
+
+    if (!TELEGRAM_API_ID || !TELEGRAM_API_HASH) {
+      return NextResponse.json(
+        { error: "TELEGRAM_API_ID and TELEGRAM_API_HASH must be set in environment variables" },
+        { status: 500 },
+      );
+    }
+
+    if (accountId) {
+      const [account] = await db
+        .select({ id: schema.telegramAccounts.id })
+        .from(schema.telegramAccounts)
+        .where(eq(schema.telegramAccounts.id, accountId))
+        .limit(1);
+      if (!account) return NextResponse.json({ error: "account not found" }, { status: 404 });
+    }
+
+    try {
+      const client = new TelegramClient(new StringSession(""), TELEGRAM_API_ID, TELEGRAM_API_HASH, {
+        connectionRetries: 3,
+        proxy: await loadTelegramProxy(),
+      });
+      let keepClient = false;
+
+      try {
+        await client.connect();
+
+        const session = await createQrLoginSession(
+          client,
+          { apiId: TELEGRAM_API_ID, apiHash: TELEGRAM_API_HASH },
+          { accountId: accountId || null, accountName },
+        );
+        const loginId = crypto.randomUUID();
+        loginSessions.set(loginId, session);
+        keepClient = true;
+
+        return NextResponse.json(
+          { loginId, ...(await toPendingPayload(session)) },
+          { headers: { "Cache-Control": "no-store" } },
+        );
+      } finally {
+        if (!keepClient) {
+          await client.disconnect().catch(() => {});
+        }
+      }
+    } catch (error: unknown) {
+      const telegramMsg = getTelegramErrorMessage(error);
+      if (telegramMsg) return NextResponse.json({ error: telegramMsg }, { status: 400 });
+      return toInternalServerErrorResponse(error, "生成登录二维码失败");
+    }
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "生成登录二维码失败");
+  }
+}
+
+/**
+ * 轮询扫码状态：pending（附当前二维码，过期会自动换新）/ password（需要 2FA 密码）/ success（已保存 session）。
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    cleanupExpiredSessions();
+
+    const loginId = request.nextUrl.searchParams.get("loginId")?.trim() ?? "";
+    if (!loginId) return NextResponse.json({ error: "loginId is required" }, { status: 400 });
+
+    const session = loginSessions.get(loginId);
+    if (!session || session.method !== "qr") {
+      return NextResponse.json({ error: "Login session expired. Please restart the login process." }, { status: 400 });
+    }
+
+    const state = await pollQrLogin(session, { apiId: TELEGRAM_API_ID, apiHash: TELEGRAM_API_HASH });
+    if (state === "pending") {
+      return NextResponse.json(await toPendingPayload(session), { headers: { "Cache-Control": "no-store" } });
+    }
+    if (state === "password") {
+      return NextResponse.json({ status: "password", message: "请输入两步验证密码" }, { headers: { "Cache-Control": "no-store" } });
+    }
+
+    const accountId = await saveTelegramLoginSession(request, session.client, {
+      accountId: session.accountId,
+      accountName: session.accountName,
+      phoneNumber: null,
+    });
+
+    loginSessions.delete(loginId);
+    await session.client.disconnect();
+
+    return NextResponse.json({ status: "success", accountId }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error: unknown) {
+    const telegramMsg = getTelegramErrorMessage(error);
+    if (telegramMsg) return NextResponse.json({ error: telegramMsg }, { status: 400 });
+    return toInternalServerErrorResponse(error, "Telegram 扫码登录失败");
+  }
+}
@@ -1,13 +1,16 @@
 import crypto from "node:crypto";
 import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
 import { TelegramClient } from "telegram";
 import { StringSession } from "telegram/sessions";
+import { db, schema } from "@tg-back/db";
 import { loadEnv } from "@/lib/env";
 import { cleanupExpiredSessions, loginSessions } from "@/lib/telegram-login";
 import { requireApiAuth } from "@/lib/api-auth";
 import { toInternalServerErrorResponse } from "@/lib/api-response";
 import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
 import { getTelegramErrorMessage } from "@/lib/telegram-errors";
+import { loadTelegramProxy } from "@/lib/telegram-proxy";
 
 loadEnv();
 
@@ -16,13 +19,15 @@ const TELEGRAM_API_HASH = process.env.TELEGRAM_API_HASH?.trim() ?? "";
 
 export async function POST(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     cleanupExpiredSessions();
 
     const body = await request.json().catch(() => ({}));
     const phoneNumber = typeof body.phoneNumber === "string" ? body.phoneNumber.trim() : "";
+    const accountId = typeof body.accountId === "string" ? body.accountId.trim() : "";
+    const accountName = typeof body.name === "string" ? body.name.trim() : "";
 
     const ip = getClientIp(request);
     const ipLimiter = checkRateLimit(`telegram:send_code:ip:${ip}`, { windowMs: 10 * 60 * 1000, max: 5 });
@@ -53,8 +58,20 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "phoneNumber is required" }, { status: 400 });
     }
 
+    if (accountId) {
+      const [account] = await db
+        .select({ id: schema.telegramAccounts.id })
+        .from(schema.telegramAccounts)
+        .where(eq(schema.telegramAccounts.id, accountId))
+        .limit(1);
+      if (!account) return NextResponse.json({ error: "account not found" }, { status: 404 });
+    }
+
     try {
-      const client = new TelegramClient(new StringSession(""), TELEGRAM_API_ID, TELEGRAM_API_HASH, { connectionRetries: 3 });
+      const client = new TelegramClient(new StringSession(""), TELEGRAM_API_ID, TELEGRAM_API_HASH, {
+        connectionRetries: 3,
+        proxy: await loadTelegramProxy(),
+      });
       let keepClient = false;
 
       try {
@@ -64,9 +81,12 @@ export async function POST(request: NextRequest) {
 
         const loginId = crypto.randomUUID();
         loginSessions.set(loginId, {
+          method: "phone",
           client,
           phoneCodeHash: result.phoneCodeHash,
           phoneNumber,
+          accountId: accountId || null,
+          accountName,
           createdAt: Date.now(),
         });
         keepClient = true;
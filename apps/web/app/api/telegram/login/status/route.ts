@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { eq } from "drizzle-orm";
+import { ne, sql } from "drizzle-orm";
 import { db } from "@tg-back/db";
 import { schema } from "@tg-back/db";
 import { loadEnv } from "@/lib/env";
@@ -10,16 +10,16 @@ loadEnv();
 
 export async function GET(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
-    const [row] = await db.select().from(schema.settings).where(eq(schema.settings.key, "telegram_session"));
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(schema.telegramAccounts)
+      .where(ne(schema.telegramAccounts.session, ""));
 
-    const value = row?.value;
-    const sessionString = typeof value === "string" ? value : value == null ? "" : String(value);
-    const isLoggedIn = sessionString.trim().length > 0;
-
-    return NextResponse.json({ isLoggedIn });
+    const accountCount = row?.count ?? 0;
+    return NextResponse.json({ isLoggedIn: accountCount > 0, accountCount });
   } catch (error: unknown) {
     return toInternalServerErrorResponse(error, "获取 Telegram 登录状态失败");
   }
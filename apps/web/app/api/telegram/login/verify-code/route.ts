@@ -1,11 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { Api } from "telegram";
-import { computeCheck } from "telegram/Password";
-import { db } from "@tg-back/db";
-import { schema } from "@tg-back/db";
 import { loadEnv } from "@/lib/env";
-import { encrypt } from "@/lib/crypto";
-import { cleanupExpiredSessions, loginSessions } from "@/lib/telegram-login";
+import { checkTelegramPassword, cleanupExpiredSessions, loginSessions } from "@/lib/telegram-login";
+import { saveTelegramLoginSession } from "@/lib/telegram-accounts";
 import { requireApiAuth } from "@/lib/api-auth";
 import { toInternalServerErrorResponse } from "@/lib/api-response";
 import { getTelegramErrorMessage } from "@/lib/telegram-errors";
@@ -14,7 +11,7 @@ loadEnv();
 
 export async function POST(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
     cleanupExpiredSessions();
@@ -29,7 +26,7 @@ export async function POST(request: NextRequest) {
     }
 
     const session = loginSessions.get(loginId);
-    if (!session) {
+    if (!session || session.method !== "phone") {
       return NextResponse.json({ error: "Login session expired. Please restart the login process." }, { status: 400 });
     }
 
@@ -49,33 +46,22 @@ export async function POST(request: NextRequest) {
           return NextResponse.json({ requiresPassword: true, message: "请输入两步验证密码" });
         }
 
-        const passwordInfo = await client.invoke(new Api.account.GetPassword());
-        const passwordCheck = await computeCheck(passwordInfo, password);
-        await client.invoke(
-          new Api.auth.CheckPassword({
-            password: passwordCheck,
-          }),
-        );
+        await checkTelegramPassword(client, password);
       } else {
         throw error;
       }
     }
 
-    const sessionString = client.session.save() as unknown as string;
-    const encryptedSession = encrypt(sessionString);
-
-    await db
-      .insert(schema.settings)
-      .values({ key: "telegram_session", value: encryptedSession })
-      .onConflictDoUpdate({
-        target: schema.settings.key,
-        set: { value: encryptedSession },
-      });
+    const accountId = await saveTelegramLoginSession(request, client, {
+      accountId: session.accountId,
+      accountName: session.accountName,
+      phoneNumber,
+    });
 
     loginSessions.delete(loginId);
     await client.disconnect();
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, accountId });
   } catch (error: unknown) {
     const telegramMsg = getTelegramErrorMessage(error);
     if (telegramMsg) return NextResponse.json({ error: telegramMsg }, { status: 400 });
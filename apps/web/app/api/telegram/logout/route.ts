@@ -5,15 +5,38 @@ import { schema } from "@tg-back/db";
 import { loadEnv } from "@/lib/env";
 import { requireApiAuth } from "@/lib/api-auth";
 import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { recordAudit } from "@/lib/audit";
 
 loadEnv();
 
 export async function POST(request: NextRequest) {
   try {
-    const authError = await requireApiAuth(request);
+    const { error: authError } = await requireApiAuth(request);
     if (authError) return authError;
 
-    await db.update(schema.settings).set({ value: "" }).where(eq(schema.settings.key, "telegram_session"));
+    // 传 accountId 只退出该账号，否则退出全部账号（账号记录和频道分配保留，重新登录即可恢复）
+    const body = await request.json().catch(() => ({}));
+    const accountId = typeof body.accountId === "string" ? body.accountId.trim() : "";
+
+    const accounts = await db
+      .select({ id: schema.telegramAccounts.id, name: schema.telegramAccounts.name, session: schema.telegramAccounts.session })
+      .from(schema.telegramAccounts)
+      .where(accountId ? eq(schema.telegramAccounts.id, accountId) : undefined);
+
+    const query = db.update(schema.telegramAccounts).set({ session: "", updatedAt: new Date() });
+    await (accountId ? query.where(eq(schema.telegramAccounts.id, accountId)) : query);
+
+    // 每个账号一条；本来就没登录的账号没有变化，不会记录
+    for (const account of accounts) {
+      await recordAudit(request, {
+        action: "telegram.logout",
+        targetType: "telegram_account",
+        targetId: account.id,
+        targetLabel: account.name,
+        before: { session: account.session },
+        after: { session: "" },
+      });
+    }
     return NextResponse.json({ success: true });
   } catch (error: unknown) {
     return toInternalServerErrorResponse(error, "退出 Telegram 登录失败");
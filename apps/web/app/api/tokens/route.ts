@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, desc, eq, isNull, sql } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import { requireApiAuth, type AccessUser } from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import {
+  API_TOKEN_DEFAULT_RATE_LIMIT,
+  API_TOKEN_MAX_EXPIRES_DAYS,
+  API_TOKEN_MAX_RATE_LIMIT,
+  generateApiToken,
+} from "@/lib/api-tokens";
+import { recordAudit } from "@/lib/audit";
+import { getMaxApiTokenScope, isApiTokenScope, isApiTokenScopeWithin } from "@/lib/permissions";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+import { getTrimmedString } from "@/lib/utils";
+
+loadEnv();
+
+const MAX_ACTIVE_TOKENS_PER_OWNER = 20;
+const MAX_NAME_LENGTH = 64;
+
+type ApiTokenRow = typeof schema.apiTokens.$inferSelect;
+
+function toPublicToken(row: ApiTokenRow, ownerUsername: string | null) {
+  return {
+    id: row.id,
+    name: row.name,
+    scope: row.scope,
+    tokenPrefix: row.tokenPrefix,
+    ownerUserId: row.ownerUserId,
+    ownerUsername,
+    rateLimitPerMinute: row.rateLimitPerMinute,
+    expiresAt: row.expiresAt?.toISOString() ?? null,
+    lastUsedAt: row.lastUsedAt?.toISOString() ?? null,
+    lastUsedIp: row.lastUsedIp,
+    revokedAt: row.revokedAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+// 管理员看得到所有 token（包括单密码时代创建的共享 token），其他人只看自己的
+function ownerFilter(user: AccessUser) {
+  if (user.role === "admin") return undefined;
+  return user.id ? eq(schema.apiTokens.ownerUserId, user.id) : isNull(schema.apiTokens.ownerUserId);
+}
+
+function checkTokensRateLimit(request: NextRequest): NextResponse | null {
+  const ip = getClientIp(request);
+  const limiter = checkRateLimit(`tokens:write:${ip}`, { windowMs: 5 * 60 * 1000, max: 30 });
+  if (limiter.allowed) return null;
+  const res = NextResponse.json({ error: "Too many requests, please try again later" }, { status: 429 });
+  res.headers.set("Retry-After", String(limiter.retryAfterSec));
+  return res;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError, access } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const { user } = access;
+    const rows = await db
+      .select({ token: schema.apiTokens, ownerUsername: schema.webUsers.username })
+      .from(schema.apiTokens)
+      .leftJoin(schema.webUsers, eq(schema.webUsers.id, schema.apiTokens.ownerUserId))
+      .where(ownerFilter(user))
+      .orderBy(desc(schema.apiTokens.createdAt));
+
+    const response = NextResponse.json({
+      maxScope: getMaxApiTokenScope(user.role),
+      tokens: rows.map((r) => toPublicToken(r.token, r.ownerUsername)),
+    });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "加载 API token 失败");
+  }
+}
+
+/**
+ * 创建 token：scope 不能超过当前用户角色允许的上限；明文只在这次响应里返回。
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError, access } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const limited = checkTokensRateLimit(request);
+    if (limited) return limited;
+
+    const { user } = access;
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+
+    const name = getTrimmedString(body.name);
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json({ error: `name is required (max ${MAX_NAME_LENGTH} chars)` }, { status: 400 });
+    }
+    const scope = body.scope ?? "read";
+    if (!isApiTokenScope(scope)) return NextResponse.json({ error: "scope must be read|export|operate" }, { status: 400 });
+    if (!isApiTokenScopeWithin(scope, getMaxApiTokenScope(user.role))) {
+      return NextResponse.json({ error: "当前用户不能创建该权限范围的 token" }, { status: 403 });
+    }
+
+    let expiresAt: Date | null = null;
+    if (body.expiresInDays != null && body.expiresInDays !== 0) {
+      const days = body.expiresInDays;
+      if (typeof days !== "number" || !Number.isInteger(days) || days < 1 || days > API_TOKEN_MAX_EXPIRES_DAYS) {
+        return NextResponse.json({ error: `expiresInDays must be 1-${API_TOKEN_MAX_EXPIRES_DAYS} or null` }, { status: 400 });
+      }
+      expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    }
+
+    const rateLimit = body.rateLimitPerMinute ?? API_TOKEN_DEFAULT_RATE_LIMIT;
+    if (typeof rateLimit !== "number" || !Number.isInteger(rateLimit) || rateLimit < 1 || rateLimit > API_TOKEN_MAX_RATE_LIMIT) {
+      return NextResponse.json({ error: `rateLimitPerMinute must be 1-${API_TOKEN_MAX_RATE_LIMIT}` }, { status: 400 });
+    }
+
+    const ownerUserId = user.id;
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(schema.apiTokens)
+      .where(
+        and(
+          ownerUserId ? eq(schema.apiTokens.ownerUserId, ownerUserId) : isNull(schema.apiTokens.ownerUserId),
+          isNull(schema.apiTokens.revokedAt),
+        ),
+      );
+    if (count >= MAX_ACTIVE_TOKENS_PER_OWNER) {
+      return NextResponse.json({ error: `最多只能有 ${MAX_ACTIVE_TOKENS_PER_OWNER} 个未撤销的 token` }, { status: 400 });
+    }
+
+    const { token, tokenHash, tokenPrefix } = generateApiToken();
+    const [row] = await db
+      .insert(schema.apiTokens)
+      .values({ name, ownerUserId, scope, tokenHash, tokenPrefix, rateLimitPerMinute: rateLimit, expiresAt })
+      .returning();
+
+    await recordAudit(request, {
+      action: "api_token.create",
+      targetType: "api_token",
+      targetId: row.id,
+      targetLabel: row.name,
+      after: { scope: row.scope, rateLimitPerMinute: row.rateLimitPerMinute, expiresAt: row.expiresAt },
+    });
+
+    const res = NextResponse.json({ token: toPublicToken(row, user.username), plaintext: token });
+    res.headers.set("Cache-Control", "no-store");
+    return res;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "创建 API token 失败");
+  }
+}
+
+/**
+ * 撤销 token（保留记录，立即失效）。
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { error: authError, access } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const { user } = access;
+    const body = await request.json().catch(() => ({}));
+    const id = getTrimmedString(body.id);
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const [existing] = await db
+      .select()
+      .from(schema.apiTokens)
+      .where(and(eq(schema.apiTokens.id, id), ownerFilter(user)))
+      .limit(1);
+    if (!existing) return NextResponse.json({ error: "token not found" }, { status: 404 });
+    if (existing.revokedAt) return NextResponse.json({ id });
+
+    const revokedAt = new Date();
+    await db.update(schema.apiTokens).set({ revokedAt }).where(eq(schema.apiTokens.id, id));
+
+    await recordAudit(request, {
+      action: "api_token.revoke",
+      targetType: "api_token",
+      targetId: id,
+      targetLabel: existing.name,
+      before: { revokedAt: null },
+      after: { revokedAt },
+    });
+    return NextResponse.json({ id });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "撤销 API token 失败");
+  }
+}
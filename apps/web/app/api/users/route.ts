@@ -0,0 +1,226 @@
+import { NextRequest, NextResponse } from "next/server";
+import { asc, eq, sql } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { loadEnv } from "@/lib/env";
+import {
+  createUserAccessToken,
+  hashAccessPassword,
+  requireApiAuth,
+  setAccessCookie,
+} from "@/lib/api-auth";
+import { toInternalServerErrorResponse } from "@/lib/api-response";
+import { getAuditActor, recordAudit } from "@/lib/audit";
+import { isWebRole, type WebRole } from "@/lib/permissions";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+import { getTrimmedString } from "@/lib/utils";
+import {
+  countOtherActiveAdmins,
+  normalizeWebUsername,
+  publicWebUserColumns,
+  validateWebUserPassword,
+  WEB_USERNAME_RE,
+  type PublicWebUser,
+} from "@/lib/web-users";
+
+loadEnv();
+
+const MAX_USERS = 100;
+
+function toPublicUser(row: PublicWebUser) {
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role,
+    isActive: row.isActive,
+    lastLoginAt: row.lastLoginAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function checkUsersRateLimit(request: NextRequest): NextResponse | null {
+  const ip = getClientIp(request);
+  const limiter = checkRateLimit(`users:write:${ip}`, { windowMs: 5 * 60 * 1000, max: 30 });
+  if (limiter.allowed) return null;
+  const res = NextResponse.json({ error: "Too many requests, please try again later" }, { status: 429 });
+  res.headers.set("Retry-After", String(limiter.retryAfterSec));
+  return res;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError, access } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const { mode, user } = access;
+    const rows = await db.select(publicWebUserColumns).from(schema.webUsers).orderBy(asc(schema.webUsers.createdAt));
+
+    const response = NextResponse.json({ mode, currentUserId: user.id, users: rows.map(toPublicUser) });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "加载用户列表失败");
+  }
+}
+
+/**
+ * 新建用户。第一个用户必须是管理员，建好后立即切换到多用户登录，并给当前浏览器签发该用户的 cookie。
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError, access } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const limited = checkUsersRateLimit(request);
+    if (limited) return limited;
+
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+    const username = normalizeWebUsername(body.username);
+    if (!WEB_USERNAME_RE.test(username)) {
+      return NextResponse.json({ error: "用户名只能包含小写字母、数字和 _ . -，长度 2-32" }, { status: 400 });
+    }
+    const role = body.role ?? "viewer";
+    if (!isWebRole(role)) return NextResponse.json({ error: "role must be viewer|operator|admin" }, { status: 400 });
+    const validated = validateWebUserPassword(body.password);
+    if ("error" in validated) return NextResponse.json({ error: validated.error }, { status: 400 });
+
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(schema.webUsers);
+    if (count >= MAX_USERS) return NextResponse.json({ error: `最多只能创建 ${MAX_USERS} 个用户` }, { status: 400 });
+    const isFirstUser = count === 0;
+    if (isFirstUser && role !== "admin") {
+      return NextResponse.json({ error: "第一个用户必须是管理员" }, { status: 400 });
+    }
+
+    // 创建第一个用户后当前 cookie 不再有效，先记下操作者
+    const actor = getAuditActor(access);
+    const [row] = await db
+      .insert(schema.webUsers)
+      .values({ username, role, passwordHash: await hashAccessPassword(validated.password) })
+      .onConflictDoNothing({ target: schema.webUsers.username })
+      .returning();
+    if (!row) return NextResponse.json({ error: "用户名已存在" }, { status: 409 });
+
+    await recordAudit(request, {
+      action: "user.create",
+      targetType: "user",
+      targetId: row.id,
+      targetLabel: row.username,
+      after: { username: row.username, role: row.role, isActive: row.isActive },
+      actor,
+    });
+
+    const res = NextResponse.json({ user: toPublicUser(row) });
+    if (isFirstUser) setAccessCookie(res, createUserAccessToken(row));
+    return res;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "创建用户失败");
+  }
+}
+
+/**
+ * 修改角色 / 启用状态 / 密码。任何一项变了都会让该用户已登录的会话失效。
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { error: authError, access } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const limited = checkUsersRateLimit(request);
+    if (limited) return limited;
+
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+    const id = getTrimmedString(body.id);
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const [existing] = await db.select().from(schema.webUsers).where(eq(schema.webUsers.id, id)).limit(1);
+    if (!existing) return NextResponse.json({ error: "user not found" }, { status: 404 });
+
+    const { user: currentUser } = access;
+    const isSelf = currentUser.id === existing.id;
+
+    const updates: Partial<typeof schema.webUsers.$inferInsert> = {};
+    let role: WebRole = existing.role;
+    let isActive = existing.isActive;
+
+    if (body.role !== undefined) {
+      if (!isWebRole(body.role)) return NextResponse.json({ error: "role must be viewer|operator|admin" }, { status: 400 });
+      role = body.role;
+      if (role !== existing.role) updates.role = role;
+    }
+    if (body.isActive !== undefined) {
+      if (typeof body.isActive !== "boolean") return NextResponse.json({ error: "isActive must be boolean" }, { status: 400 });
+      if (isSelf && !body.isActive) return NextResponse.json({ error: "不能停用当前登录的用户" }, { status: 400 });
+      isActive = body.isActive;
+      if (isActive !== existing.isActive) updates.isActive = isActive;
+    }
+    if (body.password !== undefined && body.password !== "") {
+      const validated = validateWebUserPassword(body.password);
+      if ("error" in validated) return NextResponse.json({ error: validated.error }, { status: 400 });
+      updates.passwordHash = await hashAccessPassword(validated.password);
+    }
+
+    if (!Object.keys(updates).length) return NextResponse.json({ user: toPublicUser(existing) });
+
+    const losesAdmin = existing.role === "admin" && existing.isActive && (role !== "admin" || !isActive);
+    if (losesAdmin && (await countOtherActiveAdmins(existing.id)) === 0) {
+      return NextResponse.json({ error: "至少需要保留一个启用中的管理员" }, { status: 400 });
+    }
+
+    const actor = getAuditActor(access);
+    const [row] = await db
+      .update(schema.webUsers)
+      .set({ ...updates, sessionVersion: existing.sessionVersion + 1, updatedAt: new Date() })
+      .where(eq(schema.webUsers.id, id))
+      .returning();
+
+    await recordAudit(request, {
+      action: "user.update",
+      targetType: "user",
+      targetId: id,
+      targetLabel: existing.username,
+      before: Object.fromEntries(Object.keys(updates).map((key) => [key, existing[key as keyof typeof existing]])),
+      after: updates,
+      actor,
+    });
+
+    const res = NextResponse.json({ user: toPublicUser(row!) });
+    // 改的是自己：换发新 cookie，免得把自己踢下线
+    if (isSelf) setAccessCookie(res, createUserAccessToken(row!));
+    return res;
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "更新用户失败");
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { error: authError, access } = await requireApiAuth(request);
+    if (authError) return authError;
+
+    const body = await request.json().catch(() => ({}));
+    const id = getTrimmedString(body.id);
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const [existing] = await db.select().from(schema.webUsers).where(eq(schema.webUsers.id, id)).limit(1);
+    if (!existing) return NextResponse.json({ error: "user not found" }, { status: 404 });
+
+    const { user: currentUser } = access;
+    if (currentUser.id === existing.id) {
+      return NextResponse.json({ error: "不能删除当前登录的用户" }, { status: 400 });
+    }
+    if (existing.role === "admin" && existing.isActive && (await countOtherActiveAdmins(existing.id)) === 0) {
+      return NextResponse.json({ error: "至少需要保留一个启用中的管理员" }, { status: 400 });
+    }
+
+    await db.delete(schema.webUsers).where(eq(schema.webUsers.id, id));
+    await recordAudit(request, {
+      action: "user.delete",
+      targetType: "user",
+      targetId: id,
+      targetLabel: existing.username,
+      before: { username: existing.username, role: existing.role, isActive: existing.isActive },
+    });
+    return NextResponse.json({ id });
+  } catch (error: unknown) {
+    return toInternalServerErrorResponse(error, "删除用户失败");
+  }
+}
@@ -0,0 +1,34 @@
+import { AuditLogManager } from "@/components/audit/AuditLogManager";
+import { PageHeader } from "@/components/layout/PageHeader";
+
+function getString(value: string | string[] | undefined): string {
+  if (typeof value === "string") return value.trim();
+  if (Array.isArray(value)) return (value[0] ?? "").trim();
+  return "";
+}
+
+export default async function AuditPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const sp = await searchParams;
+
+  return (
+    <div className="p-8 space-y-6">
+      <PageHeader title="审计日志" description="记录谁在什么时候改了设置、频道、任务、Telegram 账号和 Web 用户，密钥类字段已脱敏。" />
+
+      <AuditLogManager
+        initialFilters={{
+          actor: getString(sp.actor),
+          action: getString(sp.action),
+          targetType: getString(sp.targetType),
+          targetId: getString(sp.targetId),
+          q: getString(sp.q),
+          start: getString(sp.start),
+          end: getString(sp.end),
+        }}
+      />
+    </div>
+  );
+}
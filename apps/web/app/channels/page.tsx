@@ -1,4 +1,5 @@
 import { ChannelsManager } from "@/components/channels/ChannelsManager";
+import { TdesktopImportPanel } from "@/components/channels/TdesktopImportPanel";
 import { PageHeader } from "@/components/layout/PageHeader";
 
 const UNGROUPED = "__ungrouped__";
@@ -59,6 +60,11 @@ export default async function ChannelsPage({
         initialSyncStatusFilter={initialSyncStatus}
         initialSortBy={initialSortBy}
       />
+
+      <div className="ui-card">
+        <h2 className="ui-section-title">导入 Telegram Desktop 导出</h2>
+        <TdesktopImportPanel />
+      </div>
     </div>
   );
 }
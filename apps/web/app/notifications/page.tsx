@@ -0,0 +1,11 @@
+import { NotificationsManager } from "@/components/notifications/NotificationsManager";
+import { PageHeader } from "@/components/layout/PageHeader";
+
+export default function NotificationsPage() {
+  return (
+    <div className="p-8 space-y-6">
+      <PageHeader title="通知推送" description="把关键事件推送到 Webhook、Telegram Bot 或邮件，并查看投递日志。" />
+      <NotificationsManager />
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import Link from "next/link";
+import { ApiTokensManager } from "@/components/settings/ApiTokensManager";
+import { PageHeader } from "@/components/layout/PageHeader";
+
+export default function ApiTokensPage() {
+  return (
+    <div className="p-8 space-y-6">
+      <PageHeader
+        title="API Token"
+        description="给脚本用的个人访问令牌：按权限范围授权，可设有效期和限流，随时撤销。"
+        right={
+          <Link href="/settings" className="ui-btn ui-btn-secondary h-10">
+            返回系统设置
+          </Link>
+        }
+      />
+      <ApiTokensManager />
+    </div>
+  );
+}
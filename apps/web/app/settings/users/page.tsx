@@ -0,0 +1,20 @@
+import Link from "next/link";
+import { WebUsersManager } from "@/components/settings/WebUsersManager";
+import { PageHeader } from "@/components/layout/PageHeader";
+
+export default function WebUsersPage() {
+  return (
+    <div className="p-8 space-y-6">
+      <PageHeader
+        title="用户管理"
+        description="按角色分配 Web 访问权限：只读、操作员、管理员。"
+        right={
+          <Link href="/settings" className="ui-btn ui-btn-secondary h-10">
+            返回系统设置
+          </Link>
+        }
+      />
+      <WebUsersManager />
+    </div>
+  );
+}
@@ -64,7 +64,7 @@ export default async function TasksPage({
 
   return (
     <div className="p-8 space-y-6">
-      <PageHeader title="任务管理" description="查看与控制 sync_tasks（resolve/history_full/realtime/retry_failed）。" />
+      <PageHeader title="任务管理" description="查看与控制 sync_tasks（resolve/history_full/history_partial/realtime/retry_failed）。" />
 
       <TasksManager
         initialGroupName={initialGroupName}
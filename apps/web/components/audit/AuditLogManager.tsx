@@ -0,0 +1,383 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Download } from "lucide-react";
+import { useAccess } from "@/components/auth/AccessGuard";
+import { Select } from "@/components/ui/Select";
+import { webRoleLabels, type WebRole } from "@/lib/permissions";
+import { formatTime, getErrorMessage } from "@/lib/utils";
+
+// 与 @tg-back/db 的 AUDIT_ACTIONS 保持一致（客户端组件不直接依赖 db 包）
+const ACTION_LABELS: Record<string, string> = {
+  "settings.update": "修改设置",
+  "channel.create": "添加频道",
+  "channel.update": "修改频道",
+  "channel.delete": "删除频道",
+  "channel.import": "导入 Telegram Desktop 导出",
+  "channel.requeue_missing": "重新排队缺失消息",
+  "channel_target.create": "添加镜像目标",
+  "channel_target.update": "修改镜像目标",
+  "channel_target.delete": "删除镜像目标",
+  "task.create": "创建任务",
+  "task.update": "操作任务",
+  "task_schedule.create": "新建任务计划",
+  "task_schedule.update": "修改任务计划",
+  "task_schedule.delete": "删除任务计划",
+  "mirror.control": "mirror-service 控制操作",
+  "notification_rule.create": "新建通知规则",
+  "notification_rule.update": "修改通知规则",
+  "notification_rule.delete": "删除通知规则",
+  "notification_delivery.retry": "重试通知投递",
+  "preset.update": "修改筛选预设",
+  "telegram.login": "登录 Telegram 账号",
+  "telegram.logout": "退出 Telegram 账号",
+  "telegram_account.update": "修改 Telegram 账号",
+  "telegram_account.delete": "删除 Telegram 账号",
+  "user.create": "新建用户",
+  "user.update": "修改用户",
+  "user.delete": "删除用户",
+  "api_token.create": "创建 API token",
+  "api_token.revoke": "撤销 API token",
+};
+
+const TARGET_TYPE_LABELS: Record<string, string> = {
+  settings: "系统设置",
+  channel: "频道",
+  channel_target: "镜像目标",
+  task: "任务",
+  task_schedule: "任务计划",
+  mirror_service: "mirror-service",
+  notification_rule: "通知规则",
+  notification_delivery: "通知投递",
+  preset: "筛选预设",
+  telegram_account: "Telegram 账号",
+  user: "Web 用户",
+  api_token: "API token",
+};
+
+const PAGE_SIZE = 50;
+
+type AuditLog = {
+  id: string;
+  createdAt: string;
+  actorUserId: string | null;
+  actorName: string;
+  actorRole: WebRole | null;
+  apiTokenName: string | null;
+  ip: string | null;
+  method: string;
+  route: string;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  targetLabel: string | null;
+  changes: Record<string, { before: unknown; after: unknown }>;
+};
+
+export type AuditFilters = {
+  actor: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  q: string;
+  start: string;
+  end: string;
+};
+
+function toQuery(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const key of ["actor", "action", "targetType", "targetId", "q"] as const) {
+    const value = filters[key].trim();
+    if (value) params.set(key, value);
+  }
+  // datetime-local 是本地时间，转成 ISO 再交给服务端
+  for (const key of ["start", "end"] as const) {
+    const date = filters[key] ? new Date(filters[key]) : null;
+    if (date && !Number.isNaN(date.getTime())) params.set(key, date.toISOString());
+  }
+  return params;
+}
+
+// URL 里的 start / end 是 ISO，输入框要本地时间
+function toLocalInput(value: string): string {
+  const date = value ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "（空）";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function ChangesTable({ changes }: { changes: AuditLog["changes"] }) {
+  const entries = Object.entries(changes);
+  if (!entries.length) return <div className="text-xs text-gray-500 dark:text-slate-400">没有字段变化记录</div>;
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left text-xs">
+        <thead className="text-gray-500 dark:text-slate-400">
+          <tr>
+            <th className="py-1 pr-3 font-medium">字段</th>
+            <th className="py-1 pr-3 font-medium">修改前</th>
+            <th className="py-1 font-medium">修改后</th>
+          </tr>
+        </thead>
+        <tbody className="align-top font-mono">
+          {entries.map(([field, change]) => (
+            <tr key={field} className="border-t border-black/5 dark:border-white/10">
+              <td className="py-1 pr-3">{field}</td>
+              <td className="max-w-md break-all py-1 pr-3 text-red-700 dark:text-red-300">{formatValue(change.before)}</td>
+              <td className="max-w-md break-all py-1 text-green-700 dark:text-green-300">{formatValue(change.after)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * 审计日志：只读列表，按操作者 / 动作 / 目标 / 时间筛选，可按当前条件导出 JSONL。
+ */
+export function AuditLogManager({ initialFilters }: { initialFilters: AuditFilters }) {
+  const { can } = useAccess();
+  const [initial] = useState<AuditFilters>(() => ({
+    ...initialFilters,
+    start: toLocalInput(initialFilters.start),
+    end: toLocalInput(initialFilters.end),
+  }));
+  const [filters, setFilters] = useState<AuditFilters>(initial);
+  const [applied, setApplied] = useState<AuditFilters>(initial);
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const load = useCallback(async (next: AuditFilters, offset: number) => {
+    setLoading(true);
+    setError("");
+    try {
+      const params = toQuery(next);
+      params.set("limit", String(PAGE_SIZE));
+      params.set("offset", String(offset));
+      const res = await fetch(`/api/audit?${params.toString()}`, { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "加载审计日志失败");
+      const rows = (data.logs ?? []) as AuditLog[];
+      setLogs((prev) => (offset ? [...prev, ...rows] : rows));
+      setHasMore(!!data.hasMore);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const isAdmin = can("admin");
+
+  useEffect(() => {
+    if (isAdmin) void load(initial, 0);
+  }, [isAdmin, initial, load]);
+
+  const search = (next: AuditFilters) => {
+    setFilters(next);
+    setApplied(next);
+    setExpanded(new Set());
+    const url = new URL(window.location.href);
+    url.search = toQuery(next).toString();
+    window.history.replaceState(null, "", url.toString());
+    void load(next, 0);
+  };
+
+  const toggle = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const update = <K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  if (!isAdmin) {
+    return <div className="ui-alert-error">只有管理员可以查看审计日志。</div>;
+  }
+
+  const exportQuery = toQuery(applied).toString();
+
+  return (
+    <div className="space-y-6">
+      {error ? <div className="ui-alert-error">{error}</div> : null}
+
+      <div className="ui-card">
+        <h2 className="ui-section-title">筛选</h2>
+        <div className="mt-4 grid grid-cols-1 gap-3 md:grid-cols-3">
+          <div>
+            <label className="block text-sm font-medium">操作者</label>
+            <input
+              value={filters.actor}
+              onChange={(e) => update("actor", e.target.value)}
+              placeholder="用户名 / access_password / anonymous"
+              className="ui-input mt-1"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium">动作</label>
+            <div className="mt-1">
+              <Select
+                value={filters.action}
+                onChange={(value) => update("action", value)}
+                options={[
+                  { value: "", label: "全部" },
+                  ...Object.entries(ACTION_LABELS).map(([value, label]) => ({ value, label })),
+                ]}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium">目标类型</label>
+            <div className="mt-1">
+              <Select
+                value={filters.targetType}
+                onChange={(value) => update("targetType", value)}
+                options={[
+                  { value: "", label: "全部" },
+                  ...Object.entries(TARGET_TYPE_LABELS).map(([value, label]) => ({ value, label })),
+                ]}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium">目标名称（关键词）</label>
+            <input
+              value={filters.q}
+              onChange={(e) => update("q", e.target.value)}
+              placeholder="频道标识、用户名..."
+              className="ui-input mt-1"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium">开始时间</label>
+            <input
+              type="datetime-local"
+              value={filters.start}
+              onChange={(e) => update("start", e.target.value)}
+              className="ui-input mt-1"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium">结束时间</label>
+            <input
+              type="datetime-local"
+              value={filters.end}
+              onChange={(e) => update("end", e.target.value)}
+              className="ui-input mt-1"
+            />
+          </div>
+        </div>
+        {filters.targetId ? (
+          <div className="mt-3 text-xs text-gray-500 dark:text-slate-400">
+            仅显示目标 ID {filters.targetId}
+            <button type="button" onClick={() => update("targetId", "")} className="ml-2 underline">
+              取消
+            </button>
+          </div>
+        ) : null}
+        <div className="mt-4 flex flex-wrap gap-2">
+          <button type="button" onClick={() => search(filters)} disabled={loading} className="ui-btn ui-btn-primary h-10">
+            {loading ? "查询中..." : "查询"}
+          </button>
+          <button
+            type="button"
+            onClick={() => search({ actor: "", action: "", targetType: "", targetId: "", q: "", start: "", end: "" })}
+            disabled={loading}
+            className="ui-btn ui-btn-secondary h-10"
+          >
+            清空条件
+          </button>
+          <a
+            href={`/api/export/audit${exportQuery ? `?${exportQuery}` : ""}`}
+            className="ui-btn ui-btn-secondary h-10 gap-1"
+            title="按当前已查询的条件导出"
+          >
+            <Download className="w-4 h-4" />
+            导出 JSONL
+          </a>
+        </div>
+      </div>
+
+      <div className="ui-card">
+        <h2 className="ui-section-title">操作记录</h2>
+        <div className="mt-4 divide-y divide-black/5 dark:divide-white/10">
+          {!logs.length && !loading ? <div className="py-6 text-sm text-gray-500 dark:text-slate-400">没有符合条件的记录</div> : null}
+          {logs.map((log) => {
+            const open = expanded.has(log.id);
+            const Chevron = open ? ChevronDown : ChevronRight;
+            const changeCount = Object.keys(log.changes).length;
+            return (
+              <div key={log.id} className="py-3">
+                <button type="button" onClick={() => toggle(log.id)} className="flex w-full items-start gap-2 text-left">
+                  <Chevron className="mt-0.5 w-4 h-4 shrink-0 text-gray-400" />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="ui-badge ui-badge-muted">{ACTION_LABELS[log.action] ?? log.action}</span>
+                      <span className="font-medium">
+                        {TARGET_TYPE_LABELS[log.targetType] ?? log.targetType}
+                        {log.targetLabel ? `「${log.targetLabel}」` : ""}
+                      </span>
+                      {changeCount ? (
+                        <span className="text-xs text-gray-500 dark:text-slate-400">{changeCount} 个字段</span>
+                      ) : null}
+                    </div>
+                    <div className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+                      {formatTime(log.createdAt)} · {log.actorName}
+                      {log.actorRole ? `（${webRoleLabels[log.actorRole]}）` : ""}
+                      {log.apiTokenName ? ` · API token「${log.apiTokenName}」` : ""}
+                      {log.ip ? ` · ${log.ip}` : ""} · {log.method} {log.route}
+                    </div>
+                  </div>
+                </button>
+                {open ? (
+                  <div className="mt-2 pl-6">
+                    {log.targetId ? (
+                      <div className="mb-2 text-xs text-gray-500 dark:text-slate-400">
+                        目标 ID <span className="font-mono">{log.targetId}</span>
+                        <button
+                          type="button"
+                          onClick={() => search({ ...applied, targetType: log.targetType, targetId: log.targetId ?? "" })}
+                          className="ml-2 underline"
+                        >
+                          只看该目标
+                        </button>
+                      </div>
+                    ) : null}
+                    <ChangesTable changes={log.changes} />
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+        {hasMore ? (
+          <div className="mt-4">
+            <button
+              type="button"
+              onClick={() => void load(applied, logs.length)}
+              disabled={loading}
+              className="ui-btn ui-btn-secondary h-10"
+            >
+              {loading ? "加载中..." : "加载更多"}
+            </button>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
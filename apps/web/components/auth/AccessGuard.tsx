@@ -1,30 +1,92 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { isWebRole, roleHasPermission, type Permission, type WebRole } from "@/lib/permissions";
 import { getErrorMessage } from "@/lib/utils";
 
-type Status = { enabled: boolean; authed: boolean };
+type AccessMode = "open" | "password" | "users";
+
+// 与 lib/api-auth.ts 的 AccessUser 保持一致；单密码模式下 id / username 为 null
+type AccessUser = { id: string | null; username: string | null; role: WebRole };
+
+type Status = { enabled: boolean; authed: boolean; mode: AccessMode; user: AccessUser | null };
+
+type AccessContextValue = {
+  mode: AccessMode;
+  user: AccessUser | null;
+  can: (permission: Permission) => boolean;
+  refresh: () => Promise<void>;
+  logout: () => Promise<void>;
+};
+
+const AccessContext = createContext<AccessContextValue>({
+  mode: "open",
+  user: null,
+  can: () => true,
+  refresh: async () => {},
+  logout: async () => {},
+});
+
+/**
+ * 当前登录用户与权限；组件用 can() 决定是否显示按钮（接口侧另有 requireApiAuth 校验）。
+ */
+export function useAccess(): AccessContextValue {
+  return useContext(AccessContext);
+}
+
+function toStatus(data: Record<string, unknown>): Status {
+  const mode: AccessMode = data.mode === "users" || data.mode === "password" ? data.mode : "open";
+  const rawUser = data.user && typeof data.user === "object" ? (data.user as Record<string, unknown>) : null;
+  const user: AccessUser | null =
+    rawUser && isWebRole(rawUser.role)
+      ? {
+          id: typeof rawUser.id === "string" ? rawUser.id : null,
+          username: typeof rawUser.username === "string" ? rawUser.username : null,
+          role: rawUser.role,
+        }
+      : null;
+  return { enabled: !!data.enabled, authed: !!data.authed, mode, user };
+}
 
 export function AccessGuard({ children }: { children: React.ReactNode }) {
   const [status, setStatus] = useState<Status | null>(null);
+  const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
 
-  const refresh = async (): Promise<Status> => {
+  const refresh = useCallback(async (): Promise<void> => {
     const res = await fetch("/api/auth/status", { cache: "no-store" });
     const data = await res.json().catch(() => ({}));
     if (!res.ok) throw new Error(data.error ?? "Failed to check access status");
-    const next = { enabled: !!data.enabled, authed: !!data.authed };
-    setStatus(next);
-    return next;
-  };
+    setStatus(toStatus(data));
+  }, []);
 
   useEffect(() => {
     refresh().catch((e: unknown) => setError(getErrorMessage(e)));
-  }, []);
+  }, [refresh]);
 
-  const canSubmit = useMemo(() => password.trim().length > 0 && !loading, [password, loading]);
+  const usersMode = status?.mode === "users";
+  const canSubmit = useMemo(
+    () => password.trim().length > 0 && (!usersMode || username.trim().length > 0) && !loading,
+    [password, username, usersMode, loading],
+  );
+
+  const logout = useCallback(async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => {});
+    await refresh().catch((e: unknown) => setError(getErrorMessage(e)));
+  }, [refresh]);
+
+  const contextValue = useMemo<AccessContextValue>(() => {
+    const user = status?.user ?? null;
+    return {
+      mode: status?.mode ?? "open",
+      user,
+      can: (permission) => !!user && roleHasPermission(user.role, permission),
+      refresh,
+      logout,
+    };
+  }, [status, refresh, logout]);
 
   const login = async () => {
     setLoading(true);
@@ -33,7 +95,7 @@ export function AccessGuard({ children }: { children: React.ReactNode }) {
       const res = await fetch("/api/auth/login", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ password }),
+        body: JSON.stringify(usersMode ? { username, password } : { password }),
       });
       const data = await res.json().catch(() => ({}));
       if (!res.ok) throw new Error(data.error ?? "Login failed");
@@ -56,26 +118,40 @@ export function AccessGuard({ children }: { children: React.ReactNode }) {
     );
   }
 
-  if (!status.enabled || status.authed) return <>{children}</>;
+  if (!status.enabled || status.authed) {
+    return <AccessContext.Provider value={contextValue}>{children}</AccessContext.Provider>;
+  }
 
   return (
     <div className="flex min-h-screen items-center justify-center p-6">
       <div className="glass-panel w-full max-w-md rounded-2xl p-8">
         <div className="space-y-2">
           <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
-            需要访问密码
+            {usersMode ? "请登录" : "需要访问密码"}
           </h1>
-          <p className="text-sm text-gray-600 dark:text-slate-300">该 Web 已启用访问控制，请输入密码继续。</p>
+          <p className="text-sm text-gray-600 dark:text-slate-300">
+            {usersMode ? "该 Web 已启用多用户访问控制，请输入用户名和密码。" : "该 Web 已启用访问控制，请输入密码继续。"}
+          </p>
         </div>
 
         {error ? <div className="ui-alert-error mt-4">{error}</div> : null}
 
         <div className="mt-6 space-y-3">
+          {usersMode ? (
+            <input
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="用户名"
+              autoComplete="username"
+              className="ui-input"
+            />
+          ) : null}
           <input
             type="password"
             value={password}
             onChange={(e) => setPassword(e.target.value)}
-            placeholder="访问密码"
+            placeholder={usersMode ? "密码" : "访问密码"}
+            autoComplete="current-password"
             className="ui-input"
           />
           <button type="button" onClick={login} disabled={!canSubmit} className="ui-btn ui-btn-primary w-full">
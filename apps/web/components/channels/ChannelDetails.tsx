@@ -2,14 +2,49 @@
 
 import Link from "next/link";
 import { useEffect, useMemo, useRef, useState } from "react";
+import { CopyTransformEditor, type CopyTransformConfig } from "@/components/channels/CopyTransformEditor";
+import { GapScanPanel } from "@/components/channels/GapScanPanel";
+import { MirrorIntegrityPanel } from "@/components/channels/MirrorIntegrityPanel";
+import { MirrorTargetsEditor } from "@/components/channels/MirrorTargetsEditor";
+import { useAccess } from "@/components/auth/AccessGuard";
 import { EventsFeed } from "@/components/events/EventsFeed";
+import { MessageFilterRulesEditor, toMessageFilterRules, type MessageFilterRule } from "@/components/settings/MessageFilterRulesEditor";
 import { Checkbox } from "@/components/ui/Checkbox";
 import { Select } from "@/components/ui/Select";
+import { EXPORT_FORMATS, exportFormatLabels, type ExportFormat } from "@/lib/export-formats";
 import { buildTelegramChannelLink } from "@/lib/telegram-links";
 import { calcProgressPct, formatTime, getErrorMessage } from "@/lib/utils";
 
 type MirrorMode = "forward" | "copy";
-type MessageFilterMode = "inherit" | "disabled" | "custom";
+type MessageFilterMode = "inherit" | "disabled" | "custom" | "merge";
+type EditSyncMode = "edit" | "comment" | "record";
+type DeletionSyncMode = "record" | "mark" | "delete";
+
+type DeletionPreviewItem = {
+  id: string;
+  sourceMessageId: number;
+  mirrorMessageId: number;
+  mediaGroupId: string | null;
+  textPreview: string | null;
+  deletedAt: string | null;
+  dueAt: string | null;
+  // 删除/标记失败后的重试次数
+  attempts: number;
+  isDue: boolean;
+  links: { source: string | null; mirror: string | null };
+};
+
+type DeletionPreview = {
+  mode: DeletionSyncMode;
+  graceMinutes: number;
+  // 只处理这之后在源频道删除的消息
+  since: string;
+  total: number;
+  dueCount: number;
+  backlogCount: number;
+  withoutMirrorCount: number;
+  items: DeletionPreviewItem[];
+};
 
 type TaskStatus = "pending" | "running" | "paused" | "completed" | "failed";
 type TaskType = "resolve" | "history_full" | "history_partial" | "realtime" | "retry_failed";
@@ -48,6 +83,13 @@ type ChannelRow = {
   priority: number;
   messageFilterMode: MessageFilterMode;
   messageFilterKeywords: string;
+  messageFilterRules: MessageFilterRule[];
+  copyTransforms: CopyTransformConfig;
+  editSyncMode: EditSyncMode;
+  deletionSyncMode: DeletionSyncMode;
+  deletionGraceMinutes: number;
+  telegramAccountId: string | null;
+  activeAccountId: string | null;
   tasks: Partial<Record<TaskType, TaskSummary>>;
   messageStats: {
     total: number;
@@ -87,6 +129,14 @@ type ChannelRow = {
     | null;
 };
 
+// /api/telegram/accounts 的子集
+type TelegramAccountOption = {
+  id: string;
+  name: string;
+  hasSession: boolean;
+  isActive: boolean;
+};
+
 function truncateText(value: string, maxLen: number): string {
   const text = value.trim();
   if (!text) return "(空)";
@@ -95,6 +145,9 @@ function truncateText(value: string, maxLen: number): string {
 }
 
 export function ChannelDetails({ channelId }: { channelId: string }) {
+  const { can } = useAccess();
+  const canOperate = can("operate");
+  const canDelete = can("admin");
   const [channel, setChannel] = useState<ChannelRow | null>(null);
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
@@ -104,6 +157,17 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
   const [notice, setNotice] = useState("");
   const [mirrorModeDraft, setMirrorModeDraft] = useState<MirrorMode>("forward");
   const [mirrorModeDirty, setMirrorModeDirty] = useState(false);
+  const [editSyncModeDraft, setEditSyncModeDraft] = useState<EditSyncMode>("record");
+  const [editSyncModeDirty, setEditSyncModeDirty] = useState(false);
+  const [deletionSyncModeDraft, setDeletionSyncModeDraft] = useState<DeletionSyncMode>("record");
+  const [deletionGraceMinutesDraft, setDeletionGraceMinutesDraft] = useState("60");
+  const [deletionPolicyDirty, setDeletionPolicyDirty] = useState(false);
+  const [deletionPreview, setDeletionPreview] = useState<DeletionPreview | null>(null);
+  const [partialStartIdDraft, setPartialStartIdDraft] = useState("");
+  const [partialEndIdDraft, setPartialEndIdDraft] = useState("");
+  const [partialStartAtDraft, setPartialStartAtDraft] = useState("");
+  const [partialEndAtDraft, setPartialEndAtDraft] = useState("");
+  const [partialRemirror, setPartialRemirror] = useState(false);
   const [priorityDraft, setPriorityDraft] = useState("");
   const [priorityDirty, setPriorityDirty] = useState(false);
   const [groupNameDraft, setGroupNameDraft] = useState("");
@@ -112,6 +176,9 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
   const [messageFilterModeDirty, setMessageFilterModeDirty] = useState(false);
   const [messageFilterKeywordsDraft, setMessageFilterKeywordsDraft] = useState("");
   const [messageFilterKeywordsDirty, setMessageFilterKeywordsDirty] = useState(false);
+  const [messageFilterRulesDraft, setMessageFilterRulesDraft] = useState<MessageFilterRule[]>([]);
+  const [messageFilterRulesDirty, setMessageFilterRulesDirty] = useState(false);
+  const [telegramAccounts, setTelegramAccounts] = useState<TelegramAccountOption[]>([]);
   const refreshRef = useRef<() => Promise<void>>(async () => {});
   const loadingRef = useRef(false);
   const refreshingRef = useRef(false);
@@ -127,10 +194,16 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
       const found = rows.find((c) => c.id === channelId) ?? null;
       setChannel(found);
       if (found?.mirrorMode && !mirrorModeDirty) setMirrorModeDraft(found.mirrorMode);
+      if (found && !editSyncModeDirty) setEditSyncModeDraft(found.editSyncMode ?? "record");
+      if (found && !deletionPolicyDirty) {
+        setDeletionSyncModeDraft(found.deletionSyncMode ?? "record");
+        setDeletionGraceMinutesDraft(String(found.deletionGraceMinutes ?? 60));
+      }
       if (found && !priorityDirty) setPriorityDraft(String(found.priority ?? 0));
       if (found && !groupNameDirty) setGroupNameDraft(found.groupName ?? "");
       if (found && !messageFilterModeDirty) setMessageFilterModeDraft(found.messageFilterMode ?? "inherit");
       if (found && !messageFilterKeywordsDirty) setMessageFilterKeywordsDraft(found.messageFilterKeywords ?? "");
+      if (found && !messageFilterRulesDirty) setMessageFilterRulesDraft(toMessageFilterRules(found.messageFilterRules));
       if (!found) setError("频道不存在或已删除");
     } catch (e: unknown) {
       setError(getErrorMessage(e));
@@ -150,10 +223,16 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
       const found = rows.find((c) => c.id === channelId) ?? null;
       setChannel(found);
       if (found?.mirrorMode && !mirrorModeDirty) setMirrorModeDraft(found.mirrorMode);
+      if (found && !editSyncModeDirty) setEditSyncModeDraft(found.editSyncMode ?? "record");
+      if (found && !deletionPolicyDirty) {
+        setDeletionSyncModeDraft(found.deletionSyncMode ?? "record");
+        setDeletionGraceMinutesDraft(String(found.deletionGraceMinutes ?? 60));
+      }
       if (found && !priorityDirty) setPriorityDraft(String(found.priority ?? 0));
       if (found && !groupNameDirty) setGroupNameDraft(found.groupName ?? "");
       if (found && !messageFilterModeDirty) setMessageFilterModeDraft(found.messageFilterMode ?? "inherit");
       if (found && !messageFilterKeywordsDirty) setMessageFilterKeywordsDraft(found.messageFilterKeywords ?? "");
+      if (found && !messageFilterRulesDirty) setMessageFilterRulesDraft(toMessageFilterRules(found.messageFilterRules));
       if (!found) setError("频道不存在或已删除");
     } catch (e: unknown) {
       setError(getErrorMessage(e));
@@ -172,10 +251,18 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
     setGroupNameDirty(false);
     setMessageFilterModeDirty(false);
     setMessageFilterKeywordsDirty(false);
+    setMessageFilterRulesDirty(false);
     refresh().catch(() => {});
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [channelId]);
 
+  useEffect(() => {
+    fetch("/api/telegram/accounts", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((data) => setTelegramAccounts((data.accounts ?? []) as TelegramAccountOption[]))
+      .catch(() => {});
+  }, []);
+
   useEffect(() => {
     if (!autoRefresh) return;
     const id = window.setInterval(() => {
@@ -269,11 +356,13 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
     });
   }, [channel?.mirrorChannel]);
 
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("jsonl");
   const exportMessagesLink = useMemo(() => {
     if (!channel) return null;
     const params = new URLSearchParams({ sourceChannelId: channel.id, groupMedia: "true" });
+    if (exportFormat !== "jsonl") params.set("format", exportFormat);
     return `/api/export/messages?${params.toString()}`;
-  }, [channel]);
+  }, [channel, exportFormat]);
 
   const toggleActive = async () => {
     if (!channel) return;
@@ -340,7 +429,7 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
   };
 
   const renderTaskActions = (task: TaskSummary | undefined) => {
-    if (!task) return null;
+    if (!task || !canOperate) return null;
     return (
       <div className="flex flex-wrap gap-2 pt-2">
         {task.status === "paused" ? (
@@ -404,6 +493,51 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
     }
   };
 
+  const enqueueHistoryPartial = async () => {
+    if (!channel) return;
+    const toIso = (value: string) => {
+      if (!value.trim()) return null;
+      const d = new Date(value);
+      if (Number.isNaN(d.getTime())) throw new Error("时间格式无效");
+      return d.toISOString();
+    };
+    setLoading(true);
+    setError("");
+    setNotice("");
+    try {
+      const payload = {
+        channelId: channel.id,
+        startId: partialStartIdDraft.trim() || null,
+        endId: partialEndIdDraft.trim() || null,
+        startAt: toIso(partialStartAtDraft),
+        endAt: toIso(partialEndAtDraft),
+        remirror: partialRemirror,
+      };
+      if (!payload.startId && !payload.endId && !payload.startAt && !payload.endAt) {
+        throw new Error("请至少填写消息 ID 区间或时间窗口中的一项");
+      }
+      if (
+        partialRemirror &&
+        !confirm("确定重新镜像该范围内的消息吗？已成功镜像的消息会再次发送到镜像频道（旧的镜像消息不会被删除）。")
+      ) {
+        return;
+      }
+      const res = await fetch("/api/tasks/partial", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to create partial backfill task");
+      if (typeof data.message === "string" && data.message.trim()) setNotice(data.message.trim());
+      await refresh();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const saveMirrorMode = async () => {
     if (!channel) return;
     setLoading(true);
@@ -427,6 +561,117 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
     }
   };
 
+  const saveEditSyncMode = async () => {
+    if (!channel) return;
+    setLoading(true);
+    setError("");
+    setNotice("");
+    try {
+      const res = await fetch("/api/channels", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: channel.id, editSyncMode: editSyncModeDraft }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to update edit sync mode");
+      setNotice("编辑同步方式已更新（对之后的编辑生效）");
+      setEditSyncModeDirty(false);
+      await refresh();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveTelegramAccount = async (telegramAccountId: string | null) => {
+    if (!channel) return;
+    setLoading(true);
+    setError("");
+    setNotice("");
+    try {
+      const res = await fetch("/api/channels", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: channel.id, telegramAccountId }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to update telegram account");
+      setNotice("同步账号已更新（mirror-service 会在几秒内切换）");
+      await refresh();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const parseDeletionGraceMinutesDraft = (): number => {
+    const raw = deletionGraceMinutesDraft.trim();
+    const parsed = raw ? Number.parseInt(raw, 10) : 0;
+    if (!Number.isFinite(parsed)) throw new Error("宽限时间必须是整数（分钟）");
+    return Math.max(0, Math.min(43_200, Math.trunc(parsed)));
+  };
+
+  const previewDeletionPolicy = async () => {
+    if (!channel) return;
+    setLoading(true);
+    setError("");
+    setNotice("");
+    try {
+      const graceMinutes = parseDeletionGraceMinutesDraft();
+      const qs = new URLSearchParams({ id: channel.id, mode: deletionSyncModeDraft, graceMinutes: String(graceMinutes) });
+      const res = await fetch(`/api/channels/deletion-preview?${qs.toString()}`, { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to load deletion preview");
+      setDeletionPreview(data as DeletionPreview);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveDeletionPolicy = async () => {
+    if (!channel) return;
+    setError("");
+    setNotice("");
+    let graceMinutes = 0;
+    try {
+      graceMinutes = parseDeletionGraceMinutesDraft();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+      return;
+    }
+    if (
+      deletionSyncModeDraft === "delete" &&
+      !confirm(
+        `确认启用“删除镜像消息”吗？之后源频道删除的消息会在 ${graceMinutes} 分钟后从镜像频道里删除，且无法恢复（切换前已删除的不受影响）。建议先点“预览”确认受影响的消息。`,
+      )
+    ) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/channels", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: channel.id, deletionSyncMode: deletionSyncModeDraft, deletionGraceMinutes: graceMinutes }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to update deletion policy");
+      setNotice("删除同步策略已更新");
+      setDeletionPolicyDirty(false);
+      setDeletionPreview(null);
+      await refresh();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const saveMessageFilter = async () => {
     if (!channel) return;
     setLoading(true);
@@ -440,6 +685,7 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
           id: channel.id,
           messageFilterMode: messageFilterModeDraft,
           messageFilterKeywords: messageFilterKeywordsDraft,
+          messageFilterRules: messageFilterRulesDraft,
         }),
       });
       const data = await res.json();
@@ -447,6 +693,7 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
       setNotice("该频道过滤已更新（约 5 秒内生效）");
       setMessageFilterModeDirty(false);
       setMessageFilterKeywordsDirty(false);
+      setMessageFilterRulesDirty(false);
       await refresh();
     } catch (e: unknown) {
       setError(getErrorMessage(e));
@@ -534,6 +781,29 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
     }
   };
 
+  const requestChannelResolve = async () => {
+    if (!channel) return;
+    if (!confirm("确认重新解析该频道吗？mirror-service 会立即放弃当前实时订阅和频道缓存，重新解析后再订阅。")) return;
+    setLoading(true);
+    setError("");
+    setNotice("");
+    try {
+      const res = await fetch("/api/mirror-control", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "resolve_channel", sourceChannelId: channel.id }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "Failed to request channel resolve");
+      setNotice("已重新加入解析任务：解析完成后会自动重新订阅。");
+      await refresh();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       {error ? (
@@ -694,7 +964,7 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
                       </a>
                     </div>
                   ) : null}
-                  {channel.syncStatus === "error" ? (
+                  {canOperate && channel.syncStatus === "error" ? (
                     <div className="mt-2">
                       <button
                         type="button"
@@ -706,6 +976,19 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
                       </button>
                     </div>
                   ) : null}
+                  {canOperate ? (
+                    <div className="mt-2">
+                      <button
+                        type="button"
+                        onClick={requestChannelResolve}
+                        disabled={loading}
+                        className="ui-btn ui-btn-secondary h-9 px-3 text-sm"
+                        title="频道改名、换了 username 或镜像频道后使用，不需要重启 mirror-service"
+                      >
+                        重新解析并订阅
+                      </button>
+                    </div>
+                  ) : null}
                 </div>
                 <div>
                   <div className="text-black/60 dark:text-slate-300">策略</div>
@@ -725,162 +1008,391 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
               </div>
             </div>
 
-            <div className="mt-4 rounded-md border border-black/10 bg-white p-4 text-sm dark:border-white/10 dark:bg-white/5">
-              <div className="font-medium">分组与优先级</div>
-              <div className="mt-2 flex flex-wrap items-end gap-3">
-                <div>
-                  <div className="text-xs text-black/60 dark:text-slate-400">分组（空=未分组）</div>
-                  <input
-                    type="text"
-                    value={groupNameDraft}
-                    onChange={(e) => {
-                      setGroupNameDraft(e.target.value);
-                      setGroupNameDirty(true);
-                    }}
-                    placeholder="例如：重要/娱乐"
-                    className="mt-1 h-10 w-48 rounded-md border border-black/10 bg-white px-3 text-sm text-gray-900 outline-none focus:border-black/30 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:focus:border-white/20"
-                  />
+            {canOperate ? (
+              <>
+                <div className="mt-4 rounded-md border border-black/10 bg-white p-4 text-sm dark:border-white/10 dark:bg-white/5">
+                  <div className="font-medium">分组与优先级</div>
+                  <div className="mt-2 flex flex-wrap items-end gap-3">
+                    <div>
+                      <div className="text-xs text-black/60 dark:text-slate-400">分组（空=未分组）</div>
+                      <input
+                        type="text"
+                        value={groupNameDraft}
+                        onChange={(e) => {
+                          setGroupNameDraft(e.target.value);
+                          setGroupNameDirty(true);
+                        }}
+                        placeholder="例如：重要/娱乐"
+                        className="mt-1 h-10 w-48 rounded-md border border-black/10 bg-white px-3 text-sm text-gray-900 outline-none focus:border-black/30 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:focus:border-white/20"
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={saveGroupName}
+                      disabled={loading || groupNameDraft.trim().slice(0, 50) === (channel.groupName ?? "")}
+                      className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
+                    >
+                      保存分组
+                    </button>
+
+                    <div>
+                      <div className="text-xs text-black/60 dark:text-slate-400">优先级（-100~100）</div>
+                      <input
+                        type="number"
+                        value={priorityDraft}
+                        onChange={(e) => {
+                          setPriorityDraft(e.target.value);
+                          setPriorityDirty(true);
+                        }}
+                        className="mt-1 h-10 w-28 rounded-md border border-black/10 bg-white px-3 text-sm text-gray-900 outline-none focus:border-black/30 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:focus:border-white/20"
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={savePriority}
+                      disabled={(() => {
+                        if (loading) return true;
+                        const raw = priorityDraft.trim();
+                        const parsed = raw ? Number.parseInt(raw, 10) : 0;
+                        if (!Number.isFinite(parsed)) return true;
+                        const clamped = Math.max(-100, Math.min(100, Math.trunc(parsed)));
+                        return clamped === (channel.priority ?? 0);
+                      })()}
+                      className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
+                    >
+                      保存优先级
+                    </button>
+                  </div>
+                  <div className="mt-2 text-xs text-black/60 dark:text-slate-400">
+                    提示：优先级越大，mirror-service 越倾向先处理这个频道的 pending 任务（比如设 10）。
+                  </div>
                 </div>
-                <button
-                  type="button"
-                  onClick={saveGroupName}
-                  disabled={loading || groupNameDraft.trim().slice(0, 50) === (channel.groupName ?? "")}
-                  className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
-                >
-                  保存分组
-                </button>
 
-                <div>
-                  <div className="text-xs text-black/60 dark:text-slate-400">优先级（-100~100）</div>
-                  <input
-                    type="number"
-                    value={priorityDraft}
-                    onChange={(e) => {
-                      setPriorityDraft(e.target.value);
-                      setPriorityDirty(true);
-                    }}
-                    className="mt-1 h-10 w-28 rounded-md border border-black/10 bg-white px-3 text-sm text-gray-900 outline-none focus:border-black/30 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:focus:border-white/20"
-                  />
+    	            <div className="mt-4 rounded-md border border-black/10 bg-white p-4 text-sm dark:border-white/10 dark:bg-white/5">
+    	              <div className="font-medium">镜像方式</div>
+                  <div className="mt-2 flex flex-wrap items-center gap-2">
+                    <div className="min-w-[220px]">
+    	                  <Select
+    	                    value={mirrorModeDraft}
+    	                    onChange={(next) => {
+    	                      setMirrorModeDraft(next as MirrorMode);
+    	                      setMirrorModeDirty(true);
+    	                    }}
+    	                    disabled={loading}
+    	                    options={[
+    	                      { value: "forward", label: "forward（支持媒体/相册）" },
+    	                      { value: "copy", label: "copy（仅文本，当前用于测试）" },
+    	                    ]}
+    	                  />
+    	                </div>
+                    <button
+                      type="button"
+                      onClick={saveMirrorMode}
+                      disabled={loading || !channel || mirrorModeDraft === (channel.mirrorMode ?? "forward")}
+                      className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
+                    >
+                      保存镜像方式
+                    </button>
+                  </div>
+    			              <div className="mt-2 text-xs text-black/60 dark:text-slate-400">
+    			                提示：修改后只影响“之后同步”的消息；已经备份到镜像频道里的历史消息不会自动重发或重排。copy 当前只复制文本，不复制图片、视频和文件；如需完整媒体请选 forward。
+    			              </div>
+    		            </div>
+
+                <div className="mt-4 rounded-md border border-black/10 bg-white p-4 text-sm dark:border-white/10 dark:bg-white/5">
+                  <div className="font-medium">文本转换（仅 copy 模式）</div>
+                  <div className="mt-1 text-xs text-black/60 dark:text-slate-400">
+                    发送到镜像频道前按顺序处理：正则替换 → 链接 → @提及 → 去掉末尾签名 → 模板 → 页脚；编辑同步时同样生效。
+                  </div>
+                  <div className="mt-3">
+                    <CopyTransformEditor
+                      channelId={channel.id}
+                      value={channel.copyTransforms}
+                      disabled={loading}
+                      onSaved={refresh}
+                    />
+                  </div>
                 </div>
-                <button
-                  type="button"
-                  onClick={savePriority}
-                  disabled={(() => {
-                    if (loading) return true;
-                    const raw = priorityDraft.trim();
-                    const parsed = raw ? Number.parseInt(raw, 10) : 0;
-                    if (!Number.isFinite(parsed)) return true;
-                    const clamped = Math.max(-100, Math.min(100, Math.trunc(parsed)));
-                    return clamped === (channel.priority ?? 0);
-                  })()}
-                  className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
-                >
-                  保存优先级
-                </button>
+
+                <div className="mt-4 rounded-md border border-black/10 bg-white p-4 text-sm dark:border-white/10 dark:bg-white/5">
+                  <div className="font-medium">额外镜像目标</div>
+                  <div className="mt-1 text-xs text-black/60 dark:text-slate-400">
+                    主镜像处理完一条消息后，再依次发到这里的每个频道（从最早的消息开始补齐）；每个目标可以单独设置镜像方式、过滤规则和文本转换。编辑/删除同步只作用于主镜像。
+                  </div>
+                  <div className="mt-3">
+                    <MirrorTargetsEditor sourceChannelId={channel.id} disabled={loading} />
+                  </div>
+                </div>
+
+                <div className="mt-4 rounded-md border border-black/10 bg-white p-4 text-sm dark:border-white/10 dark:bg-white/5">
+                  <div className="font-medium">同步账号</div>
+                  <div className="mt-2 flex flex-wrap items-center gap-3">
+                    <div className="min-w-[260px]">
+                      <Select
+                        value={channel.telegramAccountId ?? ""}
+                        onChange={(next) => void saveTelegramAccount(next || null)}
+                        disabled={loading}
+                        options={[
+                          { value: "", label: "自动分配" },
+                          ...telegramAccounts.map((account) => ({
+                            value: account.id,
+                            label: account.hasSession && account.isActive ? account.name : `${account.name}（不可用）`,
+                          })),
+                        ]}
+                      />
+                    </div>
+                    <div className="text-xs text-black/60 dark:text-slate-400">
+                      当前由：
+                      {channel.activeAccountId
+                        ? (telegramAccounts.find((account) => account.id === channel.activeAccountId)?.name ?? channel.activeAccountId)
+                        : "-"}
+                    </div>
+                  </div>
+                  <div className="mt-2 text-xs text-black/60 dark:text-slate-400">
+                    提示：该账号需要已加入源频道，并且在镜像频道有发消息权限；指定的账号不在线时频道会暂停同步。
+                  </div>
+                </div>
+
+                <div className="mt-4 rounded-md border border-black/10 bg-white p-4 text-sm dark:border-white/10 dark:bg-white/5">
+                  <div className="font-medium">编辑同步</div>
+                  <div className="mt-2 flex flex-wrap items-center gap-2">
+                    <div className="min-w-[260px]">
+                      <Select
+                        value={editSyncModeDraft}
+                        onChange={(next) => {
+                          setEditSyncModeDraft(next as EditSyncMode);
+                          setEditSyncModeDirty(true);
+                        }}
+                        disabled={loading}
+                        options={[
+                          { value: "edit", label: "edit（原地修改镜像消息）" },
+                          { value: "comment", label: "comment（在评论区追加编辑说明）" },
+                          { value: "record", label: "record（仅记录，不改动镜像）" },
+                        ]}
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={saveEditSyncMode}
+                      disabled={loading || !channel || editSyncModeDraft === (channel.editSyncMode ?? "record")}
+                      className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
+                    >
+                      保存编辑同步
+                    </button>
+                  </div>
+                  <div className="mt-2 text-xs text-black/60 dark:text-slate-400">
+                    提示：默认 record，只记录不改动镜像，需要时再切换；同时需要在 /settings 开启“同步编辑”。edit 会同步文本与格式，forward 镜像在源消息替换媒体时也会一并替换；comment 需要镜像频道已绑定讨论组。每次同步结果会记录在消息的编辑历史里。
+                  </div>
+                </div>
+
+                <div className="mt-4 rounded-md border border-black/10 bg-white p-4 text-sm dark:border-white/10 dark:bg-white/5">
+                  <div className="font-medium">删除同步</div>
+                  <div className="mt-2 flex flex-wrap items-end gap-3">
+                    <div>
+                      <div className="text-xs text-black/60 dark:text-slate-400">方式</div>
+                      <div className="mt-1 min-w-[260px]">
+                        <Select
+                          value={deletionSyncModeDraft}
+                          onChange={(next) => {
+                            setDeletionSyncModeDraft(next as DeletionSyncMode);
+                            setDeletionPolicyDirty(true);
+                            setDeletionPreview(null);
+                          }}
+                          disabled={loading}
+                          options={[
+                            { value: "record", label: "record（仅记录，不改动镜像）" },
+                            { value: "mark", label: "mark（回复“源频道已删除”）" },
+                            { value: "delete", label: "delete（删除镜像消息，不可恢复）" },
+                          ]}
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-black/60 dark:text-slate-400">宽限时间（分钟）</div>
+                      <input
+                        type="number"
+                        value={deletionGraceMinutesDraft}
+                        onChange={(e) => {
+                          setDeletionGraceMinutesDraft(e.target.value);
+                          setDeletionPolicyDirty(true);
+                          setDeletionPreview(null);
+                        }}
+                        className="mt-1 h-10 w-28 rounded-md border border-black/10 bg-white px-3 text-sm text-gray-900 outline-none focus:border-black/30 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:focus:border-white/20"
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={previewDeletionPolicy}
+                      disabled={loading || !channel || deletionSyncModeDraft === "record"}
+                      className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
+                    >
+                      预览
+                    </button>
+                    <button
+                      type="button"
+                      onClick={saveDeletionPolicy}
+                      disabled={loading || !channel || !deletionPolicyDirty}
+                      className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
+                    >
+                      保存删除同步
+                    </button>
+                  </div>
+                  <div className="mt-2 text-xs text-black/60 dark:text-slate-400">
+                    提示：需要在 /settings 开启“同步删除”。源消息被删除后，超过宽限时间才会处理镜像消息；没有镜像消息（未备份/被跳过）的记录会被忽略。切换方式后只处理之后的删除，之前积压的不会补处理；处理失败会退避重试，连续失败 5 次记为失败。
+                  </div>
+
+                  {deletionPreview ? (
+                    <div className="mt-3 rounded-md border border-black/10 p-3 text-xs dark:border-white/10">
+                      <div className="text-black/70 dark:text-slate-300">
+                        预览（{deletionPreview.mode === "delete" ? "删除" : "标记"}，宽限 {deletionPreview.graceMinutes} 分钟）：共{" "}
+                        {deletionPreview.total} 条待处理，其中 {deletionPreview.dueCount} 条已到期会在下一轮处理；
+                        {deletionPreview.withoutMirrorCount} 条没有镜像消息，将被忽略。
+                        {deletionPreview.backlogCount
+                          ? `另有 ${deletionPreview.backlogCount} 条在 ${formatTime(deletionPreview.since)} 之前删除（切换方式前积压），不会处理。`
+                          : ""}
+                      </div>
+                      {deletionPreview.items.length ? (
+                        <div className="mt-2 max-h-64 space-y-1 overflow-auto">
+                          {deletionPreview.items.map((item) => (
+                            <div key={item.id} className="flex flex-wrap items-center gap-2">
+                              <span className={item.isDue ? "text-red-600 dark:text-red-300" : "text-black/60 dark:text-slate-400"}>
+                                {item.isDue ? "到期" : `到期于 ${formatTime(item.dueAt)}`}
+                              </span>
+                              {item.attempts ? <span className="text-amber-600 dark:text-amber-300">已失败 {item.attempts} 次，重试中</span> : null}
+                              {item.links.mirror ? (
+                                <a href={item.links.mirror} target="_blank" rel="noreferrer" className="underline">
+                                  镜像 #{item.mirrorMessageId}
+                                </a>
+                              ) : (
+                                <span>镜像 #{item.mirrorMessageId}</span>
+                              )}
+                              <span className="text-black/60 dark:text-slate-400">源 #{item.sourceMessageId}</span>
+                              <span className="truncate text-black/60 dark:text-slate-400">{item.textPreview ?? ""}</span>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="mt-2 text-black/60 dark:text-slate-400">没有受影响的镜像消息</div>
+                      )}
+                    </div>
+                  ) : null}
+                </div>
+              </>
+            ) : null}
+
+            <div className="mt-4 rounded-md border border-black/10 bg-white p-4 text-sm dark:border-white/10 dark:bg-white/5">
+              <div className="font-medium">镜像完整性</div>
+              <div className="mt-1 text-xs text-black/60 dark:text-slate-400">
+                mirror-service 会定期确认已镜像的消息仍在主镜像频道里（被 Telegram 审核删除、管理员误删、频道重建都会表现为缺失）；按删除同步主动删掉的不算缺失。
               </div>
-              <div className="mt-2 text-xs text-black/60 dark:text-slate-400">
-                提示：优先级越大，mirror-service 越倾向先处理这个频道的 pending 任务（比如设 10）。
+              <div className="mt-3">
+                <MirrorIntegrityPanel sourceChannelId={channel.id} disabled={loading || !canOperate} />
               </div>
             </div>
 
-	            <div className="mt-4 rounded-md border border-black/10 bg-white p-4 text-sm dark:border-white/10 dark:bg-white/5">
-	              <div className="font-medium">镜像方式</div>
-              <div className="mt-2 flex flex-wrap items-center gap-2">
-                <div className="min-w-[220px]">
-	                  <Select
-	                    value={mirrorModeDraft}
-	                    onChange={(next) => {
-	                      setMirrorModeDraft(next as MirrorMode);
-	                      setMirrorModeDirty(true);
-	                    }}
-	                    disabled={loading}
-	                    options={[
-	                      { value: "forward", label: "forward（支持媒体/相册）" },
-	                      { value: "copy", label: "copy（仅文本，当前用于测试）" },
-	                    ]}
-	                  />
-	                </div>
-                <button
-                  type="button"
-                  onClick={saveMirrorMode}
-                  disabled={loading || !channel || mirrorModeDraft === (channel.mirrorMode ?? "forward")}
-                  className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
-                >
-                  保存镜像方式
-                </button>
+            <div className="mt-4 rounded-md border border-black/10 bg-white p-4 text-sm dark:border-white/10 dark:bg-white/5">
+              <div className="font-medium">消息缺口</div>
+              <div className="mt-1 text-xs text-black/60 dark:text-slate-400">
+                mirror-service 会定期对比源频道的消息 id 与已记录的映射：源频道删掉的消息和服务消息属于正常空洞，漏掉的（断线、进程崩溃期间）可以一键回填。
+              </div>
+              <div className="mt-3">
+                <GapScanPanel sourceChannelId={channel.id} disabled={loading || !canOperate} />
               </div>
-			              <div className="mt-2 text-xs text-black/60 dark:text-slate-400">
-			                提示：修改后只影响“之后同步”的消息；已经备份到镜像频道里的历史消息不会自动重发或重排。copy 当前只复制文本，不复制图片、视频和文件；如需完整媒体请选 forward。
-			              </div>
-		            </div>
+            </div>
 
-            <div className="mt-4 rounded-md border border-black/10 bg-white p-4 text-sm dark:border-white/10 dark:bg-white/5">
-              <div className="font-medium">广告过滤（该频道）</div>
-              <div className="mt-2 flex flex-wrap items-end gap-3">
-                <div>
-                  <div className="text-xs text-black/60 dark:text-slate-400">模式</div>
-                  <div className="mt-1 min-w-[260px]">
-                    <Select
-                      value={messageFilterModeDraft}
-                      onChange={(next) => {
-                        setMessageFilterModeDraft(next as MessageFilterMode);
-                        setMessageFilterModeDirty(true);
+            {canOperate ? (
+              <div className="mt-4 rounded-md border border-black/10 bg-white p-4 text-sm dark:border-white/10 dark:bg-white/5">
+                <div className="font-medium">广告过滤（该频道）</div>
+                <div className="mt-2 flex flex-wrap items-end gap-3">
+                  <div>
+                    <div className="text-xs text-black/60 dark:text-slate-400">模式</div>
+                    <div className="mt-1 min-w-[260px]">
+                      <Select
+                        value={messageFilterModeDraft}
+                        onChange={(next) => {
+                          setMessageFilterModeDraft(next as MessageFilterMode);
+                          setMessageFilterModeDirty(true);
+                        }}
+                        disabled={loading}
+                        options={[
+                          { value: "inherit", label: "inherit（跟随全局 /settings）" },
+                          { value: "disabled", label: "disabled（该频道关闭过滤）" },
+                          { value: "custom", label: "custom（该频道自定义关键词/规则）" },
+                          { value: "merge", label: "merge（全局规则 + 该频道规则）" },
+                        ]}
+                      />
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={saveMessageFilter}
+                    disabled={
+                      loading ||
+                      !channel ||
+                      (!messageFilterModeDirty && !messageFilterKeywordsDirty && !messageFilterRulesDirty) ||
+                      (messageFilterModeDraft === (channel.messageFilterMode ?? "inherit") &&
+                        messageFilterKeywordsDraft.trim() === (channel.messageFilterKeywords ?? "").trim() &&
+                        JSON.stringify(messageFilterRulesDraft) === JSON.stringify(toMessageFilterRules(channel.messageFilterRules)))
+                    }
+                    className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
+                  >
+                    保存过滤设置
+                  </button>
+                </div>
+
+                {messageFilterModeDraft === "custom" || messageFilterModeDraft === "merge" ? (
+                  <div className="mt-3">
+                    <div className="text-xs text-black/60 dark:text-slate-400">关键词（建议每行一个）</div>
+                    <textarea
+                      value={messageFilterKeywordsDraft}
+                      onChange={(e) => {
+                        setMessageFilterKeywordsDraft(e.target.value);
+                        setMessageFilterKeywordsDirty(true);
                       }}
-                      disabled={loading}
-                      options={[
-                        { value: "inherit", label: "inherit（跟随全局 /settings）" },
-                        { value: "disabled", label: "disabled（该频道关闭过滤）" },
-                        { value: "custom", label: "custom（该频道自定义关键词）" },
-                      ]}
+                      rows={4}
+                      placeholder={"广告\n加群\nVX"}
+                      className="mt-1 w-full rounded-md border border-black/10 bg-white px-3 py-2 text-sm text-gray-900 outline-none focus:border-black/30 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:focus:border-white/20"
                     />
+                    <div className="mt-3 text-xs text-black/60 dark:text-slate-400">过滤规则</div>
+                    <div className="mt-1">
+                      <MessageFilterRulesEditor
+                        rules={messageFilterRulesDraft}
+                        onChange={(rules) => {
+                          setMessageFilterRulesDraft(rules);
+                          setMessageFilterRulesDirty(true);
+                        }}
+                        disabled={loading}
+                        sourceChannelId={channel.id}
+                      />
+                    </div>
                   </div>
+                ) : null}
+
+                <div className="mt-2 text-xs text-black/60 dark:text-slate-400">
+                  说明：命中关键词或任意一条规则的消息会被跳过（skipped=filtered），不会发送到镜像频道；merge 模式下全局关键词/规则同样生效。
                 </div>
+              </div>
+            ) : null}
+
+            <div className="mt-4 flex flex-wrap gap-2">
+              {canOperate ? (
                 <button
                   type="button"
-                  onClick={saveMessageFilter}
-                  disabled={
-                    loading ||
-                    !channel ||
-                    (!messageFilterModeDirty && !messageFilterKeywordsDirty) ||
-                    (messageFilterModeDraft === (channel.messageFilterMode ?? "inherit") &&
-                      messageFilterKeywordsDraft.trim() === (channel.messageFilterKeywords ?? "").trim())
-                  }
+                  onClick={toggleActive}
+                  disabled={loading}
                   className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
                 >
-                  保存过滤设置
+                  {loading ? "处理中..." : channel.isActive ? "停用同步" : "启用同步"}
                 </button>
-              </div>
-
-              {messageFilterModeDraft === "custom" ? (
-                <div className="mt-3">
-                  <div className="text-xs text-black/60 dark:text-slate-400">关键词（建议每行一个）</div>
-                  <textarea
-                    value={messageFilterKeywordsDraft}
-                    onChange={(e) => {
-                      setMessageFilterKeywordsDraft(e.target.value);
-                      setMessageFilterKeywordsDirty(true);
-                    }}
-                    rows={4}
-                    placeholder={"广告\n加群\nVX"}
-                    className="mt-1 w-full rounded-md border border-black/10 bg-white px-3 py-2 text-sm text-gray-900 outline-none focus:border-black/30 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:focus:border-white/20"
-                  />
-                </div>
               ) : null}
-
-              <div className="mt-2 text-xs text-black/60 dark:text-slate-400">
-                说明：命中关键词的消息会被跳过（skipped=filtered），不会发送到镜像频道。
-              </div>
-            </div>
-
-            <div className="mt-4 flex flex-wrap gap-2">
-              <button
-                type="button"
-                onClick={toggleActive}
-                disabled={loading}
-                className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
-              >
-                {loading ? "处理中..." : channel.isActive ? "停用同步" : "启用同步"}
-              </button>
+              {exportMessagesLink ? (
+                <Select
+                  value={exportFormat}
+                  onChange={(next) => setExportFormat(next as ExportFormat)}
+                  options={EXPORT_FORMATS.map((f) => ({ value: f, label: exportFormatLabels[f] }))}
+                  className="w-56"
+                />
+              ) : null}
               {exportMessagesLink ? (
                 <a
                   href={exportMessagesLink}
@@ -888,17 +1400,19 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
                   rel="noreferrer"
                   className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
                 >
-                  导出消息(JSONL)
+                  导出消息
                 </a>
               ) : null}
-              <button
-                type="button"
-                onClick={deleteChannel}
-                disabled={loading}
-                className="inline-flex h-10 items-center justify-center rounded-md border border-red-200 bg-red-50 px-4 text-sm text-red-700 hover:bg-red-100 disabled:opacity-50 dark:border-red-500/30 dark:bg-red-500/10 dark:text-red-200 dark:hover:bg-red-500/15"
-              >
-                {loading ? "处理中..." : "删除频道"}
-              </button>
+              {canDelete ? (
+                <button
+                  type="button"
+                  onClick={deleteChannel}
+                  disabled={loading}
+                  className="inline-flex h-10 items-center justify-center rounded-md border border-red-200 bg-red-50 px-4 text-sm text-red-700 hover:bg-red-100 disabled:opacity-50 dark:border-red-500/30 dark:bg-red-500/10 dark:text-red-200 dark:hover:bg-red-500/15"
+                >
+                  {loading ? "处理中..." : "删除频道"}
+                </button>
+              ) : null}
             </div>
           </div>
 
@@ -949,6 +1463,23 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
 	                ) : null}
 	                {renderTaskActions(channel.tasks.history_full)}
 	              </div>
+              <div>
+                history_partial: {channel.tasks.history_partial?.status ?? "-"}
+                {channel.tasks.history_partial ? (
+                  <span className="text-black/60 dark:text-slate-400">
+                    {" "}
+                    · progress={channel.tasks.history_partial.progressCurrent ?? 0}/
+                    {channel.tasks.history_partial.progressTotal ?? "-"} · lastId=
+                    {channel.tasks.history_partial.lastProcessedId ?? "-"}
+                  </span>
+                ) : null}
+                {channel.tasks.history_partial?.lastError ? (
+                  <div className="mt-1 text-xs text-red-700 dark:text-red-200 whitespace-pre-wrap">
+                    {channel.tasks.history_partial.lastError}
+                  </div>
+                ) : null}
+                {renderTaskActions(channel.tasks.history_partial)}
+              </div>
               <div>
                 realtime: {channel.tasks.realtime?.status ?? "-"}{" "}
                 {channel.tasks.realtime?.lastError ? (
@@ -959,6 +1490,73 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
             </div>
           </div>
 
+          {canOperate ? (
+            <div className="rounded-xl border border-black/10 bg-white p-6 shadow-sm dark:border-white/10 dark:bg-slate-900/40">
+              <h2 className="text-base font-semibold">区间回填</h2>
+              <div className="mt-1 text-xs text-black/60 dark:text-slate-400">
+                按消息 ID 区间或时间窗口补同步（history_partial），可用于补齐停机期间的缺口；两者可同时填写，取交集。重新提交会覆盖上一次的范围并从头开始。
+              </div>
+              <div className="mt-4 flex flex-wrap items-end gap-3 text-sm">
+                <div>
+                  <div className="text-xs text-black/60 dark:text-slate-400">起始消息 ID</div>
+                  <input
+                    type="number"
+                    min={1}
+                    value={partialStartIdDraft}
+                    onChange={(e) => setPartialStartIdDraft(e.target.value)}
+                    className="mt-1 h-10 w-32 rounded-md border border-black/10 bg-white px-3 text-sm text-gray-900 outline-none focus:border-black/30 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:focus:border-white/20"
+                  />
+                </div>
+                <div>
+                  <div className="text-xs text-black/60 dark:text-slate-400">结束消息 ID</div>
+                  <input
+                    type="number"
+                    min={1}
+                    value={partialEndIdDraft}
+                    onChange={(e) => setPartialEndIdDraft(e.target.value)}
+                    className="mt-1 h-10 w-32 rounded-md border border-black/10 bg-white px-3 text-sm text-gray-900 outline-none focus:border-black/30 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:focus:border-white/20"
+                  />
+                </div>
+                <div>
+                  <div className="text-xs text-black/60 dark:text-slate-400">开始时间</div>
+                  <input
+                    type="datetime-local"
+                    value={partialStartAtDraft}
+                    onChange={(e) => setPartialStartAtDraft(e.target.value)}
+                    className="mt-1 h-10 w-52 rounded-md border border-black/10 bg-white px-3 text-sm text-gray-900 outline-none focus:border-black/30 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:focus:border-white/20"
+                  />
+                </div>
+                <div>
+                  <div className="text-xs text-black/60 dark:text-slate-400">结束时间</div>
+                  <input
+                    type="datetime-local"
+                    value={partialEndAtDraft}
+                    onChange={(e) => setPartialEndAtDraft(e.target.value)}
+                    className="mt-1 h-10 w-52 rounded-md border border-black/10 bg-white px-3 text-sm text-gray-900 outline-none focus:border-black/30 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:focus:border-white/20"
+                  />
+                </div>
+              </div>
+              <div className="mt-3">
+                <Checkbox
+                  label="重新镜像已处理的消息"
+                  description="默认只补发 pending/failed 的消息；勾选后已成功或已跳过的消息也会按当前镜像方式重新发送。"
+                  checked={partialRemirror}
+                  onChange={(checked) => setPartialRemirror(checked)}
+                />
+              </div>
+              <div className="mt-4">
+                <button
+                  type="button"
+                  onClick={enqueueHistoryPartial}
+                  disabled={loading || !channel.isActive || channel.tasks.history_partial?.status === "running"}
+                  className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
+                >
+                  创建回填任务
+                </button>
+              </div>
+            </div>
+          ) : null}
+
           <div className="rounded-xl border border-black/10 bg-white p-6 shadow-sm dark:border-white/10 dark:bg-slate-900/40">
             <h2 className="text-base font-semibold">消息统计</h2>
             <div className="mt-4 grid grid-cols-2 gap-3 text-sm md:grid-cols-3">
@@ -1001,20 +1599,22 @@ export function ChannelDetails({ channelId }: { channelId: string }) {
               >
                 查看 skipped
               </a>
-              <button
-                type="button"
-                onClick={retryFailedMessages}
-                disabled={
-                  loading ||
-                  !channel.isActive ||
-                  channel.messageStats.failed <= 0 ||
-                  channel.tasks.history_full?.status === "pending" ||
-                  channel.tasks.history_full?.status === "running"
-                }
-                className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
-              >
-                重试 failed（创建任务）
-              </button>
+              {canOperate ? (
+                <button
+                  type="button"
+                  onClick={retryFailedMessages}
+                  disabled={
+                    loading ||
+                    !channel.isActive ||
+                    channel.messageStats.failed <= 0 ||
+                    channel.tasks.history_full?.status === "pending" ||
+                    channel.tasks.history_full?.status === "running"
+                  }
+                  className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
+                >
+                  重试 failed（创建任务）
+                </button>
+              ) : null}
             </div>
           </div>
 
@@ -3,6 +3,7 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import clsx from "clsx";
 import { Clock, MessageSquare, Pause, Play, Trash2, Users } from "lucide-react";
+import { useAccess } from "@/components/auth/AccessGuard";
 import { Checkbox } from "@/components/ui/Checkbox";
 import { Select } from "@/components/ui/Select";
 import { type LocalQueryPreset } from "@/lib/local-presets";
@@ -191,6 +192,9 @@ export function ChannelsManager({
   initialSyncStatusFilter?: "all" | "pending" | "syncing" | "completed" | "error";
   initialSortBy?: "default" | "priority_desc" | "name_asc" | "last_sync_desc";
 }) {
+  const { can } = useAccess();
+  const canOperate = can("operate");
+  const canDelete = can("admin");
   const [channels, setChannels] = useState<ChannelRow[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
@@ -854,196 +858,198 @@ export function ChannelsManager({
         <div className="ui-alert-info">{notice}</div>
       ) : null}
 
-      <div className="ui-card">
-        <h2 className="ui-section-title">添加频道</h2>
-        <div className="mt-4 grid grid-cols-1 gap-3">
-          <div className="flex flex-wrap items-center justify-between gap-2">
-            <div className="text-sm text-gray-600 dark:text-slate-300">提示：批量添加适合一次性添加很多频道。</div>
-            <Checkbox
-              label="批量添加"
-              checked={bulkAddMode}
-              onChange={(checked) => {
-                setBulkAddMode(checked);
-                setBulkAddProgress(null);
-                if (!checked) setBulkSourceIdentifiers("");
-              }}
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium">源频道（@username / t.me 链接 / 邀请链接 / -100...）</label>
-            {bulkAddMode ? (
-              <div className="mt-1 space-y-2">
-                <textarea
-                  value={bulkSourceIdentifiers}
-                  onChange={(e) => setBulkSourceIdentifiers(e.target.value)}
-                  placeholder={`每行一个源频道，例如：\n@source_channel\nhttps://t.me/+xxxxx\n-1001234567890`}
-                  rows={5}
-                  className="ui-textarea"
-                />
-                <div className="flex flex-wrap items-center justify-between gap-2">
-                  <div className="text-xs text-gray-600 dark:text-slate-300">支持换行/空格/逗号分隔，会自动去重。</div>
-                  <button
-                    type="button"
-                    onClick={() => openPicker("source")}
-                    className="ui-btn ui-btn-secondary h-9"
-                  >
-                    从 Telegram 选择并追加
-                  </button>
-                </div>
-              </div>
-            ) : (
-              <div className="mt-1 flex gap-2">
-                <input
-                  value={sourceChannelIdentifier}
-                  onChange={(e) => setSourceChannelIdentifier(e.target.value)}
-                  placeholder="@source_channel / https://t.me/+xxxxx / -1001234567890"
-                  className="ui-input flex-1"
-                />
-                <button
-                  type="button"
-                  onClick={() => openPicker("source")}
-                  className="ui-btn ui-btn-secondary h-10 shrink-0"
-                >
-                  从 Telegram 选择
-                </button>
-              </div>
-            )}
-          </div>
-          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
-            <div>
-              <label className="block text-sm font-medium">分组（可选）</label>
-              <input
-                value={newGroupName}
-                onChange={(e) => setNewGroupName(e.target.value)}
-                placeholder="例如：工作 / 备份测试（留空=未分组）"
-                className="ui-input mt-1"
+      {canOperate ? (
+        <div className="ui-card">
+          <h2 className="ui-section-title">添加频道</h2>
+          <div className="mt-4 grid grid-cols-1 gap-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="text-sm text-gray-600 dark:text-slate-300">提示：批量添加适合一次性添加很多频道。</div>
+              <Checkbox
+                label="批量添加"
+                checked={bulkAddMode}
+                onChange={(checked) => {
+                  setBulkAddMode(checked);
+                  setBulkAddProgress(null);
+                  if (!checked) setBulkSourceIdentifiers("");
+                }}
               />
-              <div className="mt-1 text-xs text-gray-600 dark:text-slate-300">最多 50 个字，留空表示“不分组”。</div>
             </div>
             <div>
-              <label className="block text-sm font-medium">优先级（-100~100，越大越优先）</label>
-              <input
-                type="number"
-                min={-100}
-                max={100}
-                step={1}
-                value={newPriority}
-                onChange={(e) => setNewPriority(e.target.value)}
-                className="ui-input mt-1"
-              />
-              <div className="mt-1 text-xs text-gray-600 dark:text-slate-300">默认 0；比如设 10，表示这个频道任务更优先跑。</div>
-            </div>
-          </div>
-          <div>
-            <label className="block text-sm font-medium">镜像目标</label>
-            <div className="mt-2 flex flex-col gap-2">
-              <div className="flex flex-wrap items-center gap-4 text-sm">
-                <label className="inline-flex items-center gap-2">
-                  <input
-                    type="radio"
-                    name="mirrorTarget"
-                    value="manual"
-                    checked={mirrorTarget === "manual"}
-                    onChange={() => setMirrorTarget("manual")}
-                  />
-                  指定频道（输入/选择）
-                </label>
-                <label className="inline-flex items-center gap-2">
-                  <input
-                    type="radio"
-                    name="mirrorTarget"
-                    value="auto"
-                    checked={mirrorTarget === "auto"}
-                    onChange={() => setMirrorTarget("auto")}
+              <label className="block text-sm font-medium">源频道（@username / t.me 链接 / 邀请链接 / -100...）</label>
+              {bulkAddMode ? (
+                <div className="mt-1 space-y-2">
+                  <textarea
+                    value={bulkSourceIdentifiers}
+                    onChange={(e) => setBulkSourceIdentifiers(e.target.value)}
+                    placeholder={`每行一个源频道，例如：\n@source_channel\nhttps://t.me/+xxxxx\n-1001234567890`}
+                    rows={5}
+                    className="ui-textarea"
                   />
-                  自动创建镜像频道（私密）
-                </label>
-              </div>
-
-              {mirrorTarget === "manual" ? (
-                <div className="flex gap-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="text-xs text-gray-600 dark:text-slate-300">支持换行/空格/逗号分隔，会自动去重。</div>
+                    <button
+                      type="button"
+                      onClick={() => openPicker("source")}
+                      className="ui-btn ui-btn-secondary h-9"
+                    >
+                      从 Telegram 选择并追加
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="mt-1 flex gap-2">
                   <input
-                    value={mirrorChannelIdentifier}
-                    onChange={(e) => setMirrorChannelIdentifier(e.target.value)}
-                    placeholder="me / @backup_channel / https://t.me/+xxxxx / -1001234567890"
-                    className="h-10 w-full flex-1 rounded-md border border-black/10 bg-white px-3 text-sm text-gray-900 outline-none focus:border-black/30 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:focus:border-white/20"
+                    value={sourceChannelIdentifier}
+                    onChange={(e) => setSourceChannelIdentifier(e.target.value)}
+                    placeholder="@source_channel / https://t.me/+xxxxx / -1001234567890"
+                    className="ui-input flex-1"
                   />
                   <button
                     type="button"
-                    onClick={() => openPicker("mirror")}
-                    className="inline-flex h-10 shrink-0 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
+                    onClick={() => openPicker("source")}
+                    className="ui-btn ui-btn-secondary h-10 shrink-0"
                   >
                     从 Telegram 选择
                   </button>
                 </div>
-              ) : (
-                <div className="rounded-md border border-black/10 bg-black/[0.02] p-3 text-sm text-black/70 dark:border-white/10 dark:bg-white/5 dark:text-slate-300">
-                  将由 mirror-service 使用当前登录账号创建一个新的私密频道作为备份频道。可在{" "}
-                  <a href="/settings" className="underline">
-                    系统设置
-                  </a>{" "}
-                  中调整频道前缀（auto_channel_prefix）。
-                </div>
               )}
-
-              {bulkAddMode && mirrorTarget === "manual" ? (
-                <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-100">
-                  批量添加提示：如果你选择“指定频道”，这一批新增的源频道都会指向同一个备份频道（消息会混在一起）。如果你想每个源频道独立备份，建议选“自动创建镜像频道”。
-                </div>
-              ) : null}
             </div>
-          </div>
-          <div>
-            <label className="block text-sm font-medium">镜像方式</label>
-            <div className="mt-1 max-w-md">
-	              <Select
-	                value={mirrorMode}
-	                onChange={(next) => setMirrorMode(next as MirrorMode)}
-	                options={[
-	                  { value: "forward", label: "forward（无署名复制，支持媒体/相册）" },
-	                  { value: "copy", label: "copy（仅文本，当前用于测试）" },
-	                ]}
-	              />
-	            </div>
-		            <div className="mt-2 text-xs text-black/60 dark:text-slate-400">
-		              提示：copy 当前只复制文本，不复制图片、视频和文件；如需完整媒体请选 forward。
-		            </div>
-	          </div>
-          <div className="pt-2">
-            <button
-              type="button"
-              onClick={addChannel}
-              disabled={loading || (bulkAddMode ? parseBulkIdentifiers(bulkSourceIdentifiers).length === 0 : !sourceChannelIdentifier.trim())}
-              className="inline-flex h-10 items-center justify-center rounded-md bg-black px-4 text-sm text-white hover:bg-black/90 disabled:opacity-50"
-            >
-              {loading ? "处理中..." : bulkAddMode ? "批量添加并创建任务" : "添加并创建任务"}
-            </button>
-
-            {bulkAddMode && bulkAddProgress ? (
-              <div className="mt-3 rounded-md border border-black/10 bg-black/[0.02] p-3 text-sm dark:border-white/10 dark:bg-white/5">
-                <div className="text-black/70 dark:text-slate-300">
-                  批量添加进度：{bulkAddProgress.processed}/{bulkAddProgress.total}（创建 {bulkAddProgress.created} · 已存在{" "}
-                  {bulkAddProgress.existed} · 失败 {bulkAddProgress.failed}）
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium">分组（可选）</label>
+                <input
+                  value={newGroupName}
+                  onChange={(e) => setNewGroupName(e.target.value)}
+                  placeholder="例如：工作 / 备份测试（留空=未分组）"
+                  className="ui-input mt-1"
+                />
+                <div className="mt-1 text-xs text-gray-600 dark:text-slate-300">最多 50 个字，留空表示“不分组”。</div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium">优先级（-100~100，越大越优先）</label>
+                <input
+                  type="number"
+                  min={-100}
+                  max={100}
+                  step={1}
+                  value={newPriority}
+                  onChange={(e) => setNewPriority(e.target.value)}
+                  className="ui-input mt-1"
+                />
+                <div className="mt-1 text-xs text-gray-600 dark:text-slate-300">默认 0；比如设 10，表示这个频道任务更优先跑。</div>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">镜像目标</label>
+              <div className="mt-2 flex flex-col gap-2">
+                <div className="flex flex-wrap items-center gap-4 text-sm">
+                  <label className="inline-flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name="mirrorTarget"
+                      value="manual"
+                      checked={mirrorTarget === "manual"}
+                      onChange={() => setMirrorTarget("manual")}
+                    />
+                    指定频道（输入/选择）
+                  </label>
+                  <label className="inline-flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name="mirrorTarget"
+                      value="auto"
+                      checked={mirrorTarget === "auto"}
+                      onChange={() => setMirrorTarget("auto")}
+                    />
+                    自动创建镜像频道（私密）
+                  </label>
                 </div>
-                {bulkAddProgress.current ? (
-                  <div className="mt-1 text-xs text-black/60 dark:text-slate-400">当前：{bulkAddProgress.current}</div>
-                ) : null}
-                {bulkAddProgress.failures.length ? (
-                  <div className="mt-2 space-y-1 text-xs text-red-800 dark:text-red-200">
-                    <div className="font-medium">最近失败：</div>
-                    {bulkAddProgress.failures.slice(-10).map((f) => (
-                      <div key={`${f.identifier}-${f.error}`} className="whitespace-pre-wrap">
-                        - {f.identifier}: {truncateText(f.error, 160)}
-                      </div>
-                    ))}
-                    <div className="text-black/50 dark:text-slate-400">提示：失败不会影响其他成功的频道，你可以只复制失败项再试一次。</div>
+
+                {mirrorTarget === "manual" ? (
+                  <div className="flex gap-2">
+                    <input
+                      value={mirrorChannelIdentifier}
+                      onChange={(e) => setMirrorChannelIdentifier(e.target.value)}
+                      placeholder="me / @backup_channel / https://t.me/+xxxxx / -1001234567890"
+                      className="h-10 w-full flex-1 rounded-md border border-black/10 bg-white px-3 text-sm text-gray-900 outline-none focus:border-black/30 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:focus:border-white/20"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => openPicker("mirror")}
+                      className="inline-flex h-10 shrink-0 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
+                    >
+                      从 Telegram 选择
+                    </button>
+                  </div>
+                ) : (
+                  <div className="rounded-md border border-black/10 bg-black/[0.02] p-3 text-sm text-black/70 dark:border-white/10 dark:bg-white/5 dark:text-slate-300">
+                    将由 mirror-service 使用当前登录账号创建一个新的私密频道作为备份频道。可在{" "}
+                    <a href="/settings" className="underline">
+                      系统设置
+                    </a>{" "}
+                    中调整频道前缀（auto_channel_prefix）。
+                  </div>
+                )}
+
+                {bulkAddMode && mirrorTarget === "manual" ? (
+                  <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-100">
+                    批量添加提示：如果你选择“指定频道”，这一批新增的源频道都会指向同一个备份频道（消息会混在一起）。如果你想每个源频道独立备份，建议选“自动创建镜像频道”。
                   </div>
                 ) : null}
               </div>
-            ) : null}
+            </div>
+            <div>
+              <label className="block text-sm font-medium">镜像方式</label>
+              <div className="mt-1 max-w-md">
+  	              <Select
+  	                value={mirrorMode}
+  	                onChange={(next) => setMirrorMode(next as MirrorMode)}
+  	                options={[
+  	                  { value: "forward", label: "forward（无署名复制，支持媒体/相册）" },
+  	                  { value: "copy", label: "copy（仅文本，当前用于测试）" },
+  	                ]}
+  	              />
+  	            </div>
+  		            <div className="mt-2 text-xs text-black/60 dark:text-slate-400">
+  		              提示：copy 当前只复制文本，不复制图片、视频和文件；如需完整媒体请选 forward。
+  		            </div>
+  	          </div>
+            <div className="pt-2">
+              <button
+                type="button"
+                onClick={addChannel}
+                disabled={loading || (bulkAddMode ? parseBulkIdentifiers(bulkSourceIdentifiers).length === 0 : !sourceChannelIdentifier.trim())}
+                className="inline-flex h-10 items-center justify-center rounded-md bg-black px-4 text-sm text-white hover:bg-black/90 disabled:opacity-50"
+              >
+                {loading ? "处理中..." : bulkAddMode ? "批量添加并创建任务" : "添加并创建任务"}
+              </button>
+
+              {bulkAddMode && bulkAddProgress ? (
+                <div className="mt-3 rounded-md border border-black/10 bg-black/[0.02] p-3 text-sm dark:border-white/10 dark:bg-white/5">
+                  <div className="text-black/70 dark:text-slate-300">
+                    批量添加进度：{bulkAddProgress.processed}/{bulkAddProgress.total}（创建 {bulkAddProgress.created} · 已存在{" "}
+                    {bulkAddProgress.existed} · 失败 {bulkAddProgress.failed}）
+                  </div>
+                  {bulkAddProgress.current ? (
+                    <div className="mt-1 text-xs text-black/60 dark:text-slate-400">当前：{bulkAddProgress.current}</div>
+                  ) : null}
+                  {bulkAddProgress.failures.length ? (
+                    <div className="mt-2 space-y-1 text-xs text-red-800 dark:text-red-200">
+                      <div className="font-medium">最近失败：</div>
+                      {bulkAddProgress.failures.slice(-10).map((f) => (
+                        <div key={`${f.identifier}-${f.error}`} className="whitespace-pre-wrap">
+                          - {f.identifier}: {truncateText(f.error, 160)}
+                        </div>
+                      ))}
+                      <div className="text-black/50 dark:text-slate-400">提示：失败不会影响其他成功的频道，你可以只复制失败项再试一次。</div>
+                    </div>
+                  ) : null}
+                </div>
+              ) : null}
+            </div>
           </div>
         </div>
-      </div>
+      ) : null}
 
       {pickerOpen ? (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={() => closePicker()}>
@@ -1480,28 +1486,32 @@ export function ChannelsManager({
                         </div>
 
                         <div className="flex items-center gap-2">
-                          <button
-                            type="button"
-                            onClick={() => toggleActive(c)}
-                            disabled={loading}
-                            className="p-2 hover:bg-white/60 dark:hover:bg-slate-800/60 rounded-lg transition-all disabled:opacity-50"
-                            title={c.isActive ? "暂停同步" : "启用同步"}
-                          >
-                            {c.isActive ? (
-                              <Pause className="w-5 h-5 text-gray-600 dark:text-slate-300" />
-                            ) : (
-                              <Play className="w-5 h-5 text-green-600 dark:text-green-300" />
-                            )}
-                          </button>
-                          <button
-                            type="button"
-                            onClick={() => deleteChannel(c)}
-                            disabled={loading}
-                            className="p-2 hover:bg-white/60 dark:hover:bg-slate-800/60 rounded-lg transition-all disabled:opacity-50"
-                            title="删除频道"
-                          >
-                            <Trash2 className="w-5 h-5 text-red-600 dark:text-red-300" />
-                          </button>
+                          {canOperate ? (
+                            <button
+                              type="button"
+                              onClick={() => toggleActive(c)}
+                              disabled={loading}
+                              className="p-2 hover:bg-white/60 dark:hover:bg-slate-800/60 rounded-lg transition-all disabled:opacity-50"
+                              title={c.isActive ? "暂停同步" : "启用同步"}
+                            >
+                              {c.isActive ? (
+                                <Pause className="w-5 h-5 text-gray-600 dark:text-slate-300" />
+                              ) : (
+                                <Play className="w-5 h-5 text-green-600 dark:text-green-300" />
+                              )}
+                            </button>
+                          ) : null}
+                          {canDelete ? (
+                            <button
+                              type="button"
+                              onClick={() => deleteChannel(c)}
+                              disabled={loading}
+                              className="p-2 hover:bg-white/60 dark:hover:bg-slate-800/60 rounded-lg transition-all disabled:opacity-50"
+                              title="删除频道"
+                            >
+                              <Trash2 className="w-5 h-5 text-red-600 dark:text-red-300" />
+                            </button>
+                          ) : null}
                         </div>
                       </div>
 
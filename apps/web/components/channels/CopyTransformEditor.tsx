@@ -0,0 +1,346 @@
+"use client";
+
+import { useState } from "react";
+import { Select } from "@/components/ui/Select";
+import { getErrorMessage } from "@/lib/utils";
+
+// 与 @tg-back/db 的 copy-transform 保持一致（客户端组件不直接依赖 db 包）
+type ReplacementRule = { pattern: string; flags?: string; replacement: string };
+
+export type CopyTransformConfig = {
+  replacements: ReplacementRule[];
+  stripFooterPatterns: string[];
+  links: "keep" | "remove" | "rewrite";
+  linkRewrites: ReplacementRule[];
+  mentions: "keep" | "remove" | "replace";
+  mentionReplacement: string;
+  template: string;
+  footer: string;
+};
+
+const DEFAULT_CONFIG: CopyTransformConfig = {
+  replacements: [],
+  stripFooterPatterns: [],
+  links: "keep",
+  linkRewrites: [],
+  mentions: "keep",
+  mentionReplacement: "",
+  template: "{text}",
+  footer: "",
+};
+
+const buttonClassName =
+  "inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10";
+
+export function toCopyTransformConfig(value: unknown): CopyTransformConfig {
+  const obj = value && typeof value === "object" && !Array.isArray(value) ? (value as Partial<CopyTransformConfig>) : {};
+  return { ...DEFAULT_CONFIG, ...obj };
+}
+
+function ReplacementRows({
+  rows,
+  onChange,
+  disabled,
+  patternPlaceholder,
+  replacementPlaceholder,
+}: {
+  rows: ReplacementRule[];
+  onChange: (rows: ReplacementRule[]) => void;
+  disabled?: boolean;
+  patternPlaceholder: string;
+  replacementPlaceholder: string;
+}) {
+  const update = (index: number, patch: Partial<ReplacementRule>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2">
+          <input
+            value={row.pattern}
+            onChange={(e) => update(index, { pattern: e.target.value })}
+            disabled={disabled}
+            placeholder={patternPlaceholder}
+            className="ui-input min-w-[200px] flex-1 font-mono"
+          />
+          <input
+            value={row.flags ?? ""}
+            onChange={(e) => update(index, { flags: e.target.value.replace(/[^imsu]/g, "") })}
+            disabled={disabled}
+            placeholder="flags"
+            title="支持 i / m / s / u"
+            className="ui-input w-20 font-mono"
+          />
+          <span className="text-black/40 dark:text-slate-500">→</span>
+          <input
+            value={row.replacement}
+            onChange={(e) => update(index, { replacement: e.target.value })}
+            disabled={disabled}
+            placeholder={replacementPlaceholder}
+            className="ui-input min-w-[160px] flex-1"
+          />
+          <button
+            type="button"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+            disabled={disabled}
+            className={buttonClassName}
+          >
+            删除
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...rows, { pattern: "", flags: "", replacement: "" }])}
+        disabled={disabled || rows.length >= 50}
+        className={buttonClassName}
+      >
+        添加一条
+      </button>
+    </div>
+  );
+}
+
+/**
+ * 频道详情里的“copy 模式文本转换”：编辑、预览、保存都在这里完成。
+ */
+export function CopyTransformEditor({
+  channelId,
+  value,
+  disabled = false,
+  onSave,
+  onSaved,
+}: {
+  channelId: string;
+  value: unknown;
+  disabled?: boolean;
+  // 默认保存到源频道；额外镜像目标传入自己的保存逻辑
+  onSave?: (config: CopyTransformConfig) => Promise<void>;
+  onSaved: () => Promise<void>;
+}) {
+  const [draft, setDraft] = useState<CopyTransformConfig>(() => toCopyTransformConfig(value));
+  const [dirty, setDirty] = useState(false);
+  const [syncedValue, setSyncedValue] = useState(value);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [sampleText, setSampleText] = useState("");
+  const [preview, setPreview] = useState<{ original: string; transformed: string } | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  // 与其它草稿一致：没有未保存的修改时，跟随刷新后的频道数据
+  if (syncedValue !== value) {
+    setSyncedValue(value);
+    if (!dirty) setDraft(toCopyTransformConfig(value));
+  }
+
+  const update = <K extends keyof CopyTransformConfig>(key: K, next: CopyTransformConfig[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: next }));
+    setDirty(true);
+  };
+
+  const busy = disabled || saving;
+  // 编辑中允许末尾有空行，提交时再清理
+  const payload = { ...draft, stripFooterPatterns: draft.stripFooterPatterns.map((p) => p.trim()).filter(Boolean) };
+
+  const save = async () => {
+    setSaving(true);
+    setError("");
+    setNotice("");
+    try {
+      if (onSave) {
+        await onSave(payload);
+      } else {
+        const res = await fetch("/api/channels", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ id: channelId, copyTransforms: payload }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error ?? "Failed to update copy transforms");
+      }
+      setDirty(false);
+      setNotice("文本转换已更新（约 5 秒内生效）");
+      await onSaved();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runPreview = async () => {
+    setPreviewing(true);
+    setError("");
+    try {
+      const res = await fetch("/api/channels/copy-transform-preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: channelId, copyTransforms: payload, text: sampleText }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "预览失败");
+      setPreview({ original: String(data.original ?? ""), transformed: String(data.transformed ?? "") });
+    } catch (e: unknown) {
+      setPreview(null);
+      setError(getErrorMessage(e));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="text-xs text-black/60 dark:text-slate-400">正则替换（按顺序执行，替换内容支持 $1 / $&lt;name&gt;）</div>
+        <div className="mt-1">
+          <ReplacementRows
+            rows={draft.replacements}
+            onChange={(rows) => update("replacements", rows)}
+            disabled={busy}
+            patternPlaceholder="正则，例如 VX[:：]\s*\w+"
+            replacementPlaceholder="替换为（留空=删除）"
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="text-xs text-black/60 dark:text-slate-400">去掉末尾签名/页脚（每行一个正则，从最后一行往上匹配）</div>
+        <textarea
+          value={draft.stripFooterPatterns.join("\n")}
+          onChange={(e) =>
+            update(
+              "stripFooterPatterns",
+              e.target.value.split("\n").filter((line, i, all) => line.trim() || i === all.length - 1),
+            )
+          }
+          disabled={busy}
+          rows={3}
+          placeholder={"^via @\\w+\n^(关注|订阅).*@\\w+\n^[-—=]{3,}$"}
+          className="ui-textarea mt-1 font-mono"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <div>
+          <div className="text-xs text-black/60 dark:text-slate-400">链接</div>
+          <div className="mt-1">
+            <Select
+              value={draft.links}
+              onChange={(next) => update("links", next as CopyTransformConfig["links"])}
+              disabled={busy}
+              options={[
+                { value: "keep", label: "保留" },
+                { value: "remove", label: "删除（文本链接只去掉跳转）" },
+                { value: "rewrite", label: "按规则改写" },
+              ]}
+            />
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-black/60 dark:text-slate-400">@提及</div>
+          <div className="mt-1 flex gap-2">
+            <div className="min-w-[160px] flex-1">
+              <Select
+                value={draft.mentions}
+                onChange={(next) => update("mentions", next as CopyTransformConfig["mentions"])}
+                disabled={busy}
+                options={[
+                  { value: "keep", label: "保留" },
+                  { value: "remove", label: "删除" },
+                  { value: "replace", label: "替换为" },
+                ]}
+              />
+            </div>
+            {draft.mentions === "replace" ? (
+              <input
+                value={draft.mentionReplacement}
+                onChange={(e) => update("mentionReplacement", e.target.value)}
+                disabled={busy}
+                placeholder="@my_channel"
+                className="ui-input flex-1"
+              />
+            ) : null}
+          </div>
+        </div>
+      </div>
+
+      {draft.links === "rewrite" ? (
+        <div>
+          <div className="text-xs text-black/60 dark:text-slate-400">链接改写规则（对每个链接依次执行）</div>
+          <div className="mt-1">
+            <ReplacementRows
+              rows={draft.linkRewrites}
+              onChange={(rows) => update("linkRewrites", rows)}
+              disabled={busy}
+              patternPlaceholder="例如 ^https?://t\.me/source"
+              replacementPlaceholder="https://t.me/mirror"
+            />
+          </div>
+        </div>
+      ) : null}
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <div>
+          <div className="text-xs text-black/60 dark:text-slate-400">模板（必须包含一个 {"{text}"}）</div>
+          <textarea
+            value={draft.template}
+            onChange={(e) => update("template", e.target.value)}
+            disabled={busy}
+            rows={3}
+            placeholder={"{text}"}
+            className="ui-textarea mt-1"
+          />
+        </div>
+        <div>
+          <div className="text-xs text-black/60 dark:text-slate-400">追加页脚（可选）</div>
+          <textarea
+            value={draft.footer}
+            onChange={(e) => update("footer", e.target.value)}
+            disabled={busy}
+            rows={3}
+            placeholder={"来源：{source_name} {original_link}"}
+            className="ui-textarea mt-1"
+          />
+        </div>
+      </div>
+      <div className="text-xs text-black/50 dark:text-slate-400">
+        可用变量：{"{source_name}"} {"{source_username}"} {"{source_link}"} {"{original_link}"}。格式（粗体、链接等）会跟随文字保留；消息列表里仍显示源消息原文。
+      </div>
+
+      <div>
+        <div className="text-xs text-black/60 dark:text-slate-400">预览（留空则使用该频道最近一条有文本的消息）</div>
+        <textarea
+          value={sampleText}
+          onChange={(e) => setSampleText(e.target.value)}
+          rows={3}
+          placeholder="粘贴一段示例文本"
+          className="ui-textarea mt-1"
+        />
+        {preview ? (
+          <div className="mt-2 grid grid-cols-1 gap-2 md:grid-cols-2">
+            <pre className="max-h-60 overflow-auto whitespace-pre-wrap rounded-md border border-black/10 p-2 text-xs dark:border-white/10">
+              {preview.original}
+            </pre>
+            <pre className="max-h-60 overflow-auto whitespace-pre-wrap rounded-md border border-black/10 p-2 text-xs dark:border-white/10">
+              {preview.transformed || "（转换后为空，将跳过该消息）"}
+            </pre>
+          </div>
+        ) : null}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={runPreview} disabled={busy || previewing} className={buttonClassName}>
+          {previewing ? "预览中..." : "预览"}
+        </button>
+        <button type="button" onClick={save} disabled={busy || !dirty} className={buttonClassName}>
+          保存文本转换
+        </button>
+        {error ? <span className="text-xs text-red-600 dark:text-red-300">{error}</span> : null}
+        {notice ? <span className="text-xs text-green-700 dark:text-green-300">{notice}</span> : null}
+      </div>
+    </div>
+  );
+}
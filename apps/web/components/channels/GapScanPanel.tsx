@@ -0,0 +1,191 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatTime, getErrorMessage } from "@/lib/utils";
+
+// 与 @tg-back/db 的 GapScanResult 保持一致（客户端组件不直接依赖 db 包）
+type GapScanResult = {
+  scannedAt: string;
+  fromId: number | null;
+  toId: number | null;
+  candidateCount: number;
+  deletedCount: number;
+  serviceCount: number;
+  missedCount: number;
+  missedRanges: Array<{ startId: number; endId: number; count: number }>;
+  truncated: boolean;
+};
+
+type GapScanState = {
+  scan: GapScanResult | null;
+  backfillRange: { startId: number; endId: number } | null;
+  partialTask: {
+    id: string;
+    status: string;
+    rangeStartId: number | null;
+    rangeEndId: number | null;
+    completedAt: string | null;
+  } | null;
+};
+
+const buttonClassName =
+  "inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10";
+
+const MAX_VISIBLE_RANGES = 50;
+
+function formatRange(range: { startId: number; endId: number }): string {
+  return range.startId === range.endId ? `#${range.startId}` : `#${range.startId} - #${range.endId}`;
+}
+
+/**
+ * 缺口扫描：展示 source_message_id 空洞里哪些是源频道删掉的、哪些是漏掉的，并可一键用 history_partial 回填漏掉的区间。
+ */
+export function GapScanPanel({
+  sourceChannelId,
+  disabled = false,
+}: {
+  sourceChannelId: string;
+  disabled?: boolean;
+}) {
+  const [state, setState] = useState<GapScanState | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/channels/gaps?id=${encodeURIComponent(sourceChannelId)}`, { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "加载缺口扫描结果失败");
+      setState(data as GapScanState);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [sourceChannelId]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const scanNow = async () => {
+    setLoading(true);
+    setError("");
+    setNotice("");
+    try {
+      const res = await fetch("/api/mirror-control", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "scan_gaps", sourceChannelId }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "发起缺口扫描失败");
+      setNotice("已开始扫描：mirror-service 在后台按区间核对源频道，稍后点“刷新”查看结果。");
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const backfill = async () => {
+    const range = state?.backfillRange;
+    if (!range) return;
+    if (
+      !confirm(
+        `确认回填 ${formatRange(range)} 吗？会覆盖该频道现有的区间回填（history_partial）任务；已镜像的消息会跳过，只补漏掉的。`,
+      )
+    ) {
+      return;
+    }
+    setLoading(true);
+    setError("");
+    setNotice("");
+    try {
+      const res = await fetch("/api/tasks/partial", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ channelId: sourceChannelId, startId: range.startId, endId: range.endId }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "创建回填任务失败");
+      setNotice("已创建回填任务，完成后可重新扫描确认。");
+      await refresh();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const scan = state?.scan ?? null;
+  const partialTask = state?.partialTask ?? null;
+  const backfillRunning = partialTask?.status === "running";
+
+  return (
+    <div className="space-y-3">
+      {error ? <div className="ui-alert-error">{error}</div> : null}
+      {notice ? <div className="ui-alert-info">{notice}</div> : null}
+
+      {scan ? (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className={scan.missedCount > 0 ? "ui-badge ui-badge-error" : "ui-badge ui-badge-success"}>
+            {scan.missedCount > 0 ? `漏掉 ${scan.missedCount} 条` : "无漏掉的消息"}
+          </span>
+          <span className="text-xs text-black/60 dark:text-slate-400">
+            核对范围 {scan.fromId != null && scan.toId != null ? formatRange({ startId: scan.fromId, endId: scan.toId }) : "-"} ·
+            空洞 {scan.candidateCount} 个 id · 源频道已删除 {scan.deletedCount} · 服务消息 {scan.serviceCount} · 扫描于{" "}
+            {formatTime(scan.scannedAt)}
+            {scan.truncated ? " · 空洞太多，只核对了前一部分" : ""}
+          </span>
+        </div>
+      ) : (
+        <div className="text-xs text-black/60 dark:text-slate-400">还没有扫描结果</div>
+      )}
+
+      {partialTask ? (
+        <div className="text-xs text-black/60 dark:text-slate-400">
+          区间回填任务：{partialTask.status}
+          {partialTask.rangeStartId != null || partialTask.rangeEndId != null
+            ? `（#${partialTask.rangeStartId ?? "-"} - #${partialTask.rangeEndId ?? "-"}）`
+            : ""}
+          {partialTask.completedAt ? ` · 完成于 ${formatTime(partialTask.completedAt)}` : ""}
+        </div>
+      ) : null}
+
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={() => void refresh()} disabled={loading} className={buttonClassName}>
+          {loading ? "加载中..." : "刷新"}
+        </button>
+        <button type="button" onClick={scanNow} disabled={disabled || loading} className={buttonClassName}>
+          立即扫描
+        </button>
+        <button
+          type="button"
+          onClick={backfill}
+          disabled={disabled || loading || backfillRunning || !state?.backfillRange}
+          className={buttonClassName}
+        >
+          一键回填{state?.backfillRange ? `（${formatRange(state.backfillRange)}）` : ""}
+        </button>
+      </div>
+
+      {scan?.missedRanges.length ? (
+        <div className="max-h-64 space-y-1 overflow-auto rounded-md border border-black/10 p-3 text-xs dark:border-white/10">
+          {scan.missedRanges.slice(0, MAX_VISIBLE_RANGES).map((range) => (
+            <div key={range.startId} className="flex flex-wrap items-center gap-2">
+              <span className="font-mono">{formatRange(range)}</span>
+              <span className="text-black/60 dark:text-slate-400">{range.count} 条</span>
+            </div>
+          ))}
+          {scan.missedRanges.length > MAX_VISIBLE_RANGES ? (
+            <div className="text-black/60 dark:text-slate-400">还有 {scan.missedRanges.length - MAX_VISIBLE_RANGES} 个区间未显示</div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatTime, getErrorMessage } from "@/lib/utils";
+
+// 与 @tg-back/db 的 MirrorIntegrityLevel 保持一致（客户端组件不直接依赖 db 包）
+type MirrorIntegrityLevel = "unknown" | "ok" | "warn" | "error";
+
+type MirrorIntegrity = {
+  mirrored: number;
+  verified: number;
+  missing: number;
+  requeued: number;
+  score: number | null;
+  coverage: number | null;
+  level: MirrorIntegrityLevel;
+  lastVerifiedAt: string | null;
+  channelCheckedAt: string | null;
+  missingItems: Array<{
+    id: string;
+    sourceMessageId: number;
+    status: string;
+    textPreview: string | null;
+    missingAt: string | null;
+    sourceLink: string | null;
+  }>;
+};
+
+const buttonClassName =
+  "inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10";
+
+const LEVEL_BADGES: Record<MirrorIntegrityLevel, { label: string; className: string }> = {
+  unknown: { label: "未核对", className: "ui-badge ui-badge-muted" },
+  ok: { label: "完整", className: "ui-badge ui-badge-success" },
+  warn: { label: "少量缺失", className: "ui-badge ui-badge-warn" },
+  error: { label: "大量缺失", className: "ui-badge ui-badge-error" },
+};
+
+function formatPercent(value: number | null): string {
+  if (value == null) return "-";
+  const pct = value * 100;
+  return `${pct >= 99.95 || pct === 0 ? pct.toFixed(0) : pct.toFixed(1)}%`;
+}
+
+/**
+ * 镜像完整性：mirror-service 定期确认已镜像的消息还在镜像频道里，这里展示分数、核对覆盖率和最近发现缺失的消息。
+ */
+export function MirrorIntegrityPanel({ sourceChannelId, disabled = false }: { sourceChannelId: string; disabled?: boolean }) {
+  const [integrity, setIntegrity] = useState<MirrorIntegrity | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/channels/integrity?id=${encodeURIComponent(sourceChannelId)}`, { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "加载镜像完整性失败");
+      setIntegrity(data as MirrorIntegrity);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [sourceChannelId]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const requeueMissing = async () => {
+    if (!confirm("确认重新镜像缺失的消息吗？它们会被标记为 failed，由 retry_failed 重新发送到镜像频道。")) return;
+    setLoading(true);
+    setError("");
+    setNotice("");
+    try {
+      const res = await fetch("/api/channels/integrity", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: sourceChannelId }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "重新排队缺失消息失败");
+      setNotice(`已重新排队 ${data.requeued ?? 0} 条缺失消息，等待 retry_failed 处理。`);
+      await refresh();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const badge = LEVEL_BADGES[integrity?.level ?? "unknown"];
+  const pendingRequeue = integrity ? integrity.missing - integrity.requeued : 0;
+
+  return (
+    <div className="space-y-3">
+      {error ? <div className="ui-alert-error">{error}</div> : null}
+      {notice ? <div className="ui-alert-info">{notice}</div> : null}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-2xl font-semibold">{formatPercent(integrity?.score ?? null)}</span>
+        <span className={badge.className}>{badge.label}</span>
+        <span className="text-xs text-black/60 dark:text-slate-400">
+          已核对 {integrity?.verified ?? 0} / {integrity?.mirrored ?? 0} 条（覆盖 {formatPercent(integrity?.coverage ?? null)}） · 缺失{" "}
+          {integrity?.missing ?? 0} 条{integrity?.requeued ? `（${integrity.requeued} 条已重新排队）` : ""} · 最近核对{" "}
+          {formatTime(integrity?.lastVerifiedAt ?? null)}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={() => void refresh()} disabled={loading} className={buttonClassName}>
+          {loading ? "加载中..." : "刷新"}
+        </button>
+        <button
+          type="button"
+          onClick={requeueMissing}
+          disabled={disabled || loading || pendingRequeue <= 0}
+          className={buttonClassName}
+        >
+          重新镜像缺失消息{pendingRequeue > 0 ? `（${pendingRequeue}）` : ""}
+        </button>
+      </div>
+
+      {integrity?.missingItems.length ? (
+        <div className="max-h-64 space-y-1 overflow-auto rounded-md border border-black/10 p-3 text-xs dark:border-white/10">
+          {integrity.missingItems.map((item) => (
+            <div key={item.id} className="flex flex-wrap items-center gap-2">
+              <span className="text-red-600 dark:text-red-300">发现于 {formatTime(item.missingAt)}</span>
+              {item.sourceLink ? (
+                <a href={item.sourceLink} target="_blank" rel="noreferrer" className="underline">
+                  源 #{item.sourceMessageId}
+                </a>
+              ) : (
+                <span>源 #{item.sourceMessageId}</span>
+              )}
+              <span className={item.status === "success" ? "ui-badge ui-badge-error" : "ui-badge ui-badge-info"}>
+                {item.status === "success" ? "缺失" : "已排队"}
+              </span>
+              <span className="truncate text-black/60 dark:text-slate-400">{item.textPreview ?? ""}</span>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
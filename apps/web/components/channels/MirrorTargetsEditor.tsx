@@ -0,0 +1,333 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { CopyTransformEditor, toCopyTransformConfig, type CopyTransformConfig } from "@/components/channels/CopyTransformEditor";
+import { MessageFilterRulesEditor, toMessageFilterRules, type MessageFilterRule } from "@/components/settings/MessageFilterRulesEditor";
+import { Checkbox } from "@/components/ui/Checkbox";
+import { Select } from "@/components/ui/Select";
+import { getErrorMessage } from "@/lib/utils";
+
+type MirrorMode = "forward" | "copy";
+type MessageFilterMode = "inherit" | "disabled" | "custom" | "merge";
+
+type MirrorTarget = {
+  id: string;
+  channelIdentifier: string;
+  telegramId: string | null;
+  name: string;
+  username: string | null;
+  isActive: boolean;
+  mirrorMode: MirrorMode | null;
+  messageFilterMode: MessageFilterMode;
+  messageFilterRules: unknown;
+  copyTransforms: unknown;
+  cursorMessageId: number | null;
+  stats: Record<string, number>;
+};
+
+const buttonClassName =
+  "inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10";
+
+const STATUS_LABELS: Array<{ key: string; label: string; className: string }> = [
+  { key: "success", label: "成功", className: "ui-badge ui-badge-success" },
+  { key: "skipped", label: "跳过", className: "ui-badge ui-badge-muted" },
+  { key: "failed", label: "失败", className: "ui-badge ui-badge-error" },
+];
+
+async function requestTargets(method: string, body: unknown, fallback: string) {
+  const res = await fetch("/api/channels/targets", {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error ?? fallback);
+  return data;
+}
+
+function TargetCard({
+  sourceChannelId,
+  target,
+  disabled,
+  onChanged,
+}: {
+  sourceChannelId: string;
+  target: MirrorTarget;
+  disabled: boolean;
+  onChanged: () => Promise<void>;
+}) {
+  const [mirrorModeDraft, setMirrorModeDraft] = useState<string>(target.mirrorMode ?? "");
+  const [filterModeDraft, setFilterModeDraft] = useState<MessageFilterMode>(target.messageFilterMode);
+  const [rulesDraft, setRulesDraft] = useState<MessageFilterRule[]>(() => toMessageFilterRules(target.messageFilterRules));
+  const [dirty, setDirty] = useState(false);
+  const [syncedTarget, setSyncedTarget] = useState(target);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  // 没有未保存的修改时，跟随刷新后的数据
+  if (syncedTarget !== target) {
+    setSyncedTarget(target);
+    if (!dirty) {
+      setMirrorModeDraft(target.mirrorMode ?? "");
+      setFilterModeDraft(target.messageFilterMode);
+      setRulesDraft(toMessageFilterRules(target.messageFilterRules));
+    }
+  }
+
+  const busy = disabled || saving;
+  const followsSourceTransforms = target.copyTransforms == null;
+  const label = target.username ? `@${target.username}` : target.telegramId ? target.name : target.channelIdentifier;
+
+  const run = async (action: () => Promise<void>, successNotice: string) => {
+    setSaving(true);
+    setError("");
+    setNotice("");
+    try {
+      await action();
+      setNotice(successNotice);
+      await onChanged();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveSettings = () =>
+    run(async () => {
+      await requestTargets(
+        "PATCH",
+        {
+          id: target.id,
+          mirrorMode: mirrorModeDraft || null,
+          messageFilterMode: filterModeDraft,
+          messageFilterRules: rulesDraft,
+        },
+        "更新镜像目标失败",
+      );
+      setDirty(false);
+    }, "已保存（约 10 秒内生效）");
+
+  const saveCopyTransforms = async (config: CopyTransformConfig | null) => {
+    await requestTargets("PATCH", { id: target.id, copyTransforms: config }, "更新文本转换失败");
+  };
+
+  return (
+    <div className="rounded-md border border-black/10 p-3 dark:border-white/10">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="font-medium">{label}</div>
+        {target.telegramId ? null : <span className="ui-badge ui-badge-warn">待解析</span>}
+        {target.isActive ? null : <span className="ui-badge ui-badge-muted">已停用</span>}
+        {STATUS_LABELS.map(({ key, label: statusLabel, className }) =>
+          target.stats[key] ? (
+            <span key={key} className={className}>
+              {statusLabel} {target.stats[key]}
+            </span>
+          ) : null,
+        )}
+        {target.cursorMessageId != null ? <span className="ui-badge ui-badge-muted">已跟进到 #{target.cursorMessageId}</span> : null}
+        <div className="ml-auto flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() =>
+              run(
+                () => requestTargets("PATCH", { id: target.id, isActive: !target.isActive }, "更新镜像目标失败"),
+                target.isActive ? "已停用" : "已启用",
+              )
+            }
+            disabled={busy}
+            className={buttonClassName}
+          >
+            {target.isActive ? "停用" : "启用"}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              if (!window.confirm(`确定删除镜像目标 ${label}？已经发到该频道的消息不会被删除。`)) return;
+              void run(() => requestTargets("DELETE", { id: target.id }, "删除镜像目标失败"), "已删除");
+            }}
+            disabled={busy}
+            className={buttonClassName}
+          >
+            删除
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-3 grid grid-cols-1 gap-3 md:grid-cols-2">
+        <div>
+          <div className="text-xs text-black/60 dark:text-slate-400">镜像方式</div>
+          <div className="mt-1">
+            <Select
+              value={mirrorModeDraft}
+              onChange={(next) => {
+                setMirrorModeDraft(next);
+                setDirty(true);
+              }}
+              disabled={busy}
+              options={[
+                { value: "", label: "跟随源频道" },
+                { value: "forward", label: "forward" },
+                { value: "copy", label: "copy" },
+              ]}
+            />
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-black/60 dark:text-slate-400">消息过滤</div>
+          <div className="mt-1">
+            <Select
+              value={filterModeDraft}
+              onChange={(next) => {
+                setFilterModeDraft(next as MessageFilterMode);
+                setDirty(true);
+              }}
+              disabled={busy}
+              options={[
+                { value: "inherit", label: "inherit（与源频道相同）" },
+                { value: "disabled", label: "disabled（不过滤）" },
+                { value: "custom", label: "custom（只用下面的规则）" },
+                { value: "merge", label: "merge（下面的规则 + 源频道的过滤）" },
+              ]}
+            />
+          </div>
+        </div>
+      </div>
+
+      {filterModeDraft === "custom" || filterModeDraft === "merge" ? (
+        <div className="mt-3">
+          <MessageFilterRulesEditor
+            rules={rulesDraft}
+            onChange={(rules) => {
+              setRulesDraft(rules);
+              setDirty(true);
+            }}
+            disabled={busy}
+            sourceChannelId={sourceChannelId}
+          />
+        </div>
+      ) : null}
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button type="button" onClick={saveSettings} disabled={busy || !dirty} className={buttonClassName}>
+          保存设置
+        </button>
+        {error ? <span className="text-xs text-red-600 dark:text-red-300">{error}</span> : null}
+        {notice ? <span className="text-xs text-green-700 dark:text-green-300">{notice}</span> : null}
+      </div>
+
+      <div className="mt-4">
+        <Checkbox
+          label="文本转换跟随源频道（仅 copy 模式生效）"
+          checked={followsSourceTransforms}
+          disabled={busy}
+          onChange={(checked) =>
+            void run(
+              () => saveCopyTransforms(checked ? null : toCopyTransformConfig(null)),
+              checked ? "已改为跟随源频道" : "已改为单独配置",
+            )
+          }
+        />
+        {followsSourceTransforms ? null : (
+          <div className="mt-3">
+            <CopyTransformEditor
+              channelId={sourceChannelId}
+              value={target.copyTransforms}
+              disabled={busy}
+              onSave={saveCopyTransforms}
+              onSaved={onChanged}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 频道详情里的“额外镜像目标”：主镜像之外，把同一个源频道同步到更多频道。
+ */
+export function MirrorTargetsEditor({ sourceChannelId, disabled = false }: { sourceChannelId: string; disabled?: boolean }) {
+  const [targets, setTargets] = useState<MirrorTarget[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [identifierDraft, setIdentifierDraft] = useState("");
+  const [adding, setAdding] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/channels/targets?sourceChannelId=${encodeURIComponent(sourceChannelId)}`, {
+        cache: "no-store",
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "加载镜像目标失败");
+      setTargets((data.targets ?? []) as MirrorTarget[]);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [sourceChannelId]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const addTarget = async () => {
+    const channelIdentifier = identifierDraft.trim();
+    if (!channelIdentifier) return;
+    setAdding(true);
+    setError("");
+    try {
+      await requestTargets("POST", { sourceChannelId, channelIdentifier }, "添加镜像目标失败");
+      setIdentifierDraft("");
+      await refresh();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {targets.map((target) => (
+        <TargetCard
+          key={target.id}
+          sourceChannelId={sourceChannelId}
+          target={target}
+          disabled={disabled || loading}
+          onChanged={refresh}
+        />
+      ))}
+      {!targets.length && !loading ? (
+        <div className="text-xs text-black/50 dark:text-slate-400">还没有额外镜像目标。</div>
+      ) : null}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={identifierDraft}
+          onChange={(e) => setIdentifierDraft(e.target.value)}
+          disabled={disabled || adding}
+          placeholder="@mirror_channel / https://t.me/... / -100..."
+          className="ui-input min-w-[260px] flex-1"
+        />
+        <button
+          type="button"
+          onClick={addTarget}
+          disabled={disabled || adding || !identifierDraft.trim()}
+          className={buttonClassName}
+        >
+          {adding ? "添加中..." : "添加镜像目标"}
+        </button>
+        <button type="button" onClick={() => void refresh()} disabled={loading} className={buttonClassName}>
+          {loading ? "刷新中..." : "刷新"}
+        </button>
+      </div>
+      {error ? <div className="text-xs text-red-600 dark:text-red-300">{error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+import { useAccess } from "@/components/auth/AccessGuard";
+import { Checkbox } from "@/components/ui/Checkbox";
+import { getErrorMessage } from "@/lib/utils";
+
+type ImportResult = { sourceChannelId: string; messageCount: number };
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+/**
+ * 上传 Telegram Desktop「导出聊天记录」的目录（JSON 格式），导入为离线源；可选导入后用 copy 方式发布到镜像频道。
+ */
+export function TdesktopImportPanel() {
+  const { can } = useAccess();
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [name, setName] = useState("");
+  const [groupName, setGroupName] = useState("");
+  const [mirrorChannelIdentifier, setMirrorChannelIdentifier] = useState("");
+  const [republish, setRepublish] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  // webkitdirectory 不在 React 的 input 属性类型里，挂载后再加上
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
+
+  const hasResultJson = files.some((file) => (file.webkitRelativePath || file.name).split("/").pop() === "result.json");
+  const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+
+  const submit = async () => {
+    if (!hasResultJson) {
+      setError("请选择包含 result.json 的导出目录");
+      return;
+    }
+    if (republish && !mirrorChannelIdentifier.trim()) {
+      setError("重新发布需要填写镜像频道");
+      return;
+    }
+    setLoading(true);
+    setError("");
+    setResult(null);
+    try {
+      const form = new FormData();
+      for (const file of files) form.append("files", file, file.webkitRelativePath || file.name);
+      form.set("name", name.trim());
+      form.set("groupName", groupName.trim());
+      form.set("mirrorChannelIdentifier", mirrorChannelIdentifier.trim());
+      form.set("republish", republish ? "true" : "false");
+
+      const res = await fetch("/api/channels/import", { method: "POST", body: form });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "导入失败");
+      setResult(data as ImportResult);
+      setFiles([]);
+      if (folderInputRef.current) folderInputRef.current.value = "";
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!can("operate")) {
+    return <div className="mt-4 text-sm text-gray-600 dark:text-slate-300">只读用户不能导入，请联系操作员或管理员。</div>;
+  }
+
+  return (
+    <div className="mt-4 grid grid-cols-1 gap-3">
+      <div className="text-sm text-gray-600 dark:text-slate-300">
+        源频道已删除或受限时，可以用 Telegram Desktop 的「导出聊天记录」（格式选 JSON）把历史导入为离线源：保留编辑时间与媒体信息，导出里带的媒体文件会一并存档。
+        导出很大时建议在服务器上用 <code className="font-mono">pnpm --filter @tg-back/mirror-service import:tdesktop</code> 导入。
+      </div>
+      {error ? <div className="ui-alert-error">{error}</div> : null}
+      {result ? (
+        <div className="ui-alert-info">
+          已开始导入 {result.messageCount} 条消息，进度见{" "}
+          <Link href={`/channels/${result.sourceChannelId}`} className="underline">
+            频道详情
+          </Link>
+          的事件记录。
+        </div>
+      ) : null}
+      <div>
+        <label className="block text-sm font-medium">导出目录</label>
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+          className="mt-1 block text-sm"
+        />
+        {files.length ? (
+          <div className="mt-1 text-xs text-gray-600 dark:text-slate-300">
+            {files.length} 个文件，共 {formatBytes(totalBytes)}
+            {hasResultJson ? "" : "（没有找到 result.json）"}
+          </div>
+        ) : null}
+      </div>
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium">名称（可选）</label>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="留空=用导出里的频道名"
+            className="ui-input mt-1"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium">分组（可选）</label>
+          <input
+            value={groupName}
+            onChange={(e) => setGroupName(e.target.value)}
+            placeholder="留空=未分组"
+            className="ui-input mt-1"
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium">镜像频道（可选）</label>
+        <input
+          value={mirrorChannelIdentifier}
+          onChange={(e) => setMirrorChannelIdentifier(e.target.value)}
+          placeholder="@mirror_channel / https://t.me/+xxxxx"
+          className="ui-input mt-1"
+        />
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Checkbox label="导入后用 copy 方式发布到镜像频道" checked={republish} onChange={setRepublish} />
+        <button
+          type="button"
+          onClick={submit}
+          disabled={loading || !files.length}
+          className="ui-btn ui-btn-secondary h-10"
+        >
+          {loading ? "上传中..." : "上传并导入"}
+        </button>
+      </div>
+    </div>
+  );
+}
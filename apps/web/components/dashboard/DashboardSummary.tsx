@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useMemo, useRef, useState } from "react";
+import { useAccess } from "@/components/auth/AccessGuard";
 import { Checkbox } from "@/components/ui/Checkbox";
 import { Select } from "@/components/ui/Select";
 import { calcProgressPct, formatTime, getErrorMessage } from "@/lib/utils";
@@ -76,6 +77,7 @@ function truncateText(value: string, maxLen: number): string {
 }
 
 export function DashboardSummary() {
+  const { can } = useAccess();
   const [data, setData] = useState<Dashboard | null>(null);
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
@@ -454,14 +456,16 @@ export function DashboardSummary() {
                           >
                             错误事件
                           </a>
-                          <button
-                            type="button"
-                            onClick={() => recoverErrorChannel({ id: c.id, label: c.channelIdentifier })}
-                            disabled={loading || refreshing || recoveringId === c.id}
-                            className="ui-btn h-9 px-3 text-xs border border-red-200 bg-white text-red-900 hover:bg-red-50 dark:border-red-500/30 dark:bg-red-500/10 dark:text-red-100 dark:hover:bg-red-500/15"
-                          >
-                            {recoveringId === c.id ? "恢复中..." : "恢复"}
-                          </button>
+                          {can("operate") ? (
+                            <button
+                              type="button"
+                              onClick={() => recoverErrorChannel({ id: c.id, label: c.channelIdentifier })}
+                              disabled={loading || refreshing || recoveringId === c.id}
+                              className="ui-btn h-9 px-3 text-xs border border-red-200 bg-white text-red-900 hover:bg-red-50 dark:border-red-500/30 dark:bg-red-500/10 dark:text-red-100 dark:hover:bg-red-500/15"
+                            >
+                              {recoveringId === c.id ? "恢复中..." : "恢复"}
+                            </button>
+                          ) : null}
                         </div>
                       </div>
                     </div>
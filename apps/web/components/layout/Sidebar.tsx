@@ -4,10 +4,13 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useEffect, useMemo, useState } from "react";
 import clsx from "clsx";
-import { Activity, FileText, Home, ListTodo, MessageSquare, Radio, Send, Settings } from "lucide-react";
+import { Activity, Bell, FileText, Home, ListTodo, LogOut, MessageSquare, Radio, ScrollText, Send, Settings } from "lucide-react";
+import { useAccess } from "@/components/auth/AccessGuard";
+import { webRoleLabels, type Permission } from "@/lib/permissions";
 import { formatTime } from "@/lib/utils";
 
-type NavItem = { name: string; href: string };
+// permission 不填 = 所有登录用户可见
+type NavItem = { name: string; href: string; permission?: Permission };
 
 type MirrorServiceStatus = {
   online: boolean;
@@ -21,7 +24,9 @@ const navigation: Array<NavItem & { icon: React.ComponentType<{ className?: stri
   { name: "消息浏览", href: "/messages", icon: MessageSquare },
   { name: "任务管理", href: "/tasks", icon: ListTodo },
   { name: "事件中心", href: "/events", icon: Activity },
+  { name: "通知推送", href: "/notifications", icon: Bell },
   { name: "运行日志", href: "/logs", icon: FileText },
+  { name: "审计日志", href: "/audit", icon: ScrollText, permission: "admin" },
   { name: "系统设置", href: "/settings", icon: Settings },
 ];
 
@@ -40,6 +45,7 @@ function isActivePath(pathname: string, href: string): boolean {
 
 export function Sidebar() {
   const pathname = usePathname();
+  const { mode, user, can, logout } = useAccess();
   const [status, setStatus] = useState<MirrorServiceStatus | null>(null);
 
   useEffect(() => {
@@ -92,7 +98,7 @@ export function Sidebar() {
       </div>
 
       <nav className="min-h-0 flex-1 overflow-y-auto px-4 space-y-1">
-        {navigation.map((item) => {
+        {navigation.filter((item) => !item.permission || can(item.permission)).map((item) => {
           const active = isActivePath(pathname, item.href);
           const Icon = item.icon;
           return (
@@ -113,7 +119,19 @@ export function Sidebar() {
         })}
       </nav>
 
-      <div className="p-6 border-t border-white/20 dark:border-white/10">
+      <div className="p-6 border-t border-white/20 dark:border-white/10 space-y-3">
+        {mode !== "open" && user ? (
+          <div className="flex items-center justify-between gap-3 px-1">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 dark:text-slate-100 truncate">{user.username ?? "访问密码登录"}</p>
+              <p className="text-xs text-gray-500 dark:text-slate-400">{webRoleLabels[user.role]}</p>
+            </div>
+            <button type="button" onClick={() => void logout()} className="ui-btn ui-btn-secondary h-9 gap-1 px-3 text-sm">
+              <LogOut className="w-4 h-4" />
+              退出
+            </button>
+          </div>
+        ) : null}
         <div className="glass-panel rounded-xl p-4">
           <div className="flex items-center gap-3">
             <div className={clsx("w-3 h-3 rounded-full", statusText.dot)} />
@@ -0,0 +1,248 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import clsx from "clsx";
+import { Activity, Eraser, RadioTower, RefreshCw } from "lucide-react";
+import { useAccess } from "@/components/auth/AccessGuard";
+import { formatTime, getErrorMessage } from "@/lib/utils";
+
+type RunningTask = {
+  taskId: string;
+  taskType: string;
+  sourceChannelId: string;
+  channelName: string | null;
+  startedAt: string;
+  progressCurrent?: number;
+  progressTotal?: number | null;
+  failedCount?: number;
+  skippedCount?: number;
+};
+
+type Subscription = {
+  sourceChannelId: string;
+  channelName: string | null;
+  subscribedAt: string;
+  pendingMediaGroups: { channel: number; discussion: number };
+};
+
+type MirrorStatus = {
+  pid: number;
+  startedAt: string;
+  uptimeSec: number;
+  lastHeartbeatAt: string | null;
+  accounts: Array<{ accountId: string; name: string; runningTasks: RunningTask[]; subscriptions: Subscription[] }>;
+  floodWaits: Array<{ seconds: number; startedAt: string; until: string }>;
+};
+
+type ControlAction = "resubscribe" | "clear_caches";
+
+const POLL_INTERVAL_MS = 3000;
+
+const TASK_TYPE_LABELS: Record<string, string> = {
+  resolve: "解析频道",
+  history_full: "历史全量",
+  history_partial: "历史回填",
+  retry_failed: "重试失败",
+};
+
+function formatDuration(sec: number): string {
+  if (sec < 60) return `${sec} 秒`;
+  if (sec < 3600) return `${Math.floor(sec / 60)} 分 ${sec % 60} 秒`;
+  return `${Math.floor(sec / 3600)} 小时 ${Math.floor((sec % 3600) / 60)} 分`;
+}
+
+function formatProgress(task: RunningTask): string {
+  const current = task.progressCurrent ?? 0;
+  if (!task.progressTotal) return String(current);
+  const percent = Math.min(100, Math.round((current / task.progressTotal) * 100));
+  return `${current} / ${task.progressTotal}（${percent}%）`;
+}
+
+/**
+ * 直接读取 mirror-service 控制接口的实时状态，并提供“重新订阅 / 清空缓存”等立即生效的操作。
+ */
+export function MirrorServiceLivePanel() {
+  const { can } = useAccess();
+  const canOperate = can("operate");
+  const [status, setStatus] = useState<MirrorStatus | null>(null);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [busyAction, setBusyAction] = useState<ControlAction | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const refreshRef = useRef<() => Promise<void>>(async () => {});
+
+  const refresh = async (): Promise<void> => {
+    try {
+      const res = await fetch("/api/mirror-control", { cache: "no-store" });
+      const json = (await res.json().catch(() => ({}))) as MirrorStatus & { error?: string };
+      if (!res.ok) throw new Error(json.error || "Failed to load mirror-service status");
+      setStatus(json);
+      setError("");
+    } catch (e: unknown) {
+      setStatus(null);
+      setError(getErrorMessage(e));
+    } finally {
+      setNow(Date.now());
+    }
+  };
+
+  refreshRef.current = refresh;
+
+  useEffect(() => {
+    void refreshRef.current();
+    const id = window.setInterval(() => {
+      if (document.visibilityState === "visible") void refreshRef.current();
+    }, POLL_INTERVAL_MS);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const runAction = async (action: ControlAction): Promise<void> => {
+    setBusyAction(action);
+    setNotice("");
+    try {
+      const res = await fetch("/api/mirror-control", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const json = (await res.json().catch(() => ({}))) as { error?: string; unsubscribed?: number };
+      if (!res.ok) throw new Error(json.error || "操作失败");
+      setNotice(
+        action === "resubscribe" ? `已取消 ${json.unsubscribed ?? 0} 个订阅，几秒内会自动重新订阅` : "已清空设置与频道实体缓存",
+      );
+      await refresh();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const runningTasks = status?.accounts.flatMap((a) => a.runningTasks.map((t) => ({ ...t, accountName: a.name }))) ?? [];
+  const subscriptions = status?.accounts.flatMap((a) => a.subscriptions.map((s) => ({ ...s, accountName: a.name }))) ?? [];
+  const floodWaits = status?.floodWaits.filter((w) => Date.parse(w.until) > now) ?? [];
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-emerald-500 to-teal-600 flex items-center justify-center">
+            <Activity className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <div className="text-sm font-semibold text-gray-900 dark:text-slate-100">mirror-service 实时状态</div>
+            <div className="text-xs text-gray-500 dark:text-slate-400">
+              {status
+                ? `PID ${status.pid} · 已运行 ${formatDuration(status.uptimeSec)} · 最近心跳 ${status.lastHeartbeatAt ? formatTime(status.lastHeartbeatAt) : "-"}`
+                : "通过本机控制接口读取（MIRROR_CONTROL_PORT），每 3 秒刷新"}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {canOperate ? (
+            <>
+              <button
+                type="button"
+                onClick={() => void runAction("resubscribe")}
+                disabled={!status || busyAction !== null}
+                className="ui-btn ui-btn-secondary"
+              >
+                <RadioTower className={clsx("w-4 h-4 mr-2", busyAction === "resubscribe" && "animate-pulse")} />
+                全部重新订阅
+              </button>
+              <button
+                type="button"
+                onClick={() => void runAction("clear_caches")}
+                disabled={!status || busyAction !== null}
+                className="ui-btn ui-btn-secondary"
+              >
+                <Eraser className="w-4 h-4 mr-2" />
+                清空缓存
+              </button>
+            </>
+          ) : null}
+          <button type="button" onClick={() => void refresh()} className="ui-btn ui-btn-secondary">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            刷新
+          </button>
+        </div>
+      </div>
+
+      {error ? <div className="ui-alert-error">{error}</div> : null}
+      {notice ? <div className="ui-alert-info">{notice}</div> : null}
+
+      {status ? (
+        <div className="grid gap-4 lg:grid-cols-3">
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-gray-700 dark:text-slate-200">运行中的任务（{runningTasks.length}）</div>
+            {runningTasks.length ? (
+              runningTasks.map((task) => (
+                <div key={task.taskId} className="rounded-xl border border-gray-200 dark:border-white/10 p-3 text-xs space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-gray-900 dark:text-slate-100 truncate">
+                      {task.channelName ?? task.sourceChannelId}
+                    </span>
+                    <span className="ui-badge ui-badge-info">{TASK_TYPE_LABELS[task.taskType] ?? task.taskType}</span>
+                  </div>
+                  <div className="text-gray-600 dark:text-slate-300">进度：{formatProgress(task)}</div>
+                  <div className="text-gray-500 dark:text-slate-400">
+                    失败 {task.failedCount ?? 0} · 跳过 {task.skippedCount ?? 0} · 账号 {task.accountName} · 开始于{" "}
+                    {formatTime(task.startedAt)}
+                  </div>
+                </div>
+              ))
+            ) : (
+              <div className="text-xs text-gray-500 dark:text-slate-400">当前没有运行中的任务</div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-gray-700 dark:text-slate-200">实时订阅（{subscriptions.length}）</div>
+            {subscriptions.length ? (
+              <div className="max-h-72 overflow-auto space-y-1">
+                {subscriptions.map((sub) => {
+                  const pending = sub.pendingMediaGroups.channel + sub.pendingMediaGroups.discussion;
+                  return (
+                    <div
+                      key={`${sub.accountName}:${sub.sourceChannelId}`}
+                      className="flex items-center justify-between gap-2 text-xs text-gray-600 dark:text-slate-300"
+                    >
+                      <span className="truncate" title={`账号 ${sub.accountName} · 订阅于 ${formatTime(sub.subscribedAt)}`}>
+                        {sub.channelName ?? sub.sourceChannelId}
+                      </span>
+                      {pending ? (
+                        <span className="ui-badge ui-badge-warn">相册缓冲 {pending}</span>
+                      ) : (
+                        <span className="ui-badge ui-badge-success">监听中</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="text-xs text-gray-500 dark:text-slate-400">没有实时订阅</div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-gray-700 dark:text-slate-200">FLOOD_WAIT 等待（{floodWaits.length}）</div>
+            {floodWaits.length ? (
+              floodWaits.map((wait) => (
+                <div key={`${wait.startedAt}:${wait.until}`} className="flex items-center justify-between text-xs">
+                  <span className="text-gray-600 dark:text-slate-300">等待 {wait.seconds} 秒</span>
+                  <span className="ui-badge ui-badge-warn">
+                    剩余 {Math.max(0, Math.ceil((Date.parse(wait.until) - now) / 1000))} 秒
+                  </span>
+                </div>
+              ))
+            ) : (
+              <div className="text-xs text-gray-500 dark:text-slate-400">没有正在等待的限流</div>
+            )}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatTime, getErrorMessage } from "@/lib/utils";
+
+// 与 lib/message-comments 的 MessageComment 保持一致（客户端组件不直接依赖 db 包）
+type MessageComment = {
+  id: string;
+  sourceCommentId: number;
+  replyToCommentId: number | null;
+  authorId: string | null;
+  authorName: string | null;
+  text: string | null;
+  messageType: string;
+  mediaGroupId: string | null;
+  status: "pending" | "success" | "failed" | "skipped";
+  mirrorMessageId: number | null;
+  errorMessage: string | null;
+  sentAt: string;
+  mirroredAt: string | null;
+};
+
+const statusLabels: Record<MessageComment["status"], string> = {
+  pending: "镜像中",
+  success: "已镜像",
+  failed: "镜像失败",
+  skipped: "已跳过",
+};
+
+/**
+ * 帖子的评论串（按时间排序）；回复其他评论的会标出被回复的评论。
+ */
+export function CommentThread({ messageMappingId, grouped }: { messageMappingId: string; grouped: boolean }) {
+  const [comments, setComments] = useState<MessageComment[] | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    void (async () => {
+      try {
+        const params = new URLSearchParams({ messageMappingId, grouped: String(grouped) });
+        const res = await fetch(`/api/message-comments?${params.toString()}`, { cache: "no-store" });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error ?? "加载评论失败");
+        if (!cancelled) setComments((data.comments ?? []) as MessageComment[]);
+      } catch (e: unknown) {
+        if (!cancelled) setError(getErrorMessage(e));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [messageMappingId, grouped]);
+
+  if (error) return <div className="text-red-700 dark:text-red-200 whitespace-pre-wrap">{error}</div>;
+  if (!comments) return <div className="text-gray-500 dark:text-slate-400">加载中...</div>;
+  if (!comments.length) return <div className="text-gray-500 dark:text-slate-400">暂无评论</div>;
+
+  const authorByCommentId = new Map(comments.map((c) => [c.sourceCommentId, c.authorName ?? `#${c.sourceCommentId}`]));
+
+  return (
+    <div className="max-h-80 space-y-2 overflow-auto">
+      <div className="text-gray-600 dark:text-slate-300">共 {comments.length} 条评论</div>
+      {comments.map((c) => (
+        <div key={c.id} className="rounded-xl border border-gray-200 bg-white/60 p-3 dark:border-white/10 dark:bg-slate-900/40">
+          <div className="flex flex-wrap items-center gap-2 text-gray-600 dark:text-slate-300">
+            <span className="font-medium">{c.authorName ?? (c.authorId ? `用户 ${c.authorId}` : "匿名")}</span>
+            <span>{formatTime(c.sentAt)}</span>
+            {c.replyToCommentId != null ? (
+              <span className="text-gray-500 dark:text-slate-400">
+                回复 {authorByCommentId.get(c.replyToCommentId) ?? `#${c.replyToCommentId}`}
+              </span>
+            ) : null}
+            {c.messageType !== "text" ? <span className="ui-badge ui-badge-muted">{c.messageType}</span> : null}
+            <span
+              className={c.status === "failed" ? "text-red-600 dark:text-red-300" : "text-gray-500 dark:text-slate-400"}
+              title={c.errorMessage ?? undefined}
+            >
+              · {statusLabels[c.status] ?? c.status}
+            </span>
+          </div>
+          <div className="mt-2 whitespace-pre-wrap">{c.text?.trim() ? c.text : "（无文本）"}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
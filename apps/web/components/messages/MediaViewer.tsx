@@ -0,0 +1,195 @@
+"use client";
+
+import { useEffect } from "react";
+import clsx from "clsx";
+import { ChevronLeft, ChevronRight, Download, ExternalLink, X } from "lucide-react";
+
+export type ArchivedMedia = {
+  id: string;
+  mimeType: string | null;
+  fileName: string | null;
+  fileSize: number | null;
+  width: number | null;
+  height: number | null;
+  durationSec: number | null;
+  hasThumbnail: boolean;
+  urls: { file: string; thumb: string; download: string };
+};
+
+export type MediaViewerItem = {
+  id: string;
+  sourceMessageId: number;
+  archivedMedia: ArchivedMedia;
+  caption: string | null;
+  telegramLink: string | null;
+};
+
+export function formatDuration(seconds: number | null): string | null {
+  if (seconds == null || !Number.isFinite(seconds) || seconds < 0) return null;
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
+
+function getMediaKind(media: ArchivedMedia): "image" | "video" | "audio" | "file" {
+  const mime = media.mimeType ?? "";
+  if (mime === "image/svg+xml") return "file";
+  if (mime.startsWith("image/")) return "image";
+  if (mime.startsWith("video/")) return "video";
+  if (mime.startsWith("audio/")) return "audio";
+  return "file";
+}
+
+export function isPlayableMedia(media: ArchivedMedia): boolean {
+  const kind = getMediaKind(media);
+  return kind === "video" || kind === "audio";
+}
+
+const buttonClass =
+  "inline-flex h-9 items-center justify-center gap-1 rounded-md border border-black/10 bg-white px-3 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10";
+
+/**
+ * 本地归档媒体的查看器：图片直接展示，视频/音频用原生播放器（依赖 /api/messages/media 的 Range 支持拖动进度）。
+ * 相册按 mediaGroupId 整组传入，可左右切换。
+ */
+export function MediaViewer({
+  items,
+  index,
+  onIndexChange,
+  onClose,
+}: {
+  items: MediaViewerItem[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}) {
+  const current = items[index] ?? null;
+  const hasPrev = index > 0;
+  const hasNext = index < items.length - 1;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      if (e.key === "ArrowLeft" && hasPrev) onIndexChange(index - 1);
+      if (e.key === "ArrowRight" && hasNext) onIndexChange(index + 1);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [index, hasPrev, hasNext, onClose, onIndexChange]);
+
+  if (!current) return null;
+
+  const media = current.archivedMedia;
+  const kind = getMediaKind(media);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" onClick={() => onClose()}>
+      <div
+        className="flex max-h-full w-full max-w-4xl flex-col rounded-xl bg-white p-4 shadow-lg dark:bg-slate-950 dark:text-slate-100 dark:shadow-black/40 dark:border dark:border-white/10"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-3">
+          <div className="min-w-0 text-sm text-gray-600 dark:text-slate-300">
+            <span className="font-medium text-gray-900 dark:text-slate-100">
+              {items.length > 1 ? `相册 ${index + 1} / ${items.length}` : "媒体预览"}
+            </span>
+            <span className="ml-2">id={current.sourceMessageId}</span>
+            {media.fileName ? <span className="ml-2 truncate">{media.fileName}</span> : null}
+          </div>
+          <div className="flex shrink-0 items-center gap-2">
+            {current.telegramLink ? (
+              <a href={current.telegramLink} target="_blank" rel="noreferrer" className={buttonClass} title="在 Telegram 中查看">
+                <ExternalLink className="h-4 w-4" />
+              </a>
+            ) : null}
+            <a href={media.urls.download} className={buttonClass} title="下载原文件">
+              <Download className="h-4 w-4" />
+              下载
+            </a>
+            <button type="button" onClick={() => onClose()} className={buttonClass} title="关闭">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="relative mt-3 flex min-h-[240px] flex-1 items-center justify-center overflow-hidden rounded-lg bg-black/90">
+          {kind === "image" ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img key={media.id} src={media.urls.file} alt={current.caption ?? ""} className="max-h-[70vh] max-w-full object-contain" />
+          ) : kind === "video" ? (
+            <video
+              key={media.id}
+              src={media.urls.file}
+              poster={media.hasThumbnail ? media.urls.thumb : undefined}
+              controls
+              preload="metadata"
+              className="max-h-[70vh] max-w-full"
+            />
+          ) : kind === "audio" ? (
+            <audio key={media.id} src={media.urls.file} controls preload="metadata" className="w-full max-w-md" />
+          ) : (
+            <div className="p-6 text-center text-sm text-slate-200">
+              <div>该文件类型不支持在线预览{media.mimeType ? `（${media.mimeType}）` : ""}</div>
+              <a href={media.urls.download} className="mt-3 inline-flex text-blue-300 hover:text-blue-200 font-medium">
+                下载文件
+              </a>
+            </div>
+          )}
+
+          {hasPrev ? (
+            <button
+              type="button"
+              onClick={() => onIndexChange(index - 1)}
+              className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full bg-black/50 p-2 text-white hover:bg-black/70"
+              title="上一张"
+            >
+              <ChevronLeft className="h-5 w-5" />
+            </button>
+          ) : null}
+          {hasNext ? (
+            <button
+              type="button"
+              onClick={() => onIndexChange(index + 1)}
+              className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full bg-black/50 p-2 text-white hover:bg-black/70"
+              title="下一张"
+            >
+              <ChevronRight className="h-5 w-5" />
+            </button>
+          ) : null}
+        </div>
+
+        {current.caption ? (
+          <div className="mt-3 max-h-32 overflow-y-auto whitespace-pre-wrap text-sm text-gray-800 dark:text-slate-200">{current.caption}</div>
+        ) : null}
+
+        {items.length > 1 ? (
+          <div className="mt-3 flex gap-2 overflow-x-auto pb-1">
+            {items.map((item, idx) => (
+              <button
+                key={item.id}
+                type="button"
+                onClick={() => onIndexChange(idx)}
+                className={clsx(
+                  "h-14 w-14 shrink-0 overflow-hidden rounded-md",
+                  idx === index ? "ring-2 ring-blue-500" : "opacity-70 hover:opacity-100",
+                )}
+              >
+                {item.archivedMedia.hasThumbnail ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={item.archivedMedia.urls.thumb} alt="" loading="lazy" className="h-full w-full object-cover" />
+                ) : (
+                  <span className="flex h-full w-full items-center justify-center bg-gray-200 text-xs text-gray-600 dark:bg-slate-800 dark:text-slate-300">
+                    {idx + 1}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -2,11 +2,15 @@
 
 import { useEffect, useMemo, useRef, useState, type ReactNode } from "react";
 import clsx from "clsx";
-import { ExternalLink, FileText, Image, Music, Video } from "lucide-react";
+import { ExternalLink, FileText, Image, Music, Play, Video } from "lucide-react";
+import { CommentThread } from "@/components/messages/CommentThread";
+import { formatDuration, isPlayableMedia, MediaViewer, type ArchivedMedia, type MediaViewerItem } from "@/components/messages/MediaViewer";
 import { Checkbox } from "@/components/ui/Checkbox";
 import { Select } from "@/components/ui/Select";
+import { EXPORT_FORMATS, exportFormatLabels, type ExportFormat } from "@/lib/export-formats";
 import { type LocalQueryPreset } from "@/lib/local-presets";
 import { deleteQueryPreset, loadQueryPresets, saveQueryPreset } from "@/lib/query-presets";
+import { findSearchMatches, getPositiveSearchTerms, parseSearchQuery } from "@/lib/search-query";
 import { formatTime, getErrorMessage } from "@/lib/utils";
 
 type MessageStatus = "pending" | "success" | "failed" | "skipped";
@@ -41,18 +45,22 @@ type MessageItem = {
   groupSize: number;
   status: MessageStatus;
   skipReason: string | null;
+  skipDetail: string | null;
   errorMessage: string | null;
   retryCount: number;
   hasMedia: boolean;
   fileSize: number | null;
   textPreview: string | null;
   text: string | null;
+  searchSnippet?: string | null;
   sentAt: string;
   mirroredAt: string | null;
   isDeleted: boolean;
   deletedAt: string | null;
   editCount: number;
   lastEditedAt: string | null;
+  commentCount: number;
+  archivedMedia: ArchivedMedia | null;
   sourceChannel: {
     id: string;
     channelIdentifier: string;
@@ -107,9 +115,23 @@ type MessageEditItem = {
   previousText: string | null;
   newText: string | null;
   editedAt: string;
+  propagationStatus: EditPropagationStatus;
+  propagationError: string | null;
+  propagatedAt: string | null;
   createdAt: string;
 };
 
+type EditPropagationStatus = "pending" | "edited" | "commented" | "recorded" | "skipped" | "failed";
+
+const editPropagationLabels: Record<EditPropagationStatus, string> = {
+  pending: "同步中",
+  edited: "已同步编辑",
+  commented: "已追加评论",
+  recorded: "仅记录",
+  skipped: "未同步",
+  failed: "同步失败",
+};
+
 type MediaGroupItem = {
   id: string;
   sourceMessageId: number;
@@ -117,6 +139,7 @@ type MediaGroupItem = {
   messageType: MessageType;
   status: MessageStatus;
   skipReason: string | null;
+  skipDetail: string | null;
   errorMessage: string | null;
   retryCount: number;
   hasMedia: boolean;
@@ -125,17 +148,22 @@ type MediaGroupItem = {
   text: string | null;
   sentAt: string;
   mirroredAt: string | null;
+  archivedMedia: ArchivedMedia | null;
   links: {
     source: string | null;
     mirror: string | null;
   };
 };
 
-type Cursor = {
-  sentAt: string;
-  sourceChannelId: string;
-  sourceMessageId: number;
-} | null;
+// 按相关度排序时服务端返回 offset 游标
+type Cursor =
+  | {
+      sentAt: string;
+      sourceChannelId: string;
+      sourceMessageId: number;
+    }
+  | { offset: number }
+  | null;
 
 function formatFileSize(bytes: number | null): string | null {
   if (bytes == null) return null;
@@ -149,37 +177,27 @@ function formatFileSize(bytes: number | null): string | null {
   return `${gb.toFixed(gb < 10 ? 2 : 1)}GB`;
 }
 
-function escapeRegExp(value: string): string {
-  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
-
 function highlightText(text: string, rawQuery: string): ReactNode {
   const query = rawQuery.trim();
   if (!query) return text;
 
-  const keywords = query
-    .split(/\s+/g)
-    .map((k) => k.trim())
-    .filter(Boolean)
-    .slice(0, 5);
-  if (!keywords.length) return text;
-
-  const keywordSet = new Set(keywords.map((k) => k.toLowerCase()));
-  const regex = new RegExp(`(${keywords.map(escapeRegExp).join("|")})`, "gi");
-  const parts = text.split(regex);
-  if (parts.length <= 1) return text;
-
-  return parts.map((part, index) => {
-    const key = `${index}-${part}`;
-    if (keywordSet.has(part.toLowerCase())) {
-      return (
-        <mark key={key} className="rounded bg-yellow-200/70 px-0.5 dark:bg-yellow-500/20 dark:text-yellow-200">
-          {part}
-        </mark>
-      );
-    }
-    return <span key={key}>{part}</span>;
-  });
+  // 与服务端使用同一套搜索语法：排除词、OR 不高亮，短语整体高亮
+  const matches = findSearchMatches(text, getPositiveSearchTerms(parseSearchQuery(query)));
+  if (!matches.length) return text;
+
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  for (const m of matches) {
+    if (m.start > cursor) parts.push(<span key={`t-${cursor}`}>{text.slice(cursor, m.start)}</span>);
+    parts.push(
+      <mark key={`m-${m.start}`} className="rounded bg-yellow-200/70 px-0.5 dark:bg-yellow-500/20 dark:text-yellow-200">
+        {text.slice(m.start, m.end)}
+      </mark>,
+    );
+    cursor = m.end;
+  }
+  if (cursor < text.length) parts.push(<span key={`t-${cursor}`}>{text.slice(cursor)}</span>);
+  return parts;
 }
 
 const MESSAGE_TYPE_LABEL: Record<MessageType, string> = {
@@ -211,6 +229,17 @@ const SKIP_REASON_LABEL: Record<string, string> = {
   filtered: "广告/垃圾过滤",
 };
 
+function toMediaViewerItem(item: MessageItem | MediaGroupItem): MediaViewerItem | null {
+  if (!item.archivedMedia) return null;
+  return {
+    id: item.id,
+    sourceMessageId: item.sourceMessageId,
+    archivedMedia: item.archivedMedia,
+    caption: (item.text ?? item.textPreview ?? "").trim() || null,
+    telegramLink: item.links.mirror ?? item.links.source,
+  };
+}
+
 function labelMessageType(type: MessageType): string {
   return MESSAGE_TYPE_LABEL[type] ?? type;
 }
@@ -241,6 +270,7 @@ export function MessagesBrowser() {
   const [groupFilter, setGroupFilter] = useState<string>("");
   const [selectedChannelId, setSelectedChannelId] = useState<string>("");
   const [q, setQ] = useState("");
+  const [sort, setSort] = useState<string>("");
   const [status, setStatus] = useState<string>("");
   const [messageType, setMessageType] = useState<string>("");
   const [hasMediaFilter, setHasMediaFilter] = useState<string>("");
@@ -253,6 +283,7 @@ export function MessagesBrowser() {
   const [end, setEnd] = useState("");
   const [limit, setLimit] = useState(50);
   const [groupMedia, setGroupMedia] = useState(true);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("jsonl");
 
   const [items, setItems] = useState<MessageItem[]>([]);
   const [nextCursor, setNextCursor] = useState<Cursor>(null);
@@ -264,6 +295,7 @@ export function MessagesBrowser() {
   const exportUrl = useMemo(() => {
     if (!selectedChannelId) return null;
     const params = new URLSearchParams({ sourceChannelId: selectedChannelId, groupMedia: groupMedia ? "true" : "false" });
+    if (exportFormat !== "jsonl") params.set("format", exportFormat);
     if (q.trim()) params.set("q", q.trim());
     if (status.trim()) params.set("status", status.trim());
     if (messageType.trim()) params.set("messageType", messageType.trim());
@@ -276,9 +308,10 @@ export function MessagesBrowser() {
     if (start.trim()) params.set("start", start.trim());
     if (end.trim()) params.set("end", end.trim());
     return `/api/export/messages?${params.toString()}`;
-  }, [selectedChannelId, groupMedia, q, status, messageType, hasMediaFilter, skipReasonFilter, editedFilter, deletedFilter, minFileSizeMb, maxFileSizeMb, start, end]);
+  }, [selectedChannelId, groupMedia, exportFormat, q, status, messageType, hasMediaFilter, skipReasonFilter, editedFilter, deletedFilter, minFileSizeMb, maxFileSizeMb, start, end]);
 
   const [openEditHistoryId, setOpenEditHistoryId] = useState<string | null>(null);
+  const [openCommentsId, setOpenCommentsId] = useState<string | null>(null);
   const [editHistoryByMessageId, setEditHistoryByMessageId] = useState<Record<string, MessageEditItem[]>>({});
   const [editHistoryLoadingId, setEditHistoryLoadingId] = useState<string | null>(null);
   const [editHistoryErrorByMessageId, setEditHistoryErrorByMessageId] = useState<Record<string, string>>({});
@@ -292,6 +325,7 @@ export function MessagesBrowser() {
   const [mediaGroupItemsByKey, setMediaGroupItemsByKey] = useState<Record<string, MediaGroupItem[]>>({});
   const [mediaGroupLoadingKey, setMediaGroupLoadingKey] = useState<string | null>(null);
   const [mediaGroupErrorByKey, setMediaGroupErrorByKey] = useState<Record<string, string>>({});
+  const [mediaViewer, setMediaViewer] = useState<{ items: MediaViewerItem[]; index: number } | null>(null);
 
   const [savedPresets, setSavedPresets] = useState<LocalQueryPreset[]>([]);
 
@@ -385,6 +419,7 @@ export function MessagesBrowser() {
     const hasGroupParam = params.has("groupName") || params.has("group_name");
     const initialGroupRaw = (params.get("groupName") ?? params.get("group_name") ?? "").trim();
     const initialQ = params.get("q")?.trim() ?? "";
+    const initialSort = params.get("sort")?.trim() ?? "";
     const initialStatus = params.get("status")?.trim() ?? "";
     const initialMessageType = params.get("messageType")?.trim() ?? "";
     const initialHasMedia = (params.get("hasMedia") ?? params.get("has_media") ?? "").trim();
@@ -429,6 +464,7 @@ export function MessagesBrowser() {
     if (initialGroupFilter) setGroupFilter(initialGroupFilter);
 
     if (initialQ) setQ(initialQ);
+    if (initialSort === "relevance") setSort(initialSort);
     if (initialStatus) setStatus(initialStatus);
     if (initialMessageType) setMessageType(initialMessageType);
     if (initialHasMedia) setHasMediaFilter(initialHasMedia);
@@ -496,6 +532,7 @@ export function MessagesBrowser() {
     overrides: Partial<{
       groupFilter: string;
       q: string;
+      sort: string;
       status: string;
       messageType: string;
       hasMediaFilter: string;
@@ -512,6 +549,7 @@ export function MessagesBrowser() {
   ): string => {
     const groupFilterEffective = overrides.groupFilter ?? groupFilter;
     const qEffective = overrides.q ?? q;
+    const sortEffective = overrides.sort ?? sort;
     const statusEffective = overrides.status ?? status;
     const messageTypeEffective = overrides.messageType ?? messageType;
     const hasMediaEffective = overrides.hasMediaFilter ?? hasMediaFilter;
@@ -530,6 +568,7 @@ export function MessagesBrowser() {
     else if (groupFilterEffective === UNGROUPED) params.set("groupName", "");
     else if (groupFilterEffective.trim()) params.set("groupName", groupFilterEffective.trim());
     if (qEffective.trim()) params.set("q", qEffective.trim());
+    if (qEffective.trim() && sortEffective) params.set("sort", sortEffective);
     if (statusEffective) params.set("status", statusEffective);
     if (messageTypeEffective) params.set("messageType", messageTypeEffective);
     if (hasMediaEffective.trim()) params.set("hasMedia", hasMediaEffective.trim());
@@ -542,7 +581,9 @@ export function MessagesBrowser() {
     if (endEffective) params.set("end", endEffective);
     params.set("groupMedia", groupMediaEffective ? "true" : "false");
     params.set("limit", String(limitEffective));
-    if (cursor) {
+    if (cursor && "offset" in cursor) {
+      params.set("cursorOffset", String(cursor.offset));
+    } else if (cursor) {
       params.set("cursorSentAt", cursor.sentAt);
       params.set("cursorSourceChannelId", cursor.sourceChannelId);
       params.set("cursorSourceMessageId", String(cursor.sourceMessageId));
@@ -594,6 +635,7 @@ export function MessagesBrowser() {
     const nextGroupFilter = nextChannelId ? "" : hasGroupParam ? (groupRaw ? groupRaw : UNGROUPED) : "";
 
     const nextQ = params.get("q")?.trim() ?? "";
+    const nextSort = params.get("sort")?.trim() === "relevance" ? "relevance" : "";
     const nextStatus = params.get("status")?.trim() ?? "";
     const nextMessageType = params.get("messageType")?.trim() ?? "";
     const nextHasMedia = (params.get("hasMedia") ?? params.get("has_media") ?? "").trim();
@@ -614,6 +656,7 @@ export function MessagesBrowser() {
     const overrides: NonNullable<Parameters<typeof buildQuery>[2]> = {
       groupFilter: nextGroupFilter,
       q: nextQ,
+      sort: nextSort,
       status: nextStatus,
       messageType: nextMessageType,
       hasMediaFilter: nextHasMedia,
@@ -630,6 +673,7 @@ export function MessagesBrowser() {
 
     setNotice("");
     setOpenEditHistoryId(null);
+    setOpenCommentsId(null);
     setOpenMediaGroupKey(null);
     window.history.replaceState(null, "", buildShareUrl(nextChannelId, overrides));
     void fetchMessages({ reset: true, overrideChannelId: nextChannelId, overrides });
@@ -637,6 +681,7 @@ export function MessagesBrowser() {
     setSelectedChannelId(nextChannelId);
     setGroupFilter(nextGroupFilter);
     setQ(nextQ);
+    setSort(nextSort);
     setStatus(nextStatus);
     setMessageType(nextMessageType);
     setHasMediaFilter(nextHasMedia);
@@ -715,11 +760,13 @@ export function MessagesBrowser() {
   const applyPreset = (overrides: NonNullable<Parameters<typeof buildQuery>[2]> = {}) => {
     setNotice("");
     setOpenEditHistoryId(null);
+    setOpenCommentsId(null);
     setOpenMediaGroupKey(null);
     syncUrlToCurrentQuery(undefined, overrides);
     void fetchMessages({ reset: true, overrides });
 
     if (typeof overrides.q !== "undefined") setQ(overrides.q);
+    if (typeof overrides.sort !== "undefined") setSort(overrides.sort);
     if (typeof overrides.status !== "undefined") setStatus(overrides.status);
     if (typeof overrides.messageType !== "undefined") setMessageType(overrides.messageType);
     if (typeof overrides.hasMediaFilter !== "undefined") setHasMediaFilter(overrides.hasMediaFilter);
@@ -831,8 +878,16 @@ export function MessagesBrowser() {
 
     setOpenMediaGroupKey(key);
     setOpenEditHistoryId(null);
+    setOpenCommentsId(null);
+
+    await loadMediaGroupItems(message);
+  };
 
-    if (mediaGroupItemsByKey[key]) return;
+  const loadMediaGroupItems = async (message: MessageItem): Promise<MediaGroupItem[] | null> => {
+    if (!message.mediaGroupId) return null;
+    const key = `${message.sourceChannelId}:${message.mediaGroupId}`;
+    const cached = mediaGroupItemsByKey[key];
+    if (cached) return cached;
 
     setMediaGroupLoadingKey(key);
     setMediaGroupErrorByKey((prev) => {
@@ -848,13 +903,36 @@ export function MessagesBrowser() {
       if (!res.ok) throw new Error(data.error ?? "Failed to load media group");
       const items = (data.items ?? []) as MediaGroupItem[];
       setMediaGroupItemsByKey((prev) => ({ ...prev, [key]: items }));
+      return items;
     } catch (e: unknown) {
       setMediaGroupErrorByKey((prev) => ({ ...prev, [key]: getErrorMessage(e) }));
+      return null;
     } finally {
       setMediaGroupLoadingKey(null);
     }
   };
 
+  // 相册整组打开：先拉取同 mediaGroupId 的全部消息，只保留已归档到本地的条目
+  const openMediaViewer = async (message: MessageItem, startMessageId?: string) => {
+    const self = toMediaViewerItem(message);
+    if (message.groupSize <= 1 || !message.mediaGroupId) {
+      if (self) setMediaViewer({ items: [self], index: 0 });
+      return;
+    }
+
+    const groupItems = await loadMediaGroupItems(message);
+    const viewerItems = (groupItems ?? []).map(toMediaViewerItem).filter((it): it is MediaViewerItem => !!it);
+    if (!viewerItems.length) {
+      if (self) setMediaViewer({ items: [self], index: 0 });
+      else setNotice("该相册暂无已归档的本地媒体");
+      return;
+    }
+
+    const targetId = startMessageId ?? message.id;
+    const index = viewerItems.findIndex((it) => it.id === targetId);
+    setMediaViewer({ items: viewerItems, index: Math.max(0, index) });
+  };
+
   return (
     <div className="space-y-6">
       {error ? (
@@ -875,6 +953,7 @@ export function MessagesBrowser() {
                 onChange={(nextId) => {
                   setSelectedChannelId(nextId);
                   setOpenEditHistoryId(null);
+                  setOpenCommentsId(null);
                   if (nextId !== "") return;
 
                   const signature = buildQuery(null, "");
@@ -916,6 +995,7 @@ export function MessagesBrowser() {
                 onChange={(nextGroup) => {
                   setGroupFilter(nextGroup);
                   setOpenEditHistoryId(null);
+                  setOpenCommentsId(null);
                   const current = selectedChannelId;
                   if (current) {
                     const found = channels.find((c) => c.id === current);
@@ -938,14 +1018,32 @@ export function MessagesBrowser() {
             </div>
           </div>
 
-          <div>
-            <label className="block text-sm font-medium">关键词（搜索 text/caption，空格分隔=同时包含）</label>
-            <input
-              value={q}
-              onChange={(e) => setQ(e.target.value)}
-              placeholder="例如：BTC 关键词"
-              className="ui-input mt-1"
-            />
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-[1fr_180px]">
+            <div>
+              <label className="block text-sm font-medium">关键词（搜索 text/caption，空格=同时包含）</label>
+              <input
+                value={q}
+                onChange={(e) => setQ(e.target.value)}
+                placeholder='例如：BTC "价格 突破" -广告 OR ETH'
+                className="ui-input mt-1"
+              />
+              <div className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+                支持 &quot;短语&quot;、-排除词、OR（大写）；英文按整词匹配，中文按子串匹配
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">排序</label>
+              <div className="mt-1">
+                <Select
+                  value={sort}
+                  onChange={(next) => setSort(next)}
+                  options={[
+                    { value: "", label: "按时间" },
+                    { value: "relevance", label: "按相关度（需关键词）" },
+                  ]}
+                />
+              </div>
+            </div>
           </div>
 
           <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
@@ -1241,6 +1339,7 @@ export function MessagesBrowser() {
                 onClick={() => {
                   setNotice("");
                   setOpenEditHistoryId(null);
+                  setOpenCommentsId(null);
                   setOpenMediaGroupKey(null);
                   syncUrlToCurrentQuery();
                   void fetchMessages({ reset: true });
@@ -1261,6 +1360,12 @@ export function MessagesBrowser() {
               >
                 复制查询链接
               </button>
+              <Select
+                value={exportFormat}
+                onChange={(next) => setExportFormat(next as ExportFormat)}
+                options={EXPORT_FORMATS.map((f) => ({ value: f, label: exportFormatLabels[f] }))}
+                className="w-56"
+              />
               {exportUrl ? (
                 <a
                   href={exportUrl}
@@ -1268,11 +1373,11 @@ export function MessagesBrowser() {
                   rel="noreferrer"
                   className="ui-btn ui-btn-secondary h-10"
                 >
-                  导出(JSONL)
+                  导出
                 </a>
               ) : (
                 <span className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 px-4 text-sm text-black/40 dark:border-white/10 dark:text-slate-500">
-                  导出(JSONL)
+                  导出
                 </span>
               )}
               <button
@@ -1294,6 +1399,7 @@ export function MessagesBrowser() {
                   } as const;
                   setNotice("");
                   setOpenEditHistoryId(null);
+                  setOpenCommentsId(null);
                   setOpenMediaGroupKey(null);
                   syncUrlToCurrentQuery(undefined, clearedOverrides);
                   setQ("");
@@ -1334,6 +1440,7 @@ export function MessagesBrowser() {
             onClick={() => {
               setNotice("");
               setOpenEditHistoryId(null);
+              setOpenCommentsId(null);
               setOpenMediaGroupKey(null);
               syncUrlToCurrentQuery();
               void fetchMessages({ reset: true });
@@ -1354,7 +1461,8 @@ export function MessagesBrowser() {
             const isExpandedText = expandedTextByMessageId[m.id] ?? false;
             const fullText = (m.text ?? "").trim();
             const previewText = (m.textPreview ?? "").trim();
-            const shouldShowToggleText = !!fullText && !!previewText && fullText.length > previewText.length;
+            const shouldShowToggleText =
+              !!fullText && (m.searchSnippet ? m.searchSnippet !== fullText : !!previewText && fullText.length > previewText.length);
 
             const externalLink = m.links.source ?? m.links.mirror;
             const telegramViewLink = m.links.mirror ?? m.links.source;
@@ -1370,14 +1478,39 @@ export function MessagesBrowser() {
             return (
               <div key={m.id} className="glass-panel rounded-2xl p-5 hover-lift">
                 <div className="flex items-start gap-4">
-                  <div
-                    className={clsx(
-                      "w-12 h-12 rounded-xl flex items-center justify-center flex-shrink-0",
-                      messageColorMap[m.messageType],
-                    )}
-                  >
-                    <Icon className="w-6 h-6" />
-                  </div>
+                  {m.archivedMedia?.hasThumbnail ? (
+                    <button
+                      type="button"
+                      onClick={() => void openMediaViewer(m)}
+                      className="relative w-16 h-16 rounded-xl overflow-hidden flex-shrink-0 bg-gray-100 dark:bg-slate-800"
+                      title={m.groupSize > 1 ? "查看相册" : "查看媒体"}
+                    >
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img src={m.archivedMedia.urls.thumb} alt="" loading="lazy" className="w-full h-full object-cover" />
+                      {isPlayableMedia(m.archivedMedia) ? (
+                        <span className="absolute inset-0 flex items-center justify-center bg-black/20">
+                          <Play className="w-5 h-5 text-white" />
+                        </span>
+                      ) : null}
+                      {formatDuration(m.archivedMedia.durationSec) ? (
+                        <span className="absolute bottom-0.5 right-0.5 rounded bg-black/60 px-1 text-[10px] text-white">
+                          {formatDuration(m.archivedMedia.durationSec)}
+                        </span>
+                      ) : null}
+                      {m.groupSize > 1 ? (
+                        <span className="absolute top-0.5 right-0.5 rounded bg-black/60 px-1 text-[10px] text-white">{m.groupSize}</span>
+                      ) : null}
+                    </button>
+                  ) : (
+                    <div
+                      className={clsx(
+                        "w-12 h-12 rounded-xl flex items-center justify-center flex-shrink-0",
+                        messageColorMap[m.messageType],
+                      )}
+                    >
+                      <Icon className="w-6 h-6" />
+                    </div>
+                  )}
 
                   <div className="flex-1 min-w-0 space-y-2">
                     <div className="flex items-start justify-between gap-3">
@@ -1401,11 +1534,14 @@ export function MessagesBrowser() {
                                 setSelectedChannelId(channelId);
                                 setItems(filtered);
                                 setNextCursor(
-                                  last
-                                    ? { sentAt: last.sentAt, sourceChannelId: last.sourceChannelId, sourceMessageId: last.sourceMessageId }
-                                    : null,
+                                  nextCursor && "offset" in nextCursor
+                                    ? { offset: filtered.length }
+                                    : last
+                                      ? { sentAt: last.sentAt, sourceChannelId: last.sourceChannelId, sourceMessageId: last.sourceMessageId }
+                                      : null,
                                 );
                                 setOpenEditHistoryId(null);
+                                setOpenCommentsId(null);
                                 setOpenMediaGroupKey(null);
                                 syncUrlToCurrentQuery(channelId);
                               }}
@@ -1428,7 +1564,10 @@ export function MessagesBrowser() {
                                 isExpandedText ? "" : "line-clamp-3",
                               )}
                             >
-                              {highlightText(isExpandedText ? (m.text ?? m.textPreview ?? "") : (m.textPreview ?? m.text ?? ""), q)}
+                              {highlightText(
+                                isExpandedText ? (m.text ?? m.textPreview ?? "") : (m.searchSnippet ?? m.textPreview ?? m.text ?? ""),
+                                q,
+                              )}
                             </div>
                             {shouldShowToggleText ? (
                               <button
@@ -1462,10 +1601,15 @@ export function MessagesBrowser() {
                           ) : null}
                           {fileSizeText ? <span className="ui-badge ui-badge-muted">size: {fileSizeText}</span> : null}
                           {m.skipReason ? (
-                            <span className="ui-badge ui-badge-warn">
+                            <span className="ui-badge ui-badge-warn" title={m.skipDetail ?? undefined}>
                               skip: {m.skipReason}（{labelSkipReason(m.skipReason)}）
                             </span>
                           ) : null}
+                          {m.skipDetail ? (
+                            <span className="ui-badge ui-badge-muted max-w-[360px] truncate" title={m.skipDetail}>
+                              {m.skipDetail}
+                            </span>
+                          ) : null}
                           {m.errorMessage ? <span className="ui-badge ui-badge-error">错误</span> : null}
                         </div>
                       </div>
@@ -1490,6 +1634,23 @@ export function MessagesBrowser() {
                     <div className="flex items-center justify-between text-sm text-gray-500 dark:text-slate-400">
                       <span>{formatTime(m.sentAt)}</span>
                       <div className="flex items-center gap-3">
+                        {m.archivedMedia ? (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => void openMediaViewer(m)}
+                              className="text-blue-600 hover:text-blue-700 font-medium dark:text-blue-300 dark:hover:text-blue-200"
+                            >
+                              {m.groupSize > 1 ? "查看相册" : "本地预览"}
+                            </button>
+                            <a
+                              href={m.archivedMedia.urls.download}
+                              className="text-blue-600 hover:text-blue-700 font-medium dark:text-blue-300 dark:hover:text-blue-200"
+                            >
+                              下载
+                            </a>
+                          </>
+                        ) : null}
                         {telegramViewLink ? (
                           <a
                             href={telegramViewLink}
@@ -1511,6 +1672,15 @@ export function MessagesBrowser() {
                             {openEditHistoryId === historyKey ? "收起历史" : `编辑历史(${m.editCount})`}
                           </button>
                         ) : null}
+                        {m.commentCount > 0 ? (
+                          <button
+                            type="button"
+                            onClick={() => setOpenCommentsId((prev) => (prev === m.id ? null : m.id))}
+                            className="text-blue-600 hover:text-blue-700 font-medium dark:text-blue-300 dark:hover:text-blue-200"
+                          >
+                            {openCommentsId === m.id ? "收起评论" : `评论(${m.commentCount})`}
+                          </button>
+                        ) : null}
                       </div>
                     </div>
 
@@ -1529,6 +1699,22 @@ export function MessagesBrowser() {
                               const sizeText = formatFileSize(item.fileSize);
                               return (
                                 <div key={item.id} className="rounded-xl border border-gray-200 bg-white/60 p-3 dark:border-white/10 dark:bg-slate-900/40">
+                                  {item.archivedMedia?.hasThumbnail ? (
+                                    <button
+                                      type="button"
+                                      onClick={() => void openMediaViewer(m, item.id)}
+                                      className="relative mb-2 block w-24 h-24 rounded-lg overflow-hidden bg-gray-100 dark:bg-slate-800"
+                                      title="查看媒体"
+                                    >
+                                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                                      <img src={item.archivedMedia.urls.thumb} alt="" loading="lazy" className="w-full h-full object-cover" />
+                                      {isPlayableMedia(item.archivedMedia) ? (
+                                        <span className="absolute inset-0 flex items-center justify-center bg-black/20">
+                                          <Play className="w-5 h-5 text-white" />
+                                        </span>
+                                      ) : null}
+                                    </button>
+                                  ) : null}
                                   <div className="text-gray-600 dark:text-slate-300">
                                     #{idx + 1} · id={item.sourceMessageId} · {labelMessageType(item.messageType)} · {labelMessageStatus(item.status)}
                                     {sizeText ? ` · ${sizeText}` : ""}
@@ -1536,6 +1722,7 @@ export function MessagesBrowser() {
                                   {item.skipReason ? (
                                     <div className="mt-1 text-orange-700 dark:text-orange-200">
                                       skip: {item.skipReason}（{labelSkipReason(item.skipReason)}）
+                                      {item.skipDetail ? ` · ${item.skipDetail}` : ""}
                                     </div>
                                   ) : null}
                                   {item.errorMessage ? (
@@ -1569,6 +1756,14 @@ export function MessagesBrowser() {
                                     ) : (
                                       <span className="text-gray-400 dark:text-slate-500 font-medium">备份</span>
                                     )}
+                                    {item.archivedMedia ? (
+                                      <a
+                                        href={item.archivedMedia.urls.download}
+                                        className="text-blue-600 hover:text-blue-700 font-medium dark:text-blue-300 dark:hover:text-blue-200"
+                                      >
+                                        下载
+                                      </a>
+                                    ) : null}
                                   </div>
                                 </div>
                               );
@@ -1580,6 +1775,12 @@ export function MessagesBrowser() {
                       </div>
                     ) : null}
 
+                    {openCommentsId === m.id ? (
+                      <div className="mt-3 rounded-2xl border border-gray-200 bg-white/50 p-4 text-xs dark:border-white/10 dark:bg-slate-900/40">
+                        <CommentThread messageMappingId={m.id} grouped={groupMedia} />
+                      </div>
+                    ) : null}
+
                     {openEditHistoryId === historyKey ? (
                       <div className="mt-3 rounded-2xl border border-gray-200 bg-white/50 p-4 text-xs dark:border-white/10 dark:bg-slate-900/40">
                         {editHistoryLoadingId === historyKey ? (
@@ -1593,8 +1794,8 @@ export function MessagesBrowser() {
                               const ordered = [...edits].sort((a, b) => a.version - b.version);
                               const original = ordered[0]?.previousText ?? null;
                               const versions = [
-                                { key: "v0", version: 0, at: m.sentAt, text: original },
-                                ...ordered.map((h) => ({ key: h.id, version: h.version, at: h.editedAt, text: h.newText })),
+                                { key: "v0", version: 0, at: m.sentAt, text: original, edit: null },
+                                ...ordered.map((h) => ({ key: h.id, version: h.version, at: h.editedAt, text: h.newText, edit: h })),
                               ];
 
                               return (
@@ -1606,6 +1807,20 @@ export function MessagesBrowser() {
                                     <div key={v.key} className="rounded-xl border border-gray-200 bg-white/60 p-3 dark:border-white/10 dark:bg-slate-900/40">
                                       <div className="text-gray-600 dark:text-slate-300">
                                         v{v.version} · {formatTime(v.at)}
+                                        {v.edit ? (
+                                          <span
+                                            className={
+                                              v.edit.propagationStatus === "failed"
+                                                ? "text-red-600 dark:text-red-300"
+                                                : "text-gray-500 dark:text-slate-400"
+                                            }
+                                            title={v.edit.propagationError ?? undefined}
+                                          >
+                                            {" "}
+                                            · 镜像：{editPropagationLabels[v.edit.propagationStatus] ?? v.edit.propagationStatus}
+                                            {v.edit.propagationError ? `（${v.edit.propagationError}）` : ""}
+                                          </span>
+                                        ) : null}
                                       </div>
                                       <div className="mt-2 whitespace-pre-wrap">
                                         {v.text?.trim() ? highlightText(v.text, q) : "（无文本）"}
@@ -1640,6 +1855,15 @@ export function MessagesBrowser() {
           <div ref={loadMoreSentinelRef} className="h-px w-full" />
         </div>
       </div>
+
+      {mediaViewer ? (
+        <MediaViewer
+          items={mediaViewer.items}
+          index={mediaViewer.index}
+          onIndexChange={(index) => setMediaViewer((prev) => (prev ? { ...prev, index } : prev))}
+          onClose={() => setMediaViewer(null)}
+        />
+      ) : null}
     </div>
   );
 }
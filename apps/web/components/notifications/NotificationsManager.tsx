@@ -0,0 +1,670 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import clsx from "clsx";
+import { useAccess } from "@/components/auth/AccessGuard";
+import { Checkbox } from "@/components/ui/Checkbox";
+import { Select } from "@/components/ui/Select";
+import { formatTime, getErrorMessage } from "@/lib/utils";
+
+// 与 @tg-back/db 的 notifications 保持一致（客户端组件不直接依赖 db 包）
+type TargetType = "webhook" | "telegram_bot" | "email";
+type EventLevel = "info" | "warn" | "error";
+type DeliveryStatus = "pending" | "sent" | "failed" | "rate_limited";
+
+type NotificationRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  targetType: TargetType;
+  target: Record<string, unknown>;
+  secretsSet: string[];
+  minLevel: EventLevel;
+  sourceChannelIds: string[];
+  rateLimitCount: number;
+  rateLimitWindowSec: number;
+  stats24h: Partial<Record<DeliveryStatus, number>>;
+};
+
+type Delivery = {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  targetType: TargetType;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  responseStatus: number | null;
+  lastError: string | null;
+  sentAt: string | null;
+  createdAt: string;
+  event: { level: EventLevel; message: string; sourceChannelName: string | null; test: boolean } | null;
+};
+
+type ChannelOption = { id: string; name: string; channelIdentifier: string };
+
+type RuleDraft = {
+  id: string | null;
+  name: string;
+  enabled: boolean;
+  targetType: TargetType;
+  minLevel: EventLevel;
+  sourceChannelIds: string[];
+  rateLimitCount: string;
+  rateLimitWindowSec: string;
+  // 各类型目标字段平铺在一起，保存时按类型挑选
+  url: string;
+  secret: string;
+  botToken: string;
+  chatId: string;
+  apiBaseUrl: string;
+  host: string;
+  port: string;
+  security: "tls" | "starttls" | "none";
+  username: string;
+  password: string;
+  from: string;
+  to: string;
+  secretsSet: string[];
+};
+
+const TARGET_TYPE_LABELS: Record<TargetType, string> = {
+  webhook: "Webhook",
+  telegram_bot: "Telegram Bot",
+  email: "邮件（SMTP）",
+};
+
+const STATUS_LABELS: Record<DeliveryStatus, string> = {
+  pending: "待发送",
+  sent: "已发送",
+  failed: "失败",
+  rate_limited: "已限流",
+};
+
+const STATUS_BADGES: Record<DeliveryStatus, string> = {
+  pending: "ui-badge-muted",
+  sent: "ui-badge-success",
+  failed: "ui-badge-error",
+  rate_limited: "ui-badge-warn",
+};
+
+function emptyDraft(): RuleDraft {
+  return {
+    id: null,
+    name: "",
+    enabled: true,
+    targetType: "webhook",
+    minLevel: "warn",
+    sourceChannelIds: [],
+    rateLimitCount: "20",
+    rateLimitWindowSec: "3600",
+    url: "",
+    secret: "",
+    botToken: "",
+    chatId: "",
+    apiBaseUrl: "",
+    host: "",
+    port: "587",
+    security: "starttls",
+    username: "",
+    password: "",
+    from: "",
+    to: "",
+    secretsSet: [],
+  };
+}
+
+function toDraft(rule: NotificationRule): RuleDraft {
+  const t = rule.target;
+  const str = (key: string) => (typeof t[key] === "string" ? (t[key] as string) : "");
+  const security = str("security");
+  return {
+    ...emptyDraft(),
+    id: rule.id,
+    name: rule.name,
+    enabled: rule.enabled,
+    targetType: rule.targetType,
+    minLevel: rule.minLevel,
+    sourceChannelIds: rule.sourceChannelIds,
+    rateLimitCount: String(rule.rateLimitCount),
+    rateLimitWindowSec: String(rule.rateLimitWindowSec),
+    url: str("url"),
+    chatId: str("chatId"),
+    apiBaseUrl: str("apiBaseUrl"),
+    host: str("host"),
+    port: typeof t.port === "number" ? String(t.port) : "587",
+    security: security === "tls" || security === "none" ? security : "starttls",
+    username: str("username"),
+    from: str("from"),
+    to: Array.isArray(t.to) ? (t.to as unknown[]).filter((v) => typeof v === "string").join("\n") : "",
+    secretsSet: rule.secretsSet,
+  };
+}
+
+function buildTarget(draft: RuleDraft): Record<string, unknown> {
+  if (draft.targetType === "webhook") return { url: draft.url.trim(), secret: draft.secret };
+  if (draft.targetType === "telegram_bot") {
+    return { botToken: draft.botToken.trim(), chatId: draft.chatId.trim(), apiBaseUrl: draft.apiBaseUrl.trim() || undefined };
+  }
+  return {
+    host: draft.host.trim(),
+    port: Number.parseInt(draft.port, 10),
+    security: draft.security,
+    username: draft.username.trim(),
+    password: draft.password,
+    from: draft.from.trim(),
+    to: draft.to
+      .split(/[\s,;]+/)
+      .map((v) => v.trim())
+      .filter(Boolean),
+  };
+}
+
+function secretPlaceholder(draft: RuleDraft, field: string, fallback: string): string {
+  return draft.secretsSet.includes(field) ? "已设置（留空则不修改）" : fallback;
+}
+
+function RuleEditor({
+  draft,
+  channels,
+  saving,
+  onChange,
+  onSave,
+  onCancel,
+}: {
+  draft: RuleDraft;
+  channels: ChannelOption[];
+  saving: boolean;
+  onChange: (draft: RuleDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}) {
+  const set = <K extends keyof RuleDraft>(key: K, value: RuleDraft[K]) => onChange({ ...draft, [key]: value });
+  const toggleChannel = (id: string, checked: boolean) =>
+    set("sourceChannelIds", checked ? [...draft.sourceChannelIds, id] : draft.sourceChannelIds.filter((v) => v !== id));
+
+  return (
+    <div className="ui-card space-y-4">
+      <h2 className="ui-section-title">{draft.id ? "编辑通知规则" : "新建通知规则"}</h2>
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <div>
+          <label className="block text-sm font-medium">名称</label>
+          <input value={draft.name} onChange={(e) => set("name", e.target.value)} className="ui-input mt-1" placeholder="例如：错误告警" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium">推送方式</label>
+          <div className="mt-1">
+            <Select
+              value={draft.targetType}
+              onChange={(value) => set("targetType", value as TargetType)}
+              disabled={!!draft.id && draft.secretsSet.length > 0}
+              options={(Object.keys(TARGET_TYPE_LABELS) as TargetType[]).map((value) => ({ value, label: TARGET_TYPE_LABELS[value] }))}
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium">最低级别</label>
+          <div className="mt-1">
+            <Select
+              value={draft.minLevel}
+              onChange={(value) => set("minLevel", value as EventLevel)}
+              options={[
+                { value: "info", label: "info（全部事件）" },
+                { value: "warn", label: "warn 及以上" },
+                { value: "error", label: "仅 error" },
+              ]}
+            />
+          </div>
+        </div>
+      </div>
+
+      {draft.targetType === "webhook" ? (
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium">URL</label>
+            <input value={draft.url} onChange={(e) => set("url", e.target.value)} className="ui-input mt-1" placeholder="http://127.0.0.1:9000/hook" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium">签名密钥（可选）</label>
+            <input
+              type="password"
+              value={draft.secret}
+              onChange={(e) => set("secret", e.target.value)}
+              className="ui-input mt-1"
+              placeholder={secretPlaceholder(draft, "secret", "用于 X-TgBack-Signature")}
+            />
+          </div>
+          <p className="text-xs text-gray-500 dark:text-slate-400 md:col-span-2">
+            以 JSON POST 发送；设置密钥后请求头带 X-TgBack-Timestamp 与 X-TgBack-Signature: sha256=HMAC(secret, &quot;timestamp.body&quot;)。
+          </p>
+        </div>
+      ) : null}
+
+      {draft.targetType === "telegram_bot" ? (
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <div>
+            <label className="block text-sm font-medium">Bot Token</label>
+            <input
+              type="password"
+              value={draft.botToken}
+              onChange={(e) => set("botToken", e.target.value)}
+              className="ui-input mt-1"
+              placeholder={secretPlaceholder(draft, "botToken", "123456:ABC...")}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium">Chat ID</label>
+            <input value={draft.chatId} onChange={(e) => set("chatId", e.target.value)} className="ui-input mt-1" placeholder="-100123456789 或 @admin_chat" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium">Bot API 地址（可选）</label>
+            <input
+              value={draft.apiBaseUrl}
+              onChange={(e) => set("apiBaseUrl", e.target.value)}
+              className="ui-input mt-1"
+              placeholder="https://api.telegram.org"
+            />
+          </div>
+        </div>
+      ) : null}
+
+      {draft.targetType === "email" ? (
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <div>
+            <label className="block text-sm font-medium">SMTP 主机</label>
+            <input value={draft.host} onChange={(e) => set("host", e.target.value)} className="ui-input mt-1" placeholder="smtp.example.com" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium">端口</label>
+            <input value={draft.port} onChange={(e) => set("port", e.target.value.replace(/\D/g, ""))} className="ui-input mt-1" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium">加密</label>
+            <div className="mt-1">
+              <Select
+                value={draft.security}
+                onChange={(value) => set("security", value as RuleDraft["security"])}
+                options={[
+                  { value: "starttls", label: "STARTTLS（587）" },
+                  { value: "tls", label: "TLS（465）" },
+                  { value: "none", label: "不加密（仅内网）" },
+                ]}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium">用户名（可选）</label>
+            <input value={draft.username} onChange={(e) => set("username", e.target.value)} className="ui-input mt-1" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium">密码</label>
+            <input
+              type="password"
+              value={draft.password}
+              onChange={(e) => set("password", e.target.value)}
+              className="ui-input mt-1"
+              placeholder={secretPlaceholder(draft, "password", "")}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium">发件人</label>
+            <input value={draft.from} onChange={(e) => set("from", e.target.value)} className="ui-input mt-1" placeholder="tg-back@example.com" />
+          </div>
+          <div className="md:col-span-3">
+            <label className="block text-sm font-medium">收件人（每行一个）</label>
+            <textarea value={draft.to} onChange={(e) => set("to", e.target.value)} rows={2} className="ui-textarea mt-1" />
+          </div>
+        </div>
+      ) : null}
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium">频率限制</label>
+          <div className="mt-1 flex items-center gap-2 text-sm">
+            <input
+              value={draft.rateLimitWindowSec}
+              onChange={(e) => set("rateLimitWindowSec", e.target.value.replace(/\D/g, ""))}
+              className="ui-input w-28"
+            />
+            <span>秒内最多</span>
+            <input
+              value={draft.rateLimitCount}
+              onChange={(e) => set("rateLimitCount", e.target.value.replace(/\D/g, ""))}
+              className="ui-input w-24"
+            />
+            <span>条（0 = 不限）</span>
+          </div>
+        </div>
+        <div className="flex items-end">
+          <Checkbox label="启用" checked={draft.enabled} onChange={(checked) => set("enabled", checked)} />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium">频道（不选 = 全部频道，包括全局事件）</label>
+        <div className="mt-2 grid max-h-48 grid-cols-1 gap-1 overflow-auto md:grid-cols-3">
+          {channels.map((c) => (
+            <Checkbox
+              key={c.id}
+              label={c.name || c.channelIdentifier}
+              checked={draft.sourceChannelIds.includes(c.id)}
+              onChange={(checked) => toggleChannel(c.id, checked)}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <button type="button" onClick={onSave} disabled={saving} className="ui-btn ui-btn-primary h-10">
+          {saving ? "保存中..." : "保存"}
+        </button>
+        <button type="button" onClick={onCancel} disabled={saving} className="ui-btn ui-btn-secondary h-10">
+          取消
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function NotificationsManager() {
+  const { can } = useAccess();
+  const isAdmin = can("admin");
+  const [rules, setRules] = useState<NotificationRule[]>([]);
+  const [channels, setChannels] = useState<ChannelOption[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [deliveryRuleId, setDeliveryRuleId] = useState("");
+  const [deliveryStatus, setDeliveryStatus] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const loadRules = useCallback(async () => {
+    const res = await fetch("/api/notifications", { cache: "no-store" });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error ?? "加载通知规则失败");
+    setRules((data.rules ?? []) as NotificationRule[]);
+  }, []);
+
+  const loadDeliveries = useCallback(async () => {
+    const params = new URLSearchParams({ limit: "100" });
+    if (deliveryRuleId) params.set("ruleId", deliveryRuleId);
+    if (deliveryStatus) params.set("status", deliveryStatus);
+    const res = await fetch(`/api/notifications/deliveries?${params.toString()}`, { cache: "no-store" });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error ?? "加载投递日志失败");
+    setDeliveries((data.deliveries ?? []) as Delivery[]);
+  }, [deliveryRuleId, deliveryStatus]);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      await Promise.all([loadRules(), loadDeliveries()]);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [loadRules, loadDeliveries]);
+
+  useEffect(() => {
+    let cancelled = false;
+    void (async () => {
+      try {
+        const res = await fetch("/api/channels?mode=options", { cache: "no-store" });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error ?? "Failed to load channels");
+        if (!cancelled) setChannels((data.channels ?? []) as ChannelOption[]);
+      } catch (e: unknown) {
+        if (!cancelled) setError(getErrorMessage(e));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const request = async (url: string, method: string, body: unknown, fallback: string) => {
+    const res = await fetch(url, { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error ?? fallback);
+    return data;
+  };
+
+  const run = async (action: () => Promise<void>, successNotice: string) => {
+    setError("");
+    setNotice("");
+    try {
+      await action();
+      setNotice(successNotice);
+      await refresh();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    }
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    setSaving(true);
+    await run(async () => {
+      const body = {
+        id: draft.id ?? undefined,
+        name: draft.name,
+        enabled: draft.enabled,
+        targetType: draft.targetType,
+        target: buildTarget(draft),
+        minLevel: draft.minLevel,
+        sourceChannelIds: draft.sourceChannelIds,
+        rateLimitCount: Number.parseInt(draft.rateLimitCount || "0", 10),
+        rateLimitWindowSec: Number.parseInt(draft.rateLimitWindowSec || "0", 10),
+      };
+      await request("/api/notifications", draft.id ? "PATCH" : "POST", body, "保存通知规则失败");
+      setDraft(null);
+    }, "通知规则已保存（约 5 秒内生效）");
+    setSaving(false);
+  };
+
+  const channelLabel = (rule: NotificationRule) => {
+    if (!rule.sourceChannelIds.length) return "全部频道";
+    const names = rule.sourceChannelIds.map((id) => {
+      const c = channels.find((ch) => ch.id === id);
+      return c ? c.name || c.channelIdentifier : id.slice(0, 8);
+    });
+    return names.length > 3 ? `${names.slice(0, 3).join("、")} 等 ${names.length} 个频道` : names.join("、");
+  };
+
+  return (
+    <div className="space-y-6">
+      {error ? <div className="ui-alert-error">{error}</div> : null}
+      {notice ? <div className="ui-alert-info">{notice}</div> : null}
+
+      {draft ? (
+        <RuleEditor draft={draft} channels={channels} saving={saving} onChange={setDraft} onSave={save} onCancel={() => setDraft(null)} />
+      ) : null}
+
+      <div className="ui-card">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h2 className="ui-section-title">通知规则</h2>
+            <p className="mt-1 text-sm text-gray-600 dark:text-slate-300">
+              sync_events 命中规则后由 mirror-service 推送；失败自动重试，最多 5 次。
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={() => void refresh()} disabled={loading} className="ui-btn ui-btn-secondary h-10">
+              刷新
+            </button>
+            {isAdmin ? (
+              <button type="button" onClick={() => setDraft(emptyDraft())} className="ui-btn ui-btn-primary h-10">
+                新建规则
+              </button>
+            ) : null}
+          </div>
+        </div>
+
+        <div className="mt-4 divide-y divide-black/5 dark:divide-white/10">
+          {!rules.length ? <div className="py-6 text-sm text-gray-500 dark:text-slate-400">还没有通知规则</div> : null}
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{rule.name}</span>
+                  <span className="ui-badge ui-badge-muted">{TARGET_TYPE_LABELS[rule.targetType]}</span>
+                  <span className="ui-badge ui-badge-muted">≥ {rule.minLevel}</span>
+                  {!rule.enabled ? <span className="ui-badge ui-badge-warn">已停用</span> : null}
+                </div>
+                <div className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+                  {channelLabel(rule)} ·{" "}
+                  {rule.rateLimitCount > 0 && rule.rateLimitWindowSec > 0
+                    ? `${rule.rateLimitWindowSec} 秒内最多 ${rule.rateLimitCount} 条`
+                    : "不限频率"}{" "}
+                  · 24 小时：已发送 {rule.stats24h.sent ?? 0} / 失败 {rule.stats24h.failed ?? 0} / 限流 {rule.stats24h.rate_limited ?? 0}
+                </div>
+              </div>
+              {isAdmin ? (
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      void run(async () => {
+                        await request("/api/notifications/test", "POST", { id: rule.id }, "发送测试通知失败");
+                        setDeliveryRuleId(rule.id);
+                      }, "测试通知已入队，几秒后在下方投递日志查看结果")
+                    }
+                    className="ui-btn ui-btn-secondary h-9"
+                  >
+                    测试
+                  </button>
+                  <button type="button" onClick={() => setDraft(toDraft(rule))} className="ui-btn ui-btn-secondary h-9">
+                    编辑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      void run(
+                        () => request("/api/notifications", "PATCH", { id: rule.id, enabled: !rule.enabled }, "更新通知规则失败"),
+                        rule.enabled ? "已停用" : "已启用",
+                      )
+                    }
+                    className="ui-btn ui-btn-secondary h-9"
+                  >
+                    {rule.enabled ? "停用" : "启用"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (!window.confirm(`删除通知规则「${rule.name}」？投递日志会一并删除。`)) return;
+                      void run(() => request("/api/notifications", "DELETE", { id: rule.id }, "删除通知规则失败"), "已删除");
+                    }}
+                    className="ui-btn ui-btn-secondary h-9"
+                  >
+                    删除
+                  </button>
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="ui-card">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="ui-section-title">投递日志</h2>
+          <div className="flex flex-wrap gap-2">
+            <div className="w-48">
+              <Select
+                value={deliveryRuleId}
+                onChange={setDeliveryRuleId}
+                options={[{ value: "", label: "全部规则" }, ...rules.map((r) => ({ value: r.id, label: r.name }))]}
+              />
+            </div>
+            <div className="w-36">
+              <Select
+                value={deliveryStatus}
+                onChange={setDeliveryStatus}
+                options={[
+                  { value: "", label: "全部状态" },
+                  ...(Object.keys(STATUS_LABELS) as DeliveryStatus[]).map((value) => ({ value, label: STATUS_LABELS[value] })),
+                ]}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-slate-400">
+                <th className="py-2 pr-3">时间</th>
+                <th className="py-2 pr-3">规则</th>
+                <th className="py-2 pr-3">事件</th>
+                <th className="py-2 pr-3">状态</th>
+                <th className="py-2 pr-3">详情</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {!deliveries.length ? (
+                <tr>
+                  <td colSpan={6} className="py-6 text-gray-500 dark:text-slate-400">
+                    暂无投递记录
+                  </td>
+                </tr>
+              ) : null}
+              {deliveries.map((d) => (
+                <tr key={d.id} className="border-t border-black/5 align-top dark:border-white/10">
+                  <td className="whitespace-nowrap py-2 pr-3">{formatTime(d.createdAt)}</td>
+                  <td className="py-2 pr-3">{d.ruleName}</td>
+                  <td className="max-w-md py-2 pr-3">
+                    {d.event ? (
+                      <span className="line-clamp-2" title={d.event.message}>
+                        {d.event.test ? "[测试] " : `[${d.event.level}] `}
+                        {d.event.sourceChannelName ? `${d.event.sourceChannelName}: ` : ""}
+                        {d.event.message}
+                      </span>
+                    ) : (
+                      "-"
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap py-2 pr-3">
+                    <span className={clsx("ui-badge", STATUS_BADGES[d.status])}>{STATUS_LABELS[d.status]}</span>
+                  </td>
+                  <td className="py-2 pr-3 text-xs text-gray-500 dark:text-slate-400">
+                    {d.attempts ? `尝试 ${d.attempts} 次` : ""}
+                    {d.responseStatus ? ` · HTTP ${d.responseStatus}` : ""}
+                    {d.status === "pending" && d.attempts ? ` · 下次 ${formatTime(d.nextAttemptAt)}` : ""}
+                    {d.sentAt ? ` · 发送于 ${formatTime(d.sentAt)}` : ""}
+                    {d.lastError ? <div className="mt-1 break-all text-red-600 dark:text-red-300">{d.lastError}</div> : null}
+                  </td>
+                  <td className="py-2 text-right">
+                    {isAdmin && (d.status === "failed" || d.status === "rate_limited") ? (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          void run(
+                            () => request("/api/notifications/deliveries", "POST", { id: d.id }, "重试投递失败"),
+                            "已重新放入队列",
+                          )
+                        }
+                        className="ui-btn ui-btn-secondary h-8"
+                      >
+                        重试
+                      </button>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
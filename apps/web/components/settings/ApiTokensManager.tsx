@@ -0,0 +1,277 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Select } from "@/components/ui/Select";
+import { API_TOKEN_SCOPES, apiTokenScopeLabels, isApiTokenScopeWithin, type ApiTokenScope } from "@/lib/permissions";
+import { formatTime, getErrorMessage } from "@/lib/utils";
+
+type ApiToken = {
+  id: string;
+  name: string;
+  scope: ApiTokenScope;
+  tokenPrefix: string;
+  ownerUserId: string | null;
+  ownerUsername: string | null;
+  rateLimitPerMinute: number;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+type TokenDraft = {
+  name: string;
+  scope: ApiTokenScope;
+  expiresInDays: string;
+  rateLimitPerMinute: string;
+};
+
+const SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  read: "调用查询接口（频道、消息、任务、事件等），不能导出",
+  export: "另外可以调用 /api/export/* 导出接口",
+  operate: "另外可以添加 / 修改频道、排队和重试任务（不包括管理员操作）",
+};
+
+const EXPIRY_OPTIONS = [
+  { value: "7", label: "7 天" },
+  { value: "30", label: "30 天" },
+  { value: "90", label: "90 天" },
+  { value: "365", label: "1 年" },
+  { value: "0", label: "永不过期" },
+];
+
+const EMPTY_DRAFT: TokenDraft = { name: "", scope: "read", expiresInDays: "90", rateLimitPerMinute: "60" };
+
+function getTokenStatus(token: ApiToken): { label: string; badge: string } | null {
+  if (token.revokedAt) return { label: "已撤销", badge: "ui-badge-warn" };
+  if (token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now()) return { label: "已过期", badge: "ui-badge-warn" };
+  return null;
+}
+
+export function ApiTokensManager() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [maxScope, setMaxScope] = useState<ApiTokenScope>("read");
+  const [draft, setDraft] = useState<TokenDraft | null>(null);
+  const [created, setCreated] = useState<{ name: string; plaintext: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch("/api/tokens", { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "加载 API token 失败");
+      setTokens((data.tokens ?? []) as ApiToken[]);
+      if (typeof data.maxScope === "string") setMaxScope(data.maxScope as ApiTokenScope);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const create = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError("");
+    setNotice("");
+    try {
+      const expiresInDays = Number.parseInt(draft.expiresInDays, 10);
+      const res = await fetch("/api/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: draft.name,
+          scope: draft.scope,
+          expiresInDays: expiresInDays > 0 ? expiresInDays : null,
+          rateLimitPerMinute: Number.parseInt(draft.rateLimitPerMinute, 10),
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "创建 API token 失败");
+      setCreated({ name: draft.name, plaintext: String(data.plaintext ?? "") });
+      setDraft(null);
+      await refresh();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const revoke = async (token: ApiToken) => {
+    if (!window.confirm(`撤销 token「${token.name}」？使用它的脚本会立即失效。`)) return;
+    setError("");
+    setNotice("");
+    try {
+      const res = await fetch("/api/tokens", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: token.id }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "撤销 API token 失败");
+      setNotice("已撤销");
+      await refresh();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    }
+  };
+
+  const copyPlaintext = async () => {
+    if (!created) return;
+    try {
+      await navigator.clipboard.writeText(created.plaintext);
+      setNotice("已复制到剪贴板");
+    } catch {
+      window.prompt("复制下面的 token（手动复制）：", created.plaintext);
+    }
+  };
+
+  const scopeOptions = API_TOKEN_SCOPES.filter((scope) => isApiTokenScopeWithin(scope, maxScope)).map((value) => ({
+    value,
+    label: apiTokenScopeLabels[value],
+  }));
+
+  return (
+    <div className="space-y-6">
+      {error ? <div className="ui-alert-error">{error}</div> : null}
+      {notice ? <div className="ui-alert-info">{notice}</div> : null}
+
+      {created ? (
+        <div className="ui-card space-y-3">
+          <h2 className="ui-section-title">已创建「{created.name}」</h2>
+          <p className="text-sm text-gray-600 dark:text-slate-300">这是唯一一次显示完整 token，请立即保存；之后只能看到前几位。</p>
+          <div className="break-all rounded-md border border-black/10 bg-black/5 p-3 font-mono text-sm dark:border-white/10 dark:bg-white/5">
+            {created.plaintext}
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={() => void copyPlaintext()} className="ui-btn ui-btn-primary h-10">
+              复制
+            </button>
+            <button type="button" onClick={() => setCreated(null)} className="ui-btn ui-btn-secondary h-10">
+              我已保存
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {draft ? (
+        <div className="ui-card space-y-4">
+          <h2 className="ui-section-title">新建 API token</h2>
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+            <div>
+              <label className="block text-sm font-medium">名称</label>
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="例如：nightly-export"
+                autoComplete="off"
+                className="ui-input mt-1"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium">权限范围</label>
+              <div className="mt-1">
+                <Select
+                  value={draft.scope}
+                  onChange={(value) => setDraft({ ...draft, scope: value as ApiTokenScope })}
+                  options={scopeOptions}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">有效期</label>
+              <div className="mt-1">
+                <Select
+                  value={draft.expiresInDays}
+                  onChange={(value) => setDraft({ ...draft, expiresInDays: value })}
+                  options={EXPIRY_OPTIONS}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">每分钟最多请求</label>
+              <input
+                type="number"
+                min={1}
+                max={1000}
+                value={draft.rateLimitPerMinute}
+                onChange={(e) => setDraft({ ...draft, rateLimitPerMinute: e.target.value })}
+                className="ui-input mt-1"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-slate-400">{SCOPE_DESCRIPTIONS[draft.scope]}</p>
+          <div className="flex gap-2">
+            <button type="button" onClick={() => void create()} disabled={saving} className="ui-btn ui-btn-primary h-10">
+              {saving ? "创建中..." : "创建"}
+            </button>
+            <button type="button" onClick={() => setDraft(null)} disabled={saving} className="ui-btn ui-btn-secondary h-10">
+              取消
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="ui-card">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h2 className="ui-section-title">API Token</h2>
+            <p className="mt-1 text-sm text-gray-600 dark:text-slate-300">
+              脚本调用接口时带上 <code className="font-mono">Authorization: Bearer &lt;token&gt;</code>
+              ，无需模拟浏览器登录。token 的权限不会超过创建者当前的角色，创建者被停用后一并失效。
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={() => void refresh()} disabled={loading} className="ui-btn ui-btn-secondary h-10">
+              刷新
+            </button>
+            <button type="button" onClick={() => setDraft({ ...EMPTY_DRAFT })} className="ui-btn ui-btn-primary h-10">
+              新建 token
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-4 divide-y divide-black/5 dark:divide-white/10">
+          {!tokens.length && !loading ? <div className="py-6 text-sm text-gray-500 dark:text-slate-400">还没有 API token</div> : null}
+          {tokens.map((token) => {
+            const status = getTokenStatus(token);
+            return (
+              <div key={token.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{token.name}</span>
+                    <span className="font-mono text-xs text-gray-500 dark:text-slate-400">{token.tokenPrefix}…</span>
+                    <span className="ui-badge ui-badge-muted">{apiTokenScopeLabels[token.scope]}</span>
+                    {status ? <span className={`ui-badge ${status.badge}`}>{status.label}</span> : null}
+                  </div>
+                  <div className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+                    {token.ownerUsername ?? "共享（启用多用户后只读）"} · 创建于 {formatTime(token.createdAt)} · 过期{" "}
+                    {token.expiresAt ? formatTime(token.expiresAt) : "永不"} · {token.rateLimitPerMinute} 次/分钟 · 最近使用{" "}
+                    {token.lastUsedAt ? formatTime(token.lastUsedAt) : "从未"}
+                    {token.lastUsedIp ? `（${token.lastUsedIp}）` : ""}
+                  </div>
+                </div>
+                {!token.revokedAt ? (
+                  <button type="button" onClick={() => void revoke(token)} className="ui-btn ui-btn-secondary h-9">
+                    撤销
+                  </button>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,452 @@
+"use client";
+
+import { useState } from "react";
+import { Checkbox } from "@/components/ui/Checkbox";
+import { Select } from "@/components/ui/Select";
+import { getErrorMessage } from "@/lib/utils";
+
+// 与 @tg-back/db 的 message-filter 保持一致（客户端组件不直接依赖 db 包）
+export type MessageFilterCondition =
+  | { type: "keyword"; values: string[]; negate?: boolean }
+  | { type: "regex"; pattern: string; flags?: string; negate?: boolean }
+  | { type: "link_domain"; domains: string[]; negate?: boolean }
+  | { type: "hashtag"; tags: string[]; negate?: boolean }
+  | { type: "message_type"; types: string[]; negate?: boolean }
+  | { type: "has_media"; value: boolean }
+  | { type: "forwarded"; sources: string[]; negate?: boolean }
+  | { type: "text_length"; min?: number | null; max?: number | null; negate?: boolean };
+
+type ConditionType = MessageFilterCondition["type"];
+
+export type MessageFilterRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: "all" | "any";
+  conditions: MessageFilterCondition[];
+};
+
+type PreviewItem = {
+  id: string;
+  channelName: string;
+  sourceMessageId: number;
+  messageType: string;
+  textPreview: string | null;
+  status: string;
+  sentAt: string;
+  reason: string;
+};
+
+type PreviewResult = { scanned: number; matched: number; items: PreviewItem[] };
+
+const CONDITION_TYPE_OPTIONS: Array<{ value: ConditionType; label: string }> = [
+  { value: "keyword", label: "关键词" },
+  { value: "regex", label: "正则" },
+  { value: "link_domain", label: "链接域名" },
+  { value: "hashtag", label: "话题标签" },
+  { value: "message_type", label: "消息类型" },
+  { value: "has_media", label: "是否含媒体" },
+  { value: "forwarded", label: "转发来源" },
+  { value: "text_length", label: "文本长度" },
+];
+
+const LIST_PLACEHOLDERS: Partial<Record<ConditionType, string>> = {
+  keyword: "广告, 加群, VX",
+  link_domain: "bit.ly, t.me（留空=任意链接）",
+  hashtag: "#推广, #promo（留空=任意话题）",
+  message_type: "text, photo, video, document, audio, voice, animation, sticker, other",
+  forwarded: "@channel 或 频道 id（留空=任意转发）",
+};
+
+const buttonClassName =
+  "inline-flex h-9 items-center justify-center rounded-md border border-black/10 bg-white px-3 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10";
+
+/**
+ * 服务端返回的规则已经过校验，这里只做最基本的形状检查。
+ */
+export function toMessageFilterRules(value: unknown): MessageFilterRule[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (r): r is MessageFilterRule =>
+      !!r && typeof r === "object" && typeof (r as MessageFilterRule).id === "string" && Array.isArray((r as MessageFilterRule).conditions),
+  );
+}
+
+function splitList(raw: string): string[] {
+  return raw
+    .split(/[\n,，]+/)
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function createCondition(type: ConditionType): MessageFilterCondition {
+  switch (type) {
+    case "keyword":
+      return { type, values: [] };
+    case "regex":
+      return { type, pattern: "", flags: "i" };
+    case "link_domain":
+      return { type, domains: [] };
+    case "hashtag":
+      return { type, tags: [] };
+    case "message_type":
+      return { type, types: [] };
+    case "has_media":
+      return { type, value: true };
+    case "forwarded":
+      return { type, sources: [] };
+    case "text_length":
+      return { type, min: null, max: null };
+  }
+}
+
+function createRule(): MessageFilterRule {
+  return {
+    id: `rule-${Date.now().toString(36)}`,
+    name: "",
+    enabled: true,
+    match: "all",
+    conditions: [createCondition("keyword")],
+  };
+}
+
+function getListValues(condition: MessageFilterCondition): string[] | null {
+  switch (condition.type) {
+    case "keyword":
+      return condition.values;
+    case "link_domain":
+      return condition.domains;
+    case "hashtag":
+      return condition.tags;
+    case "message_type":
+      return condition.types;
+    case "forwarded":
+      return condition.sources;
+    default:
+      return null;
+  }
+}
+
+function setListValues(condition: MessageFilterCondition, values: string[]): MessageFilterCondition {
+  switch (condition.type) {
+    case "keyword":
+      return { ...condition, values };
+    case "link_domain":
+      return { ...condition, domains: values };
+    case "hashtag":
+      return { ...condition, tags: values };
+    case "message_type":
+      return { ...condition, types: values };
+    case "forwarded":
+      return { ...condition, sources: values };
+    default:
+      return condition;
+  }
+}
+
+function toOptionalInt(raw: string): number | null {
+  const n = Number.parseInt(raw, 10);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+/**
+ * 列表输入：保留用户正在输入的原文（比如末尾的逗号），只把解析结果回传。
+ */
+function ListInput({
+  values,
+  placeholder,
+  disabled,
+  onChange,
+}: {
+  values: string[];
+  placeholder?: string;
+  disabled?: boolean;
+  onChange: (values: string[]) => void;
+}) {
+  const [draft, setDraft] = useState(() => values.join(", "));
+  const [syncedValues, setSyncedValues] = useState(values);
+
+  // 外部改动（比如重新加载）时同步草稿；自己输入引起的变化保持原文不动
+  if (syncedValues !== values) {
+    setSyncedValues(values);
+    if (splitList(draft).join("\n") !== values.join("\n")) setDraft(values.join(", "));
+  }
+
+  return (
+    <input
+      value={draft}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        onChange(splitList(e.target.value));
+      }}
+      disabled={disabled}
+      placeholder={placeholder}
+      className="ui-input"
+    />
+  );
+}
+
+function ConditionEditor({
+  condition,
+  disabled,
+  onChange,
+  onRemove,
+}: {
+  condition: MessageFilterCondition;
+  disabled?: boolean;
+  onChange: (next: MessageFilterCondition) => void;
+  onRemove: () => void;
+}) {
+  const listValues = getListValues(condition);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="w-36">
+        <Select
+          value={condition.type}
+          onChange={(next) => onChange(createCondition(next as ConditionType))}
+          disabled={disabled}
+          options={CONDITION_TYPE_OPTIONS}
+        />
+      </div>
+
+      <div className="min-w-[240px] flex-1">
+        {listValues ? (
+          <ListInput
+            values={listValues}
+            placeholder={LIST_PLACEHOLDERS[condition.type]}
+            disabled={disabled}
+            onChange={(values) => onChange(setListValues(condition, values))}
+          />
+        ) : condition.type === "regex" ? (
+          <div className="flex gap-2">
+            <input
+              value={condition.pattern}
+              onChange={(e) => onChange({ ...condition, pattern: e.target.value })}
+              disabled={disabled}
+              placeholder="^\s*(广告|推广)"
+              className="ui-input font-mono"
+            />
+            <input
+              value={condition.flags ?? ""}
+              onChange={(e) => onChange({ ...condition, flags: e.target.value.replace(/[^imsu]/g, "") })}
+              disabled={disabled}
+              placeholder="flags"
+              title="支持 i / m / s / u"
+              className="ui-input w-20 font-mono"
+            />
+          </div>
+        ) : condition.type === "has_media" ? (
+          <Select
+            value={condition.value ? "true" : "false"}
+            onChange={(next) => onChange({ ...condition, value: next === "true" })}
+            disabled={disabled}
+            options={[
+              { value: "true", label: "含媒体" },
+              { value: "false", label: "纯文本" },
+            ]}
+          />
+        ) : condition.type === "text_length" ? (
+          <div className="flex items-center gap-2">
+            <input
+              inputMode="numeric"
+              value={condition.min ?? ""}
+              onChange={(e) => onChange({ ...condition, min: toOptionalInt(e.target.value) })}
+              disabled={disabled}
+              placeholder="最少字数"
+              className="ui-input"
+            />
+            <span className="text-black/40 dark:text-slate-500">~</span>
+            <input
+              inputMode="numeric"
+              value={condition.max ?? ""}
+              onChange={(e) => onChange({ ...condition, max: toOptionalInt(e.target.value) })}
+              disabled={disabled}
+              placeholder="最多字数"
+              className="ui-input"
+            />
+          </div>
+        ) : null}
+      </div>
+
+      {condition.type !== "has_media" ? (
+        <Checkbox
+          label="取反"
+          checked={"negate" in condition && condition.negate === true}
+          onChange={(checked) => onChange({ ...condition, negate: checked } as MessageFilterCondition)}
+          disabled={disabled}
+        />
+      ) : null}
+
+      <button type="button" onClick={onRemove} disabled={disabled} className={buttonClassName}>
+        删除条件
+      </button>
+    </div>
+  );
+}
+
+/**
+ * 过滤规则编辑器：规则之间是 OR，规则内按“全部/任一”组合条件；可用草稿规则测试最近 N 条消息。
+ */
+export function MessageFilterRulesEditor({
+  rules,
+  onChange,
+  disabled = false,
+  sourceChannelId,
+}: {
+  rules: MessageFilterRule[];
+  onChange: (rules: MessageFilterRule[]) => void;
+  disabled?: boolean;
+  // 预览时只扫描该频道的消息；不传则扫描所有频道
+  sourceChannelId?: string;
+}) {
+  const [previewLimit, setPreviewLimit] = useState("200");
+  const [previewing, setPreviewing] = useState(false);
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+  const [previewError, setPreviewError] = useState("");
+
+  const updateRule = (index: number, patch: Partial<MessageFilterRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const updateCondition = (ruleIndex: number, conditionIndex: number, next: MessageFilterCondition | null) => {
+    const rule = rules[ruleIndex];
+    if (!rule) return;
+    const conditions =
+      next == null
+        ? rule.conditions.filter((_, i) => i !== conditionIndex)
+        : rule.conditions.map((c, i) => (i === conditionIndex ? next : c));
+    updateRule(ruleIndex, { conditions });
+  };
+
+  const runPreview = async () => {
+    setPreviewing(true);
+    setPreviewError("");
+    try {
+      const res = await fetch("/api/messages/filter-preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rules, sourceChannelId, limit: Number.parseInt(previewLimit, 10) || 200 }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "预览失败");
+      setPreview(data as PreviewResult);
+    } catch (e: unknown) {
+      setPreview(null);
+      setPreviewError(getErrorMessage(e));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.length ? (
+        rules.map((rule, ruleIndex) => (
+          <div key={rule.id} className="rounded-md border border-black/10 p-3 dark:border-white/10">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={rule.name}
+                onChange={(e) => updateRule(ruleIndex, { name: e.target.value })}
+                disabled={disabled}
+                placeholder={`规则名称（默认 ${rule.id}）`}
+                className="ui-input max-w-xs"
+              />
+              <div className="w-44">
+                <Select
+                  value={rule.match}
+                  onChange={(next) => updateRule(ruleIndex, { match: next === "any" ? "any" : "all" })}
+                  disabled={disabled}
+                  options={[
+                    { value: "all", label: "满足全部条件" },
+                    { value: "any", label: "满足任一条件" },
+                  ]}
+                />
+              </div>
+              <Checkbox
+                label="启用"
+                checked={rule.enabled}
+                onChange={(checked) => updateRule(ruleIndex, { enabled: checked })}
+                disabled={disabled}
+              />
+              <button
+                type="button"
+                onClick={() => onChange(rules.filter((_, i) => i !== ruleIndex))}
+                disabled={disabled}
+                className={`${buttonClassName} ml-auto`}
+              >
+                删除规则
+              </button>
+            </div>
+
+            <div className="mt-3 space-y-2">
+              {rule.conditions.map((condition, conditionIndex) => (
+                <ConditionEditor
+                  key={conditionIndex}
+                  condition={condition}
+                  disabled={disabled}
+                  onChange={(next) => updateCondition(ruleIndex, conditionIndex, next)}
+                  onRemove={() => updateCondition(ruleIndex, conditionIndex, null)}
+                />
+              ))}
+              <button
+                type="button"
+                onClick={() => updateRule(ruleIndex, { conditions: [...rule.conditions, createCondition("keyword")] })}
+                disabled={disabled || rule.conditions.length >= 20}
+                className={buttonClassName}
+              >
+                添加条件
+              </button>
+            </div>
+          </div>
+        ))
+      ) : (
+        <div className="text-xs text-black/50 dark:text-slate-400">暂无规则。</div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => onChange([...rules, createRule()])}
+          disabled={disabled || rules.length >= 100}
+          className={buttonClassName}
+        >
+          添加规则
+        </button>
+        <span className="ml-auto text-xs text-black/60 dark:text-slate-400">测试最近</span>
+        <input
+          inputMode="numeric"
+          value={previewLimit}
+          onChange={(e) => setPreviewLimit(e.target.value.replace(/\D/g, ""))}
+          className="ui-input w-20"
+        />
+        <span className="text-xs text-black/60 dark:text-slate-400">条消息</span>
+        <button type="button" onClick={runPreview} disabled={disabled || previewing} className={buttonClassName}>
+          {previewing ? "测试中..." : "测试规则"}
+        </button>
+      </div>
+
+      {previewError ? <div className="text-xs text-red-600 dark:text-red-300">{previewError}</div> : null}
+      {preview ? (
+        <div className="rounded-md border border-black/10 p-3 text-xs dark:border-white/10">
+          <div className="text-black/60 dark:text-slate-400">
+            扫描 {preview.scanned} 条，命中 {preview.matched} 条（预览不包含转发来源条件）
+          </div>
+          {preview.items.length ? (
+            <div className="mt-2 max-h-72 space-y-1 overflow-auto">
+              {preview.items.slice(0, 100).map((item) => (
+                <div key={item.id} className="flex flex-wrap gap-x-2 border-t border-black/5 pt-1 dark:border-white/5">
+                  <span className="text-black/50 dark:text-slate-400">
+                    {new Date(item.sentAt).toLocaleString()} · {item.channelName} #{item.sourceMessageId} · {item.messageType}
+                  </span>
+                  <span className="min-w-0 flex-1 truncate">{item.textPreview ?? "（无文本）"}</span>
+                  <span className="text-amber-700 dark:text-amber-300">{item.reason}</span>
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -2,6 +2,9 @@
 
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
+import { useAccess } from "@/components/auth/AccessGuard";
+import { MessageFilterRulesEditor, toMessageFilterRules, type MessageFilterRule } from "@/components/settings/MessageFilterRulesEditor";
+import { TelegramProxySettings } from "@/components/settings/TelegramProxySettings";
 import { Checkbox } from "@/components/ui/Checkbox";
 import { Select } from "@/components/ui/Select";
 import { getErrorMessage } from "@/lib/utils";
@@ -30,9 +33,11 @@ type Settings = {
   skip_protected_content: boolean;
   group_media_messages: boolean;
   media_group_buffer_ms: number;
+  media_archive_enabled: boolean;
 
   message_filter_enabled: boolean;
   message_filter_keywords: string;
+  message_filter_rules: MessageFilterRule[];
 };
 
 const DEFAULTS: Settings = {
@@ -53,8 +58,10 @@ const DEFAULTS: Settings = {
   skip_protected_content: true,
   group_media_messages: true,
   media_group_buffer_ms: 1500,
+  media_archive_enabled: false,
   message_filter_enabled: false,
   message_filter_keywords: "",
+  message_filter_rules: [],
 };
 
 function toBool(value: unknown, fallback: boolean): boolean {
@@ -100,8 +107,10 @@ function parseSettings(value: unknown): Settings {
       10_000,
       Math.max(200, Math.floor(toNum(obj.media_group_buffer_ms, DEFAULTS.media_group_buffer_ms))),
     ),
+    media_archive_enabled: toBool(obj.media_archive_enabled, DEFAULTS.media_archive_enabled),
     message_filter_enabled: toBool(obj.message_filter_enabled, DEFAULTS.message_filter_enabled),
     message_filter_keywords: toStr(obj.message_filter_keywords, DEFAULTS.message_filter_keywords),
+    message_filter_rules: toMessageFilterRules(obj.message_filter_rules),
   };
 }
 
@@ -176,7 +185,7 @@ export function SettingsManager() {
       const data = await res.json();
       if (!res.ok) throw new Error(data.error ?? "Logout failed");
       await refresh();
-      setNotice("已清除 Telegram session（需要重新登录）");
+      setNotice("已清除全部 Telegram 账号的 session（需要重新登录）");
     } catch (e: unknown) {
       setError(getErrorMessage(e));
     } finally {
@@ -184,6 +193,9 @@ export function SettingsManager() {
     }
   };
 
+  const { can, mode: accessMode } = useAccess();
+  const isAdmin = can("admin");
+
   const saveDisabled = useMemo(() => loading || saving || presetsImporting, [loading, saving, presetsImporting]);
   const canUpdateAccessPassword = useMemo(() => !!accessPasswordDraft.trim() && !saveDisabled, [accessPasswordDraft, saveDisabled]);
 
@@ -316,24 +328,30 @@ export function SettingsManager() {
             href="/"
             className="ui-btn ui-btn-secondary h-10"
           >
-            去首页登录
+            去首页管理账号
           </Link>
-          <button
-            type="button"
-            onClick={logoutTelegram}
-            disabled={saveDisabled || !telegramSessionSet}
-            className="ui-btn ui-btn-secondary h-10"
-          >
-            清除 session
-          </button>
+          {isAdmin ? (
+            <button
+              type="button"
+              onClick={logoutTelegram}
+              disabled={saveDisabled || !telegramSessionSet}
+              className="ui-btn ui-btn-secondary h-10"
+            >
+              清除全部账号 session
+            </button>
+          ) : null}
         </div>
       </div>
 
+      {isAdmin ? <TelegramProxySettings /> : null}
+
       <div className="ui-card">
         <div className="flex flex-wrap items-start justify-between gap-3">
           <div>
             <h2 className="ui-section-title">同步策略</h2>
-            <p className="mt-1 text-sm text-gray-600 dark:text-slate-300">部分配置会影响新建频道的默认行为。</p>
+            <p className="mt-1 text-sm text-gray-600 dark:text-slate-300">
+              部分配置会影响新建频道的默认行为。{isAdmin ? "" : "只有管理员可以修改。"}
+            </p>
           </div>
           <div className="flex gap-2">
             <button
@@ -344,14 +362,16 @@ export function SettingsManager() {
             >
               刷新
             </button>
-            <button
-              type="button"
-              onClick={save}
-              disabled={saveDisabled}
-              className="ui-btn ui-btn-primary h-10"
-            >
-              {saving ? "保存中..." : "保存"}
-            </button>
+            {isAdmin ? (
+              <button
+                type="button"
+                onClick={save}
+                disabled={saveDisabled}
+                className="ui-btn ui-btn-primary h-10"
+              >
+                {saving ? "保存中..." : "保存"}
+              </button>
+            ) : null}
           </div>
         </div>
 
@@ -424,6 +444,14 @@ export function SettingsManager() {
               <div className="flex items-end">
                 <Checkbox label="同步视频" checked={settings.mirror_videos} onChange={(checked) => update("mirror_videos", checked)} />
               </div>
+              <div className="md:col-span-2">
+                <Checkbox
+                  label="归档媒体到本地"
+                  description="mirror-service 会把源消息中的图片/视频/文件下载到 TG_BACK_MEDIA_ARCHIVE_DIR（默认 ./data/media，按 sha256 去重），镜像频道被封也不会丢失媒体；同样遵守上面的大小限制与“同步视频”开关。"
+                  checked={settings.media_archive_enabled}
+                  onChange={(checked) => update("media_archive_enabled", checked)}
+                />
+              </div>
             </div>
           </div>
 
@@ -511,8 +539,10 @@ export function SettingsManager() {
           </div>
 
           <div>
-            <h3 className="text-sm font-semibold">编辑/删除（仅记录到数据库）</h3>
-            <p className="mt-1 text-xs text-black/50 dark:text-slate-400">开启后会记录源消息的编辑/撤回标记用于 Web 展示，不会修改镜像频道的备份消息。</p>
+            <h3 className="text-sm font-semibold">编辑/删除</h3>
+            <p className="mt-1 text-xs text-black/50 dark:text-slate-400">
+              开启后会记录源消息的编辑/撤回标记用于 Web 展示。编辑默认只记录，可在频道详情的“编辑同步”里改为原地修改镜像消息或在评论区追加编辑说明；删除默认只记录，可在频道详情的“删除同步”里改为标记或删除镜像消息。
+            </p>
             <div className="mt-3 flex flex-col gap-2 text-sm">
               <Checkbox
                 label="同步编辑"
@@ -535,7 +565,7 @@ export function SettingsManager() {
           <div>
             <h3 className="text-sm font-semibold">广告/垃圾消息过滤（可选）</h3>
             <p className="mt-1 text-xs text-black/50 dark:text-slate-400">
-              命中关键词的消息会被“跳过”，不会发送到镜像频道；在 Messages 里会显示为 skipped（filtered）。
+              命中关键词或任意一条规则的消息会被“跳过”，不会发送到镜像频道；在 Messages 里会显示为 skipped（filtered）以及命中的规则。
             </p>
             <p className="mt-1 text-xs text-black/50 dark:text-slate-400">
               提示：如果你只想对某个频道生效/或想对某个频道单独配置，请去该频道的详情页设置“广告过滤（该频道）”。
@@ -559,46 +589,81 @@ export function SettingsManager() {
                 />
                 <div className="mt-2 text-xs text-black/50 dark:text-slate-400">留空=不过滤；建议先放少量关键词，观察效果后再加。</div>
               </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium">过滤规则</label>
+                <div className="mt-1 text-xs text-black/50 dark:text-slate-400">
+                  支持正则、链接域名、话题标签、消息类型、是否含媒体、转发来源、文本长度；条件可取反。保存前可以先“测试规则”看看会命中哪些已入库的消息。
+                </div>
+                <div className="mt-2">
+                  <MessageFilterRulesEditor
+                    rules={settings.message_filter_rules}
+                    onChange={(rules) => update("message_filter_rules", rules)}
+                    disabled={saveDisabled}
+                  />
+                </div>
+              </div>
             </div>
           </div>
 
-          <div>
-            <h3 className="text-sm font-semibold">访问控制</h3>
-            <div className="mt-3">
-              <div className="text-sm text-black/70 dark:text-slate-300">
-                状态：{accessPasswordSet == null ? "-" : accessPasswordSet ? "已启用" : "未启用"}
+          {isAdmin ? (
+            <div>
+              <h3 className="text-sm font-semibold">访问控制</h3>
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-black/70 dark:text-slate-300">
+                <span>
+                  {accessMode === "users"
+                    ? "已启用多用户登录（按角色控制权限），下面的访问密码不再生效。"
+                    : "可以改用多用户登录：创建第一个管理员后，访问密码自动停用。"}
+                </span>
+                <Link href="/settings/users" className="ui-btn ui-btn-secondary h-9 px-3 text-sm">
+                  用户管理
+                </Link>
               </div>
-              <div className="mt-3 grid grid-cols-1 gap-3 md:grid-cols-2">
-                <div>
-                  <label className="block text-sm font-medium">设置/更新访问密码</label>
-                  <input
-                    type="password"
-                    value={accessPasswordDraft}
-                    onChange={(e) => setAccessPasswordDraft(e.target.value)}
-                    placeholder="留空表示不修改"
-                    className="ui-input mt-1"
-                  />
+              <div className="mt-3">
+                <div className="text-sm text-black/70 dark:text-slate-300">
+                  状态：{accessPasswordSet == null ? "-" : accessPasswordSet ? "已启用" : "未启用"}
                 </div>
-                <div className="flex items-end gap-2">
-                  <button
-                    type="button"
-                    onClick={updateAccessPassword}
-                    disabled={!canUpdateAccessPassword}
-                    className="ui-btn ui-btn-secondary h-10 px-4 text-sm"
-                  >
-                    更新密码
-                  </button>
-                  <button
-                    type="button"
-                    onClick={disableAccessPassword}
-                    disabled={saveDisabled || !accessPasswordSet}
-                    className="inline-flex h-10 items-center justify-center rounded-md border border-red-200 bg-red-50 px-4 text-sm text-red-700 hover:bg-red-100 disabled:opacity-50 dark:border-red-500/30 dark:bg-red-500/10 dark:text-red-200 dark:hover:bg-red-500/15"
-                  >
-                    禁用
-                  </button>
+                <div className="mt-3 grid grid-cols-1 gap-3 md:grid-cols-2">
+                  <div>
+                    <label className="block text-sm font-medium">设置/更新访问密码</label>
+                    <input
+                      type="password"
+                      value={accessPasswordDraft}
+                      onChange={(e) => setAccessPasswordDraft(e.target.value)}
+                      placeholder="留空表示不修改"
+                      className="ui-input mt-1"
+                    />
+                  </div>
+                  <div className="flex items-end gap-2">
+                    <button
+                      type="button"
+                      onClick={updateAccessPassword}
+                      disabled={!canUpdateAccessPassword}
+                      className="ui-btn ui-btn-secondary h-10 px-4 text-sm"
+                    >
+                      更新密码
+                    </button>
+                    <button
+                      type="button"
+                      onClick={disableAccessPassword}
+                      disabled={saveDisabled || !accessPasswordSet}
+                      className="inline-flex h-10 items-center justify-center rounded-md border border-red-200 bg-red-50 px-4 text-sm text-red-700 hover:bg-red-100 disabled:opacity-50 dark:border-red-500/30 dark:bg-red-500/10 dark:text-red-200 dark:hover:bg-red-500/15"
+                    >
+                      禁用
+                    </button>
+                  </div>
                 </div>
+                <div className="mt-2 text-xs text-black/50 dark:text-slate-400">启用后会强制校验访问密码（所有页面/API）。</div>
               </div>
-              <div className="mt-2 text-xs text-black/50 dark:text-slate-400">启用后会强制校验访问密码（所有页面/API）。</div>
+            </div>
+          ) : null}
+
+          <div>
+            <h3 className="text-sm font-semibold">API Token</h3>
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-black/70 dark:text-slate-300">
+              <span>脚本调用接口（例如导出消息）时用 Authorization: Bearer 认证，不需要模拟浏览器登录。</span>
+              <Link href="/settings/tokens" className="ui-btn ui-btn-secondary h-9 px-3 text-sm">
+                管理 API Token
+              </Link>
             </div>
           </div>
 
@@ -0,0 +1,205 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Select } from "@/components/ui/Select";
+import { getErrorMessage } from "@/lib/utils";
+
+type ProxyType = "none" | "socks5" | "mtproxy";
+
+// 与 @tg-back/db 的 TelegramProxySetting 保持一致（客户端组件不直接依赖 db 包）
+type ProxyForm = {
+  type: ProxyType;
+  host: string;
+  port: string;
+  username: string;
+  password: string;
+  secret: string;
+};
+
+const EMPTY_FORM: ProxyForm = { type: "none", host: "", port: "1080", username: "", password: "", secret: "" };
+
+function toForm(value: unknown): ProxyForm {
+  const obj = value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+  const type = obj.type === "socks5" || obj.type === "mtproxy" ? obj.type : "none";
+  return {
+    type,
+    host: typeof obj.host === "string" ? obj.host : "",
+    port: typeof obj.port === "number" ? String(obj.port) : EMPTY_FORM.port,
+    username: typeof obj.username === "string" ? obj.username : "",
+    password: "",
+    secret: "",
+  };
+}
+
+function toPayload(form: ProxyForm) {
+  return { ...form, port: Number.parseInt(form.port, 10) };
+}
+
+/**
+ * MTProto 代理：mirror-service、登录、对话列表共用；保存后 mirror-service 的账号会自动用新配置重连。
+ */
+export function TelegramProxySettings() {
+  const [form, setForm] = useState<ProxyForm>(EMPTY_FORM);
+  const [savedType, setSavedType] = useState<ProxyType>("none");
+  const [secretsSet, setSecretsSet] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const applyResponse = (data: { settings?: Record<string, unknown>; telegramProxySecretsSet?: unknown }) => {
+    const next = toForm(data.settings?.telegram_proxy);
+    setForm(next);
+    setSavedType(next.type);
+    setSecretsSet(Array.isArray(data.telegramProxySecretsSet) ? (data.telegramProxySecretsSet as string[]) : []);
+  };
+
+  useEffect(() => {
+    fetch("/api/settings")
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error ?? "Failed to load settings");
+        applyResponse(data);
+      })
+      .catch((e: unknown) => setError(getErrorMessage(e)));
+  }, []);
+
+  const update = <K extends keyof ProxyForm>(key: K, value: ProxyForm[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  // 类型没变时密码/secret 留空表示沿用已保存的值
+  const keepsSecret = (field: "password" | "secret") => form.type === savedType && secretsSet.includes(field);
+
+  const testConnection = async () => {
+    setLoading(true);
+    setError("");
+    setNotice("");
+    try {
+      const res = await fetch("/api/settings/proxy-test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ proxy: toPayload(form) }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.via ? `${data.via}：${data.error ?? "连接失败"}` : (data.error ?? "连接失败"));
+      setNotice(`连接成功（${data.via}，${data.latencyMs} ms，DC ${data.thisDc}${data.country ? `，出口 ${data.country}` : ""}）`);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const save = async () => {
+    setLoading(true);
+    setError("");
+    setNotice("");
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ updates: { telegram_proxy: toPayload(form) } }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to save settings");
+      applyResponse(data);
+      setNotice("已保存，mirror-service 的账号会在几秒内用新配置重连");
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="ui-card">
+      <h2 className="ui-section-title">网络代理</h2>
+      <p className="mt-1 text-sm text-gray-600 dark:text-slate-300">
+        mirror-service、账号登录和频道选择都通过这里的代理连接 Telegram。选“直连”时仍兼容 PROXY_HOST / PROXY_PORT 环境变量。
+      </p>
+
+      {error ? <div className="ui-alert-error mt-3">{error}</div> : null}
+      {notice ? <div className="ui-alert-info mt-3">{notice}</div> : null}
+
+      <div className="mt-4 grid grid-cols-1 gap-3 md:grid-cols-3">
+        <div>
+          <label className="block text-sm font-medium">类型</label>
+          <div className="mt-1">
+            <Select
+              value={form.type}
+              onChange={(value) => update("type", value as ProxyType)}
+              options={[
+                { value: "none", label: "直连" },
+                { value: "socks5", label: "SOCKS5" },
+                { value: "mtproxy", label: "MTProxy" },
+              ]}
+            />
+          </div>
+        </div>
+        {form.type !== "none" ? (
+          <>
+            <div>
+              <label className="block text-sm font-medium">地址</label>
+              <input
+                value={form.host}
+                onChange={(e) => update("host", e.target.value)}
+                placeholder="127.0.0.1 / proxy.example.com"
+                className="ui-input mt-1"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium">端口</label>
+              <input
+                type="number"
+                min={1}
+                max={65535}
+                value={form.port}
+                onChange={(e) => update("port", e.target.value)}
+                className="ui-input mt-1"
+              />
+            </div>
+          </>
+        ) : null}
+        {form.type === "socks5" ? (
+          <>
+            <div>
+              <label className="block text-sm font-medium">用户名（可选）</label>
+              <input value={form.username} onChange={(e) => update("username", e.target.value)} className="ui-input mt-1" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium">密码（可选）</label>
+              <input
+                type="password"
+                value={form.password}
+                onChange={(e) => update("password", e.target.value)}
+                placeholder={keepsSecret("password") ? "已设置，留空表示不修改" : ""}
+                className="ui-input mt-1"
+              />
+            </div>
+          </>
+        ) : null}
+        {form.type === "mtproxy" ? (
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium">Secret</label>
+            <input
+              type="password"
+              value={form.secret}
+              onChange={(e) => update("secret", e.target.value)}
+              placeholder={keepsSecret("secret") ? "已设置，留空表示不修改" : "32 位十六进制，可带 dd 前缀（不支持 ee 开头的 Fake-TLS）"}
+              className="ui-input mt-1"
+            />
+          </div>
+        ) : null}
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        <button type="button" onClick={testConnection} disabled={loading} className="ui-btn ui-btn-secondary h-10">
+          {loading ? "请稍候..." : "测试连接"}
+        </button>
+        <button type="button" onClick={save} disabled={loading} className="ui-btn ui-btn-primary h-10">
+          保存代理
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAccess } from "@/components/auth/AccessGuard";
+import { Select } from "@/components/ui/Select";
+import { WEB_ROLES, webRoleLabels, type WebRole } from "@/lib/permissions";
+import { formatTime, getErrorMessage } from "@/lib/utils";
+
+type WebUser = {
+  id: string;
+  username: string;
+  role: WebRole;
+  isActive: boolean;
+  lastLoginAt: string | null;
+  createdAt: string;
+};
+
+type UserDraft = {
+  id: string | null;
+  username: string;
+  role: WebRole;
+  password: string;
+};
+
+const ROLE_DESCRIPTIONS: Record<WebRole, string> = {
+  viewer: "查看频道、消息、任务和事件，导出数据",
+  operator: "另外可以添加 / 修改频道、排队和重试任务、控制镜像",
+  admin: "另外可以删除频道、修改设置、管理 Telegram 账号、通知和用户",
+};
+
+const roleOptions = WEB_ROLES.map((value) => ({ value, label: webRoleLabels[value] }));
+
+export function WebUsersManager() {
+  const { can, refresh: refreshAccess } = useAccess();
+  const [users, setUsers] = useState<WebUser[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<UserDraft | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch("/api/users", { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "加载用户列表失败");
+      setUsers((data.users ?? []) as WebUser[]);
+      setCurrentUserId(typeof data.currentUserId === "string" ? data.currentUserId : null);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const isAdmin = can("admin");
+
+  useEffect(() => {
+    if (isAdmin) void refresh();
+  }, [isAdmin, refresh]);
+
+  const request = async (method: string, body: unknown, fallback: string) => {
+    const res = await fetch("/api/users", { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error ?? fallback);
+    return data;
+  };
+
+  // 改了自己或建了第一个用户后，登录状态（模式 / 角色）会变，需要同步到 AccessGuard
+  const run = async (action: () => Promise<void>, successNotice: string) => {
+    setError("");
+    setNotice("");
+    try {
+      await action();
+      setNotice(successNotice);
+      await Promise.all([refresh(), refreshAccess()]);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    }
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    setSaving(true);
+    await run(async () => {
+      if (draft.id) {
+        await request("PATCH", { id: draft.id, role: draft.role, password: draft.password }, "更新用户失败");
+      } else {
+        await request("POST", { username: draft.username, role: draft.role, password: draft.password }, "创建用户失败");
+      }
+      setDraft(null);
+    }, draft.id ? "用户已更新（该用户需要重新登录）" : "用户已创建");
+    setSaving(false);
+  };
+
+  if (!isAdmin) {
+    return <div className="ui-alert-error">只有管理员可以管理用户。</div>;
+  }
+
+  const isFirstUser = !users.length;
+
+  return (
+    <div className="space-y-6">
+      {error ? <div className="ui-alert-error">{error}</div> : null}
+      {notice ? <div className="ui-alert-info">{notice}</div> : null}
+
+      {isFirstUser && !loading ? (
+        <div className="ui-alert-info">
+          目前使用的是访问密码（或未启用访问控制）。创建第一个管理员后会切换为多用户登录，访问密码不再生效，当前浏览器自动以该管理员身份登录。
+        </div>
+      ) : null}
+
+      {draft ? (
+        <div className="ui-card space-y-4">
+          <h2 className="ui-section-title">{draft.id ? `编辑用户 ${draft.username}` : "新建用户"}</h2>
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            <div>
+              <label className="block text-sm font-medium">用户名</label>
+              <input
+                value={draft.username}
+                onChange={(e) => setDraft({ ...draft, username: e.target.value })}
+                disabled={!!draft.id}
+                placeholder="小写字母、数字、_ . -"
+                autoComplete="off"
+                className="ui-input mt-1"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium">角色</label>
+              <div className="mt-1">
+                <Select
+                  value={draft.role}
+                  onChange={(value) => setDraft({ ...draft, role: value as WebRole })}
+                  disabled={isFirstUser}
+                  options={roleOptions}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{draft.id ? "新密码" : "密码"}</label>
+              <input
+                type="password"
+                value={draft.password}
+                onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+                placeholder={draft.id ? "留空表示不修改" : "至少 8 位"}
+                autoComplete="new-password"
+                className="ui-input mt-1"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-slate-400">{ROLE_DESCRIPTIONS[draft.role]}</p>
+          <div className="flex gap-2">
+            <button type="button" onClick={() => void save()} disabled={saving} className="ui-btn ui-btn-primary h-10">
+              {saving ? "保存中..." : "保存"}
+            </button>
+            <button type="button" onClick={() => setDraft(null)} disabled={saving} className="ui-btn ui-btn-secondary h-10">
+              取消
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="ui-card">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h2 className="ui-section-title">Web 用户</h2>
+            <p className="mt-1 text-sm text-gray-600 dark:text-slate-300">
+              修改角色、密码或停用后，该用户已登录的会话立即失效。至少需要保留一个启用中的管理员。
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={() => void refresh()} disabled={loading} className="ui-btn ui-btn-secondary h-10">
+              刷新
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft({ id: null, username: "", role: isFirstUser ? "admin" : "viewer", password: "" })}
+              className="ui-btn ui-btn-primary h-10"
+            >
+              {isFirstUser ? "创建管理员" : "新建用户"}
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-4 divide-y divide-black/5 dark:divide-white/10">
+          {!users.length ? <div className="py-6 text-sm text-gray-500 dark:text-slate-400">还没有 Web 用户</div> : null}
+          {users.map((user) => (
+            <div key={user.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{user.username}</span>
+                  <span className="ui-badge ui-badge-muted">{webRoleLabels[user.role]}</span>
+                  {user.id === currentUserId ? <span className="ui-badge ui-badge-muted">当前登录</span> : null}
+                  {!user.isActive ? <span className="ui-badge ui-badge-warn">已停用</span> : null}
+                </div>
+                <div className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+                  创建于 {formatTime(user.createdAt)} · 最近登录 {user.lastLoginAt ? formatTime(user.lastLoginAt) : "从未"}
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={() => setDraft({ id: user.id, username: user.username, role: user.role, password: "" })}
+                  className="ui-btn ui-btn-secondary h-9"
+                >
+                  编辑
+                </button>
+                {user.id !== currentUserId ? (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        void run(
+                          () => request("PATCH", { id: user.id, isActive: !user.isActive }, "更新用户失败"),
+                          user.isActive ? "已停用" : "已启用",
+                        )
+                      }
+                      className="ui-btn ui-btn-secondary h-9"
+                    >
+                      {user.isActive ? "停用" : "启用"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        if (!window.confirm(`删除用户「${user.username}」？`)) return;
+                        void run(() => request("DELETE", { id: user.id }, "删除用户失败"), "已删除");
+                      }}
+                      className="ui-btn ui-btn-secondary h-9"
+                    >
+                      删除
+                    </button>
+                  </>
+                ) : null}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
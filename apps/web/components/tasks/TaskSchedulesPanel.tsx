@@ -0,0 +1,426 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAccess } from "@/components/auth/AccessGuard";
+import { Checkbox } from "@/components/ui/Checkbox";
+import { Select } from "@/components/ui/Select";
+import { formatTime, getErrorMessage } from "@/lib/utils";
+
+// 与 @tg-back/db 的 task-schedules 保持一致（客户端组件不直接依赖 db 包）
+type ScheduleAction = "enqueue" | "allow_window" | "pause_window";
+
+const ENQUEUE_TYPES = ["retry_failed", "history_partial"] as const;
+const WINDOW_TYPES = ["history_full", "history_partial", "retry_failed", "realtime"] as const;
+
+type TaskSchedule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  action: ScheduleAction;
+  cronExpression: string;
+  timezone: string;
+  durationMinutes: number;
+  taskTypes: string[];
+  lookbackMinutes: number;
+  sourceChannelIds: string[];
+  groupNames: string[];
+  nextRuns: string[];
+  activeWindow: { start: string; end: string } | null;
+  lastRunAt: string | null;
+  lastResult: string | null;
+  pausedTaskCount: number;
+};
+
+type ChannelOption = { id: string; name: string; channelIdentifier: string; groupName: string };
+
+type ScheduleDraft = {
+  id: string | null;
+  name: string;
+  enabled: boolean;
+  action: ScheduleAction;
+  cronExpression: string;
+  timezone: string;
+  durationMinutes: string;
+  taskTypes: string[];
+  lookbackMinutes: string;
+  sourceChannelIds: string[];
+  groupNames: string[];
+};
+
+const ACTION_LABELS: Record<ScheduleAction, string> = {
+  enqueue: "定时入队",
+  allow_window: "只在窗口内运行",
+  pause_window: "窗口内暂停",
+};
+
+function getBrowserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+function emptyDraft(): ScheduleDraft {
+  return {
+    id: null,
+    name: "",
+    enabled: true,
+    action: "enqueue",
+    cronExpression: "0 3 * * *",
+    timezone: getBrowserTimeZone(),
+    durationMinutes: "60",
+    taskTypes: ["retry_failed"],
+    lookbackMinutes: "1440",
+    sourceChannelIds: [],
+    groupNames: [],
+  };
+}
+
+function toDraft(schedule: TaskSchedule): ScheduleDraft {
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    enabled: schedule.enabled,
+    action: schedule.action,
+    cronExpression: schedule.cronExpression,
+    timezone: schedule.timezone,
+    durationMinutes: String(schedule.durationMinutes),
+    taskTypes: schedule.taskTypes,
+    lookbackMinutes: String(schedule.lookbackMinutes),
+    sourceChannelIds: schedule.sourceChannelIds,
+    groupNames: schedule.groupNames,
+  };
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes % 1440 === 0) return `${minutes / 1440} 天`;
+  if (minutes % 60 === 0) return `${minutes / 60} 小时`;
+  return `${minutes} 分钟`;
+}
+
+function ScheduleEditor({
+  draft,
+  channels,
+  saving,
+  onChange,
+  onSave,
+  onCancel,
+}: {
+  draft: ScheduleDraft;
+  channels: ChannelOption[];
+  saving: boolean;
+  onChange: (draft: ScheduleDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}) {
+  const set = <K extends keyof ScheduleDraft>(key: K, value: ScheduleDraft[K]) => onChange({ ...draft, [key]: value });
+  const toggle = (key: "taskTypes" | "sourceChannelIds" | "groupNames", value: string, checked: boolean) =>
+    set(key, checked ? [...draft[key], value] : draft[key].filter((v) => v !== value));
+
+  const groups = [...new Set(channels.map((c) => c.groupName.trim()).filter(Boolean))].sort();
+
+  const changeAction = (action: ScheduleAction) => {
+    // 定时入队只支持单一任务类型，切换时收敛到合法取值
+    const taskTypes =
+      action === "enqueue"
+        ? [draft.taskTypes.find((t) => (ENQUEUE_TYPES as readonly string[]).includes(t)) ?? "retry_failed"]
+        : draft.taskTypes;
+    onChange({ ...draft, action, taskTypes });
+  };
+
+  return (
+    <div className="mt-4 space-y-4 rounded-xl border border-black/5 p-4 dark:border-white/10">
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <div>
+          <label className="block text-sm font-medium">名称</label>
+          <input value={draft.name} onChange={(e) => set("name", e.target.value)} className="ui-input mt-1" placeholder="例如：夜间重试失败" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium">类型</label>
+          <div className="mt-1">
+            <Select
+              value={draft.action}
+              onChange={(value) => changeAction(value as ScheduleAction)}
+              options={(Object.keys(ACTION_LABELS) as ScheduleAction[]).map((value) => ({ value, label: ACTION_LABELS[value] }))}
+            />
+          </div>
+        </div>
+        <div className="flex items-end">
+          <Checkbox label="启用" checked={draft.enabled} onChange={(checked) => set("enabled", checked)} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <div>
+          <label className="block text-sm font-medium">Cron 表达式</label>
+          <input
+            value={draft.cronExpression}
+            onChange={(e) => set("cronExpression", e.target.value)}
+            className="ui-input mt-1 font-mono"
+            placeholder="分 时 日 月 周，例如 0 3 * * *"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium">时区</label>
+          <input value={draft.timezone} onChange={(e) => set("timezone", e.target.value)} className="ui-input mt-1" placeholder="Asia/Shanghai" />
+        </div>
+        {draft.action === "enqueue" ? (
+          <div>
+            <label className="block text-sm font-medium">回扫最近（分钟，仅 history_partial）</label>
+            <input
+              value={draft.lookbackMinutes}
+              onChange={(e) => set("lookbackMinutes", e.target.value.replace(/\D/g, ""))}
+              className="ui-input mt-1"
+            />
+          </div>
+        ) : (
+          <div>
+            <label className="block text-sm font-medium">窗口时长（分钟）</label>
+            <input
+              value={draft.durationMinutes}
+              onChange={(e) => set("durationMinutes", e.target.value.replace(/\D/g, ""))}
+              className="ui-input mt-1"
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium">任务类型</label>
+        {draft.action === "enqueue" ? (
+          <div className="mt-1 w-64">
+            <Select
+              value={draft.taskTypes[0] ?? "retry_failed"}
+              onChange={(value) => set("taskTypes", [value])}
+              options={ENQUEUE_TYPES.map((value) => ({ value, label: value }))}
+            />
+          </div>
+        ) : (
+          <div className="mt-2 flex flex-wrap gap-4">
+            {WINDOW_TYPES.map((t) => (
+              <Checkbox key={t} label={t} checked={draft.taskTypes.includes(t)} onChange={(checked) => toggle("taskTypes", t, checked)} />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {groups.length ? (
+        <div>
+          <label className="block text-sm font-medium">分组（与频道取并集；都不选 = 全部频道）</label>
+          <div className="mt-2 flex flex-wrap gap-4">
+            {groups.map((g) => (
+              <Checkbox key={g} label={g} checked={draft.groupNames.includes(g)} onChange={(checked) => toggle("groupNames", g, checked)} />
+            ))}
+          </div>
+        </div>
+      ) : null}
+
+      <div>
+        <label className="block text-sm font-medium">频道</label>
+        <div className="mt-2 grid max-h-48 grid-cols-1 gap-1 overflow-auto md:grid-cols-3">
+          {channels.map((c) => (
+            <Checkbox
+              key={c.id}
+              label={c.name || c.channelIdentifier}
+              checked={draft.sourceChannelIds.includes(c.id)}
+              onChange={(checked) => toggle("sourceChannelIds", c.id, checked)}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <button type="button" onClick={onSave} disabled={saving} className="ui-btn ui-btn-primary h-10">
+          {saving ? "保存中..." : "保存"}
+        </button>
+        <button type="button" onClick={onCancel} disabled={saving} className="ui-btn ui-btn-secondary h-10">
+          取消
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function TaskSchedulesPanel({ channels }: { channels: ChannelOption[] }) {
+  const { can } = useAccess();
+  const canOperate = can("operate");
+  const [schedules, setSchedules] = useState<TaskSchedule[]>([]);
+  const [draft, setDraft] = useState<ScheduleDraft | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch("/api/tasks/schedules", { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "加载任务计划失败");
+      setSchedules((data.schedules ?? []) as TaskSchedule[]);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const request = async (method: string, body: unknown, fallback: string) => {
+    const res = await fetch("/api/tasks/schedules", {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error ?? fallback);
+    return data;
+  };
+
+  const run = async (action: () => Promise<void>, successNotice: string) => {
+    setError("");
+    setNotice("");
+    try {
+      await action();
+      setNotice(successNotice);
+      await refresh();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    }
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    setSaving(true);
+    await run(async () => {
+      const body = {
+        id: draft.id ?? undefined,
+        name: draft.name,
+        enabled: draft.enabled,
+        action: draft.action,
+        cronExpression: draft.cronExpression,
+        timezone: draft.timezone,
+        durationMinutes: Number.parseInt(draft.durationMinutes || "0", 10),
+        taskTypes: draft.taskTypes,
+        lookbackMinutes: Number.parseInt(draft.lookbackMinutes || "0", 10),
+        sourceChannelIds: draft.sourceChannelIds,
+        groupNames: draft.groupNames,
+      };
+      await request(draft.id ? "PATCH" : "POST", body, "保存任务计划失败");
+      setDraft(null);
+    }, "任务计划已保存（约 15 秒内生效）");
+    setSaving(false);
+  };
+
+  const scopeLabel = (schedule: TaskSchedule) => {
+    if (!schedule.sourceChannelIds.length && !schedule.groupNames.length) return "全部频道";
+    const parts = schedule.groupNames.map((g) => `分组 ${g}`);
+    for (const id of schedule.sourceChannelIds) {
+      const c = channels.find((ch) => ch.id === id);
+      parts.push(c ? c.name || c.channelIdentifier : id.slice(0, 8));
+    }
+    return parts.length > 3 ? `${parts.slice(0, 3).join("、")} 等 ${parts.length} 项` : parts.join("、");
+  };
+
+  return (
+    <div className="ui-card">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="ui-section-title">任务计划</h2>
+          <p className="mt-1 text-sm text-gray-600 dark:text-slate-300">
+            按 cron 定时入队，或限制任务只在某些时段运行。被计划暂停的任务手动恢复后会再次被暂停；实时监听恢复时会自动补齐暂停期间的消息。
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button type="button" onClick={() => void refresh()} disabled={loading} className="ui-btn ui-btn-secondary h-10">
+            刷新
+          </button>
+          {canOperate ? (
+            <button type="button" onClick={() => setDraft(emptyDraft())} className="ui-btn ui-btn-primary h-10">
+              新建计划
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      {error ? <div className="ui-alert-error mt-4">{error}</div> : null}
+      {notice ? <div className="ui-alert-info mt-4">{notice}</div> : null}
+
+      {draft ? (
+        <ScheduleEditor draft={draft} channels={channels} saving={saving} onChange={setDraft} onSave={save} onCancel={() => setDraft(null)} />
+      ) : null}
+
+      <div className="mt-4 divide-y divide-black/5 dark:divide-white/10">
+        {!schedules.length ? <div className="py-6 text-sm text-gray-500 dark:text-slate-400">还没有任务计划</div> : null}
+        {schedules.map((schedule) => (
+          <div key={schedule.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+            <div className="min-w-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{schedule.name}</span>
+                <span className="ui-badge ui-badge-muted">{ACTION_LABELS[schedule.action]}</span>
+                <span className="ui-badge ui-badge-muted">{schedule.taskTypes.join(" / ")}</span>
+                {!schedule.enabled ? <span className="ui-badge ui-badge-warn">已停用</span> : null}
+                {schedule.enabled && schedule.activeWindow ? <span className="ui-badge ui-badge-info">窗口中</span> : null}
+                {schedule.pausedTaskCount > 0 ? (
+                  <span className="ui-badge ui-badge-warn">已暂停 {schedule.pausedTaskCount} 个任务</span>
+                ) : null}
+              </div>
+              <div className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+                <span className="font-mono">{schedule.cronExpression}</span> · {schedule.timezone}
+                {schedule.action !== "enqueue" ? ` · 每次 ${formatMinutes(schedule.durationMinutes)}` : ""}
+                {schedule.action === "enqueue" && schedule.taskTypes.includes("history_partial")
+                  ? ` · 回扫 ${formatMinutes(schedule.lookbackMinutes)}`
+                  : ""}{" "}
+                · {scopeLabel(schedule)}
+              </div>
+              <div className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+                {schedule.activeWindow ? `当前窗口至 ${formatTime(schedule.activeWindow.end)} · ` : ""}
+                下次：{schedule.nextRuns.length ? schedule.nextRuns.map((t) => formatTime(t)).join("、") : "不会再触发"}
+              </div>
+              {schedule.lastRunAt ? (
+                <div className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+                  上次：{formatTime(schedule.lastRunAt)}
+                  {schedule.lastResult ? ` · ${schedule.lastResult}` : ""}
+                </div>
+              ) : null}
+            </div>
+            {canOperate ? (
+              <div className="flex flex-wrap gap-2">
+                <button type="button" onClick={() => setDraft(toDraft(schedule))} className="ui-btn ui-btn-secondary h-9">
+                  编辑
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    void run(
+                      () => request("PATCH", { id: schedule.id, enabled: !schedule.enabled }, "更新任务计划失败"),
+                      schedule.enabled ? "已停用，被它暂停的任务会自动恢复" : "已启用",
+                    )
+                  }
+                  className="ui-btn ui-btn-secondary h-9"
+                >
+                  {schedule.enabled ? "停用" : "启用"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (!window.confirm(`删除任务计划「${schedule.name}」？`)) return;
+                    void run(() => request("DELETE", { id: schedule.id }, "删除任务计划失败"), "已删除");
+                  }}
+                  className="ui-btn ui-btn-secondary h-9"
+                >
+                  删除
+                </button>
+              </div>
+            ) : null}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
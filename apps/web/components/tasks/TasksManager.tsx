@@ -3,6 +3,8 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import clsx from "clsx";
 import { CheckCircle, Clock, Pause, Play, RefreshCw } from "lucide-react";
+import { useAccess } from "@/components/auth/AccessGuard";
+import { TaskSchedulesPanel } from "@/components/tasks/TaskSchedulesPanel";
 import { Checkbox } from "@/components/ui/Checkbox";
 import { Select } from "@/components/ui/Select";
 import { type LocalQueryPreset } from "@/lib/local-presets";
@@ -171,6 +173,8 @@ export function TasksManager({
   initialViewMode?: "channel" | "task";
   initialHideCompleted?: boolean;
 }) {
+  const { can } = useAccess();
+  const canOperate = can("operate");
   const [channels, setChannels] = useState<ChannelOption[]>([]);
   const [channelsLoading, setChannelsLoading] = useState(false);
   const [tasks, setTasks] = useState<TaskRow[]>([]);
@@ -457,13 +461,12 @@ export function TasksManager({
   const retryFailedDisabled = useMemo(() => !selectedChannelId || loading, [selectedChannelId, loading]);
 
   const visibleTasks = useMemo(() => {
-    const filtered = tasks.filter((t) => t.taskType !== "history_partial");
-    if (!hideCompleted) return filtered;
-    return filtered.filter((t) => t.status !== "completed");
+    if (!hideCompleted) return tasks;
+    return tasks.filter((t) => t.status !== "completed");
   }, [tasks, hideCompleted]);
 
   const groupedByChannel = useMemo(() => {
-    const order: TaskType[] = ["resolve", "history_full", "realtime", "retry_failed"];
+    const order: TaskType[] = ["resolve", "history_full", "history_partial", "realtime", "retry_failed"];
 
     const groups: Array<{
       sourceChannelId: string;
@@ -587,6 +590,7 @@ export function TasksManager({
                     { value: "", label: "全部" },
                     { value: "resolve", label: "resolve" },
                     { value: "history_full", label: "history_full" },
+                    { value: "history_partial", label: "history_partial" },
                     { value: "realtime", label: "realtime" },
                     { value: "retry_failed", label: "retry_failed" },
                   ]}
@@ -748,14 +752,16 @@ export function TasksManager({
 	              >
 	                复制筛选链接
 	              </button>
-	              <button
-	                type="button"
-	                onClick={retryFailedMessages}
-	                disabled={retryFailedDisabled}
-                className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
-	              >
-	                重试 failed（创建任务）
-	              </button>
+	              {canOperate ? (
+  	              <button
+  	                type="button"
+  	                onClick={retryFailedMessages}
+  	                disabled={retryFailedDisabled}
+                  className="inline-flex h-10 items-center justify-center rounded-md border border-black/10 bg-white px-4 text-sm text-gray-900 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:bg-slate-900/40 dark:text-slate-100 dark:hover:bg-white/10"
+  	              >
+  	                重试 failed（创建任务）
+  	              </button>
+	              ) : null}
 	            </div>
 	          </div>
 
@@ -867,30 +873,32 @@ export function TasksManager({
                             <p className="text-sm text-gray-600 dark:text-slate-300 mt-1">{typeLabel}</p>
                           </div>
 
-                          <div className="flex items-center gap-2">
-                            <button
-                              type="button"
-                              onClick={primaryAction}
-                              disabled={loading}
-                              className="p-2 hover:bg-white/60 dark:hover:bg-slate-800/60 rounded-lg transition-all disabled:opacity-50"
-                              title={t.status === "running" ? "暂停" : t.status === "paused" ? "恢复" : "重启"}
-                            >
-                              {t.status === "running" ? (
-                                <Pause className="w-5 h-5 text-orange-600 dark:text-orange-300" />
-                              ) : (
-                                <Play className="w-5 h-5 text-green-600 dark:text-green-300" />
-                              )}
-                            </button>
-                            <button
-                              type="button"
-                              onClick={refreshAction}
-                              disabled={loading || t.status === "running"}
-                              className="p-2 hover:bg-white/60 dark:hover:bg-slate-800/60 rounded-lg transition-all disabled:opacity-50"
-                              title={t.status === "pending" ? "重排队" : "重启"}
-                            >
-                              <RefreshCw className="w-5 h-5 text-blue-600 dark:text-blue-300" />
-                            </button>
-                          </div>
+                          {canOperate ? (
+                            <div className="flex items-center gap-2">
+                              <button
+                                type="button"
+                                onClick={primaryAction}
+                                disabled={loading}
+                                className="p-2 hover:bg-white/60 dark:hover:bg-slate-800/60 rounded-lg transition-all disabled:opacity-50"
+                                title={t.status === "running" ? "暂停" : t.status === "paused" ? "恢复" : "重启"}
+                              >
+                                {t.status === "running" ? (
+                                  <Pause className="w-5 h-5 text-orange-600 dark:text-orange-300" />
+                                ) : (
+                                  <Play className="w-5 h-5 text-green-600 dark:text-green-300" />
+                                )}
+                              </button>
+                              <button
+                                type="button"
+                                onClick={refreshAction}
+                                disabled={loading || t.status === "running"}
+                                className="p-2 hover:bg-white/60 dark:hover:bg-slate-800/60 rounded-lg transition-all disabled:opacity-50"
+                                title={t.status === "pending" ? "重排队" : "重启"}
+                              >
+                                <RefreshCw className="w-5 h-5 text-blue-600 dark:text-blue-300" />
+                              </button>
+                            </div>
+                          ) : null}
                         </div>
 
                           <div className="space-y-2">
@@ -987,30 +995,32 @@ export function TasksManager({
                         <p className="text-sm text-gray-600 dark:text-slate-300 mt-1">{typeLabel}</p>
                       </div>
 
-                      <div className="flex items-center gap-2">
-                        <button
-                          type="button"
-                          onClick={primaryAction}
-                          disabled={loading}
-                          className="p-2 hover:bg-white/60 dark:hover:bg-slate-800/60 rounded-lg transition-all disabled:opacity-50"
-                          title={t.status === "running" ? "暂停" : t.status === "paused" ? "恢复" : "重启"}
-                        >
-                          {t.status === "running" ? (
-                            <Pause className="w-5 h-5 text-orange-600 dark:text-orange-300" />
-                          ) : (
-                            <Play className="w-5 h-5 text-green-600 dark:text-green-300" />
-                          )}
-                        </button>
-                        <button
-                          type="button"
-                          onClick={refreshAction}
-                          disabled={loading || t.status === "running"}
-                          className="p-2 hover:bg-white/60 dark:hover:bg-slate-800/60 rounded-lg transition-all disabled:opacity-50"
-                          title={t.status === "pending" ? "重排队" : "重启"}
-                        >
-                          <RefreshCw className="w-5 h-5 text-blue-600 dark:text-blue-300" />
-                        </button>
-                      </div>
+                      {canOperate ? (
+                        <div className="flex items-center gap-2">
+                          <button
+                            type="button"
+                            onClick={primaryAction}
+                            disabled={loading}
+                            className="p-2 hover:bg-white/60 dark:hover:bg-slate-800/60 rounded-lg transition-all disabled:opacity-50"
+                            title={t.status === "running" ? "暂停" : t.status === "paused" ? "恢复" : "重启"}
+                          >
+                            {t.status === "running" ? (
+                              <Pause className="w-5 h-5 text-orange-600 dark:text-orange-300" />
+                            ) : (
+                              <Play className="w-5 h-5 text-green-600 dark:text-green-300" />
+                            )}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={refreshAction}
+                            disabled={loading || t.status === "running"}
+                            className="p-2 hover:bg-white/60 dark:hover:bg-slate-800/60 rounded-lg transition-all disabled:opacity-50"
+                            title={t.status === "pending" ? "重排队" : "重启"}
+                          >
+                            <RefreshCw className="w-5 h-5 text-blue-600 dark:text-blue-300" />
+                          </button>
+                        </div>
+                      ) : null}
                     </div>
 
                     <div className="space-y-2">
@@ -1062,6 +1072,8 @@ export function TasksManager({
           </div>
         )}
       </div>
+
+      <TaskSchedulesPanel channels={channels} />
     </div>
   );
 }
@@ -1,31 +1,89 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { getErrorMessage } from "@/lib/utils";
+import { useEffect, useRef, useState } from "react";
+import { useAccess } from "@/components/auth/AccessGuard";
+import { formatTime, getErrorMessage } from "@/lib/utils";
 
-type Step = "phone" | "code" | "password" | "success";
+type Step = "idle" | "phone" | "code" | "password" | "qr" | "qrPassword";
+
+type QrLoginState = { qrUrl: string; qrDataUrl: string; expiresAt: string };
+
+const QR_POLL_INTERVAL_MS = 2000;
+
+// 与 /api/telegram/accounts 返回结构保持一致
+type TelegramAccount = {
+  id: string;
+  name: string;
+  hasSession: boolean;
+  isActive: boolean;
+  phoneNumber: string | null;
+  username: string | null;
+  displayName: string | null;
+  lastConnectedAt: string | null;
+  lastError: string | null;
+  assignedChannelCount: number;
+  activeChannelCount: number;
+};
+
+function AccountStatusBadge({ account }: { account: TelegramAccount }) {
+  if (!account.hasSession) return <span className="ui-badge ui-badge-warn">需要登录</span>;
+  if (!account.isActive) return <span className="ui-badge ui-badge-muted">已停用</span>;
+  if (account.lastError) return <span className="ui-badge ui-badge-error">连接失败</span>;
+  return <span className="ui-badge ui-badge-success">已登录</span>;
+}
 
 export function TelegramLoginWizard() {
-  const [step, setStep] = useState<Step>("phone");
+  const { can } = useAccess();
+  // 只有管理员能登录 / 退出 / 删除账号，其他角色只看状态
+  const isAdmin = can("admin");
+  const [accounts, setAccounts] = useState<TelegramAccount[] | null>(null);
+  const [step, setStep] = useState<Step>("idle");
+  // 重新登录的账号；null = 新增账号
+  const [reauthAccount, setReauthAccount] = useState<TelegramAccount | null>(null);
+  const [accountName, setAccountName] = useState("");
   const [phoneNumber, setPhoneNumber] = useState("");
   const [code, setCode] = useState("");
   const [password, setPassword] = useState("");
   const [loginId, setLoginId] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
-  const [isLoggedIn, setIsLoggedIn] = useState<boolean | null>(null);
+  const [qr, setQr] = useState<QrLoginState | null>(null);
+  // 轮询回调里读当前 loginId，取消/重新开始后旧的轮询结果直接丢弃
+  const qrLoginIdRef = useRef("");
 
-  const refreshStatus = async () => {
-    const res = await fetch("/api/telegram/login/status");
+  const refreshAccounts = async () => {
+    const res = await fetch("/api/telegram/accounts");
     const data = await res.json();
-    setIsLoggedIn(!!data.isLoggedIn);
-    if (data.isLoggedIn) setStep("success");
+    if (!res.ok) throw new Error(data.error ?? "Failed to load accounts");
+    const list = (data.accounts ?? []) as TelegramAccount[];
+    setAccounts(list);
+    if (!list.length) setStep((prev) => (prev === "idle" ? "phone" : prev));
   };
 
   useEffect(() => {
-    refreshStatus().catch(() => {});
+    refreshAccounts().catch((e: unknown) => setError(getErrorMessage(e)));
   }, []);
 
+  const resetLogin = () => {
+    setStep("idle");
+    setReauthAccount(null);
+    setAccountName("");
+    setPhoneNumber("");
+    setCode("");
+    setPassword("");
+    setLoginId("");
+    setQr(null);
+    qrLoginIdRef.current = "";
+  };
+
+  const startLogin = (account: TelegramAccount | null) => {
+    resetLogin();
+    setError("");
+    setReauthAccount(account);
+    setPhoneNumber(account?.phoneNumber ?? "");
+    setStep("phone");
+  };
+
   const sendCode = async () => {
     setLoading(true);
     setError("");
@@ -33,7 +91,11 @@ export function TelegramLoginWizard() {
       const res = await fetch("/api/telegram/login/send-code", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ phoneNumber }),
+        body: JSON.stringify({
+          phoneNumber,
+          accountId: reauthAccount?.id,
+          name: reauthAccount ? undefined : accountName.trim() || undefined,
+        }),
       });
       const data = await res.json();
       if (!res.ok) throw new Error(data.error ?? "Failed to send code");
@@ -46,6 +108,88 @@ export function TelegramLoginWizard() {
     }
   };
 
+  const startQrLogin = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch("/api/telegram/login/qr", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          accountId: reauthAccount?.id,
+          name: reauthAccount ? undefined : accountName.trim() || undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to create QR code");
+      qrLoginIdRef.current = data.loginId;
+      setLoginId(data.loginId);
+      setQr({ qrUrl: data.qrUrl, qrDataUrl: data.qrDataUrl, expiresAt: data.expiresAt });
+      setStep("qr");
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (step !== "qr" || !loginId) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/telegram/login/qr?loginId=${encodeURIComponent(loginId)}`, { cache: "no-store" });
+        const data = await res.json();
+        if (cancelled || qrLoginIdRef.current !== loginId) return;
+        if (!res.ok) throw new Error(data.error ?? "QR login failed");
+
+        if (data.status === "password") {
+          setStep("qrPassword");
+          return;
+        }
+        if (data.status === "success") {
+          resetLogin();
+          await refreshAccounts();
+          return;
+        }
+        setQr({ qrUrl: data.qrUrl, qrDataUrl: data.qrDataUrl, expiresAt: data.expiresAt });
+        timer = setTimeout(() => void poll(), QR_POLL_INTERVAL_MS);
+      } catch (e: unknown) {
+        if (cancelled) return;
+        setError(getErrorMessage(e));
+        resetLogin();
+      }
+    };
+
+    timer = setTimeout(() => void poll(), QR_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [step, loginId]);
+
+  const submitQrPassword = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch("/api/telegram/login/qr/password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ loginId, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Login failed");
+      resetLogin();
+      await refreshAccounts();
+    } catch (e: unknown) {
+      setError(getErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const verifyCode = async (withPassword: boolean) => {
     setLoading(true);
     setError("");
@@ -67,8 +211,8 @@ export function TelegramLoginWizard() {
         return;
       }
 
-      setStep("success");
-      await refreshStatus();
+      resetLogin();
+      await refreshAccounts();
     } catch (e: unknown) {
       setError(getErrorMessage(e));
     } finally {
@@ -76,18 +220,14 @@ export function TelegramLoginWizard() {
     }
   };
 
-  const logout = async () => {
+  const runAccountAction = async (action: () => Promise<Response>) => {
     setLoading(true);
     setError("");
     try {
-      const res = await fetch("/api/telegram/logout", { method: "POST" });
+      const res = await action();
       const data = await res.json();
-      if (!res.ok) throw new Error(data.error ?? "Logout failed");
-      setIsLoggedIn(false);
-      setStep("phone");
-      setCode("");
-      setPassword("");
-      setLoginId("");
+      if (!res.ok) throw new Error(data.error ?? "Request failed");
+      await refreshAccounts();
     } catch (e: unknown) {
       setError(getErrorMessage(e));
     } finally {
@@ -95,31 +235,130 @@ export function TelegramLoginWizard() {
     }
   };
 
+  const patchAccount = (id: string, updates: { name?: string; isActive?: boolean }) =>
+    runAccountAction(() =>
+      fetch("/api/telegram/accounts", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, ...updates }),
+      }),
+    );
+
+  const renameAccount = (account: TelegramAccount) => {
+    const name = prompt("账号名称", account.name)?.trim();
+    if (!name || name === account.name) return;
+    void patchAccount(account.id, { name });
+  };
+
+  const logoutAccount = (account: TelegramAccount) => {
+    if (!confirm(`确认退出账号「${account.name}」吗？该账号负责的频道会分配给其它账号。`)) return;
+    void runAccountAction(() =>
+      fetch("/api/telegram/logout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accountId: account.id }),
+      }),
+    );
+  };
+
+  const deleteAccount = (account: TelegramAccount) => {
+    if (!confirm(`确认删除账号「${account.name}」吗？指定给该账号的频道会改为自动分配。`)) return;
+    void runAccountAction(() =>
+      fetch("/api/telegram/accounts", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: account.id }),
+      }),
+    );
+  };
+
   return (
     <div className="ui-card">
       <div className="space-y-2">
         <h2 className="text-xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
-          Telegram 登录
+          Telegram 账号
         </h2>
-        <p className="text-sm text-gray-600 dark:text-slate-300">登录成功后会将 session 加密写入数据库（settings.telegram_session）。</p>
+        <p className="text-sm text-gray-600 dark:text-slate-300">
+          可以登录多个账号分担同步任务，session 加密保存在数据库（telegram_accounts）。
+        </p>
       </div>
 
       {error ? <div className="ui-alert-error mt-4">{error}</div> : null}
 
-      <div className="mt-6">
-        {isLoggedIn ? (
-          <div className="space-y-3">
-            <div className="text-sm">
-              状态：<span className="font-medium text-green-700 dark:text-green-300">已登录</span>
+      <div className="mt-6 space-y-3">
+        {accounts == null ? <div className="text-sm text-gray-500 dark:text-slate-400">加载中...</div> : null}
+        {accounts?.map((account) => (
+          <div key={account.id} className="rounded-lg border border-gray-200 p-3 dark:border-slate-700">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="truncate text-sm font-medium text-gray-900 dark:text-slate-100">{account.name}</div>
+                <div className="truncate text-xs text-gray-500 dark:text-slate-400">
+                  {[account.username ? `@${account.username}` : account.displayName, account.phoneNumber]
+                    .filter(Boolean)
+                    .join(" · ") || "-"}
+                </div>
+              </div>
+              <AccountStatusBadge account={account} />
+            </div>
+            <div className="mt-2 text-xs text-gray-500 dark:text-slate-400">
+              负责 {account.activeChannelCount} 个频道（指定 {account.assignedChannelCount} 个）
+              {account.lastConnectedAt ? ` · 最近连接 ${formatTime(account.lastConnectedAt)}` : ""}
             </div>
-            <button type="button" onClick={logout} disabled={loading} className="ui-btn ui-btn-secondary">
-              {loading ? "处理中..." : "退出登录"}
-            </button>
+            {account.lastError ? (
+              <div className="mt-1 break-all text-xs text-red-600 dark:text-red-300">{account.lastError}</div>
+            ) : null}
+            {isAdmin ? (
+              <div className="mt-3 flex flex-wrap gap-2">
+                <button type="button" onClick={() => renameAccount(account)} disabled={loading} className="ui-btn ui-btn-secondary h-9 px-3 text-xs">
+                  重命名
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void patchAccount(account.id, { isActive: !account.isActive })}
+                  disabled={loading}
+                  className="ui-btn ui-btn-secondary h-9 px-3 text-xs"
+                >
+                  {account.isActive ? "停用" : "启用"}
+                </button>
+                <button type="button" onClick={() => startLogin(account)} disabled={loading} className="ui-btn ui-btn-secondary h-9 px-3 text-xs">
+                  重新登录
+                </button>
+                {account.hasSession ? (
+                  <button type="button" onClick={() => logoutAccount(account)} disabled={loading} className="ui-btn ui-btn-secondary h-9 px-3 text-xs">
+                    退出登录
+                  </button>
+                ) : null}
+                <button type="button" onClick={() => deleteAccount(account)} disabled={loading} className="ui-btn ui-btn-danger h-9 px-3 text-xs">
+                  删除
+                </button>
+              </div>
+            ) : null}
           </div>
+        ))}
+
+        {!isAdmin ? null : step === "idle" ? (
+          <button type="button" onClick={() => startLogin(null)} disabled={loading} className="ui-btn ui-btn-primary w-full">
+            添加账号
+          </button>
         ) : (
-          <div className="space-y-4">
+          <div className="space-y-4 rounded-lg border border-dashed border-gray-300 p-3 dark:border-slate-600">
+            <div className="text-sm font-medium text-gray-900 dark:text-slate-100">
+              {reauthAccount ? `重新登录「${reauthAccount.name}」` : "添加账号"}
+            </div>
+
             {step === "phone" ? (
               <>
+                {reauthAccount ? null : (
+                  <>
+                    <label className="block text-sm font-medium text-gray-900 dark:text-slate-100">账号名称（可选）</label>
+                    <input
+                      value={accountName}
+                      onChange={(e) => setAccountName(e.target.value)}
+                      placeholder="默认使用用户名或手机号"
+                      className="ui-input"
+                    />
+                  </>
+                )}
                 <label className="block text-sm font-medium text-gray-900 dark:text-slate-100">手机号（含国家区号）</label>
                 <input
                   value={phoneNumber}
@@ -135,6 +374,9 @@ export function TelegramLoginWizard() {
                 >
                   {loading ? "发送中..." : "发送验证码"}
                 </button>
+                <button type="button" onClick={startQrLogin} disabled={loading} className="ui-btn ui-btn-secondary w-full">
+                  收不到验证码？改用扫码登录
+                </button>
               </>
             ) : null}
 
@@ -173,6 +415,48 @@ export function TelegramLoginWizard() {
                 </button>
               </>
             ) : null}
+
+            {step === "qr" && qr ? (
+              <>
+                <div className="text-sm text-gray-600 dark:text-slate-300">
+                  用已登录该账号的 Telegram 手机客户端扫码：设置 → 设备 → 连接桌面设备。二维码过期会自动刷新。
+                </div>
+                <div className="flex justify-center">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={qr.qrDataUrl} alt="Telegram 登录二维码" width={240} height={240} className="rounded-md bg-white" />
+                </div>
+                <div className="text-center text-xs text-gray-500 dark:text-slate-400">
+                  等待扫码...（有效期至 {formatTime(qr.expiresAt)}）
+                </div>
+              </>
+            ) : null}
+
+            {step === "qrPassword" ? (
+              <>
+                <div className="text-sm text-gray-600 dark:text-slate-300">已扫码，账号开启了两步验证，请输入 2FA 密码</div>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="2FA 密码"
+                  className="ui-input"
+                />
+                <button
+                  type="button"
+                  onClick={submitQrPassword}
+                  disabled={loading || !password || !loginId}
+                  className="ui-btn ui-btn-primary w-full"
+                >
+                  {loading ? "验证中..." : "确认"}
+                </button>
+              </>
+            ) : null}
+
+            {accounts?.length ? (
+              <button type="button" onClick={resetLogin} disabled={loading} className="ui-btn ui-btn-secondary w-full">
+                取消
+              </button>
+            ) : null}
           </div>
         )}
       </div>
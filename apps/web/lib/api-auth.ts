@@ -3,12 +3,24 @@ import { eq } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { db, parseSettingValue, schema } from "@tg-back/db";
 import { loadEnv } from "@/lib/env";
+import { checkApiTokenRateLimit, getBearerToken, touchApiTokenUsage, verifyApiToken } from "@/lib/api-tokens";
+import {
+  apiTokenScopeAllows,
+  getRequiredPermission,
+  roleHasPermission,
+  type ApiTokenScope,
+  type Permission,
+  type WebRole,
+} from "@/lib/permissions";
 
 loadEnv();
 
 export const ACCESS_COOKIE_NAME = "tg_back_access";
 
 const TOKEN_VERSION = "v1";
+// 多用户模式的 cookie：u1:<userId>:<sessionVersion>:<ts>:<nonce>:<sig>
+const USER_TOKEN_VERSION = "u1";
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 const MAX_TOKEN_AGE_SEC = 60 * 60 * 24 * 14; // 14 days
 
 const BOOTSTRAP_ACCESS_PASSWORD_ENV = "TG_BACK_BOOTSTRAP_ACCESS_PASSWORD";
@@ -159,7 +171,7 @@ export async function hashAccessPassword(plaintext: string): Promise<string> {
   ].join("$");
 }
 
-async function verifyScryptAccessPassword(plaintext: string, stored: string): Promise<boolean> {
+export async function verifyScryptAccessPassword(plaintext: string, stored: string): Promise<boolean> {
   const parsed = parseScryptHash(stored);
   if (!parsed) return false;
   const options: crypto.ScryptOptions = {
@@ -247,20 +259,146 @@ export function verifyAccessToken(token: string, accessPassword: string): boolea
   return safeEqual(expected, sig);
 }
 
-export async function getAccessStatus(request: NextRequest): Promise<{ enabled: boolean; authed: boolean }> {
+export type AccessUser = {
+  // 单密码 / 未启用访问控制时为 null，按管理员处理
+  id: string | null;
+  username: string | null;
+  role: WebRole;
+};
+
+export type AccessStatus = {
+  enabled: boolean;
+  authed: boolean;
+  // open = 未启用访问控制；password = settings.access_password 单密码；users = web_users 多用户
+  mode: "open" | "password" | "users";
+  user: AccessUser | null;
+  // 通过 Authorization: Bearer 调用时的 API token；user 为 token 的创建者
+  token: { id: string; name: string; scope: ApiTokenScope; rateLimitPerMinute: number } | null;
+};
+
+const SHARED_ACCESS_USER: AccessUser = { id: null, username: null, role: "admin" };
+// 启用多用户后，单密码 / 未启用访问控制时创建的共享 token 没有归属用户，只保留只读权限
+const LEGACY_SHARED_TOKEN_USER: AccessUser = { id: null, username: null, role: "viewer" };
+
+export async function hasWebUsers(): Promise<boolean> {
+  const [row] = await db.select({ id: schema.webUsers.id }).from(schema.webUsers).limit(1);
+  return !!row;
+}
+
+export function createUserAccessToken(user: { id: string; sessionVersion: number; passwordHash: string }): string {
+  const secret = requireEncryptionSecret();
+  const ts = Math.floor(Date.now() / 1000);
+  const nonce = crypto.randomBytes(16).toString("base64url");
+  const unsigned = `${USER_TOKEN_VERSION}:${user.id}:${user.sessionVersion}:${ts}:${nonce}`;
+  // 签名里带上密码哈希：改密码后旧 cookie 自动失效
+  const sig = sign(`${unsigned}:${user.passwordHash}`, secret);
+  return `${unsigned}:${sig}`;
+}
+
+async function verifyUserAccessToken(token: string): Promise<AccessUser | null> {
+  const parts = token.trim().split(":");
+  if (parts.length !== 6) return null;
+  const [version, userId, sessionVersionRaw, tsRaw, nonce, sig] = parts;
+  if (version !== USER_TOKEN_VERSION || !userId || !UUID_RE.test(userId) || !nonce || !sig) return null;
+
+  const sessionVersion = Number.parseInt(sessionVersionRaw ?? "", 10);
+  const ts = Number.parseInt(tsRaw ?? "", 10);
+  if (!Number.isFinite(sessionVersion) || !Number.isFinite(ts)) return null;
+  const now = Math.floor(Date.now() / 1000);
+  if (ts > now + 60) return null;
+  if (now - ts > MAX_TOKEN_AGE_SEC) return null;
+
+  const [user] = await db
+    .select({
+      id: schema.webUsers.id,
+      username: schema.webUsers.username,
+      role: schema.webUsers.role,
+      isActive: schema.webUsers.isActive,
+      sessionVersion: schema.webUsers.sessionVersion,
+      passwordHash: schema.webUsers.passwordHash,
+    })
+    .from(schema.webUsers)
+    .where(eq(schema.webUsers.id, userId))
+    .limit(1);
+  if (!user || !user.isActive || user.sessionVersion !== sessionVersion) return null;
+
+  const secret = requireEncryptionSecret();
+  const unsigned = `${version}:${userId}:${sessionVersionRaw}:${tsRaw}:${nonce}`;
+  const expected = sign(`${unsigned}:${user.passwordHash}`, secret);
+  if (!safeEqual(expected, sig)) return null;
+  return { id: user.id, username: user.username, role: user.role };
+}
+
+async function getCookieAccessStatus(request: NextRequest): Promise<AccessStatus> {
+  const token = request.cookies.get(ACCESS_COOKIE_NAME)?.value ?? "";
+
+  if (await hasWebUsers()) {
+    const user = token ? await verifyUserAccessToken(token) : null;
+    return { enabled: true, authed: !!user, mode: "users", user, token: null };
+  }
+
   const accessPassword = await getAccessPassword();
   const enabled = isAccessPasswordEnabled(accessPassword);
-  if (!enabled) return { enabled: false, authed: true };
+  if (!enabled) return { enabled: false, authed: true, mode: "open", user: SHARED_ACCESS_USER, token: null };
 
-  const token = request.cookies.get(ACCESS_COOKIE_NAME)?.value ?? "";
   const authed = verifyAccessToken(token, accessPassword);
-  return { enabled: true, authed };
+  return { enabled: true, authed, mode: "password", user: authed ? SHARED_ACCESS_USER : null, token: null };
+}
+
+/**
+ * 有 Web 用户时按用户登录；否则沿用 access_password 单密码（通过即为管理员），都没有则不做访问控制。
+ * 带了 Authorization: Bearer 时只认 API token（无效即未登录，不回退到 cookie）；没有创建者的共享 token 在多用户模式下降为只读。
+ */
+export async function getAccessStatus(request: NextRequest): Promise<AccessStatus> {
+  const status = await getCookieAccessStatus(request);
+  const bearer = getBearerToken(request);
+  if (!bearer) return status;
+
+  const access = await verifyApiToken(bearer);
+  if (!access) return { ...status, enabled: true, authed: false, user: null, token: null };
+  const legacyShared = !access.owner && status.mode === "users";
+  return {
+    ...status,
+    enabled: true,
+    authed: true,
+    user: access.owner ?? (legacyShared ? LEGACY_SHARED_TOKEN_USER : SHARED_ACCESS_USER),
+    token: {
+      id: access.id,
+      name: access.name,
+      scope: legacyShared ? "read" : access.scope,
+      rateLimitPerMinute: access.rateLimitPerMinute,
+    },
+  };
 }
 
-export async function requireApiAuth(request: NextRequest): Promise<NextResponse | null> {
-  const { enabled, authed } = await getAccessStatus(request);
-  if (!enabled || authed) return null;
-  return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+// requireApiAuth 通过后的登录状态：一定已登录、有用户
+export type ApiAccess = AccessStatus & { authed: true; user: AccessUser };
+
+export type ApiAuthResult = { error: NextResponse; access: null } | { error: null; access: ApiAccess };
+
+/**
+ * 校验登录与权限；permission 不传时按路由表推断（见 lib/permissions.ts）。
+ * 不通过时 error 为要返回的响应；通过时 access 为已解析的登录状态，路由里直接用，不必再调 getAccessStatus。
+ */
+export async function requireApiAuth(request: NextRequest, permission?: Permission): Promise<ApiAuthResult> {
+  const access = await getAccessStatus(request);
+  const { authed, user, token } = access;
+  if (!authed || !user) return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }), access: null };
+
+  const required = permission ?? getRequiredPermission(request.method, request.nextUrl.pathname);
+  if (!roleHasPermission(user.role, required)) {
+    return { error: NextResponse.json({ error: "当前用户没有权限执行该操作" }, { status: 403 }), access: null };
+  }
+
+  if (token) {
+    if (!apiTokenScopeAllows(token.scope, required, request.nextUrl.pathname)) {
+      return { error: NextResponse.json({ error: "API token 的权限范围不允许该操作" }, { status: 403 }), access: null };
+    }
+    const limited = checkApiTokenRateLimit(token);
+    if (limited) return { error: limited, access: null };
+    await touchApiTokenUsage(request, token.id);
+  }
+  return { error: null, access: { ...access, authed: true, user } };
 }
 
 export function setAccessCookie(response: NextResponse, token: string | null): void {
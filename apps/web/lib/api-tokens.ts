@@ -0,0 +1,101 @@
+import crypto from "node:crypto";
+import { and, eq, isNull, lt, or } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import { db, schema } from "@tg-back/db";
+import type { ApiTokenScope, WebRole } from "@/lib/permissions";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+
+// tgb_<43 位 base64url>；前缀便于在日志 / 密钥扫描里认出来
+const API_TOKEN_PREFIX = "tgb_";
+const API_TOKEN_DISPLAY_LENGTH = API_TOKEN_PREFIX.length + 6;
+// last_used_at 最多每分钟写一次，避免脚本高频调用时每个请求都写库
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+export const API_TOKEN_DEFAULT_RATE_LIMIT = 60;
+export const API_TOKEN_MAX_RATE_LIMIT = 1000;
+export const API_TOKEN_MAX_EXPIRES_DAYS = 3650;
+
+export type ApiTokenAccess = {
+  id: string;
+  name: string;
+  scope: ApiTokenScope;
+  rateLimitPerMinute: number;
+  // 创建者；为空表示单密码 / 未启用访问控制时创建的共享 token
+  owner: { id: string; username: string; role: WebRole } | null;
+};
+
+export function hashApiToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  return { token, tokenHash: hashApiToken(token), tokenPrefix: token.slice(0, API_TOKEN_DISPLAY_LENGTH) };
+}
+
+export function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get("authorization") ?? "";
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header);
+  return match?.[1] ?? null;
+}
+
+/**
+ * 查找 token：不存在、已撤销、已过期或创建者已停用时返回 null。
+ */
+export async function verifyApiToken(token: string): Promise<ApiTokenAccess | null> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) return null;
+
+  const [row] = await db
+    .select({
+      token: schema.apiTokens,
+      ownerUsername: schema.webUsers.username,
+      ownerRole: schema.webUsers.role,
+      ownerIsActive: schema.webUsers.isActive,
+    })
+    .from(schema.apiTokens)
+    .leftJoin(schema.webUsers, eq(schema.webUsers.id, schema.apiTokens.ownerUserId))
+    .where(eq(schema.apiTokens.tokenHash, hashApiToken(token)))
+    .limit(1);
+
+  if (!row || row.token.revokedAt) return null;
+  if (row.token.expiresAt && row.token.expiresAt.getTime() <= Date.now()) return null;
+
+  const { ownerUserId } = row.token;
+  if (ownerUserId && (!row.ownerUsername || !row.ownerRole || !row.ownerIsActive)) return null;
+
+  return {
+    id: row.token.id,
+    name: row.token.name,
+    scope: row.token.scope,
+    rateLimitPerMinute: row.token.rateLimitPerMinute,
+    owner: ownerUserId && row.ownerUsername && row.ownerRole ? { id: ownerUserId, username: row.ownerUsername, role: row.ownerRole } : null,
+  };
+}
+
+/**
+ * 每个 token 单独限流（按分钟窗口），超出返回 429。
+ */
+export function checkApiTokenRateLimit(token: { id: string; rateLimitPerMinute: number }): NextResponse | null {
+  const limiter = checkRateLimit(`api-token:${token.id}`, { windowMs: 60 * 1000, max: token.rateLimitPerMinute });
+  if (limiter.allowed) return null;
+  const res = NextResponse.json({ error: "Too many requests, please try again later" }, { status: 429 });
+  res.headers.set("Retry-After", String(limiter.retryAfterSec));
+  return res;
+}
+
+export async function touchApiTokenUsage(request: NextRequest, tokenId: string): Promise<void> {
+  const now = new Date();
+  const ip = getClientIp(request);
+  await db
+    .update(schema.apiTokens)
+    .set({ lastUsedAt: now, lastUsedIp: ip === "unknown" ? null : ip })
+    .where(
+      and(
+        eq(schema.apiTokens.id, tokenId),
+        or(
+          isNull(schema.apiTokens.lastUsedAt),
+          lt(schema.apiTokens.lastUsedAt, new Date(now.getTime() - LAST_USED_WRITE_INTERVAL_MS)),
+        ),
+      ),
+    );
+}
@@ -0,0 +1,116 @@
+import type { NextRequest } from "next/server";
+import { and, eq, gte, lte, type SQL } from "drizzle-orm";
+import { buildAuditChanges, db, isAuditAction, schema, type AuditAction } from "@tg-back/db";
+import { getAccessStatus, type AccessStatus } from "@/lib/api-auth";
+import type { WebRole } from "@/lib/permissions";
+import { getClientIp } from "@/lib/rate-limit";
+import { ilikeContains } from "@/lib/sql-like";
+import { getTrimmedString, parseDateSafe, splitKeywords } from "@/lib/utils";
+
+export type AuditActor = {
+  userId: string | null;
+  name: string;
+  role: WebRole | null;
+  apiTokenName: string | null;
+};
+
+export type AuditEntry = {
+  action: AuditAction;
+  targetType: string;
+  targetId?: string | null;
+  targetLabel?: string | null;
+  // 只传涉及的字段；新建时不传 before，删除时不传 after
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  // 操作本身会让当前登录失效（改自己的密码、创建第一个用户）时，需要在操作前先取好
+  actor?: AuditActor;
+};
+
+/**
+ * 按已解析的登录状态（requireApiAuth 返回的 access）得到操作者。
+ */
+export function getAuditActor({ mode, user, token }: AccessStatus): AuditActor {
+  const apiTokenName = token?.name ?? null;
+  if (user?.id) {
+    return { userId: user.id, name: user.username ?? "unknown", role: user.role, apiTokenName };
+  }
+  // 没有创建者的共享 token
+  if (token) return { userId: null, name: "api_token", role: user?.role ?? null, apiTokenName };
+  return { userId: null, name: mode === "password" ? "access_password" : "anonymous", role: user?.role ?? null, apiTokenName: null };
+}
+
+/**
+ * 写一条审计记录。前后都给了但没有任何字段变化时不记录；写入失败只打日志，不影响操作本身。
+ */
+export async function recordAudit(request: NextRequest, entry: AuditEntry): Promise<void> {
+  try {
+    const changes = buildAuditChanges(entry.before, entry.after);
+    if (entry.before && entry.after && !Object.keys(changes).length) return;
+
+    const actor = entry.actor ?? getAuditActor(await getAccessStatus(request));
+    const ip = getClientIp(request);
+
+    await db.insert(schema.auditLogs).values({
+      actorUserId: actor.userId,
+      actorName: actor.name,
+      actorRole: actor.role,
+      apiTokenName: actor.apiTokenName,
+      ip: ip === "unknown" ? null : ip,
+      method: request.method,
+      route: request.nextUrl.pathname,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId ?? null,
+      targetLabel: entry.targetLabel ?? null,
+      changes,
+    });
+  } catch (error: unknown) {
+    console.error(`[audit] failed to record ${entry.action}:`, error);
+  }
+}
+
+/**
+ * 审计页与导出共用的筛选：actor / action / targetType / targetId / q（目标名称关键词）/ start / end。
+ */
+export function buildAuditLogWhere(params: URLSearchParams): SQL | undefined {
+  const actor = getTrimmedString(params.get("actor"));
+  const actionRaw = getTrimmedString(params.get("action"));
+  const targetType = getTrimmedString(params.get("targetType"));
+  const targetId = getTrimmedString(params.get("targetId"));
+  const q = getTrimmedString(params.get("q"));
+  const start = getTrimmedString(params.get("start"));
+  const end = getTrimmedString(params.get("end"));
+
+  const action = isAuditAction(actionRaw) ? actionRaw : null;
+  const startDate = start ? parseDateSafe(start) : null;
+  const endDate = end ? parseDateSafe(end) : null;
+
+  return and(
+    actor ? eq(schema.auditLogs.actorName, actor) : undefined,
+    action ? eq(schema.auditLogs.action, action) : undefined,
+    targetType ? eq(schema.auditLogs.targetType, targetType) : undefined,
+    targetId ? eq(schema.auditLogs.targetId, targetId) : undefined,
+    startDate ? gte(schema.auditLogs.createdAt, startDate) : undefined,
+    endDate ? lte(schema.auditLogs.createdAt, endDate) : undefined,
+    ...(q ? splitKeywords(q) : []).map((k) => ilikeContains(schema.auditLogs.targetLabel, k)),
+  );
+}
+
+export function toPublicAuditLog(row: typeof schema.auditLogs.$inferSelect) {
+  return {
+    id: row.id,
+    createdAt: row.createdAt.toISOString(),
+    actorUserId: row.actorUserId,
+    actorName: row.actorName,
+    actorRole: row.actorRole,
+    apiTokenName: row.apiTokenName,
+    ip: row.ip,
+    method: row.method,
+    route: row.route,
+    action: row.action,
+    targetType: row.targetType,
+    targetId: row.targetId,
+    targetLabel: row.targetLabel,
+    changes: row.changes,
+  };
+}
@@ -2,5 +2,5 @@ import { loadEnv } from "@/lib/env";
 
 loadEnv();
 
-export { decrypt, encrypt } from "@tg-back/crypto";
+export { decrypt, deriveSecretToken, encrypt } from "@tg-back/crypto";
 
@@ -0,0 +1,446 @@
+/**
+ * /api/export/messages 的输出格式：逐条生成文本片段，路由按页读库、边读边写，不会把整个频道读进内存。
+ * - jsonl：每行一个 JSON（meta / message / comment）
+ * - csv：表格软件用，评论单独成行（kind=comment）
+ * - html：单文件静态归档，内联样式，分页（纯 CSS :target 切换），本地归档的图片/预览图以 data URI 内嵌
+ * - tdesktop：Telegram Desktop “Export chat history” 的 result.json 结构
+ */
+
+export const EXPORT_FORMATS = ["jsonl", "csv", "html", "tdesktop"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  jsonl: "JSONL",
+  csv: "CSV（表格）",
+  html: "HTML 归档",
+  tdesktop: "Telegram Desktop JSON",
+};
+
+export type ExportChannel = {
+  id: string;
+  name: string;
+  channelIdentifier: string;
+  telegramId: string | null;
+  username: string | null;
+};
+
+export type ExportMessage = {
+  id: string;
+  sourceChannelId: string;
+  sourceMessageId: number;
+  sourceLink: string | null;
+  mirrorChannelId: string;
+  mirrorMessageId: number | null;
+  mirrorLink: string | null;
+  messageType: string;
+  mediaGroupId: string | null;
+  groupSize: number;
+  status: string;
+  skipReason: string | null;
+  errorMessage: string | null;
+  retryCount: number;
+  hasMedia: boolean;
+  fileSize: number | null;
+  text: string | null;
+  sentAt: string | null;
+  mirroredAt: string | null;
+  isDeleted: boolean;
+  deletedAt: string | null;
+  editCount: number;
+  lastEditedAt: string | null;
+};
+
+// 与 lib/message-comments 的 MessageComment 对应
+export type ExportComment = {
+  id: string;
+  messageMappingId: string;
+  sourceCommentId: number;
+  replyToCommentId: number | null;
+  authorId: string | null;
+  authorName: string | null;
+  text: string | null;
+  messageType: string;
+  mediaGroupId: string | null;
+  status: string;
+  mirrorMessageId: number | null;
+  errorMessage: string | null;
+  sentAt: string;
+  mirroredAt: string | null;
+};
+
+// HTML 归档里内嵌的媒体；dataUri 为空时只显示文件名占位
+export type ExportInlineMedia = {
+  kind: "image" | "video" | "audio" | "file";
+  mimeType: string | null;
+  fileName: string | null;
+  dataUri: string | null;
+};
+
+export type ExportContext = {
+  source: ExportChannel;
+  mirror: ExportChannel;
+  exportedAt: Date;
+  filters: Record<string, unknown>;
+};
+
+export type ExportWriter = {
+  contentType: string;
+  fileExtension: string;
+  // tdesktop / html 按时间正序输出，其余按时间倒序（与消息浏览一致）
+  ascending: boolean;
+  start: () => string;
+  message: (message: ExportMessage, extras: { comments: ExportComment[]; media: ExportInlineMedia[] }) => string;
+  end: () => string;
+};
+
+export function parseExportFormat(value: string | null | undefined): ExportFormat | null {
+  const normalized = (value ?? "").trim().toLowerCase() || "jsonl";
+  return (EXPORT_FORMATS as readonly string[]).includes(normalized) ? (normalized as ExportFormat) : null;
+}
+
+// ---- CSV ----
+
+const CSV_COLUMNS = [
+  "kind",
+  "id",
+  "post_id",
+  "source_message_id",
+  "source_link",
+  "mirror_message_id",
+  "mirror_link",
+  "sent_at",
+  "message_type",
+  "media_group_id",
+  "group_size",
+  "status",
+  "skip_reason",
+  "has_media",
+  "file_size",
+  "is_deleted",
+  "edit_count",
+  "author",
+  "reply_to",
+  "text",
+  "error_message",
+] as const;
+
+type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * 单元格转义：含逗号/引号/换行时加引号；以 = + - @ 开头的文本前面补一个 '，避免被表格软件当成公式执行。
+ */
+export function toCsvCell(value: CsvValue): string {
+  if (value == null) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvRow(values: readonly CsvValue[]): string {
+  return `${values.map(toCsvCell).join(",")}\r\n`;
+}
+
+function createCsvWriter(): ExportWriter {
+  return {
+    contentType: "text/csv; charset=utf-8",
+    fileExtension: "csv",
+    ascending: false,
+    // BOM：让 Excel 按 UTF-8 打开中文
+    start: () => `\uFEFF${toCsvRow(CSV_COLUMNS)}`,
+    message: (m, { comments }) => {
+      const post = toCsvRow([
+        "message",
+        m.id,
+        null,
+        m.sourceMessageId,
+        m.sourceLink,
+        m.mirrorMessageId,
+        m.mirrorLink,
+        m.sentAt,
+        m.messageType,
+        m.mediaGroupId,
+        m.groupSize,
+        m.status,
+        m.skipReason,
+        m.hasMedia,
+        m.fileSize,
+        m.isDeleted,
+        m.editCount,
+        null,
+        null,
+        m.text,
+        m.errorMessage,
+      ]);
+      const rows = comments.map((c) =>
+        toCsvRow([
+          "comment",
+          c.id,
+          m.id,
+          c.sourceCommentId,
+          null,
+          c.mirrorMessageId,
+          null,
+          c.sentAt,
+          c.messageType,
+          null,
+          null,
+          c.status,
+          null,
+          c.messageType !== "text",
+          null,
+          false,
+          null,
+          c.authorName ?? c.authorId,
+          c.replyToCommentId,
+          c.text,
+          null,
+        ]),
+      );
+      return post + rows.join("");
+    },
+    end: () => "",
+  };
+}
+
+// ---- JSONL ----
+
+function createJsonlWriter(ctx: ExportContext): ExportWriter {
+  return {
+    contentType: "application/x-ndjson; charset=utf-8",
+    fileExtension: "jsonl",
+    ascending: false,
+    start: () =>
+      `${JSON.stringify({
+        type: "meta",
+        exportedAt: ctx.exportedAt.toISOString(),
+        sourceChannel: ctx.source,
+        mirrorChannel: ctx.mirror,
+        filters: ctx.filters,
+      })}\n`,
+    message: (m, { comments }) =>
+      [
+        JSON.stringify({ type: "message", ...m }),
+        ...comments.map((c) => JSON.stringify({ type: "comment", postId: m.id, postSourceMessageId: m.sourceMessageId, ...c })),
+      ]
+        .map((line) => `${line}\n`)
+        .join(""),
+    end: () => "",
+  };
+}
+
+// ---- Telegram Desktop result.json ----
+
+// Telegram Desktop 没导出媒体时就是这么写的
+const TDESKTOP_FILE_NOT_INCLUDED = "(File not included. Change data exporting settings to download.)";
+
+const TDESKTOP_MEDIA_TYPES: Record<string, string> = {
+  video: "video_file",
+  animation: "animation",
+  audio: "audio_file",
+  voice: "voice_message",
+  sticker: "sticker",
+};
+
+// Telegram Desktop 用不带时区的本地时间；这里统一输出 UTC，另附 *_unixtime
+function toTdesktopDate(iso: string): { date: string; unixtime: string } {
+  const d = new Date(iso);
+  return { date: d.toISOString().slice(0, 19), unixtime: String(Math.floor(d.getTime() / 1000)) };
+}
+
+function toTdesktopId(telegramId: string | null): number | string | null {
+  if (!telegramId) return null;
+  const n = Number(telegramId);
+  return Number.isSafeInteger(n) ? n : telegramId;
+}
+
+export function toTdesktopMessage(m: ExportMessage, source: ExportChannel): Record<string, unknown> {
+  const sent = toTdesktopDate(m.sentAt ?? new Date(0).toISOString());
+  const text = m.text ?? "";
+  const out: Record<string, unknown> = {
+    id: m.sourceMessageId,
+    type: "message",
+    date: sent.date,
+    date_unixtime: sent.unixtime,
+    from: source.name,
+    from_id: source.telegramId ? `channel${source.telegramId}` : null,
+  };
+  if (m.lastEditedAt) {
+    const edited = toTdesktopDate(m.lastEditedAt);
+    out.edited = edited.date;
+    out.edited_unixtime = edited.unixtime;
+  }
+  if (m.hasMedia) {
+    if (m.messageType === "photo") {
+      out.photo = TDESKTOP_FILE_NOT_INCLUDED;
+    } else if (m.messageType !== "text") {
+      out.file = TDESKTOP_FILE_NOT_INCLUDED;
+      if (m.fileSize != null) out.file_size = m.fileSize;
+      const mediaType = TDESKTOP_MEDIA_TYPES[m.messageType];
+      if (mediaType) out.media_type = mediaType;
+    }
+  }
+  out.text = text;
+  out.text_entities = text ? [{ type: "plain", text }] : [];
+  return out;
+}
+
+function createTdesktopWriter(ctx: ExportContext): ExportWriter {
+  let count = 0;
+  return {
+    contentType: "application/json; charset=utf-8",
+    fileExtension: "json",
+    ascending: true,
+    start: () => {
+      const header = {
+        name: ctx.source.name,
+        type: ctx.source.username ? "public_channel" : "private_channel",
+        id: toTdesktopId(ctx.source.telegramId),
+      };
+      // 手工拼出 "messages": [ ... ]，逐条写入
+      return `${JSON.stringify(header, null, 1).replace(/\n}$/, "")},\n "messages": [\n`;
+    },
+    message: (m) => {
+      const prefix = count > 0 ? ",\n" : "";
+      count += 1;
+      return `${prefix}  ${JSON.stringify(toTdesktopMessage(m, ctx.source))}`;
+    },
+    end: () => `${count > 0 ? "\n" : ""} ]\n}\n`,
+  };
+}
+
+// ---- HTML ----
+
+const HTML_PAGE_SIZE = 100;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatHtmlTime(iso: string | null): string {
+  if (!iso) return "-";
+  return escapeHtml(iso.replace("T", " ").slice(0, 19));
+}
+
+const HTML_STYLE = `
+*{box-sizing:border-box}
+body{margin:0;background:#f4f5f7;color:#111827;font:14px/1.6 -apple-system,BlinkMacSystemFont,"Segoe UI","PingFang SC","Microsoft YaHei",sans-serif}
+header.top{background:#fff;border-bottom:1px solid #e5e7eb;padding:16px 24px}
+header.top h1{margin:0;font-size:20px}
+header.top .meta{color:#6b7280;font-size:12px}
+main{max-width:820px;margin:0 auto;padding:16px}
+.page{display:none}
+.page:target,body:not(:has(.page:target)) .page:first-of-type{display:block}
+.msg{background:#fff;border:1px solid #e5e7eb;border-radius:12px;padding:12px 16px;margin:12px 0}
+.msg .head{display:flex;flex-wrap:wrap;gap:8px;color:#6b7280;font-size:12px}
+.msg .head a{color:#2563eb;text-decoration:none}
+.badge{border-radius:999px;background:#eef2ff;color:#4338ca;padding:0 8px}
+.badge.deleted{background:#fee2e2;color:#b91c1c}
+.text{white-space:pre-wrap;word-break:break-word;margin-top:8px}
+.media{display:flex;flex-wrap:wrap;gap:8px;margin-top:8px}
+.media img,.media video{max-width:100%;max-height:480px;border-radius:8px}
+.media .file{border:1px dashed #d1d5db;border-radius:8px;padding:8px 12px;color:#6b7280}
+details.comments{margin-top:8px;border-top:1px solid #f3f4f6;padding-top:8px}
+details.comments summary{cursor:pointer;color:#2563eb}
+.comment{margin:8px 0 0 12px;padding-left:12px;border-left:3px solid #e5e7eb}
+.comment .author{font-weight:600}
+nav.pager{display:flex;justify-content:space-between;margin:16px 0;color:#6b7280}
+nav.pager a{color:#2563eb;text-decoration:none}
+@media (prefers-color-scheme:dark){body{background:#0f172a;color:#e2e8f0}header.top,.msg{background:#111827;border-color:#1f2937}.badge{background:#1e1b4b;color:#c7d2fe}}
+`;
+
+function renderHtmlMedia(media: ExportInlineMedia[]): string {
+  if (!media.length) return "";
+  const items = media.map((item) => {
+    const name = escapeHtml(item.fileName ?? item.mimeType ?? item.kind);
+    if (item.dataUri && item.kind === "image") return `<img src="${item.dataUri}" alt="${name}" loading="lazy">`;
+    if (item.dataUri && item.kind === "video") return `<video src="${item.dataUri}" controls preload="none"></video>`;
+    if (item.dataUri && item.kind === "audio") return `<audio src="${item.dataUri}" controls preload="none"></audio>`;
+    return `<div class="file">[${item.kind === "file" ? "文件" : item.kind === "image" ? "图片" : item.kind === "video" ? "视频" : "音频"}] ${name}</div>`;
+  });
+  return `<div class="media">${items.join("")}</div>`;
+}
+
+function renderHtmlComments(comments: ExportComment[]): string {
+  if (!comments.length) return "";
+  const authorById = new Map(comments.map((c) => [c.sourceCommentId, c.authorName ?? `#${c.sourceCommentId}`]));
+  const items = comments.map((c) => {
+    const author = escapeHtml(c.authorName ?? (c.authorId ? `用户 ${c.authorId}` : "匿名"));
+    const replyTo =
+      c.replyToCommentId != null ? ` · 回复 ${escapeHtml(authorById.get(c.replyToCommentId) ?? `#${c.replyToCommentId}`)}` : "";
+    const text = c.text?.trim() ? escapeHtml(c.text) : c.messageType !== "text" ? `[${escapeHtml(c.messageType)}]` : "";
+    return `<div class="comment"><div class="head"><span class="author">${author}</span> <span>${formatHtmlTime(c.sentAt)}${replyTo}</span></div><div class="text">${text}</div></div>`;
+  });
+  return `<details class="comments"><summary>评论（${comments.length}）</summary>${items.join("")}</details>`;
+}
+
+export function renderHtmlMessage(m: ExportMessage, extras: { comments: ExportComment[]; media: ExportInlineMedia[] }): string {
+  const badges = [
+    m.messageType !== "text" ? `<span class="badge">${escapeHtml(m.messageType)}${m.groupSize > 1 ? ` ×${m.groupSize}` : ""}</span>` : "",
+    m.isDeleted ? `<span class="badge deleted">源频道已删除</span>` : "",
+    m.editCount > 0 ? `<span class="badge">编辑 ${m.editCount} 次</span>` : "",
+  ].join("");
+  const idLabel = `#${m.sourceMessageId}`;
+  const idHtml = m.sourceLink ? `<a href="${escapeHtml(m.sourceLink)}" target="_blank" rel="noreferrer">${idLabel}</a>` : idLabel;
+  const mirrorHtml = m.mirrorLink ? `<a href="${escapeHtml(m.mirrorLink)}" target="_blank" rel="noreferrer">镜像</a>` : "";
+  const text = m.text?.trim() ? `<div class="text">${escapeHtml(m.text)}</div>` : "";
+  return `<article class="msg" id="m${m.sourceMessageId}"><div class="head">${idHtml}<span>${formatHtmlTime(m.sentAt)}</span>${mirrorHtml}${badges}</div>${renderHtmlMedia(extras.media)}${text}${renderHtmlComments(extras.comments)}</article>\n`;
+}
+
+function renderHtmlPager(page: number, hasNext: boolean): string {
+  const prev = page > 1 ? `<a href="#page-${page - 1}">← 上一页</a>` : "<span></span>";
+  const next = hasNext ? `<a href="#page-${page + 1}">下一页 →</a>` : "<span></span>";
+  return `<nav class="pager">${prev}<span>第 ${page} 页</span>${next}</nav>`;
+}
+
+function createHtmlWriter(ctx: ExportContext): ExportWriter {
+  let count = 0;
+  let page = 1;
+  return {
+    contentType: "text/html; charset=utf-8",
+    fileExtension: "html",
+    ascending: true,
+    start: () => {
+      const title = escapeHtml(ctx.source.name);
+      return `<!doctype html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width,initial-scale=1">
+<title>${title}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<header class="top"><h1>${title}</h1><div class="meta">${escapeHtml(ctx.source.username ? `@${ctx.source.username}` : ctx.source.channelIdentifier)} · 导出于 ${formatHtmlTime(ctx.exportedAt.toISOString())} (UTC)</div></header>
+<main>
+<section class="page" id="page-1">
+`;
+    },
+    message: (m, extras) => {
+      let prefix = "";
+      if (count > 0 && count % HTML_PAGE_SIZE === 0) {
+        prefix = `${renderHtmlPager(page, true)}</section>\n<section class="page" id="page-${page + 1}">\n`;
+        page += 1;
+      }
+      count += 1;
+      return prefix + renderHtmlMessage(m, extras);
+    },
+    end: () =>
+      `${count === 0 ? '<p class="meta">没有符合条件的消息</p>' : ""}${renderHtmlPager(page, false)}</section>
+</main>
+</body>
+</html>
+`,
+  };
+}
+
+export function createExportWriter(format: ExportFormat, ctx: ExportContext): ExportWriter {
+  if (format === "csv") return createCsvWriter();
+  if (format === "html") return createHtmlWriter(ctx);
+  if (format === "tdesktop") return createTdesktopWriter(ctx);
+  return createJsonlWriter(ctx);
+}
@@ -0,0 +1,49 @@
+import { ne, sql } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+
+export type HistoryPartialRange = {
+  startId: number | null;
+  endId: number | null;
+  startAt: Date | null;
+  endAt: Date | null;
+  remirror: boolean;
+};
+
+/**
+ * 每个频道只保留一条 history_partial（unique(source_channel_id, task_type)），重新提交即覆盖范围并从头开始。
+ * 运行中的任务不能覆盖：判断放在 upsert 的 where 里，和写入是同一条语句，并发提交也只有一个能生效。
+ *
+ * 返回 null 表示任务正在运行。
+ */
+export async function enqueueHistoryPartialTask(
+  channelId: string,
+  range: HistoryPartialRange,
+): Promise<{ id: string; created: boolean } | null> {
+  const values = {
+    status: "pending" as const,
+    startedAt: null,
+    pausedAt: null,
+    completedAt: null,
+    lastError: null,
+    progressCurrent: 0,
+    progressTotal: null,
+    lastProcessedId: null,
+    rangeStartId: range.startId,
+    rangeEndId: range.endId,
+    rangeStartAt: range.startAt,
+    rangeEndAt: range.endAt,
+    rangeRemirror: range.remirror,
+  };
+
+  const [row] = await db
+    .insert(schema.syncTasks)
+    .values({ sourceChannelId: channelId, taskType: "history_partial", ...values })
+    .onConflictDoUpdate({
+      target: [schema.syncTasks.sourceChannelId, schema.syncTasks.taskType],
+      set: values,
+      setWhere: ne(schema.syncTasks.status, "running"),
+    })
+    .returning({ id: schema.syncTasks.id, created: sql<boolean>`(xmax = 0)` });
+
+  return row ?? null;
+}
@@ -0,0 +1,175 @@
+import fs from "node:fs";
+import path from "node:path";
+import { and, asc, eq, inArray, or } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+
+const DEFAULT_ARCHIVE_DIR = "./data/media";
+
+export type ArchivedMedia = {
+  id: string;
+  mimeType: string | null;
+  fileName: string | null;
+  fileSize: number | null;
+  width: number | null;
+  height: number | null;
+  durationSec: number | null;
+  hasThumbnail: boolean;
+  urls: { file: string; thumb: string; download: string };
+};
+
+function findRepoRoot(startDir: string): string | null {
+  let current = path.resolve(startDir);
+  for (let i = 0; i < 12; i += 1) {
+    if (fs.existsSync(path.join(current, "pnpm-workspace.yaml"))) return current;
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    current = parent;
+  }
+  return null;
+}
+
+// 与 mirror-service 相同的规则：TG_BACK_MEDIA_ARCHIVE_DIR 相对路径按仓库根目录解析
+export function resolveMediaArchiveDir(): string {
+  const raw = process.env.TG_BACK_MEDIA_ARCHIVE_DIR?.trim() || DEFAULT_ARCHIVE_DIR;
+  // 统一去掉末尾的分隔符等，resolveArchivedFilePath 按 root + sep 做越界检查
+  if (path.isAbsolute(raw)) return path.resolve(raw);
+  const repoRoot = findRepoRoot(process.cwd()) ?? process.cwd();
+  return path.resolve(repoRoot, raw);
+}
+
+// 与 mirror-service 的 TDESKTOP_IMPORT_STAGING_DIR 保持一致：上传的 Telegram Desktop 导出先暂存在这里，由 mirror-service 导入后删除
+export function resolveImportStagingDir(): string {
+  return path.join(resolveMediaArchiveDir(), ".imports");
+}
+
+// storage_path 来自数据库，仍然做一次越界检查，避免拼出归档目录以外的路径
+export function resolveArchivedFilePath(storagePath: string): string | null {
+  const root = resolveMediaArchiveDir();
+  const resolved = path.resolve(root, storagePath);
+  if (!resolved.startsWith(root + path.sep)) return null;
+  return resolved;
+}
+
+export function buildArchivedMediaUrls(id: string): ArchivedMedia["urls"] {
+  const base = `/api/messages/media?id=${encodeURIComponent(id)}`;
+  return { file: base, thumb: `${base}&variant=thumb`, download: `${base}&download=1` };
+}
+
+/**
+ * 批量读取已归档（status=stored）的媒体信息，按 messageMappingId 索引。
+ */
+export async function loadArchivedMediaByMappingIds(mappingIds: string[]): Promise<Map<string, ArchivedMedia>> {
+  const out = new Map<string, ArchivedMedia>();
+  if (!mappingIds.length) return out;
+
+  const rows = await db
+    .select({
+      id: schema.messageMedia.id,
+      messageMappingId: schema.messageMedia.messageMappingId,
+      mimeType: schema.messageMedia.mimeType,
+      fileName: schema.messageMedia.fileName,
+      fileSize: schema.messageMedia.fileSize,
+      width: schema.messageMedia.width,
+      height: schema.messageMedia.height,
+      durationSec: schema.messageMedia.durationSec,
+      thumbStoragePath: schema.messageMedia.thumbStoragePath,
+    })
+    .from(schema.messageMedia)
+    .where(and(inArray(schema.messageMedia.messageMappingId, mappingIds), eq(schema.messageMedia.status, "stored")));
+
+  for (const r of rows) {
+    out.set(r.messageMappingId, {
+      id: r.id,
+      mimeType: r.mimeType,
+      fileName: r.fileName,
+      fileSize: r.fileSize ?? null,
+      width: r.width,
+      height: r.height,
+      durationSec: r.durationSec,
+      hasThumbnail: !!r.thumbStoragePath || !!r.mimeType?.startsWith("image/"),
+      urls: buildArchivedMediaUrls(r.id),
+    });
+  }
+
+  return out;
+}
+
+// 导出时内嵌到 HTML 的文件引用；只在写出那一条时才读文件，避免整页媒体同时驻留内存
+export type ArchivedFileRef = {
+  messageMappingId: string;
+  mimeType: string | null;
+  fileName: string | null;
+  fileSize: number | null;
+  storagePath: string | null;
+  thumbStoragePath: string | null;
+};
+
+/**
+ * 按帖子读取已归档媒体的文件引用（相册按 mediaGroupId 合并到同一帖子），按 post.id 索引，组内按 sourceMessageId 排序。
+ */
+export async function loadArchivedFileRefsByPost(
+  posts: { id: string; sourceChannelId: string; mediaGroupId: string | null }[],
+): Promise<Map<string, ArchivedFileRef[]>> {
+  const out = new Map<string, ArchivedFileRef[]>();
+  if (!posts.length) return out;
+
+  const m = schema.messageMappings;
+  const mm = schema.messageMedia;
+  const byGroup = new Map(
+    posts.filter((p) => p.mediaGroupId).map((p) => [`${p.sourceChannelId}:${p.mediaGroupId}`, p.id] as const),
+  );
+  const groupIds = [...new Set(posts.map((p) => p.mediaGroupId).filter((id): id is string => !!id))];
+  const mappingIds = posts.map((p) => p.id);
+  const matchPost = groupIds.length ? or(inArray(m.id, mappingIds), inArray(m.mediaGroupId, groupIds)) : inArray(m.id, mappingIds);
+
+  const rows = await db
+    .select({
+      messageMappingId: mm.messageMappingId,
+      sourceChannelId: m.sourceChannelId,
+      mediaGroupId: m.mediaGroupId,
+      mimeType: mm.mimeType,
+      fileName: mm.fileName,
+      fileSize: mm.fileSize,
+      storagePath: mm.storagePath,
+      thumbStoragePath: mm.thumbStoragePath,
+    })
+    .from(mm)
+    .innerJoin(m, eq(m.id, mm.messageMappingId))
+    .where(and(matchPost, eq(mm.status, "stored")))
+    .orderBy(asc(m.sourceMessageId));
+
+  const postIds = new Set(mappingIds);
+  for (const r of rows) {
+    const postId =
+      (r.mediaGroupId ? byGroup.get(`${r.sourceChannelId}:${r.mediaGroupId}`) : undefined) ??
+      (postIds.has(r.messageMappingId) ? r.messageMappingId : null);
+    if (!postId) continue;
+    const list = out.get(postId) ?? [];
+    list.push({
+      messageMappingId: r.messageMappingId,
+      mimeType: r.mimeType,
+      fileName: r.fileName,
+      fileSize: r.fileSize ?? null,
+      storagePath: r.storagePath,
+      thumbStoragePath: r.thumbStoragePath,
+    });
+    out.set(postId, list);
+  }
+  return out;
+}
+
+/**
+ * 读取归档文件为 data URI；超过 maxBytes、路径越界或文件不存在时返回 null。
+ */
+export async function readArchivedFileAsDataUri(storagePath: string, mimeType: string | null, maxBytes: number): Promise<string | null> {
+  const filePath = resolveArchivedFilePath(storagePath);
+  if (!filePath) return null;
+  try {
+    const stat = await fs.promises.stat(filePath);
+    if (!stat.isFile() || stat.size > maxBytes) return null;
+    const data = await fs.promises.readFile(filePath);
+    return `data:${mimeType || "application/octet-stream"};base64,${data.toString("base64")}`;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,134 @@
+import { asc, eq, inArray, or, sql } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+
+// 消息列表 / 导出里的一行：相册按组展示时评论可能挂在组内任意一条上，所以带上 mediaGroupId 一起匹配
+export type MessageCommentPost = {
+  id: string;
+  sourceChannelId: string;
+  mediaGroupId: string | null;
+};
+
+export type MessageComment = {
+  id: string;
+  messageMappingId: string;
+  sourceCommentId: number;
+  replyToCommentId: number | null;
+  authorId: string | null;
+  authorName: string | null;
+  text: string | null;
+  messageType: (typeof schema.messageTypeEnum.enumValues)[number];
+  mediaGroupId: string | null;
+  status: (typeof schema.messageStatusEnum.enumValues)[number];
+  mirrorMessageId: number | null;
+  errorMessage: string | null;
+  sentAt: string;
+  mirroredAt: string | null;
+};
+
+const c = schema.messageComments;
+const m = schema.messageMappings;
+
+function buildPostMatcher(posts: MessageCommentPost[]) {
+  const byMappingId = new Map(posts.map((p) => [p.id, p.id]));
+  const byGroup = new Map(
+    posts.filter((p) => p.mediaGroupId).map((p) => [`${p.sourceChannelId}:${p.mediaGroupId}`, p.id] as const),
+  );
+  const mappingIds = posts.map((p) => p.id);
+  const groupIds = [...new Set(posts.map((p) => p.mediaGroupId).filter((id): id is string => !!id))];
+  const where = groupIds.length ? or(inArray(m.id, mappingIds), inArray(m.mediaGroupId, groupIds)) : inArray(m.id, mappingIds);
+
+  const resolve = (row: { messageMappingId: string; sourceChannelId: string; mediaGroupId: string | null }): string | null =>
+    (row.mediaGroupId ? byGroup.get(`${row.sourceChannelId}:${row.mediaGroupId}`) : undefined) ??
+    byMappingId.get(row.messageMappingId) ??
+    null;
+
+  return { where, resolve };
+}
+
+/**
+ * 每条帖子（或相册）已记录的评论数，按 post.id 索引。
+ */
+export async function loadCommentCountsByPost(posts: MessageCommentPost[]): Promise<Map<string, number>> {
+  const out = new Map<string, number>();
+  if (!posts.length) return out;
+
+  const { where, resolve } = buildPostMatcher(posts);
+  const rows = await db
+    .select({
+      messageMappingId: m.id,
+      sourceChannelId: m.sourceChannelId,
+      mediaGroupId: m.mediaGroupId,
+      count: sql<number>`count(*)`.mapWith(Number),
+    })
+    .from(c)
+    .innerJoin(m, eq(m.id, c.messageMappingId))
+    .where(where)
+    .groupBy(m.id, m.sourceChannelId, m.mediaGroupId);
+
+  for (const row of rows) {
+    const postId = resolve(row);
+    if (postId) out.set(postId, (out.get(postId) ?? 0) + row.count);
+  }
+  return out;
+}
+
+/**
+ * 读取帖子（或相册）的评论，按发送时间排序，按 post.id 索引。
+ */
+export async function loadCommentsByPost(posts: MessageCommentPost[]): Promise<Map<string, MessageComment[]>> {
+  const out = new Map<string, MessageComment[]>();
+  if (!posts.length) return out;
+
+  const { where, resolve } = buildPostMatcher(posts);
+  const rows = await db
+    .select({
+      id: c.id,
+      messageMappingId: c.messageMappingId,
+      sourceChannelId: m.sourceChannelId,
+      postMediaGroupId: m.mediaGroupId,
+      sourceCommentId: c.sourceCommentId,
+      replyToCommentId: c.replyToCommentId,
+      authorId: c.authorId,
+      authorName: c.authorName,
+      text: c.text,
+      messageType: c.messageType,
+      mediaGroupId: c.mediaGroupId,
+      status: c.status,
+      mirrorMessageId: c.mirrorMessageId,
+      errorMessage: c.errorMessage,
+      sentAt: c.sentAt,
+      mirroredAt: c.mirroredAt,
+    })
+    .from(c)
+    .innerJoin(m, eq(m.id, c.messageMappingId))
+    .where(where)
+    .orderBy(asc(c.sentAt), asc(c.sourceCommentId));
+
+  for (const row of rows) {
+    const postId = resolve({
+      messageMappingId: row.messageMappingId,
+      sourceChannelId: row.sourceChannelId,
+      mediaGroupId: row.postMediaGroupId,
+    });
+    if (!postId) continue;
+    const list = out.get(postId) ?? [];
+    list.push({
+      id: row.id,
+      messageMappingId: row.messageMappingId,
+      sourceCommentId: row.sourceCommentId,
+      replyToCommentId: row.replyToCommentId,
+      authorId: row.authorId == null ? null : row.authorId.toString(),
+      authorName: row.authorName,
+      text: row.text,
+      messageType: row.messageType,
+      mediaGroupId: row.mediaGroupId,
+      status: row.status,
+      mirrorMessageId: row.mirrorMessageId,
+      errorMessage: row.errorMessage,
+      sentAt: row.sentAt.toISOString(),
+      mirroredAt: row.mirroredAt ? row.mirroredAt.toISOString() : null,
+    });
+    out.set(postId, list);
+  }
+  return out;
+}
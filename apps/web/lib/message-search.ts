@@ -0,0 +1,60 @@
+import { and, not, or, sql, type SQL } from "drizzle-orm";
+import { schema } from "@tg-back/db";
+import { ilikeContains } from "@/lib/sql-like";
+import { getPositiveSearchTerms, shouldUseFullTextSearch, type SearchQuery, type SearchTerm } from "@/lib/search-query";
+
+const TS_CONFIG = sql.raw("'simple'");
+
+function buildTermMatch(term: SearchTerm): SQL {
+  if (shouldUseFullTextSearch(term)) {
+    return sql`${schema.messageMappings.textSearch} @@ phraseto_tsquery(${TS_CONFIG}, ${term.text})`;
+  }
+  return ilikeContains(schema.messageMappings.text, term.text);
+}
+
+/**
+ * 把解析后的搜索语法转换成 where 条件：组内 AND，组间 OR，排除词用 NOT。
+ */
+export function buildMessageSearchCondition(query: SearchQuery | null): SQL | undefined {
+  if (!query) return undefined;
+
+  const groups = query.groups.map((group) =>
+    and(
+      ...group.map((term) =>
+        // text 为 NULL 时 ILIKE 结果也是 NULL，排除条件需要当成“不包含”
+        term.exclude ? not(sql`coalesce(${buildTermMatch(term)}, false)`) : buildTermMatch(term),
+      ),
+    ),
+  );
+
+  return groups.length === 1 ? groups[0] : or(...groups);
+}
+
+/**
+ * 相关度：全文检索部分用 ts_rank_cd（归一化到 0~1），CJK 词按出现次数 n 折算为 n/(n+1)，两者相加。
+ * 只有排除词时返回 null，调用方回退到按时间排序。
+ */
+export function buildMessageSearchRank(query: SearchQuery | null): SQL<number> | null {
+  const terms = getPositiveSearchTerms(query);
+  if (!terms.length) return null;
+
+  const parts: SQL[] = [];
+
+  const ftsTerms = terms.filter(shouldUseFullTextSearch);
+  if (ftsTerms.length) {
+    const tsQuery = sql.join(
+      ftsTerms.map((term) => sql`phraseto_tsquery(${TS_CONFIG}, ${term.text})`),
+      sql` || `,
+    );
+    parts.push(sql`ts_rank_cd(${schema.messageMappings.textSearch}, (${tsQuery}), 32)`);
+  }
+
+  for (const term of terms.filter((t) => !shouldUseFullTextSearch(t))) {
+    const needle = term.text.toLowerCase();
+    const text = sql`lower(coalesce(${schema.messageMappings.text}, ''))`;
+    const occurrences = sql`((length(${text}) - length(replace(${text}, ${needle}, ''))) / ${needle.length}::float)`;
+    parts.push(sql`(${occurrences} / (${occurrences} + 1))`);
+  }
+
+  return sql<number>`(${sql.join(parts, sql` + `)})`.mapWith(Number);
+}
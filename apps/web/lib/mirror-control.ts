@@ -0,0 +1,48 @@
+import { MIRROR_CONTROL_DEFAULT_PORT } from "@tg-back/db";
+import { deriveSecretToken } from "@/lib/crypto";
+
+const REQUEST_TIMEOUT_MS = 5_000;
+
+export class MirrorControlUnavailableError extends Error {}
+
+export type MirrorControlResult = { status: number; body: unknown };
+
+function getMirrorControlUrl(): string {
+  const raw = process.env.MIRROR_CONTROL_URL?.trim();
+  return (raw || `http://127.0.0.1:${MIRROR_CONTROL_DEFAULT_PORT}`).replace(/\/+$/, "");
+}
+
+// 与 mirror-service 的 getMirrorControlToken 保持一致
+function getMirrorControlToken(): string {
+  return process.env.MIRROR_CONTROL_TOKEN?.trim() || deriveSecretToken("mirror-control");
+}
+
+/**
+ * 调用 mirror-service 的本机控制接口。连不上（未启动 / 端口关闭 / 超时）时抛 MirrorControlUnavailableError，
+ * 其余情况原样返回 mirror-service 的状态码和 JSON。
+ */
+export async function callMirrorControl(
+  method: "GET" | "POST",
+  path: string,
+  body?: Record<string, unknown>,
+  { timeoutMs = REQUEST_TIMEOUT_MS }: { timeoutMs?: number } = {},
+): Promise<MirrorControlResult> {
+  let res: Response;
+  try {
+    res = await fetch(`${getMirrorControlUrl()}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${getMirrorControlToken()}`,
+        ...(body ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+      cache: "no-store",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error: unknown) {
+    const msg = error instanceof Error ? error.message : String(error);
+    throw new MirrorControlUnavailableError(`mirror-service control endpoint unreachable: ${msg}`);
+  }
+  const json = (await res.json().catch(() => ({}))) as unknown;
+  return { status: res.status, body: json };
+}
@@ -0,0 +1,129 @@
+/**
+ * Web 用户角色与接口权限（纯函数，客户端组件也用它决定隐藏哪些操作）。
+ *
+ * - view：查看频道 / 消息 / 任务 / 事件，导出
+ * - operate：添加和修改频道、排队 / 重试任务、镜像控制
+ * - admin：删除频道、改设置、管理 Telegram 账号与通知、管理 Web 用户、查看审计日志
+ *
+ * API token（Authorization: Bearer）另有 scope：read / export / operate，永远没有 admin 权限。
+ */
+
+export const WEB_ROLES = ["viewer", "operator", "admin"] as const;
+export type WebRole = (typeof WEB_ROLES)[number];
+
+export type Permission = "view" | "operate" | "admin";
+
+export const webRoleLabels: Record<WebRole, string> = {
+  viewer: "只读",
+  operator: "操作员",
+  admin: "管理员",
+};
+
+const ROLE_RANK: Record<WebRole, number> = { viewer: 0, operator: 1, admin: 2 };
+const PERMISSION_MIN_ROLE: Record<Permission, WebRole> = { view: "viewer", operate: "operator", admin: "admin" };
+
+export function isWebRole(value: unknown): value is WebRole {
+  return typeof value === "string" && (WEB_ROLES as readonly string[]).includes(value);
+}
+
+export function roleHasPermission(role: WebRole, permission: Permission): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[PERMISSION_MIN_ROLE[permission]];
+}
+
+type RouteRule = {
+  path: string;
+  // 默认同时匹配子路径；exact 只匹配 path 本身
+  exact?: boolean;
+  // 不填 = 所有方法
+  methods?: readonly string[];
+  permission: Permission;
+};
+
+const WRITE_METHODS = ["POST", "PUT", "PATCH", "DELETE"] as const;
+
+// 按顺序匹配，第一条命中的生效；都没命中时 GET/HEAD 需要 view，其它方法需要 operate
+const ROUTE_RULES: readonly RouteRule[] = [
+  { path: "/api/users", permission: "admin" },
+  // 审计日志里有各用户的操作记录和 IP
+  { path: "/api/audit", permission: "admin" },
+  { path: "/api/export/audit", permission: "admin" },
+  { path: "/api/settings", methods: WRITE_METHODS, permission: "admin" },
+  { path: "/api/telegram/login/status", permission: "view" },
+  { path: "/api/telegram/accounts", methods: ["GET"], permission: "view" },
+  // 添加频道时从 Telegram 对话列表里选
+  { path: "/api/telegram/dialogs", permission: "operate" },
+  { path: "/api/telegram", permission: "admin" },
+  { path: "/api/notifications", methods: WRITE_METHODS, permission: "admin" },
+  { path: "/api/channels", exact: true, methods: ["DELETE"], permission: "admin" },
+  // 只计算预览、不改数据
+  { path: "/api/channels/copy-transform-preview", permission: "view" },
+  { path: "/api/messages/filter-preview", permission: "view" },
+  // 筛选预设是个人偏好
+  { path: "/api/presets", permission: "view" },
+  // 每个用户管理自己的 API token
+  { path: "/api/tokens", permission: "view" },
+];
+
+function matchesRule(rule: RouteRule, method: string, pathname: string): boolean {
+  if (rule.methods && !rule.methods.includes(method)) return false;
+  if (pathname === rule.path) return true;
+  return !rule.exact && pathname.startsWith(`${rule.path}/`);
+}
+
+function normalizePathname(pathname: string): string {
+  return pathname.length > 1 ? pathname.replace(/\/+$/, "") : pathname;
+}
+
+export function getRequiredPermission(method: string, pathname: string): Permission {
+  const normalizedMethod = method.toUpperCase();
+  const normalizedPath = normalizePathname(pathname);
+  const rule = ROUTE_RULES.find((r) => matchesRule(r, normalizedMethod, normalizedPath));
+  if (rule) return rule.permission;
+  return normalizedMethod === "GET" || normalizedMethod === "HEAD" ? "view" : "operate";
+}
+
+export const API_TOKEN_SCOPES = ["read", "export", "operate"] as const;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export const apiTokenScopeLabels: Record<ApiTokenScope, string> = {
+  read: "只读",
+  export: "只读 + 导出",
+  operate: "操作员",
+};
+
+const SCOPE_RANK: Record<ApiTokenScope, number> = { read: 0, export: 1, operate: 2 };
+
+const EXPORT_PATH = "/api/export";
+// token 不能用来登录、管理用户或再创建 token
+const API_TOKEN_FORBIDDEN_PATHS = ["/api/auth", "/api/users", "/api/tokens"] as const;
+
+function isUnderPath(pathname: string, path: string): boolean {
+  return pathname === path || pathname.startsWith(`${path}/`);
+}
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === "string" && (API_TOKEN_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * 某个角色最多能创建哪一级 token：只读用户可以导出，所以最多 export。
+ */
+export function getMaxApiTokenScope(role: WebRole): ApiTokenScope {
+  return roleHasPermission(role, "operate") ? "operate" : "export";
+}
+
+export function isApiTokenScopeWithin(scope: ApiTokenScope, max: ApiTokenScope): boolean {
+  return SCOPE_RANK[scope] <= SCOPE_RANK[max];
+}
+
+/**
+ * token 的 scope 是否允许调用该接口（创建者角色的限制另外按 roleHasPermission 校验）。
+ */
+export function apiTokenScopeAllows(scope: ApiTokenScope, permission: Permission, pathname: string): boolean {
+  const normalizedPath = normalizePathname(pathname);
+  if (API_TOKEN_FORBIDDEN_PATHS.some((path) => isUnderPath(normalizedPath, path))) return false;
+  if (permission === "admin") return false;
+  if (permission === "operate") return scope === "operate";
+  if (isUnderPath(normalizedPath, EXPORT_PATH)) return scope !== "read";
+  return true;
+}
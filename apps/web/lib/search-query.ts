@@ -0,0 +1,129 @@
+/**
+ * 消息搜索语法（前后端共用，不依赖数据库）：
+ * - 空格分隔的词之间是 AND
+ * - "带空格的短语" 按短语匹配
+ * - -词 / -"短语" 表示排除
+ * - OR（大写）分隔多组条件，任意一组满足即可：`a b OR c` = (a AND b) OR c
+ */
+
+export type SearchTerm = {
+  text: string;
+  phrase: boolean;
+  exclude: boolean;
+};
+
+export type SearchQuery = {
+  // 外层 OR，内层 AND
+  groups: SearchTerm[][];
+};
+
+const MAX_TERMS = 10;
+const MAX_TERM_LENGTH = 100;
+
+const TOKEN_RE = /(-?)"([^"]*)"?|(\S+)/g;
+const CJK_RE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const WORD_CHAR_RE = /[\p{L}\p{N}]/u;
+
+export function parseSearchQuery(raw: string): SearchQuery | null {
+  const groups: SearchTerm[][] = [];
+  let current: SearchTerm[] = [];
+  let total = 0;
+
+  for (const match of raw.matchAll(TOKEN_RE)) {
+    if (total >= MAX_TERMS) break;
+    const [, quotedNegation, quoted, bare] = match;
+
+    if (typeof quoted === "string") {
+      const text = quoted.replace(/\s+/g, " ").trim().slice(0, MAX_TERM_LENGTH);
+      if (!text) continue;
+      current.push({ text, phrase: true, exclude: quotedNegation === "-" });
+      total += 1;
+      continue;
+    }
+
+    const token = bare ?? "";
+    if (token === "-") continue;
+    if (token === "OR") {
+      if (current.length) groups.push(current);
+      current = [];
+      continue;
+    }
+
+    const exclude = token.startsWith("-") && token.length > 1;
+    const text = (exclude ? token.slice(1) : token).slice(0, MAX_TERM_LENGTH);
+    if (!text) continue;
+    current.push({ text, phrase: false, exclude });
+    total += 1;
+  }
+  if (current.length) groups.push(current);
+
+  return groups.length ? { groups } : null;
+}
+
+/**
+ * 全文索引（to_tsvector('simple')）按空白/标点切词，中日韩文本会整段成为一个词，
+ * 所以含 CJK 字符或没有字母数字的词改走 ILIKE（由 pg_trgm 索引加速）。
+ */
+export function shouldUseFullTextSearch(term: SearchTerm): boolean {
+  return WORD_CHAR_RE.test(term.text) && !CJK_RE.test(term.text);
+}
+
+export function getPositiveSearchTerms(query: SearchQuery | null): SearchTerm[] {
+  if (!query) return [];
+  const seen = new Set<string>();
+  const out: SearchTerm[] = [];
+  for (const group of query.groups) {
+    for (const term of group) {
+      const key = term.text.toLowerCase();
+      if (term.exclude || seen.has(key)) continue;
+      seen.add(key);
+      out.push(term);
+    }
+  }
+  return out;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function buildTermPattern(term: SearchTerm): string {
+  const body = term.text.split(" ").map(escapeRegExp).join("\\s+");
+  // 与全文检索保持一致：英文等按整词匹配，CJK 按子串匹配
+  return shouldUseFullTextSearch(term) ? `(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])` : body;
+}
+
+export type SearchMatch = { start: number; end: number };
+
+/**
+ * 找出文本里所有命中的正向搜索词位置（按出现顺序，已合并重叠区间）。
+ */
+export function findSearchMatches(text: string, terms: SearchTerm[]): SearchMatch[] {
+  if (!text || !terms.length) return [];
+  const regex = new RegExp(terms.map(buildTermPattern).join("|"), "giu");
+
+  const matches: SearchMatch[] = [];
+  for (const m of text.matchAll(regex)) {
+    if (!m[0]) continue;
+    const start = m.index ?? 0;
+    const end = start + m[0].length;
+    const prev = matches[matches.length - 1];
+    if (prev && start <= prev.end) prev.end = Math.max(prev.end, end);
+    else matches.push({ start, end });
+  }
+  return matches;
+}
+
+/**
+ * 截取第一个命中位置附近的片段，用于搜索结果列表；没有命中时返回 null。
+ */
+export function buildSearchSnippet(text: string | null, query: SearchQuery | null, radius = 60): string | null {
+  if (!text) return null;
+  const [first] = findSearchMatches(text, getPositiveSearchTerms(query));
+  if (!first) return null;
+
+  const start = Math.max(0, first.start - radius);
+  const end = Math.min(text.length, first.end + radius * 2);
+  const body = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${body}${end < text.length ? "…" : ""}`;
+}
@@ -0,0 +1,112 @@
+import type { NextRequest } from "next/server";
+import { and, asc, eq, ne } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import type { TelegramClient } from "telegram";
+import { recordAudit } from "@/lib/audit";
+import { decrypt, encrypt } from "@/lib/crypto";
+
+/**
+ * 取一个可用账号的 session（已解密）：指定 accountId 时用该账号，否则用最早添加的启用账号。
+ */
+export async function loadTelegramAccountSession(accountId?: string | null): Promise<string> {
+  const [row] = await db
+    .select({ session: schema.telegramAccounts.session })
+    .from(schema.telegramAccounts)
+    .where(
+      accountId
+        ? eq(schema.telegramAccounts.id, accountId)
+        : and(eq(schema.telegramAccounts.isActive, true), ne(schema.telegramAccounts.session, "")),
+    )
+    .orderBy(asc(schema.telegramAccounts.createdAt))
+    .limit(1);
+
+  const sessionString = row?.session ? decrypt(row.session) : "";
+  if (!sessionString.trim()) {
+    throw new Error("Telegram session 未配置，请先在首页完成 Telegram 登录");
+  }
+  return sessionString;
+}
+
+export async function hasTelegramSession(): Promise<boolean> {
+  const [row] = await db
+    .select({ id: schema.telegramAccounts.id })
+    .from(schema.telegramAccounts)
+    .where(ne(schema.telegramAccounts.session, ""))
+    .limit(1);
+  return !!row;
+}
+
+/**
+ * 登录成功后保存加密的 session：重新登录指定账号 > 同一个 Telegram 用户再次登录 > 新增账号。返回账号 id。
+ * 扫码登录没有输入手机号，用 getMe 返回的号码（未公开时为 null）。保存后记一条 telegram.login 审计。
+ */
+export async function saveTelegramLoginSession(
+  request: NextRequest,
+  client: TelegramClient,
+  options: { accountId: string | null; accountName: string; phoneNumber: string | null },
+): Promise<string> {
+  const sessionString = client.session.save() as unknown as string;
+  const encryptedSession = encrypt(sessionString);
+
+  const me = await client.getMe();
+  const telegramUserId = me.id ? BigInt(me.id.toString()) : null;
+  const username = me.username || null;
+  const displayName = [me.firstName, me.lastName].filter(Boolean).join(" ") || null;
+  const phoneNumber = options.phoneNumber ?? (me.phone ? `+${me.phone}` : null);
+  const identity = { phoneNumber, telegramUserId, username, displayName };
+
+  let accountId = options.accountId;
+  if (!accountId && telegramUserId != null) {
+    const [existing] = await db
+      .select({ id: schema.telegramAccounts.id })
+      .from(schema.telegramAccounts)
+      .where(eq(schema.telegramAccounts.telegramUserId, telegramUserId))
+      .limit(1);
+    accountId = existing?.id ?? null;
+  }
+
+  if (accountId) {
+    const [previous] = await db
+      .select({
+        name: schema.telegramAccounts.name,
+        session: schema.telegramAccounts.session,
+        phoneNumber: schema.telegramAccounts.phoneNumber,
+        telegramUserId: schema.telegramAccounts.telegramUserId,
+        username: schema.telegramAccounts.username,
+        displayName: schema.telegramAccounts.displayName,
+      })
+      .from(schema.telegramAccounts)
+      .where(eq(schema.telegramAccounts.id, accountId))
+      .limit(1);
+    await db
+      .update(schema.telegramAccounts)
+      .set({ ...identity, session: encryptedSession, lastError: null, updatedAt: new Date() })
+      .where(eq(schema.telegramAccounts.id, accountId));
+
+    const { name, ...before } = previous ?? { name: null };
+    await recordAudit(request, {
+      action: "telegram.login",
+      targetType: "telegram_account",
+      targetId: accountId,
+      targetLabel: name,
+      before,
+      after: { ...identity, session: encryptedSession },
+    });
+    return accountId;
+  }
+
+  const name = options.accountName || (username ? `@${username}` : displayName || phoneNumber || "Telegram 账号");
+  const [created] = await db
+    .insert(schema.telegramAccounts)
+    .values({ ...identity, name, session: encryptedSession })
+    .returning({ id: schema.telegramAccounts.id });
+
+  await recordAudit(request, {
+    action: "telegram.login",
+    targetType: "telegram_account",
+    targetId: created!.id,
+    targetLabel: name,
+    after: { name, ...identity, session: encryptedSession },
+  });
+  return created!.id;
+}
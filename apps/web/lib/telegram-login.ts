@@ -1,11 +1,33 @@
-import { TelegramClient } from "telegram";
+import { Api, TelegramClient } from "telegram";
+import { computeCheck } from "telegram/Password";
+import { getTelegramErrorMessage } from "@/lib/telegram-errors";
 
-export interface LoginSession {
+type LoginSessionBase = {
   client: TelegramClient;
+  // 重新登录已有账号时为该账号 id；新增账号时为 null
+  accountId: string | null;
+  accountName: string;
+  createdAt: number;
+};
+
+export type PhoneLoginSession = LoginSessionBase & {
+  method: "phone";
   phoneCodeHash: string;
   phoneNumber: string;
-  createdAt: number;
-}
+};
+
+export type QrLoginSession = LoginSessionBase & {
+  method: "qr";
+  // 当前二维码内容（tg://login?token=...）与过期时间；过期前轮询直接复用，不重复生成
+  url: string;
+  expiresAt: number;
+  // 收到 UpdateLoginToken（已扫码确认）后下一次轮询立即换取授权
+  scanned: boolean;
+  // 扫码成功但账号开启了两步验证，等待输入 2FA 密码
+  passwordRequired: boolean;
+};
+
+export type LoginSession = PhoneLoginSession | QrLoginSession;
 
 export const loginSessions = new Map<string, LoginSession>();
 
@@ -21,6 +43,93 @@ export function cleanupExpiredSessions(): void {
   }
 }
 
+/**
+ * 两步验证：用 SRP 校验 2FA 密码，成功后 client 即为已登录状态。
+ */
+export async function checkTelegramPassword(client: TelegramClient, password: string): Promise<void> {
+  const passwordInfo = await client.invoke(new Api.account.GetPassword());
+  const passwordCheck = await computeCheck(passwordInfo, password);
+  await client.invoke(
+    new Api.auth.CheckPassword({
+      password: passwordCheck,
+    }),
+  );
+}
+
+type ApiCredentials = { apiId: number; apiHash: string };
+
+export type QrLoginState = "pending" | "password" | "authorized";
+
+// 二维码过期前这么久就换新的，留出扫码时间
+const QR_TOKEN_REFRESH_MARGIN_MS = 5_000;
+
+function applyLoginToken(session: QrLoginSession, result: Api.auth.LoginToken): void {
+  session.url = `tg://login?token=${result.token.toString("base64url")}`;
+  session.expiresAt = result.expires * 1000;
+  session.scanned = false;
+}
+
+/**
+ * 扫码登录：导出第一个 login token，并监听 UpdateLoginToken（手机端确认后推送）。
+ */
+export async function createQrLoginSession(
+  client: TelegramClient,
+  api: ApiCredentials,
+  options: { accountId: string | null; accountName: string },
+): Promise<QrLoginSession> {
+  const result = await client.invoke(new Api.auth.ExportLoginToken({ ...api, exceptIds: [] }));
+  if (!(result instanceof Api.auth.LoginToken)) {
+    throw new Error(`unexpected login token result: ${result.className}`);
+  }
+
+  const session: QrLoginSession = {
+    method: "qr",
+    client,
+    accountId: options.accountId,
+    accountName: options.accountName,
+    createdAt: Date.now(),
+    url: "",
+    expiresAt: 0,
+    scanned: false,
+    passwordRequired: false,
+  };
+  applyLoginToken(session, result);
+  client.addEventHandler((update: unknown) => {
+    if (update instanceof Api.UpdateLoginToken) session.scanned = true;
+  });
+  return session;
+}
+
+/**
+ * 轮询扫码状态。已扫码或二维码快过期时重新 ExportLoginToken：
+ * 返回新 token 说明还没扫（换新二维码）；账号在其它 DC 时切过去用 ImportLoginToken 换取授权；
+ * 开启两步验证会报 SESSION_PASSWORD_NEEDED，之后需要 checkTelegramPassword。
+ */
+export async function pollQrLogin(session: QrLoginSession, api: ApiCredentials): Promise<QrLoginState> {
+  if (session.passwordRequired) return "password";
+  if (!session.scanned && session.expiresAt - Date.now() > QR_TOKEN_REFRESH_MARGIN_MS) return "pending";
+
+  try {
+    let result = await session.client.invoke(new Api.auth.ExportLoginToken({ ...api, exceptIds: [] }));
+    if (result instanceof Api.auth.LoginTokenMigrateTo) {
+      await session.client._switchDC(result.dcId);
+      result = await session.client.invoke(new Api.auth.ImportLoginToken({ token: result.token }));
+    }
+    if (result instanceof Api.auth.LoginToken) {
+      applyLoginToken(session, result);
+      return "pending";
+    }
+    if (result instanceof Api.auth.LoginTokenSuccess) return "authorized";
+    throw new Error(`unexpected login token result: ${result.className}`);
+  } catch (error: unknown) {
+    if (getTelegramErrorMessage(error) === "SESSION_PASSWORD_NEEDED") {
+      session.passwordRequired = true;
+      return "password";
+    }
+    throw error;
+  }
+}
+
 const globalForLogin = globalThis as unknown as {
   __tgBackLoginCleanupIntervalStarted?: boolean;
 };
@@ -29,4 +138,3 @@ if (!globalForLogin.__tgBackLoginCleanupIntervalStarted) {
   globalForLogin.__tgBackLoginCleanupIntervalStarted = true;
   setInterval(cleanupExpiredSessions, 5 * 60 * 1000);
 }
-
@@ -0,0 +1,79 @@
+import { eq } from "drizzle-orm";
+import {
+  db,
+  parseEnvTelegramProxy,
+  parseTelegramProxySetting,
+  schema,
+  TELEGRAM_PROXY_SECRET_FIELDS,
+  toTelegramProxyOptions,
+  validateTelegramProxySetting,
+  type TelegramProxyOptions,
+  type TelegramProxySetting,
+} from "@tg-back/db";
+import { decrypt, encrypt } from "@/lib/crypto";
+
+export async function loadStoredTelegramProxy(): Promise<TelegramProxySetting> {
+  const [row] = await db
+    .select({ value: schema.settings.value })
+    .from(schema.settings)
+    .where(eq(schema.settings.key, "telegram_proxy"))
+    .limit(1);
+  return parseTelegramProxySetting(row?.value);
+}
+
+export function decryptTelegramProxySecrets(setting: TelegramProxySetting): TelegramProxySetting {
+  const out = { ...setting };
+  for (const field of TELEGRAM_PROXY_SECRET_FIELDS) {
+    if (out[field]) out[field] = decrypt(out[field]);
+  }
+  return out;
+}
+
+/**
+ * 新建 TelegramClient 时用的 proxy 参数：settings.telegram_proxy > PROXY_HOST 环境变量 > 直连（undefined）。
+ */
+export async function loadTelegramProxy(): Promise<TelegramProxyOptions | undefined> {
+  const stored = await loadStoredTelegramProxy();
+  const setting = stored.type !== "none" ? decryptTelegramProxySecrets(stored) : parseEnvTelegramProxy(process.env);
+  return (setting && toTelegramProxyOptions(setting)) ?? undefined;
+}
+
+/**
+ * 校验表单提交的代理配置；password / secret 留空时沿用已保存的值。返回明文配置。
+ */
+export function resolveTelegramProxyInput(
+  raw: unknown,
+  existing: TelegramProxySetting,
+): { proxy: TelegramProxySetting } | { error: string } {
+  const input: Record<string, unknown> = raw && typeof raw === "object" && !Array.isArray(raw) ? { ...raw } : {};
+  // 只有类型没变时才沿用旧密钥，避免 MTProxy secret 被当成 SOCKS5 密码
+  if (input.type === existing.type) {
+    for (const field of TELEGRAM_PROXY_SECRET_FIELDS) {
+      const value = input[field];
+      if ((typeof value !== "string" || !value) && existing[field]) input[field] = decrypt(existing[field]);
+    }
+  }
+  return validateTelegramProxySetting(input);
+}
+
+export function encryptTelegramProxySecrets(setting: TelegramProxySetting): TelegramProxySetting {
+  const out = { ...setting };
+  for (const field of TELEGRAM_PROXY_SECRET_FIELDS) {
+    if (out[field]) out[field] = encrypt(out[field]);
+  }
+  return out;
+}
+
+// 密钥字段不回传，只告诉前端哪些已设置
+export function toPublicTelegramProxy(setting: TelegramProxySetting): {
+  proxy: TelegramProxySetting;
+  secretsSet: string[];
+} {
+  const proxy = { ...setting };
+  const secretsSet: string[] = [];
+  for (const field of TELEGRAM_PROXY_SECRET_FIELDS) {
+    if (proxy[field]) secretsSet.push(field);
+    proxy[field] = "";
+  }
+  return { proxy, secretsSet };
+}
@@ -0,0 +1,78 @@
+import crypto from "node:crypto";
+import { and, eq, ne, sql } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { hashAccessPassword, verifyScryptAccessPassword } from "@/lib/api-auth";
+import type { WebRole } from "@/lib/permissions";
+
+export const WEB_USERNAME_RE = /^[a-z0-9_.-]{2,32}$/;
+export const WEB_USER_PASSWORD_MIN_LENGTH = 8;
+
+export type PublicWebUser = {
+  id: string;
+  username: string;
+  role: WebRole;
+  isActive: boolean;
+  lastLoginAt: Date | null;
+  createdAt: Date;
+};
+
+export const publicWebUserColumns = {
+  id: schema.webUsers.id,
+  username: schema.webUsers.username,
+  role: schema.webUsers.role,
+  isActive: schema.webUsers.isActive,
+  lastLoginAt: schema.webUsers.lastLoginAt,
+  createdAt: schema.webUsers.createdAt,
+};
+
+export function normalizeWebUsername(value: unknown): string {
+  return typeof value === "string" ? value.trim().toLowerCase() : "";
+}
+
+// 与登录接口一致：首尾空白不算密码的一部分
+export function validateWebUserPassword(value: unknown): { password: string } | { error: string } {
+  const password = typeof value === "string" ? value.trim() : "";
+  if (password.length < WEB_USER_PASSWORD_MIN_LENGTH) {
+    return { error: `密码至少 ${WEB_USER_PASSWORD_MIN_LENGTH} 位` };
+  }
+  if (password.length > 256) return { error: "密码过长" };
+  return { password };
+}
+
+// 用户不存在时也算一次 scrypt，避免按响应时间猜出用户名
+let dummyPasswordHash: Promise<string> | null = null;
+
+/**
+ * 按用户名密码登录；停用或密码不对都返回 null。
+ */
+export async function authenticateWebUser(usernameRaw: unknown, password: string) {
+  const username = normalizeWebUsername(usernameRaw);
+  const [user] = username
+    ? await db.select().from(schema.webUsers).where(eq(schema.webUsers.username, username)).limit(1)
+    : [];
+
+  if (!user) {
+    dummyPasswordHash ??= hashAccessPassword(crypto.randomUUID());
+    await verifyScryptAccessPassword(password, await dummyPasswordHash);
+    return null;
+  }
+
+  const ok = await verifyScryptAccessPassword(password, user.passwordHash);
+  if (!ok || !user.isActive) return null;
+
+  await db.update(schema.webUsers).set({ lastLoginAt: new Date() }).where(eq(schema.webUsers.id, user.id));
+  return user;
+}
+
+/**
+ * 除 excludeId 外还有几个启用中的管理员；用来保证至少留一个能登录的 admin。
+ */
+export async function countOtherActiveAdmins(excludeId: string): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(schema.webUsers)
+    .where(
+      and(eq(schema.webUsers.role, "admin"), eq(schema.webUsers.isActive, true), ne(schema.webUsers.id, excludeId)),
+    );
+  return row?.count ?? 0;
+}
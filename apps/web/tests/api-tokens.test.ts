@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { NextRequest } from "next/server";
+import { db, schema } from "@tg-back/db";
+import { getAccessStatus, requireApiAuth } from "../lib/api-auth";
+import { checkApiTokenRateLimit, generateApiToken, verifyApiToken } from "../lib/api-tokens";
+
+vi.mock("@tg-back/db", async (importOriginal) => (await import("@tg-back/db/testing")).withTestDb(importOriginal));
+
+type ApiTokenValues = Partial<typeof schema.apiTokens.$inferInsert>;
+
+async function createToken(values: ApiTokenValues = {}) {
+  const { token, tokenHash, tokenPrefix } = generateApiToken();
+  const [row] = await db
+    .insert(schema.apiTokens)
+    .values({ name: "script", tokenHash, tokenPrefix, ...values })
+    .returning({ id: schema.apiTokens.id });
+  return { token, id: row!.id };
+}
+
+async function createUser(values: Partial<typeof schema.webUsers.$inferInsert> = {}) {
+  const [user] = await db
+    .insert(schema.webUsers)
+    .values({ username: "alice", passwordHash: "scrypt$1$1$1$a$b", role: "operator", ...values })
+    .returning({ id: schema.webUsers.id });
+  return user!.id;
+}
+
+function bearerRequest(token: string, method = "GET", pathname = "/api/messages") {
+  return new NextRequest(`http://localhost${pathname}`, { method, headers: { authorization: `Bearer ${token}` } });
+}
+
+beforeEach(async () => {
+  await db.delete(schema.apiTokens);
+  await db.delete(schema.webUsers);
+});
+
+describe("verifyApiToken", () => {
+  it("返回 token 的 scope、限流和创建者", async () => {
+    const ownerId = await createUser();
+    const { token, id } = await createToken({ ownerUserId: ownerId, scope: "export", rateLimitPerMinute: 5 });
+
+    expect(await verifyApiToken(token)).toEqual({
+      id,
+      name: "script",
+      scope: "export",
+      rateLimitPerMinute: 5,
+      owner: { id: ownerId, username: "alice", role: "operator" },
+    });
+  });
+
+  it("前缀不对、不存在、已撤销或已过期时返回 null", async () => {
+    const revoked = await createToken({ revokedAt: new Date() });
+    const expired = await createToken({ expiresAt: new Date(Date.now() - 1000) });
+    const valid = await createToken({ expiresAt: new Date(Date.now() + 60_000) });
+
+    expect(await verifyApiToken(valid.token.replace("tgb_", "xxx_"))).toBeNull();
+    expect(await verifyApiToken(generateApiToken().token)).toBeNull();
+    expect(await verifyApiToken(revoked.token)).toBeNull();
+    expect(await verifyApiToken(expired.token)).toBeNull();
+    expect(await verifyApiToken(valid.token)).toMatchObject({ id: valid.id, owner: null });
+  });
+
+  it("创建者被停用后 token 失效", async () => {
+    const ownerId = await createUser({ isActive: false });
+    const { token } = await createToken({ ownerUserId: ownerId });
+
+    expect(await verifyApiToken(token)).toBeNull();
+  });
+});
+
+describe("checkApiTokenRateLimit", () => {
+  it("每个 token 单独计数，超出每分钟上限返回 429 和 Retry-After", async () => {
+    const limited = { id: crypto.randomUUID(), rateLimitPerMinute: 2 };
+    const other = { id: crypto.randomUUID(), rateLimitPerMinute: 2 };
+
+    expect(checkApiTokenRateLimit(limited)).toBeNull();
+    expect(checkApiTokenRateLimit(limited)).toBeNull();
+    const res = checkApiTokenRateLimit(limited);
+    expect(res?.status).toBe(429);
+    expect(Number(res?.headers.get("Retry-After"))).toBeGreaterThan(0);
+    expect(checkApiTokenRateLimit(other)).toBeNull();
+  });
+});
+
+describe("requireApiAuth with API token", () => {
+  it("无效 token 返回 401，不回退到 cookie", async () => {
+    const { error } = await requireApiAuth(bearerRequest(generateApiToken().token));
+    expect(error?.status).toBe(401);
+  });
+
+  it("按 scope 和创建者角色校验，并记录最近使用时间", async () => {
+    const viewerId = await createUser({ username: "viewer", role: "viewer" });
+    const read = await createToken({ scope: "read", ownerUserId: viewerId });
+    const operate = await createToken({ scope: "operate", ownerUserId: viewerId });
+
+    const passed = await requireApiAuth(bearerRequest(read.token));
+    expect(passed.error).toBeNull();
+    // 通过时带回已解析的登录状态
+    expect(passed.access).toMatchObject({ authed: true, user: { id: viewerId, role: "viewer" }, token: { id: read.id, scope: "read" } });
+    expect((await requireApiAuth(bearerRequest(read.token, "GET", "/api/export/messages"))).error?.status).toBe(403);
+    // scope 是 operate，但创建者只是 viewer
+    expect((await requireApiAuth(bearerRequest(operate.token, "POST", "/api/channels"))).error?.status).toBe(403);
+
+    const [row] = await db.select({ lastUsedAt: schema.apiTokens.lastUsedAt }).from(schema.apiTokens).where(eq(schema.apiTokens.id, read.id));
+    expect(row?.lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it("超出 token 的每分钟限流返回 429", async () => {
+    const ownerId = await createUser();
+    const { token } = await createToken({ ownerUserId: ownerId, rateLimitPerMinute: 1 });
+
+    expect((await requireApiAuth(bearerRequest(token))).error).toBeNull();
+    expect((await requireApiAuth(bearerRequest(token))).error?.status).toBe(429);
+  });
+
+  it("共享 token 未启用多用户时按管理员处理，添加 Web 用户后降为只读", async () => {
+    const { token } = await createToken({ scope: "operate" });
+
+    expect(await getAccessStatus(bearerRequest(token))).toMatchObject({ mode: "open", user: { role: "admin" }, token: { scope: "operate" } });
+    expect((await requireApiAuth(bearerRequest(token, "POST", "/api/channels"))).error).toBeNull();
+
+    await createUser({ role: "admin" });
+
+    expect(await getAccessStatus(bearerRequest(token))).toMatchObject({ mode: "users", user: { id: null, role: "viewer" }, token: { scope: "read" } });
+    expect((await requireApiAuth(bearerRequest(token))).error).toBeNull();
+    expect((await requireApiAuth(bearerRequest(token, "POST", "/api/channels"))).error?.status).toBe(403);
+    expect((await requireApiAuth(bearerRequest(token, "GET", "/api/export/messages"))).error?.status).toBe(403);
+  });
+});
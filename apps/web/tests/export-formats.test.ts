@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  createExportWriter,
+  escapeHtml,
+  parseExportFormat,
+  toCsvCell,
+  toTdesktopMessage,
+  type ExportChannel,
+  type ExportMessage,
+} from "../lib/export-formats";
+
+const source: ExportChannel = {
+  id: "s1",
+  name: "源频道",
+  channelIdentifier: "@src",
+  telegramId: "1234567890",
+  username: "src",
+};
+
+const mirror: ExportChannel = { ...source, id: "m1", name: "镜像", username: null };
+
+function makeMessage(overrides: Partial<ExportMessage> = {}): ExportMessage {
+  return {
+    id: "row-1",
+    sourceChannelId: "s1",
+    sourceMessageId: 42,
+    sourceLink: "https://t.me/src/42",
+    mirrorChannelId: "m1",
+    mirrorMessageId: 7,
+    mirrorLink: null,
+    messageType: "text",
+    mediaGroupId: null,
+    groupSize: 1,
+    status: "success",
+    skipReason: null,
+    errorMessage: null,
+    retryCount: 0,
+    hasMedia: false,
+    fileSize: null,
+    text: "hello",
+    sentAt: "2024-05-01T08:09:10.000Z",
+    mirroredAt: null,
+    isDeleted: false,
+    deletedAt: null,
+    editCount: 0,
+    lastEditedAt: null,
+    ...overrides,
+  };
+}
+
+describe("parseExportFormat", () => {
+  it("缺省为 jsonl，未知格式返回 null", () => {
+    expect(parseExportFormat(null)).toBe("jsonl");
+    expect(parseExportFormat(" CSV ")).toBe("csv");
+    expect(parseExportFormat("xml")).toBeNull();
+  });
+});
+
+describe("toCsvCell", () => {
+  it("含逗号/引号/换行时加引号并转义", () => {
+    expect(toCsvCell("a,b")).toBe('"a,b"');
+    expect(toCsvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(toCsvCell("a\nb")).toBe('"a\nb"');
+    expect(toCsvCell(null)).toBe("");
+    expect(toCsvCell(12)).toBe("12");
+  });
+
+  it("以公式字符开头的文本前补 '", () => {
+    expect(toCsvCell("=SUM(A1)")).toBe("'=SUM(A1)");
+    expect(toCsvCell("@cmd")).toBe("'@cmd");
+    expect(toCsvCell(-1)).toBe("-1");
+  });
+});
+
+describe("toTdesktopMessage", () => {
+  it("输出 Telegram Desktop result.json 的消息结构", () => {
+    expect(toTdesktopMessage(makeMessage(), source)).toEqual({
+      id: 42,
+      type: "message",
+      date: "2024-05-01T08:09:10",
+      date_unixtime: "1714550950",
+      from: "源频道",
+      from_id: "channel1234567890",
+      text: "hello",
+      text_entities: [{ type: "plain", text: "hello" }],
+    });
+  });
+
+  it("媒体只标注未包含，并带上 media_type", () => {
+    const out = toTdesktopMessage(makeMessage({ messageType: "voice", hasMedia: true, fileSize: 10, text: "" }), source);
+    expect(out.file).toContain("File not included");
+    expect(out.media_type).toBe("voice_message");
+    expect(out.text_entities).toEqual([]);
+  });
+});
+
+describe("createExportWriter", () => {
+  const ctx = { source, mirror, exportedAt: new Date("2024-05-02T00:00:00Z"), filters: {} };
+
+  it("tdesktop 拼出的是合法 JSON", () => {
+    const writer = createExportWriter("tdesktop", ctx);
+    const body =
+      writer.start() +
+      writer.message(makeMessage(), { comments: [], media: [] }) +
+      writer.message(makeMessage({ sourceMessageId: 43 }), { comments: [], media: [] }) +
+      writer.end();
+    const parsed = JSON.parse(body);
+    expect(parsed.type).toBe("public_channel");
+    expect(parsed.id).toBe(1234567890);
+    expect(parsed.messages.map((m: { id: number }) => m.id)).toEqual([42, 43]);
+  });
+
+  it("html 会转义消息文本", () => {
+    expect(escapeHtml(`<b>"x" & 'y'</b>`)).toBe("&lt;b&gt;&quot;x&quot; &amp; &#39;y&#39;&lt;/b&gt;");
+    const writer = createExportWriter("html", ctx);
+    const html = writer.message(makeMessage({ text: "<script>alert(1)</script>" }), { comments: [], media: [] });
+    expect(html).not.toContain("<script>");
+    expect(html).toContain("&lt;script&gt;");
+  });
+});
@@ -0,0 +1,66 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { db, schema } from "@tg-back/db";
+import { GET } from "../app/api/export/messages/route";
+import { readArchivedFileAsDataUri } from "../lib/media-archive";
+
+vi.mock("@tg-back/db", async (importOriginal) => (await import("@tg-back/db/testing")).withTestDb(importOriginal));
+vi.mock("@/lib/api-auth", () => ({ requireApiAuth: vi.fn(async () => ({ error: null, access: null })) }));
+vi.mock("@/lib/media-archive", () => ({
+  // 每条消息一个已归档的图片
+  loadArchivedFileRefsByPost: vi.fn(async (posts: { id: string }[]) => {
+    const ref = { mimeType: "image/jpeg", fileName: null, fileSize: 1, storagePath: "ab/photo.jpg", thumbStoragePath: null };
+    return new Map(posts.map((post) => [post.id, [{ ...ref, messageMappingId: post.id }]]));
+  }),
+  readArchivedFileAsDataUri: vi.fn(async () => "data:image/jpeg;base64,AA=="),
+}));
+
+const MESSAGE_COUNT = 3;
+
+let sourceChannelId = "";
+
+beforeAll(async () => {
+  const [source] = await db
+    .insert(schema.sourceChannels)
+    .values({ channelIdentifier: "@source", name: "source", telegramId: 1n })
+    .returning({ id: schema.sourceChannels.id });
+  sourceChannelId = source!.id;
+  const [mirror] = await db
+    .insert(schema.mirrorChannels)
+    .values({ sourceChannelId, channelIdentifier: "@mirror", name: "mirror" })
+    .returning({ id: schema.mirrorChannels.id });
+  await db.insert(schema.messageMappings).values(
+    Array.from({ length: MESSAGE_COUNT }, (_, i) => ({
+      sourceChannelId,
+      mirrorChannelId: mirror!.id,
+      sourceMessageId: i + 1,
+      messageType: "photo" as const,
+      hasMedia: true,
+      text: `message ${i + 1}`,
+      sentAt: new Date(Date.UTC(2024, 0, 1) + i * 1000),
+    })),
+  );
+});
+
+describe("GET /api/export/messages", () => {
+  it("按客户端读取的进度逐条生成，读得慢时不会提前读媒体", async () => {
+    const res = await GET(new NextRequest(`http://localhost/api/export/messages?sourceChannelId=${sourceChannelId}&format=html`));
+    expect(res.status).toBe(200);
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+
+    let html = decoder.decode((await reader.read()).value);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    // 队列里最多预先备好一条消息
+    expect(vi.mocked(readArchivedFileAsDataUri).mock.calls.length).toBeLessThanOrEqual(1);
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      html += decoder.decode(value);
+    }
+    expect(readArchivedFileAsDataUri).toHaveBeenCalledTimes(MESSAGE_COUNT);
+    for (let i = 1; i <= MESSAGE_COUNT; i += 1) expect(html).toContain(`message ${i}`);
+    expect(html).toContain("data:image/jpeg;base64,AA==");
+  });
+});
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { db, schema } from "@tg-back/db";
+import { enqueueHistoryPartialTask, type HistoryPartialRange } from "../lib/history-partial";
+
+vi.mock("@tg-back/db", async (importOriginal) => (await import("@tg-back/db/testing")).withTestDb(importOriginal));
+
+const RANGE: HistoryPartialRange = { startId: 10, endId: 20, startAt: null, endAt: null, remirror: false };
+
+let channelId = "";
+
+beforeEach(async () => {
+  await db.delete(schema.sourceChannels);
+  const [channel] = await db
+    .insert(schema.sourceChannels)
+    .values({ channelIdentifier: "@source", name: "source", telegramId: 1n })
+    .returning({ id: schema.sourceChannels.id });
+  channelId = channel!.id;
+});
+
+async function loadTasks() {
+  return await db.select().from(schema.syncTasks);
+}
+
+describe("enqueueHistoryPartialTask", () => {
+  it("第一次创建任务，再次提交覆盖范围并从头开始", async () => {
+    const created = await enqueueHistoryPartialTask(channelId, RANGE);
+    expect(created).toMatchObject({ created: true });
+
+    await db
+      .update(schema.syncTasks)
+      .set({ status: "completed", progressCurrent: 11, lastProcessedId: 20, completedAt: new Date() })
+      .where(eq(schema.syncTasks.id, created!.id));
+
+    const requeued = await enqueueHistoryPartialTask(channelId, { ...RANGE, startId: 30, endId: 40, remirror: true });
+    expect(requeued).toEqual({ id: created!.id, created: false });
+
+    const [task] = await loadTasks();
+    expect(task).toMatchObject({
+      status: "pending",
+      progressCurrent: 0,
+      lastProcessedId: null,
+      completedAt: null,
+      rangeStartId: 30,
+      rangeEndId: 40,
+      rangeRemirror: true,
+    });
+  });
+
+  it("运行中的任务不覆盖", async () => {
+    const created = await enqueueHistoryPartialTask(channelId, RANGE);
+    await db.update(schema.syncTasks).set({ status: "running", lastProcessedId: 15 }).where(eq(schema.syncTasks.id, created!.id));
+
+    expect(await enqueueHistoryPartialTask(channelId, { ...RANGE, startId: 1 })).toBeNull();
+    const [task] = await loadTasks();
+    expect(task).toMatchObject({ status: "running", lastProcessedId: 15, rangeStartId: 10 });
+  });
+
+  it("并发提交只留下一条任务", async () => {
+    const results = await Promise.all([
+      enqueueHistoryPartialTask(channelId, RANGE),
+      enqueueHistoryPartialTask(channelId, { ...RANGE, startId: 11 }),
+    ]);
+    expect(results.filter((r) => r?.created)).toHaveLength(1);
+    expect(await loadTasks()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,180 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { db, schema } from "@tg-back/db";
+import { GET } from "../app/api/messages/media/route";
+import { readArchivedFileAsDataUri, resolveArchivedFilePath, resolveMediaArchiveDir } from "../lib/media-archive";
+
+vi.mock("@tg-back/db", async (importOriginal) => (await import("@tg-back/db/testing")).withTestDb(importOriginal));
+vi.mock("@/lib/api-auth", () => ({ requireApiAuth: vi.fn(async () => ({ error: null, access: null })) }));
+
+let archiveDir = "";
+let mappingId = "";
+let sourceChannelId = "";
+
+function writeArchiveFile(relativePath: string, content: string | Buffer) {
+  const filePath = path.join(archiveDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+async function createMedia(values: Partial<typeof schema.messageMedia.$inferInsert>) {
+  await db.delete(schema.messageMedia);
+  const [media] = await db
+    .insert(schema.messageMedia)
+    .values({ messageMappingId: mappingId, sourceChannelId, status: "stored", ...values })
+    .returning({ id: schema.messageMedia.id });
+  return media!.id;
+}
+
+function requestMedia(query: string, headers?: Record<string, string>) {
+  return GET(new NextRequest(`http://localhost/api/messages/media?${query}`, { headers }));
+}
+
+beforeAll(async () => {
+  archiveDir = fs.mkdtempSync(path.join(os.tmpdir(), "tg-back-media-"));
+  // 末尾带分隔符也要按同一个根目录处理
+  vi.stubEnv("TG_BACK_MEDIA_ARCHIVE_DIR", `${archiveDir}${path.sep}`);
+  vi.spyOn(console, "error").mockImplementation(() => {});
+
+  const [channel] = await db
+    .insert(schema.sourceChannels)
+    .values({ channelIdentifier: "@source", name: "source", telegramId: 1n })
+    .returning({ id: schema.sourceChannels.id });
+  sourceChannelId = channel!.id;
+  const [mirror] = await db
+    .insert(schema.mirrorChannels)
+    .values({ sourceChannelId, channelIdentifier: "@mirror", name: "mirror" })
+    .returning({ id: schema.mirrorChannels.id });
+  const [mapping] = await db
+    .insert(schema.messageMappings)
+    .values({ sourceChannelId, mirrorChannelId: mirror!.id, sourceMessageId: 1, messageType: "photo", hasMedia: true, sentAt: new Date() })
+    .returning({ id: schema.messageMappings.id });
+  mappingId = mapping!.id;
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  fs.rmSync(archiveDir, { recursive: true, force: true });
+});
+
+describe("resolveArchivedFilePath", () => {
+  it("按归档根目录解析 storage_path，越界或指向根目录本身时返回 null", () => {
+    expect(resolveMediaArchiveDir()).toBe(archiveDir);
+    expect(resolveArchivedFilePath("ab/cd/file.jpg")).toBe(path.join(archiveDir, "ab", "cd", "file.jpg"));
+    expect(resolveArchivedFilePath("ab/../file.jpg")).toBe(path.join(archiveDir, "file.jpg"));
+
+    expect(resolveArchivedFilePath("../secret.txt")).toBeNull();
+    expect(resolveArchivedFilePath("ab/../../secret.txt")).toBeNull();
+    expect(resolveArchivedFilePath("/etc/passwd")).toBeNull();
+    expect(resolveArchivedFilePath(".")).toBeNull();
+    // 同名前缀的兄弟目录不能算在归档目录里
+    expect(resolveArchivedFilePath(`../${path.basename(archiveDir)}-other/file.jpg`)).toBeNull();
+  });
+
+  it("相对路径的归档目录按仓库根目录解析", () => {
+    vi.stubEnv("TG_BACK_MEDIA_ARCHIVE_DIR", "./data/media");
+    try {
+      expect(resolveMediaArchiveDir()).toBe(path.resolve(__dirname, "../../..", "data/media"));
+    } finally {
+      vi.stubEnv("TG_BACK_MEDIA_ARCHIVE_DIR", archiveDir);
+    }
+  });
+});
+
+describe("readArchivedFileAsDataUri", () => {
+  it("读取归档文件，超出大小、越界或缺失时返回 null", async () => {
+    writeArchiveFile("data/small.txt", "hello");
+
+    expect(await readArchivedFileAsDataUri("data/small.txt", "text/plain", 100)).toBe(`data:text/plain;base64,${Buffer.from("hello").toString("base64")}`);
+    expect(await readArchivedFileAsDataUri("data/small.txt", null, 100)).toMatch(/^data:application\/octet-stream;base64,/);
+    expect(await readArchivedFileAsDataUri("data/small.txt", "text/plain", 4)).toBeNull();
+    expect(await readArchivedFileAsDataUri("data/missing.txt", "text/plain", 100)).toBeNull();
+    expect(await readArchivedFileAsDataUri("../small.txt", "text/plain", 100)).toBeNull();
+  });
+});
+
+describe("GET /api/messages/media", () => {
+  beforeEach(() => {
+    writeArchiveFile("ab/photo.jpg", "0123456789");
+    writeArchiveFile("ab/photo-thumb.jpg", "thumb");
+  });
+
+  it("返回归档文件，图片 inline 展示并带 ETag", async () => {
+    const id = await createMedia({ storagePath: "ab/photo.jpg", mimeType: "image/jpeg", fileName: "photo.jpg", sha256: "abc" });
+
+    const res = await requestMedia(`id=${id}`);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("0123456789");
+    expect(res.headers.get("Content-Type")).toBe("image/jpeg");
+    expect(res.headers.get("Content-Length")).toBe("10");
+    expect(res.headers.get("Content-Disposition")).toMatch(/^inline; filename="photo.jpg"/);
+    expect(res.headers.get("ETag")).toBe('"abc"');
+
+    const download = await requestMedia(`id=${id}&download=1`);
+    expect(download.headers.get("Content-Disposition")).toMatch(/^attachment;/);
+  });
+
+  it("支持 Range 请求，范围无效时返回 416", async () => {
+    const id = await createMedia({ storagePath: "ab/photo.jpg", mimeType: "image/jpeg" });
+
+    const partial = await requestMedia(`id=${id}`, { range: "bytes=2-5" });
+    expect(partial.status).toBe(206);
+    expect(await partial.text()).toBe("2345");
+    expect(partial.headers.get("Content-Range")).toBe("bytes 2-5/10");
+
+    const suffix = await requestMedia(`id=${id}`, { range: "bytes=-3" });
+    expect(await suffix.text()).toBe("789");
+
+    const invalid = await requestMedia(`id=${id}`, { range: "bytes=20-" });
+    expect(invalid.status).toBe(416);
+    expect(invalid.headers.get("Content-Range")).toBe("bytes */10");
+  });
+
+  it("缩略图优先用单独的缩略图文件，非图片没有缩略图时返回 404", async () => {
+    const photo = await createMedia({ storagePath: "ab/photo.jpg", thumbStoragePath: "ab/photo-thumb.jpg", mimeType: "image/png" });
+    const thumb = await requestMedia(`id=${photo}&variant=thumb`);
+    expect(await thumb.text()).toBe("thumb");
+    expect(thumb.headers.get("Content-Type")).toBe("image/jpeg");
+
+    const doc = await createMedia({ storagePath: "ab/photo.jpg", mimeType: "application/pdf" });
+    expect((await requestMedia(`id=${doc}&variant=thumb`)).status).toBe(404);
+  });
+
+  it("html / svg 之类不允许 inline，一律按附件下载", async () => {
+    const html = await createMedia({ storagePath: "ab/photo.jpg", mimeType: "text/html", fileName: "page.html" });
+    const res = await requestMedia(`id=${html}`);
+    expect(res.headers.get("Content-Type")).toBe("application/octet-stream");
+    expect(res.headers.get("Content-Disposition")).toMatch(/^attachment;/);
+
+    const svg = await createMedia({ storagePath: "ab/photo.jpg", mimeType: "image/svg+xml" });
+    expect((await requestMedia(`id=${svg}`)).headers.get("Content-Type")).toBe("application/octet-stream");
+  });
+
+  it("没有文件名时用 sha256 加 storage_path 的扩展名，没有扩展名时不加", async () => {
+    writeArchiveFile("ab.cd/blob", "blob");
+    const withExt = await createMedia({ storagePath: "ab/photo.jpg", mimeType: "image/jpeg", sha256: "abc" });
+    expect((await requestMedia(`id=${withExt}`)).headers.get("Content-Disposition")).toMatch(/filename="abc.jpg"/);
+
+    const noExt = await createMedia({ storagePath: "ab.cd/blob", mimeType: "image/jpeg", sha256: "def" });
+    expect((await requestMedia(`id=${noExt}`)).headers.get("Content-Disposition")).toMatch(/filename="def"/);
+  });
+
+  it("storage_path 越界时拒绝，文件缺失或未归档时返回 404", async () => {
+    const escaped = await createMedia({ storagePath: "../outside.txt", mimeType: "text/plain" });
+    const res = await requestMedia(`id=${escaped}`);
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: "invalid storage path" });
+
+    const missing = await createMedia({ storagePath: "ab/missing.jpg", mimeType: "image/jpeg" });
+    expect((await requestMedia(`id=${missing}`)).status).toBe(404);
+
+    const failed = await createMedia({ status: "failed", storagePath: "ab/photo.jpg" });
+    expect((await requestMedia(`id=${failed}`)).status).toBe(404);
+
+    expect((await requestMedia("id=not-a-uuid")).status).toBe(400);
+  });
+});
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { db, schema } from "@tg-back/db";
+import { loadCommentCountsByPost, loadCommentsByPost, type MessageCommentPost } from "../lib/message-comments";
+
+vi.mock("@tg-back/db", async (importOriginal) => (await import("@tg-back/db/testing")).withTestDb(importOriginal));
+
+const BASE_TIME = Date.UTC(2024, 0, 1);
+
+let sourceChannelId = "";
+let mirrorChannelId = "";
+
+async function createPost(sourceMessageId: number, mediaGroupId: string | null = null): Promise<MessageCommentPost> {
+  const [mapping] = await db
+    .insert(schema.messageMappings)
+    .values({ sourceChannelId, mirrorChannelId, sourceMessageId, messageType: "photo", mediaGroupId, sentAt: new Date(BASE_TIME) })
+    .returning({ id: schema.messageMappings.id });
+  return { id: mapping!.id, sourceChannelId, mediaGroupId };
+}
+
+async function createComment(post: MessageCommentPost, sourceCommentId: number, values: Partial<typeof schema.messageComments.$inferInsert> = {}) {
+  await db.insert(schema.messageComments).values({
+    messageMappingId: post.id,
+    sourceChannelId,
+    sourceCommentId,
+    messageType: "text",
+    text: `comment ${sourceCommentId}`,
+    status: "success",
+    sentAt: new Date(BASE_TIME + sourceCommentId * 1000),
+    ...values,
+  });
+}
+
+beforeEach(async () => {
+  await db.delete(schema.sourceChannels);
+  const [source] = await db
+    .insert(schema.sourceChannels)
+    .values({ channelIdentifier: "@source", name: "source", telegramId: 1n })
+    .returning({ id: schema.sourceChannels.id });
+  sourceChannelId = source!.id;
+  const [mirror] = await db
+    .insert(schema.mirrorChannels)
+    .values({ sourceChannelId, channelIdentifier: "@mirror", name: "mirror" })
+    .returning({ id: schema.mirrorChannels.id });
+  mirrorChannelId = mirror!.id;
+});
+
+describe("loadCommentsByPost", () => {
+  it("按发送时间排序，相册里任意一条下的评论都归到这一组", async () => {
+    const single = await createPost(1);
+    const albumHead = await createPost(2, "album");
+    const albumItem = await createPost(3, "album");
+    const other = await createPost(4);
+    await createComment(single, 12, { replyToCommentId: 11, authorId: 42n, authorName: "Bob" });
+    await createComment(single, 11);
+    await createComment(albumItem, 21, { status: "failed", errorMessage: "CHAT_WRITE_FORBIDDEN" });
+    await createComment(other, 31);
+
+    const comments = await loadCommentsByPost([single, albumHead]);
+
+    expect([...comments.keys()].sort()).toEqual([single.id, albumHead.id].sort());
+    expect(comments.get(single.id)!.map((c) => c.sourceCommentId)).toEqual([11, 12]);
+    expect(comments.get(single.id)![1]).toMatchObject({
+      replyToCommentId: 11,
+      authorId: "42",
+      authorName: "Bob",
+      text: "comment 12",
+      sentAt: new Date(BASE_TIME + 12_000).toISOString(),
+    });
+    expect(comments.get(albumHead.id)).toEqual([
+      expect.objectContaining({ messageMappingId: albumItem.id, sourceCommentId: 21, status: "failed", errorMessage: "CHAT_WRITE_FORBIDDEN" }),
+    ]);
+  });
+
+  it("没有帖子时不查库", async () => {
+    expect((await loadCommentsByPost([])).size).toBe(0);
+  });
+});
+
+describe("loadCommentCountsByPost", () => {
+  it("每条帖子（或相册）的评论数", async () => {
+    const single = await createPost(1);
+    const albumHead = await createPost(2, "album");
+    const albumItem = await createPost(3, "album");
+    const empty = await createPost(4);
+    await createComment(single, 11);
+    await createComment(albumHead, 21);
+    await createComment(albumItem, 22);
+    await createComment(albumItem, 23);
+
+    const counts = await loadCommentCountsByPost([single, albumHead, empty]);
+
+    expect(Object.fromEntries(counts)).toEqual({ [single.id]: 1, [albumHead.id]: 3 });
+  });
+});
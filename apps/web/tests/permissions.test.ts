@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  apiTokenScopeAllows,
+  getMaxApiTokenScope,
+  getRequiredPermission,
+  isApiTokenScopeWithin,
+  isWebRole,
+  roleHasPermission,
+} from "../lib/permissions";
+
+describe("roleHasPermission", () => {
+  it("角色按 viewer < operator < admin 逐级包含", () => {
+    expect(roleHasPermission("viewer", "view")).toBe(true);
+    expect(roleHasPermission("viewer", "operate")).toBe(false);
+    expect(roleHasPermission("operator", "operate")).toBe(true);
+    expect(roleHasPermission("operator", "admin")).toBe(false);
+    expect(roleHasPermission("admin", "admin")).toBe(true);
+  });
+
+  it("isWebRole 只接受已知角色", () => {
+    expect(isWebRole("operator")).toBe(true);
+    expect(isWebRole("root")).toBe(false);
+    expect(isWebRole(undefined)).toBe(false);
+  });
+});
+
+describe("getRequiredPermission", () => {
+  it("默认 GET 需要 view，写操作需要 operate", () => {
+    expect(getRequiredPermission("GET", "/api/messages")).toBe("view");
+    expect(getRequiredPermission("head", "/api/export/messages")).toBe("view");
+    expect(getRequiredPermission("POST", "/api/tasks/retry")).toBe("operate");
+    expect(getRequiredPermission("PATCH", "/api/channels")).toBe("operate");
+  });
+
+  it("删除频道、改设置、管理用户需要 admin", () => {
+    expect(getRequiredPermission("DELETE", "/api/channels")).toBe("admin");
+    expect(getRequiredPermission("DELETE", "/api/channels/targets")).toBe("operate");
+    expect(getRequiredPermission("PATCH", "/api/settings")).toBe("admin");
+    expect(getRequiredPermission("POST", "/api/settings/proxy-test")).toBe("admin");
+    expect(getRequiredPermission("GET", "/api/settings")).toBe("view");
+    expect(getRequiredPermission("GET", "/api/users")).toBe("admin");
+  });
+
+  it("审计日志查看与导出只对 admin 开放，其它导出仍是 view", () => {
+    expect(getRequiredPermission("GET", "/api/audit")).toBe("admin");
+    expect(getRequiredPermission("GET", "/api/export/audit")).toBe("admin");
+    expect(getRequiredPermission("GET", "/api/export/channels")).toBe("view");
+  });
+
+  it("Telegram 账号登录 / 退出需要 admin，查看状态只需 view", () => {
+    expect(getRequiredPermission("POST", "/api/telegram/logout")).toBe("admin");
+    expect(getRequiredPermission("POST", "/api/telegram/login/qr")).toBe("admin");
+    expect(getRequiredPermission("GET", "/api/telegram/login/status")).toBe("view");
+    expect(getRequiredPermission("GET", "/api/telegram/accounts")).toBe("view");
+    expect(getRequiredPermission("DELETE", "/api/telegram/accounts")).toBe("admin");
+    expect(getRequiredPermission("GET", "/api/telegram/dialogs")).toBe("operate");
+  });
+
+  it("只读预览与筛选预设对 viewer 开放", () => {
+    expect(getRequiredPermission("POST", "/api/messages/filter-preview")).toBe("view");
+    expect(getRequiredPermission("POST", "/api/channels/copy-transform-preview")).toBe("view");
+    expect(getRequiredPermission("POST", "/api/presets/import")).toBe("view");
+  });
+
+  it("忽略路径末尾的斜杠，不误匹配同前缀的其它路径", () => {
+    expect(getRequiredPermission("DELETE", "/api/channels/")).toBe("admin");
+    expect(getRequiredPermission("POST", "/api/usersettings")).toBe("operate");
+  });
+});
+
+describe("apiTokenScopeAllows", () => {
+  it("read 只能查询，export 另外可以导出，operate 可以做操作员的写操作", () => {
+    expect(apiTokenScopeAllows("read", "view", "/api/messages")).toBe(true);
+    expect(apiTokenScopeAllows("read", "view", "/api/export/messages")).toBe(false);
+    expect(apiTokenScopeAllows("export", "view", "/api/export/messages")).toBe(true);
+    expect(apiTokenScopeAllows("export", "operate", "/api/channels")).toBe(false);
+    expect(apiTokenScopeAllows("operate", "operate", "/api/channels")).toBe(true);
+    expect(apiTokenScopeAllows("operate", "view", "/api/export/channels/")).toBe(true);
+  });
+
+  it("任何 scope 都不能做 admin 操作，也不能管理 token / 用户 / 登录", () => {
+    expect(apiTokenScopeAllows("operate", "admin", "/api/settings")).toBe(false);
+    expect(apiTokenScopeAllows("operate", "view", "/api/tokens")).toBe(false);
+    expect(apiTokenScopeAllows("operate", "view", "/api/auth/status")).toBe(false);
+    expect(apiTokenScopeAllows("operate", "admin", "/api/users")).toBe(false);
+  });
+
+  it("可创建的 scope 上限跟随角色", () => {
+    expect(getMaxApiTokenScope("viewer")).toBe("export");
+    expect(getMaxApiTokenScope("operator")).toBe("operate");
+    expect(isApiTokenScopeWithin("operate", getMaxApiTokenScope("viewer"))).toBe(false);
+    expect(isApiTokenScopeWithin("read", "export")).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { buildSearchSnippet, findSearchMatches, getPositiveSearchTerms, parseSearchQuery } from "../lib/search-query";
+
+describe("parseSearchQuery", () => {
+  it("支持短语、排除词和 OR 分组", () => {
+    expect(parseSearchQuery('hello "big cat" -spam OR 中文 -"垃圾 广告"')).toEqual({
+      groups: [
+        [
+          { text: "hello", phrase: false, exclude: false },
+          { text: "big cat", phrase: true, exclude: false },
+          { text: "spam", phrase: false, exclude: true },
+        ],
+        [
+          { text: "中文", phrase: false, exclude: false },
+          { text: "垃圾 广告", phrase: true, exclude: true },
+        ],
+      ],
+    });
+  });
+
+  it("忽略多余的 OR、空短语和单独的减号", () => {
+    expect(parseSearchQuery('OR a OR OR "" - b OR')).toEqual({
+      groups: [[{ text: "a", phrase: false, exclude: false }], [{ text: "b", phrase: false, exclude: false }]],
+    });
+    expect(parseSearchQuery("   ")).toBeNull();
+  });
+
+  it("小写 or 按普通词处理", () => {
+    expect(parseSearchQuery("a or b")?.groups).toHaveLength(1);
+  });
+});
+
+describe("findSearchMatches / buildSearchSnippet", () => {
+  it("英文按整词匹配，中文按子串匹配", () => {
+    const terms = getPositiveSearchTerms(parseSearchQuery("cat 中文"));
+    const text = "category cat 学中文";
+    expect(findSearchMatches(text, terms).map((m) => text.slice(m.start, m.end))).toEqual(["cat", "中文"]);
+  });
+
+  it("片段围绕第一个命中位置截取，排除词不参与", () => {
+    const text = `${"x".repeat(100)} needle ${"y".repeat(200)}`;
+    const snippet = buildSearchSnippet(text, parseSearchQuery("needle -x"), 10);
+    expect(snippet).toBe(`…${"x".repeat(9)} needle ${"y".repeat(19)}…`);
+    expect(buildSearchSnippet(text, parseSearchQuery("-needle"))).toBeNull();
+  });
+});
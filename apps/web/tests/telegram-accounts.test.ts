@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { db, schema } from "@tg-back/db";
+import { DELETE, PATCH } from "../app/api/telegram/accounts/route";
+
+vi.mock("@tg-back/db", async (importOriginal) => (await import("@tg-back/db/testing")).withTestDb(importOriginal));
+vi.mock("@/lib/api-auth", () => ({
+  requireApiAuth: vi.fn(async () => ({ error: null, access: null })),
+  getAccessStatus: vi.fn(async () => ({ mode: "open", authed: true, user: { id: null, username: null, role: "admin" }, token: null })),
+}));
+
+function jsonRequest(method: string, body: Record<string, unknown>) {
+  return new NextRequest("http://localhost/api/telegram/accounts", { method, body: JSON.stringify(body) });
+}
+
+async function createAccount() {
+  const [row] = await db
+    .insert(schema.telegramAccounts)
+    .values({ name: "main", session: "encrypted-session" })
+    .returning({ id: schema.telegramAccounts.id });
+  return row!.id;
+}
+
+beforeEach(async () => {
+  await db.delete(schema.telegramAccounts);
+});
+
+describe("/api/telegram/accounts", () => {
+  it("改名、停用记审计，只记改动的字段", async () => {
+    const id = await createAccount();
+
+    const res = await PATCH(jsonRequest("PATCH", { id, name: "backup", isActive: false }));
+    expect(res.status).toBe(200);
+
+    const logs = await db.select().from(schema.auditLogs);
+    const log = logs.find((row) => row.targetId === id && row.action === "telegram_account.update");
+    expect(log).toMatchObject({
+      actorName: "anonymous",
+      method: "PATCH",
+      targetType: "telegram_account",
+      targetLabel: "main",
+      changes: { name: { before: "main", after: "backup" }, isActive: { before: true, after: false } },
+    });
+  });
+
+  it("删除账号记审计，session 脱敏", async () => {
+    const id = await createAccount();
+
+    const res = await DELETE(jsonRequest("DELETE", { id }));
+    expect(res.status).toBe(200);
+
+    const logs = await db.select().from(schema.auditLogs);
+    const log = logs.find((row) => row.targetId === id && row.action === "telegram_account.delete");
+    expect(log?.targetLabel).toBe("main");
+    expect(log?.changes.session).toEqual({ before: "[redacted]", after: null });
+    expect(log?.changes.isActive).toEqual({ before: true, after: null });
+  });
+});
@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Api, type TelegramClient } from "telegram";
+import { returnBigInt } from "telegram/Helpers";
+import { cleanupExpiredSessions, createQrLoginSession, loginSessions, pollQrLogin } from "../lib/telegram-login";
+
+const API = { apiId: 1, apiHash: "hash" };
+const nowSec = () => Math.floor(Date.now() / 1000);
+
+function loginToken(token: string, expiresInSec: number): Api.auth.LoginToken {
+  return new Api.auth.LoginToken({ token: Buffer.from(token), expires: nowSec() + expiresInSec });
+}
+
+function loginSuccess(): Api.auth.LoginTokenSuccess {
+  return new Api.auth.LoginTokenSuccess({
+    authorization: new Api.auth.Authorization({ user: new Api.UserEmpty({ id: returnBigInt(1) }) }),
+  });
+}
+
+function telegramError(errorMessage: string): Error {
+  return Object.assign(new Error(errorMessage), { errorMessage });
+}
+
+/**
+ * invoke 依次返回 results 里的结果（Error 则抛出），并记下每次请求。
+ */
+function createClient(results: Array<Api.TypeAuthLoginToken | Error>) {
+  const handlers: Array<(update: unknown) => void> = [];
+  const client = {
+    invoke: vi.fn(async () => {
+      const next = results.shift();
+      if (!next) throw new Error("no more results");
+      if (next instanceof Error) throw next;
+      return next;
+    }),
+    _switchDC: vi.fn(async () => {}),
+    addEventHandler: vi.fn((handler: (update: unknown) => void) => handlers.push(handler)),
+    disconnect: vi.fn(async () => {}),
+  };
+  const emit = (update: unknown) => handlers.forEach((handler) => handler(update));
+  return { client: client as typeof client & TelegramClient, emit };
+}
+
+async function createSession(results: Array<Api.TypeAuthLoginToken | Error>) {
+  const { client, emit } = createClient([loginToken("first", 30), ...results]);
+  const session = await createQrLoginSession(client, API, { accountId: null, accountName: "main" });
+  client.invoke.mockClear();
+  return { client, emit, session };
+}
+
+afterEach(() => {
+  loginSessions.clear();
+});
+
+describe("createQrLoginSession", () => {
+  it("导出 login token 作为二维码内容，收到 UpdateLoginToken 后标记为已扫码", async () => {
+    const { client, emit, session } = await createSession([]);
+
+    expect(session).toMatchObject({ method: "qr", accountId: null, accountName: "main", scanned: false, passwordRequired: false });
+    expect(session.url).toBe(`tg://login?token=${Buffer.from("first").toString("base64url")}`);
+    expect(session.expiresAt).toBeGreaterThan(Date.now());
+    expect(client.addEventHandler).toHaveBeenCalledTimes(1);
+
+    emit(new Api.UpdateLoginToken());
+    expect(session.scanned).toBe(true);
+  });
+});
+
+describe("pollQrLogin", () => {
+  it("还没扫码且二维码没快过期时直接返回 pending，不发请求", async () => {
+    const { client, session } = await createSession([]);
+
+    expect(await pollQrLogin(session, API)).toBe("pending");
+    expect(client.invoke).not.toHaveBeenCalled();
+  });
+
+  it("二维码快过期时换新的 token", async () => {
+    const { session } = await createSession([loginToken("second", 30)]);
+    session.expiresAt = Date.now() + 1_000;
+
+    expect(await pollQrLogin(session, API)).toBe("pending");
+    expect(session.url).toBe(`tg://login?token=${Buffer.from("second").toString("base64url")}`);
+    expect(session.expiresAt).toBeGreaterThan(Date.now() + 5_000);
+  });
+
+  it("扫码后换取授权", async () => {
+    const { client, emit, session } = await createSession([loginSuccess()]);
+    emit(new Api.UpdateLoginToken());
+
+    expect(await pollQrLogin(session, API)).toBe("authorized");
+    expect(client.invoke.mock.calls[0]![0]).toBeInstanceOf(Api.auth.ExportLoginToken);
+  });
+
+  it("账号在其它 DC 时切换过去再用 ImportLoginToken 换取授权", async () => {
+    const migrateToken = Buffer.from("migrate");
+    const { client, emit, session } = await createSession([new Api.auth.LoginTokenMigrateTo({ dcId: 4, token: migrateToken }), loginSuccess()]);
+    emit(new Api.UpdateLoginToken());
+
+    expect(await pollQrLogin(session, API)).toBe("authorized");
+    expect(client._switchDC).toHaveBeenCalledWith(4);
+    const importRequest = client.invoke.mock.calls[1]![0] as Api.auth.ImportLoginToken;
+    expect(importRequest).toBeInstanceOf(Api.auth.ImportLoginToken);
+    expect(importRequest.token).toEqual(migrateToken);
+  });
+
+  it("DC 切换后拿到的仍是新 token 时回到等待扫码", async () => {
+    const { emit, session } = await createSession([new Api.auth.LoginTokenMigrateTo({ dcId: 2, token: Buffer.from("m") }), loginToken("third", 30)]);
+    emit(new Api.UpdateLoginToken());
+
+    expect(await pollQrLogin(session, API)).toBe("pending");
+    expect(session).toMatchObject({ scanned: false, url: `tg://login?token=${Buffer.from("third").toString("base64url")}` });
+  });
+
+  it("开启两步验证时进入 password 状态，之后不再请求", async () => {
+    const { client, emit, session } = await createSession([telegramError("SESSION_PASSWORD_NEEDED")]);
+    emit(new Api.UpdateLoginToken());
+
+    expect(await pollQrLogin(session, API)).toBe("password");
+    expect(session.passwordRequired).toBe(true);
+    expect(await pollQrLogin(session, API)).toBe("password");
+    expect(client.invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it("其它错误原样抛出", async () => {
+    const { emit, session } = await createSession([telegramError("AUTH_TOKEN_EXPIRED")]);
+    emit(new Api.UpdateLoginToken());
+
+    await expect(pollQrLogin(session, API)).rejects.toThrow("AUTH_TOKEN_EXPIRED");
+  });
+});
+
+describe("cleanupExpiredSessions", () => {
+  it("断开并移除超过 30 分钟的登录会话", async () => {
+    const stale = await createSession([]);
+    const fresh = await createSession([]);
+    stale.session.createdAt = Date.now() - 31 * 60_000;
+    loginSessions.set("stale", stale.session);
+    loginSessions.set("fresh", fresh.session);
+
+    cleanupExpiredSessions();
+
+    expect([...loginSessions.keys()]).toEqual(["fresh"]);
+    expect(stale.client.disconnect).toHaveBeenCalledTimes(1);
+    expect(fresh.client.disconnect).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,12 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname) },
+  },
+  test: {
+    // @tg-back/db 导入时会创建 postgres-js 客户端（惰性连接）；需要查库的测试用 @tg-back/db/testing 换成 PGlite
+    env: { DATABASE_URL: "postgres://test@127.0.0.1:5432/test" },
+  },
+});
@@ -51,3 +51,11 @@ export function decrypt(payload: string): string {
   return plaintext.toString("utf8");
 }
 
+/**
+ * 从 ENCRYPTION_SECRET 派生固定用途的令牌（HMAC），例如 Web 调用 mirror-service 控制接口时的 Bearer token。
+ * 两个进程共用同一个 ENCRYPTION_SECRET 即可，不需要额外配置。
+ */
+export function deriveSecretToken(purpose: string): string {
+  const secret = requireEncryptionSecret();
+  return crypto.createHmac("sha256", secret).update(`tg-back:${purpose}`).digest("base64url");
+}
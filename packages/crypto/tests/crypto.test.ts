@@ -1,5 +1,5 @@
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
-import { decrypt, encrypt } from "../src";
+import { decrypt, deriveSecretToken, encrypt } from "../src";
 
 describe("@tg-back/crypto", () => {
   const originalSecret = process.env.ENCRYPTION_SECRET;
@@ -26,5 +26,12 @@ describe("@tg-back/crypto", () => {
   it("decrypt 空字符串返回空字符串", () => {
     expect(decrypt("")).toBe("");
   });
-});
 
+  it("deriveSecretToken 对同一用途稳定，不同用途或密钥不同", () => {
+    const token = deriveSecretToken("mirror-control");
+    expect(deriveSecretToken("mirror-control")).toBe(token);
+    expect(deriveSecretToken("other")).not.toBe(token);
+    process.env.ENCRYPTION_SECRET = "another-secret";
+    expect(deriveSecretToken("mirror-control")).not.toBe(token);
+  });
+});
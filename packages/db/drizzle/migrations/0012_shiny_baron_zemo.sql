@@ -0,0 +1,7 @@
+CREATE TYPE "public"."edit_sync_mode" AS ENUM('edit', 'comment', 'record');--> statement-breakpoint
+CREATE TYPE "public"."edit_propagation_status" AS ENUM('pending', 'edited', 'commented', 'recorded', 'skipped', 'failed');--> statement-breakpoint
+ALTER TABLE "source_channels" ADD COLUMN "edit_sync_mode" "edit_sync_mode" DEFAULT 'edit' NOT NULL;--> statement-breakpoint
+ALTER TABLE "message_edits" ADD COLUMN "propagation_status" "edit_propagation_status" DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE "message_edits" ADD COLUMN "propagation_error" text;--> statement-breakpoint
+ALTER TABLE "message_edits" ADD COLUMN "propagated_at" timestamp with time zone;--> statement-breakpoint
+UPDATE "message_edits" SET "propagation_status" = 'recorded' WHERE "propagated_at" IS NULL;
\ No newline at end of file
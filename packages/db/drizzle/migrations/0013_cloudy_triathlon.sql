@@ -0,0 +1,7 @@
+CREATE TYPE "public"."deletion_sync_mode" AS ENUM('record', 'mark', 'delete');--> statement-breakpoint
+CREATE TYPE "public"."mirror_deletion_status" AS ENUM('deleted', 'marked', 'failed');--> statement-breakpoint
+ALTER TABLE "source_channels" ADD COLUMN "deletion_sync_mode" "deletion_sync_mode" DEFAULT 'record' NOT NULL;--> statement-breakpoint
+ALTER TABLE "source_channels" ADD COLUMN "deletion_grace_minutes" integer DEFAULT 60 NOT NULL;--> statement-breakpoint
+ALTER TABLE "message_mappings" ADD COLUMN "mirror_deletion_status" "mirror_deletion_status";--> statement-breakpoint
+ALTER TABLE "message_mappings" ADD COLUMN "mirror_deletion_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "deleted_channel_idx" ON "message_mappings" USING btree ("source_channel_id","deleted_at");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "sync_tasks" ADD COLUMN "range_start_id" integer;--> statement-breakpoint
+ALTER TABLE "sync_tasks" ADD COLUMN "range_end_id" integer;--> statement-breakpoint
+ALTER TABLE "sync_tasks" ADD COLUMN "range_start_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "sync_tasks" ADD COLUMN "range_end_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "sync_tasks" ADD COLUMN "range_remirror" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TYPE "public"."media_archive_status" AS ENUM('stored', 'skipped', 'failed');--> statement-breakpoint
+CREATE TABLE "message_media" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"message_mapping_id" uuid NOT NULL,
+	"source_channel_id" uuid NOT NULL,
+	"status" "media_archive_status" NOT NULL,
+	"storage_path" text,
+	"sha256" text,
+	"mime_type" text,
+	"file_name" text,
+	"file_size" bigint,
+	"width" integer,
+	"height" integer,
+	"duration_sec" integer,
+	"skip_reason" text,
+	"error_message" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"archived_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "message_media" ADD CONSTRAINT "message_media_message_mapping_id_message_mappings_id_fk" FOREIGN KEY ("message_mapping_id") REFERENCES "public"."message_mappings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_media" ADD CONSTRAINT "message_media_source_channel_id_source_channels_id_fk" FOREIGN KEY ("source_channel_id") REFERENCES "public"."source_channels"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "unique_message_media_mapping" ON "message_media" USING btree ("message_mapping_id");--> statement-breakpoint
+CREATE INDEX "message_media_channel_status_idx" ON "message_media" USING btree ("source_channel_id","status");--> statement-breakpoint
+CREATE INDEX "message_media_sha256_idx" ON "message_media" USING btree ("sha256");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "message_media" ADD COLUMN "thumb_storage_path" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "message_mappings" ADD COLUMN "text_search" "tsvector" GENERATED ALWAYS AS (to_tsvector('simple', coalesce("text", ''))) STORED;--> statement-breakpoint
+CREATE INDEX "message_mappings_text_search_idx" ON "message_mappings" USING gin ("text_search");
\ No newline at end of file
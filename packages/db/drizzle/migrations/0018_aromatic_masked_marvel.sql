@@ -0,0 +1,3 @@
+ALTER TYPE "public"."message_filter_mode" ADD VALUE 'merge';--> statement-breakpoint
+ALTER TABLE "source_channels" ADD COLUMN "message_filter_rules" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "message_mappings" ADD COLUMN "skip_detail" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "source_channels" ADD COLUMN "copy_transforms" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,34 @@
+CREATE TYPE "public"."notification_delivery_status" AS ENUM('pending', 'sent', 'failed', 'rate_limited');--> statement-breakpoint
+CREATE TYPE "public"."notification_target_type" AS ENUM('webhook', 'telegram_bot', 'email');--> statement-breakpoint
+CREATE TABLE "notification_deliveries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"rule_id" uuid NOT NULL,
+	"event_id" uuid,
+	"payload" jsonb NOT NULL,
+	"status" "notification_delivery_status" DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"response_status" integer,
+	"last_error" text,
+	"sent_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "notification_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"target_type" "notification_target_type" NOT NULL,
+	"target" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"min_level" "event_level" DEFAULT 'warn' NOT NULL,
+	"source_channel_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"rate_limit_count" integer DEFAULT 20 NOT NULL,
+	"rate_limit_window_sec" integer DEFAULT 3600 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_rule_id_notification_rules_id_fk" FOREIGN KEY ("rule_id") REFERENCES "public"."notification_rules"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_event_id_sync_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."sync_events"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "notification_delivery_status_next_idx" ON "notification_deliveries" USING btree ("status","next_attempt_at");--> statement-breakpoint
+CREATE INDEX "notification_delivery_rule_created_idx" ON "notification_deliveries" USING btree ("rule_id","created_at");
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TABLE "message_target_mappings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"message_mapping_id" uuid NOT NULL,
+	"mirror_channel_id" uuid NOT NULL,
+	"mirror_message_id" integer,
+	"status" "message_status" DEFAULT 'pending' NOT NULL,
+	"skip_reason" "skip_reason",
+	"skip_detail" text,
+	"error_message" text,
+	"retry_count" integer DEFAULT 0 NOT NULL,
+	"mirrored_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "mirror_channels" DROP CONSTRAINT "mirror_channels_source_channel_id_unique";--> statement-breakpoint
+ALTER TABLE "mirror_channels" ADD COLUMN "is_primary" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "mirror_channels" ADD COLUMN "is_active" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "mirror_channels" ADD COLUMN "mirror_mode" "mirror_mode";--> statement-breakpoint
+ALTER TABLE "mirror_channels" ADD COLUMN "message_filter_mode" "message_filter_mode" DEFAULT 'inherit' NOT NULL;--> statement-breakpoint
+ALTER TABLE "mirror_channels" ADD COLUMN "message_filter_rules" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "mirror_channels" ADD COLUMN "copy_transforms" jsonb;--> statement-breakpoint
+ALTER TABLE "message_target_mappings" ADD CONSTRAINT "message_target_mappings_message_mapping_id_message_mappings_id_fk" FOREIGN KEY ("message_mapping_id") REFERENCES "public"."message_mappings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_target_mappings" ADD CONSTRAINT "message_target_mappings_mirror_channel_id_mirror_channels_id_fk" FOREIGN KEY ("mirror_channel_id") REFERENCES "public"."mirror_channels"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "unique_message_target" ON "message_target_mappings" USING btree ("message_mapping_id","mirror_channel_id");--> statement-breakpoint
+CREATE INDEX "message_target_status_idx" ON "message_target_mappings" USING btree ("mirror_channel_id","status");--> statement-breakpoint
+CREATE UNIQUE INDEX "unique_primary_mirror_channel" ON "mirror_channels" USING btree ("source_channel_id") WHERE "mirror_channels"."is_primary";--> statement-breakpoint
+CREATE INDEX "mirror_channels_source_channel_idx" ON "mirror_channels" USING btree ("source_channel_id");
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "telegram_accounts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"session" text DEFAULT '' NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"phone_number" text,
+	"telegram_user_id" bigint,
+	"username" text,
+	"display_name" text,
+	"last_connected_at" timestamp with time zone,
+	"last_error" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "source_channels" ADD COLUMN "telegram_account_id" uuid;--> statement-breakpoint
+ALTER TABLE "source_channels" ADD COLUMN "active_account_id" uuid;--> statement-breakpoint
+ALTER TABLE "source_channels" ADD CONSTRAINT "source_channels_telegram_account_id_telegram_accounts_id_fk" FOREIGN KEY ("telegram_account_id") REFERENCES "public"."telegram_accounts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "source_channels" ADD CONSTRAINT "source_channels_active_account_id_telegram_accounts_id_fk" FOREIGN KEY ("active_account_id") REFERENCES "public"."telegram_accounts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "telegram_accounts" ("name", "session") SELECT '默认账号', "value" #>> '{}' FROM "settings" WHERE "key" = 'telegram_session' AND coalesce("value" #>> '{}', '') <> '';--> statement-breakpoint
+UPDATE "source_channels" SET "active_account_id" = (SELECT "id" FROM "telegram_accounts" ORDER BY "created_at" LIMIT 1);--> statement-breakpoint
+UPDATE "settings" SET "value" = '""'::jsonb WHERE "key" = 'telegram_session';
@@ -0,0 +1,18 @@
+CREATE TYPE "public"."task_schedule_action" AS ENUM('enqueue', 'allow_window', 'pause_window');--> statement-breakpoint
+CREATE TABLE "task_schedules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"action" "task_schedule_action" NOT NULL,
+	"cron_expression" text NOT NULL,
+	"timezone" text DEFAULT 'UTC' NOT NULL,
+	"duration_minutes" integer DEFAULT 60 NOT NULL,
+	"task_types" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"lookback_minutes" integer DEFAULT 1440 NOT NULL,
+	"source_channel_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"group_names" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"last_run_at" timestamp with time zone,
+	"last_result" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
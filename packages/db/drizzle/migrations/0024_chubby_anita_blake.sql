@@ -0,0 +1,4 @@
+ALTER TABLE "source_channels" ADD COLUMN "mirror_verified_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "message_mappings" ADD COLUMN "mirror_verified_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "message_mappings" ADD COLUMN "mirror_missing_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "mirror_verified_idx" ON "message_mappings" USING btree ("source_channel_id","mirror_verified_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "source_channels" ADD COLUMN "gap_scanned_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "source_channels" ADD COLUMN "gap_scan" jsonb;
\ No newline at end of file
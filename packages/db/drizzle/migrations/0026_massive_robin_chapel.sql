@@ -0,0 +1,23 @@
+CREATE TABLE "message_comments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"message_mapping_id" uuid NOT NULL,
+	"source_channel_id" uuid NOT NULL,
+	"source_comment_id" integer NOT NULL,
+	"reply_to_comment_id" integer,
+	"author_id" bigint,
+	"author_name" text,
+	"text" text,
+	"message_type" "message_type" NOT NULL,
+	"media_group_id" text,
+	"status" "message_status" DEFAULT 'pending' NOT NULL,
+	"mirror_message_id" integer,
+	"error_message" text,
+	"sent_at" timestamp with time zone NOT NULL,
+	"mirrored_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "message_comments" ADD CONSTRAINT "message_comments_message_mapping_id_message_mappings_id_fk" FOREIGN KEY ("message_mapping_id") REFERENCES "public"."message_mappings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_comments" ADD CONSTRAINT "message_comments_source_channel_id_source_channels_id_fk" FOREIGN KEY ("source_channel_id") REFERENCES "public"."source_channels"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "unique_source_comment" ON "message_comments" USING btree ("source_channel_id","source_comment_id");--> statement-breakpoint
+CREATE INDEX "message_comments_mapping_idx" ON "message_comments" USING btree ("message_mapping_id","source_comment_id");
\ No newline at end of file
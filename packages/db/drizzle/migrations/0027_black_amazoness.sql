@@ -0,0 +1 @@
+ALTER TABLE "source_channels" ADD COLUMN "is_offline" boolean DEFAULT false NOT NULL;
\ No newline at end of file
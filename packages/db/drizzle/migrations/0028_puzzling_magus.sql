@@ -0,0 +1,13 @@
+CREATE TYPE "public"."web_user_role" AS ENUM('viewer', 'operator', 'admin');--> statement-breakpoint
+CREATE TABLE "web_users" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password_hash" text NOT NULL,
+	"role" "web_user_role" DEFAULT 'viewer' NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"session_version" integer DEFAULT 1 NOT NULL,
+	"last_login_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "web_users_username_unique" UNIQUE("username")
+);
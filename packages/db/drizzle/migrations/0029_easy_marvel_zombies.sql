@@ -0,0 +1,20 @@
+CREATE TABLE "audit_logs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"actor_user_id" uuid,
+	"actor_name" text NOT NULL,
+	"actor_role" "web_user_role",
+	"ip" text,
+	"method" text NOT NULL,
+	"route" text NOT NULL,
+	"action" text NOT NULL,
+	"target_type" text NOT NULL,
+	"target_id" text,
+	"target_label" text,
+	"changes" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_actor_user_id_web_users_id_fk" FOREIGN KEY ("actor_user_id") REFERENCES "public"."web_users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "audit_log_created_at_idx" ON "audit_logs" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "audit_log_target_idx" ON "audit_logs" USING btree ("target_type","target_id");--> statement-breakpoint
+CREATE INDEX "audit_log_action_created_idx" ON "audit_logs" USING btree ("action","created_at");
\ No newline at end of file
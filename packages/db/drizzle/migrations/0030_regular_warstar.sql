@@ -0,0 +1,20 @@
+CREATE TYPE "public"."api_token_scope" AS ENUM('read', 'export', 'operate');--> statement-breakpoint
+CREATE TABLE "api_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"owner_user_id" uuid,
+	"scope" "api_token_scope" DEFAULT 'read' NOT NULL,
+	"token_hash" text NOT NULL,
+	"token_prefix" text NOT NULL,
+	"rate_limit_per_minute" integer DEFAULT 60 NOT NULL,
+	"expires_at" timestamp with time zone,
+	"last_used_at" timestamp with time zone,
+	"last_used_ip" text,
+	"revoked_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "api_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "api_token_name" text;--> statement-breakpoint
+ALTER TABLE "api_tokens" ADD CONSTRAINT "api_tokens_owner_user_id_web_users_id_fk" FOREIGN KEY ("owner_user_id") REFERENCES "public"."web_users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "api_token_owner_idx" ON "api_tokens" USING btree ("owner_user_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "mirror_channels" ADD COLUMN "cursor_message_id" integer;
\ No newline at end of file
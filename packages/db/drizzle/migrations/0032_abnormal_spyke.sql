@@ -0,0 +1 @@
+ALTER TABLE "source_channels" ALTER COLUMN "edit_sync_mode" SET DEFAULT 'record';
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "source_channels" ADD COLUMN "deletion_sync_since" timestamp with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "message_mappings" ADD COLUMN "mirror_deletion_attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "message_mappings" ADD COLUMN "mirror_deletion_retry_at" timestamp with time zone;--> statement-breakpoint
+-- 已经开启删除同步的频道保持原来的行为（处理全部未处理的删除）
+UPDATE "source_channels" SET "deletion_sync_since" = to_timestamp(0) WHERE "deletion_sync_mode" <> 'record';
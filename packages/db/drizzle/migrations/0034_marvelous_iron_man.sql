@@ -0,0 +1,16 @@
+-- 审计日志只追加：拒绝修改 / 删除 / 清空。
+-- 唯一例外是删除 Web 用户时外键 ON DELETE set null 把 actor_user_id 置空（actor_name 仍保留）
+CREATE FUNCTION "audit_logs_append_only"() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+	IF TG_OP = 'UPDATE'
+		AND NEW."actor_user_id" IS NULL
+		AND (to_jsonb(NEW) - 'actor_user_id') = (to_jsonb(OLD) - 'actor_user_id') THEN
+		RETURN NEW;
+	END IF;
+	RAISE EXCEPTION 'audit_logs is append-only (% is not allowed)', TG_OP;
+END;
+$$;
+--> statement-breakpoint
+CREATE TRIGGER "audit_logs_append_only_row" BEFORE UPDATE OR DELETE ON "audit_logs" FOR EACH ROW EXECUTE FUNCTION "audit_logs_append_only"();
+--> statement-breakpoint
+CREATE TRIGGER "audit_logs_append_only_truncate" BEFORE TRUNCATE ON "audit_logs" FOR EACH STATEMENT EXECUTE FUNCTION "audit_logs_append_only"();
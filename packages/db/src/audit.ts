@@ -0,0 +1,120 @@
+/**
+ * 审计日志（audit_logs）的动作定义与变更计算。
+ *
+ * - changes 只记录前后不同的字段：{ 字段: { before, after } }
+ * - 名字里带 password / secret / token / hash 的字段（以及 Telegram session）一律脱敏，只能看出“改过”
+ * - Date 转 ISO 字符串、bigint 转字符串，保证能直接写进 jsonb
+ */
+
+export const AUDIT_ACTIONS = [
+  "settings.update",
+  "channel.create",
+  "channel.update",
+  "channel.delete",
+  "channel.import",
+  "channel.requeue_missing",
+  "channel_target.create",
+  "channel_target.update",
+  "channel_target.delete",
+  "task.create",
+  "task.update",
+  "task_schedule.create",
+  "task_schedule.update",
+  "task_schedule.delete",
+  "mirror.control",
+  "notification_rule.create",
+  "notification_rule.update",
+  "notification_rule.delete",
+  "notification_delivery.retry",
+  "preset.update",
+  "telegram.login",
+  "telegram.logout",
+  "telegram_account.update",
+  "telegram_account.delete",
+  "user.create",
+  "user.update",
+  "user.delete",
+  "api_token.create",
+  "api_token.revoke",
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditChange = { before: unknown; after: unknown };
+export type AuditChanges = Record<string, AuditChange>;
+
+export const AUDIT_REDACTED = "[redacted]";
+
+// session / telegram_session 是 Telegram 登录凭据；sessionVersion 不算
+const SECRET_KEY_RE = /password|secret|token|hash|(^|_)session$/i;
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return typeof value === "string" && (AUDIT_ACTIONS as readonly string[]).includes(value);
+}
+
+export function isSecretAuditKey(key: string): boolean {
+  return SECRET_KEY_RE.test(key);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * 转成可序列化的值，并把密钥类字段替换为 AUDIT_REDACTED（空值保持原样，便于看出“清空了”）。
+ */
+export function redactAuditValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return value.map(redactAuditValue);
+  if (isRecord(value)) {
+    const out: Record<string, unknown> = {};
+    for (const [key, inner] of Object.entries(value)) {
+      out[key] = isSecretAuditKey(key) ? redactSecret(inner) : redactAuditValue(inner);
+    }
+    return out;
+  }
+  return value;
+}
+
+function redactSecret(value: unknown): unknown {
+  if (value === null || value === undefined || value === "") return value ?? null;
+  return AUDIT_REDACTED;
+}
+
+function toComparable(value: unknown): string {
+  return JSON.stringify(value, (_key, inner: unknown) => {
+    if (typeof inner === "bigint") return inner.toString();
+    if (isRecord(inner)) {
+      return Object.fromEntries(Object.keys(inner).sort().map((key) => [key, inner[key]]));
+    }
+    return inner;
+  }) ?? "null";
+}
+
+/**
+ * 对比前后两份快照（任一方可以为空，表示新建 / 删除），返回已脱敏的字段级差异。
+ *
+ * 比较用原始值，所以密钥换了新值也会留下一条 [redacted] → [redacted] 的记录。
+ */
+export function buildAuditChanges(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+): AuditChanges {
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: AuditChanges = {};
+
+  for (const key of [...keys].sort()) {
+    const prev = before?.[key];
+    const next = after?.[key];
+    if (toComparable(prev ?? null) === toComparable(next ?? null)) continue;
+
+    const secret = isSecretAuditKey(key);
+    changes[key] = {
+      before: secret ? redactSecret(prev) : redactAuditValue(prev ?? null),
+      after: secret ? redactSecret(next) : redactAuditValue(next ?? null),
+    };
+  }
+
+  return changes;
+}
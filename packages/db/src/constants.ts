@@ -1,2 +1,8 @@
 export const TASKS_NOTIFY_CHANNEL = "tg_back_sync_tasks_v1";
 
+// mirror-service 定期写入 settings 表的心跳（Web 仪表盘 / 健康检查 / 指标据此判断同步服务是否在线）
+export const MIRROR_SERVICE_HEARTBEAT_KEY = "mirror_service_heartbeat";
+export const MIRROR_SERVICE_HEARTBEAT_INTERVAL_MS = 30_000;
+
+// mirror-service 控制接口默认只监听本机这个端口，Web 通过它下发“立即重新订阅/清缓存”等操作
+export const MIRROR_CONTROL_DEFAULT_PORT = 3101;
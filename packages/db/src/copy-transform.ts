@@ -0,0 +1,313 @@
+import { z } from "zod";
+
+/**
+ * copy 模式的文本转换（mirror-service 发送前调用，web 端预览共用）。
+ *
+ * 执行顺序：正则替换 → 链接 → @提及 → 去掉末尾签名/页脚 → 去首尾空白 → 模板 → 追加页脚。
+ * 所有改动都通过 replaceRange 完成，格式实体（粗体、链接等）的 offset/length 会随之平移或裁剪；
+ * message_mappings.text 仍然保存源消息原文。
+ */
+
+const MAX_REPLACEMENTS = 50;
+const MAX_PATTERN_LENGTH = 500;
+const MAX_TEMPLATE_LENGTH = 2000;
+
+const regexFlagsSchema = z
+  .string()
+  .regex(/^[imsu]*$/, "flags 只支持 i/m/s/u")
+  .optional();
+
+const replacementSchema = z.object({
+  pattern: z.string().min(1).max(MAX_PATTERN_LENGTH),
+  flags: regexFlagsSchema,
+  replacement: z.string().max(MAX_TEMPLATE_LENGTH).default(""),
+});
+
+export const copyTransformConfigSchema = z.object({
+  replacements: z.array(replacementSchema).max(MAX_REPLACEMENTS).default([]),
+  // 从末尾开始逐行匹配，命中（或空行）就删掉，直到遇到不匹配的行
+  stripFooterPatterns: z.array(z.string().min(1).max(MAX_PATTERN_LENGTH)).max(MAX_REPLACEMENTS).default([]),
+  links: z.enum(["keep", "remove", "rewrite"]).default("keep"),
+  linkRewrites: z.array(replacementSchema).max(MAX_REPLACEMENTS).default([]),
+  mentions: z.enum(["keep", "remove", "replace"]).default("keep"),
+  mentionReplacement: z.string().max(100).default(""),
+  // 支持 {text} {source_name} {source_username} {source_link} {original_link}
+  template: z
+    .string()
+    .max(MAX_TEMPLATE_LENGTH)
+    .default("{text}")
+    .refine((v) => !v.trim() || v.split("{text}").length === 2, "template 必须且只能包含一个 {text}"),
+  footer: z.string().max(MAX_TEMPLATE_LENGTH).default(""),
+});
+
+export type CopyTransformConfig = z.infer<typeof copyTransformConfigSchema>;
+
+export const defaultCopyTransformConfig: CopyTransformConfig = copyTransformConfigSchema.parse({});
+
+function getConfigRegexError(config: CopyTransformConfig): string | null {
+  const patterns = [
+    ...config.replacements.map((r) => ({ pattern: r.pattern, flags: r.flags ?? "" })),
+    ...config.linkRewrites.map((r) => ({ pattern: r.pattern, flags: r.flags ?? "" })),
+    ...config.stripFooterPatterns.map((pattern) => ({ pattern, flags: "i" })),
+  ];
+  for (const { pattern, flags } of patterns) {
+    try {
+      new RegExp(pattern, flags);
+    } catch (error: unknown) {
+      return `invalid regex /${pattern}/: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 宽松解析（读取已保存的数据）：不合法时整体回退为“不转换”，避免发出半转换的消息。
+ */
+export function parseCopyTransformConfig(raw: unknown): CopyTransformConfig {
+  const parsed = copyTransformConfigSchema.safeParse(raw ?? {});
+  if (!parsed.success || getConfigRegexError(parsed.data)) return defaultCopyTransformConfig;
+  return parsed.data;
+}
+
+/**
+ * 严格校验（保存时）：返回第一条错误信息。
+ */
+export function validateCopyTransformConfig(raw: unknown): { config: CopyTransformConfig } | { error: string } {
+  const parsed = copyTransformConfigSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue?.path.length ? issue.path.join(".") : "config";
+    return { error: `${where}: ${issue?.message ?? "invalid"}` };
+  }
+  const regexError = getConfigRegexError(parsed.data);
+  if (regexError) return { error: regexError };
+  return { config: parsed.data };
+}
+
+export function isCopyTransformNoop(config: CopyTransformConfig): boolean {
+  return (
+    !config.replacements.length &&
+    !config.stripFooterPatterns.length &&
+    config.links === "keep" &&
+    config.mentions === "keep" &&
+    (!config.template.trim() || config.template === "{text}") &&
+    !config.footer.trim()
+  );
+}
+
+export type CopyTextEntity = {
+  offset: number;
+  length: number;
+  // 文本链接（如 Telegram 的 MessageEntityTextUrl）的目标地址
+  url?: string;
+};
+
+export type TransformedEntity<T extends CopyTextEntity> = {
+  source: T;
+  offset: number;
+  length: number;
+  url?: string;
+};
+
+export type CopyTransformContext = {
+  sourceName: string;
+  sourceUsername: string | null;
+  sourceLink: string | null;
+  originalLink: string | null;
+};
+
+export type CopyTransformResult<T extends CopyTextEntity> = {
+  text: string;
+  entities: TransformedEntity<T>[];
+};
+
+class EntityText<T extends CopyTextEntity> {
+  text: string;
+  entities: TransformedEntity<T>[];
+
+  constructor(text: string, entities: T[]) {
+    this.text = text;
+    this.entities = entities.map((source) => ({ source, offset: source.offset, length: source.length, url: source.url }));
+  }
+
+  /**
+   * 把 [start, end) 替换成 insert，同时调整实体：
+   * - 完全在替换区间之前/之后的实体不变/平移
+   * - 覆盖替换区间的实体随之伸缩；起点恰好在替换处的实体会覆盖新内容
+   * - 纯插入时（start === end），插入点上的实体不扩展
+   * - 完全落在被删除区间内的实体被丢弃
+   */
+  replaceRange(start: number, end: number, insert: string): void {
+    if (start === end && !insert) return;
+    const delta = insert.length - (end - start);
+
+    const mapStart = (a: number) => {
+      if (a < start) return a;
+      if (start === end) return a + delta;
+      if (a === start) return start;
+      if (a >= end) return a + delta;
+      return start + insert.length;
+    };
+    const mapEnd = (b: number) => {
+      if (b <= start) return b;
+      if (b >= end) return b + delta;
+      return start;
+    };
+
+    this.text = this.text.slice(0, start) + insert + this.text.slice(end);
+    this.entities = this.entities
+      .map((e) => {
+        const offset = mapStart(e.offset);
+        return { ...e, offset, length: mapEnd(e.offset + e.length) - offset };
+      })
+      .filter((e) => e.length > 0);
+  }
+
+  /**
+   * 对所有匹配从后往前替换，保证前面的下标不受影响。
+   */
+  replaceAll(regex: RegExp, replacer: (match: RegExpMatchArray) => string | null): void {
+    const matches = [...this.text.matchAll(regex)].filter((m) => m[0].length > 0);
+    for (const m of matches.reverse()) {
+      const next = replacer(m);
+      if (next == null) continue;
+      const start = m.index ?? 0;
+      this.replaceRange(start, start + m[0].length, next);
+    }
+  }
+}
+
+function toGlobalRegex(pattern: string, flags: string | undefined): RegExp {
+  return new RegExp(pattern, `${(flags ?? "").replace(/g/g, "")}g`);
+}
+
+/**
+ * 与 String.prototype.replace 相同的 $1 / $& / $<name> / $$ 展开规则。
+ */
+function expandReplacement(replacement: string, match: RegExpMatchArray): string {
+  return replacement.replace(/\$(\$|&|<([^>]+)>|(\d{1,2}))/g, (token, kind: string, name?: string, digits?: string) => {
+    if (kind === "$") return "$";
+    if (kind === "&") return match[0];
+    if (name != null) return match.groups?.[name] ?? "";
+    const index = Number(digits);
+    if (index > 0 && index < match.length) return match[index] ?? "";
+    return token;
+  });
+}
+
+// 与 message-filter 的链接识别一致：带协议 / www. 前缀，或裸域名后紧跟路径
+const LINK_SOURCE =
+  "(?:https?:\\/\\/|\\bwww\\.)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\\.)+[a-z]{2,}(?::\\d+)?(?:[/?#]\\S*)?|\\b(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\\.)+[a-z]{2,}\\/\\S*";
+const MENTION_SOURCE = "(?<![\\p{L}\\p{N}_@])@[A-Za-z][A-Za-z0-9_]{3,31}\\b";
+// 链接末尾的标点一般不是链接的一部分
+const TRAILING_PUNCTUATION_RE = /[.,;:!?)\]}>'"，。；：！？）】」]+$/;
+
+/**
+ * 删除时连同前面的一个空格一起删，避免留下双空格；替换时只匹配本身。
+ */
+function buildRemovableRegex(source: string, remove: boolean): RegExp {
+  return new RegExp(remove ? `[ \\t]?(?:${source})` : source, "giu");
+}
+
+function rewriteLink(url: string, rewrites: CopyTransformConfig["linkRewrites"]): string {
+  let out = url;
+  for (const rule of rewrites) {
+    let next = "";
+    let last = 0;
+    for (const m of out.matchAll(toGlobalRegex(rule.pattern, rule.flags))) {
+      if (!m[0]) continue;
+      const start = m.index ?? 0;
+      next += out.slice(last, start) + expandReplacement(rule.replacement, m);
+      last = start + m[0].length;
+    }
+    out = next + out.slice(last);
+  }
+  return out;
+}
+
+function renderTemplate(template: string, context: CopyTransformContext): string {
+  const values: Record<string, string> = {
+    source_name: context.sourceName,
+    source_username: context.sourceUsername ? `@${context.sourceUsername.replace(/^@/, "")}` : "",
+    source_link: context.sourceLink ?? "",
+    original_link: context.originalLink ?? "",
+  };
+  return template.replace(/\{(source_name|source_username|source_link|original_link)\}/g, (_, key: string) => values[key] ?? "");
+}
+
+function stripFooter<T extends CopyTextEntity>(buffer: EntityText<T>, patterns: string[]): void {
+  if (!patterns.length) return;
+  const regexes = patterns.map((p) => new RegExp(p, "i"));
+
+  for (;;) {
+    const text = buffer.text.replace(/\s+$/, "");
+    if (text.length !== buffer.text.length) buffer.replaceRange(text.length, buffer.text.length, "");
+    if (!text) return;
+
+    const lineStart = text.lastIndexOf("\n") + 1;
+    const line = text.slice(lineStart).trim();
+    if (!regexes.some((r) => r.test(line))) return;
+    // 整条消息只剩这一行时不删，避免把正文当成签名
+    if (lineStart === 0) return;
+    buffer.replaceRange(lineStart, text.length, "");
+  }
+}
+
+function trimBuffer<T extends CopyTextEntity>(buffer: EntityText<T>): void {
+  const end = buffer.text.replace(/\s+$/, "").length;
+  if (end < buffer.text.length) buffer.replaceRange(end, buffer.text.length, "");
+  const leading = buffer.text.length - buffer.text.replace(/^\s+/, "").length;
+  if (leading > 0) buffer.replaceRange(0, leading, "");
+}
+
+/**
+ * 按配置转换 copy 模式要发送的文本与格式实体。返回的实体只带新的 offset/length/url，
+ * 调用方负责按原实体类型克隆（例如 gramjs 的 Api.MessageEntity*）。
+ */
+export function applyCopyTransforms<T extends CopyTextEntity>(
+  input: { text: string; entities?: T[] },
+  config: CopyTransformConfig,
+  context: CopyTransformContext,
+): CopyTransformResult<T> {
+  const buffer = new EntityText(input.text, input.entities ?? []);
+
+  for (const rule of config.replacements) {
+    buffer.replaceAll(toGlobalRegex(rule.pattern, rule.flags), (m) => expandReplacement(rule.replacement, m));
+  }
+
+  if (config.links !== "keep") {
+    buffer.replaceAll(buildRemovableRegex(LINK_SOURCE, config.links === "remove"), (m) => {
+      const url = m[0].replace(TRAILING_PUNCTUATION_RE, "");
+      const tail = m[0].slice(url.length);
+      return config.links === "remove" ? tail : `${rewriteLink(url, config.linkRewrites)}${tail}`;
+    });
+    buffer.entities = buffer.entities
+      .filter((e) => !(config.links === "remove" && e.url))
+      .map((e) => (e.url && config.links === "rewrite" ? { ...e, url: rewriteLink(e.url, config.linkRewrites) } : e));
+  }
+
+  if (config.mentions !== "keep") {
+    const remove = config.mentions === "remove" || !config.mentionReplacement;
+    buffer.replaceAll(buildRemovableRegex(MENTION_SOURCE, remove), () => (remove ? "" : config.mentionReplacement));
+  }
+
+  stripFooter(buffer, config.stripFooterPatterns);
+
+  // 与未转换时一致：发送前去掉首尾空白
+  trimBuffer(buffer);
+
+  // 正文被全部删掉时不套模板，交给调用方按“空文本”处理
+  if (!buffer.text) return { text: "", entities: [] };
+
+  const template = config.template.trim() ? config.template : "{text}";
+  const [prefix = "", suffix = ""] = template.split("{text}");
+  const renderedPrefix = renderTemplate(prefix, context);
+  const renderedSuffix = renderTemplate(suffix, context);
+  if (renderedPrefix) buffer.replaceRange(0, 0, renderedPrefix);
+  if (renderedSuffix) buffer.replaceRange(buffer.text.length, buffer.text.length, renderedSuffix);
+
+  const footer = renderTemplate(config.footer, context).trim();
+  if (footer) buffer.replaceRange(buffer.text.length, buffer.text.length, `\n\n${footer}`);
+
+  return { text: buffer.text, entities: buffer.entities };
+}
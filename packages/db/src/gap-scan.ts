@@ -0,0 +1,112 @@
+/**
+ * 缺口扫描：message_mappings.source_message_id 在 [最小, 最大] 之间的空洞，以及最大 id 之后源频道里还有的消息，
+ * 要么是源频道删掉的消息 / 服务消息（正常），要么是实时断线、进程崩溃时漏掉的消息（需要回填）。
+ * mirror-service 用 GetHistory 按区间取回源频道里实际存在的消息，这里负责区分两者并汇总成区间。
+ */
+
+export type MessageIdRange = {
+  startId: number;
+  endId: number;
+};
+
+export type GapRange = MessageIdRange & {
+  count: number;
+};
+
+export type GapScanResult = {
+  scannedAt: string;
+  // 本次核对的 source_message_id 区间（已存映射的最小 id ~ 源频道里稍早前的最新消息 id）
+  fromId: number | null;
+  toId: number | null;
+  // 映射里的空洞 id 总数（候选）
+  candidateCount: number;
+  // 源频道里已不存在（删除）的
+  deletedCount: number;
+  // 服务消息（置顶、改名等），本来就不镜像
+  serviceCount: number;
+  // 源频道里还在、但没有映射的：漏掉的消息
+  missedCount: number;
+  missedRanges: GapRange[];
+  // 候选太多时只核对了前一部分
+  truncated: boolean;
+};
+
+export type SourceMessageProbe = {
+  id: number;
+  isService: boolean;
+};
+
+/**
+ * 把 id 列表（无需有序、可重复）合并成连续区间。
+ */
+export function collapseIdsToRanges(ids: Iterable<number>): GapRange[] {
+  const sorted = [...new Set([...ids].filter((id) => Number.isInteger(id) && id > 0))].sort((a, b) => a - b);
+  const ranges: GapRange[] = [];
+  for (const id of sorted) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.endId + 1 === id) {
+      last.endId = id;
+      last.count += 1;
+    } else {
+      ranges.push({ startId: id, endId: id, count: 1 });
+    }
+  }
+  return ranges;
+}
+
+export function countRangeIds(ranges: readonly MessageIdRange[]): number {
+  return ranges.reduce((sum, r) => sum + Math.max(0, r.endId - r.startId + 1), 0);
+}
+
+/**
+ * 按候选空洞区间和源频道里实际取到的消息，区分漏掉 / 删除 / 服务消息。
+ * found 里不在候选区间内的消息会被忽略（GetHistory 边界可能多带一条）。
+ */
+export function classifyGapCandidates(
+  candidates: readonly MessageIdRange[],
+  found: readonly SourceMessageProbe[],
+): { missedRanges: GapRange[]; missedCount: number; serviceCount: number; deletedCount: number; candidateCount: number } {
+  const sortedCandidates = [...candidates].sort((a, b) => a.startId - b.startId);
+  const inCandidates = (id: number): boolean => {
+    let lo = 0;
+    let hi = sortedCandidates.length - 1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      const range = sortedCandidates[mid]!;
+      if (id < range.startId) hi = mid - 1;
+      else if (id > range.endId) lo = mid + 1;
+      else return true;
+    }
+    return false;
+  };
+  const missed: number[] = [];
+  const service = new Set<number>();
+  const seen = new Set<number>();
+  for (const probe of found) {
+    if (seen.has(probe.id) || !inCandidates(probe.id)) continue;
+    seen.add(probe.id);
+    if (probe.isService) service.add(probe.id);
+    else missed.push(probe.id);
+  }
+
+  const candidateCount = countRangeIds(candidates);
+  const missedRanges = collapseIdsToRanges(missed);
+  return {
+    missedRanges,
+    missedCount: missed.length,
+    serviceCount: service.size,
+    deletedCount: Math.max(0, candidateCount - missed.length - service.size),
+    candidateCount,
+  };
+}
+
+/**
+ * 一键回填用：把漏掉的区间合并成一个 history_partial 范围（每个频道只有一条 history_partial）。
+ */
+export function toBackfillRange(ranges: readonly MessageIdRange[]): MessageIdRange | null {
+  if (!ranges.length) return null;
+  return {
+    startId: Math.min(...ranges.map((r) => r.startId)),
+    endId: Math.max(...ranges.map((r) => r.endId)),
+  };
+}
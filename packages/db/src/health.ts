@@ -0,0 +1,126 @@
+import { MIRROR_SERVICE_HEARTBEAT_INTERVAL_MS } from "./constants";
+
+/**
+ * 深度健康检查的判定逻辑（纯函数）：Web 的 /api/health 负责采集数据，这里只决定每项的状态。
+ * - unhealthy：服务实际上无法同步（数据库不可用、同步服务离线、没有可用的 Telegram 账号）
+ * - degraded：还在工作，但需要人看一眼（延迟高、有频道报错、队列积压）
+ */
+
+export type HealthStatus = "healthy" | "degraded" | "unhealthy";
+
+export type HealthCheckResult = {
+  status: HealthStatus;
+  message: string;
+  // 便于告警/面板直接读取的原始数值
+  value?: number | null;
+};
+
+export type HealthThresholds = {
+  dbLatencyDegradedMs: number;
+  heartbeatDegradedMs: number;
+  heartbeatUnhealthyMs: number;
+  pendingTaskDegradedMs: number;
+};
+
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  dbLatencyDegradedMs: 500,
+  // 与仪表盘一致：3 个心跳周期内算在线
+  heartbeatDegradedMs: MIRROR_SERVICE_HEARTBEAT_INTERVAL_MS * 3,
+  heartbeatUnhealthyMs: MIRROR_SERVICE_HEARTBEAT_INTERVAL_MS * 10,
+  pendingTaskDegradedMs: 60 * 60 * 1000,
+};
+
+export type HealthInput = {
+  // null = 连接失败或超时
+  dbLatencyMs: number | null;
+  dbError?: string | null;
+  // 以下在数据库不可用时为 undefined（无法检查）
+  heartbeatAgeMs?: number | null;
+  accounts?: { usable: number; failing: number; loggedOut: number };
+  channels?: { active: number; error: number };
+  oldestPendingTaskAgeMs?: number | null;
+};
+
+export type HealthReport = {
+  status: HealthStatus;
+  checks: {
+    database: HealthCheckResult;
+    mirrorService: HealthCheckResult;
+    telegramSession: HealthCheckResult;
+    channels: HealthCheckResult;
+    taskQueue: HealthCheckResult;
+  };
+};
+
+const STATUS_RANK: Record<HealthStatus, number> = { healthy: 0, degraded: 1, unhealthy: 2 };
+
+export function worstHealthStatus(statuses: HealthStatus[]): HealthStatus {
+  return statuses.reduce<HealthStatus>((worst, s) => (STATUS_RANK[s] > STATUS_RANK[worst] ? s : worst), "healthy");
+}
+
+function formatAge(ms: number): string {
+  const sec = Math.round(ms / 1000);
+  if (sec < 120) return `${sec}s`;
+  if (sec < 7200) return `${Math.round(sec / 60)}m`;
+  return `${Math.round(sec / 3600)}h`;
+}
+
+const UNCHECKED: HealthCheckResult = { status: "unhealthy", message: "database unavailable; not checked" };
+
+export function evaluateHealth(input: HealthInput, thresholds: HealthThresholds = DEFAULT_HEALTH_THRESHOLDS): HealthReport {
+  const database: HealthCheckResult =
+    input.dbLatencyMs == null
+      ? { status: "unhealthy", message: input.dbError ? `database unreachable: ${input.dbError}` : "database unreachable", value: null }
+      : input.dbLatencyMs > thresholds.dbLatencyDegradedMs
+        ? { status: "degraded", message: `slow database (${input.dbLatencyMs}ms)`, value: input.dbLatencyMs }
+        : { status: "healthy", message: `ok (${input.dbLatencyMs}ms)`, value: input.dbLatencyMs };
+
+  if (input.dbLatencyMs == null) {
+    return {
+      status: "unhealthy",
+      checks: { database, mirrorService: UNCHECKED, telegramSession: UNCHECKED, channels: UNCHECKED, taskQueue: UNCHECKED },
+    };
+  }
+
+  const heartbeatAgeMs = input.heartbeatAgeMs ?? null;
+  const mirrorService: HealthCheckResult =
+    heartbeatAgeMs == null
+      ? { status: "unhealthy", message: "no heartbeat yet (mirror-service never started?)", value: null }
+      : heartbeatAgeMs > thresholds.heartbeatUnhealthyMs
+        ? { status: "unhealthy", message: `heartbeat stale (${formatAge(heartbeatAgeMs)} ago)`, value: heartbeatAgeMs }
+        : heartbeatAgeMs > thresholds.heartbeatDegradedMs
+          ? { status: "degraded", message: `heartbeat late (${formatAge(heartbeatAgeMs)} ago)`, value: heartbeatAgeMs }
+          : { status: "healthy", message: `ok (${formatAge(heartbeatAgeMs)} ago)`, value: heartbeatAgeMs };
+
+  const accounts = input.accounts ?? { usable: 0, failing: 0, loggedOut: 0 };
+  const telegramSession: HealthCheckResult =
+    accounts.usable === 0
+      ? {
+          status: "unhealthy",
+          message: accounts.failing
+            ? `no usable Telegram account (${accounts.failing} failing to connect)`
+            : "no Telegram account logged in",
+          value: 0,
+        }
+      : accounts.failing > 0
+        ? { status: "degraded", message: `${accounts.failing} account(s) failing to connect`, value: accounts.usable }
+        : { status: "healthy", message: `${accounts.usable} account(s) ok`, value: accounts.usable };
+
+  const channelCounts = input.channels ?? { active: 0, error: 0 };
+  const channels: HealthCheckResult =
+    channelCounts.error > 0
+      ? { status: "degraded", message: `${channelCounts.error}/${channelCounts.active} active channel(s) in error`, value: channelCounts.error }
+      : { status: "healthy", message: `${channelCounts.active} active channel(s), none in error`, value: 0 };
+
+  // 队列积压只算 degraded：大频道的 history_full 本来就可能排很久
+  const pendingAgeMs = input.oldestPendingTaskAgeMs ?? null;
+  const taskQueue: HealthCheckResult =
+    pendingAgeMs == null
+      ? { status: "healthy", message: "no pending tasks", value: null }
+      : pendingAgeMs > thresholds.pendingTaskDegradedMs
+        ? { status: "degraded", message: `oldest pending task waiting ${formatAge(pendingAgeMs)}`, value: pendingAgeMs }
+        : { status: "healthy", message: `oldest pending task waiting ${formatAge(pendingAgeMs)}`, value: pendingAgeMs };
+
+  const checks = { database, mirrorService, telegramSession, channels, taskQueue };
+  return { status: worstHealthStatus(Object.values(checks).map((c) => c.status)), checks };
+}
@@ -1,7 +1,126 @@
 export { db } from "./client";
 export type { Db } from "./client";
 export { listenSqlClient, sqlClient } from "./client";
-export { TASKS_NOTIFY_CHANNEL } from "./constants";
+export {
+  MIRROR_CONTROL_DEFAULT_PORT,
+  MIRROR_SERVICE_HEARTBEAT_INTERVAL_MS,
+  MIRROR_SERVICE_HEARTBEAT_KEY,
+  TASKS_NOTIFY_CHANNEL,
+} from "./constants";
 export type { AppSettingKey, AppSettings } from "./settings-parse";
 export { appSettingsSchema, parseSettingValue, parseSettingsRows } from "./settings-parse";
+export type {
+  MessageFilterCondition,
+  MessageFilterConditionType,
+  MessageFilterInput,
+  MessageFilterMatch,
+  MessageFilterRule,
+} from "./message-filter";
+export {
+  describeMessageFilterCondition,
+  evaluateMessageFilterRules,
+  extractHashtags,
+  extractLinkDomains,
+  keywordsToMessageFilterRule,
+  parseMessageFilterRules,
+  validateMessageFilterRules,
+} from "./message-filter";
+export type {
+  CopyTextEntity,
+  CopyTransformConfig,
+  CopyTransformContext,
+  CopyTransformResult,
+  TransformedEntity,
+} from "./copy-transform";
+export {
+  applyCopyTransforms,
+  defaultCopyTransformConfig,
+  isCopyTransformNoop,
+  parseCopyTransformConfig,
+  validateCopyTransformConfig,
+} from "./copy-transform";
+export type {
+  EmailTarget,
+  NotificationEvent,
+  NotificationLevel,
+  NotificationRuleFilter,
+  NotificationTarget,
+  NotificationTargetType,
+  TelegramBotTarget,
+  WebhookTarget,
+} from "./notifications";
+export {
+  buildWebhookBody,
+  formatNotificationSubject,
+  formatNotificationText,
+  getNotificationRetryDelayMs,
+  isNotificationTargetType,
+  matchesNotificationRule,
+  NOTIFICATION_MAX_ATTEMPTS,
+  NOTIFICATION_SECRET_FIELDS,
+  NOTIFICATION_SIGNATURE_HEADER,
+  NOTIFICATION_TIMESTAMP_HEADER,
+  parseNotificationEvent,
+  signNotificationBody,
+  validateNotificationTarget,
+  verifyNotificationSignature,
+} from "./notifications";
+export type {
+  CronSchedule,
+  TaskScheduleAction,
+  TaskScheduleConfig,
+  TaskScheduleGate,
+  TaskScheduleRule,
+  TaskScheduleTaskType,
+} from "./task-schedules";
+export {
+  evaluateTaskScheduleGate,
+  getActiveCronWindow,
+  getNextCronRun,
+  getNextCronRuns,
+  isChannelInTaskSchedule,
+  isValidTimeZone,
+  parseCronExpression,
+  TASK_SCHEDULE_ACTIONS,
+  TASK_SCHEDULE_ENQUEUE_TYPES,
+  TASK_SCHEDULE_PAUSE_PREFIX,
+  TASK_SCHEDULE_WINDOW_TYPES,
+  toTaskScheduleRule,
+  validateTaskSchedule,
+} from "./task-schedules";
+export type { GapRange, GapScanResult, MessageIdRange, SourceMessageProbe } from "./gap-scan";
+export { classifyGapCandidates, collapseIdsToRanges, countRangeIds, toBackfillRange } from "./gap-scan";
+export type { HealthCheckResult, HealthInput, HealthReport, HealthStatus, HealthThresholds } from "./health";
+export { DEFAULT_HEALTH_THRESHOLDS, evaluateHealth, worstHealthStatus } from "./health";
+export type { Counter, Gauge, Histogram, MetricFamily, MetricLabels, MetricSample, MetricsRegistry, MetricType } from "./metrics";
+export {
+  createMetricsRegistry,
+  DEFAULT_LATENCY_BUCKETS,
+  formatPrometheusMetrics,
+  PROMETHEUS_CONTENT_TYPE,
+} from "./metrics";
+export type { MirrorIntegrityCounts, MirrorIntegrityLevel, MirrorIntegritySummary } from "./mirror-integrity";
+export { partitionMirrorMessageIds, summarizeMirrorIntegrity } from "./mirror-integrity";
+export type { TdesktopImportChannel, TdesktopImportMedia, TdesktopImportMessage } from "./tdesktop-import";
+export { flattenTdesktopText, parseTdesktopExport, toTdesktopImportMessage } from "./tdesktop-import";
+export type { TelegramProxyOptions, TelegramProxySetting, TelegramProxyType } from "./telegram-proxy";
+export {
+  defaultTelegramProxySetting,
+  describeTelegramProxy,
+  parseEnvTelegramProxy,
+  parseTelegramProxySetting,
+  TELEGRAM_PROXY_SECRET_FIELDS,
+  TELEGRAM_PROXY_TYPES,
+  toTelegramProxyOptions,
+  validateTelegramProxySetting,
+} from "./telegram-proxy";
+export type { AuditAction, AuditChange, AuditChanges } from "./audit";
+export {
+  AUDIT_ACTIONS,
+  AUDIT_REDACTED,
+  buildAuditChanges,
+  isAuditAction,
+  isSecretAuditKey,
+  redactAuditValue,
+} from "./audit";
 export * as schema from "./schema";
@@ -0,0 +1,281 @@
+import { z } from "zod";
+
+/**
+ * 消息过滤规则引擎（mirror-service 实际过滤 + web 端预览共用）。
+ *
+ * - 规则集合之间是 OR：任意一条启用的规则命中，消息就被跳过
+ * - 单条规则内的条件按 match 组合：all = AND，any = OR
+ * - 每个条件都可以 negate 取反
+ */
+
+const MAX_RULES = 100;
+const MAX_CONDITIONS = 20;
+const MAX_VALUES = 200;
+const MAX_PATTERN_LENGTH = 500;
+// 正则只匹配前 N 个字符，避免超长文本 + 糟糕的正则拖慢镜像
+const MAX_TEXT_LENGTH = 20_000;
+
+const valueListSchema = z.array(z.string().trim().min(1).max(200)).max(MAX_VALUES);
+
+const conditionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("keyword"), values: valueListSchema.min(1), negate: z.boolean().optional() }),
+  z.object({
+    type: z.literal("regex"),
+    pattern: z.string().min(1).max(MAX_PATTERN_LENGTH),
+    flags: z
+      .string()
+      .regex(/^[imsu]*$/, "flags 只支持 i/m/s/u")
+      .optional(),
+    negate: z.boolean().optional(),
+  }),
+  z.object({ type: z.literal("link_domain"), domains: valueListSchema, negate: z.boolean().optional() }),
+  z.object({ type: z.literal("hashtag"), tags: valueListSchema, negate: z.boolean().optional() }),
+  z.object({ type: z.literal("message_type"), types: valueListSchema.min(1), negate: z.boolean().optional() }),
+  z.object({ type: z.literal("has_media"), value: z.boolean() }),
+  z.object({ type: z.literal("forwarded"), sources: valueListSchema, negate: z.boolean().optional() }),
+  z.object({
+    type: z.literal("text_length"),
+    min: z.number().int().min(0).nullable().optional(),
+    max: z.number().int().min(0).nullable().optional(),
+    negate: z.boolean().optional(),
+  }),
+]);
+
+export const messageFilterRuleSchema = z.object({
+  id: z.string().trim().min(1).max(64),
+  name: z.string().trim().max(100).default(""),
+  enabled: z.boolean().default(true),
+  match: z.enum(["all", "any"]).default("all"),
+  conditions: z.array(conditionSchema).min(1).max(MAX_CONDITIONS),
+});
+
+export const messageFilterRulesSchema = z.array(messageFilterRuleSchema).max(MAX_RULES);
+
+export type MessageFilterCondition = z.infer<typeof conditionSchema>;
+export type MessageFilterConditionType = MessageFilterCondition["type"];
+export type MessageFilterRule = z.infer<typeof messageFilterRuleSchema>;
+
+/**
+ * 宽松解析（用于读取已保存的数据）：单条规则不合法时丢弃该条，其它规则继续生效。
+ */
+export function parseMessageFilterRules(raw: unknown): MessageFilterRule[] {
+  if (!Array.isArray(raw)) return [];
+  const out: MessageFilterRule[] = [];
+  for (const item of raw.slice(0, MAX_RULES)) {
+    const parsed = messageFilterRuleSchema.safeParse(item);
+    if (parsed.success && !getRuleRegexError(parsed.data)) out.push(parsed.data);
+  }
+  return out;
+}
+
+/**
+ * 严格校验（用于保存）：返回第一条错误信息，方便直接展示给用户。
+ */
+export function validateMessageFilterRules(raw: unknown): { rules: MessageFilterRule[] } | { error: string } {
+  const parsed = messageFilterRulesSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue?.path.length ? issue.path.join(".") : "rules";
+    return { error: `${where}: ${issue?.message ?? "invalid"}` };
+  }
+  for (const rule of parsed.data) {
+    const regexError = getRuleRegexError(rule);
+    if (regexError) return { error: `${rule.name || rule.id}: ${regexError}` };
+  }
+  return { rules: parsed.data };
+}
+
+function getRuleRegexError(rule: MessageFilterRule): string | null {
+  for (const condition of rule.conditions) {
+    if (condition.type !== "regex") continue;
+    try {
+      new RegExp(condition.pattern, condition.flags ?? "");
+    } catch (error: unknown) {
+      return `invalid regex /${condition.pattern}/: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 旧版关键词列表等价于一条 “任意关键词” 规则。
+ */
+export function keywordsToMessageFilterRule(keywords: string[]): MessageFilterRule | null {
+  if (!keywords.length) return null;
+  return {
+    id: "keywords",
+    name: "关键词",
+    enabled: true,
+    match: "any",
+    conditions: [{ type: "keyword", values: keywords.slice(0, MAX_VALUES) }],
+  };
+}
+
+export type MessageFilterInput = {
+  text: string;
+  messageType: string;
+  hasMedia: boolean;
+  // 文本之外的链接（如消息实体里的 text_url）；text 中的裸链接会自动提取
+  links?: string[];
+  // 转发来源（channel id / username，小写）；null = 不是转发；undefined = 未知（预览时数据库里没有这项）
+  forwardedFrom?: string[] | null;
+};
+
+export type MessageFilterMatch = {
+  ruleId: string;
+  ruleName: string;
+  reason: string;
+};
+
+// 带协议 / www. 前缀，或者裸域名后面紧跟路径（bit.ly/xxx、t.me/xxx）才算链接，避免把 file.txt 之类当成域名
+const URL_RE =
+  /(?:https?:\/\/|\bwww\.)((?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,})|\b((?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,})\//gi;
+const HASHTAG_RE = /#([\p{L}\p{N}_]+)/gu;
+
+const regexCache = new Map<string, RegExp | null>();
+
+function getCachedRegex(pattern: string, flags: string): RegExp | null {
+  const key = `${flags}/${pattern}`;
+  if (regexCache.has(key)) return regexCache.get(key) ?? null;
+  let compiled: RegExp | null = null;
+  try {
+    compiled = new RegExp(pattern, flags);
+  } catch {
+    compiled = null;
+  }
+  if (regexCache.size > 500) regexCache.clear();
+  regexCache.set(key, compiled);
+  return compiled;
+}
+
+function normalizeDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/[/?#:].*$/, "");
+}
+
+export function extractLinkDomains(text: string, extraLinks: string[] = []): string[] {
+  const out = new Set<string>();
+  for (const source of [text.slice(0, MAX_TEXT_LENGTH), ...extraLinks]) {
+    for (const m of source.matchAll(URL_RE)) {
+      const domain = m[1] ?? m[2];
+      if (domain) out.add(normalizeDomain(domain));
+    }
+  }
+  return [...out];
+}
+
+export function extractHashtags(text: string): string[] {
+  const out = new Set<string>();
+  for (const m of text.slice(0, MAX_TEXT_LENGTH).matchAll(HASHTAG_RE)) {
+    if (m[1]) out.add(m[1].toLowerCase());
+  }
+  return [...out];
+}
+
+function normalizeSource(value: string): string {
+  return value.trim().toLowerCase().replace(/^@/, "").replace(/^https?:\/\/t\.me\//, "");
+}
+
+function matchCondition(condition: MessageFilterCondition, input: MessageFilterInput): boolean {
+  const text = input.text ?? "";
+
+  const raw = (() => {
+    switch (condition.type) {
+      case "keyword": {
+        const haystack = text.toLowerCase();
+        return condition.values.some((v) => haystack.includes(v.toLowerCase()));
+      }
+      case "regex": {
+        const regex = getCachedRegex(condition.pattern, condition.flags ?? "");
+        return regex ? regex.test(text.slice(0, MAX_TEXT_LENGTH)) : false;
+      }
+      case "link_domain": {
+        const domains = extractLinkDomains(text, input.links);
+        if (!condition.domains.length) return domains.length > 0;
+        const targets = condition.domains.map(normalizeDomain);
+        return domains.some((d) => targets.some((t) => d === t || d.endsWith(`.${t}`)));
+      }
+      case "hashtag": {
+        const tags = extractHashtags(text);
+        if (!condition.tags.length) return tags.length > 0;
+        const targets = new Set(condition.tags.map((t) => t.replace(/^#/, "").toLowerCase()));
+        return tags.some((t) => targets.has(t));
+      }
+      case "message_type":
+        return condition.types.includes(input.messageType);
+      case "has_media":
+        return input.hasMedia === condition.value;
+      case "forwarded": {
+        // 未知时既不算命中也不算“非转发”，避免预览结果误导
+        if (input.forwardedFrom === undefined) return null;
+        if (input.forwardedFrom === null) return false;
+        if (!condition.sources.length) return true;
+        const targets = new Set(condition.sources.map(normalizeSource));
+        return input.forwardedFrom.some((s) => targets.has(normalizeSource(s)));
+      }
+      case "text_length": {
+        const length = text.trim().length;
+        if (condition.min != null && length < condition.min) return false;
+        if (condition.max != null && length > condition.max) return false;
+        return true;
+      }
+    }
+  })();
+
+  if (raw === null) return false;
+  const negate = "negate" in condition && condition.negate === true;
+  return negate ? !raw : raw;
+}
+
+function truncate(value: string, max = 40): string {
+  return value.length > max ? `${value.slice(0, max)}…` : value;
+}
+
+export function describeMessageFilterCondition(condition: MessageFilterCondition): string {
+  const not = "negate" in condition && condition.negate ? "not " : "";
+  const list = (values: string[]) => (values.length ? values.slice(0, 5).map((v) => truncate(v, 20)).join("|") : "*");
+  switch (condition.type) {
+    case "keyword":
+      return `${not}keyword(${list(condition.values)})`;
+    case "regex":
+      return `${not}regex(/${truncate(condition.pattern)}/${condition.flags ?? ""})`;
+    case "link_domain":
+      return `${not}link_domain(${list(condition.domains)})`;
+    case "hashtag":
+      return `${not}hashtag(${list(condition.tags)})`;
+    case "message_type":
+      return `${not}message_type(${list(condition.types)})`;
+    case "has_media":
+      return `has_media=${condition.value}`;
+    case "forwarded":
+      return `${not}forwarded(${list(condition.sources)})`;
+    case "text_length":
+      return `${not}text_length(${condition.min ?? 0}..${condition.max ?? "∞"})`;
+  }
+}
+
+/**
+ * 依次评估启用的规则，返回第一条命中的规则及原因（写入 message_mappings.skip_detail）。
+ */
+export function evaluateMessageFilterRules(rules: MessageFilterRule[], input: MessageFilterInput): MessageFilterMatch | null {
+  for (const rule of rules) {
+    if (!rule.enabled || !rule.conditions.length) continue;
+
+    const matched =
+      rule.match === "any"
+        ? rule.conditions.filter((c) => matchCondition(c, input)).slice(0, 1)
+        : rule.conditions.every((c) => matchCondition(c, input))
+          ? rule.conditions
+          : [];
+    if (!matched.length) continue;
+
+    const joiner = rule.match === "any" ? " OR " : " AND ";
+    const reason = `rule "${rule.name || rule.id}": ${matched.map(describeMessageFilterCondition).join(joiner)}`;
+    return { ruleId: rule.id, ruleName: rule.name || rule.id, reason };
+  }
+  return null;
+}
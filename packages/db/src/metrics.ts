@@ -0,0 +1,211 @@
+/**
+ * 极简 Prometheus 指标注册表 + 文本格式（exposition format 0.0.4）。
+ * mirror-service 与 Web 的 /metrics 共用；不依赖 prom-client，只覆盖本项目用到的 counter / gauge / histogram。
+ */
+
+export type MetricType = "counter" | "gauge" | "histogram";
+
+export type MetricLabels = Record<string, string | number | null | undefined>;
+
+export type MetricSample = {
+  // 追加在指标名后面，例如 histogram 的 _bucket / _sum / _count
+  suffix?: string;
+  labels?: MetricLabels;
+  value: number;
+};
+
+export type MetricFamily = {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: MetricSample[];
+};
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+// 发送类请求的耗时分布（秒）：从几十毫秒到 Telegram 偶发的慢响应
+export const DEFAULT_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const METRIC_NAME_RE = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME_RE = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+function escapeHelp(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+function formatLabels(labels: MetricLabels | undefined): string {
+  if (!labels) return "";
+  const parts: string[] = [];
+  for (const [key, raw] of Object.entries(labels)) {
+    if (raw == null) continue;
+    parts.push(`${key}="${escapeLabelValue(String(raw))}"`);
+  }
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+export function formatPrometheusMetrics(families: MetricFamily[]): string {
+  const lines: string[] = [];
+  for (const family of families) {
+    lines.push(`# HELP ${family.name} ${escapeHelp(family.help)}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    for (const sample of family.samples) {
+      lines.push(`${family.name}${sample.suffix ?? ""}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+  }
+  return lines.length ? `${lines.join("\n")}\n` : "";
+}
+
+function toLabelKey(labelNames: readonly string[], labels: MetricLabels): string {
+  return JSON.stringify(labelNames.map((name) => String(labels[name] ?? "")));
+}
+
+function toLabelObject(labelNames: readonly string[], key: string): Record<string, string> {
+  const values = JSON.parse(key) as string[];
+  return Object.fromEntries(labelNames.map((name, i) => [name, values[i] ?? ""]));
+}
+
+function assertNames(name: string, labelNames: readonly string[]): void {
+  if (!METRIC_NAME_RE.test(name)) throw new Error(`invalid metric name: ${name}`);
+  for (const label of labelNames) {
+    if (!LABEL_NAME_RE.test(label) || label === "le") throw new Error(`invalid label name for ${name}: ${label}`);
+  }
+}
+
+export type Counter<L extends string = string> = {
+  inc: (labels?: Partial<Record<L, string | number>>, value?: number) => void;
+};
+
+export type Gauge<L extends string = string> = {
+  set: (labels: Partial<Record<L, string | number>>, value: number) => void;
+  // 整组重置：由采集回调按当前状态重新填充时使用，避免残留已经消失的标签组合
+  reset: () => void;
+};
+
+export type Histogram<L extends string = string> = {
+  observe: (labels: Partial<Record<L, string | number>>, value: number) => void;
+};
+
+export type MetricsRegistry = {
+  counter: <L extends string>(name: string, help: string, labelNames?: readonly L[]) => Counter<L>;
+  gauge: <L extends string>(name: string, help: string, labelNames?: readonly L[]) => Gauge<L>;
+  histogram: <L extends string>(
+    name: string,
+    help: string,
+    options?: { labelNames?: readonly L[]; buckets?: readonly number[] },
+  ) => Histogram<L>;
+  // 抓取时执行（例如读取当前订阅数），在输出前刷新 gauge
+  addCollector: (collect: () => void | Promise<void>) => void;
+  render: () => Promise<string>;
+};
+
+export function createMetricsRegistry(): MetricsRegistry {
+  const families = new Map<string, () => MetricFamily>();
+  const collectors: Array<() => void | Promise<void>> = [];
+
+  const register = (name: string, labelNames: readonly string[], snapshot: () => MetricFamily) => {
+    assertNames(name, labelNames);
+    if (families.has(name)) throw new Error(`metric already registered: ${name}`);
+    families.set(name, snapshot);
+  };
+
+  const counter = <L extends string>(name: string, help: string, labelNames: readonly L[] = []): Counter<L> => {
+    const values = new Map<string, number>();
+    register(name, labelNames, () => ({
+      name,
+      help,
+      type: "counter",
+      samples: [...values].map(([key, value]) => ({ labels: toLabelObject(labelNames, key), value })),
+    }));
+    return {
+      inc: (labels = {}, value = 1) => {
+        if (!Number.isFinite(value) || value < 0) return;
+        const key = toLabelKey(labelNames, labels);
+        values.set(key, (values.get(key) ?? 0) + value);
+      },
+    };
+  };
+
+  const gauge = <L extends string>(name: string, help: string, labelNames: readonly L[] = []): Gauge<L> => {
+    const values = new Map<string, number>();
+    register(name, labelNames, () => ({
+      name,
+      help,
+      type: "gauge",
+      samples: [...values].map(([key, value]) => ({ labels: toLabelObject(labelNames, key), value })),
+    }));
+    return {
+      set: (labels, value) => {
+        values.set(toLabelKey(labelNames, labels), value);
+      },
+      reset: () => values.clear(),
+    };
+  };
+
+  const histogram = <L extends string>(
+    name: string,
+    help: string,
+    options: { labelNames?: readonly L[]; buckets?: readonly number[] } = {},
+  ): Histogram<L> => {
+    const labelNames = options.labelNames ?? [];
+    const buckets = [...(options.buckets ?? DEFAULT_LATENCY_BUCKETS)].sort((a, b) => a - b);
+    const series = new Map<string, { counts: number[]; sum: number; count: number }>();
+
+    register(name, labelNames, () => ({
+      name,
+      help,
+      type: "histogram",
+      samples: [...series].flatMap(([key, s]) => {
+        const labels = toLabelObject(labelNames, key);
+        return [
+          ...buckets.map((le, i) => ({ suffix: "_bucket", labels: { ...labels, le: formatValue(le) }, value: s.counts[i] ?? 0 })),
+          { suffix: "_bucket", labels: { ...labels, le: "+Inf" }, value: s.count },
+          { suffix: "_sum", labels, value: s.sum },
+          { suffix: "_count", labels, value: s.count },
+        ];
+      }),
+    }));
+
+    return {
+      observe: (labels, value) => {
+        if (!Number.isFinite(value)) return;
+        const key = toLabelKey(labelNames, labels);
+        let s = series.get(key);
+        if (!s) {
+          s = { counts: buckets.map(() => 0), sum: 0, count: 0 };
+          series.set(key, s);
+        }
+        // 累积桶：每个 le >= value 的桶都 +1
+        for (let i = 0; i < buckets.length; i += 1) {
+          if (value <= buckets[i]!) s.counts[i]! += 1;
+        }
+        s.sum += value;
+        s.count += 1;
+      },
+    };
+  };
+
+  const render = async (): Promise<string> => {
+    for (const collect of collectors) {
+      try {
+        await collect();
+      } catch (error: unknown) {
+        const msg = error instanceof Error ? error.message : String(error);
+        console.warn(`metrics collector failed: ${msg}`);
+      }
+    }
+    return formatPrometheusMetrics([...families.values()].map((snapshot) => snapshot()));
+  };
+
+  return { counter, gauge, histogram, addCollector: (collect) => collectors.push(collect), render };
+}
@@ -0,0 +1,61 @@
+/**
+ * 镜像完整性核对：mirror-service 定期用 channels.GetMessages 确认 status=success 的镜像消息还在，
+ * 这里是两端共用的纯逻辑（区分存在/缺失、计算每个频道的完整性分数）。
+ */
+
+export type MirrorIntegrityCounts = {
+  // 已镜像成功、应当在镜像频道里存在的消息数
+  mirrored: number;
+  // 其中核对过至少一次的
+  verified: number;
+  // 核对时发现缺失、且之后没有重新镜像成功的
+  missing: number;
+};
+
+export type MirrorIntegrityLevel = "unknown" | "ok" | "warn" | "error";
+
+export type MirrorIntegritySummary = MirrorIntegrityCounts & {
+  // 已核对消息中仍然存在的比例（0-1），还没核对过时为 null
+  score: number | null;
+  // 核对覆盖率（0-1）
+  coverage: number | null;
+  level: MirrorIntegrityLevel;
+};
+
+// 低于这个比例视为严重缺失（例如镜像频道被清空/重建）
+const ERROR_SCORE_THRESHOLD = 0.95;
+
+export function summarizeMirrorIntegrity(counts: MirrorIntegrityCounts): MirrorIntegritySummary {
+  const verified = Math.max(0, counts.verified);
+  const missing = Math.min(Math.max(0, counts.missing), verified);
+  const mirrored = Math.max(0, counts.mirrored, verified);
+
+  if (verified === 0) {
+    return { mirrored, verified, missing, score: null, coverage: mirrored ? 0 : null, level: "unknown" };
+  }
+
+  const score = (verified - missing) / verified;
+  const level: MirrorIntegrityLevel = missing === 0 ? "ok" : score < ERROR_SCORE_THRESHOLD ? "error" : "warn";
+  return { mirrored, verified, missing, score, coverage: mirrored ? verified / mirrored : null, level };
+}
+
+/**
+ * GetMessages 按请求顺序返回，缺失（已删除 / 不可见）的位置是 MessageEmpty，gramjs 里变成 undefined。
+ * 按返回的 id 判断，不依赖位置，避免某些客户端实现丢掉空位时错位。
+ */
+export function partitionMirrorMessageIds(
+  requestedIds: readonly number[],
+  returnedIds: Iterable<number | null | undefined>,
+): { present: number[]; missing: number[] } {
+  const returned = new Set<number>();
+  for (const id of returnedIds) {
+    if (typeof id === "number" && id > 0) returned.add(id);
+  }
+  const present: number[] = [];
+  const missing: number[] = [];
+  for (const id of requestedIds) {
+    if (returned.has(id)) present.push(id);
+    else missing.push(id);
+  }
+  return { present, missing };
+}
@@ -0,0 +1,176 @@
+import crypto from "node:crypto";
+import { z } from "zod";
+
+/**
+ * sync_events 外发通知（web 端校验配置 + mirror-service 入队/发送共用）。
+ *
+ * - 事件级别 >= minLevel 且频道在过滤列表内（列表为空 = 全部）才推送
+ * - webhook 请求体是 JSON，签名为 HMAC-SHA256(secret, `${timestamp}.${body}`)
+ * - 发送失败按指数退避重试，最多 NOTIFICATION_MAX_ATTEMPTS 次
+ */
+
+export const NOTIFICATION_MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 60 * 60_000;
+
+export const NOTIFICATION_SIGNATURE_HEADER = "X-TgBack-Signature";
+export const NOTIFICATION_TIMESTAMP_HEADER = "X-TgBack-Timestamp";
+
+export type NotificationLevel = "info" | "warn" | "error";
+export type NotificationTargetType = "webhook" | "telegram_bot" | "email";
+
+const LEVEL_RANK: Record<NotificationLevel, number> = { info: 0, warn: 1, error: 2 };
+
+const httpUrlSchema = z
+  .string()
+  .trim()
+  .url()
+  .refine((v) => /^https?:\/\//i.test(v), "只支持 http/https 地址");
+
+const webhookTargetSchema = z.object({
+  url: httpUrlSchema,
+  secret: z.string().max(500).default(""),
+});
+
+const telegramBotTargetSchema = z.object({
+  botToken: z.string().trim().min(1, "botToken 不能为空").max(200),
+  chatId: z
+    .string()
+    .trim()
+    .regex(/^(-?\d+|@\w{4,})$/, "chatId 需要是数字 ID 或 @username"),
+  // 默认 https://api.telegram.org；自建 Bot API 或本地联调时可改
+  apiBaseUrl: httpUrlSchema.optional(),
+});
+
+const emailTargetSchema = z.object({
+  host: z.string().trim().min(1, "host 不能为空").max(255),
+  port: z.number().int().min(1).max(65_535).default(587),
+  // tls = 直接 TLS（通常 465），starttls = 明文连接后升级（通常 587），none = 不加密（仅限内网）
+  security: z.enum(["tls", "starttls", "none"]).default("starttls"),
+  username: z.string().max(255).default(""),
+  password: z.string().max(500).default(""),
+  from: z.string().trim().email(),
+  to: z.array(z.string().trim().email()).min(1, "至少一个收件人").max(20),
+});
+
+export type WebhookTarget = z.infer<typeof webhookTargetSchema>;
+export type TelegramBotTarget = z.infer<typeof telegramBotTargetSchema>;
+export type EmailTarget = z.infer<typeof emailTargetSchema>;
+
+export type NotificationTarget =
+  | ({ type: "webhook" } & WebhookTarget)
+  | ({ type: "telegram_bot" } & TelegramBotTarget)
+  | ({ type: "email" } & EmailTarget);
+
+const targetSchemas = {
+  webhook: webhookTargetSchema,
+  telegram_bot: telegramBotTargetSchema,
+  email: emailTargetSchema,
+} as const;
+
+// 这些字段加密存放，接口返回时只给出“是否已设置”
+export const NOTIFICATION_SECRET_FIELDS: Record<NotificationTargetType, readonly string[]> = {
+  webhook: ["secret"],
+  telegram_bot: ["botToken"],
+  email: ["password"],
+};
+
+export function isNotificationTargetType(value: unknown): value is NotificationTargetType {
+  return value === "webhook" || value === "telegram_bot" || value === "email";
+}
+
+export function validateNotificationTarget(
+  type: NotificationTargetType,
+  raw: unknown,
+): { target: NotificationTarget } | { error: string } {
+  const parsed = targetSchemas[type].safeParse(raw ?? {});
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue?.path.length ? issue.path.join(".") : "target";
+    return { error: `${where}: ${issue?.message ?? "invalid"}` };
+  }
+  return { target: { type, ...parsed.data } as NotificationTarget };
+}
+
+export type NotificationEvent = {
+  // 测试推送为 null
+  id: string | null;
+  level: NotificationLevel;
+  message: string;
+  sourceChannelId: string | null;
+  sourceChannelName: string | null;
+  createdAt: string;
+  test?: boolean;
+};
+
+export type NotificationRuleFilter = {
+  minLevel: NotificationLevel;
+  sourceChannelIds: string[];
+};
+
+export function matchesNotificationRule(rule: NotificationRuleFilter, event: Pick<NotificationEvent, "level" | "sourceChannelId">): boolean {
+  if (LEVEL_RANK[event.level] < LEVEL_RANK[rule.minLevel]) return false;
+  if (!rule.sourceChannelIds.length) return true;
+  return !!event.sourceChannelId && rule.sourceChannelIds.includes(event.sourceChannelId);
+}
+
+export function parseNotificationEvent(raw: unknown): NotificationEvent | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const obj = raw as Record<string, unknown>;
+  const level = obj.level;
+  if (level !== "info" && level !== "warn" && level !== "error") return null;
+  if (typeof obj.message !== "string" || typeof obj.createdAt !== "string") return null;
+  return {
+    id: typeof obj.id === "string" ? obj.id : null,
+    level,
+    message: obj.message,
+    sourceChannelId: typeof obj.sourceChannelId === "string" ? obj.sourceChannelId : null,
+    sourceChannelName: typeof obj.sourceChannelName === "string" ? obj.sourceChannelName : null,
+    createdAt: obj.createdAt,
+    test: obj.test === true ? true : undefined,
+  };
+}
+
+export function buildWebhookBody(event: NotificationEvent): string {
+  return JSON.stringify({ type: event.test ? "test" : "sync_event", event });
+}
+
+export function signNotificationBody(secret: string, timestamp: string, body: string): string {
+  const digest = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * 接收方校验签名用（也用于测试）；toleranceSec 内的时间戳才认为有效，防重放。
+ */
+export function verifyNotificationSignature(
+  secret: string,
+  { timestamp, body, signature }: { timestamp: string; body: string; signature: string },
+  { toleranceSec = 300, now = Date.now() }: { toleranceSec?: number; now?: number } = {},
+): boolean {
+  const ts = Number.parseInt(timestamp, 10);
+  if (!Number.isFinite(ts) || Math.abs(now / 1000 - ts) > toleranceSec) return false;
+  const expected = Buffer.from(signNotificationBody(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export function formatNotificationSubject(event: NotificationEvent): string {
+  const prefix = event.test ? "[tg-back 测试]" : `[tg-back ${event.level.toUpperCase()}]`;
+  const firstLine = event.message.split("\n")[0]?.slice(0, 120) ?? "";
+  return event.sourceChannelName ? `${prefix} ${event.sourceChannelName}: ${firstLine}` : `${prefix} ${firstLine}`;
+}
+
+export function formatNotificationText(event: NotificationEvent): string {
+  const lines = [formatNotificationSubject(event), "", event.message, "", `时间：${event.createdAt}`];
+  if (event.sourceChannelId) lines.push(`频道：${event.sourceChannelName ?? event.sourceChannelId}`);
+  return lines.join("\n");
+}
+
+/**
+ * attempts 为已失败的次数（>= 1）；返回 null 表示不再重试。
+ */
+export function getNotificationRetryDelayMs(attempts: number): number | null {
+  if (attempts >= NOTIFICATION_MAX_ATTEMPTS) return null;
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+}
@@ -0,0 +1,4 @@
+// tsconfig 的 moduleResolution 是 Node，不认 package.json 的 exports 子路径，这里手动指到类型文件
+declare module "@electric-sql/pglite/contrib/pg_trgm" {
+  export { pg_trgm } from "@electric-sql/pglite/dist/contrib/pg_trgm";
+}
@@ -0,0 +1,31 @@
+import { index, integer, pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { webUsers } from "./web-users";
+
+// read 只读；export 另外可以调导出接口；operate 相当于操作员。token 永远拿不到 admin 权限
+export const apiTokenScopeEnum = pgEnum("api_token_scope", ["read", "export", "operate"]);
+
+// 个人 API token（Authorization: Bearer），供脚本调用 REST 接口
+export const apiTokens = pgTable(
+  "api_tokens",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    name: text("name").notNull(),
+    // 创建者；单密码 / 未启用访问控制时创建的 token 为空（启用多用户后只读）。实际权限不超过创建者当前的角色
+    ownerUserId: uuid("owner_user_id").references(() => webUsers.id, { onDelete: "cascade" }),
+    scope: apiTokenScopeEnum("scope").default("read").notNull(),
+    // 明文只在创建时返回一次，这里存 sha256
+    tokenHash: text("token_hash").notNull().unique(),
+    // 明文前几位，列表里用来辨认
+    tokenPrefix: text("token_prefix").notNull(),
+    rateLimitPerMinute: integer("rate_limit_per_minute").default(60).notNull(),
+    // 为空 = 永不过期
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
+    lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+    lastUsedIp: text("last_used_ip"),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    ownerIdx: index("api_token_owner_idx").on(table.ownerUserId),
+  }),
+);
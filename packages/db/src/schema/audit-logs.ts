@@ -0,0 +1,35 @@
+import { index, jsonb, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { webUserRoleEnum, webUsers } from "./web-users";
+
+// Web 端管理操作的审计记录；只追加，数据库触发器拒绝修改 / 删除（删除用户时外键把 actor_user_id 置空除外）
+export const auditLogs = pgTable(
+  "audit_logs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    // 用户被删除后保留 actorName，便于追溯
+    actorUserId: uuid("actor_user_id").references(() => webUsers.id, { onDelete: "set null" }),
+    // 用户名；单密码模式为 access_password，未启用访问控制为 anonymous
+    actorName: text("actor_name").notNull(),
+    actorRole: webUserRoleEnum("actor_role"),
+    // 通过 API token 调用时的 token 名称
+    apiTokenName: text("api_token_name"),
+    // 只有设置了 TG_BACK_TRUST_PROXY 才取得到，否则为空
+    ip: text("ip"),
+    method: text("method").notNull(),
+    route: text("route").notNull(),
+    // AuditAction，例如 channel.update
+    action: text("action").notNull(),
+    targetType: text("target_type").notNull(),
+    targetId: text("target_id"),
+    // 目标的可读名称（频道标识、用户名等），目标被删除后仍可识别
+    targetLabel: text("target_label"),
+    // { 字段: { before, after } }，密钥类字段已脱敏
+    changes: jsonb("changes").$type<Record<string, { before: unknown; after: unknown }>>().default({}).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    createdAtIdx: index("audit_log_created_at_idx").on(table.createdAt),
+    targetIdx: index("audit_log_target_idx").on(table.targetType, table.targetId),
+    actionCreatedIdx: index("audit_log_action_created_idx").on(table.action, table.createdAt),
+  }),
+);
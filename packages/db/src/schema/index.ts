@@ -1,7 +1,15 @@
+export * from "./telegram-accounts";
 export * from "./source-channels";
 export * from "./mirror-channels";
 export * from "./message-mappings";
 export * from "./message-edits";
+export * from "./message-comments";
+export * from "./message-media";
 export * from "./sync-tasks";
 export * from "./sync-events";
 export * from "./settings";
+export * from "./notifications";
+export * from "./task-schedules";
+export * from "./web-users";
+export * from "./audit-logs";
+export * from "./api-tokens";
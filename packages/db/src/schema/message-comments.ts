@@ -0,0 +1,37 @@
+import { bigint, index, integer, pgTable, text, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+import { messageMappings, messageStatusEnum, messageTypeEnum } from "./message-mappings";
+import { sourceChannels } from "./source-channels";
+
+// 频道帖子在讨论组里的评论：镜像到镜像频道的讨论组，同时留一份在库里供浏览/导出；按讨论组消息 id 去重，重跑不会重复发送
+export const messageComments = pgTable(
+  "message_comments",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    // 评论所属的帖子
+    messageMappingId: uuid("message_mapping_id")
+      .notNull()
+      .references(() => messageMappings.id, { onDelete: "cascade" }),
+    sourceChannelId: uuid("source_channel_id")
+      .notNull()
+      .references(() => sourceChannels.id, { onDelete: "cascade" }),
+    // 讨论组里的消息 id
+    sourceCommentId: integer("source_comment_id").notNull(),
+    // 回复的是另一条评论时记下它的 id；直接评论帖子时为 null
+    replyToCommentId: integer("reply_to_comment_id"),
+    authorId: bigint("author_id", { mode: "bigint" }),
+    authorName: text("author_name"),
+    text: text("text"),
+    messageType: messageTypeEnum("message_type").notNull(),
+    mediaGroupId: text("media_group_id"),
+    status: messageStatusEnum("status").default("pending").notNull(),
+    mirrorMessageId: integer("mirror_message_id"),
+    errorMessage: text("error_message"),
+    sentAt: timestamp("sent_at", { withTimezone: true }).notNull(),
+    mirroredAt: timestamp("mirrored_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueSourceComment: uniqueIndex("unique_source_comment").on(table.sourceChannelId, table.sourceCommentId),
+    mappingCommentIdx: index("message_comments_mapping_idx").on(table.messageMappingId, table.sourceCommentId),
+  }),
+);
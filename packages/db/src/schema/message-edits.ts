@@ -1,6 +1,15 @@
-import { integer, pgTable, text, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+import { integer, pgEnum, pgTable, text, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
 import { messageMappings } from "./message-mappings";
 
+export const editPropagationStatusEnum = pgEnum("edit_propagation_status", [
+  "pending",
+  "edited",
+  "commented",
+  "recorded",
+  "skipped",
+  "failed",
+]);
+
 export const messageEdits = pgTable(
   "message_edits",
   {
@@ -12,6 +21,9 @@ export const messageEdits = pgTable(
     previousText: text("previous_text"),
     newText: text("new_text"),
     editedAt: timestamp("edited_at", { withTimezone: true }).notNull(),
+    propagationStatus: editPropagationStatusEnum("propagation_status").default("pending").notNull(),
+    propagationError: text("propagation_error"),
+    propagatedAt: timestamp("propagated_at", { withTimezone: true }),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   },
   (table) => ({
@@ -1,6 +1,8 @@
+import { sql } from "drizzle-orm";
 import {
   bigint,
   boolean,
+  customType,
   index,
   integer,
   pgEnum,
@@ -34,6 +36,13 @@ export const skipReasonEnum = pgEnum("skip_reason", [
   "message_deleted",
   "filtered",
 ]);
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+export const mirrorDeletionStatusEnum = pgEnum("mirror_deletion_status", ["deleted", "marked", "failed"]);
 
 export const messageMappings = pgTable(
   "message_mappings",
@@ -51,6 +60,8 @@ export const messageMappings = pgTable(
     mediaGroupId: text("media_group_id"),
     status: messageStatusEnum("status").default("pending").notNull(),
     skipReason: skipReasonEnum("skip_reason"),
+    // skip 的具体原因（例如命中的过滤规则），skipReason 只是分类
+    skipDetail: text("skip_detail"),
     errorMessage: text("error_message"),
     retryCount: integer("retry_count").default(0).notNull(),
     hasMedia: boolean("has_media").default(false).notNull(),
@@ -61,8 +72,18 @@ export const messageMappings = pgTable(
     mirroredAt: timestamp("mirrored_at", { withTimezone: true }),
     isDeleted: boolean("is_deleted").default(false).notNull(),
     deletedAt: timestamp("deleted_at", { withTimezone: true }),
+    mirrorDeletionStatus: mirrorDeletionStatusEnum("mirror_deletion_status"),
+    mirrorDeletionAt: timestamp("mirror_deletion_at", { withTimezone: true }),
+    // 删除同步失败后保持待处理，按次数退避重试，达到上限才记为 failed
+    mirrorDeletionAttempts: integer("mirror_deletion_attempts").default(0).notNull(),
+    mirrorDeletionRetryAt: timestamp("mirror_deletion_retry_at", { withTimezone: true }),
+    // 镜像完整性核对：最近一次确认镜像消息存在/缺失的时间；缺失时记下发现时间（重新镜像成功后 mirroredAt 会更新）
+    mirrorVerifiedAt: timestamp("mirror_verified_at", { withTimezone: true }),
+    mirrorMissingAt: timestamp("mirror_missing_at", { withTimezone: true }),
     editCount: integer("edit_count").default(0).notNull(),
     lastEditedAt: timestamp("last_edited_at", { withTimezone: true }),
+    // 全文检索用，'simple' 配置不做词干化，对多语言内容更稳妥；CJK 子串搜索仍依赖 text 上的 pg_trgm 索引
+    textSearch: tsvector("text_search").generatedAlwaysAs(sql`to_tsvector('simple', coalesce("text", ''))`),
   },
   (table) => ({
     uniqueSourceMessage: uniqueIndex("unique_source_message").on(table.sourceChannelId, table.sourceMessageId),
@@ -71,5 +92,34 @@ export const messageMappings = pgTable(
     sentChannelMessageIdx: index("sent_channel_message_idx").on(table.sentAt, table.sourceChannelId, table.sourceMessageId),
     statusChannelIdx: index("status_channel_idx").on(table.status, table.sourceChannelId),
     mediaGroupIdx: index("media_group_idx").on(table.mediaGroupId),
+    deletedChannelIdx: index("deleted_channel_idx").on(table.sourceChannelId, table.deletedAt),
+    mirrorVerifiedIdx: index("mirror_verified_idx").on(table.sourceChannelId, table.mirrorVerifiedAt),
+    textSearchIdx: index("message_mappings_text_search_idx").using("gin", table.textSearch),
+  }),
+);
+
+// 额外镜像目标（mirror_channels.is_primary = false）上每条消息的结果；主镜像的结果仍在 message_mappings 上
+export const messageTargetMappings = pgTable(
+  "message_target_mappings",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    messageMappingId: uuid("message_mapping_id")
+      .notNull()
+      .references(() => messageMappings.id, { onDelete: "cascade" }),
+    mirrorChannelId: uuid("mirror_channel_id")
+      .notNull()
+      .references(() => mirrorChannels.id, { onDelete: "cascade" }),
+    mirrorMessageId: integer("mirror_message_id"),
+    status: messageStatusEnum("status").default("pending").notNull(),
+    skipReason: skipReasonEnum("skip_reason"),
+    skipDetail: text("skip_detail"),
+    errorMessage: text("error_message"),
+    retryCount: integer("retry_count").default(0).notNull(),
+    mirroredAt: timestamp("mirrored_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueMappingTarget: uniqueIndex("unique_message_target").on(table.messageMappingId, table.mirrorChannelId),
+    targetStatusIdx: index("message_target_status_idx").on(table.mirrorChannelId, table.status),
   }),
 );
@@ -0,0 +1,42 @@
+import { bigint, index, integer, pgEnum, pgTable, text, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+import { messageMappings } from "./message-mappings";
+import { sourceChannels } from "./source-channels";
+
+export const mediaArchiveStatusEnum = pgEnum("media_archive_status", ["stored", "skipped", "failed"]);
+
+// 本地媒体归档：文件按 sha256 内容寻址存放在 TG_BACK_MEDIA_ARCHIVE_DIR 下，相同文件只存一份
+export const messageMedia = pgTable(
+  "message_media",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    messageMappingId: uuid("message_mapping_id")
+      .notNull()
+      .references(() => messageMappings.id, { onDelete: "cascade" }),
+    sourceChannelId: uuid("source_channel_id")
+      .notNull()
+      .references(() => sourceChannels.id, { onDelete: "cascade" }),
+    status: mediaArchiveStatusEnum("status").notNull(),
+    // 相对于归档根目录的路径，如 ab/cd/abcd....jpg
+    storagePath: text("storage_path"),
+    sha256: text("sha256"),
+    // 视频/文件的预览图（同样是相对路径）；photo 直接用原图
+    thumbStoragePath: text("thumb_storage_path"),
+    mimeType: text("mime_type"),
+    fileName: text("file_name"),
+    fileSize: bigint("file_size", { mode: "number" }),
+    width: integer("width"),
+    height: integer("height"),
+    durationSec: integer("duration_sec"),
+    skipReason: text("skip_reason"),
+    errorMessage: text("error_message"),
+    attempts: integer("attempts").default(0).notNull(),
+    archivedAt: timestamp("archived_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueMapping: uniqueIndex("unique_message_media_mapping").on(table.messageMappingId),
+    channelStatusIdx: index("message_media_channel_status_idx").on(table.sourceChannelId, table.status),
+    sha256Idx: index("message_media_sha256_idx").on(table.sha256),
+  }),
+);
@@ -1,18 +1,46 @@
-import { bigint, boolean, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
-import { sourceChannels } from "./source-channels";
+import { sql } from "drizzle-orm";
+import { bigint, boolean, index, integer, jsonb, pgTable, text, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+import type { CopyTransformConfig } from "../copy-transform";
+import type { MessageFilterRule } from "../message-filter";
+import { messageFilterModeEnum, mirrorModeEnum, sourceChannels } from "./source-channels";
 
-export const mirrorChannels = pgTable("mirror_channels", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  sourceChannelId: uuid("source_channel_id")
-    .notNull()
-    .unique()
-    .references(() => sourceChannels.id, { onDelete: "cascade" }),
-  channelIdentifier: text("channel_identifier").notNull(),
-  telegramId: bigint("telegram_id", { mode: "bigint" }),
-  accessHash: bigint("access_hash", { mode: "bigint" }),
-  name: text("name").notNull(),
-  username: text("username"),
-  inviteLink: text("invite_link"),
-  isAutoCreated: boolean("is_auto_created").default(true).notNull(),
-  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
-});
+/**
+ * 一个源频道可以镜像到多个目标：
+ * - 主镜像（isPrimary）只有一个，镜像方式/过滤/文本转换沿用 source_channels 上的配置，结果记在 message_mappings
+ * - 额外目标在主镜像处理完之后跟进，各自的配置在这里，结果记在 message_target_mappings
+ */
+export const mirrorChannels = pgTable(
+  "mirror_channels",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    sourceChannelId: uuid("source_channel_id")
+      .notNull()
+      .references(() => sourceChannels.id, { onDelete: "cascade" }),
+    isPrimary: boolean("is_primary").default(true).notNull(),
+    channelIdentifier: text("channel_identifier").notNull(),
+    telegramId: bigint("telegram_id", { mode: "bigint" }),
+    accessHash: bigint("access_hash", { mode: "bigint" }),
+    name: text("name").notNull(),
+    username: text("username"),
+    inviteLink: text("invite_link"),
+    isAutoCreated: boolean("is_auto_created").default(true).notNull(),
+    // 以下仅对额外目标生效
+    isActive: boolean("is_active").default(true).notNull(),
+    // null = 跟随源频道
+    mirrorMode: mirrorModeEnum("mirror_mode"),
+    // inherit = 与源频道（主镜像）相同；custom = 只用这里的规则；merge = 这里的规则 + 源频道的规则
+    messageFilterMode: messageFilterModeEnum("message_filter_mode").default("inherit").notNull(),
+    messageFilterRules: jsonb("message_filter_rules").$type<MessageFilterRule[]>().default([]).notNull(),
+    // null = 跟随源频道
+    copyTransforms: jsonb("copy_transforms").$type<Partial<CopyTransformConfig>>(),
+    // 已跟进到的源消息 ID（游标），只往后扫描；history 任务补进更早的消息时会往回拨。null = 从头开始
+    cursorMessageId: integer("cursor_message_id"),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    uniquePrimary: uniqueIndex("unique_primary_mirror_channel")
+      .on(table.sourceChannelId)
+      .where(sql`${table.isPrimary}`),
+    sourceChannelIdx: index("mirror_channels_source_channel_idx").on(table.sourceChannelId),
+  }),
+);
@@ -0,0 +1,54 @@
+import { boolean, index, integer, jsonb, pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { eventLevelEnum, syncEvents } from "./sync-events";
+
+export const notificationTargetTypeEnum = pgEnum("notification_target_type", ["webhook", "telegram_bot", "email"]);
+
+export const notificationDeliveryStatusEnum = pgEnum("notification_delivery_status", [
+  "pending",
+  "sent",
+  "failed",
+  "rate_limited",
+]);
+
+// 通知规则：sync_events 命中过滤条件后推送到一个目标（webhook / Telegram bot / 邮件）
+export const notificationRules = pgTable("notification_rules", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  targetType: notificationTargetTypeEnum("target_type").notNull(),
+  // 目标配置；secret / botToken / password 用 ENCRYPTION_SECRET 加密后存放
+  target: jsonb("target").$type<Record<string, unknown>>().default({}).notNull(),
+  minLevel: eventLevelEnum("min_level").default("warn").notNull(),
+  // 为空 = 所有频道（包括不属于任何频道的全局事件）
+  sourceChannelIds: jsonb("source_channel_ids").$type<string[]>().default([]).notNull(),
+  // 窗口内最多推送多少条，超出的记为 rate_limited；0 = 不限
+  rateLimitCount: integer("rate_limit_count").default(20).notNull(),
+  rateLimitWindowSec: integer("rate_limit_window_sec").default(3600).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+export const notificationDeliveries = pgTable(
+  "notification_deliveries",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    ruleId: uuid("rule_id")
+      .notNull()
+      .references(() => notificationRules.id, { onDelete: "cascade" }),
+    // 测试推送没有对应的事件
+    eventId: uuid("event_id").references(() => syncEvents.id, { onDelete: "set null" }),
+    // 入队时的事件快照（NotificationEvent），发送与重试都只用它
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    status: notificationDeliveryStatusEnum("status").default("pending").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }).defaultNow().notNull(),
+    responseStatus: integer("response_status"),
+    lastError: text("last_error"),
+    sentAt: timestamp("sent_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    statusNextAttemptIdx: index("notification_delivery_status_next_idx").on(table.status, table.nextAttemptAt),
+    ruleCreatedIdx: index("notification_delivery_rule_created_idx").on(table.ruleId, table.createdAt),
+  }),
+);
@@ -1,4 +1,6 @@
 import { boolean, integer, jsonb, pgTable, text } from "drizzle-orm/pg-core";
+import type { MessageFilterRule } from "../message-filter";
+import { defaultTelegramProxySetting, type TelegramProxySetting } from "../telegram-proxy";
 
 export const settings = pgTable("settings", {
   key: text("key").primaryKey(),
@@ -6,6 +8,7 @@ export const settings = pgTable("settings", {
 });
 
 export const defaultSettings = {
+  // 旧版单账号 session，迁移（0022）后已移到 telegram_accounts，这里只保留键名
   telegram_session: "",
 
   default_mirror_mode: "forward",
@@ -31,11 +34,18 @@ export const defaultSettings = {
   group_media_messages: true,
   // 相册消息（同 groupedId）在 realtime 里会做一段时间的缓冲收集，避免网络抖动把相册拆成多次发送。
   media_group_buffer_ms: 1500,
+  // 本地媒体归档：把源消息里的图片/视频/文件下载到 TG_BACK_MEDIA_ARCHIVE_DIR（同样遵守 mirror_videos / max_file_size_mb）
+  media_archive_enabled: false,
 
   // 广告/垃圾消息过滤：命中关键词的消息会被跳过（不会发送到镜像频道）。
   message_filter_enabled: false,
   // 多个关键词用换行/空格/逗号分隔（建议每行一个，简单好用）。
   message_filter_keywords: "",
+  // 结构化过滤规则（正则/链接域名/话题/类型/转发来源/长度…），与关键词同时生效
+  message_filter_rules: [] as MessageFilterRule[],
+
+  // MTProto 代理（SOCKS5 / MTProxy），password / secret 加密存放；type = none 时回退到 PROXY_HOST / PROXY_PORT 环境变量
+  telegram_proxy: defaultTelegramProxySetting as TelegramProxySetting,
 
   access_password: "",
 };
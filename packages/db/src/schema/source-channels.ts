@@ -1,8 +1,14 @@
-import { bigint, boolean, index, integer, pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { bigint, boolean, index, integer, jsonb, pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import type { CopyTransformConfig } from "../copy-transform";
+import type { GapScanResult } from "../gap-scan";
+import type { MessageFilterRule } from "../message-filter";
+import { telegramAccounts } from "./telegram-accounts";
 
 export const syncStatusEnum = pgEnum("sync_status", ["pending", "syncing", "completed", "error"]);
 export const mirrorModeEnum = pgEnum("mirror_mode", ["forward", "copy"]);
-export const messageFilterModeEnum = pgEnum("message_filter_mode", ["inherit", "disabled", "custom"]);
+export const messageFilterModeEnum = pgEnum("message_filter_mode", ["inherit", "disabled", "custom", "merge"]);
+export const editSyncModeEnum = pgEnum("edit_sync_mode", ["edit", "comment", "record"]);
+export const deletionSyncModeEnum = pgEnum("deletion_sync_mode", ["record", "mark", "delete"]);
 
 export const sourceChannels = pgTable(
   "source_channels",
@@ -28,6 +34,25 @@ export const sourceChannels = pgTable(
     priority: integer("priority").default(0).notNull(),
     messageFilterMode: messageFilterModeEnum("message_filter_mode").default("inherit").notNull(),
     messageFilterKeywords: text("message_filter_keywords").default("").notNull(),
+    messageFilterRules: jsonb("message_filter_rules").$type<MessageFilterRule[]>().default([]).notNull(),
+    // copy 模式发送前的文本转换（正则替换、去签名、链接/提及处理、模板、页脚）
+    copyTransforms: jsonb("copy_transforms").$type<Partial<CopyTransformConfig>>().default({}).notNull(),
+    editSyncMode: editSyncModeEnum("edit_sync_mode").default("record").notNull(),
+    deletionSyncMode: deletionSyncModeEnum("deletion_sync_mode").default("record").notNull(),
+    deletionGraceMinutes: integer("deletion_grace_minutes").default(60).notNull(),
+    // 删除同步只处理这之后在源频道删除的消息；切换 deletion_sync_mode 时更新，切换前积压的删除不会被补处理
+    deletionSyncSince: timestamp("deletion_sync_since", { withTimezone: true }).defaultNow().notNull(),
+    // 指定由哪个 Telegram 账号同步；null = 自动分配
+    telegramAccountId: uuid("telegram_account_id").references(() => telegramAccounts.id, { onDelete: "set null" }),
+    // 实际负责同步的账号（mirror-service 回写）；自动分配时尽量保持不变
+    activeAccountId: uuid("active_account_id").references(() => telegramAccounts.id, { onDelete: "set null" }),
+    // 镜像完整性核对轮到该频道的时间，核对器按它轮询频道
+    mirrorVerifiedAt: timestamp("mirror_verified_at", { withTimezone: true }),
+    // 最近一次缺口扫描（源消息 id 与 message_mappings 对比）的时间与结果
+    gapScannedAt: timestamp("gap_scanned_at", { withTimezone: true }),
+    gapScan: jsonb("gap_scan").$type<GapScanResult>(),
+    // 离线源：从 Telegram Desktop 导出导入（原频道已删除 / 受限），不解析、不拉历史、不监听，只能把导入的消息重新发布到镜像频道
+    isOffline: boolean("is_offline").default(false).notNull(),
   },
   (table) => ({
     channelIdentifierIdx: index("source_channels_channel_identifier_idx").on(table.channelIdentifier),
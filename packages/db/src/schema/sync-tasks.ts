@@ -1,4 +1,4 @@
-import { index, integer, pgEnum, pgTable, text, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+import { boolean, index, integer, pgEnum, pgTable, text, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
 import { sourceChannels } from "./source-channels";
 
 export const taskTypeEnum = pgEnum("task_type", [
@@ -28,6 +28,13 @@ export const syncTasks = pgTable(
     completedAt: timestamp("completed_at", { withTimezone: true }),
     pausedAt: timestamp("paused_at", { withTimezone: true }),
     lastError: text("last_error"),
+    // history_partial 的回填范围（消息 ID 闭区间 / 时间窗口，可组合）
+    rangeStartId: integer("range_start_id"),
+    rangeEndId: integer("range_end_id"),
+    rangeStartAt: timestamp("range_start_at", { withTimezone: true }),
+    rangeEndAt: timestamp("range_end_at", { withTimezone: true }),
+    // 为 true 时已成功/已跳过的消息也会按当前镜像方式重新发送
+    rangeRemirror: boolean("range_remirror").default(false).notNull(),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   },
   (table) => ({
@@ -0,0 +1,26 @@
+import { boolean, integer, jsonb, pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { TASK_SCHEDULE_ACTIONS, type TaskScheduleTaskType } from "../task-schedules";
+
+export const taskScheduleActionEnum = pgEnum("task_schedule_action", TASK_SCHEDULE_ACTIONS);
+
+// 任务计划：定时入队（enqueue）、只在窗口内运行（allow_window）、窗口内暂停（pause_window）
+export const taskSchedules = pgTable("task_schedules", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  action: taskScheduleActionEnum("action").notNull(),
+  cronExpression: text("cron_expression").notNull(),
+  // IANA 时区，cron 按这个时区解释
+  timezone: text("timezone").default("UTC").notNull(),
+  durationMinutes: integer("duration_minutes").default(60).notNull(),
+  taskTypes: jsonb("task_types").$type<TaskScheduleTaskType[]>().default([]).notNull(),
+  lookbackMinutes: integer("lookback_minutes").default(1440).notNull(),
+  // 两者都为空 = 所有频道
+  sourceChannelIds: jsonb("source_channel_ids").$type<string[]>().default([]).notNull(),
+  groupNames: jsonb("group_names").$type<string[]>().default([]).notNull(),
+  // 以下由 mirror-service 回写（enqueue）
+  lastRunAt: timestamp("last_run_at", { withTimezone: true }),
+  lastResult: text("last_result"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+});
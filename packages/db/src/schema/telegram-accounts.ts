@@ -0,0 +1,19 @@
+import { bigint, boolean, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+
+// 已登录的 Telegram 账号；mirror-service 为每个启用的账号建立一个连接，频道按账号分配
+export const telegramAccounts = pgTable("telegram_accounts", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  // StringSession，用 ENCRYPTION_SECRET 加密；空字符串 = 已退出登录，需要重新验证
+  session: text("session").default("").notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  phoneNumber: text("phone_number"),
+  telegramUserId: bigint("telegram_user_id", { mode: "bigint" }),
+  username: text("username"),
+  displayName: text("display_name"),
+  // 以下由 mirror-service 回写
+  lastConnectedAt: timestamp("last_connected_at", { withTimezone: true }),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+});
@@ -0,0 +1,19 @@
+import { boolean, integer, pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+
+// viewer 只读；operator 可以管理频道/任务；admin 另外可以改设置、管理 Telegram 账号与 Web 用户
+export const webUserRoleEnum = pgEnum("web_user_role", ["viewer", "operator", "admin"]);
+
+// Web 登录用户；表为空时回退到 settings.access_password 单密码模式
+export const webUsers = pgTable("web_users", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  username: text("username").notNull().unique(),
+  // scrypt$cost$blockSize$parallelization$salt$key，与 access_password 同一种格式
+  passwordHash: text("password_hash").notNull(),
+  role: webUserRoleEnum("role").default("viewer").notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  // 改密码 / 停用 / 改角色时 +1，让已签发的登录 cookie 失效
+  sessionVersion: integer("session_version").default(1).notNull(),
+  lastLoginAt: timestamp("last_login_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+});
@@ -1,5 +1,7 @@
 import { z } from "zod";
+import { parseMessageFilterRules } from "./message-filter";
 import { defaultSettings } from "./schema/settings";
+import { parseTelegramProxySetting } from "./telegram-proxy";
 
 const mirrorModeSchema = z.preprocess(
   (value) => (typeof value === "string" ? value.trim().toLowerCase() : value),
@@ -53,9 +55,13 @@ export const appSettingsSchema = z.object({
   skip_protected_content: booleanSchema.catch(defaultSettings.skip_protected_content),
   group_media_messages: booleanSchema.catch(defaultSettings.group_media_messages),
   media_group_buffer_ms: numberSchema.catch(defaultSettings.media_group_buffer_ms),
+  media_archive_enabled: booleanSchema.catch(defaultSettings.media_archive_enabled),
 
   message_filter_enabled: booleanSchema.catch(defaultSettings.message_filter_enabled),
   message_filter_keywords: z.string().catch(defaultSettings.message_filter_keywords),
+  message_filter_rules: z.unknown().transform(parseMessageFilterRules),
+
+  telegram_proxy: z.unknown().transform(parseTelegramProxySetting),
 
   access_password: z.string().catch(defaultSettings.access_password),
 });
@@ -0,0 +1,373 @@
+import { z } from "zod";
+
+/**
+ * 任务计划（task_schedules）：cron 表达式解析、下次运行时间计算，以及时间窗口对任务的放行判断。
+ * mirror-service 按它暂停/恢复任务、定时入队；web 端用它校验表单并展示下次运行时间。
+ *
+ * cron 为标准 5 段（分 时 日 月 周），支持 * , - / 、月份/星期英文缩写和 @daily 等简写；
+ * 日和周都不是 * 时按 Vixie cron 的习惯取“或”。时间按计划自己的时区解释。
+ */
+
+const MAX_SEARCH_DAYS = 366 * 5;
+
+export type CronSchedule = {
+  expression: string;
+  minutes: boolean[];
+  hours: boolean[];
+  daysOfMonth: boolean[];
+  months: boolean[];
+  daysOfWeek: boolean[];
+  domRestricted: boolean;
+  dowRestricted: boolean;
+};
+
+const CRON_MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+type CronFieldSpec = { label: string; min: number; max: number; names?: string[]; nameOffset?: number };
+
+const CRON_FIELDS: CronFieldSpec[] = [
+  { label: "分钟", min: 0, max: 59 },
+  { label: "小时", min: 0, max: 23 },
+  { label: "日", min: 1, max: 31 },
+  { label: "月", min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  // 7 也表示周日
+  { label: "星期", min: 0, max: 7, names: WEEKDAY_NAMES, nameOffset: 0 },
+];
+
+function parseCronValue(raw: string, spec: CronFieldSpec): number | null {
+  const lower = raw.toLowerCase();
+  const nameIndex = spec.names?.indexOf(lower) ?? -1;
+  if (nameIndex >= 0) return nameIndex + (spec.nameOffset ?? 0);
+  if (!/^\d+$/.test(raw)) return null;
+  const value = Number(raw);
+  return value >= spec.min && value <= spec.max ? value : null;
+}
+
+function parseCronField(field: string, spec: CronFieldSpec): boolean[] | string {
+  const allowed = new Array<boolean>(spec.max + 1).fill(false);
+
+  for (const part of field.split(",")) {
+    const [rangePart = "", stepPart] = part.split("/");
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || Number(stepPart) < 1) return `${spec.label}字段的步长不合法：${part}`;
+      step = Number(stepPart);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes("-")) {
+      const [from = "", to = ""] = rangePart.split("-");
+      const fromValue = parseCronValue(from, spec);
+      const toValue = parseCronValue(to, spec);
+      if (fromValue == null || toValue == null || fromValue > toValue) return `${spec.label}字段的范围不合法：${part}`;
+      start = fromValue;
+      end = toValue;
+    } else {
+      const value = parseCronValue(rangePart, spec);
+      if (value == null) return `${spec.label}字段的取值不合法：${part}`;
+      start = value;
+      // 5/15 = 从 5 开始每 15 个
+      end = stepPart !== undefined ? spec.max : value;
+    }
+
+    for (let value = start; value <= end; value += step) allowed[value] = true;
+  }
+
+  return allowed;
+}
+
+export function parseCronExpression(expression: string): { cron: CronSchedule } | { error: string } {
+  const trimmed = expression.trim().replace(/\s+/g, " ");
+  const normalized = CRON_MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = normalized.split(" ");
+  if (fields.length !== 5) return { error: "cron 表达式需要 5 段：分 时 日 月 周" };
+
+  const parsed: boolean[][] = [];
+  for (let i = 0; i < CRON_FIELDS.length; i++) {
+    const result = parseCronField(fields[i]!, CRON_FIELDS[i]!);
+    if (typeof result === "string") return { error: result };
+    parsed.push(result);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed as [boolean[], boolean[], boolean[], boolean[], boolean[]];
+  if (daysOfWeek[7]) daysOfWeek[0] = true;
+
+  return {
+    cron: {
+      expression: trimmed,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      domRestricted: !fields[2]!.startsWith("*"),
+      dowRestricted: !fields[4]!.startsWith("*"),
+    },
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+type ZonedParts = { month: number; day: number; weekday: number; hour: number; minute: number };
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedParts(time: number, timeZone: string): ZonedParts {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      month: "numeric",
+      day: "numeric",
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+      hourCycle: "h23",
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+
+  const parts: ZonedParts = { month: 1, day: 1, weekday: 0, hour: 0, minute: 0 };
+  for (const part of formatter.formatToParts(new Date(time))) {
+    if (part.type === "weekday") parts.weekday = WEEKDAY_NAMES.indexOf(part.value.toLowerCase());
+    else if (part.type === "month" || part.type === "day" || part.type === "hour" || part.type === "minute") {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return parts;
+}
+
+function matchesCronDay(cron: CronSchedule, parts: ZonedParts): boolean {
+  if (!cron.months[parts.month]) return false;
+  const domMatch = !!cron.daysOfMonth[parts.day];
+  const dowMatch = !!cron.daysOfWeek[parts.weekday];
+  if (cron.domRestricted && cron.dowRestricted) return domMatch || dowMatch;
+  if (cron.domRestricted) return domMatch;
+  if (cron.dowRestricted) return dowMatch;
+  return true;
+}
+
+/**
+ * 严格晚于 after 的下一次运行时间（精确到分钟）；5 年内都不会触发（如 2 月 31 日）时返回 null。
+ */
+export function getNextCronRun(cron: CronSchedule, after: Date, timeZone = "UTC"): Date | null {
+  let time = Math.floor(after.getTime() / 60_000) * 60_000 + 60_000;
+  const limit = time + MAX_SEARCH_DAYS * 24 * 60 * 60_000;
+
+  while (time <= limit) {
+    const parts = getZonedParts(time, timeZone);
+
+    if (!matchesCronDay(cron, parts)) {
+      // 跳到当天 23 点附近再逐小时走，夏令时切换当天也不会越过下一天的 0 点
+      const minutesToNextDay = (24 - parts.hour) * 60 - parts.minute;
+      time += (minutesToNextDay > 60 ? minutesToNextDay - 60 : minutesToNextDay) * 60_000;
+      continue;
+    }
+    if (!cron.hours[parts.hour]) {
+      time += (60 - parts.minute) * 60_000;
+      continue;
+    }
+    if (!cron.minutes[parts.minute]) {
+      let next = parts.minute + 1;
+      while (next < 60 && !cron.minutes[next]) next++;
+      time += (next - parts.minute) * 60_000;
+      continue;
+    }
+    return new Date(time);
+  }
+
+  return null;
+}
+
+export function getNextCronRuns(cron: CronSchedule, after: Date, count: number, timeZone = "UTC"): Date[] {
+  const runs: Date[] = [];
+  let cursor = after;
+  while (runs.length < count) {
+    const next = getNextCronRun(cron, cursor, timeZone);
+    if (!next) break;
+    runs.push(next);
+    cursor = next;
+  }
+  return runs;
+}
+
+/**
+ * now 是否落在某次触发开始、持续 durationMinutes 的窗口内；是则返回这个窗口。
+ */
+export function getActiveCronWindow(
+  cron: CronSchedule,
+  durationMinutes: number,
+  now: Date,
+  timeZone = "UTC",
+): { start: Date; end: Date } | null {
+  const durationMs = durationMinutes * 60_000;
+  const start = getNextCronRun(cron, new Date(now.getTime() - durationMs), timeZone);
+  if (!start || start.getTime() > now.getTime()) return null;
+  return { start, end: new Date(start.getTime() + durationMs) };
+}
+
+export const TASK_SCHEDULE_ACTIONS = ["enqueue", "allow_window", "pause_window"] as const;
+export type TaskScheduleAction = (typeof TASK_SCHEDULE_ACTIONS)[number];
+
+// 定时入队只支持这两种；resolve 不受计划控制
+export const TASK_SCHEDULE_ENQUEUE_TYPES = ["retry_failed", "history_partial"] as const;
+export const TASK_SCHEDULE_WINDOW_TYPES = ["history_full", "history_partial", "retry_failed", "realtime"] as const;
+export type TaskScheduleTaskType = (typeof TASK_SCHEDULE_WINDOW_TYPES)[number];
+
+// 被时间窗口暂停的任务用这个前缀写 last_error，恢复时据此识别
+export const TASK_SCHEDULE_PAUSE_PREFIX = "paused by schedule";
+
+const taskScheduleSchema = z
+  .object({
+    name: z.string().trim().min(1, "name is required").max(100),
+    enabled: z.boolean().default(true),
+    action: z.enum(TASK_SCHEDULE_ACTIONS),
+    cronExpression: z.string().trim().min(1, "cronExpression is required").max(200),
+    timezone: z.string().trim().min(1).max(64).default("UTC"),
+    // 窗口时长（allow_window / pause_window）
+    durationMinutes: z.number().int().min(1).max(7 * 24 * 60).default(60),
+    taskTypes: z.array(z.enum(TASK_SCHEDULE_WINDOW_TYPES)).max(TASK_SCHEDULE_WINDOW_TYPES.length).default([]),
+    // 定时入队 history_partial 时回扫最近多少分钟的消息（补漏）
+    lookbackMinutes: z.number().int().min(1).max(30 * 24 * 60).default(24 * 60),
+    // 两者都为空 = 所有频道
+    sourceChannelIds: z.array(z.string().min(1)).max(500).default([]),
+    groupNames: z.array(z.string().trim().min(1)).max(100).default([]),
+  })
+  .superRefine((value, ctx) => {
+    if (!value.taskTypes.length) {
+      ctx.addIssue({ code: "custom", path: ["taskTypes"], message: "至少选择一种任务类型" });
+    }
+    if (value.action === "enqueue") {
+      if (value.taskTypes.length !== 1 || !TASK_SCHEDULE_ENQUEUE_TYPES.some((type) => type === value.taskTypes[0])) {
+        ctx.addIssue({ code: "custom", path: ["taskTypes"], message: "定时入队只能选择 retry_failed 或 history_partial 其中一种" });
+      }
+    }
+    if (!isValidTimeZone(value.timezone)) {
+      ctx.addIssue({ code: "custom", path: ["timezone"], message: `未知时区：${value.timezone}` });
+    }
+  });
+
+export type TaskScheduleConfig = z.infer<typeof taskScheduleSchema>;
+
+/**
+ * 严格校验（保存时）：除了字段本身，还要求 cron 能解析并且会触发。
+ */
+export function validateTaskSchedule(raw: unknown): { schedule: TaskScheduleConfig } | { error: string } {
+  const parsed = taskScheduleSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue?.path.length ? issue.path.join(".") : "schedule";
+    return { error: `${where}: ${issue?.message ?? "invalid"}` };
+  }
+
+  const cronResult = parseCronExpression(parsed.data.cronExpression);
+  if ("error" in cronResult) return { error: `cronExpression: ${cronResult.error}` };
+  if (!getNextCronRun(cronResult.cron, new Date(), parsed.data.timezone)) {
+    return { error: "cronExpression: 这个表达式永远不会触发" };
+  }
+
+  return { schedule: { ...parsed.data, taskTypes: [...new Set(parsed.data.taskTypes)] } };
+}
+
+export type TaskScheduleRule = {
+  id: string;
+  name: string;
+  action: TaskScheduleAction;
+  cron: CronSchedule;
+  timezone: string;
+  durationMinutes: number;
+  taskTypes: string[];
+  sourceChannelIds: string[];
+  groupNames: string[];
+};
+
+/**
+ * 宽松解析（读取已保存的行）：cron 不合法时返回 null，调用方直接忽略这条计划。
+ */
+export function toTaskScheduleRule(row: {
+  id: string;
+  name: string;
+  action: TaskScheduleAction;
+  cronExpression: string;
+  timezone: string;
+  durationMinutes: number;
+  taskTypes: unknown;
+  sourceChannelIds: unknown;
+  groupNames: unknown;
+}): TaskScheduleRule | null {
+  const cronResult = parseCronExpression(row.cronExpression);
+  if ("error" in cronResult) return null;
+  const toStrings = (value: unknown) => (Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : []);
+  return {
+    id: row.id,
+    name: row.name,
+    action: row.action,
+    cron: cronResult.cron,
+    timezone: isValidTimeZone(row.timezone) ? row.timezone : "UTC",
+    durationMinutes: row.durationMinutes,
+    taskTypes: toStrings(row.taskTypes),
+    sourceChannelIds: toStrings(row.sourceChannelIds),
+    groupNames: toStrings(row.groupNames),
+  };
+}
+
+export function isChannelInTaskSchedule(
+  rule: Pick<TaskScheduleRule, "sourceChannelIds" | "groupNames">,
+  channel: { id: string; groupName: string },
+): boolean {
+  if (!rule.sourceChannelIds.length && !rule.groupNames.length) return true;
+  return rule.sourceChannelIds.includes(channel.id) || rule.groupNames.includes(channel.groupName);
+}
+
+export type TaskScheduleGate = { allowed: true } | { allowed: false; scheduleName: string; reason: "pause_window" | "outside_window" };
+
+/**
+ * 某个频道的某类任务现在能不能跑：命中任一生效中的 pause_window 就不能；
+ * 有适用的 allow_window 时，必须落在其中至少一个窗口里。
+ */
+export function evaluateTaskScheduleGate(
+  rules: TaskScheduleRule[],
+  channel: { id: string; groupName: string },
+  taskType: string,
+  now: Date,
+): TaskScheduleGate {
+  const applicable = rules.filter(
+    (rule) => rule.action !== "enqueue" && rule.taskTypes.includes(taskType) && isChannelInTaskSchedule(rule, channel),
+  );
+
+  for (const rule of applicable) {
+    if (rule.action !== "pause_window") continue;
+    if (getActiveCronWindow(rule.cron, rule.durationMinutes, now, rule.timezone)) {
+      return { allowed: false, scheduleName: rule.name, reason: "pause_window" };
+    }
+  }
+
+  const allowWindows = applicable.filter((rule) => rule.action === "allow_window");
+  if (allowWindows.length && !allowWindows.some((rule) => getActiveCronWindow(rule.cron, rule.durationMinutes, now, rule.timezone))) {
+    return { allowed: false, scheduleName: allowWindows[0]!.name, reason: "outside_window" };
+  }
+
+  return { allowed: true };
+}
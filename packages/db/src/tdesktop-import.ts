@@ -0,0 +1,179 @@
+/**
+ * Telegram Desktop「Export chat history」导出的 result.json（单个频道，JSON 格式）。
+ * 源频道已删除 / 受限时，用它把历史消息导入为离线源（source_channels.is_offline）。
+ * 这里只做解析与归一化，写库、复制媒体文件由 mirror-service 的导入器负责。
+ */
+import type { messageTypeEnum } from "./schema/message-mappings";
+
+type MessageType = (typeof messageTypeEnum.enumValues)[number];
+
+export type TdesktopImportMedia = {
+  // 相对于导出目录的路径；导出时没勾选媒体（"(File not included...)"）为 null
+  relativePath: string | null;
+  thumbnailPath: string | null;
+  fileName: string | null;
+  mimeType: string | null;
+  fileSize: number | null;
+  width: number | null;
+  height: number | null;
+  durationSec: number | null;
+};
+
+export type TdesktopImportMessage = {
+  sourceMessageId: number;
+  sentAt: Date;
+  editedAt: Date | null;
+  text: string;
+  messageType: MessageType;
+  hasMedia: boolean;
+  media: TdesktopImportMedia | null;
+};
+
+export type TdesktopImportChannel = {
+  name: string;
+  // 导出里的 id 不带 -100 前缀，与 source_channels.telegram_id 的存法一致
+  telegramId: string | null;
+  isPublic: boolean;
+  messages: TdesktopImportMessage[];
+  // 服务消息（置顶、改名等）与无法识别的条目
+  skippedCount: number;
+};
+
+const MEDIA_TYPE_MAP: Record<string, MessageType> = {
+  video_file: "video",
+  video_message: "video",
+  animation: "animation",
+  audio_file: "audio",
+  voice_message: "voice",
+  sticker: "sticker",
+};
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function readString(obj: Record<string, unknown>, key: string): string | null {
+  const value = obj[key];
+  return typeof value === "string" && value.trim() ? value : null;
+}
+
+function readNumber(obj: Record<string, unknown>, key: string): number | null {
+  const value = obj[key];
+  const n = typeof value === "number" ? value : typeof value === "string" && value.trim() ? Number(value) : Number.NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * text 字段可能是字符串，也可能是字符串与 { type, text } 片段混排的数组；拼回纯文本（格式实体不保留）。
+ */
+export function flattenTdesktopText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (!Array.isArray(value)) return "";
+  return value
+    .map((part) => {
+      if (typeof part === "string") return part;
+      const record = asRecord(part);
+      return record && typeof record.text === "string" ? record.text : "";
+    })
+    .join("");
+}
+
+// 优先用 *_unixtime（较新版本才有）；旧版本只有导出机器本地时区的 date 字符串，只能按本地时间解析
+function readDate(obj: Record<string, unknown>, key: string): Date | null {
+  const unix = readNumber(obj, `${key}_unixtime`);
+  if (unix != null) return new Date(unix * 1000);
+  const raw = readString(obj, key);
+  if (!raw) return null;
+  const date = new Date(raw);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// "(File not included. ...)" / "(File exceeds maximum size. ...)" 之类的占位说明不是路径
+function readFilePath(obj: Record<string, unknown>, key: string): string | null {
+  const raw = readString(obj, key);
+  if (!raw || raw.startsWith("(")) return null;
+  return raw;
+}
+
+function basename(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+/**
+ * 归一化一条导出消息；服务消息与缺少 id/日期的条目返回 null。
+ */
+export function toTdesktopImportMessage(raw: unknown): TdesktopImportMessage | null {
+  const msg = asRecord(raw);
+  if (!msg || msg.type !== "message") return null;
+  const id = readNumber(msg, "id");
+  const sentAt = readDate(msg, "date");
+  if (id == null || !Number.isInteger(id) || id <= 0 || !sentAt) return null;
+
+  const text = flattenTdesktopText(msg.text);
+  const editedAt = readDate(msg, "edited");
+  const base = { sourceMessageId: id, sentAt, editedAt, text };
+
+  const hasPhoto = typeof msg.photo === "string";
+  const hasFile = typeof msg.file === "string";
+  if (hasPhoto || hasFile) {
+    const relativePath = hasPhoto ? readFilePath(msg, "photo") : readFilePath(msg, "file");
+    const mediaType = readString(msg, "media_type");
+    const messageType: MessageType = hasPhoto ? "photo" : (mediaType ? MEDIA_TYPE_MAP[mediaType] : undefined) ?? "document";
+    return {
+      ...base,
+      messageType,
+      hasMedia: true,
+      media: {
+        relativePath,
+        thumbnailPath: readFilePath(msg, "thumbnail"),
+        fileName: readString(msg, "file_name") ?? (relativePath ? basename(relativePath) : null),
+        mimeType: readString(msg, "mime_type") ?? (hasPhoto ? "image/jpeg" : null),
+        fileSize: readNumber(msg, hasPhoto ? "photo_file_size" : "file_size"),
+        width: readNumber(msg, "width"),
+        height: readNumber(msg, "height"),
+        durationSec: readNumber(msg, "duration_seconds"),
+      },
+    };
+  }
+
+  // 投票、位置、联系人等没有文件的媒体
+  if (msg.poll || msg.location_information || msg.contact_information || msg.place_name) {
+    return { ...base, messageType: "other", hasMedia: false, media: null };
+  }
+
+  return { ...base, messageType: "text", hasMedia: false, media: null };
+}
+
+/**
+ * 解析 result.json。只接受单个频道 / 群组的导出（“导出全部数据”的 chats.list 需要先挑出对应的那一个）。
+ */
+export function parseTdesktopExport(json: unknown): TdesktopImportChannel {
+  const root = asRecord(json);
+  if (!root || !Array.isArray(root.messages)) {
+    throw new Error("not a Telegram Desktop chat export (result.json with a messages array expected)");
+  }
+
+  const messages: TdesktopImportMessage[] = [];
+  let skippedCount = 0;
+  const seen = new Set<number>();
+  for (const raw of root.messages) {
+    const message = toTdesktopImportMessage(raw);
+    if (!message || seen.has(message.sourceMessageId)) {
+      skippedCount += 1;
+      continue;
+    }
+    seen.add(message.sourceMessageId);
+    messages.push(message);
+  }
+  messages.sort((a, b) => a.sourceMessageId - b.sourceMessageId);
+
+  const id = readNumber(root, "id");
+  const type = readString(root, "type") ?? "";
+  return {
+    name: readString(root, "name") ?? "Telegram Desktop 导入",
+    telegramId: id != null && Number.isInteger(id) && id > 0 ? String(id) : null,
+    isPublic: type === "public_channel" || type === "public_supergroup",
+    messages,
+    skippedCount,
+  };
+}
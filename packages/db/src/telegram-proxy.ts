@@ -0,0 +1,159 @@
+import { z } from "zod";
+
+/**
+ * MTProto 代理（SOCKS5 / MTProxy），存在 settings.telegram_proxy，mirror-service、登录与对话列表接口共用。
+ *
+ * - password / secret 加密存放（与通知密钥一样用 ENCRYPTION_SECRET），解密由调用方负责
+ * - 没有配置（type = none）时兼容旧的 PROXY_HOST / PROXY_PORT 环境变量（SOCKS5，无认证）
+ */
+
+export const TELEGRAM_PROXY_TYPES = ["none", "socks5", "mtproxy"] as const;
+export type TelegramProxyType = (typeof TELEGRAM_PROXY_TYPES)[number];
+
+export type TelegramProxySetting = {
+  type: TelegramProxyType;
+  host: string;
+  port: number;
+  // SOCKS5 认证，可留空
+  username: string;
+  password: string;
+  // MTProxy secret（hex）
+  secret: string;
+};
+
+export const defaultTelegramProxySetting: TelegramProxySetting = {
+  type: "none",
+  host: "",
+  port: 1080,
+  username: "",
+  password: "",
+  secret: "",
+};
+
+// 这些字段加密存放，接口返回时只给出“是否已设置”
+export const TELEGRAM_PROXY_SECRET_FIELDS = ["password", "secret"] as const;
+
+const PROXY_CONNECT_TIMEOUT_SEC = 10;
+const LEGACY_PROXY_PORT = 10808;
+
+/**
+ * gramjs TelegramClient 的 proxy 参数（ProxyInterface）；db 包不依赖 telegram，这里按结构声明。
+ */
+export type TelegramProxyOptions =
+  | { ip: string; port: number; socksType: 5; username?: string; password?: string; timeout: number }
+  | { ip: string; port: number; MTProxy: true; secret: string; timeout: number };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * 宽松解析已保存的配置：缺字段用默认值，类型不对视为未配置。
+ */
+export function parseTelegramProxySetting(raw: unknown): TelegramProxySetting {
+  if (!isRecord(raw)) return { ...defaultTelegramProxySetting };
+  const type = TELEGRAM_PROXY_TYPES.includes(raw.type as TelegramProxyType) ? (raw.type as TelegramProxyType) : "none";
+  const port = typeof raw.port === "number" && Number.isInteger(raw.port) ? raw.port : defaultTelegramProxySetting.port;
+  const str = (value: unknown) => (typeof value === "string" ? value : "");
+  return {
+    type,
+    host: str(raw.host).trim(),
+    port,
+    username: str(raw.username),
+    password: str(raw.password),
+    secret: str(raw.secret),
+  };
+}
+
+const hostSchema = z
+  .string()
+  .trim()
+  .min(1, "host 不能为空")
+  .max(255)
+  .regex(/^[A-Za-z0-9.\-:[\]]+$/, "host 只能是域名或 IP");
+
+const portSchema = z.coerce.number().int().min(1).max(65_535);
+
+const proxyInputSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("none") }),
+  z.object({
+    type: z.literal("socks5"),
+    host: hostSchema,
+    port: portSchema,
+    username: z.string().trim().max(255).default(""),
+    password: z.string().max(255).default(""),
+  }),
+  z.object({
+    type: z.literal("mtproxy"),
+    host: hostSchema,
+    port: portSchema,
+    // gramjs 只支持普通 / dd 开头的 secret，不支持 Fake-TLS（ee 开头）
+    secret: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .refine((v) => !/^ee/.test(v), "不支持 Fake-TLS（ee 开头）的 secret")
+      .refine((v) => /^(dd)?[0-9a-f]{32}$/.test(v), "secret 需要是 32 位十六进制（可带 dd 前缀）"),
+  }),
+]);
+
+/**
+ * 校验（明文）代理配置，返回可保存的完整配置；无关字段清空。
+ */
+export function validateTelegramProxySetting(raw: unknown): { proxy: TelegramProxySetting } | { error: string } {
+  const parsed = proxyInputSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue?.path.length ? issue.path.join(".") : "proxy";
+    return { error: `${where}: ${issue?.message ?? "invalid"}` };
+  }
+  const data = parsed.data;
+  if (data.type === "none") return { proxy: { ...defaultTelegramProxySetting } };
+  if (data.type === "socks5") {
+    return {
+      proxy: { ...defaultTelegramProxySetting, type: "socks5", host: data.host, port: data.port, username: data.username, password: data.password },
+    };
+  }
+  return { proxy: { ...defaultTelegramProxySetting, type: "mtproxy", host: data.host, port: data.port, secret: data.secret } };
+}
+
+/**
+ * 旧的环境变量配置：PROXY_HOST（或 WINDOWS_HOST）+ PROXY_PORT，SOCKS5 无认证。
+ */
+export function parseEnvTelegramProxy(env: Record<string, string | undefined>): TelegramProxySetting | null {
+  const host = (env.PROXY_HOST || env.WINDOWS_HOST || "").trim();
+  if (!host) return null;
+  const port = env.PROXY_PORT ? Number.parseInt(env.PROXY_PORT, 10) : LEGACY_PROXY_PORT;
+  return {
+    ...defaultTelegramProxySetting,
+    type: "socks5",
+    host,
+    port: Number.isInteger(port) && port > 0 && port <= 65_535 ? port : LEGACY_PROXY_PORT,
+  };
+}
+
+/**
+ * 转成 gramjs 的 proxy 参数（password / secret 需已解密）；type = none 返回 null（直连）。
+ */
+export function toTelegramProxyOptions(setting: TelegramProxySetting): TelegramProxyOptions | null {
+  if (setting.type === "none" || !setting.host) return null;
+  if (setting.type === "mtproxy") {
+    return { ip: setting.host, port: setting.port, MTProxy: true, secret: setting.secret, timeout: PROXY_CONNECT_TIMEOUT_SEC };
+  }
+  return {
+    ip: setting.host,
+    port: setting.port,
+    socksType: 5,
+    ...(setting.username ? { username: setting.username, password: setting.password } : {}),
+    timeout: PROXY_CONNECT_TIMEOUT_SEC,
+  };
+}
+
+/**
+ * 日志 / 界面里显示用，不含密码与 secret。
+ */
+export function describeTelegramProxy(setting: TelegramProxySetting): string {
+  if (setting.type === "none" || !setting.host) return "direct";
+  const auth = setting.type === "socks5" && setting.username ? `${setting.username}@` : "";
+  return `${setting.type}://${auth}${setting.host}:${setting.port}`;
+}
@@ -0,0 +1,30 @@
+import path from "node:path";
+import { PGlite } from "@electric-sql/pglite";
+import { pg_trgm } from "@electric-sql/pglite/contrib/pg_trgm";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "./schema";
+
+const MIGRATIONS_FOLDER = path.resolve(__dirname, "../drizzle/migrations");
+
+/**
+ * 仅供测试：内存里的 PGlite，跑完全部迁移，查询可以用真实 SQL 验证。
+ */
+export async function createTestDb() {
+  const client = new PGlite({ extensions: { pg_trgm } });
+  const testDb = drizzle(client, { schema });
+  await migrate(testDb, { migrationsFolder: MIGRATIONS_FOLDER });
+  return testDb;
+}
+
+/**
+ * 配合 vi.mock 使用，把 @tg-back/db 的 db 换成 createTestDb()，其余导出保持不变：
+ *
+ *   vi.mock("@tg-back/db", async (importOriginal) => (await import("@tg-back/db/testing")).withTestDb(importOriginal));
+ *
+ * postgres-js 的连接是惰性的，DATABASE_URL 只要有值即可（见各包的 vitest.config.ts）。
+ */
+export async function withTestDb<T extends object>(importOriginal: () => Promise<T>): Promise<T> {
+  const actual = await importOriginal();
+  return { ...actual, db: await createTestDb() };
+}
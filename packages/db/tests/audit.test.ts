@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { AUDIT_REDACTED, buildAuditChanges, isSecretAuditKey, redactAuditValue } from "../src/audit";
+
+describe("isSecretAuditKey", () => {
+  it("识别密码 / 密钥 / token / hash / session 字段", () => {
+    for (const key of ["access_password", "passwordHash", "secret", "botToken", "accessHash", "session", "telegram_session"]) {
+      expect(isSecretAuditKey(key)).toBe(true);
+    }
+    for (const key of ["sessionVersion", "username", "mirrorMode", "telegram_proxy"]) {
+      expect(isSecretAuditKey(key)).toBe(false);
+    }
+  });
+});
+
+describe("redactAuditValue", () => {
+  it("递归脱敏嵌套对象，Date / bigint 转字符串", () => {
+    const value = redactAuditValue({
+      type: "socks5",
+      password: "p",
+      secret: "",
+      at: new Date("2026-01-02T03:04:05.000Z"),
+      nested: [{ botToken: "x", id: 10n }],
+    });
+    expect(value).toEqual({
+      type: "socks5",
+      password: AUDIT_REDACTED,
+      secret: "",
+      at: "2026-01-02T03:04:05.000Z",
+      nested: [{ botToken: AUDIT_REDACTED, id: "10" }],
+    });
+  });
+});
+
+describe("buildAuditChanges", () => {
+  it("只保留变化的字段，对象比较与键顺序无关", () => {
+    const changes = buildAuditChanges(
+      { mirrorMode: "forward", priority: 0, rules: { a: 1, b: 2 } },
+      { mirrorMode: "copy", priority: 0, rules: { b: 2, a: 1 } },
+    );
+    expect(changes).toEqual({ mirrorMode: { before: "forward", after: "copy" } });
+  });
+
+  it("新建 / 删除时另一侧记为 null", () => {
+    expect(buildAuditChanges(null, { name: "a" })).toEqual({ name: { before: null, after: "a" } });
+    expect(buildAuditChanges({ name: "a", createdAt: new Date(0) }, null)).toEqual({
+      createdAt: { before: "1970-01-01T00:00:00.000Z", after: null },
+      name: { before: "a", after: null },
+    });
+  });
+
+  it("密钥字段换了值仍记录，但两侧都脱敏；清空时保留空值", () => {
+    expect(buildAuditChanges({ access_password: "old" }, { access_password: "new" })).toEqual({
+      access_password: { before: AUDIT_REDACTED, after: AUDIT_REDACTED },
+    });
+    expect(buildAuditChanges({ access_password: "old" }, { access_password: "" })).toEqual({
+      access_password: { before: AUDIT_REDACTED, after: "" },
+    });
+    expect(buildAuditChanges({ access_password: "same" }, { access_password: "same" })).toEqual({});
+  });
+
+  it("嵌套对象里的密钥只在输出时脱敏", () => {
+    const changes = buildAuditChanges(
+      { telegram_proxy: { type: "socks5", host: "a", password: "old" } },
+      { telegram_proxy: { type: "socks5", host: "a", password: "new" } },
+    );
+    expect(changes).toEqual({
+      telegram_proxy: {
+        before: { type: "socks5", host: "a", password: AUDIT_REDACTED },
+        after: { type: "socks5", host: "a", password: AUDIT_REDACTED },
+      },
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyCopyTransforms,
+  parseCopyTransformConfig,
+  validateCopyTransformConfig,
+  type CopyTextEntity,
+} from "../src/copy-transform";
+
+const context = {
+  sourceName: "源频道",
+  sourceUsername: "source",
+  sourceLink: "https://t.me/source",
+  originalLink: "https://t.me/source/42",
+};
+
+function config(raw: unknown) {
+  return parseCopyTransformConfig(raw);
+}
+
+function spans(result: { text: string; entities: Array<{ offset: number; length: number }> }) {
+  return result.entities.map((e) => result.text.slice(e.offset, e.offset + e.length));
+}
+
+describe("applyCopyTransforms", () => {
+  it("正则替换后格式实体仍然指向原来的文字", () => {
+    const text = "AAA 粗体 BBB 斜体";
+    const entities: CopyTextEntity[] = [
+      { offset: 4, length: 2 },
+      { offset: 11, length: 2 },
+    ];
+    const result = applyCopyTransforms(
+      { text, entities },
+      config({ replacements: [{ pattern: "A+", replacement: "x" }, { pattern: "(B)B+", replacement: "[$1]" }] }),
+      context,
+    );
+    expect(result.text).toBe("x 粗体 [B] 斜体");
+    expect(spans(result)).toEqual(["粗体", "斜体"]);
+  });
+
+  it("去掉末尾签名行，并套用模板与页脚", () => {
+    const text = "正文第一行\n正文第二行\n\n via @source\n关注 @source";
+    const result = applyCopyTransforms(
+      { text, entities: [{ offset: 0, length: 2 }] },
+      config({
+        stripFooterPatterns: ["^via @", "^关注"],
+        template: "【{source_name}】{text}",
+        footer: "原文：{original_link}",
+      }),
+      context,
+    );
+    expect(result.text).toBe("【源频道】正文第一行\n正文第二行\n\n原文：https://t.me/source/42");
+    expect(spans(result)).toEqual(["正文"]);
+  });
+
+  it("删除/改写链接和 @提及，文本链接实体同步处理", () => {
+    const text = "看 https://bit.ly/abc。 联系 @someone 详情";
+    const entities: CopyTextEntity[] = [{ offset: 0, length: 1, url: "https://bit.ly/x" }];
+
+    const removed = applyCopyTransforms({ text, entities }, config({ links: "remove", mentions: "remove" }), context);
+    expect(removed.text).toBe("看。 联系 详情");
+    expect(removed.entities).toEqual([]);
+
+    const rewritten = applyCopyTransforms(
+      { text, entities },
+      config({
+        links: "rewrite",
+        linkRewrites: [{ pattern: "bit\\.ly", replacement: "example.com" }],
+        mentions: "replace",
+        mentionReplacement: "@mirror",
+      }),
+      context,
+    );
+    expect(rewritten.text).toBe("看 https://example.com/abc。 联系 @mirror 详情");
+    expect(rewritten.entities[0]).toMatchObject({ offset: 0, length: 1, url: "https://example.com/x" });
+  });
+
+  it("正文被删空时不套模板", () => {
+    const result = applyCopyTransforms(
+      { text: "https://t.me/abc" },
+      config({ links: "remove", footer: "footer" }),
+      context,
+    );
+    expect(result.text).toBe("");
+  });
+});
+
+describe("parse / validate copy transforms", () => {
+  it("读取时不合法整体回退为不转换，保存时返回错误", () => {
+    expect(parseCopyTransformConfig({ replacements: [{ pattern: "(" }] }).replacements).toEqual([]);
+    expect(parseCopyTransformConfig(null).template).toBe("{text}");
+
+    const badRegex = validateCopyTransformConfig({ replacements: [{ pattern: "(" }] });
+    expect("error" in badRegex && badRegex.error).toMatch(/^invalid regex/);
+    const badTemplate = validateCopyTransformConfig({ template: "no placeholder" });
+    expect("error" in badTemplate && badTemplate.error).toMatch(/^template:/);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { classifyGapCandidates, collapseIdsToRanges, toBackfillRange } from "../src/gap-scan";
+
+describe("collapseIdsToRanges", () => {
+  it("合并连续 id 并去重排序", () => {
+    expect(collapseIdsToRanges([5, 3, 4, 9, 4, 11, 10])).toEqual([
+      { startId: 3, endId: 5, count: 3 },
+      { startId: 9, endId: 11, count: 3 },
+    ]);
+  });
+});
+
+describe("classifyGapCandidates", () => {
+  it("区分漏掉、服务消息和已删除", () => {
+    const result = classifyGapCandidates(
+      [
+        { startId: 10, endId: 14 },
+        { startId: 20, endId: 20 },
+      ],
+      [
+        { id: 11, isService: false },
+        { id: 12, isService: false },
+        { id: 13, isService: true },
+        { id: 20, isService: false },
+        // 区间外的边界消息忽略
+        { id: 15, isService: false },
+      ],
+    );
+    expect(result.candidateCount).toBe(6);
+    expect(result.missedCount).toBe(3);
+    expect(result.serviceCount).toBe(1);
+    expect(result.deletedCount).toBe(2);
+    expect(result.missedRanges).toEqual([
+      { startId: 11, endId: 12, count: 2 },
+      { startId: 20, endId: 20, count: 1 },
+    ]);
+  });
+
+  it("源频道里都不存在时全部算删除", () => {
+    const result = classifyGapCandidates([{ startId: 1, endId: 3 }], []);
+    expect(result.deletedCount).toBe(3);
+    expect(result.missedRanges).toEqual([]);
+  });
+});
+
+describe("toBackfillRange", () => {
+  it("覆盖所有漏掉的区间", () => {
+    expect(toBackfillRange([{ startId: 20, endId: 22 }, { startId: 5, endId: 5 }])).toEqual({ startId: 5, endId: 22 });
+    expect(toBackfillRange([])).toBeNull();
+  });
+});
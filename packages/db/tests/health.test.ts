@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_HEALTH_THRESHOLDS, evaluateHealth, type HealthInput } from "../src/health";
+
+const healthy: HealthInput = {
+  dbLatencyMs: 12,
+  heartbeatAgeMs: 10_000,
+  accounts: { usable: 1, failing: 0, loggedOut: 0 },
+  channels: { active: 3, error: 0 },
+  oldestPendingTaskAgeMs: null,
+};
+
+describe("evaluateHealth", () => {
+  it("全部正常时为 healthy", () => {
+    expect(evaluateHealth(healthy).status).toBe("healthy");
+  });
+
+  it("数据库不可用时其它检查标记为未检查", () => {
+    const report = evaluateHealth({ dbLatencyMs: null, dbError: "timeout" });
+    expect(report.status).toBe("unhealthy");
+    expect(report.checks.database.message).toContain("timeout");
+    expect(report.checks.mirrorService.message).toContain("not checked");
+  });
+
+  it("心跳按周期分为迟到和过期", () => {
+    const late = DEFAULT_HEALTH_THRESHOLDS.heartbeatDegradedMs + 1;
+    const stale = DEFAULT_HEALTH_THRESHOLDS.heartbeatUnhealthyMs + 1;
+    expect(evaluateHealth({ ...healthy, heartbeatAgeMs: late }).checks.mirrorService.status).toBe("degraded");
+    expect(evaluateHealth({ ...healthy, heartbeatAgeMs: stale }).status).toBe("unhealthy");
+    expect(evaluateHealth({ ...healthy, heartbeatAgeMs: null }).status).toBe("unhealthy");
+  });
+
+  it("没有可用账号为 unhealthy，部分账号失败为 degraded", () => {
+    expect(evaluateHealth({ ...healthy, accounts: { usable: 0, failing: 1, loggedOut: 0 } }).status).toBe("unhealthy");
+    expect(evaluateHealth({ ...healthy, accounts: { usable: 1, failing: 1, loggedOut: 0 } }).status).toBe("degraded");
+  });
+
+  it("频道报错和队列积压只会 degraded", () => {
+    expect(evaluateHealth({ ...healthy, channels: { active: 3, error: 3 } }).status).toBe("degraded");
+    expect(evaluateHealth({ ...healthy, oldestPendingTaskAgeMs: 24 * 3600_000 }).status).toBe("degraded");
+    expect(evaluateHealth({ ...healthy, dbLatencyMs: 900 }).checks.database.status).toBe("degraded");
+  });
+});
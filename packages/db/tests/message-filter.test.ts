@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateMessageFilterRules,
+  extractLinkDomains,
+  keywordsToMessageFilterRule,
+  parseMessageFilterRules,
+  validateMessageFilterRules,
+  type MessageFilterRule,
+} from "../src/message-filter";
+import { parseSettingValue } from "../src/settings-parse";
+
+const base = { text: "", messageType: "text", hasMedia: false, forwardedFrom: null };
+
+describe("evaluateMessageFilterRules", () => {
+  it("all = AND，any = OR，并返回命中原因", () => {
+    const rules: MessageFilterRule[] = [
+      {
+        id: "r1",
+        name: "短链推广",
+        enabled: true,
+        match: "all",
+        conditions: [
+          { type: "link_domain", domains: ["bit.ly"] },
+          { type: "text_length", max: 50 },
+        ],
+      },
+    ];
+
+    const hit = evaluateMessageFilterRules(rules, { ...base, text: "点这里 https://bit.ly/abc" });
+    expect(hit?.ruleId).toBe("r1");
+    expect(hit?.reason).toBe('rule "短链推广": link_domain(bit.ly) AND text_length(0..50)');
+
+    expect(evaluateMessageFilterRules(rules, { ...base, text: `https://bit.ly/abc ${"x".repeat(60)}` })).toBeNull();
+    expect(evaluateMessageFilterRules([{ ...rules[0]!, match: "any" }], { ...base, text: "短文本" })?.reason).toBe(
+      'rule "短链推广": text_length(0..50)',
+    );
+  });
+
+  it("支持正则、话题、类型、媒体、取反以及禁用规则", () => {
+    const rules: MessageFilterRule[] = [
+      { id: "off", name: "", enabled: false, match: "all", conditions: [{ type: "keyword", values: ["hello"] }] },
+      {
+        id: "r2",
+        name: "",
+        enabled: true,
+        match: "all",
+        conditions: [
+          { type: "regex", pattern: "^\\s*广告", flags: "i" },
+          { type: "hashtag", tags: ["#Promo"] },
+          { type: "message_type", types: ["photo"] },
+          { type: "has_media", value: true },
+          { type: "keyword", values: ["正品"], negate: true },
+        ],
+      },
+    ];
+
+    const input = { ...base, text: "广告 hello #promo", messageType: "photo", hasMedia: true };
+    expect(evaluateMessageFilterRules(rules, input)?.ruleId).toBe("r2");
+    expect(evaluateMessageFilterRules(rules, { ...input, text: "广告 hello #promo 正品" })).toBeNull();
+  });
+
+  it("转发来源未知时不命中（包括取反）", () => {
+    const rules: MessageFilterRule[] = [
+      { id: "fwd", name: "", enabled: true, match: "all", conditions: [{ type: "forwarded", sources: ["@SpamChannel"] }] },
+      { id: "nfwd", name: "", enabled: true, match: "all", conditions: [{ type: "forwarded", sources: [], negate: true }] },
+    ];
+    expect(evaluateMessageFilterRules(rules, { ...base, forwardedFrom: ["spamchannel"] })?.ruleId).toBe("fwd");
+    expect(evaluateMessageFilterRules(rules, { ...base, forwardedFrom: null })?.ruleId).toBe("nfwd");
+    expect(evaluateMessageFilterRules(rules, { ...base, forwardedFrom: undefined })).toBeNull();
+  });
+
+  it("旧版关键词列表等价于一条 any 规则", () => {
+    const rule = keywordsToMessageFilterRule(["spam", "广告"])!;
+    expect(evaluateMessageFilterRules([rule], { ...base, text: "这是广告" })?.reason).toBe('rule "关键词": keyword(spam|广告)');
+  });
+});
+
+describe("extractLinkDomains", () => {
+  it("识别带协议/www/路径的链接，忽略文件名", () => {
+    expect(extractLinkDomains("see https://Sub.Example.com/x www.foo.org t.me/chan file.txt", ["https://bar.io"])).toEqual([
+      "sub.example.com",
+      "foo.org",
+      "t.me",
+      "bar.io",
+    ]);
+  });
+});
+
+describe("parse / validate rules", () => {
+  it("读取时丢弃不合法的规则，保存时返回错误", () => {
+    const raw = [
+      { id: "ok", conditions: [{ type: "has_media", value: true }] },
+      { id: "bad-regex", conditions: [{ type: "regex", pattern: "(" }] },
+      { id: "empty", conditions: [] },
+    ];
+    expect(parseMessageFilterRules(raw).map((r) => r.id)).toEqual(["ok"]);
+    expect(parseSettingValue("message_filter_rules", raw).map((r) => r.id)).toEqual(["ok"]);
+    expect(parseSettingValue("message_filter_rules", "not-an-array")).toEqual([]);
+
+    const schemaError = validateMessageFilterRules(raw);
+    expect("error" in schemaError && schemaError.error).toMatch(/^2\.conditions:/);
+    const regexError = validateMessageFilterRules(raw.slice(0, 2));
+    expect("error" in regexError && regexError.error).toMatch(/^bad-regex: invalid regex/);
+  });
+});
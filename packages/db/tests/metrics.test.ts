@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { createMetricsRegistry, formatPrometheusMetrics } from "../src/metrics";
+
+describe("formatPrometheusMetrics", () => {
+  it("输出 HELP/TYPE 并转义标签值", () => {
+    const text = formatPrometheusMetrics([
+      {
+        name: "tg_back_test",
+        help: "多行\n说明",
+        type: "gauge",
+        samples: [{ labels: { name: 'a"b\\c', skip: null }, value: Infinity }],
+      },
+    ]);
+    expect(text).toBe('# HELP tg_back_test 多行\\n说明\n# TYPE tg_back_test gauge\ntg_back_test{name="a\\"b\\\\c"} +Inf\n');
+  });
+});
+
+describe("createMetricsRegistry", () => {
+  it("counter 按标签累加，gauge 可以整组重置", async () => {
+    const registry = createMetricsRegistry();
+    const counter = registry.counter("tg_back_events_total", "events", ["level"]);
+    const gauge = registry.gauge("tg_back_subscriptions", "subscriptions", ["account"]);
+    counter.inc({ level: "warn" });
+    counter.inc({ level: "warn" }, 2);
+    counter.inc({ level: "warn" }, -1);
+    gauge.set({ account: "old" }, 3);
+    registry.addCollector(() => {
+      gauge.reset();
+      gauge.set({ account: "main" }, 1);
+    });
+
+    const text = await registry.render();
+    expect(text).toContain('tg_back_events_total{level="warn"} 3');
+    expect(text).toContain('tg_back_subscriptions{account="main"} 1');
+    expect(text).not.toContain("old");
+  });
+
+  it("histogram 输出累积桶、+Inf、_sum 和 _count", async () => {
+    const registry = createMetricsRegistry();
+    const histogram = registry.histogram("tg_back_latency_seconds", "latency", { labelNames: ["method"], buckets: [1, 0.1] });
+    histogram.observe({ method: "send" }, 0.05);
+    histogram.observe({ method: "send" }, 0.5);
+    histogram.observe({ method: "send" }, 3);
+
+    const lines = (await registry.render()).split("\n");
+    expect(lines).toContain('tg_back_latency_seconds_bucket{method="send",le="0.1"} 1');
+    expect(lines).toContain('tg_back_latency_seconds_bucket{method="send",le="1"} 2');
+    expect(lines).toContain('tg_back_latency_seconds_bucket{method="send",le="+Inf"} 3');
+    expect(lines).toContain('tg_back_latency_seconds_sum{method="send"} 3.55');
+    expect(lines).toContain('tg_back_latency_seconds_count{method="send"} 3');
+  });
+
+  it("拒绝非法或重复的指标名", () => {
+    const registry = createMetricsRegistry();
+    registry.counter("tg_back_ok_total", "ok");
+    expect(() => registry.counter("tg_back_ok_total", "dup")).toThrow();
+    expect(() => registry.gauge("tg-back", "bad")).toThrow();
+    expect(() => registry.histogram("tg_back_h", "bad", { labelNames: ["le"] })).toThrow();
+  });
+});
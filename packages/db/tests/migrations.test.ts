@@ -0,0 +1,38 @@
+import { eq, sql } from "drizzle-orm";
+import { describe, expect, it } from "vitest";
+import * as schema from "../src/schema";
+import { createTestDb } from "../src/testing";
+
+describe("migrations", () => {
+  it("升级后已有频道保持旧行为：编辑 / 删除只记录，不改动镜像", async () => {
+    const db = await createTestDb();
+    const [channel] = await db
+      .insert(schema.sourceChannels)
+      .values({ channelIdentifier: "@source", name: "source" })
+      .returning();
+    expect(channel!.editSyncMode).toBe("record");
+    expect(channel!.deletionSyncMode).toBe("record");
+  });
+
+  it("审计日志只能追加：修改、删除、清空都会被拒绝，删除用户时仍会置空 actor_user_id", async () => {
+    const db = await createTestDb();
+    const [user] = await db
+      .insert(schema.webUsers)
+      .values({ username: "alice", passwordHash: "scrypt$1$1$1$a$b", role: "admin" })
+      .returning({ id: schema.webUsers.id });
+    const [log] = await db
+      .insert(schema.auditLogs)
+      .values({ actorUserId: user!.id, actorName: "alice", method: "POST", route: "/api/channels", action: "channel.create", targetType: "channel" })
+      .returning({ id: schema.auditLogs.id });
+    const where = eq(schema.auditLogs.id, log!.id);
+
+    await expect(db.update(schema.auditLogs).set({ actorName: "bob" }).where(where)).rejects.toThrow();
+    await expect(db.update(schema.auditLogs).set({ actorUserId: null, actorName: "bob" }).where(where)).rejects.toThrow();
+    await expect(db.delete(schema.auditLogs).where(where)).rejects.toThrow();
+    await expect(db.execute(sql`truncate table audit_logs`)).rejects.toThrow();
+
+    await db.delete(schema.webUsers).where(eq(schema.webUsers.id, user!.id));
+    const [row] = await db.select().from(schema.auditLogs).where(where);
+    expect(row).toMatchObject({ actorUserId: null, actorName: "alice" });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { partitionMirrorMessageIds, summarizeMirrorIntegrity } from "../src/mirror-integrity";
+
+describe("partitionMirrorMessageIds", () => {
+  it("按返回的 id 区分存在和缺失", () => {
+    expect(partitionMirrorMessageIds([10, 11, 12], [10, undefined, 12])).toEqual({ present: [10, 12], missing: [11] });
+  });
+
+  it("返回结果缺位或乱序时不会错位", () => {
+    expect(partitionMirrorMessageIds([1, 2, 3], [3, 1])).toEqual({ present: [1, 3], missing: [2] });
+  });
+});
+
+describe("summarizeMirrorIntegrity", () => {
+  it("还没核对过时为 unknown", () => {
+    const summary = summarizeMirrorIntegrity({ mirrored: 100, verified: 0, missing: 0 });
+    expect(summary.level).toBe("unknown");
+    expect(summary.score).toBeNull();
+    expect(summary.coverage).toBe(0);
+  });
+
+  it("按已核对的消息计算分数和覆盖率", () => {
+    const summary = summarizeMirrorIntegrity({ mirrored: 200, verified: 100, missing: 1 });
+    expect(summary.score).toBeCloseTo(0.99);
+    expect(summary.coverage).toBeCloseTo(0.5);
+    expect(summary.level).toBe("warn");
+  });
+
+  it("缺失较多时为 error，没有缺失为 ok", () => {
+    expect(summarizeMirrorIntegrity({ mirrored: 100, verified: 100, missing: 10 }).level).toBe("error");
+    expect(summarizeMirrorIntegrity({ mirrored: 100, verified: 100, missing: 0 }).level).toBe("ok");
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildWebhookBody,
+  getNotificationRetryDelayMs,
+  matchesNotificationRule,
+  NOTIFICATION_MAX_ATTEMPTS,
+  signNotificationBody,
+  validateNotificationTarget,
+  verifyNotificationSignature,
+  type NotificationEvent,
+} from "../src/notifications";
+
+const event: NotificationEvent = {
+  id: "00000000-0000-0000-0000-000000000001",
+  level: "error",
+  message: "FLOOD_WAIT_300",
+  sourceChannelId: "c1",
+  sourceChannelName: "频道一",
+  createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("matchesNotificationRule", () => {
+  it("按级别和频道过滤，频道列表为空时包含全局事件", () => {
+    expect(matchesNotificationRule({ minLevel: "warn", sourceChannelIds: [] }, event)).toBe(true);
+    expect(matchesNotificationRule({ minLevel: "warn", sourceChannelIds: [] }, { level: "info", sourceChannelId: null })).toBe(false);
+    expect(matchesNotificationRule({ minLevel: "info", sourceChannelIds: [] }, { level: "info", sourceChannelId: null })).toBe(true);
+    expect(matchesNotificationRule({ minLevel: "info", sourceChannelIds: ["c2"] }, event)).toBe(false);
+    expect(matchesNotificationRule({ minLevel: "info", sourceChannelIds: ["c2"] }, { level: "error", sourceChannelId: null })).toBe(false);
+  });
+});
+
+describe("webhook signature", () => {
+  it("签名可被接收方校验，篡改或过期都会失败", () => {
+    const body = buildWebhookBody(event);
+    const timestamp = "1767225600";
+    const now = 1767225600 * 1000;
+    const signature = signNotificationBody("s3cret", timestamp, body);
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyNotificationSignature("s3cret", { timestamp, body, signature }, { now })).toBe(true);
+    expect(verifyNotificationSignature("other", { timestamp, body, signature }, { now })).toBe(false);
+    expect(verifyNotificationSignature("s3cret", { timestamp, body: `${body} `, signature }, { now })).toBe(false);
+    expect(verifyNotificationSignature("s3cret", { timestamp, body, signature }, { now: now + 3_600_000 })).toBe(false);
+  });
+});
+
+describe("validateNotificationTarget / retry", () => {
+  it("校验各类目标配置", () => {
+    expect(validateNotificationTarget("webhook", { url: "http://127.0.0.1:9000/hook" })).toEqual({
+      target: { type: "webhook", url: "http://127.0.0.1:9000/hook", secret: "" },
+    });
+    expect("error" in validateNotificationTarget("webhook", { url: "ftp://x" })).toBe(true);
+    expect(validateNotificationTarget("telegram_bot", { botToken: "1:abc", chatId: "x" })).toEqual({
+      error: "chatId: chatId 需要是数字 ID 或 @username",
+    });
+    const email = validateNotificationTarget("email", { host: "smtp.example.com", from: "a@example.com", to: ["b@example.com"] });
+    expect("target" in email && email.target).toMatchObject({ port: 587, security: "starttls" });
+  });
+
+  it("指数退避，达到上限后不再重试", () => {
+    expect(getNotificationRetryDelayMs(1)).toBe(30_000);
+    expect(getNotificationRetryDelayMs(3)).toBe(120_000);
+    expect(getNotificationRetryDelayMs(NOTIFICATION_MAX_ATTEMPTS)).toBeNull();
+  });
+});
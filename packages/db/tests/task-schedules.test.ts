@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateTaskScheduleGate,
+  getActiveCronWindow,
+  getNextCronRun,
+  getNextCronRuns,
+  parseCronExpression,
+  toTaskScheduleRule,
+  validateTaskSchedule,
+  type CronSchedule,
+  type TaskScheduleAction,
+} from "../src/task-schedules";
+
+function cron(expression: string): CronSchedule {
+  const result = parseCronExpression(expression);
+  if ("error" in result) throw new Error(result.error);
+  return result.cron;
+}
+
+function rule(
+  action: TaskScheduleAction,
+  cronExpression: string,
+  extra: Partial<{ durationMinutes: number; taskTypes: string[]; groupNames: string[]; timezone: string }> = {},
+) {
+  const parsed = toTaskScheduleRule({
+    id: `${action}-${cronExpression}`,
+    name: `${action} ${cronExpression}`,
+    action,
+    cronExpression,
+    timezone: extra.timezone ?? "UTC",
+    durationMinutes: extra.durationMinutes ?? 60,
+    taskTypes: extra.taskTypes ?? ["history_full"],
+    sourceChannelIds: [],
+    groupNames: extra.groupNames ?? [],
+  });
+  if (!parsed) throw new Error("invalid rule");
+  return parsed;
+}
+
+describe("parseCronExpression", () => {
+  it("支持列表、范围、步长、英文缩写和简写", () => {
+    expect("cron" in parseCronExpression("*/15 1-5,22 * jan-mar mon-fri")).toBe(true);
+    expect("cron" in parseCronExpression("@daily")).toBe(true);
+    expect("cron" in parseCronExpression("5/10 * * * 7")).toBe(true);
+  });
+
+  it("字段数量或取值不对时报错", () => {
+    expect(parseCronExpression("* * * *")).toEqual({ error: expect.stringContaining("5 段") });
+    expect(parseCronExpression("60 * * * *")).toEqual({ error: expect.stringContaining("分钟") });
+    expect(parseCronExpression("* 5-1 * * *")).toEqual({ error: expect.stringContaining("小时") });
+    expect(parseCronExpression("*/0 * * * *")).toEqual({ error: expect.stringContaining("步长") });
+  });
+});
+
+describe("getNextCronRun", () => {
+  it("严格晚于给定时间，精确到分钟", () => {
+    const next = getNextCronRun(cron("30 2 * * *"), new Date("2026-03-01T02:30:00Z"));
+    expect(next?.toISOString()).toBe("2026-03-02T02:30:00.000Z");
+  });
+
+  it("日和周都指定时取“或”", () => {
+    // 2026-03-02 是周一
+    const runs = getNextCronRuns(cron("0 0 15 * mon"), new Date("2026-03-01T12:00:00Z"), 3);
+    expect(runs.map((d) => d.toISOString())).toEqual([
+      "2026-03-02T00:00:00.000Z",
+      "2026-03-09T00:00:00.000Z",
+      "2026-03-15T00:00:00.000Z",
+    ]);
+  });
+
+  it("按计划的时区解释", () => {
+    const next = getNextCronRun(cron("0 9 * * *"), new Date("2026-03-01T00:00:00Z"), "Asia/Shanghai");
+    expect(next?.toISOString()).toBe("2026-03-01T01:00:00.000Z");
+  });
+
+  it("夏令时切换当天不会跳过午夜", () => {
+    // 2026-03-08 美国开始夏令时
+    const next = getNextCronRun(cron("0 0 * * *"), new Date("2026-03-08T06:30:00Z"), "America/New_York");
+    expect(next?.toISOString()).toBe("2026-03-09T04:00:00.000Z");
+  });
+
+  it("永远不会触发的表达式返回 null", () => {
+    expect(getNextCronRun(cron("0 0 31 2 *"), new Date("2026-01-01T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("getActiveCronWindow", () => {
+  it("窗口是 [开始, 开始 + 时长)", () => {
+    const c = cron("0 22 * * *");
+    expect(getActiveCronWindow(c, 120, new Date("2026-03-01T21:59:00Z"))).toBeNull();
+    expect(getActiveCronWindow(c, 120, new Date("2026-03-01T23:30:00Z"))?.end.toISOString()).toBe("2026-03-02T00:00:00.000Z");
+    expect(getActiveCronWindow(c, 120, new Date("2026-03-02T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("evaluateTaskScheduleGate", () => {
+  const channel = { id: "c1", groupName: "low" };
+  const night = new Date("2026-03-01T23:00:00Z");
+  const noon = new Date("2026-03-01T12:00:00Z");
+
+  it("allow_window 之外不放行", () => {
+    const rules = [rule("allow_window", "0 22 * * *", { durationMinutes: 480 })];
+    expect(evaluateTaskScheduleGate(rules, channel, "history_full", night)).toEqual({ allowed: true });
+    expect(evaluateTaskScheduleGate(rules, channel, "history_full", noon)).toMatchObject({ allowed: false, reason: "outside_window" });
+    expect(evaluateTaskScheduleGate(rules, channel, "retry_failed", noon)).toEqual({ allowed: true });
+  });
+
+  it("pause_window 只作用于范围内的分组", () => {
+    const rules = [rule("pause_window", "0 22 * * *", { durationMinutes: 480, taskTypes: ["realtime"], groupNames: ["low"] })];
+    expect(evaluateTaskScheduleGate(rules, channel, "realtime", night)).toMatchObject({ allowed: false, reason: "pause_window" });
+    expect(evaluateTaskScheduleGate(rules, { id: "c2", groupName: "" }, "realtime", night)).toEqual({ allowed: true });
+  });
+});
+
+describe("validateTaskSchedule", () => {
+  it("定时入队只能选一种支持的任务类型", () => {
+    const base = { name: "夜间重试", action: "enqueue", cronExpression: "0 3 * * *" };
+    expect(validateTaskSchedule({ ...base, taskTypes: ["retry_failed"] })).toHaveProperty("schedule");
+    expect(validateTaskSchedule({ ...base, taskTypes: ["realtime"] })).toHaveProperty("error");
+    expect(validateTaskSchedule({ ...base, taskTypes: ["retry_failed", "history_partial"] })).toHaveProperty("error");
+  });
+
+  it("拒绝未知时区和不会触发的表达式", () => {
+    const base = { name: "x", action: "pause_window", taskTypes: ["realtime"] };
+    expect(validateTaskSchedule({ ...base, cronExpression: "0 0 * * *", timezone: "Mars/Base" })).toHaveProperty("error");
+    expect(validateTaskSchedule({ ...base, cronExpression: "0 0 30 2 *" })).toHaveProperty("error");
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { flattenTdesktopText, parseTdesktopExport, toTdesktopImportMessage } from "../src/tdesktop-import";
+
+describe("flattenTdesktopText", () => {
+  it("拼接字符串与格式片段", () => {
+    expect(flattenTdesktopText("plain")).toBe("plain");
+    expect(flattenTdesktopText(["a ", { type: "bold", text: "b" }, { type: "link", text: " https://x.y" }])).toBe("a b https://x.y");
+    expect(flattenTdesktopText(undefined)).toBe("");
+  });
+});
+
+describe("toTdesktopImportMessage", () => {
+  it("解析带编辑时间的文本消息", () => {
+    const msg = toTdesktopImportMessage({
+      id: 5,
+      type: "message",
+      date: "2024-05-01T08:09:10",
+      date_unixtime: "1714550950",
+      edited: "2024-05-01T09:00:00",
+      edited_unixtime: "1714554000",
+      text: "hi",
+    });
+    expect(msg).toEqual({
+      sourceMessageId: 5,
+      sentAt: new Date(1714550950 * 1000),
+      editedAt: new Date(1714554000 * 1000),
+      text: "hi",
+      messageType: "text",
+      hasMedia: false,
+      media: null,
+    });
+  });
+
+  it("识别媒体类型并保留元数据；未导出的文件没有路径", () => {
+    const voice = toTdesktopImportMessage({
+      id: 6,
+      type: "message",
+      date_unixtime: "1714550950",
+      file: "voice_messages/audio_1.ogg",
+      media_type: "voice_message",
+      mime_type: "audio/ogg",
+      duration_seconds: 3,
+      text: "",
+    });
+    expect(voice?.messageType).toBe("voice");
+    expect(voice?.media).toMatchObject({ relativePath: "voice_messages/audio_1.ogg", fileName: "audio_1.ogg", mimeType: "audio/ogg", durationSec: 3 });
+
+    const photo = toTdesktopImportMessage({
+      id: 7,
+      type: "message",
+      date_unixtime: "1714550950",
+      photo: "(File not included. Change data exporting settings to download.)",
+      width: 800,
+      height: 600,
+      text: "",
+    });
+    expect(photo?.messageType).toBe("photo");
+    expect(photo?.media).toMatchObject({ relativePath: null, width: 800, height: 600, mimeType: "image/jpeg" });
+  });
+
+  it("服务消息返回 null", () => {
+    expect(toTdesktopImportMessage({ id: 8, type: "service", date_unixtime: "1714550950", action: "pin_message" })).toBeNull();
+  });
+});
+
+describe("parseTdesktopExport", () => {
+  it("按 id 排序去重并统计跳过的条目", () => {
+    const result = parseTdesktopExport({
+      name: "频道",
+      type: "public_channel",
+      id: 1234567890,
+      messages: [
+        { id: 3, type: "message", date_unixtime: "1714550950", text: "c" },
+        { id: 1, type: "message", date_unixtime: "1714550950", text: "a" },
+        { id: 2, type: "service", date_unixtime: "1714550950" },
+        { id: 1, type: "message", date_unixtime: "1714550950", text: "dup" },
+      ],
+    });
+    expect(result.name).toBe("频道");
+    expect(result.telegramId).toBe("1234567890");
+    expect(result.isPublic).toBe(true);
+    expect(result.messages.map((m) => m.sourceMessageId)).toEqual([1, 3]);
+    expect(result.skippedCount).toBe(2);
+  });
+
+  it("不是单个聊天的导出时报错", () => {
+    expect(() => parseTdesktopExport({ chats: { list: [] } })).toThrow();
+  });
+});
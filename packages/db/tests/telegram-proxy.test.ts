@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeTelegramProxy,
+  parseEnvTelegramProxy,
+  parseTelegramProxySetting,
+  toTelegramProxyOptions,
+  validateTelegramProxySetting,
+} from "../src/telegram-proxy";
+
+describe("validateTelegramProxySetting", () => {
+  it("SOCKS5 校验 host/port，端口可以是字符串", () => {
+    const result = validateTelegramProxySetting({ type: "socks5", host: " 10.0.0.2 ", port: "1080", username: "u", password: "p" });
+    expect(result).toEqual({
+      proxy: { type: "socks5", host: "10.0.0.2", port: 1080, username: "u", password: "p", secret: "" },
+    });
+    expect(validateTelegramProxySetting({ type: "socks5", host: "", port: 1080 })).toHaveProperty("error");
+    expect(validateTelegramProxySetting({ type: "socks5", host: "a.b", port: 70000 })).toHaveProperty("error");
+  });
+
+  it("MTProxy secret 只接受 32 位 hex（可带 dd），拒绝 Fake-TLS", () => {
+    const hex = "0123456789ABCDEF0123456789abcdef";
+    expect(validateTelegramProxySetting({ type: "mtproxy", host: "mt.example.com", port: 443, secret: hex })).toEqual({
+      proxy: { type: "mtproxy", host: "mt.example.com", port: 443, username: "", password: "", secret: hex.toLowerCase() },
+    });
+    expect(validateTelegramProxySetting({ type: "mtproxy", host: "mt.example.com", port: 443, secret: `dd${hex}` })).toHaveProperty(
+      "proxy",
+    );
+    const fakeTls = validateTelegramProxySetting({ type: "mtproxy", host: "mt.example.com", port: 443, secret: `ee${hex}` });
+    expect("error" in fakeTls && fakeTls.error).toContain("Fake-TLS");
+  });
+
+  it("未知类型报错，none 清空其它字段", () => {
+    expect(validateTelegramProxySetting({ type: "http" })).toHaveProperty("error");
+    expect(validateTelegramProxySetting({ type: "none", host: "x" })).toEqual({
+      proxy: { type: "none", host: "", port: 1080, username: "", password: "", secret: "" },
+    });
+  });
+});
+
+describe("toTelegramProxyOptions", () => {
+  it("转换成 gramjs 的 proxy 参数", () => {
+    expect(toTelegramProxyOptions(parseTelegramProxySetting({ type: "socks5", host: "h", port: 1, username: "", password: "x" }))).toEqual({
+      ip: "h",
+      port: 1,
+      socksType: 5,
+      timeout: 10,
+    });
+    expect(toTelegramProxyOptions(parseTelegramProxySetting({ type: "mtproxy", host: "h", port: 2, secret: "ab" }))).toMatchObject({
+      MTProxy: true,
+      secret: "ab",
+    });
+    expect(toTelegramProxyOptions(parseTelegramProxySetting(null))).toBeNull();
+  });
+});
+
+describe("parseEnvTelegramProxy", () => {
+  it("兼容 PROXY_HOST / PROXY_PORT", () => {
+    expect(parseEnvTelegramProxy({})).toBeNull();
+    const proxy = parseEnvTelegramProxy({ PROXY_HOST: "127.0.0.1" })!;
+    expect(describeTelegramProxy(proxy)).toBe("socks5://127.0.0.1:10808");
+    expect(parseEnvTelegramProxy({ PROXY_HOST: "h", PROXY_PORT: "abc" })!.port).toBe(10808);
+  });
+});